@@ -0,0 +1,67 @@
+/**
+ * Recording database store.
+ *
+ * MVP implementation uses in-memory storage.
+ * Recordings are scoped per-room.
+ */
+
+import { randomUUID } from "crypto";
+import type { Recording, CreateRecordingInput } from "./types.js";
+
+class RecordingStore {
+  private recordings: Map<string, Recording> = new Map();
+
+  /**
+   * Create a new recording record.
+   */
+  async create(input: CreateRecordingInput): Promise<Recording> {
+    const recording: Recording = {
+      id: randomUUID(),
+      roomId: input.roomId,
+      recordedBy: input.recordedBy,
+      recordedByName: input.recordedByName,
+      mimeType: input.mimeType,
+      durationSec: input.durationSec,
+      fileSizeBytes: input.fileSizeBytes,
+      storageKey: input.storageKey,
+      tracklist: input.tracklist,
+      createdAt: new Date(),
+    };
+
+    this.recordings.set(recording.id, recording);
+    console.log(`[recordingStore] Created recording: ${recording.id} for room=${input.roomId}`);
+    return recording;
+  }
+
+  /**
+   * Find a recording by ID.
+   */
+  async findById(id: string): Promise<Recording | null> {
+    return this.recordings.get(id) ?? null;
+  }
+
+  /**
+   * Get all recordings for a room (newest first).
+   */
+  async getRoomRecordings(roomId: string): Promise<Recording[]> {
+    return Array.from(this.recordings.values())
+      .filter((r) => r.roomId === roomId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Get total count.
+   */
+  async count(): Promise<number> {
+    return this.recordings.size;
+  }
+
+  /**
+   * Clear all recordings (for testing).
+   */
+  clear(): void {
+    this.recordings.clear();
+  }
+}
+
+export const recordingStore = new RecordingStore();
@@ -23,6 +23,12 @@ CREATE TABLE IF NOT EXISTS tracks (
   -- Storage
   storage_key VARCHAR(255) NOT NULL, -- Path/key in object storage
 
+  -- Saved hot cues, loops and beat grid (shared TrackCues JSON)
+  cues JSONB,
+
+  -- Measured loudness (shared TrackLoudness JSON: LUFS and true peak)
+  loudness JSONB,
+
   -- Timestamps
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
 
@@ -6,6 +6,7 @@
  */
 
 import { randomUUID } from "crypto";
+import type { TrackCues, TrackLoudness } from "@puid-board/shared";
 import type { Track, CreateTrackInput, TrackQuery } from "./types.js";
 
 class TrackStore {
@@ -25,6 +26,8 @@ class TrackStore {
       fileSizeBytes: input.fileSizeBytes,
       fileHash: input.fileHash,
       storageKey: input.storageKey,
+      cues: null,
+      loudness: null,
       createdAt: new Date(),
     };
 
@@ -75,6 +78,28 @@ class TrackStore {
     return results[0] ?? null;
   }
 
+  /**
+   * Replace a track's saved cues.
+   * Returns the updated track, or null if it doesn't exist.
+   */
+  async updateCues(id: string, cues: TrackCues): Promise<Track | null> {
+    const track = this.tracks.get(id);
+    if (!track) return null;
+    track.cues = cues;
+    return track;
+  }
+
+  /**
+   * Store a track's measured loudness.
+   * Returns the updated track, or null if it doesn't exist.
+   */
+  async updateLoudness(id: string, loudness: TrackLoudness): Promise<Track | null> {
+    const track = this.tracks.get(id);
+    if (!track) return null;
+    track.loudness = loudness;
+    return track;
+  }
+
   /**
    * Delete a track by ID.
    */
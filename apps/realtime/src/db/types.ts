@@ -2,6 +2,8 @@
  * Database types for track storage.
  */
 
+import type { TrackCues, TrackLoudness, RecordingTrack } from "@puid-board/shared";
+
 export interface Track {
   id: string;
   title: string;
@@ -12,6 +14,10 @@ export interface Track {
   fileSizeBytes: number;
   fileHash: string;
   storageKey: string;
+  /** Saved hot cues, loops and beat grid (null until first saved) */
+  cues: TrackCues | null;
+  /** Measured loudness (null until first analyzed) */
+  loudness: TrackLoudness | null;
   createdAt: Date;
 }
 
@@ -61,3 +67,30 @@ export interface SamplerSoundQuery {
   roomId?: string;
   slot?: 0 | 1 | 2 | 3;
 }
+
+/**
+ * Recording record - a master mix recorded in the browser and uploaded to a room
+ */
+export interface Recording {
+  id: string;
+  roomId: string;
+  recordedBy: string;     // Client ID of the recorder
+  recordedByName: string; // Recorder's display name at upload time
+  mimeType: string;
+  durationSec: number;
+  fileSizeBytes: number;
+  storageKey: string;
+  tracklist: RecordingTrack[];
+  createdAt: Date;
+}
+
+export interface CreateRecordingInput {
+  roomId: string;
+  recordedBy: string;
+  recordedByName: string;
+  mimeType: string;
+  durationSec: number;
+  fileSizeBytes: number;
+  storageKey: string;
+  tracklist: RecordingTrack[];
+}
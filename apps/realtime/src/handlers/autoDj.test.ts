@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { handleAutoDjSet, tickAutoDj } from "./autoDj.js";
+import { handleControlGrab } from "./controls.js";
+import { handleDeckPause } from "./deck.js";
+import { roomStore } from "../rooms/store.js";
+import { clearTrackCuesCache } from "../services/trackCues.js";
+import { AUTO_DJ_CLIENT_ID, type QueueItem, type RoomState } from "@puid-board/shared";
+
+// Mock socket.io
+function createMockIO() {
+  const emittedEvents: Array<{ roomId: string; event: string; data: unknown }> = [];
+  return {
+    to: (roomId: string) => ({
+      emit: (event: string, data: unknown) => {
+        emittedEvents.push({ roomId, event, data });
+      },
+    }),
+    emittedEvents,
+  };
+}
+
+function createMockSocket(socketId: string) {
+  const emittedEvents: Array<{ event: string; data: unknown }> = [];
+  return {
+    id: socketId,
+    emit: (event: string, data: unknown) => {
+      emittedEvents.push({ event, data });
+    },
+    emittedEvents,
+  };
+}
+
+type MockIO = ReturnType<typeof createMockIO>;
+type IO = Parameters<typeof tickAutoDj>[0];
+
+// Helper to add a 60s test track to a room's queue
+function addTestQueueItem(room: RoomState, clientId: string, index: number): QueueItem {
+  const queueItem: QueueItem = {
+    id: `q-auto-${index}-${Math.random().toString(36).substring(2, 11)}`,
+    trackId: `track-auto-${index}-${Math.random().toString(36).substring(2, 11)}`,
+    title: `Track ${index}`,
+    durationSec: 60,
+    url: "https://example.com/test-track.mp3",
+    addedBy: clientId,
+    addedAt: Date.now(),
+    status: "queued",
+    source: "upload",
+    youtubeVideoId: null,
+    thumbnailUrl: null,
+  };
+  room.queue.push(queueItem);
+  return queueItem;
+}
+
+/** Enable Auto-DJ over 4 bars (8s at the 120 BPM assumed for tracks without one) */
+function enableAutoDj(io: MockIO, socketId: string, room: RoomState, clientId: string) {
+  const socket = createMockSocket(socketId);
+  handleAutoDjSet(io as unknown as IO, socket as unknown as Parameters<typeof handleAutoDjSet>[1], {
+    type: "AUTO_DJ_SET",
+    roomId: room.roomId,
+    clientId,
+    clientSeq: 1,
+    payload: { enabled: true, mixBars: 4 },
+  });
+  return socket;
+}
+
+function tick(io: MockIO, room: RoomState, serverTs: number) {
+  vi.setSystemTime(serverTs);
+  tickAutoDj(io as unknown as IO, room, serverTs);
+}
+
+describe("Auto-DJ", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(100_000);
+    clearTrackCuesCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("turns on with AUTO_DJ_SET and acks", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-set-${Date.now()}`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId);
+
+    const socket = enableAutoDj(io, socketId, room, clientId);
+
+    expect(room.autoDj).toEqual({ enabled: true, mixBars: 4 });
+    expect(io.emittedEvents.map((e) => e.event)).toEqual(["AUTO_DJ_SET"]);
+    expect(socket.emittedEvents[0]?.event).toBe("EVENT_ACK");
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("does nothing while off", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-off-${Date.now()}`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId);
+    addTestQueueItem(room, clientId, 1);
+
+    tick(io, room, 100_000);
+
+    expect(room.deckA.loadedQueueItemId).toBeNull();
+    expect(io.emittedEvents).toHaveLength(0);
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("starts the next queued track when nothing is playing", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-silence-${Date.now()}`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId);
+    const first = addTestQueueItem(room, clientId, 1);
+    enableAutoDj(io, socketId, room, clientId);
+    io.emittedEvents.length = 0;
+
+    tick(io, room, 100_000);
+
+    expect(room.deckA.loadedQueueItemId).toBe(first.id);
+    expect(room.deckA.playState).toBe("playing");
+    expect(first.status).toBe("playing_A");
+    expect(room.mixer.crossfader).toBe(0);
+    expect(io.emittedEvents.map((e) => e.event)).toEqual(["DECK_LOAD", "DECK_PLAY", "MIXER_VALUE"]);
+    for (const { data } of io.emittedEvents) {
+      expect(data).toMatchObject({ clientId: AUTO_DJ_CLIENT_ID });
+    }
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("mixes into the next track mixBars before the end and marks the last one played", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-mix-${Date.now()}`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId);
+    const first = addTestQueueItem(room, clientId, 1);
+    const second = addTestQueueItem(room, clientId, 2);
+    enableAutoDj(io, socketId, room, clientId);
+    tick(io, room, 100_000);
+    io.emittedEvents.length = 0;
+
+    // 60s track: more than 8s to go
+    tick(io, room, 150_000);
+    expect(room.deckB.loadedQueueItemId).toBeNull();
+    expect(io.emittedEvents).toHaveLength(0);
+
+    // 8s to go: B starts with the next track
+    tick(io, room, 152_000);
+    expect(room.deckB.loadedQueueItemId).toBe(second.id);
+    expect(room.deckB.playState).toBe("playing");
+    expect(room.deckA.playState).toBe("playing");
+    expect(io.emittedEvents.map((e) => e.event)).toEqual(["DECK_LOAD", "DECK_PLAY"]);
+
+    // Halfway through the crossfade
+    tick(io, room, 156_000);
+    expect(room.mixer.crossfader).toBeCloseTo(0.5);
+
+    // Track A has ended: fully on B, A stopped and played
+    io.emittedEvents.length = 0;
+    tick(io, room, 160_000);
+    expect(room.mixer.crossfader).toBe(1);
+    expect(room.deckA.playState).toBe("paused");
+    expect(first.status).toBe("played");
+    expect(second.status).toBe("playing_B");
+    expect(io.emittedEvents.map((e) => e.event)).toEqual(["MIXER_VALUE", "DECK_PAUSE", "QUEUE_ITEM_PLAYED"]);
+
+    // Queue ran dry: B plays out, then stops
+    tick(io, room, 220_000);
+    expect(room.deckB.playState).toBe("paused");
+    expect(second.status).toBe("played");
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("stops as soon as a member grabs a control", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-grab-${Date.now()}`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId);
+    addTestQueueItem(room, clientId, 1);
+    addTestQueueItem(room, clientId, 2);
+    enableAutoDj(io, socketId, room, clientId);
+    tick(io, room, 100_000);
+    tick(io, room, 152_000);
+    tick(io, room, 154_000);
+    const crossfader = room.mixer.crossfader;
+    io.emittedEvents.length = 0;
+
+    const socket = createMockSocket(socketId);
+    handleControlGrab(io as unknown as IO, socket as unknown as Parameters<typeof handleControlGrab>[1], {
+      type: "CONTROL_GRAB",
+      roomId: room.roomId,
+      clientId,
+      clientSeq: 2,
+      payload: { controlId: "crossfader" },
+    });
+
+    expect(room.autoDj.enabled).toBe(false);
+    const stopped = io.emittedEvents.find((e) => e.event === "AUTO_DJ_SET");
+    expect(stopped?.data).toMatchObject({
+      clientId: AUTO_DJ_CLIENT_ID,
+      payload: { enabled: false, mixBars: 4, stoppedBy: clientId },
+    });
+
+    // The mix stays where the member took over
+    tick(io, room, 158_000);
+    expect(room.mixer.crossfader).toBe(crossfader);
+    expect(room.deckA.playState).toBe("playing");
+    expect(room.deckB.playState).toBe("playing");
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("stops when a member pauses a deck and doesn't restart it", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-pause-${Date.now()}`;
+    const djSocketId = `${socketId}-dj`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId);
+    const djId = roomStore.joinRoom(room.roomCode, "Guest", djSocketId)!.clientId;
+    room.members.find((m) => m.clientId === djId)!.role = "dj";
+    addTestQueueItem(room, clientId, 1);
+    addTestQueueItem(room, clientId, 2);
+    enableAutoDj(io, socketId, room, clientId);
+    tick(io, room, 100_000);
+    io.emittedEvents.length = 0;
+
+    const socket = createMockSocket(djSocketId);
+    handleDeckPause(io as unknown as IO, socket as unknown as Parameters<typeof handleDeckPause>[1], {
+      type: "DECK_PAUSE",
+      roomId: room.roomId,
+      clientId: djId,
+      clientSeq: 1,
+      payload: { deckId: "A" },
+    });
+
+    expect(room.autoDj.enabled).toBe(false);
+    expect(io.emittedEvents.map((e) => e.event)).toEqual(["DECK_PAUSE", "AUTO_DJ_SET"]);
+    expect(io.emittedEvents[1]?.data).toMatchObject({ payload: { enabled: false, stoppedBy: djId } });
+
+    // The silence is the member's: the next tick doesn't start a track
+    io.emittedEvents.length = 0;
+    tick(io, room, 101_000);
+    expect(room.deckA.playState).toBe("paused");
+    expect(room.deckB.loadedQueueItemId).toBeNull();
+    expect(io.emittedEvents).toHaveLength(0);
+
+    roomStore.leaveRoom(djSocketId);
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("doesn't start a track over one playing on deck C", () => {
+    const io = createMockIO();
+    const socketId = `auto-dj-four-deck-${Date.now()}`;
+    const { room, clientId } = roomStore.createRoom("Host", socketId, 4);
+    addTestQueueItem(room, clientId, 1);
+    enableAutoDj(io, socketId, room, clientId);
+    room.deckC!.playState = "playing";
+    io.emittedEvents.length = 0;
+
+    tick(io, room, 100_000);
+
+    expect(room.deckA.loadedQueueItemId).toBeNull();
+    expect(room.deckB.loadedQueueItemId).toBeNull();
+    expect(io.emittedEvents).toHaveLength(0);
+
+    roomStore.leaveRoom(socketId);
+  });
+});
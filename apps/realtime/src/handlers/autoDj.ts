@@ -0,0 +1,343 @@
+/**
+ * Auto-DJ for Virtual DJ Rooms: keeps the room playing when nobody is at the decks.
+ *
+ * - AUTO_DJ_SET: Turn Auto-DJ on/off and set how many bars it mixes over
+ * - tickAutoDj (beacon timer): loads the next queued item onto the idle deck,
+ *   starts it mixBars before the playing track ends and crossfades over to it
+ * - stopAutoDj (CONTROL_GRAB, MIXER_SET, DECK_LOAD/PLAY/PAUSE): a member taking
+ *   a control or working a deck turns it off
+ *
+ * Auto-DJ mixes between decks A and B; in a four-deck room a track playing on
+ * C or D still counts as the room playing, so it never starts over one. Its changes go out as ordinary
+ * mutations (DECK_LOAD, DECK_PLAY, DECK_PAUSE, QUEUE_ITEM_PLAYED) and
+ * MIXER_VALUE broadcasts sent as AUTO_DJ_CLIENT_ID, so clients apply them
+ * like any other member's.
+ */
+
+import type { Server, Socket } from "socket.io";
+import {
+  AutoDjSetEventSchema,
+  AUTO_DJ_CLIENT_ID,
+  type AutoDjSetEvent,
+  type ServerMutationEvent,
+  type DeckId,
+  type DeckState,
+  type QueueItem,
+  type RoomState,
+  getDeckState,
+  getCrossfaderSide,
+  getAutoDjMixMs,
+  getDeckRemainingMs,
+} from "@puid-board/shared";
+import { roomStore } from "../rooms/store.js";
+import { historyStore } from "../rooms/history.js";
+import { idempotencyStore } from "../protocol/idempotency.js";
+import { sendAcceptedAck, sendRejectedAck } from "../protocol/ack.js";
+import {
+  rateLimiter,
+  logRateLimitViolation,
+  validateRolePermission,
+  logPermissionDenied,
+} from "../security/index.js";
+import { loadDeckTrack, applyLoadTrim, startDeck, pauseDeck } from "./deck.js";
+import { getNextQueuedItem, markQueueItemPlayed } from "./queue.js";
+import type { MixerValueBroadcast } from "./controls.js";
+
+/** A running Auto-DJ crossfade */
+interface AutoDjMix {
+  fromDeckId: DeckId;
+  toDeckId: DeckId;
+  startTimeMs: number;
+  durationMs: number;
+  /** Crossfader position when the mix started */
+  fromCrossfader: number;
+}
+
+/** Type and payload of a server mutation event (metadata is filled in on broadcast) */
+type MutationBody<E> = E extends ServerMutationEvent ? Pick<E, "type" | "payload"> : never;
+
+/** Running mixes by roomId (server-only: clients follow the crossfader) */
+const activeMixes: Map<string, AutoDjMix> = new Map();
+
+/**
+ * Bump the room version and broadcast a mutation sent as Auto-DJ.
+ */
+function broadcastAutoDjMutation(
+  io: Server,
+  room: RoomState,
+  serverTs: number,
+  mutation: MutationBody<ServerMutationEvent>
+): void {
+  room.version++;
+
+  const serverEvent = {
+    eventId: `${room.roomId}-${room.version}`,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: AUTO_DJ_CLIENT_ID,
+    clientSeq: 0,
+    ...mutation,
+  } as ServerMutationEvent;
+
+  io.to(room.roomId).emit(serverEvent.type, serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+}
+
+/**
+ * Move the crossfader and broadcast it, as a MIXER_SET would.
+ */
+function setCrossfader(io: Server, room: RoomState, value: number): void {
+  if (room.mixer.crossfader === value) return;
+  room.mixer.crossfader = value;
+
+  const valueBroadcast: MixerValueBroadcast = {
+    type: "MIXER_VALUE",
+    roomId: room.roomId,
+    controlId: "crossfader",
+    value,
+    clientId: AUTO_DJ_CLIENT_ID,
+  };
+  io.to(room.roomId).emit("MIXER_VALUE", valueBroadcast);
+}
+
+/**
+ * Load a queue item onto a deck and start it.
+ */
+function startNextTrack(
+  io: Server,
+  room: RoomState,
+  deck: DeckState,
+  queueItem: QueueItem,
+  serverTs: number
+): void {
+  const { deckId } = deck;
+
+  const cues = loadDeckTrack(deck, queueItem, serverTs);
+  const gain = applyLoadTrim(room, deck, queueItem);
+  broadcastAutoDjMutation(io, room, serverTs, {
+    type: "DECK_LOAD",
+    payload: { deckId, trackId: queueItem.trackId, queueItemId: queueItem.id, cues, gain },
+  });
+  historyStore.recordLoad(room, deckId, AUTO_DJ_CLIENT_ID, serverTs);
+
+  startDeck(room, deck, serverTs);
+  broadcastAutoDjMutation(io, room, serverTs, { type: "DECK_PLAY", payload: { deckId } });
+  historyStore.recordPlay(room, deckId, AUTO_DJ_CLIENT_ID, serverTs);
+
+  console.log(
+    `[AUTO_DJ] start deck=${deckId} queueItemId=${queueItem.id} roomId=${room.roomId} epochId=${deck.epochId}`
+  );
+}
+
+/**
+ * Stop a deck that has been mixed out of (or ran out) and mark its track played.
+ */
+function finishDeck(io: Server, room: RoomState, deck: DeckState, serverTs: number): void {
+  const { deckId } = deck;
+
+  if (deck.playState === "playing") {
+    pauseDeck(room, deck, serverTs);
+    broadcastAutoDjMutation(io, room, serverTs, { type: "DECK_PAUSE", payload: { deckId } });
+  }
+
+  const queueItemId = deck.loadedQueueItemId;
+  if (queueItemId && markQueueItemPlayed(room, queueItemId)) {
+    broadcastAutoDjMutation(io, room, serverTs, { type: "QUEUE_ITEM_PLAYED", payload: { queueItemId } });
+  }
+}
+
+/**
+ * Move a running mix's crossfader along; once it has reached the incoming
+ * side, stop the outgoing deck.
+ */
+function advanceMix(io: Server, room: RoomState, mix: AutoDjMix, serverTs: number): void {
+  const progress = mix.durationMs > 0 ? Math.min(1, (serverTs - mix.startTimeMs) / mix.durationMs) : 1;
+  const target = getCrossfaderSide(mix.toDeckId) === "A" ? 0 : 1;
+  setCrossfader(io, room, mix.fromCrossfader + (target - mix.fromCrossfader) * progress);
+  if (progress < 1) return;
+
+  activeMixes.delete(room.roomId);
+  const outgoing = getDeckState(room, mix.fromDeckId);
+  if (outgoing) {
+    finishDeck(io, room, outgoing, serverTs);
+  }
+
+  console.log(`[AUTO_DJ] mixed deck=${mix.fromDeckId} -> deck=${mix.toDeckId} roomId=${room.roomId}`);
+}
+
+/**
+ * Run one Auto-DJ step. Called by the beacon timer on every tick.
+ */
+export function tickAutoDj(io: Server, room: RoomState, serverTs: number): void {
+  if (!room.autoDj.enabled) {
+    activeMixes.delete(room.roomId);
+    return;
+  }
+
+  const mix = activeMixes.get(room.roomId);
+  if (mix) {
+    advanceMix(io, room, mix, serverTs);
+    return;
+  }
+
+  const playing = [room.deckA, room.deckB].filter((deck) => deck.playState === "playing");
+
+  // Both decks playing is a mix Auto-DJ didn't start: leave it alone
+  if (playing.length > 1) return;
+
+  const live = playing[0];
+  if (!live) {
+    // Decks C/D aren't Auto-DJ's, but a track on them isn't silence either
+    if (room.deckC?.playState === "playing" || room.deckD?.playState === "playing") return;
+
+    // Silence: start the next track straight away on the crossfader's side
+    const next = getNextQueuedItem(room);
+    if (!next) return;
+    const deck = room.mixer.crossfader > 0.5 ? room.deckB : room.deckA;
+    startNextTrack(io, room, deck, next, serverTs);
+    setCrossfader(io, room, getCrossfaderSide(deck.deckId) === "A" ? 0 : 1);
+    return;
+  }
+
+  const remainingMs = getDeckRemainingMs(live, serverTs);
+  if (remainingMs === null || remainingMs > getAutoDjMixMs(live, room.autoDj.mixBars)) return;
+
+  const next = getNextQueuedItem(room);
+  if (!next) {
+    // Nothing left to mix into: let the track play out
+    if (remainingMs === 0) {
+      finishDeck(io, room, live, serverTs);
+    }
+    return;
+  }
+
+  const idle = live.deckId === "A" ? room.deckB : room.deckA;
+  startNextTrack(io, room, idle, next, serverTs);
+  activeMixes.set(room.roomId, {
+    fromDeckId: live.deckId,
+    toDeckId: idle.deckId,
+    startTimeMs: serverTs,
+    durationMs: remainingMs,
+    fromCrossfader: room.mixer.crossfader,
+  });
+}
+
+/**
+ * Turn Auto-DJ off because a member took a control or a deck. A running mix
+ * stops where it is and the member carries on from there.
+ */
+export function stopAutoDj(io: Server, room: RoomState, clientId: string): void {
+  if (!room.autoDj.enabled) return;
+
+  room.autoDj.enabled = false;
+  activeMixes.delete(room.roomId);
+
+  broadcastAutoDjMutation(io, room, Date.now(), {
+    type: "AUTO_DJ_SET",
+    payload: { enabled: false, mixBars: room.autoDj.mixBars, stoppedBy: clientId },
+  });
+
+  console.log(`[AUTO_DJ] stopped by clientId=${clientId} roomId=${room.roomId}`);
+}
+
+/**
+ * Forget a room's running mix (when the room is cleaned up).
+ */
+export function clearAutoDj(roomId: string): void {
+  activeMixes.delete(roomId);
+}
+
+/**
+ * Handle AUTO_DJ_SET event.
+ * Turns Auto-DJ on or off and/or changes how many bars it mixes over.
+ */
+export function handleAutoDjSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = AutoDjSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[AUTO_DJ_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as AutoDjSetEvent;
+  const { enabled, mixBars } = event.payload;
+
+  // Get client and room
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    console.log(`[AUTO_DJ_SET] unauthorized socket=${socket.id}`);
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  // Rate limit check
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "AUTO_DJ_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("AUTO_DJ_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "AUTO_DJ_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("AUTO_DJ_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  room.autoDj.enabled = enabled;
+  if (mixBars !== undefined) {
+    room.autoDj.mixBars = mixBars;
+  }
+  if (!enabled) {
+    activeMixes.delete(room.roomId);
+  }
+
+  // Increment version
+  room.version++;
+
+  const serverTs = Date.now();
+  const eventId = `${room.roomId}-${room.version}`;
+
+  // Broadcast to all clients in room
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "AUTO_DJ_SET",
+    payload: { enabled, mixBars: room.autoDj.mixBars },
+  };
+
+  io.to(room.roomId).emit("AUTO_DJ_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+
+  // Send ack
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[AUTO_DJ_SET] enabled=${enabled} mixBars=${room.autoDj.mixBars} roomId=${room.roomId} clientId=${client.clientId}`
+  );
+}
+
+/**
+ * Register Auto-DJ handlers on a socket.
+ */
+export function registerAutoDjHandlers(io: Server, socket: Socket): void {
+  socket.on("AUTO_DJ_SET", (data: unknown) => {
+    handleAutoDjSet(io, socket, data);
+  });
+}
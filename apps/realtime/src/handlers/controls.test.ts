@@ -130,6 +130,8 @@ describe("Control Handlers", () => {
       const { room, clientId: clientId1 } = roomStore.createRoom("Alice", socket1Id);
       const joinResult = roomStore.joinRoom(room.roomCode, "Bob", socket2Id);
       const clientId2 = joinResult?.clientId;
+      // Joiners start as listeners; make Bob a co-DJ
+      room.members.find((m) => m.clientId === clientId2)!.role = "dj";
 
       // Client 1 grabs
       const event1 = {
@@ -184,6 +186,37 @@ describe("Control Handlers", () => {
 
       roomStore.leaveRoom(socketId);
     });
+
+    it("should only allow channel C/D controls in four-deck rooms", async () => {
+      const { roomStore } = await import("../rooms/store.js");
+      const { handleControlGrab } = await import("./controls.js");
+
+      const twoDeckSocketId = `control-grab-2deck-${Date.now()}`;
+      const fourDeckSocketId = `control-grab-4deck-${Date.now()}`;
+      const mockServer = createMockServer();
+
+      const twoDeck = roomStore.createRoom("Alice", twoDeckSocketId);
+      const fourDeck = roomStore.createRoom("Bob", fourDeckSocketId, 4);
+
+      for (const { room, clientId } of [twoDeck, fourDeck]) {
+        const socketId = room === twoDeck.room ? twoDeckSocketId : fourDeckSocketId;
+        handleControlGrab(mockServer as any, createMockSocket(socketId) as any, {
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          type: "CONTROL_GRAB",
+          payload: { controlId: "channelC.fader" },
+        });
+      }
+
+      expect(roomStore.getRoom(twoDeck.room.roomId)?.controlOwners["channelC.fader"]).toBeUndefined();
+      expect(roomStore.getRoom(fourDeck.room.roomId)?.controlOwners["channelC.fader"]?.clientId).toBe(
+        fourDeck.clientId
+      );
+
+      roomStore.leaveRoom(twoDeckSocketId);
+      roomStore.leaveRoom(fourDeckSocketId);
+    });
   });
 
   describe("handleControlRelease", () => {
@@ -250,6 +283,8 @@ describe("Control Handlers", () => {
       const { room, clientId: clientId1 } = roomStore.createRoom("Alice", socket1Id);
       const joinResult = roomStore.joinRoom(room.roomCode, "Bob", socket2Id);
       const clientId2 = joinResult?.clientId;
+      // Joiners start as listeners; make Bob a co-DJ
+      room.members.find((m) => m.clientId === clientId2)!.role = "dj";
 
       // Client 1 grabs
       const grabEvent = {
@@ -283,6 +318,39 @@ describe("Control Handlers", () => {
   });
 
   describe("handleMixerSet", () => {
+    it("should ignore a freshly joined member (listener by default)", async () => {
+      const { roomStore } = await import("../rooms/store.js");
+      const { handleMixerSet } = await import("./controls.js");
+
+      const hostSocketId = `mixer-set-host-${Date.now()}`;
+      const listenerSocketId = `mixer-set-listener-${Date.now()}`;
+      const mockSocket = createMockSocket(listenerSocketId);
+      const mockServer = createMockServer();
+
+      const { room } = roomStore.createRoom("Alice", hostSocketId);
+      const joinResult = roomStore.joinRoom(room.roomCode, "Troll", listenerSocketId);
+      const listenerId = joinResult!.clientId;
+      expect(room.members.find((m) => m.clientId === listenerId)?.role).toBe("listener");
+
+      const event = {
+        roomId: room.roomId,
+        clientId: listenerId,
+        clientSeq: 1,
+        type: "MIXER_SET",
+        payload: { controlId: "crossfader", value: 1 },
+      };
+
+      handleMixerSet(mockServer as any, mockSocket as any, event);
+
+      const updatedRoom = roomStore.getRoom(room.roomId);
+      expect(updatedRoom?.mixer.crossfader).toBe(0.5);
+      expect(updatedRoom?.controlOwners["crossfader"]).toBeUndefined();
+      expect(mockServer.emit).not.toHaveBeenCalled();
+
+      roomStore.leaveRoom(listenerSocketId);
+      roomStore.leaveRoom(hostSocketId);
+    });
+
     it("should update mixer value and acquire ownership", async () => {
       const { roomStore } = await import("../rooms/store.js");
       const { handleMixerSet } = await import("./controls.js");
@@ -521,6 +589,8 @@ describe("Control Handlers", () => {
       const { room, clientId: clientId1 } = roomStore.createRoom("Alice", socket1Id);
       const joinResult = roomStore.joinRoom(room.roomCode, "Bob", socket2Id);
       const clientId2 = joinResult?.clientId;
+      // Joiners start as listeners; make Bob a co-DJ
+      room.members.find((m) => m.clientId === clientId2)!.role = "dj";
 
       // Client 1 grabs crossfader
       const event1 = {
@@ -6,10 +6,13 @@
  * - CONTROL_RELEASE: releases ownership
  * - MIXER_SET: updates control values (with throttling)
  *
+ * Grabbing or moving a control turns Auto-DJ off (handlers/autoDj).
+ *
  * Ownership model:
  * - TTL = 2s since last movement (CONTROL_OWNERSHIP_TTL_MS)
  * - Last-write-wins (soft lock - anyone can override)
  * - Server broadcasts ownership highlights to all clients
+ * - Listeners cannot grab or move controls
  */
 
 import { Server, Socket } from "socket.io";
@@ -21,9 +24,12 @@ import {
   THROTTLE,
   CONTROL_OWNERSHIP_TTL_MS,
   isValidControlId,
+  isControlInRoom,
   getControlBounds,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { validateRolePermission, logPermissionDenied } from "../security/index.js";
+import { stopAutoDj } from "./autoDj.js";
 
 /** Track last MIXER_SET update time per client for throttling */
 const lastMixerUpdate: Map<string, number> = new Map();
@@ -75,8 +81,20 @@ export function handleControlGrab(
     return;
   }
 
+  const room = roomStore.getRoom(roomId);
+  if (!room) {
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, clientId, "CONTROL_GRAB");
+  if (!permResult.valid) {
+    logPermissionDenied("CONTROL_GRAB", clientId, roomId);
+    return;
+  }
+
   // Validate control ID
-  if (!isValidControlId(controlId)) {
+  if (!isValidControlId(controlId) || !isControlInRoom(room, controlId)) {
     console.log(`[CONTROL_GRAB] invalid controlId=${controlId}`);
     return;
   }
@@ -98,6 +116,9 @@ export function handleControlGrab(
   // Emit to all clients in the room (including sender)
   _io.to(roomId).emit("CONTROL_OWNERSHIP", broadcast);
 
+  // A member at the controls takes over from Auto-DJ
+  stopAutoDj(_io, room, clientId);
+
   console.log(`[CONTROL_GRAB] roomId=${roomId} clientId=${clientId} controlId=${controlId}`);
 }
 
@@ -168,8 +189,18 @@ export function handleMixerSet(
     return;
   }
 
-  // Validate control ID
-  if (!isValidControlId(controlId)) {
+  const room = roomStore.getRoom(roomId);
+  if (!room) {
+    return;
+  }
+
+  // Role check (listeners are read-only). Not logged: MIXER_SET is high frequency
+  if (!validateRolePermission(room, clientId, "MIXER_SET").valid) {
+    return;
+  }
+
+  // Validate control ID (channel C/D controls only exist in four-deck rooms)
+  if (!isValidControlId(controlId) || !isControlInRoom(room, controlId)) {
     return;
   }
 
@@ -214,6 +245,9 @@ export function handleMixerSet(
   };
 
   _io.to(roomId).emit("MIXER_VALUE", valueBroadcast);
+
+  // Moving a control is an implicit grab (MIDI controllers send no CONTROL_GRAB)
+  stopAutoDj(_io, room, clientId);
 }
 
 /**
@@ -5,9 +5,32 @@ import {
   handleDeckPause,
   handleDeckCue,
   handleDeckSeek,
+  handleDeckTempoSet,
+  handleDeckBpmDetected,
+  handleDeckBeatGridSet,
+  handleDeckSync,
+  handleDeckQuantizeSet,
+  handleDeckKeyLockSet,
+  handleDeckSlipSet,
+  handleDeckSlipStart,
+  handleDeckSlipRelease,
+  handleDeckReverseSet,
+  handleDeckCensor,
+  handleDeckBrake,
+  settleDeckMotion,
+  handleDeckRollStart,
+  handleDeckRollStop,
+  handleDeckLoopSet,
+  handleDeckHotCueSet,
+  handleDeckHotCueClear,
+  handleDeckHotCueJump,
+  handleDeckLoopSave,
+  handleDeckLoopDelete,
 } from "./deck.js";
 import { roomStore } from "../rooms/store.js";
-import type { QueueItem } from "@puid-board/shared";
+import { clearTrackCuesCache } from "../services/trackCues.js";
+import { clearTrackLoudnessCache } from "../services/trackLoudness.js";
+import { getDeckPlayheadAt, type QueueItem } from "@puid-board/shared";
 
 // Mock socket.io
 function createMockIO() {
@@ -59,6 +82,9 @@ function addTestQueueItem(roomId: string, clientId: string): QueueItem {
 describe("Deck Handlers", () => {
   beforeEach(() => {
     vi.useFakeTimers();
+    // Test tracks share IDs under fake timers; don't restore cues across tests
+    clearTrackCuesCache();
+    clearTrackLoudnessCache();
   });
 
   describe("handleDeckLoad", () => {
@@ -111,6 +137,60 @@ describe("Deck Handlers", () => {
       roomStore.leaveRoom(socketId);
     });
 
+    it("should load into deck C of a four-deck room", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId, 4);
+      const queueItem = addTestQueueItem(room.roomId, clientId);
+
+      handleDeckLoad(
+        mockIO as unknown as Parameters<typeof handleDeckLoad>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckLoad>[1],
+        {
+          type: "DECK_LOAD",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "C", trackId: queueItem.trackId, queueItemId: queueItem.id },
+        }
+      );
+
+      const updatedRoom = roomStore.getRoom(room.roomId);
+      expect(updatedRoom?.deckC?.loadedQueueItemId).toBe(queueItem.id);
+      expect(updatedRoom?.queue[0]?.status).toBe("loaded_C");
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("should reject deck C in a two-deck room", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const queueItem = addTestQueueItem(room.roomId, clientId);
+
+      handleDeckLoad(
+        mockIO as unknown as Parameters<typeof handleDeckLoad>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckLoad>[1],
+        {
+          type: "DECK_LOAD",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "C", trackId: queueItem.trackId, queueItemId: queueItem.id },
+        }
+      );
+
+      expect(mockIO.emittedEvents.length).toBe(0);
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(false);
+
+      roomStore.leaveRoom(socketId);
+    });
+
     it("should reject if queue item not found", () => {
       const mockIO = createMockIO();
       const socketId = `deck-test-socket-${Date.now()}`;
@@ -272,6 +352,50 @@ describe("Deck Handlers", () => {
       // Cleanup
       roomStore.leaveRoom(socketId);
     });
+
+    it("should reject listeners", () => {
+      const mockIO = createMockIO();
+      const hostSocketId = `deck-test-socket-${Date.now()}`;
+      const listenerSocketId = `deck-test-listener-${Date.now()}`;
+      const mockSocket = createMockSocket(listenerSocketId);
+
+      const { room, clientId: hostId } = roomStore.createRoom("TestHost", hostSocketId);
+      const joinResult = roomStore.joinRoom(room.roomCode, "Listener", listenerSocketId);
+      const listenerId = joinResult!.clientId;
+      room.members.find((m) => m.clientId === listenerId)!.role = "listener";
+
+      const queueItem = addTestQueueItem(room.roomId, hostId);
+      room.deckA.loadedTrackId = queueItem.trackId;
+      room.deckA.loadedQueueItemId = queueItem.id;
+      room.deckA.playState = "stopped";
+
+      const event = {
+        type: "DECK_PLAY",
+        roomId: room.roomId,
+        clientId: listenerId,
+        clientSeq: 1,
+        payload: {
+          deckId: "A" as const,
+        },
+      };
+
+      handleDeckPlay(
+        mockIO as unknown as Parameters<typeof handleDeckPlay>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckPlay>[1],
+        event
+      );
+
+      // Deck untouched, nothing broadcast
+      expect(roomStore.getRoom(room.roomId)?.deckA.playState).toBe("stopped");
+      expect(mockIO.emittedEvents.length).toBe(0);
+
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(false);
+
+      // Cleanup
+      roomStore.leaveRoom(listenerSocketId);
+      roomStore.leaveRoom(hostSocketId);
+    });
   });
 
   describe("handleDeckPause", () => {
@@ -659,4 +783,946 @@ describe("Deck Handlers", () => {
       roomStore.leaveRoom(socketId);
     });
   });
+
+  describe("beat grid and SYNC", () => {
+    function setupTwoPlayingDecks(socketId: string) {
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const itemA = addTestQueueItem(room.roomId, clientId);
+      const itemB = addTestQueueItem(room.roomId, clientId);
+      const now = Date.now();
+      Object.assign(room.deckA, {
+        loadedTrackId: itemA.trackId,
+        loadedQueueItemId: itemA.id,
+        durationSec: 180,
+        playState: "playing",
+        playbackRate: 1.0,
+        beatGrid: { bpm: 128, firstBeatSec: 0 },
+        epochStartPlayheadSec: 30,
+        epochStartTimeMs: now,
+      });
+      Object.assign(room.deckB, {
+        loadedTrackId: itemB.trackId,
+        loadedQueueItemId: itemB.id,
+        durationSec: 180,
+        playState: "playing",
+        playbackRate: 1.0,
+        beatGrid: { bpm: 120, firstBeatSec: 0 },
+        // A tenth of a beat off the grid
+        epochStartPlayheadSec: 40.05,
+        epochStartTimeMs: now,
+      });
+      return { room, clientId, itemB };
+    }
+
+    it("DECK_SYNC matches tempo and snaps the playhead onto the leader's beat", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupTwoPlayingDecks(socketId);
+      const epochBefore = room.deckB.epochId;
+
+      handleDeckSync(
+        mockIO as unknown as Parameters<typeof handleDeckSync>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckSync>[1],
+        {
+          type: "DECK_SYNC",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "B", enabled: true },
+        }
+      );
+
+      expect(room.deckB.syncEnabled).toBe(true);
+      expect(room.deckB.playbackRate).toBeCloseTo(128 / 120);
+      expect(room.deckB.epochId).not.toBe(epochBefore);
+      // Deck A sits exactly on a beat (30s at 128 BPM), so deck B lands on one too
+      expect(room.deckB.epochStartPlayheadSec).toBeCloseTo(40.0);
+
+      const broadcast = mockIO.emittedEvents[0]?.data as { payload: { playbackRate?: number } };
+      expect(mockIO.emittedEvents[0]?.event).toBe("DECK_SYNC");
+      expect(broadcast.payload.playbackRate).toBeCloseTo(128 / 120);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("DECK_SYNC rejects a deck without a beat grid", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupTwoPlayingDecks(socketId);
+      room.deckB.beatGrid = null;
+
+      handleDeckSync(
+        mockIO as unknown as Parameters<typeof handleDeckSync>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckSync>[1],
+        {
+          type: "DECK_SYNC",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "B", enabled: true },
+        }
+      );
+
+      expect(room.deckB.syncEnabled).toBe(false);
+      expect(mockIO.emittedEvents.length).toBe(0);
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean; error?: string };
+      expect(ack.accepted).toBe(false);
+      expect(ack.error).toBe("No beat grid");
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("leader tempo changes carry synced followers; moving a follower's tempo disengages it", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupTwoPlayingDecks(socketId);
+      room.deckB.syncEnabled = true;
+
+      handleDeckTempoSet(
+        mockIO as unknown as Parameters<typeof handleDeckTempoSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckTempoSet>[1],
+        {
+          type: "DECK_TEMPO_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "A", playbackRate: 1.05 },
+        }
+      );
+      expect(room.deckB.playbackRate).toBeCloseTo((128 * 1.05) / 120);
+      expect(room.deckB.syncEnabled).toBe(true);
+
+      handleDeckTempoSet(
+        mockIO as unknown as Parameters<typeof handleDeckTempoSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckTempoSet>[1],
+        {
+          type: "DECK_TEMPO_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { deckId: "B", playbackRate: 1.0 },
+        }
+      );
+      expect(room.deckB.syncEnabled).toBe(false);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("DECK_BEAT_GRID_SET updates the deck and its queue item, and reloads restore it", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId, itemB } = setupTwoPlayingDecks(socketId);
+
+      handleDeckBeatGridSet(
+        mockIO as unknown as Parameters<typeof handleDeckBeatGridSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckBeatGridSet>[1],
+        {
+          type: "DECK_BEAT_GRID_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "B", beatGrid: { bpm: 121.5, firstBeatSec: 0.31 } },
+        }
+      );
+
+      expect(room.deckB.beatGrid).toEqual({ bpm: 121.5, firstBeatSec: 0.31 });
+      expect(room.deckB.detectedBpm).toBe(121.5);
+      expect(room.queue.find((q) => q.id === itemB.id)?.beatGrid).toEqual({
+        bpm: 121.5,
+        firstBeatSec: 0.31,
+      });
+
+      // Loading the item again (here onto deck A) brings the edited grid back
+      handleDeckLoad(
+        mockIO as unknown as Parameters<typeof handleDeckLoad>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckLoad>[1],
+        {
+          type: "DECK_LOAD",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { deckId: "A", trackId: itemB.trackId, queueItemId: itemB.id },
+        }
+      );
+      expect(room.deckA.beatGrid).toEqual({ bpm: 121.5, firstBeatSec: 0.31 });
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("quantize", () => {
+    function setupQuantizedDeck(socketId: string, mockIO: ReturnType<typeof createMockIO>) {
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      Object.assign(room.deckA, {
+        loadedTrackId: item.trackId,
+        loadedQueueItemId: item.id,
+        durationSec: 180,
+        // 0.5s per beat, 2s per bar
+        beatGrid: { bpm: 120, firstBeatSec: 0.1 },
+      });
+
+      handleDeckQuantizeSet(
+        mockIO as unknown as Parameters<typeof handleDeckQuantizeSet>[0],
+        createMockSocket(socketId) as unknown as Parameters<typeof handleDeckQuantizeSet>[1],
+        {
+          type: "DECK_QUANTIZE_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "A", quantize: "beat" },
+        }
+      );
+      return { room, clientId };
+    }
+
+    it("snaps cue and hot cue positions to the nearest beat", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupQuantizedDeck(socketId, mockIO);
+      expect(room.deckA.quantize).toBe("beat");
+
+      handleDeckCue(
+        mockIO as unknown as Parameters<typeof handleDeckCue>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckCue>[1],
+        {
+          type: "DECK_CUE",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { deckId: "A", cuePointSec: 10.2 },
+        }
+      );
+      expect(room.deckA.cuePointSec).toBeCloseTo(10.1);
+      expect(room.deckA.epochStartPlayheadSec).toBeCloseTo(10.1);
+      const cueEvent = mockIO.emittedEvents.at(-1)?.data as { payload: { cuePointSec: number } };
+      expect(cueEvent.payload.cuePointSec).toBeCloseTo(10.1);
+
+      handleDeckHotCueSet(
+        mockIO as unknown as Parameters<typeof handleDeckHotCueSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckHotCueSet>[1],
+        {
+          type: "DECK_HOT_CUE_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 3,
+          payload: { deckId: "A", index: 0, positionSec: 20.45 },
+        }
+      );
+      expect(room.deckA.hotCues[0]?.positionSec).toBeCloseTo(20.6);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("moves a loop onto the bar grid and keeps its length", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupQuantizedDeck(socketId, mockIO);
+      room.deckA.quantize = "bar";
+
+      handleDeckLoopSet(
+        mockIO as unknown as Parameters<typeof handleDeckLoopSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckLoopSet>[1],
+        {
+          type: "DECK_LOOP_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { deckId: "A", enabled: true, startSec: 12.8, endSec: 14.8, lengthBars: 1 },
+        }
+      );
+
+      expect(room.deckA.loop?.startSec).toBeCloseTo(12.1);
+      expect(room.deckA.loop?.endSec).toBeCloseTo(14.1);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("leaves positions untouched when quantize is off", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupQuantizedDeck(socketId, mockIO);
+      room.deckA.quantize = "off";
+
+      handleDeckHotCueSet(
+        mockIO as unknown as Parameters<typeof handleDeckHotCueSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckHotCueSet>[1],
+        {
+          type: "DECK_HOT_CUE_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { deckId: "A", index: 0, positionSec: 20.45 },
+        }
+      );
+      expect(room.deckA.hotCues[0]?.positionSec).toBe(20.45);
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("hot cues", () => {
+    function setupLoadedDeck(socketId: string) {
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      Object.assign(room.deckA, {
+        loadedTrackId: item.trackId,
+        loadedQueueItemId: item.id,
+        durationSec: 180,
+      });
+      return { room, clientId };
+    }
+
+    it("sets slots independently and keeps a cue's name when it moves", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupLoadedDeck(socketId);
+      const send = (clientSeq: number, payload: Record<string, unknown>) =>
+        handleDeckHotCueSet(
+          mockIO as unknown as Parameters<typeof handleDeckHotCueSet>[0],
+          mockSocket as unknown as Parameters<typeof handleDeckHotCueSet>[1],
+          { type: "DECK_HOT_CUE_SET", roomId: room.roomId, clientId, clientSeq, payload }
+        );
+
+      send(1, { deckId: "A", index: 0, positionSec: 12, label: "Intro", color: "#3BD16F" });
+      send(2, { deckId: "A", index: 5, positionSec: 96 });
+      send(3, { deckId: "A", index: 0, positionSec: 14 });
+
+      expect(room.deckA.hotCues[0]).toEqual({ positionSec: 14, label: "Intro", color: "#3BD16F" });
+      expect(room.deckA.hotCues[5]).toEqual({ positionSec: 96, label: null, color: null });
+      expect(room.deckA.hotCues.filter(Boolean)).toHaveLength(2);
+
+      // Broadcast carries the resolved label and color
+      const last = mockIO.emittedEvents.at(-1)?.data as { payload: { label: string | null } };
+      expect(last.payload.label).toBe("Intro");
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("jumps to a set cue and plays, and rejects empty slots", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = setupLoadedDeck(socketId);
+      room.deckA.hotCues[2] = { positionSec: 48, label: null, color: null };
+      const epochBefore = room.deckA.epochId;
+
+      handleDeckHotCueJump(
+        mockIO as unknown as Parameters<typeof handleDeckHotCueJump>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckHotCueJump>[1],
+        {
+          type: "DECK_HOT_CUE_JUMP",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "A", index: 2 },
+        }
+      );
+      expect(room.deckA.playState).toBe("playing");
+      expect(room.deckA.epochStartPlayheadSec).toBe(48);
+      expect(room.deckA.epochId).not.toBe(epochBefore);
+
+      handleDeckHotCueJump(
+        mockIO as unknown as Parameters<typeof handleDeckHotCueJump>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckHotCueJump>[1],
+        {
+          type: "DECK_HOT_CUE_JUMP",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { deckId: "A", index: 3 },
+        }
+      );
+      const ack = mockSocket.emittedEvents.at(-1)?.data as { accepted: boolean; error?: string };
+      expect(ack.accepted).toBe(false);
+      expect(ack.error).toBe("Hot cue not set");
+
+      handleDeckHotCueClear(
+        mockIO as unknown as Parameters<typeof handleDeckHotCueClear>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckHotCueClear>[1],
+        {
+          type: "DECK_HOT_CUE_CLEAR",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 3,
+          payload: { deckId: "A", index: 2 },
+        }
+      );
+      expect(room.deckA.hotCues[2]).toBeNull();
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("track cues", () => {
+    it("restores hot cues, saved loops and grid when the track is loaded again", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoad>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoad>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const first = addTestQueueItem(room.roomId, clientId);
+      const meta = { roomId: room.roomId, clientId };
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 1,
+        payload: { deckId: "A", trackId: first.trackId, queueItemId: first.id },
+      });
+      handleDeckHotCueSet(io, socket, {
+        ...meta,
+        type: "DECK_HOT_CUE_SET",
+        clientSeq: 2,
+        payload: { deckId: "A", index: 3, positionSec: 64, label: "Break" },
+      });
+      handleDeckLoopSet(io, socket, {
+        ...meta,
+        type: "DECK_LOOP_SET",
+        clientSeq: 3,
+        payload: { deckId: "A", enabled: true, startSec: 32, endSec: 40, lengthBars: 4 },
+      });
+      handleDeckLoopSave(io, socket, {
+        ...meta,
+        type: "DECK_LOOP_SAVE",
+        clientSeq: 4,
+        payload: { deckId: "A", index: 1 },
+      });
+      handleDeckBeatGridSet(io, socket, {
+        ...meta,
+        type: "DECK_BEAT_GRID_SET",
+        clientSeq: 5,
+        payload: { deckId: "A", beatGrid: { bpm: 120, firstBeatSec: 0.2 } },
+      });
+      expect(room.queue[0]?.hotCues?.[3]?.label).toBe("Break");
+
+      // Same track queued again (different queue entry) on the other deck
+      const second = addTestQueueItem(room.roomId, clientId);
+      second.trackId = first.trackId;
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 6,
+        payload: { deckId: "B", trackId: second.trackId, queueItemId: second.id },
+      });
+
+      expect(room.deckB.hotCues[3]).toEqual({ positionSec: 64, label: "Break", color: null });
+      expect(room.deckB.savedLoops[1]).toEqual({ startSec: 32, endSec: 40, lengthBars: 4 });
+      expect(room.deckB.beatGrid).toEqual({ bpm: 120, firstBeatSec: 0.2 });
+      expect(second.hotCues?.[3]?.positionSec).toBe(64);
+
+      // Clients restore from the broadcast
+      const load = mockIO.emittedEvents.at(-1)?.data as {
+        payload: { cues?: { savedLoops: unknown[] } };
+      };
+      expect(load.payload.cues?.savedLoops[1]).toEqual({ startSec: 32, endSec: 40, lengthBars: 4 });
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("rejects saving without an active loop and deletes saved loops", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoopSave>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoopSave>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      Object.assign(room.deckA, {
+        loadedTrackId: item.trackId,
+        loadedQueueItemId: item.id,
+        durationSec: 180,
+      });
+      const meta = { roomId: room.roomId, clientId };
+
+      handleDeckLoopSave(io, socket, {
+        ...meta,
+        type: "DECK_LOOP_SAVE",
+        clientSeq: 1,
+        payload: { deckId: "A", index: 0 },
+      });
+      const ack = mockSocket.emittedEvents.at(-1)?.data as { accepted: boolean; error?: string };
+      expect(ack.accepted).toBe(false);
+      expect(ack.error).toBe("No active loop");
+
+      room.deckA.savedLoops[2] = { startSec: 8, endSec: 10, lengthBars: 1 };
+      handleDeckLoopDelete(io, socket, {
+        ...meta,
+        type: "DECK_LOOP_DELETE",
+        clientSeq: 2,
+        payload: { deckId: "A", index: 2 },
+      });
+      expect(room.deckA.savedLoops[2]).toBeNull();
+      expect(item.savedLoops?.[2]).toBeNull();
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("key detection", () => {
+    it("stores the detected key on the deck and queue item and restores it on load", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoad>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoad>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      const meta = { roomId: room.roomId, clientId };
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 1,
+        payload: { deckId: "A", trackId: item.trackId, queueItemId: item.id },
+      });
+      expect(room.deckA.detectedKey).toBeNull();
+
+      handleDeckBpmDetected(io, socket, {
+        ...meta,
+        type: "DECK_BPM_DETECTED",
+        clientSeq: 2,
+        payload: { deckId: "A", bpm: 124, key: "8A" },
+      });
+      expect(room.deckA.detectedKey).toBe("8A");
+      expect(item.key).toBe("8A");
+      const broadcast = mockIO.emittedEvents.at(-1)?.data as { payload: { key?: string } };
+      expect(broadcast.payload.key).toBe("8A");
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 3,
+        payload: { deckId: "B", trackId: item.trackId, queueItemId: item.id },
+      });
+      expect(room.deckB.detectedKey).toBe("8A");
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("acks a repeated result without bumping the version or broadcasting", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoad>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoad>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      const meta = { roomId: room.roomId, clientId };
+      const detected = { deckId: "A" as const, bpm: 124, key: "8A" as const, loudness: { lufs: -9, truePeakDb: 0 } };
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 1,
+        payload: { deckId: "A", trackId: item.trackId, queueItemId: item.id },
+      });
+      handleDeckBpmDetected(io, socket, { ...meta, type: "DECK_BPM_DETECTED", clientSeq: 2, payload: detected });
+      const versionAfterFirst = room.version;
+      const broadcastsAfterFirst = mockIO.emittedEvents.length;
+
+      handleDeckBpmDetected(io, socket, { ...meta, type: "DECK_BPM_DETECTED", clientSeq: 3, payload: detected });
+
+      expect(room.version).toBe(versionAfterFirst);
+      expect(mockIO.emittedEvents).toHaveLength(broadcastsAfterFirst);
+      const ack = mockSocket.emittedEvents.at(-1)?.data as { clientSeq: number; accepted: boolean };
+      expect(ack).toMatchObject({ clientSeq: 3, accepted: true });
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("loudness", () => {
+    it("trims the channel to the target loudness once measured and again on load", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoad>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoad>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      const meta = { roomId: room.roomId, clientId };
+      const loudness = { lufs: -8, truePeakDb: 0.3 };
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 1,
+        payload: { deckId: "A", trackId: item.trackId, queueItemId: item.id },
+      });
+      expect(room.mixer.channelA.gain).toBe(0);
+
+      // First measurement: 6 dB over the -14 LUFS target, deck not playing yet
+      handleDeckBpmDetected(io, socket, {
+        ...meta,
+        type: "DECK_BPM_DETECTED",
+        clientSeq: 2,
+        payload: { deckId: "A", bpm: 124, loudness },
+      });
+      expect(item.loudness).toEqual(loudness);
+      expect(room.mixer.channelA.gain).toBeCloseTo(-0.5);
+      const detected = mockIO.emittedEvents.at(-1)?.data as { payload: { gain?: number } };
+      expect(detected.payload.gain).toBeCloseTo(-0.5);
+
+      // Later reports don't override a trim the DJ has since changed
+      room.mixer.channelA.gain = -0.2;
+      handleDeckBpmDetected(io, socket, {
+        ...meta,
+        type: "DECK_BPM_DETECTED",
+        clientSeq: 3,
+        payload: { deckId: "A", bpm: 124, loudness: { lufs: -9, truePeakDb: 0 } },
+      });
+      expect(room.mixer.channelA.gain).toBe(-0.2);
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 4,
+        payload: { deckId: "B", trackId: item.trackId, queueItemId: item.id },
+      });
+      expect(room.mixer.channelB.gain).toBeCloseTo(-0.5);
+      const load = mockIO.emittedEvents.at(-1)?.data as { payload: { gain?: number } };
+      expect(load.payload.gain).toBeCloseTo(-0.5);
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("key lock", () => {
+    it("toggles key lock without touching the transport", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      room.deckA.playbackRate = 1.06;
+      const epochBefore = room.deckA.epochId;
+      const versionBefore = room.version;
+
+      handleDeckKeyLockSet(
+        mockIO as unknown as Parameters<typeof handleDeckKeyLockSet>[0],
+        mockSocket as unknown as Parameters<typeof handleDeckKeyLockSet>[1],
+        {
+          type: "DECK_KEY_LOCK_SET",
+          roomId: room.roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "A", enabled: true },
+        }
+      );
+
+      expect(room.deckA.keyLock).toBe(true);
+      expect(room.deckA.playbackRate).toBe(1.06);
+      expect(room.deckA.epochId).toBe(epochBefore);
+      expect(room.version).toBe(versionBefore + 1);
+      expect(mockIO.emittedEvents[0]?.event).toBe("DECK_KEY_LOCK_SET");
+      const ack = mockSocket.emittedEvents.at(-1)?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(true);
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("slip mode", () => {
+    function setupSlipDeck(socketId: string, mockIO: ReturnType<typeof createMockIO>) {
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoad>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoad>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      const meta = { roomId: room.roomId, clientId };
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 1,
+        payload: { deckId: "A", trackId: item.trackId, queueItemId: item.id },
+      });
+      handleDeckSlipSet(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_SET",
+        clientSeq: 2,
+        payload: { deckId: "A", enabled: true },
+      });
+      handleDeckPlay(io, socket, { ...meta, type: "DECK_PLAY", clientSeq: 3, payload: { deckId: "A" } });
+      return { room, io, socket, meta };
+    }
+
+    it("resumes from the shadow playhead when a slip loop is exited", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupSlipDeck(socketId, mockIO);
+
+      vi.advanceTimersByTime(10_000);
+      handleDeckLoopSet(io, socket, {
+        ...meta,
+        type: "DECK_LOOP_SET",
+        clientSeq: 4,
+        payload: { deckId: "A", enabled: true, startSec: 10, endSec: 12, lengthBars: 1 },
+      });
+      expect(room.deckA.slipShadow?.startSec).toBeCloseTo(10);
+      const loopEvent = mockIO.emittedEvents.at(-1)?.data as { payload: { slipShadow?: unknown } };
+      expect(loopEvent.payload.slipShadow).toEqual(room.deckA.slipShadow);
+
+      // Three seconds in the loop: the shadow kept running
+      vi.advanceTimersByTime(3_000);
+      const epochInLoop = room.deckA.epochId;
+      handleDeckLoopSet(io, socket, {
+        ...meta,
+        type: "DECK_LOOP_SET",
+        clientSeq: 5,
+        payload: { deckId: "A", enabled: false, startSec: 0, endSec: 0, lengthBars: 1 },
+      });
+
+      expect(room.deckA.playheadSec).toBeCloseTo(13);
+      expect(room.deckA.epochStartPlayheadSec).toBeCloseTo(13);
+      expect(room.deckA.epochId).not.toBe(epochInLoop);
+      expect(room.deckA.loop).toBeNull();
+      expect(room.deckA.slipShadow).toBeNull();
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("snaps a scratch back to the shadow and ignores seeks while held", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupSlipDeck(socketId, mockIO);
+
+      vi.advanceTimersByTime(20_000);
+      handleDeckSlipStart(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_START",
+        clientSeq: 4,
+        payload: { deckId: "A" },
+      });
+      handleDeckSeek(io, socket, {
+        ...meta,
+        type: "DECK_SEEK",
+        clientSeq: 5,
+        payload: { deckId: "A", positionSec: 5 },
+      });
+      vi.advanceTimersByTime(2_000);
+      handleDeckSlipRelease(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_RELEASE",
+        clientSeq: 6,
+        payload: { deckId: "A" },
+      });
+
+      expect(room.deckA.playheadSec).toBeCloseTo(22);
+      const release = mockIO.emittedEvents.at(-1) as { event: string; data: { payload: { positionSec?: number } } };
+      expect(release.event).toBe("DECK_SLIP_RELEASE");
+      expect(release.data.payload.positionSec).toBeCloseTo(22);
+
+      // Released again: nothing to return to
+      const epoch = room.deckA.epochId;
+      handleDeckSlipRelease(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_RELEASE",
+        clientSeq: 7,
+        payload: { deckId: "A" },
+      });
+      expect(room.deckA.epochId).toBe(epoch);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("returns a slip roll to the shadow instead of where it was pressed", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupSlipDeck(socketId, mockIO);
+
+      vi.advanceTimersByTime(30_000);
+      handleDeckRollStart(io, socket, {
+        ...meta,
+        type: "DECK_ROLL_START",
+        clientSeq: 4,
+        payload: { deckId: "A", startSec: 30, lengthBars: 1, returnSec: 30 },
+      });
+      vi.advanceTimersByTime(4_000);
+      handleDeckRollStop(io, socket, {
+        ...meta,
+        type: "DECK_ROLL_STOP",
+        clientSeq: 5,
+        payload: { deckId: "A" },
+      });
+
+      expect(room.deckA.playheadSec).toBeCloseTo(34);
+      expect(room.deckA.roll).toBeNull();
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("starts no shadow with slip off and drops it when slip is turned off", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupSlipDeck(socketId, mockIO);
+
+      handleDeckSlipStart(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_START",
+        clientSeq: 4,
+        payload: { deckId: "A" },
+      });
+      expect(room.deckA.slipShadow).not.toBeNull();
+
+      handleDeckSlipSet(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_SET",
+        clientSeq: 5,
+        payload: { deckId: "A", enabled: false },
+      });
+      expect(room.deckA.slipShadow).toBeNull();
+
+      handleDeckSlipStart(io, socket, {
+        ...meta,
+        type: "DECK_SLIP_START",
+        clientSeq: 6,
+        payload: { deckId: "A" },
+      });
+      expect(room.deckA.slipShadow).toBeNull();
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("reverse, censor and brake", () => {
+    function setupPlayingDeck(socketId: string, mockIO: ReturnType<typeof createMockIO>) {
+      const mockSocket = createMockSocket(socketId);
+      const io = mockIO as unknown as Parameters<typeof handleDeckLoad>[0];
+      const socket = mockSocket as unknown as Parameters<typeof handleDeckLoad>[1];
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      const item = addTestQueueItem(room.roomId, clientId);
+      const meta = { roomId: room.roomId, clientId };
+
+      handleDeckLoad(io, socket, {
+        ...meta,
+        type: "DECK_LOAD",
+        clientSeq: 1,
+        payload: { deckId: "A", trackId: item.trackId, queueItemId: item.id },
+      });
+      handleDeckPlay(io, socket, { ...meta, type: "DECK_PLAY", clientSeq: 2, payload: { deckId: "A" } });
+      return { room, io, socket, meta };
+    }
+
+    it("turns the epoch round where the deck is", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupPlayingDeck(socketId, mockIO);
+
+      vi.advanceTimersByTime(20_000);
+      const forwardEpoch = room.deckA.epochId;
+      handleDeckReverseSet(io, socket, {
+        ...meta,
+        type: "DECK_REVERSE_SET",
+        clientSeq: 3,
+        payload: { deckId: "A", enabled: true },
+      });
+      expect(room.deckA.reverse).toBe(true);
+      expect(room.deckA.epochId).not.toBe(forwardEpoch);
+      expect(room.deckA.epochStartPlayheadSec).toBeCloseTo(20);
+      // Slip is off: reversing starts no shadow
+      expect(room.deckA.slipShadow).toBeNull();
+
+      vi.advanceTimersByTime(5_000);
+      expect(getDeckPlayheadAt(room.deckA, Date.now())).toBeCloseTo(15);
+
+      handleDeckReverseSet(io, socket, {
+        ...meta,
+        type: "DECK_REVERSE_SET",
+        clientSeq: 4,
+        payload: { deckId: "A", enabled: false },
+      });
+      expect(room.deckA.reverse).toBe(false);
+      expect(room.deckA.playheadSec).toBeCloseTo(15);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("slips a censor back to where the track would have been", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupPlayingDeck(socketId, mockIO);
+
+      vi.advanceTimersByTime(20_000);
+      handleDeckCensor(io, socket, {
+        ...meta,
+        type: "DECK_CENSOR",
+        clientSeq: 3,
+        payload: { deckId: "A", active: true },
+      });
+      expect(room.deckA.reverse).toBe(true);
+      expect(room.deckA.slipShadow?.startSec).toBeCloseTo(20);
+
+      vi.advanceTimersByTime(3_000);
+      handleDeckCensor(io, socket, {
+        ...meta,
+        type: "DECK_CENSOR",
+        clientSeq: 4,
+        payload: { deckId: "A", active: false },
+      });
+
+      expect(room.deckA.reverse).toBe(false);
+      expect(room.deckA.slipShadow).toBeNull();
+      expect(room.deckA.playheadSec).toBeCloseTo(23);
+      const releaseEvent = mockIO.emittedEvents.at(-1)?.data as { payload: { positionSec?: number } };
+      expect(releaseEvent.payload.positionSec).toBeCloseTo(23);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("pauses a braking deck where the ramp ends", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupPlayingDeck(socketId, mockIO);
+
+      vi.advanceTimersByTime(10_000);
+      handleDeckBrake(io, socket, {
+        ...meta,
+        type: "DECK_BRAKE",
+        clientSeq: 3,
+        payload: { deckId: "A", kind: "brake", durationMs: 2000 },
+      });
+      expect(room.deckA.motion).toMatchObject({ kind: "brake", durationMs: 2000 });
+      expect(room.deckA.motion?.startSec).toBeCloseTo(10);
+
+      vi.advanceTimersByTime(1_000);
+      expect(settleDeckMotion(room.deckA, Date.now())).toBe(false);
+      expect(room.deckA.playState).toBe("playing");
+
+      vi.advanceTimersByTime(1_000);
+      expect(settleDeckMotion(room.deckA, Date.now())).toBe(true);
+      expect(room.deckA.playState).toBe("paused");
+      expect(room.deckA.motion).toBeNull();
+      // A 2s brake covers one second of track
+      expect(room.deckA.playheadSec).toBeCloseTo(11);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("rejects a brake on a deck that isn't playing", () => {
+      const mockIO = createMockIO();
+      const socketId = `deck-test-socket-${Date.now()}`;
+      const { room, io, socket, meta } = setupPlayingDeck(socketId, mockIO);
+
+      handleDeckPause(io, socket, { ...meta, type: "DECK_PAUSE", clientSeq: 3, payload: { deckId: "A" } });
+      handleDeckBrake(io, socket, {
+        ...meta,
+        type: "DECK_BRAKE",
+        clientSeq: 4,
+        payload: { deckId: "A", kind: "spinback", durationMs: 800 },
+      });
+      expect(room.deckA.motion).toBeNull();
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
 });
@@ -7,6 +7,20 @@
  * - DECK_PAUSE: Pause playback
  * - DECK_CUE: Set/jump to cue point
  * - DECK_SEEK: Seek to position
+ * - DECK_BEAT_GRID_SET: Edit the loaded track's beat grid
+ * - DECK_SYNC: Match tempo and beat phase to another deck
+ * - DECK_QUANTIZE_SET: Snap cue/loop/roll/hot cue positions to the beat grid
+ * - DECK_KEY_LOCK_SET: Keep the track's pitch when the tempo changes
+ * - DECK_SLIP_SET/START/RELEASE: Slip mode, resume from a shadow playhead
+ * - DECK_REVERSE_SET / DECK_CENSOR: Play backwards (censor slips back on release)
+ * - DECK_BRAKE: Brake or spin-back to a stop (settled by the beacon timer)
+ * - DECK_HOT_CUE_SET/CLEAR/JUMP: Manage and trigger the eight hot cue slots
+ * - DECK_LOOP_SAVE/DELETE: Manage the saved loop slots
+ *
+ * Hot cues, saved loops and the beat grid are stored per track
+ * (services/trackCues) and restored whenever the track is loaded.
+ * Loads and plays also feed the room's set history (rooms/history).
+ * A member's load, play or pause takes over from Auto-DJ (handlers/autoDj).
  *
  * All deck actions are serialized through the server to ensure
  * deterministic, consistent state across all clients.
@@ -14,6 +28,7 @@
  * Security features:
  * - Combined rate limiting for all deck actions (100/minute)
  * - Bounds validation for seek positions and cue points
+ * - Role checks (listeners cannot control decks)
  */
 
 import type { Server, Socket } from "socket.io";
@@ -29,6 +44,20 @@ import {
   DeckRollStartEventSchema,
   DeckRollStopEventSchema,
   DeckHotCueSetEventSchema,
+  DeckHotCueClearEventSchema,
+  DeckHotCueJumpEventSchema,
+  DeckLoopSaveEventSchema,
+  DeckLoopDeleteEventSchema,
+  DeckBeatGridSetEventSchema,
+  DeckSyncEventSchema,
+  DeckQuantizeSetEventSchema,
+  DeckKeyLockSetEventSchema,
+  DeckSlipSetEventSchema,
+  DeckSlipStartEventSchema,
+  DeckSlipReleaseEventSchema,
+  DeckReverseSetEventSchema,
+  DeckCensorEventSchema,
+  DeckBrakeEventSchema,
   type DeckLoadEvent,
   type DeckPlayEvent,
   type DeckPauseEvent,
@@ -40,10 +69,47 @@ import {
   type DeckRollStartEvent,
   type DeckRollStopEvent,
   type DeckHotCueSetEvent,
+  type DeckHotCueClearEvent,
+  type DeckHotCueJumpEvent,
+  type DeckLoopSaveEvent,
+  type DeckLoopDeleteEvent,
+  type DeckBeatGridSetEvent,
+  type DeckSyncEvent,
+  type DeckQuantizeSetEvent,
+  type DeckKeyLockSetEvent,
+  type DeckSlipSetEvent,
+  type DeckSlipStartEvent,
+  type DeckSlipReleaseEvent,
+  type DeckReverseSetEvent,
+  type DeckCensorEvent,
+  type DeckBrakeEvent,
   type ServerMutationEvent,
   type DeckId,
+  type DeckState,
+  type RoomState,
+  type QueueItem,
+  type TrackCues,
+  type TrackLoudness,
+  getDeckState,
+  getChannelState,
+  getDeckIds,
+  getDeckPlayheadAt,
+  getSlipShadowPlayheadAt,
+  isDeckMotionDone,
+  findSyncLeader,
+  getSyncPlaybackRate,
+  getPhaseAlignedPlayhead,
+  quantizePosition,
+  createEmptyHotCues,
+  createEmptySavedLoops,
+  LoopLengthBarsSchema,
+  getAutoTrimGain,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { historyStore } from "../rooms/history.js";
+import { getTrackCues, saveTrackCues } from "../services/trackCues.js";
+import { getTrackLoudness, saveTrackLoudness } from "../services/trackLoudness.js";
+import { idempotencyStore } from "../protocol/idempotency.js";
 import { sendAcceptedAck, sendRejectedAck } from "../protocol/ack.js";
 import {
   rateLimiter,
@@ -51,14 +117,43 @@ import {
   validateCuePosition,
   logRateLimitViolation,
   logValidationFailure,
+  validateRolePermission,
+  logPermissionDenied,
 } from "../security/index.js";
+import { stopAutoDj } from "./autoDj.js";
 
 /**
- * Get deck from room by deck ID.
+ * Get deck from room by deck ID (null for C/D in two-deck rooms).
  */
 function getDeck(room: ReturnType<typeof roomStore.getRoom>, deckId: DeckId) {
   if (!room) return null;
-  return deckId === "A" ? room.deckA : room.deckB;
+  return getDeckState(room, deckId);
+}
+
+/**
+ * Copy of a deck's hot cues, saved loops and beat grid.
+ */
+function getDeckCues(deck: DeckState): TrackCues {
+  return {
+    hotCues: [...deck.hotCues],
+    savedLoops: [...deck.savedLoops],
+    beatGrid: deck.beatGrid && { ...deck.beatGrid },
+  };
+}
+
+/**
+ * Copy the deck's cues onto its queue item and save them with the track,
+ * so loading the track again (from any queue entry) restores them.
+ */
+function storeDeckCues(room: RoomState, deck: DeckState): void {
+  const queueItem = room.queue.find((item) => item.id === deck.loadedQueueItemId);
+  if (!queueItem) return;
+
+  const cues = getDeckCues(deck);
+  queueItem.hotCues = cues.hotCues;
+  queueItem.savedLoops = cues.savedLoops;
+  queueItem.beatGrid = cues.beatGrid;
+  void saveTrackCues(queueItem, getDeckCues(deck));
 }
 
 /**
@@ -82,12 +177,224 @@ function createNewEpoch(
   deck.epochSeq = 0;
   deck.epochStartPlayheadSec = newPlayhead;
   deck.epochStartTimeMs = serverTs;
+  // A new epoch ends any brake/spin-back ramp
+  deck.motion = null;
 
   if (newRate !== undefined) {
     deck.playbackRate = newRate;
   }
 }
 
+/**
+ * Match a synced deck to its leader.
+ * Tempo is always matched; beat phase only when alignPhase is set and both
+ * decks are playing. Returns false when no other deck can lead.
+ */
+function matchSyncLeader(
+  room: RoomState,
+  deck: DeckState,
+  serverTs: number,
+  alignPhase: boolean
+): boolean {
+  const leader = findSyncLeader(room, deck.deckId);
+  if (!leader?.beatGrid || !deck.beatGrid) return false;
+
+  const rate = getSyncPlaybackRate(leader, deck.beatGrid);
+  if (deck.playState !== "playing") {
+    deck.playbackRate = rate;
+    return true;
+  }
+
+  let playhead = getDeckPlayheadAt(deck, serverTs);
+  if (alignPhase && leader.playState === "playing") {
+    playhead = getPhaseAlignedPlayhead(
+      deck.beatGrid,
+      playhead,
+      leader.beatGrid,
+      getDeckPlayheadAt(leader, serverTs)
+    );
+  }
+  deck.playheadSec = playhead;
+  createNewEpoch(deck, serverTs, playhead, rate);
+  return true;
+}
+
+/**
+ * Re-match the tempo of every synced deck that follows the given deck.
+ * Followers pick up the new rate through the next BEACON_TICK epoch change.
+ */
+function updateSyncFollowers(room: RoomState, leaderId: DeckId, serverTs: number): void {
+  for (const id of getDeckIds(room.deckCount)) {
+    const follower = getDeckState(room, id);
+    if (!follower || id === leaderId || !follower.syncEnabled) continue;
+    if (findSyncLeader(room, id)?.deckId !== leaderId) continue;
+    matchSyncLeader(room, follower, serverTs, false);
+  }
+}
+
+/**
+ * Start the slip shadow before a gesture moves the playhead of a playing deck
+ * in slip mode (or always, with force: a censor). A running shadow is kept,
+ * so overlapping gestures (a scratch inside a loop) all return to the same place.
+ */
+function startSlipShadow(deck: DeckState, serverTs: number, force = false): void {
+  if ((!deck.slip && !force) || deck.playState !== "playing" || deck.slipShadow) return;
+  deck.slipShadow = { startSec: getDeckPlayheadAt(deck, serverTs), startTimeMs: serverTs };
+}
+
+/**
+ * End a slip gesture: playback resumes from the shadow playhead with a new
+ * epoch, so every client snaps back to the same place. Any loop or roll ends
+ * with it. Returns the resume position, or null if no shadow was running.
+ */
+function releaseSlipShadow(deck: DeckState, serverTs: number): number | null {
+  const positionSec = getSlipShadowPlayheadAt(deck, serverTs);
+  deck.slipShadow = null;
+  if (positionSec === null) return null;
+
+  deck.loop = null;
+  deck.roll = null;
+  deck.playheadSec = positionSec;
+  createNewEpoch(deck, serverTs, positionSec);
+  return positionSec;
+}
+
+/**
+ * Turn a deck's playback round at the current playhead. A slipping reverse
+ * (censor, or reverse in slip mode) starts the shadow going in and resumes
+ * from it coming out. Returns the resume position of a slip release, else null.
+ */
+function setDeckReverse(deck: DeckState, enabled: boolean, serverTs: number, slip: boolean): number | null {
+  if (deck.reverse === enabled) return null;
+  if (enabled && slip) startSlipShadow(deck, serverTs, true);
+
+  // Playhead so far, in the old direction
+  const playhead = getDeckPlayheadAt(deck, serverTs);
+  deck.reverse = enabled;
+
+  const resumedSec = !enabled && slip ? releaseSlipShadow(deck, serverTs) : null;
+  if (resumedSec === null && deck.playState === "playing") {
+    deck.playheadSec = playhead;
+    createNewEpoch(deck, serverTs, playhead);
+  }
+  return resumedSec;
+}
+
+/**
+ * Pause a deck whose brake or spin-back has run its ramp, where the ramp
+ * ended, with a new epoch. Called by the beacon timer; returns true when the
+ * deck was settled.
+ */
+export function settleDeckMotion(deck: DeckState, serverTs: number): boolean {
+  if (!isDeckMotionDone(deck, serverTs)) return false;
+
+  const positionSec = getDeckPlayheadAt(deck, serverTs);
+  deck.playState = "paused";
+  deck.playheadSec = positionSec;
+  deck.slipShadow = null;
+  createNewEpoch(deck, serverTs, positionSec);
+  return true;
+}
+
+/**
+ * Load a queue item into a deck: stopped at the start with a fresh epoch and
+ * the track's saved cues, loops and beat grid. Returns the cues for the
+ * DECK_LOAD broadcast.
+ */
+export function loadDeckTrack(deck: DeckState, queueItem: QueueItem, serverTs: number): TrackCues {
+  deck.loadedTrackId = queueItem.trackId;
+  deck.loadedQueueItemId = queueItem.id;
+  deck.playState = "stopped";
+  deck.playheadSec = 0;
+  deck.durationSec = queueItem.durationSec;
+  deck.detectedKey = queueItem.key ?? null;
+  deck.slipShadow = null;
+  deck.reverse = false;
+  deck.motion = null;
+
+  // Create new epoch on load (fresh start)
+  createNewEpoch(deck, serverTs, 0);
+
+  // Restore the track's saved cues, loops and beat grid: the per-track store
+  // has the latest edits, the queue item covers restored rooms
+  const cues = getTrackCues(queueItem);
+  deck.hotCues = [...(cues?.hotCues ?? queueItem.hotCues ?? createEmptyHotCues())];
+  deck.savedLoops = [...(cues?.savedLoops ?? queueItem.savedLoops ?? createEmptySavedLoops())];
+  const beatGrid = cues ? cues.beatGrid : queueItem.beatGrid;
+  deck.beatGrid = beatGrid ? { ...beatGrid } : null;
+  queueItem.hotCues = [...deck.hotCues];
+  queueItem.savedLoops = [...deck.savedLoops];
+  queueItem.beatGrid = deck.beatGrid && { ...deck.beatGrid };
+
+  // Update queue item status
+  queueItem.status = `loaded_${deck.deckId}`;
+
+  return getDeckCues(deck);
+}
+
+/**
+ * Set a deck's channel gain to the auto trim for a track's loudness.
+ * Returns the new gain for the broadcast.
+ */
+function setAutoTrim(room: RoomState, deckId: DeckId, loudness: TrackLoudness): number | undefined {
+  const channel = getChannelState(room.mixer, deckId);
+  if (!channel) return undefined;
+  channel.gain = getAutoTrimGain(loudness);
+  return channel.gain;
+}
+
+/**
+ * Trim a freshly loaded deck to the room's target loudness, if the track's
+ * loudness has been measured. Returns the new gain for the DECK_LOAD broadcast.
+ */
+export function applyLoadTrim(room: RoomState, deck: DeckState, queueItem: QueueItem): number | undefined {
+  const loudness = getTrackLoudness(queueItem) ?? queueItem.loudness;
+  if (!loudness) return undefined;
+  queueItem.loudness = { ...loudness };
+  return setAutoTrim(room, deck.deckId, loudness);
+}
+
+/**
+ * Start a loaded deck from its playhead with a new epoch.
+ * Synced decks start in tempo and on the leader's beat.
+ */
+export function startDeck(room: RoomState, deck: DeckState, serverTs: number): void {
+  deck.playState = "playing";
+
+  // Create new epoch on play (discontinuity)
+  createNewEpoch(deck, serverTs, deck.playheadSec);
+
+  if (deck.syncEnabled) {
+    matchSyncLeader(room, deck, serverTs, true);
+  }
+
+  // Update queue item status
+  const queueItem = room.queue.find((item) => item.id === deck.loadedQueueItemId);
+  if (queueItem) {
+    queueItem.status = `playing_${deck.deckId}`;
+  }
+}
+
+/**
+ * Pause a deck where it is. Pausing ends a slip gesture or brake.
+ */
+export function pauseDeck(room: RoomState, deck: DeckState, serverTs: number): void {
+  // Calculate current playhead if currently playing using epoch fields
+  if (deck.playState === "playing") {
+    deck.playheadSec = getDeckPlayheadAt(deck, serverTs);
+  }
+
+  deck.playState = "paused";
+  deck.slipShadow = null;
+  deck.motion = null;
+
+  // Update queue item status
+  const queueItem = room.queue.find((item) => item.id === deck.loadedQueueItemId);
+  if (queueItem) {
+    queueItem.status = `loaded_${deck.deckId}`;
+  }
+}
+
 /**
  * Handle DECK_LOAD event.
  * Loads a track from the queue into a deck.
@@ -128,6 +435,14 @@ export function handleDeckLoad(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_LOAD");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_LOAD", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Validate queue item exists
   const queueItem = room.queue.find((item) => item.id === queueItemId);
   if (!queueItem) {
@@ -153,22 +468,8 @@ export function handleDeckLoad(
   }
 
   const serverTs = Date.now();
-
-  // Update deck state
-  deck.loadedTrackId = trackId;
-  deck.loadedQueueItemId = queueItemId;
-  deck.playState = "stopped";
-  deck.playheadSec = 0;
-  deck.durationSec = queueItem.durationSec;
-
-  // Create new epoch on load (fresh start)
-  createNewEpoch(deck, serverTs, 0);
-
-  // Clear hot cue on load
-  deck.hotCuePointSec = null;
-
-  // Update queue item status
-  queueItem.status = deckId === "A" ? "loaded_A" : "loaded_B";
+  const cues = loadDeckTrack(deck, queueItem, serverTs);
+  const gain = applyLoadTrim(room, deck, queueItem);
 
   // Increment version
   room.version++;
@@ -184,16 +485,21 @@ export function handleDeckLoad(
     clientId: client.clientId,
     clientSeq: event.clientSeq,
     type: "DECK_LOAD",
-    payload: { deckId, trackId, queueItemId },
+    payload: { deckId, trackId, queueItemId, cues, gain },
   };
 
   io.to(room.roomId).emit("DECK_LOAD", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  historyStore.recordLoad(room, deckId, client.clientId, serverTs);
+
+  // A member at the decks takes over from Auto-DJ
+  stopAutoDj(io, room, client.clientId);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
-    `[DECK_LOAD] deck=${deckId} trackId=${trackId} queueItemId=${queueItemId} roomId=${room.roomId} epochId=${deck.epochId}`
+    `[DECK_LOAD] deck=${deckId} trackId=${trackId} queueItemId=${queueItemId} gain=${gain ?? "N/A"} roomId=${room.roomId} epochId=${deck.epochId}`
   );
 }
 
@@ -237,6 +543,14 @@ export function handleDeckPlay(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_PLAY");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_PLAY", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Get the deck
   const deck = getDeck(room, deckId);
   if (!deck) {
@@ -252,18 +566,7 @@ export function handleDeckPlay(
   }
 
   const serverTs = Date.now();
-  deck.playState = "playing";
-
-  // Create new epoch on play (discontinuity)
-  createNewEpoch(deck, serverTs, deck.playheadSec);
-
-  // Update queue item status
-  const queueItem = room.queue.find(
-    (item) => item.id === deck.loadedQueueItemId
-  );
-  if (queueItem) {
-    queueItem.status = deckId === "A" ? "playing_A" : "playing_B";
-  }
+  startDeck(room, deck, serverTs);
 
   // Increment version
   room.version++;
@@ -283,6 +586,11 @@ export function handleDeckPlay(
   };
 
   io.to(room.roomId).emit("DECK_PLAY", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  historyStore.recordPlay(room, deckId, client.clientId, serverTs);
+
+  // A member at the decks takes over from Auto-DJ
+  stopAutoDj(io, room, client.clientId);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
@@ -332,6 +640,14 @@ export function handleDeckPause(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_PAUSE");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_PAUSE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Get the deck
   const deck = getDeck(room, deckId);
   if (!deck) {
@@ -339,34 +655,12 @@ export function handleDeckPause(
     return;
   }
 
-  // Calculate current playhead if currently playing using epoch fields
-  if (deck.playState === "playing") {
-    const serverTs = Date.now();
-    const elapsedMs = serverTs - deck.epochStartTimeMs;
-    const elapsedSec = (elapsedMs / 1000) * deck.playbackRate;
-    deck.playheadSec = Math.max(0, deck.epochStartPlayheadSec + elapsedSec);
-
-    // Clamp to track duration if available
-    if (deck.durationSec !== null) {
-      deck.playheadSec = Math.min(deck.playheadSec, deck.durationSec);
-    }
-  }
-
-  // Update state
-  deck.playState = "paused";
-
-  // Update queue item status
-  const queueItem = room.queue.find(
-    (item) => item.id === deck.loadedQueueItemId
-  );
-  if (queueItem) {
-    queueItem.status = deckId === "A" ? "loaded_A" : "loaded_B";
-  }
+  const serverTs = Date.now();
+  pauseDeck(room, deck, serverTs);
 
   // Increment version
   room.version++;
 
-  const serverTs = Date.now();
   const eventId = `${room.roomId}-${room.version}`;
 
   // Broadcast to all clients in room
@@ -382,6 +676,10 @@ export function handleDeckPause(
   };
 
   io.to(room.roomId).emit("DECK_PAUSE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+
+  // A member at the decks takes over from Auto-DJ
+  stopAutoDj(io, room, client.clientId);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
@@ -407,7 +705,8 @@ export function handleDeckCue(
   }
 
   const event = parsed.data as DeckCueEvent;
-  const { deckId, cuePointSec } = event.payload;
+  const { deckId } = event.payload;
+  let { cuePointSec } = event.payload;
 
   // Get client and room
   const client = roomStore.getClient(socket.id);
@@ -431,6 +730,14 @@ export function handleDeckCue(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_CUE");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_CUE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Get the deck
   const deck = getDeck(room, deckId);
   if (!deck) {
@@ -454,6 +761,8 @@ export function handleDeckCue(
       sendRejectedAck(socket, event.clientSeq, "", cueValidation.error);
       return;
     }
+    // Quantize: snap to the beat grid (the snapped cue is what gets broadcast)
+    cuePointSec = quantizePosition(deck, cuePointSec);
     deck.cuePointSec = cuePointSec;
   }
 
@@ -461,6 +770,7 @@ export function handleDeckCue(
   const targetPlayhead = deck.cuePointSec !== null ? deck.cuePointSec : 0;
   deck.playheadSec = targetPlayhead;
   deck.playState = "cued";
+  deck.slipShadow = null;
 
   // Create new epoch on cue (discontinuity)
   const serverTs = Date.now();
@@ -484,6 +794,7 @@ export function handleDeckCue(
   };
 
   io.to(room.roomId).emit("DECK_CUE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
@@ -533,6 +844,14 @@ export function handleDeckSeek(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_SEEK");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_SEEK", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Get the deck
   const deck = getDeck(room, deckId);
   if (!deck) {
@@ -583,6 +902,7 @@ export function handleDeckSeek(
   };
 
   io.to(room.roomId).emit("DECK_SEEK", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
@@ -628,6 +948,14 @@ export function handleDeckTempoSet(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_TEMPO_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_TEMPO_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Get the deck
   const deck = getDeck(room, deckId);
   if (!deck) {
@@ -644,13 +972,8 @@ export function handleDeckTempoSet(
   // with the OLD rate, then create a new epoch with the NEW rate.
   // This prevents retroactive rate application which causes playhead jumps.
   if (deck.playState === "playing") {
-    // Calculate current playhead using the OLD rate
-    const elapsedMs = serverTs - deck.epochStartTimeMs;
-    const elapsedSec = elapsedMs / 1000;
-    const currentPlayhead = deck.epochStartPlayheadSec + (elapsedSec * deck.playbackRate);
-
-    // Clamp to track duration
-    const clampedPlayhead = Math.min(currentPlayhead, deck.durationSec ?? currentPlayhead);
+    // Calculate current playhead using the OLD rate (clamped to the track)
+    const clampedPlayhead = getDeckPlayheadAt(deck, serverTs);
 
     deck.playheadSec = clampedPlayhead;
 
@@ -661,6 +984,10 @@ export function handleDeckTempoSet(
     deck.playbackRate = clampedRate;
   }
 
+  // Moving the tempo fader takes a deck out of sync; decks following it keep up
+  deck.syncEnabled = false;
+  updateSyncFollowers(room, deckId, serverTs);
+
   // Increment version
   room.version++;
 
@@ -679,6 +1006,7 @@ export function handleDeckTempoSet(
   };
 
   io.to(room.roomId).emit("DECK_TEMPO_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
@@ -690,7 +1018,7 @@ export function handleDeckTempoSet(
 
 /**
  * Handle DECK_BPM_DETECTED event.
- * Stores the BPM detected by client-side audio analysis.
+ * Stores the BPM (and key, if detected) from client-side audio analysis.
  * This is informational only - does not affect sync or playback.
  */
 export function handleDeckBpmDetected(
@@ -705,7 +1033,7 @@ export function handleDeckBpmDetected(
   }
 
   const event = parsed.data as DeckBpmDetectedEvent;
-  const { deckId, bpm } = event.payload;
+  const { deckId, bpm, key, loudness } = event.payload;
 
   // Get client and room
   const client = roomStore.getClient(socket.id);
@@ -715,12 +1043,28 @@ export function handleDeckBpmDetected(
     return;
   }
 
+  // Rate limit check (shared limit for all deck actions)
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_BPM_DETECTED");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_BPM_DETECTED", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
   const room = roomStore.getRoom(client.roomId);
   if (!room) {
     sendRejectedAck(socket, event.clientSeq, "", "Room not found");
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_BPM_DETECTED");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_BPM_DETECTED", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Get the deck
   const deck = getDeck(room, deckId);
   if (!deck) {
@@ -728,9 +1072,45 @@ export function handleDeckBpmDetected(
     return;
   }
 
+  // Every client with the track loaded reports the same result; a repeat
+  // that changes nothing is acked without a version bump or broadcast
+  const loadedItem = room.queue.find((item) => item.id === deck.loadedQueueItemId);
+  const unchanged =
+    deck.detectedBpm === bpm &&
+    (key === undefined || deck.detectedKey === key) &&
+    !(loudness && loadedItem && !loadedItem.loudness) &&
+    Boolean(deck.beatGrid);
+  if (unchanged) {
+    sendAcceptedAck(socket, event.clientSeq, `${room.roomId}-${room.version}`);
+    return;
+  }
+
   // Store the detected BPM
   deck.detectedBpm = bpm;
 
+  // Store the detected key on the deck and the loaded item (for queue hints)
+  if (key !== undefined) {
+    deck.detectedKey = key;
+    if (loadedItem) loadedItem.key = key;
+  }
+
+  // Store the first loudness measurement with the track; a deck that isn't
+  // playing yet gets its trim now rather than on the next load
+  let gain: number | undefined;
+  if (loudness && loadedItem && !loadedItem.loudness) {
+    loadedItem.loudness = loudness;
+    void saveTrackLoudness(loadedItem, loudness);
+    if (deck.playState !== "playing") {
+      gain = setAutoTrim(room, deckId, loudness);
+    }
+  }
+
+  // Seed a beat grid from the detection (downbeat at 0s until edited)
+  if (!deck.beatGrid) {
+    deck.beatGrid = { bpm, firstBeatSec: 0 };
+    storeDeckCues(room, deck);
+  }
+
   // Increment version
   room.version++;
 
@@ -746,16 +1126,17 @@ export function handleDeckBpmDetected(
     clientId: client.clientId,
     clientSeq: event.clientSeq,
     type: "DECK_BPM_DETECTED",
-    payload: { deckId, bpm },
+    payload: { deckId, bpm, key, loudness, gain },
   };
 
   io.to(room.roomId).emit("DECK_BPM_DETECTED", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
-    `[DECK_BPM_DETECTED] deck=${deckId} bpm=${bpm} roomId=${room.roomId}`
+    `[DECK_BPM_DETECTED] deck=${deckId} bpm=${bpm} key=${key ?? "N/A"} lufs=${loudness?.lufs ?? "N/A"} roomId=${room.roomId}`
   );
 }
 
@@ -775,7 +1156,8 @@ export function handleDeckLoopSet(
   }
 
   const event = parsed.data as DeckLoopSetEvent;
-  const { deckId, enabled, startSec, endSec, lengthBars } = event.payload;
+  const { deckId, enabled, lengthBars } = event.payload;
+  let { startSec, endSec } = event.payload;
 
   const client = roomStore.getClient(socket.id);
   if (!client || !client.roomId) {
@@ -796,6 +1178,14 @@ export function handleDeckLoopSet(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_LOOP_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_LOOP_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   const deck = getDeck(room, deckId);
   if (!deck) {
     sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
@@ -814,21 +1204,24 @@ export function handleDeckLoopSet(
   }
 
   const serverTs = Date.now();
+  let slipReturnSec: number | null = null;
 
   if (enabled) {
+    // Quantize: move the whole loop so it starts on the grid
+    const snappedStart = quantizePosition(deck, startSec);
+    endSec += snappedStart - startSec;
+    startSec = snappedStart;
+    startSlipShadow(deck, serverTs);
     deck.loop = { enabled: true, startSec, endSec, lengthBars };
   } else {
     deck.loop = null;
+    // Slip mode: leaving the loop resumes from the shadow playhead
+    slipReturnSec = releaseSlipShadow(deck, serverTs);
   }
 
   // Create new epoch when loop state changes (affects playhead calculation)
-  if (deck.playState === "playing") {
-    const elapsedMs = serverTs - deck.epochStartTimeMs;
-    const elapsedSec = elapsedMs / 1000;
-    let currentPlayhead = deck.epochStartPlayheadSec + (elapsedSec * deck.playbackRate);
-    if (deck.durationSec !== null) {
-      currentPlayhead = Math.min(currentPlayhead, deck.durationSec);
-    }
+  if (deck.playState === "playing" && slipReturnSec === null) {
+    let currentPlayhead = getDeckPlayheadAt(deck, serverTs);
     // If enabling loop and playhead is past loop end, wrap it
     if (enabled && currentPlayhead > endSec) {
       const loopLength = endSec - startSec;
@@ -849,10 +1242,18 @@ export function handleDeckLoopSet(
     clientId: client.clientId,
     clientSeq: event.clientSeq,
     type: "DECK_LOOP_SET",
-    payload: { deckId, enabled, startSec, endSec, lengthBars },
+    payload: {
+      deckId,
+      enabled,
+      startSec,
+      endSec,
+      lengthBars,
+      ...(deck.slipShadow ? { slipShadow: deck.slipShadow } : {}),
+    },
   };
 
   io.to(room.roomId).emit("DECK_LOOP_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
@@ -861,22 +1262,22 @@ export function handleDeckLoopSet(
 }
 
 /**
- * Handle DECK_ROLL_START event.
- * Starts a momentary loop roll on a deck.
+ * Handle DECK_LOOP_SAVE event.
+ * Saves the deck's active loop into a slot, stored with the track.
  */
-export function handleDeckRollStart(
+export function handleDeckLoopSave(
   io: Server,
   socket: Socket,
   data: unknown
 ): void {
-  const parsed = DeckRollStartEventSchema.safeParse(data);
+  const parsed = DeckLoopSaveEventSchema.safeParse(data);
   if (!parsed.success) {
-    console.log(`[DECK_ROLL_START] invalid payload socket=${socket.id}`);
+    console.log(`[DECK_LOOP_SAVE] invalid payload socket=${socket.id}`);
     return;
   }
 
-  const event = parsed.data as DeckRollStartEvent;
-  const { deckId, startSec, lengthBars, returnSec } = event.payload;
+  const event = parsed.data as DeckLoopSaveEvent;
+  const { deckId, index } = event.payload;
 
   const client = roomStore.getClient(socket.id);
   if (!client || !client.roomId) {
@@ -884,9 +1285,9 @@ export function handleDeckRollStart(
     return;
   }
 
-  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_ROLL_START");
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_LOOP_SAVE");
   if (!rateResult.allowed) {
-    logRateLimitViolation("DECK_ROLL_START", client.clientId, client.roomId, rateResult.error);
+    logRateLimitViolation("DECK_LOOP_SAVE", client.clientId, client.roomId, rateResult.error);
     sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
     return;
   }
@@ -897,73 +1298,70 @@ export function handleDeckRollStart(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_LOOP_SAVE");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_LOOP_SAVE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   const deck = getDeck(room, deckId);
   if (!deck) {
     sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
     return;
   }
 
-  if (!deck.loadedTrackId) {
-    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+  const lengthBars = LoopLengthBarsSchema.safeParse(deck.loop?.lengthBars);
+  if (!deck.loadedTrackId || !deck.loop?.enabled || !lengthBars.success) {
+    sendRejectedAck(socket, event.clientSeq, "", "No active loop");
     return;
   }
 
-  // Calculate roll end based on BPM and bars
-  const bpm = deck.detectedBpm ?? 120;
-  const beatsPerBar = 4;
-  const secondsPerBeat = 60 / (bpm * deck.playbackRate);
-  const rollLengthSec = secondsPerBeat * beatsPerBar * lengthBars;
-  const endSec = startSec + rollLengthSec;
-
-  const serverTs = Date.now();
-
-  deck.roll = { active: true, startSec, endSec, returnSec };
-
-  // Create new epoch when roll starts
-  if (deck.playState === "playing") {
-    deck.playheadSec = startSec;
-    createNewEpoch(deck, serverTs, startSec);
-  }
-
+  const loop = { startSec: deck.loop.startSec, endSec: deck.loop.endSec, lengthBars: lengthBars.data };
+  deck.savedLoops[index] = loop;
+  storeDeckCues(room, deck);
   room.version++;
+
   const eventId = `${room.roomId}-${room.version}`;
 
   const serverEvent: ServerMutationEvent = {
     eventId,
-    serverTs,
+    serverTs: Date.now(),
     version: room.version,
     roomId: room.roomId,
     clientId: client.clientId,
     clientSeq: event.clientSeq,
-    type: "DECK_ROLL_START",
-    payload: { deckId, startSec, lengthBars, returnSec },
+    type: "DECK_LOOP_SAVE",
+    payload: { deckId, index, loop },
   };
 
-  io.to(room.roomId).emit("DECK_ROLL_START", serverEvent);
+  io.to(room.roomId).emit("DECK_LOOP_SAVE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
-    `[DECK_ROLL_START] deck=${deckId} start=${startSec.toFixed(2)}s end=${endSec.toFixed(2)}s return=${returnSec.toFixed(2)}s roomId=${room.roomId}`
+    `[DECK_LOOP_SAVE] deck=${deckId} index=${index} start=${loop.startSec.toFixed(2)}s end=${loop.endSec.toFixed(2)}s roomId=${room.roomId}`
   );
 }
 
 /**
- * Handle DECK_ROLL_STOP event.
- * Stops a roll and snaps back to return position.
+ * Handle DECK_LOOP_DELETE event.
+ * Empties one of the deck's saved loop slots.
  */
-export function handleDeckRollStop(
+export function handleDeckLoopDelete(
   io: Server,
   socket: Socket,
   data: unknown
 ): void {
-  const parsed = DeckRollStopEventSchema.safeParse(data);
+  const parsed = DeckLoopDeleteEventSchema.safeParse(data);
   if (!parsed.success) {
-    console.log(`[DECK_ROLL_STOP] invalid payload socket=${socket.id}`);
+    console.log(`[DECK_LOOP_DELETE] invalid payload socket=${socket.id}`);
     return;
   }
 
-  const event = parsed.data as DeckRollStopEvent;
-  const { deckId } = event.payload;
+  const event = parsed.data as DeckLoopDeleteEvent;
+  const { deckId, index } = event.payload;
 
   const client = roomStore.getClient(socket.id);
   if (!client || !client.roomId) {
@@ -971,70 +1369,267 @@ export function handleDeckRollStop(
     return;
   }
 
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_LOOP_DELETE");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_LOOP_DELETE", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
   const room = roomStore.getRoom(client.roomId);
   if (!room) {
     sendRejectedAck(socket, event.clientSeq, "", "Room not found");
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_LOOP_DELETE");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_LOOP_DELETE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   const deck = getDeck(room, deckId);
   if (!deck) {
     sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
     return;
   }
 
-  const serverTs = Date.now();
-
-  // Calculate where playhead would naturally be without roll
-  // Use returnSec + time elapsed since roll started
-  const returnSec = deck.roll?.returnSec ?? deck.playheadSec;
-
-  deck.roll = null;
-  deck.playheadSec = returnSec;
-
-  if (deck.playState === "playing") {
-    createNewEpoch(deck, serverTs, returnSec);
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
   }
 
+  deck.savedLoops[index] = null;
+  storeDeckCues(room, deck);
   room.version++;
+
   const eventId = `${room.roomId}-${room.version}`;
 
   const serverEvent: ServerMutationEvent = {
     eventId,
-    serverTs,
+    serverTs: Date.now(),
     version: room.version,
     roomId: room.roomId,
     clientId: client.clientId,
     clientSeq: event.clientSeq,
-    type: "DECK_ROLL_STOP",
-    payload: { deckId },
+    type: "DECK_LOOP_DELETE",
+    payload: { deckId, index },
   };
 
-  io.to(room.roomId).emit("DECK_ROLL_STOP", serverEvent);
+  io.to(room.roomId).emit("DECK_LOOP_DELETE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
-  console.log(
-    `[DECK_ROLL_STOP] deck=${deckId} returnTo=${returnSec.toFixed(2)}s roomId=${room.roomId}`
-  );
+  console.log(`[DECK_LOOP_DELETE] deck=${deckId} index=${index} roomId=${room.roomId}`);
 }
 
 /**
- * Handle DECK_HOT_CUE_SET event.
- * Sets or clears the hot cue point on a deck. Server-authoritative.
+ * Handle DECK_ROLL_START event.
+ * Starts a momentary loop roll on a deck.
  */
-export function handleDeckHotCueSet(
+export function handleDeckRollStart(
   io: Server,
   socket: Socket,
   data: unknown
 ): void {
-  const parsed = DeckHotCueSetEventSchema.safeParse(data);
+  const parsed = DeckRollStartEventSchema.safeParse(data);
   if (!parsed.success) {
-    console.log(`[DECK_HOT_CUE_SET] invalid payload socket=${socket.id}`);
+    console.log(`[DECK_ROLL_START] invalid payload socket=${socket.id}`);
     return;
   }
 
-  const event = parsed.data as DeckHotCueSetEvent;
-  const { deckId, hotCuePointSec } = event.payload;
+  const event = parsed.data as DeckRollStartEvent;
+  const { deckId, lengthBars, returnSec } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_ROLL_START");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_ROLL_START", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_ROLL_START");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_ROLL_START", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
+  }
+
+  // Calculate roll end based on BPM and bars
+  // Quantize: the roll starts on the grid, but still returns to the raw position
+  const startSec = quantizePosition(deck, event.payload.startSec);
+
+  const bpm = deck.detectedBpm ?? 120;
+  const beatsPerBar = 4;
+  const secondsPerBeat = 60 / (bpm * deck.playbackRate);
+  const rollLengthSec = secondsPerBeat * beatsPerBar * lengthBars;
+  const endSec = startSec + rollLengthSec;
+
+  const serverTs = Date.now();
+
+  startSlipShadow(deck, serverTs);
+  deck.roll = { active: true, startSec, endSec, returnSec };
+
+  // Create new epoch when roll starts
+  if (deck.playState === "playing") {
+    deck.playheadSec = startSec;
+    createNewEpoch(deck, serverTs, startSec);
+  }
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_ROLL_START",
+    payload: {
+      deckId,
+      startSec,
+      lengthBars,
+      returnSec,
+      ...(deck.slipShadow ? { slipShadow: deck.slipShadow } : {}),
+    },
+  };
+
+  io.to(room.roomId).emit("DECK_ROLL_START", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_ROLL_START] deck=${deckId} start=${startSec.toFixed(2)}s end=${endSec.toFixed(2)}s return=${returnSec.toFixed(2)}s roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_ROLL_STOP event.
+ * Stops a roll and snaps back to return position.
+ */
+export function handleDeckRollStop(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckRollStopEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_ROLL_STOP] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckRollStopEvent;
+  const { deckId } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_ROLL_STOP");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_ROLL_STOP", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  // Slip mode returns to the shadow playhead, otherwise to where the roll was pressed
+  const slipReturnSec = releaseSlipShadow(deck, serverTs);
+  const returnSec = slipReturnSec ?? deck.roll?.returnSec ?? deck.playheadSec;
+
+  deck.roll = null;
+  if (slipReturnSec === null) {
+    deck.playheadSec = returnSec;
+    if (deck.playState === "playing") {
+      createNewEpoch(deck, serverTs, returnSec);
+    }
+  }
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_ROLL_STOP",
+    payload: { deckId },
+  };
+
+  io.to(room.roomId).emit("DECK_ROLL_STOP", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_ROLL_STOP] deck=${deckId} returnTo=${returnSec.toFixed(2)}s roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_HOT_CUE_SET event.
+ * Sets one of the deck's hot cue slots. Server-authoritative.
+ * Omitted label/color keep the slot's current ones, so moving a cue keeps its name.
+ */
+export function handleDeckHotCueSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckHotCueSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_HOT_CUE_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckHotCueSetEvent;
+  const { deckId, index } = event.payload;
 
   const client = roomStore.getClient(socket.id);
   if (!client || !client.roomId) {
@@ -1044,7 +1639,784 @@ export function handleDeckHotCueSet(
 
   const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_HOT_CUE_SET");
   if (!rateResult.allowed) {
-    logRateLimitViolation("DECK_HOT_CUE_SET", client.clientId, client.roomId, rateResult.error);
+    logRateLimitViolation("DECK_HOT_CUE_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_HOT_CUE_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_HOT_CUE_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
+  }
+
+  // Validate position is within track bounds
+  if (deck.durationSec !== null && event.payload.positionSec > deck.durationSec) {
+    sendRejectedAck(socket, event.clientSeq, "", "Hot cue position out of bounds");
+    return;
+  }
+
+  // Quantize: snap to the beat grid (the snapped cue is what gets broadcast)
+  const positionSec = quantizePosition(deck, event.payload.positionSec);
+  const existing = deck.hotCues[index];
+  const label = event.payload.label !== undefined ? event.payload.label : existing?.label ?? null;
+  const color = event.payload.color !== undefined ? event.payload.color : existing?.color ?? null;
+
+  deck.hotCues[index] = { positionSec, label, color };
+  storeDeckCues(room, deck);
+  room.version++;
+
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs: Date.now(),
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_HOT_CUE_SET",
+    payload: { deckId, index, positionSec, label, color },
+  };
+
+  io.to(room.roomId).emit("DECK_HOT_CUE_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_HOT_CUE_SET] deck=${deckId} index=${index} position=${positionSec.toFixed(2)}s label=${label ?? "-"} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_HOT_CUE_CLEAR event.
+ * Empties one of the deck's hot cue slots.
+ */
+export function handleDeckHotCueClear(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckHotCueClearEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_HOT_CUE_CLEAR] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckHotCueClearEvent;
+  const { deckId, index } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_HOT_CUE_CLEAR");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_HOT_CUE_CLEAR", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_HOT_CUE_CLEAR");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_HOT_CUE_CLEAR", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
+  }
+
+  deck.hotCues[index] = null;
+  storeDeckCues(room, deck);
+  room.version++;
+
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs: Date.now(),
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_HOT_CUE_CLEAR",
+    payload: { deckId, index },
+  };
+
+  io.to(room.roomId).emit("DECK_HOT_CUE_CLEAR", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(`[DECK_HOT_CUE_CLEAR] deck=${deckId} index=${index} roomId=${room.roomId}`);
+}
+
+/**
+ * Handle DECK_HOT_CUE_JUMP event.
+ * Moves the playhead to a hot cue and plays from there (new epoch).
+ */
+export function handleDeckHotCueJump(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckHotCueJumpEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_HOT_CUE_JUMP] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckHotCueJumpEvent;
+  const { deckId, index } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_HOT_CUE_JUMP");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_HOT_CUE_JUMP", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_HOT_CUE_JUMP");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_HOT_CUE_JUMP", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
+  }
+
+  const hotCue = deck.hotCues[index];
+  if (!hotCue) {
+    sendRejectedAck(socket, event.clientSeq, "", "Hot cue not set");
+    return;
+  }
+
+  const serverTs = Date.now();
+  const wasPlaying = deck.playState === "playing";
+
+  // Slip mode: the shadow keeps running until the pad is released (DECK_SLIP_RELEASE)
+  startSlipShadow(deck, serverTs);
+  deck.playheadSec = hotCue.positionSec;
+  deck.playState = "playing";
+  createNewEpoch(deck, serverTs, hotCue.positionSec);
+
+  // Starting from pause behaves like DECK_PLAY for synced decks
+  if (!wasPlaying && deck.syncEnabled) {
+    matchSyncLeader(room, deck, serverTs, true);
+  }
+
+  const queueItem = room.queue.find((item) => item.id === deck.loadedQueueItemId);
+  if (queueItem) {
+    queueItem.status = `playing_${deckId}`;
+  }
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_HOT_CUE_JUMP",
+    payload: { deckId, index, ...(deck.slipShadow ? { slipShadow: deck.slipShadow } : {}) },
+  };
+
+  io.to(room.roomId).emit("DECK_HOT_CUE_JUMP", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_HOT_CUE_JUMP] deck=${deckId} index=${index} position=${hotCue.positionSec.toFixed(2)}s epochId=${deck.epochId} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_BEAT_GRID_SET event.
+ * Replaces the loaded track's beat grid (BPM + downbeat offset) and stores it
+ * on the queue item so it survives reloading.
+ */
+export function handleDeckBeatGridSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckBeatGridSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_BEAT_GRID_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckBeatGridSetEvent;
+  const { deckId, beatGrid } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_BEAT_GRID_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_BEAT_GRID_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_BEAT_GRID_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_BEAT_GRID_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
+  }
+
+  if (deck.durationSec !== null && beatGrid.firstBeatSec > deck.durationSec) {
+    sendRejectedAck(socket, event.clientSeq, "", "Beat grid offset out of bounds");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  deck.beatGrid = { ...beatGrid };
+  deck.detectedBpm = beatGrid.bpm;
+  storeDeckCues(room, deck);
+
+  // A moved grid shifts the beats: re-match this deck and its followers
+  if (deck.syncEnabled) {
+    matchSyncLeader(room, deck, serverTs, true);
+  }
+  updateSyncFollowers(room, deckId, serverTs);
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_BEAT_GRID_SET",
+    payload: { deckId, beatGrid },
+  };
+
+  io.to(room.roomId).emit("DECK_BEAT_GRID_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_BEAT_GRID_SET] deck=${deckId} bpm=${beatGrid.bpm} firstBeat=${beatGrid.firstBeatSec.toFixed(3)}s roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_SYNC event.
+ * Engaging SYNC makes the server set the deck's playback rate to the leader's
+ * tempo and, when both are playing, snap its playhead onto the leader's beat.
+ * The new epoch reaches clients through BEACON_TICK.
+ */
+export function handleDeckSync(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckSyncEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_SYNC] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckSyncEvent;
+  const { deckId, enabled } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_SYNC");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_SYNC", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_SYNC");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_SYNC", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  if (enabled) {
+    if (!deck.beatGrid) {
+      sendRejectedAck(socket, event.clientSeq, "", "No beat grid");
+      return;
+    }
+    if (!matchSyncLeader(room, deck, serverTs, true)) {
+      sendRejectedAck(socket, event.clientSeq, "", "No deck to sync to");
+      return;
+    }
+  }
+  deck.syncEnabled = enabled;
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_SYNC",
+    payload: { deckId, enabled, playbackRate: deck.playbackRate },
+  };
+
+  io.to(room.roomId).emit("DECK_SYNC", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_SYNC] deck=${deckId} enabled=${enabled} rate=${deck.playbackRate.toFixed(3)} epochId=${deck.epochId} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_QUANTIZE_SET event.
+ * Sets the deck's quantize resolution (off, beat or bar).
+ */
+export function handleDeckQuantizeSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckQuantizeSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_QUANTIZE_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckQuantizeSetEvent;
+  const { deckId, quantize } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_QUANTIZE_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_QUANTIZE_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_QUANTIZE_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_QUANTIZE_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  deck.quantize = quantize;
+  room.version++;
+
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs: Date.now(),
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_QUANTIZE_SET",
+    payload: { deckId, quantize },
+  };
+
+  io.to(room.roomId).emit("DECK_QUANTIZE_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(`[DECK_QUANTIZE_SET] deck=${deckId} quantize=${quantize} roomId=${room.roomId}`);
+}
+
+/**
+ * Handle DECK_KEY_LOCK_SET event.
+ * Toggles key lock; clients time-stretch locally, so transport state is untouched.
+ */
+export function handleDeckKeyLockSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckKeyLockSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_KEY_LOCK_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckKeyLockSetEvent;
+  const { deckId, enabled } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_KEY_LOCK_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_KEY_LOCK_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_KEY_LOCK_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_KEY_LOCK_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  deck.keyLock = enabled;
+  room.version++;
+
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs: Date.now(),
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_KEY_LOCK_SET",
+    payload: { deckId, enabled },
+  };
+
+  io.to(room.roomId).emit("DECK_KEY_LOCK_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(`[DECK_KEY_LOCK_SET] deck=${deckId} enabled=${enabled} roomId=${room.roomId}`);
+}
+
+/**
+ * Handle DECK_SLIP_SET event.
+ * Toggles slip mode. Turning it off drops a running shadow without jumping.
+ */
+export function handleDeckSlipSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckSlipSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_SLIP_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckSlipSetEvent;
+  const { deckId, enabled } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_SLIP_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_SLIP_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_SLIP_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_SLIP_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  deck.slip = enabled;
+  if (!enabled) {
+    deck.slipShadow = null;
+  }
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_SLIP_SET",
+    payload: { deckId, enabled },
+  };
+
+  io.to(room.roomId).emit("DECK_SLIP_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(`[DECK_SLIP_SET] deck=${deckId} enabled=${enabled} roomId=${room.roomId}`);
+}
+
+/**
+ * Handle DECK_SLIP_START event.
+ * Starts the shadow playhead for a held gesture (scratch, censor) on a deck
+ * in slip mode. Loops, rolls and hot cue jumps start it on their own.
+ */
+export function handleDeckSlipStart(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckSlipStartEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_SLIP_START] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckSlipStartEvent;
+  const { deckId } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_SLIP_START");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_SLIP_START", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_SLIP_START");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_SLIP_START", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  startSlipShadow(deck, serverTs);
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_SLIP_START",
+    payload: { deckId, ...(deck.slipShadow ? { slipShadow: deck.slipShadow } : {}) },
+  };
+
+  io.to(room.roomId).emit("DECK_SLIP_START", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_SLIP_START] deck=${deckId} shadow=${deck.slipShadow?.startSec.toFixed(2) ?? "none"}s roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_SLIP_RELEASE event.
+ * Ends the held gesture: the deck resumes from the shadow playhead for every
+ * client (a no-op when no shadow is running).
+ */
+export function handleDeckSlipRelease(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckSlipReleaseEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_SLIP_RELEASE] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckSlipReleaseEvent;
+  const { deckId } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_SLIP_RELEASE");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_SLIP_RELEASE", client.clientId, client.roomId, rateResult.error);
     sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
     return;
   }
@@ -1055,41 +2427,304 @@ export function handleDeckHotCueSet(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_SLIP_RELEASE");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_SLIP_RELEASE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   const deck = getDeck(room, deckId);
   if (!deck) {
     sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
     return;
   }
 
-  // Validate position is within track bounds (if setting, not clearing)
-  if (hotCuePointSec !== null && deck.durationSec !== null) {
-    if (hotCuePointSec < 0 || hotCuePointSec > deck.durationSec) {
-      sendRejectedAck(socket, event.clientSeq, "", "Hot cue position out of bounds");
-      return;
-    }
+  const serverTs = Date.now();
+
+  const positionSec = releaseSlipShadow(deck, serverTs);
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_SLIP_RELEASE",
+    payload: { deckId, ...(positionSec !== null ? { positionSec } : {}) },
+  };
+
+  io.to(room.roomId).emit("DECK_SLIP_RELEASE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_SLIP_RELEASE] deck=${deckId} returnTo=${positionSec?.toFixed(2) ?? "none"}s epochId=${deck.epochId} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_REVERSE_SET event.
+ * Plays the deck forwards or backwards. In slip mode reversing is a slip
+ * gesture: turning it off resumes from the shadow playhead.
+ */
+export function handleDeckReverseSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckReverseSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_REVERSE_SET] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckReverseSetEvent;
+  const { deckId, enabled } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_REVERSE_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_REVERSE_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_REVERSE_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_REVERSE_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  const positionSec = setDeckReverse(deck, enabled, serverTs, deck.slip);
+
+  room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_REVERSE_SET",
+    payload: {
+      deckId,
+      enabled,
+      ...(enabled && deck.slipShadow ? { slipShadow: deck.slipShadow } : {}),
+      ...(positionSec !== null ? { positionSec } : {}),
+    },
+  };
+
+  io.to(room.roomId).emit("DECK_REVERSE_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_REVERSE_SET] deck=${deckId} enabled=${enabled} returnTo=${positionSec?.toFixed(2) ?? "none"}s epochId=${deck.epochId} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_CENSOR event.
+ * Momentary censor: the deck plays backwards while held and slips back to
+ * where the track would have been on release, slip mode or not.
+ */
+export function handleDeckCensor(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckCensorEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_CENSOR] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckCensorEvent;
+  const { deckId, active } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_CENSOR");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_CENSOR", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_CENSOR");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_CENSOR", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (!deck.loadedTrackId) {
+    sendRejectedAck(socket, event.clientSeq, "", "No track loaded");
+    return;
   }
 
-  deck.hotCuePointSec = hotCuePointSec;
+  const serverTs = Date.now();
+
+  const positionSec = setDeckReverse(deck, active, serverTs, true);
+
   room.version++;
+  const eventId = `${room.roomId}-${room.version}`;
+
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "DECK_CENSOR",
+    payload: {
+      deckId,
+      active,
+      ...(active && deck.slipShadow ? { slipShadow: deck.slipShadow } : {}),
+      ...(positionSec !== null ? { positionSec } : {}),
+    },
+  };
+
+  io.to(room.roomId).emit("DECK_CENSOR", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[DECK_CENSOR] deck=${deckId} active=${active} returnTo=${positionSec?.toFixed(2) ?? "none"}s epochId=${deck.epochId} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle DECK_BRAKE event.
+ * Starts a brake or spin-back: a new epoch whose rate ramps to zero over
+ * durationMs. The beacon timer pauses the deck when the ramp ends.
+ */
+export function handleDeckBrake(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = DeckBrakeEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[DECK_BRAKE] invalid payload socket=${socket.id}`);
+    return;
+  }
+
+  const event = parsed.data as DeckBrakeEvent;
+  const { deckId, kind, durationMs } = event.payload;
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "DECK_BRAKE");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("DECK_BRAKE", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "DECK_BRAKE");
+  if (!permResult.valid) {
+    logPermissionDenied("DECK_BRAKE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  const deck = getDeck(room, deckId);
+  if (!deck) {
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid deck ID");
+    return;
+  }
+
+  if (deck.playState !== "playing") {
+    sendRejectedAck(socket, event.clientSeq, "", "Deck is not playing");
+    return;
+  }
+
+  const serverTs = Date.now();
+
+  const startSec = getDeckPlayheadAt(deck, serverTs);
+  deck.playheadSec = startSec;
+  createNewEpoch(deck, serverTs, startSec);
+  deck.motion = { kind, startSec, startTimeMs: serverTs, durationMs };
+
+  room.version++;
   const eventId = `${room.roomId}-${room.version}`;
 
   const serverEvent: ServerMutationEvent = {
     eventId,
-    serverTs: Date.now(),
+    serverTs,
     version: room.version,
     roomId: room.roomId,
     clientId: client.clientId,
     clientSeq: event.clientSeq,
-    type: "DECK_HOT_CUE_SET",
-    payload: { deckId, hotCuePointSec },
+    type: "DECK_BRAKE",
+    payload: { deckId, kind, durationMs, motion: deck.motion },
   };
 
-  io.to(room.roomId).emit("DECK_HOT_CUE_SET", serverEvent);
+  io.to(room.roomId).emit("DECK_BRAKE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
-    `[DECK_HOT_CUE_SET] deck=${deckId} hotCue=${hotCuePointSec?.toFixed(2) ?? "null"} roomId=${room.roomId}`
+    `[DECK_BRAKE] deck=${deckId} kind=${kind} durationMs=${durationMs} from=${startSec.toFixed(2)}s epochId=${deck.epochId} roomId=${room.roomId}`
   );
 }
 
@@ -1129,6 +2764,14 @@ export function registerDeckHandlers(io: Server, socket: Socket): void {
     handleDeckLoopSet(io, socket, data);
   });
 
+  socket.on("DECK_LOOP_SAVE", (data: unknown) => {
+    handleDeckLoopSave(io, socket, data);
+  });
+
+  socket.on("DECK_LOOP_DELETE", (data: unknown) => {
+    handleDeckLoopDelete(io, socket, data);
+  });
+
   socket.on("DECK_ROLL_START", (data: unknown) => {
     handleDeckRollStart(io, socket, data);
   });
@@ -1140,4 +2783,52 @@ export function registerDeckHandlers(io: Server, socket: Socket): void {
   socket.on("DECK_HOT_CUE_SET", (data: unknown) => {
     handleDeckHotCueSet(io, socket, data);
   });
+
+  socket.on("DECK_HOT_CUE_CLEAR", (data: unknown) => {
+    handleDeckHotCueClear(io, socket, data);
+  });
+
+  socket.on("DECK_HOT_CUE_JUMP", (data: unknown) => {
+    handleDeckHotCueJump(io, socket, data);
+  });
+
+  socket.on("DECK_BEAT_GRID_SET", (data: unknown) => {
+    handleDeckBeatGridSet(io, socket, data);
+  });
+
+  socket.on("DECK_SYNC", (data: unknown) => {
+    handleDeckSync(io, socket, data);
+  });
+
+  socket.on("DECK_QUANTIZE_SET", (data: unknown) => {
+    handleDeckQuantizeSet(io, socket, data);
+  });
+
+  socket.on("DECK_KEY_LOCK_SET", (data: unknown) => {
+    handleDeckKeyLockSet(io, socket, data);
+  });
+
+  socket.on("DECK_SLIP_SET", (data: unknown) => {
+    handleDeckSlipSet(io, socket, data);
+  });
+
+  socket.on("DECK_SLIP_START", (data: unknown) => {
+    handleDeckSlipStart(io, socket, data);
+  });
+
+  socket.on("DECK_SLIP_RELEASE", (data: unknown) => {
+    handleDeckSlipRelease(io, socket, data);
+  });
+
+  socket.on("DECK_REVERSE_SET", (data: unknown) => {
+    handleDeckReverseSet(io, socket, data);
+  });
+
+  socket.on("DECK_CENSOR", (data: unknown) => {
+    handleDeckCensor(io, socket, data);
+  });
+
+  socket.on("DECK_BRAKE", (data: unknown) => {
+    handleDeckBrake(io, socket, data);
+  });
 }
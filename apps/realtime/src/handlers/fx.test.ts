@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import { handleFxSet, handleFxToggle, handleFxChainSet } from "./fx.js";
+import { roomStore } from "../rooms/store.js";
+
+// Mock socket.io
+function createMockIO() {
+  const emittedEvents: Array<{ roomId: string; event: string; data: unknown }> = [];
+  return {
+    to: (roomId: string) => ({
+      emit: (event: string, data: unknown) => {
+        emittedEvents.push({ roomId, event, data });
+      },
+    }),
+    emittedEvents,
+  };
+}
+
+function createMockSocket(socketId: string) {
+  const emittedEvents: Array<{ event: string; data: unknown }> = [];
+  return {
+    id: socketId,
+    emit: (event: string, data: unknown) => {
+      emittedEvents.push({ event, data });
+    },
+    emittedEvents,
+  };
+}
+
+type IO = Parameters<typeof handleFxSet>[0];
+type Sock = Parameters<typeof handleFxSet>[1];
+
+describe("FX Handlers", () => {
+  describe("handleFxSet", () => {
+    it("should only change the targeted FX unit", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-1`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+      handleFxSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: { unit: "fx2", param: "wetDry", value: 0.8 },
+      });
+
+      const updatedRoom = roomStore.getRoom(room.roomId);
+      expect(updatedRoom?.mixer.fx2.wetDry).toBe(0.8);
+      expect(updatedRoom?.mixer.fx1.wetDry).toBe(0);
+
+      expect(mockIO.emittedEvents[0]?.event).toBe("FX_SET");
+      const broadcast = mockIO.emittedEvents[0]?.data as { payload: { unit: string } };
+      expect(broadcast.payload.unit).toBe("fx2");
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("should assign a unit to master", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-2`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+      handleFxSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: { unit: "fx1", param: "assign", value: "master" },
+      });
+
+      expect(roomStore.getRoom(room.roomId)?.mixer.fx1.assign).toBe("master");
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(true);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("should reject assigning to a deck the room does not have", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-3`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+      handleFxSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: { unit: "fx1", param: "assign", value: "C" },
+      });
+
+      expect(roomStore.getRoom(room.roomId)?.mixer.fx1.assign).toBe("A");
+      expect(mockIO.emittedEvents.length).toBe(0);
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(false);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("should allow deck C in a four-deck room", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-4`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId, 4);
+
+      handleFxSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: { unit: "fx2", param: "assign", value: "C" },
+      });
+
+      expect(roomStore.getRoom(room.roomId)?.mixer.fx2.assign).toBe("C");
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("handleFxToggle", () => {
+    it("should reject enabling a unit with an empty chain", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-5`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+      handleFxToggle(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_TOGGLE",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: { unit: "fx1", enabled: true },
+      });
+
+      expect(roomStore.getRoom(room.roomId)?.mixer.fx1.enabled).toBe(false);
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(false);
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+
+  describe("handleFxChainSet", () => {
+    it("should replace a unit's chain in order", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-6`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+      handleFxChainSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_CHAIN_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: {
+          unit: "fx1",
+          chain: [
+            { type: "echo", param: 0.3 },
+            { type: "reverb", param: 0.9 },
+          ],
+        },
+      });
+
+      const fx1 = roomStore.getRoom(room.roomId)?.mixer.fx1;
+      expect(fx1?.chain.map((slot) => slot.type)).toEqual(["echo", "reverb"]);
+      expect(mockIO.emittedEvents[0]?.event).toBe("FX_CHAIN_SET");
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("should reject a chain with the same effect twice", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-7`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+      handleFxChainSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_CHAIN_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: {
+          unit: "fx1",
+          chain: [
+            { type: "echo", param: 0.3 },
+            { type: "echo", param: 0.6 },
+          ],
+        },
+      });
+
+      expect(roomStore.getRoom(room.roomId)?.mixer.fx1.chain).toEqual([]);
+      expect(mockIO.emittedEvents.length).toBe(0);
+      const ack = mockSocket.emittedEvents[0]?.data as { accepted: boolean };
+      expect(ack.accepted).toBe(false);
+
+      roomStore.leaveRoom(socketId);
+    });
+
+    it("should disable the unit when the chain is cleared", () => {
+      const mockIO = createMockIO();
+      const socketId = `fx-test-socket-${Date.now()}-8`;
+      const mockSocket = createMockSocket(socketId);
+      const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+      room.mixer.fx2.chain = [{ type: "filter", param: 0.5 }];
+      room.mixer.fx2.enabled = true;
+
+      handleFxChainSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+        type: "FX_CHAIN_SET",
+        roomId: room.roomId,
+        clientId,
+        clientSeq: 1,
+        payload: { unit: "fx2", chain: [] },
+      });
+
+      const fx2 = roomStore.getRoom(room.roomId)?.mixer.fx2;
+      expect(fx2?.chain).toEqual([]);
+      expect(fx2?.enabled).toBe(false);
+
+      roomStore.leaveRoom(socketId);
+    });
+  });
+});
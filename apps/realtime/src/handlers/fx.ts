@@ -1,29 +1,41 @@
 /**
  * FX event handlers for Virtual DJ Rooms.
  *
- * Implements FX control:
- * - FX_SET: Set FX parameters (type, wetDry, param)
- * - FX_TOGGLE: Enable/disable FX
+ * Implements FX control for the two FX units (fx1, fx2):
+ * - FX_SET: Set a unit's parameters (wetDry, assign)
+ * - FX_TOGGLE: Enable/disable a unit
+ * - FX_CHAIN_SET: Replace a unit's processor chain (up to three effects)
  *
- * These events update the mixer.fx state and broadcast to all room members.
+ * These events update mixer.fx1 / mixer.fx2 and broadcast to all room members.
  */
 
 import type { Server, Socket } from "socket.io";
 import {
   FxSetEventSchema,
   FxToggleEventSchema,
+  FxChainSetEventSchema,
   type FxSetEvent,
   type FxToggleEvent,
+  type FxChainSetEvent,
   type ServerMutationEvent,
-  type FxType,
+  type FxAssign,
+  getFxUnitState,
+  getFxAssignTargets,
+  isValidFxChain,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { idempotencyStore } from "../protocol/idempotency.js";
 import { sendAcceptedAck, sendRejectedAck } from "../protocol/ack.js";
-import { rateLimiter, logRateLimitViolation } from "../security/index.js";
+import {
+  rateLimiter,
+  logRateLimitViolation,
+  validateRolePermission,
+  logPermissionDenied,
+} from "../security/index.js";
 
 /**
  * Handle FX_SET event.
- * Sets an FX parameter (type, wetDry, or param).
+ * Sets an FX unit parameter (wetDry or assign).
  */
 export function handleFxSet(
   io: Server,
@@ -37,7 +49,7 @@ export function handleFxSet(
   }
 
   const event = parsed.data as FxSetEvent;
-  const { param, value } = event.payload;
+  const { unit, param, value } = event.payload;
 
   // Get client and room
   const client = roomStore.getClient(socket.id);
@@ -61,34 +73,31 @@ export function handleFxSet(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "FX_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("FX_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   // Apply the FX parameter change
-  if (param === "type") {
-    // Validate FX type
-    const validTypes: FxType[] = ["echo", "reverb", "filter", "none"];
-    if (!validTypes.includes(value as FxType)) {
-      console.log(`[FX_SET] invalid FX type: ${value}`);
-      sendRejectedAck(socket, event.clientSeq, "", "Invalid FX type");
-      return;
-    }
-    room.mixer.fx.type = value as FxType;
-    // Reset enabled state when changing to "none"
-    if (value === "none") {
-      room.mixer.fx.enabled = false;
-    }
-  } else if (param === "wetDry") {
+  const fx = getFxUnitState(room.mixer, unit);
+  if (param === "wetDry") {
     if (typeof value !== "number" || value < 0 || value > 1) {
       console.log(`[FX_SET] invalid wetDry value: ${value}`);
       sendRejectedAck(socket, event.clientSeq, "", "Invalid wetDry value");
       return;
     }
-    room.mixer.fx.wetDry = value;
-  } else if (param === "param") {
-    if (typeof value !== "number" || value < 0 || value > 1) {
-      console.log(`[FX_SET] invalid param value: ${value}`);
-      sendRejectedAck(socket, event.clientSeq, "", "Invalid param value");
+    fx.wetDry = value;
+  } else if (param === "assign") {
+    // Only decks that exist in this room (or master) are valid targets
+    if (!getFxAssignTargets(room.deckCount).includes(value as FxAssign)) {
+      console.log(`[FX_SET] invalid assign target: ${value}`);
+      sendRejectedAck(socket, event.clientSeq, "", "Invalid FX assign target");
       return;
     }
-    room.mixer.fx.param = value;
+    fx.assign = value as FxAssign;
   } else {
     console.log(`[FX_SET] unknown param: ${param}`);
     sendRejectedAck(socket, event.clientSeq, "", "Unknown FX parameter");
@@ -110,22 +119,23 @@ export function handleFxSet(
     clientId: client.clientId,
     clientSeq: event.clientSeq,
     type: "FX_SET",
-    payload: { param, value },
+    payload: { unit, param, value },
   };
 
   io.to(room.roomId).emit("FX_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
-    `[FX_SET] param=${param} value=${value} roomId=${room.roomId} clientId=${client.clientId}`
+    `[FX_SET] unit=${unit} param=${param} value=${value} roomId=${room.roomId} clientId=${client.clientId}`
   );
 }
 
 /**
  * Handle FX_TOGGLE event.
- * Enables or disables the FX.
+ * Enables or disables an FX unit.
  */
 export function handleFxToggle(
   io: Server,
@@ -139,7 +149,7 @@ export function handleFxToggle(
   }
 
   const event = parsed.data as FxToggleEvent;
-  const { enabled } = event.payload;
+  const { unit, enabled } = event.payload;
 
   // Get client and room
   const client = roomStore.getClient(socket.id);
@@ -163,15 +173,24 @@ export function handleFxToggle(
     return;
   }
 
-  // Cannot enable FX if type is "none"
-  if (enabled && room.mixer.fx.type === "none") {
-    console.log(`[FX_TOGGLE] cannot enable FX when type is none`);
-    sendRejectedAck(socket, event.clientSeq, "", "Cannot enable FX when type is none");
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "FX_TOGGLE");
+  if (!permResult.valid) {
+    logPermissionDenied("FX_TOGGLE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  // Cannot enable FX with an empty chain
+  const fx = getFxUnitState(room.mixer, unit);
+  if (enabled && fx.chain.length === 0) {
+    console.log(`[FX_TOGGLE] cannot enable FX when chain is empty`);
+    sendRejectedAck(socket, event.clientSeq, "", "Cannot enable FX when chain is empty");
     return;
   }
 
   // Apply the toggle
-  room.mixer.fx.enabled = enabled;
+  fx.enabled = enabled;
 
   // Increment version
   room.version++;
@@ -188,16 +207,109 @@ export function handleFxToggle(
     clientId: client.clientId,
     clientSeq: event.clientSeq,
     type: "FX_TOGGLE",
-    payload: { enabled },
+    payload: { unit, enabled },
   };
 
   io.to(room.roomId).emit("FX_TOGGLE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
 
   // Send ack
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
-    `[FX_TOGGLE] enabled=${enabled} fxType=${room.mixer.fx.type} roomId=${room.roomId} clientId=${client.clientId}`
+    `[FX_TOGGLE] unit=${unit} enabled=${enabled} chain=${fx.chain.length} roomId=${room.roomId} clientId=${client.clientId}`
+  );
+}
+
+/**
+ * Handle FX_CHAIN_SET event.
+ * Replaces an FX unit's processor chain. Clients edit the chain locally
+ * (add, remove, reorder) and send the whole result.
+ */
+export function handleFxChainSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = FxChainSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[FX_CHAIN_SET] invalid payload socket=${socket.id}`, parsed.error);
+    return;
+  }
+
+  const event = parsed.data as FxChainSetEvent;
+  const { unit, chain } = event.payload;
+
+  // Get client and room
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    console.log(`[FX_CHAIN_SET] unauthorized socket=${socket.id}`);
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  // Rate limit check
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "FX_CHAIN_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("FX_CHAIN_SET", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "FX_CHAIN_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("FX_CHAIN_SET", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  // Each effect may appear once per chain
+  if (!isValidFxChain(chain)) {
+    console.log(`[FX_CHAIN_SET] invalid chain: ${chain.map((slot) => slot.type).join(",")}`);
+    sendRejectedAck(socket, event.clientSeq, "", "Invalid FX chain");
+    return;
+  }
+
+  // Apply the new chain; an empty chain switches the unit off
+  const fx = getFxUnitState(room.mixer, unit);
+  fx.chain = chain.map((slot) => ({ ...slot }));
+  if (chain.length === 0) {
+    fx.enabled = false;
+  }
+
+  // Increment version
+  room.version++;
+
+  const serverTs = Date.now();
+  const eventId = `${room.roomId}-${room.version}`;
+
+  // Broadcast to all clients in room
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "FX_CHAIN_SET",
+    payload: { unit, chain: fx.chain },
+  };
+
+  io.to(room.roomId).emit("FX_CHAIN_SET", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+
+  // Send ack
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[FX_CHAIN_SET] unit=${unit} chain=${fx.chain.map((slot) => slot.type).join(">") || "(empty)"} roomId=${room.roomId} clientId=${client.clientId}`
   );
 }
 
@@ -212,4 +324,8 @@ export function registerFxHandlers(io: Server, socket: Socket): void {
   socket.on("FX_TOGGLE", (data: unknown) => {
     handleFxToggle(io, socket, data);
   });
+
+  socket.on("FX_CHAIN_SET", (data: unknown) => {
+    handleFxChainSet(io, socket, data);
+  });
 }
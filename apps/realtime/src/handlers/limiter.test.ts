@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { handleLimiterToggle } from "./limiter.js";
+import { handleMixerSet } from "./controls.js";
+import { roomStore } from "../rooms/store.js";
+
+// Mock socket.io
+function createMockIO() {
+  const emittedEvents: Array<{ roomId: string; event: string; data: unknown }> = [];
+  return {
+    to: (roomId: string) => ({
+      emit: (event: string, data: unknown) => {
+        emittedEvents.push({ roomId, event, data });
+      },
+    }),
+    emittedEvents,
+  };
+}
+
+function createMockSocket(socketId: string) {
+  const emittedEvents: Array<{ event: string; data: unknown }> = [];
+  return {
+    id: socketId,
+    emit: (event: string, data: unknown) => {
+      emittedEvents.push({ event, data });
+    },
+    emittedEvents,
+  };
+}
+
+type IO = Parameters<typeof handleLimiterToggle>[0];
+type Sock = Parameters<typeof handleLimiterToggle>[1];
+
+describe("Limiter Handlers", () => {
+  it("bypasses and re-enables the limiter with LIMITER_TOGGLE", () => {
+    const mockIO = createMockIO();
+    const socketId = `limiter-toggle-${Date.now()}`;
+    const mockSocket = createMockSocket(socketId);
+    const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+    expect(room.mixer.limiter.enabled).toBe(true);
+
+    handleLimiterToggle(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+      type: "LIMITER_TOGGLE",
+      roomId: room.roomId,
+      clientId,
+      clientSeq: 1,
+      payload: { enabled: false },
+    });
+
+    expect(room.mixer.limiter.enabled).toBe(false);
+    expect(mockIO.emittedEvents[0]?.event).toBe("LIMITER_TOGGLE");
+    expect(mockIO.emittedEvents[0]?.data).toMatchObject({ payload: { enabled: false } });
+    expect(mockSocket.emittedEvents[0]?.event).toBe("EVENT_ACK");
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("sets threshold, release and ceiling through MIXER_SET", () => {
+    const mockIO = createMockIO();
+    const socketId = `limiter-mixer-set-${Date.now()}`;
+    const mockSocket = createMockSocket(socketId);
+    const { room, clientId } = roomStore.createRoom("TestHost", socketId);
+
+    handleMixerSet(mockIO as unknown as IO, mockSocket as unknown as Sock, {
+      type: "MIXER_SET",
+      roomId: room.roomId,
+      clientId,
+      clientSeq: 1,
+      payload: { controlId: "limiter.ceiling", value: 0.5 },
+    });
+
+    expect(room.mixer.limiter.ceiling).toBe(0.5);
+    const broadcast = mockIO.emittedEvents.find((e) => e.event === "MIXER_VALUE");
+    expect(broadcast?.data).toMatchObject({ controlId: "limiter.ceiling", value: 0.5 });
+
+    roomStore.leaveRoom(socketId);
+  });
+});
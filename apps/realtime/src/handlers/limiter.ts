@@ -0,0 +1,113 @@
+/**
+ * Master limiter handlers for Virtual DJ Rooms.
+ *
+ * - LIMITER_TOGGLE: Put the master limiter in or out of the signal path
+ *
+ * Threshold, release and ceiling are continuous controls
+ * ("limiter.threshold", ...) and go through MIXER_SET like any knob.
+ */
+
+import type { Server, Socket } from "socket.io";
+import {
+  LimiterToggleEventSchema,
+  type LimiterToggleEvent,
+  type ServerMutationEvent,
+} from "@puid-board/shared";
+import { roomStore } from "../rooms/store.js";
+import { idempotencyStore } from "../protocol/idempotency.js";
+import { sendAcceptedAck, sendRejectedAck } from "../protocol/ack.js";
+import {
+  rateLimiter,
+  logRateLimitViolation,
+  validateRolePermission,
+  logPermissionDenied,
+} from "../security/index.js";
+
+/**
+ * Handle LIMITER_TOGGLE event.
+ * Enables or bypasses the master limiter.
+ */
+export function handleLimiterToggle(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = LimiterToggleEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[LIMITER_TOGGLE] invalid payload socket=${socket.id}`, parsed.error);
+    return;
+  }
+
+  const event = parsed.data as LimiterToggleEvent;
+  const { enabled } = event.payload;
+
+  // Get client and room
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    console.log(`[LIMITER_TOGGLE] unauthorized socket=${socket.id}`);
+    sendRejectedAck(socket, event.clientSeq, "", "Not in a room");
+    return;
+  }
+
+  // Rate limit check
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "LIMITER_TOGGLE");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("LIMITER_TOGGLE", client.clientId, client.roomId, rateResult.error);
+    sendRejectedAck(socket, event.clientSeq, "", rateResult.error);
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) {
+    sendRejectedAck(socket, event.clientSeq, "", "Room not found");
+    return;
+  }
+
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "LIMITER_TOGGLE");
+  if (!permResult.valid) {
+    logPermissionDenied("LIMITER_TOGGLE", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
+  // Apply the toggle
+  room.mixer.limiter.enabled = enabled;
+
+  // Increment version
+  room.version++;
+
+  const serverTs = Date.now();
+  const eventId = `${room.roomId}-${room.version}`;
+
+  // Broadcast to all clients in room
+  const serverEvent: ServerMutationEvent = {
+    eventId,
+    serverTs,
+    version: room.version,
+    roomId: room.roomId,
+    clientId: client.clientId,
+    clientSeq: event.clientSeq,
+    type: "LIMITER_TOGGLE",
+    payload: { enabled },
+  };
+
+  io.to(room.roomId).emit("LIMITER_TOGGLE", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
+
+  // Send ack
+  sendAcceptedAck(socket, event.clientSeq, eventId);
+
+  console.log(
+    `[LIMITER_TOGGLE] enabled=${enabled} roomId=${room.roomId} clientId=${client.clientId}`
+  );
+}
+
+/**
+ * Register master limiter handlers on a socket.
+ */
+export function registerLimiterHandlers(io: Server, socket: Socket): void {
+  socket.on("LIMITER_TOGGLE", (data: unknown) => {
+    handleLimiterToggle(io, socket, data);
+  });
+}
@@ -0,0 +1,252 @@
+/**
+ * Tests for member rename, role and monitor handlers.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { handleMemberRoleSet, handleMemberMonitorSet } from "./member.js";
+import { roomStore } from "../rooms/store.js";
+
+function createMockIO() {
+  const emittedEvents: Array<{ roomId: string; event: string; data: unknown }> = [];
+  return {
+    to: (roomId: string) => ({
+      emit: (event: string, data: unknown) => {
+        emittedEvents.push({ roomId, event, data });
+      },
+    }),
+    emittedEvents,
+  };
+}
+
+function createMockSocket(socketId: string) {
+  return {
+    id: socketId,
+    emit: vi.fn(),
+  };
+}
+
+function setupRoom() {
+  const hostSocketId = `member-host-${Date.now()}-${Math.random()}`;
+  const djSocketId = `member-dj-${Date.now()}-${Math.random()}`;
+  const { room, clientId: hostId } = roomStore.createRoom("Host", hostSocketId);
+  const joinResult = roomStore.joinRoom(room.roomCode, "Guest", djSocketId);
+  const djId = joinResult!.clientId;
+  // Joiners start as listeners; the host has promoted this one to co-DJ
+  room.members.find((m) => m.clientId === djId)!.role = "dj";
+
+  const cleanup = () => {
+    roomStore.leaveRoom(djSocketId);
+    roomStore.leaveRoom(hostSocketId);
+  };
+
+  return { room, hostId, hostSocketId, djId, djSocketId, cleanup };
+}
+
+describe("handleMemberRoleSet", () => {
+  it("lets the host demote a co-DJ to listener", () => {
+    const { room, hostId, hostSocketId, djId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const versionBefore = room.version;
+
+    handleMemberRoleSet(
+      mockIO as unknown as Parameters<typeof handleMemberRoleSet>[0],
+      createMockSocket(hostSocketId) as unknown as Parameters<typeof handleMemberRoleSet>[1],
+      {
+        type: "MEMBER_ROLE_SET",
+        roomId: room.roomId,
+        clientId: hostId,
+        payload: { targetClientId: djId, role: "listener" },
+      }
+    );
+
+    const member = roomStore.getRoom(room.roomId)?.members.find((m) => m.clientId === djId);
+    expect(member?.role).toBe("listener");
+    expect(room.version).toBe(versionBefore + 1);
+
+    const broadcast = mockIO.emittedEvents.find((e) => e.event === "MEMBER_ROLE_CHANGED");
+    expect(broadcast?.data).toMatchObject({
+      type: "MEMBER_ROLE_CHANGED",
+      payload: { clientId: djId, role: "listener", changedBy: hostId },
+    });
+
+    cleanup();
+  });
+
+  it("releases controls held by a demoted member", () => {
+    const { room, hostId, hostSocketId, djId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    room.controlOwners["crossfader"] = {
+      clientId: djId,
+      acquiredAt: Date.now(),
+      lastMovedAt: Date.now(),
+    };
+
+    handleMemberRoleSet(
+      mockIO as unknown as Parameters<typeof handleMemberRoleSet>[0],
+      createMockSocket(hostSocketId) as unknown as Parameters<typeof handleMemberRoleSet>[1],
+      {
+        type: "MEMBER_ROLE_SET",
+        roomId: room.roomId,
+        clientId: hostId,
+        payload: { targetClientId: djId, role: "listener" },
+      }
+    );
+
+    expect(room.controlOwners["crossfader"]).toBeUndefined();
+    expect(mockIO.emittedEvents.some((e) => e.event === "CONTROL_OWNERSHIP")).toBe(true);
+
+    cleanup();
+  });
+
+  it("rejects role changes from non-hosts", () => {
+    const { room, hostId, djId, djSocketId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const mockSocket = createMockSocket(djSocketId);
+
+    handleMemberRoleSet(
+      mockIO as unknown as Parameters<typeof handleMemberRoleSet>[0],
+      mockSocket as unknown as Parameters<typeof handleMemberRoleSet>[1],
+      {
+        type: "MEMBER_ROLE_SET",
+        roomId: room.roomId,
+        clientId: djId,
+        payload: { targetClientId: hostId, role: "listener" },
+      }
+    );
+
+    const host = room.members.find((m) => m.clientId === hostId);
+    expect(host?.role).toBe("host");
+    expect(mockIO.emittedEvents.length).toBe(0);
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      "ERROR",
+      expect.objectContaining({ type: "NOT_HOST" })
+    );
+
+    cleanup();
+  });
+
+  it("rejects assigning the host role", () => {
+    const { room, hostId, hostSocketId, djId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const mockSocket = createMockSocket(hostSocketId);
+
+    handleMemberRoleSet(
+      mockIO as unknown as Parameters<typeof handleMemberRoleSet>[0],
+      mockSocket as unknown as Parameters<typeof handleMemberRoleSet>[1],
+      {
+        type: "MEMBER_ROLE_SET",
+        roomId: room.roomId,
+        clientId: hostId,
+        payload: { targetClientId: djId, role: "host" },
+      }
+    );
+
+    const member = room.members.find((m) => m.clientId === djId);
+    expect(member?.role).toBe("dj");
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      "ERROR",
+      expect.objectContaining({ type: "VALIDATION_ERROR" })
+    );
+
+    cleanup();
+  });
+});
+
+describe("handleMemberMonitorSet", () => {
+  it("updates only the sender's monitoring", () => {
+    const { room, hostId, djId, djSocketId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const mixerBefore = JSON.stringify(room.mixer);
+
+    handleMemberMonitorSet(
+      mockIO as unknown as Parameters<typeof handleMemberMonitorSet>[0],
+      createMockSocket(djSocketId) as unknown as Parameters<typeof handleMemberMonitorSet>[1],
+      {
+        type: "MEMBER_MONITOR_SET",
+        roomId: room.roomId,
+        clientId: djId,
+        payload: { cue: ["A", "A", "B"], splitCue: true },
+      }
+    );
+
+    const dj = room.members.find((m) => m.clientId === djId);
+    const host = room.members.find((m) => m.clientId === hostId);
+    expect(dj?.monitor).toEqual({ cue: ["A", "B"], headphoneMix: 1.0, splitCue: true });
+    expect(host?.monitor).toEqual({ cue: [], headphoneMix: 1.0, splitCue: false });
+    expect(JSON.stringify(room.mixer)).toBe(mixerBefore);
+
+    const broadcast = mockIO.emittedEvents.find((e) => e.event === "MEMBER_MONITOR_CHANGED");
+    expect(broadcast?.data).toMatchObject({
+      type: "MEMBER_MONITOR_CHANGED",
+      payload: { clientId: djId, monitor: { cue: ["A", "B"], splitCue: true } },
+    });
+
+    cleanup();
+  });
+
+  it("keeps settings that are not in the update", () => {
+    const { room, djId, djSocketId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const send = (payload: Record<string, unknown>) =>
+      handleMemberMonitorSet(
+        mockIO as unknown as Parameters<typeof handleMemberMonitorSet>[0],
+        createMockSocket(djSocketId) as unknown as Parameters<typeof handleMemberMonitorSet>[1],
+        { type: "MEMBER_MONITOR_SET", roomId: room.roomId, clientId: djId, payload }
+      );
+
+    send({ cue: ["B"] });
+    send({ headphoneMix: 0.25 });
+
+    const dj = room.members.find((m) => m.clientId === djId);
+    expect(dj?.monitor).toEqual({ cue: ["B"], headphoneMix: 0.25, splitCue: false });
+
+    cleanup();
+  });
+
+  it("rejects an out-of-range cue mix", () => {
+    const { room, djId, djSocketId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const mockSocket = createMockSocket(djSocketId);
+
+    handleMemberMonitorSet(
+      mockIO as unknown as Parameters<typeof handleMemberMonitorSet>[0],
+      mockSocket as unknown as Parameters<typeof handleMemberMonitorSet>[1],
+      {
+        type: "MEMBER_MONITOR_SET",
+        roomId: room.roomId,
+        clientId: djId,
+        payload: { headphoneMix: 1.5 },
+      }
+    );
+
+    expect(mockIO.emittedEvents.length).toBe(0);
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      "ERROR",
+      expect.objectContaining({ type: "VALIDATION_ERROR" })
+    );
+
+    cleanup();
+  });
+
+  it("rate limits a burst of updates", () => {
+    const { room, djId, djSocketId, cleanup } = setupRoom();
+    const mockIO = createMockIO();
+    const mockSocket = createMockSocket(djSocketId);
+
+    for (let i = 0; i <= 40; i++) {
+      handleMemberMonitorSet(
+        mockIO as unknown as Parameters<typeof handleMemberMonitorSet>[0],
+        mockSocket as unknown as Parameters<typeof handleMemberMonitorSet>[1],
+        { type: "MEMBER_MONITOR_SET", roomId: room.roomId, clientId: djId, payload: { headphoneMix: i / 40 } }
+      );
+    }
+
+    expect(mockIO.emittedEvents.length).toBe(40);
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      "ERROR",
+      expect.objectContaining({ type: "RATE_LIMITED" })
+    );
+
+    cleanup();
+  });
+});
@@ -1,9 +1,21 @@
 import type { Server, Socket } from "socket.io";
 import {
   MemberRenameEventSchema,
+  MemberRoleSetEventSchema,
+  MemberMonitorSetEventSchema,
+  applyMonitorUpdate,
   type MemberRenamedEvent,
+  type MemberRoleChangedEvent,
+  type MemberMonitorChangedEvent,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { releaseAllClientControls } from "./controls.js";
+import {
+  rateLimiter,
+  logRateLimitViolation,
+  validateRolePermission,
+  logPermissionDenied,
+} from "../security/index.js";
 
 export function handleMemberRename(
   io: Server,
@@ -61,8 +73,175 @@ export function handleMemberRename(
   );
 }
 
+/**
+ * Handle MEMBER_ROLE_SET event (host only).
+ * Switches a member between co-DJ and listener. Demoted members
+ * lose any controls they currently hold.
+ */
+export function handleMemberRoleSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = MemberRoleSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[MEMBER_ROLE_SET] invalid payload socket=${socket.id}`);
+    socket.emit("ERROR", {
+      type: "VALIDATION_ERROR",
+      message: "Invalid MEMBER_ROLE_SET payload",
+    });
+    return;
+  }
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    socket.emit("ERROR", {
+      type: "NOT_IN_ROOM",
+      message: "Not in a room",
+    });
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) return;
+
+  const permResult = validateRolePermission(room, client.clientId, "MEMBER_ROLE_SET");
+  if (!permResult.valid) {
+    logPermissionDenied("MEMBER_ROLE_SET", client.clientId, room.roomId);
+    socket.emit("ERROR", {
+      type: permResult.code,
+      message: permResult.error,
+    });
+    return;
+  }
+
+  const { targetClientId, role } = parsed.data.payload;
+
+  const target = room.members.find((m) => m.clientId === targetClientId);
+  if (!target) {
+    socket.emit("ERROR", {
+      type: "VALIDATION_ERROR",
+      message: "Member not found",
+    });
+    return;
+  }
+
+  if (target.isHost) {
+    socket.emit("ERROR", {
+      type: "VALIDATION_ERROR",
+      message: "Cannot change the host's role",
+    });
+    return;
+  }
+
+  if (target.role === role) return; // No change
+
+  target.role = role;
+  room.version++;
+
+  // Demoted listeners must not keep hold of controls
+  if (role === "listener") {
+    const releasedControls = releaseAllClientControls(room.roomId, targetClientId);
+    for (const controlId of releasedControls) {
+      io.to(room.roomId).emit("CONTROL_OWNERSHIP", {
+        type: "CONTROL_OWNERSHIP",
+        roomId: room.roomId,
+        controlId,
+        ownership: null,
+      });
+    }
+  }
+
+  const broadcast: MemberRoleChangedEvent = {
+    type: "MEMBER_ROLE_CHANGED",
+    roomId: room.roomId,
+    serverTs: Date.now(),
+    payload: {
+      clientId: targetClientId,
+      role,
+      changedBy: client.clientId,
+    },
+  };
+
+  io.to(room.roomId).emit("MEMBER_ROLE_CHANGED", broadcast);
+
+  console.log(
+    `[MEMBER_ROLE_SET] clientId=${targetClientId} role=${role} by=${client.clientId} roomId=${room.roomId}`
+  );
+}
+
+/**
+ * Handle MEMBER_MONITOR_SET event.
+ * Updates the sender's own headphone monitoring (CUE buttons, cue mix, split
+ * cue). Only that member's audio changes, so listeners may use it too.
+ */
+export function handleMemberMonitorSet(
+  io: Server,
+  socket: Socket,
+  data: unknown
+): void {
+  const parsed = MemberMonitorSetEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.log(`[MEMBER_MONITOR_SET] invalid payload socket=${socket.id}`);
+    socket.emit("ERROR", {
+      type: "VALIDATION_ERROR",
+      message: "Invalid MEMBER_MONITOR_SET payload",
+    });
+    return;
+  }
+
+  const client = roomStore.getClient(socket.id);
+  if (!client || !client.roomId) {
+    socket.emit("ERROR", {
+      type: "NOT_IN_ROOM",
+      message: "Not in a room",
+    });
+    return;
+  }
+
+  // Rate limit check (knob drags send a burst of updates)
+  const rateResult = rateLimiter.checkAndRecord(client.clientId, "MEMBER_MONITOR_SET");
+  if (!rateResult.allowed) {
+    logRateLimitViolation("MEMBER_MONITOR_SET", client.clientId, client.roomId, rateResult.error);
+    socket.emit("ERROR", {
+      type: "RATE_LIMITED",
+      message: rateResult.error,
+    });
+    return;
+  }
+
+  const room = roomStore.getRoom(client.roomId);
+  if (!room) return;
+
+  const member = room.members.find((m) => m.clientId === client.clientId);
+  if (!member) return;
+
+  member.monitor = applyMonitorUpdate(member.monitor, parsed.data.payload);
+  room.version++;
+
+  const broadcast: MemberMonitorChangedEvent = {
+    type: "MEMBER_MONITOR_CHANGED",
+    roomId: room.roomId,
+    serverTs: Date.now(),
+    payload: {
+      clientId: client.clientId,
+      monitor: member.monitor,
+    },
+  };
+
+  io.to(room.roomId).emit("MEMBER_MONITOR_CHANGED", broadcast);
+}
+
 export function registerMemberHandlers(io: Server, socket: Socket): void {
   socket.on("MEMBER_RENAME", (data: unknown) => {
     handleMemberRename(io, socket, data);
   });
+
+  socket.on("MEMBER_ROLE_SET", (data: unknown) => {
+    handleMemberRoleSet(io, socket, data);
+  });
+
+  socket.on("MEMBER_MONITOR_SET", (data: unknown) => {
+    handleMemberMonitorSet(io, socket, data);
+  });
 }
@@ -4,8 +4,8 @@ import { updateMetadataAnalysis } from "../services/youtubeCache.js";
 
 /**
  * Handle TRACK_METADATA_REPORT from clients.
- * Clients send this after completing BPM detection + waveform generation
- * for a YouTube track. We cache the metadata so future joiners skip analysis.
+ * Clients send this after completing BPM/key detection + waveform generation
+ * (overview and three-band) for a YouTube track. We cache the metadata so future joiners skip analysis.
  *
  * This is a standalone event (like TIME_PING), not a room mutation.
  */
@@ -17,11 +17,11 @@ export function registerMetadataHandlers(socket: Socket): void {
       return;
     }
 
-    const { videoId, bpm, waveform } = parsed.data;
+    const { videoId, bpm, waveform, key, bands } = parsed.data;
 
     try {
-      await updateMetadataAnalysis(videoId, bpm, waveform);
-      console.log(`[metadata] Cached analysis for ${videoId}: BPM=${bpm}`);
+      await updateMetadataAnalysis(videoId, bpm, waveform, key ?? null, bands ?? null);
+      console.log(`[metadata] Cached analysis for ${videoId}: BPM=${bpm} key=${key ?? "N/A"}`);
     } catch (err) {
       console.error(`[metadata] Failed to cache analysis for ${videoId}:`, err);
     }
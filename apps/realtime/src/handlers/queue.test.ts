@@ -568,6 +568,8 @@ describe("Queue Handlers", () => {
       // Client 2 joins room
       const result = roomStore.joinRoom(room.roomCode, "Client2", socketId2);
       const clientId2 = result!.clientId;
+      // Joiners start as listeners; make Client2 a co-DJ
+      room.members.find((m) => m.clientId === clientId2)!.role = "dj";
 
       // Client 1 adds track 1
       handleQueueAdd(mockServer as any, mockSocket1 as any, {
@@ -1,11 +1,12 @@
 /**
  * Queue event handlers for QUEUE_ADD, QUEUE_REMOVE, QUEUE_REORDER, QUEUE_EDIT.
  * Implements the authoritative queue as source of truth with acks for optimistic UI.
+ * Auto-DJ (handlers/autoDj) takes tracks from and marks them played here.
  *
  * Security features:
  * - Rate limiting for all queue operations
  * - Validation of queue indices
- * - Permission checks for host-only actions
+ * - Permission checks for host-only actions and listener roles
  */
 
 import { Server, Socket } from "socket.io";
@@ -16,11 +17,15 @@ import {
   QueueEditEventSchema,
   QueueItem,
   QueueItemStatus,
+  RoomState,
   ServerMutationEvent,
   queueItemExists,
   isValidReorderIndex,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { getTrackCues, loadTrackCues } from "../services/trackCues.js";
+import { getTrackLoudness, loadTrackLoudness } from "../services/trackLoudness.js";
+import { idempotencyStore } from "../protocol/idempotency.js";
 import {
   sendAcceptedAck,
   sendRejectedAck,
@@ -29,6 +34,8 @@ import {
 import {
   rateLimiter,
   logRateLimitViolation,
+  validateRolePermission,
+  logPermissionDenied,
 } from "../security/index.js";
 
 /**
@@ -38,6 +45,26 @@ function generateQueueItemId(): string {
   return `q-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
 }
 
+/**
+ * Next item waiting to be played: the first one still "queued".
+ */
+export function getNextQueuedItem(room: RoomState): QueueItem | null {
+  return room.queue.find((item) => item.status === "queued") ?? null;
+}
+
+/**
+ * Mark a queue item as played (Auto-DJ, once it has mixed out of the track).
+ * @returns false if the item is no longer in the queue
+ */
+export function markQueueItemPlayed(room: RoomState, queueItemId: string): boolean {
+  const item = room.queue.find((q) => q.id === queueItemId);
+  if (!item) {
+    return false;
+  }
+  item.status = "played";
+  return true;
+}
+
 /**
  * Handle QUEUE_ADD event - add a track to the queue.
  */
@@ -75,6 +102,14 @@ export function handleQueueAdd(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, clientId, "QUEUE_ADD");
+  if (!permResult.valid) {
+    logPermissionDenied("QUEUE_ADD", clientId, roomId);
+    sendRejectedAck(socket, clientSeq, generateEventId(), permResult.error);
+    return;
+  }
+
   // Create new queue item
   const queueItemId = generateQueueItemId();
   const now = Date.now();
@@ -93,6 +128,25 @@ export function handleQueueAdd(
     thumbnailUrl: payload.thumbnailUrl ?? null,
   };
 
+  // Attach the track's saved cues; if they aren't cached yet, load them
+  // in the background so they're ready by the time the track is loaded
+  const cues = getTrackCues(queueItem);
+  if (cues) {
+    queueItem.hotCues = [...cues.hotCues];
+    queueItem.savedLoops = [...cues.savedLoops];
+    queueItem.beatGrid = cues.beatGrid && { ...cues.beatGrid };
+  } else {
+    void loadTrackCues(queueItem);
+  }
+
+  // Same for its measured loudness (sets the trim when it's loaded)
+  const loudness = getTrackLoudness(queueItem);
+  if (loudness) {
+    queueItem.loudness = { ...loudness };
+  } else {
+    void loadTrackLoudness(queueItem);
+  }
+
   // Determine insertion position
   const insertAt = payload.insertAt ?? room.queue.length;
   const validInsertAt = Math.max(0, Math.min(insertAt, room.queue.length));
@@ -120,10 +174,12 @@ export function handleQueueAdd(
     payload: {
       ...payload,
       queueItemId, // Include server-generated ID
+      cues: cues ?? undefined, // Only the server attaches saved cues
     },
   };
 
   io.to(roomId).emit("QUEUE_ADD", mutationEvent);
+  idempotencyStore.recordMutation(mutationEvent);
 
   console.log(
     `[QUEUE_ADD] roomId=${roomId} clientId=${clientId} trackId=${payload.trackId} queueItemId=${queueItemId} position=${validInsertAt}`
@@ -167,6 +223,14 @@ export function handleQueueRemove(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, clientId, "QUEUE_REMOVE");
+  if (!permResult.valid) {
+    logPermissionDenied("QUEUE_REMOVE", clientId, roomId);
+    sendRejectedAck(socket, clientSeq, generateEventId(), permResult.error);
+    return;
+  }
+
   // Verify queue item exists
   if (!queueItemExists(room, payload.queueItemId)) {
     sendRejectedAck(
@@ -219,6 +283,7 @@ export function handleQueueRemove(
   };
 
   io.to(roomId).emit("QUEUE_REMOVE", mutationEvent);
+  idempotencyStore.recordMutation(mutationEvent);
 
   console.log(
     `[QUEUE_REMOVE] roomId=${roomId} clientId=${clientId} queueItemId=${payload.queueItemId}`
@@ -262,6 +327,14 @@ export function handleQueueReorder(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, clientId, "QUEUE_REORDER");
+  if (!permResult.valid) {
+    logPermissionDenied("QUEUE_REORDER", clientId, roomId);
+    sendRejectedAck(socket, clientSeq, generateEventId(), permResult.error);
+    return;
+  }
+
   // Verify queue item exists
   const itemIndex = room.queue.findIndex((q) => q.id === payload.queueItemId);
   if (itemIndex === -1) {
@@ -313,6 +386,7 @@ export function handleQueueReorder(
   };
 
   io.to(roomId).emit("QUEUE_REORDER", mutationEvent);
+  idempotencyStore.recordMutation(mutationEvent);
 
   console.log(
     `[QUEUE_REORDER] roomId=${roomId} clientId=${clientId} queueItemId=${payload.queueItemId} oldIndex=${itemIndex} newIndex=${payload.newIndex}`
@@ -356,6 +430,14 @@ export function handleQueueEdit(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, clientId, "QUEUE_EDIT");
+  if (!permResult.valid) {
+    logPermissionDenied("QUEUE_EDIT", clientId, roomId);
+    sendRejectedAck(socket, clientSeq, generateEventId(), permResult.error);
+    return;
+  }
+
   // Find queue item
   const item = room.queue.find((q) => q.id === payload.queueItemId);
   if (!item) {
@@ -394,6 +476,7 @@ export function handleQueueEdit(
   };
 
   io.to(roomId).emit("QUEUE_EDIT", mutationEvent);
+  idempotencyStore.recordMutation(mutationEvent);
 
   console.log(
     `[QUEUE_EDIT] roomId=${roomId} clientId=${clientId} queueItemId=${payload.queueItemId} updates=${JSON.stringify(payload.updates)}`
@@ -12,8 +12,14 @@ import {
   type ServerMutationEvent,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { idempotencyStore } from "../protocol/idempotency.js";
 import { sendAcceptedAck, sendRejectedAck } from "../protocol/ack.js";
-import { rateLimiter, logRateLimitViolation } from "../security/index.js";
+import {
+  rateLimiter,
+  logRateLimitViolation,
+  validateRolePermission,
+  logPermissionDenied,
+} from "../security/index.js";
 
 /**
  * Handle SAMPLER_PLAY event.
@@ -52,6 +58,14 @@ export function handleSamplerPlay(
     return;
   }
 
+  // Role check (listeners are read-only)
+  const permResult = validateRolePermission(room, client.clientId, "SAMPLER_PLAY");
+  if (!permResult.valid) {
+    logPermissionDenied("SAMPLER_PLAY", client.clientId, room.roomId);
+    sendRejectedAck(socket, event.clientSeq, "", permResult.error);
+    return;
+  }
+
   room.version++;
   const serverTs = Date.now();
   const eventId = `${room.roomId}-${room.version}`;
@@ -68,6 +82,7 @@ export function handleSamplerPlay(
   };
 
   io.to(room.roomId).emit("SAMPLER_PLAY", serverEvent);
+  idempotencyStore.recordMutation(serverEvent);
   sendAcceptedAck(socket, event.clientSeq, eventId);
 
   console.log(
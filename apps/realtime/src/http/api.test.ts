@@ -0,0 +1,144 @@
+/**
+ * Tests for HTTP API routing and validation.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import type { IncomingMessage, ServerResponse } from "http";
+import { handleTrackApiRequest } from "./api.js";
+import { roomStore } from "../rooms/store.js";
+
+function createMockRequest(method: string, url: string) {
+  return { method, url, headers: {} } as unknown as IncomingMessage;
+}
+
+const BOUNDARY = "----api-test-boundary";
+
+/** POST request with a multipart body (fields plus a "file" part) */
+function createMultipartRequest(url: string, fields: Record<string, string>) {
+  const parts = Object.entries(fields).map(
+    ([name, value]) =>
+      `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+  );
+  parts.push(
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="recording.webm"\r\n` +
+      `Content-Type: audio/webm\r\n\r\nfake webm recording\r\n`
+  );
+  parts.push(`--${BOUNDARY}--\r\n`);
+
+  const req = Readable.from([Buffer.from(parts.join(""))]) as unknown as IncomingMessage;
+  req.method = "POST";
+  req.url = url;
+  req.headers = { "content-type": `multipart/form-data; boundary=${BOUNDARY}` };
+  return req;
+}
+
+function createMockResponse() {
+  const response = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: "",
+    writeHead(statusCode: number, headers?: Record<string, string>) {
+      response.statusCode = statusCode;
+      response.headers = headers ?? {};
+    },
+    end(body?: string) {
+      response.body = body ?? "";
+    },
+  };
+  return response;
+}
+
+describe("GET /api/history", () => {
+  it("rejects inherited object keys as formats with a 400", async () => {
+    const socketId = `history-format-${Date.now()}`;
+    const { room } = roomStore.createRoom("TestHost", socketId);
+
+    for (const format of ["toString", "constructor", "__proto__"]) {
+      const res = createMockResponse();
+      await handleTrackApiRequest(
+        createMockRequest("GET", `/api/history?roomId=${room.roomId}&format=${format}`),
+        res as unknown as ServerResponse
+      );
+
+      expect(res.statusCode).toBe(400);
+      expect(JSON.parse(res.body)).toEqual({ error: "Invalid format (expected cue, m3u or csv)" });
+    }
+
+    roomStore.leaveRoom(socketId);
+  });
+
+  it("serves a known format as a download", async () => {
+    const socketId = `history-csv-${Date.now()}`;
+    const { room } = roomStore.createRoom("TestHost", socketId);
+
+    const res = createMockResponse();
+    await handleTrackApiRequest(
+      createMockRequest("GET", `/api/history?roomId=${room.roomId}&format=csv`),
+      res as unknown as ServerResponse
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["Content-Type"]).toBe("text/csv; charset=utf-8");
+
+    roomStore.leaveRoom(socketId);
+  });
+});
+
+describe("POST /api/recordings", () => {
+  function setupRoom() {
+    const hostSocketId = `recording-host-${Date.now()}-${Math.random()}`;
+    const guestSocketId = `recording-guest-${Date.now()}-${Math.random()}`;
+    const { room, clientId: hostId } = roomStore.createRoom("Host", hostSocketId);
+    const guestId = roomStore.joinRoom(room.roomCode, "Guest", guestSocketId)!.clientId;
+
+    const cleanup = () => {
+      roomStore.leaveRoom(guestSocketId);
+      roomStore.leaveRoom(hostSocketId);
+    };
+
+    return { room, hostId, hostSocketId, guestId, guestSocketId, cleanup };
+  }
+
+  async function upload(fields: Record<string, string>) {
+    const res = createMockResponse();
+    await handleTrackApiRequest(
+      createMultipartRequest("/api/recordings", { mimeType: "audio/webm", durationSec: "60", ...fields }),
+      res as unknown as ServerResponse
+    );
+    return res;
+  }
+
+  it("accepts an upload from a connected DJ", async () => {
+    const { room, hostId, hostSocketId, cleanup } = setupRoom();
+
+    const res = await upload({ roomId: room.roomId, socketId: hostSocketId });
+
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.body).recording.recordedBy).toBe(hostId);
+
+    cleanup();
+  });
+
+  it("rejects listeners", async () => {
+    const { room, guestSocketId, cleanup } = setupRoom();
+
+    const res = await upload({ roomId: room.roomId, socketId: guestSocketId });
+
+    expect(res.statusCode).toBe(403);
+    expect(JSON.parse(res.body).error).toContain("not allowed for listeners");
+
+    cleanup();
+  });
+
+  it("ignores a claimed clientId without a matching connection", async () => {
+    const { room, hostId, cleanup } = setupRoom();
+
+    const res = await upload({ roomId: room.roomId, clientId: hostId, socketId: "not-a-socket" });
+
+    expect(res.statusCode).toBe(403);
+    expect(JSON.parse(res.body)).toEqual({ error: "Not connected to this room" });
+
+    cleanup();
+  });
+});
@@ -14,9 +14,18 @@
  * - DELETE /api/sampler/sounds/:id - Delete a sampler sound
  * - POST /api/sampler/reset - Reset a slot to default
  *
+ * Recording endpoints:
+ * - POST /api/recordings - Upload a master mix recording
+ * - GET /api/recordings?roomId=Y - List a room's recordings
+ *
+ * Set history endpoints:
+ * - GET /api/history?roomId=Y - List a room's played tracks
+ * - GET /api/history?roomId=Y&format=cue|m3u|csv - Download the history as a CUE sheet, playlist or CSV
+ *
  * YouTube endpoints:
  * - GET /api/youtube/search?q=... - Search YouTube for songs
  * - GET /api/youtube/stream/:videoId - Stream YouTube audio (proxied through server)
+ * - GET /api/youtube/waveform/:videoId - Get the cached three-band waveform
  */
 
 import type { IncomingMessage, ServerResponse } from "http";
@@ -26,12 +35,25 @@ import { createReadStream, existsSync, statSync } from "fs";
 import { unlink } from "fs/promises";
 import { join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { toCueSheet, toM3U, toCsv } from "@puid-board/shared";
 import { trackService, TrackValidationError } from "../services/tracks.js";
 import { storageService } from "../services/storage.js";
 import { samplerSoundsService, SamplerSoundValidationError } from "../services/samplerSounds.js";
+import {
+  recordingsService,
+  RecordingValidationError,
+  MAX_RECORDING_SIZE,
+} from "../services/recordings.js";
 import { searchYouTube, downloadYouTubeAudio } from "../services/youtube.js";
 import { roomStore } from "../rooms/store.js";
-import { hasCachedAudio, getCachedAudioUrl, cacheAudio } from "../services/youtubeCache.js";
+import { historyStore } from "../rooms/history.js";
+import { validateRolePermission, logPermissionDenied } from "../security/index.js";
+import {
+  hasCachedAudio,
+  getCachedAudioUrl,
+  cacheAudio,
+  getCachedMetadata,
+} from "../services/youtubeCache.js";
 
 // Max file size: 50MB
 const MAX_FILE_SIZE = 50 * 1024 * 1024;
@@ -52,7 +74,10 @@ interface ParsedFormData {
 /**
  * Parse multipart form data using busboy.
  */
-function parseMultipartForm(req: IncomingMessage): Promise<ParsedFormData> {
+function parseMultipartForm(
+  req: IncomingMessage,
+  maxFileSize: number = MAX_FILE_SIZE
+): Promise<ParsedFormData> {
   return new Promise((resolve, reject) => {
     const contentType = req.headers["content-type"];
     if (!contentType || !contentType.includes("multipart/form-data")) {
@@ -72,7 +97,7 @@ function parseMultipartForm(req: IncomingMessage): Promise<ParsedFormData> {
       const bb = busboy({
         headers: req.headers,
         limits: {
-          fileSize: MAX_FILE_SIZE,
+          fileSize: maxFileSize,
           files: 1,
         },
       });
@@ -89,7 +114,7 @@ function parseMultipartForm(req: IncomingMessage): Promise<ParsedFormData> {
 
         file.on("data", (chunk: Buffer) => {
           totalSize += chunk.length;
-          if (totalSize > MAX_FILE_SIZE) {
+          if (totalSize > maxFileSize) {
             fileLimitExceeded = true;
             file.destroy();
             return;
@@ -118,7 +143,7 @@ function parseMultipartForm(req: IncomingMessage): Promise<ParsedFormData> {
 
       bb.on("close", () => {
         if (fileLimitExceeded) {
-          reject(new Error(`File size exceeds maximum of ${MAX_FILE_SIZE / 1024 / 1024}MB`));
+          reject(new Error(`File size exceeds maximum of ${maxFileSize / 1024 / 1024}MB`));
           return;
         }
         resolve({
@@ -632,6 +657,198 @@ async function handleResetSamplerSlot(
   }
 }
 
+// ============================================================================
+// RECORDING ENDPOINTS
+// ============================================================================
+
+/**
+ * Handle POST /api/recordings
+ * Form: file, roomId, socketId, durationSec, tracklist (JSON)
+ *
+ * The uploader is identified by their live socket connection rather than a
+ * claimed clientId, and must be allowed to control the room (not a listener).
+ */
+async function handleRecordingUpload(
+  req: IncomingMessage,
+  res: ServerResponse,
+  io?: SocketIOServer
+): Promise<void> {
+  try {
+    const { fields, file, mimeType: parsedMimeType } = await parseMultipartForm(
+      req,
+      MAX_RECORDING_SIZE
+    );
+
+    if (!file) {
+      sendError(res, 400, "No file uploaded");
+      return;
+    }
+
+    const { roomId, socketId } = fields;
+    if (!roomId || !socketId) {
+      sendError(res, 400, "Missing required fields: roomId, socketId");
+      return;
+    }
+
+    // Only members of a live room can add recordings to it
+    const room = roomStore.getRoom(roomId);
+    if (!room) {
+      sendError(res, 404, "Room not found");
+      return;
+    }
+    const client = roomStore.getClient(socketId);
+    const member =
+      client?.roomId === room.roomId
+        ? room.members.find((m) => m.clientId === client.clientId)
+        : undefined;
+    if (!client || !member) {
+      sendError(res, 403, "Not connected to this room");
+      return;
+    }
+    const clientId = client.clientId;
+
+    // Role check (listeners are read-only)
+    const permResult = validateRolePermission(room, clientId, "RECORDING_UPLOAD");
+    if (!permResult.valid) {
+      logPermissionDenied("RECORDING_UPLOAD", clientId, room.roomId);
+      sendError(res, 403, permResult.error);
+      return;
+    }
+
+    let tracklist: unknown = [];
+    if (fields.tracklist) {
+      try {
+        tracklist = JSON.parse(fields.tracklist);
+      } catch {
+        sendError(res, 400, "Invalid tracklist");
+        return;
+      }
+    }
+
+    const mimeType = fields.mimeType || parsedMimeType || "";
+    console.log(`[recordingUpload] room=${roomId} client=${clientId} (${file.length} bytes, ${mimeType})`);
+
+    const recording = await recordingsService.upload({
+      buffer: file,
+      mimeType,
+      roomId: room.roomId,
+      recordedBy: clientId,
+      recordedByName: member.name,
+      durationSec: parseFloat(fields.durationSec || "0"),
+      tracklist,
+    });
+
+    if (io) {
+      io.to(room.roomId).emit("RECORDING_ADDED", {
+        type: "RECORDING_ADDED",
+        roomId: room.roomId,
+        payload: recording,
+      });
+    }
+
+    sendJson(res, 200, { recording });
+  } catch (error) {
+    if (error instanceof RecordingValidationError) {
+      console.log("[recordingUpload] Validation error:", error.message);
+      sendError(res, 400, error.message);
+    } else {
+      console.error("[recordingUpload] Server error:", error);
+      sendError(res, 500, error instanceof Error ? error.message : "Internal server error");
+    }
+  }
+}
+
+/**
+ * Handle GET /api/recordings?roomId=Y
+ */
+async function handleGetRecordings(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  try {
+    const params = parseQueryParams(req.url || "");
+    const roomId = params.roomId;
+
+    if (!roomId) {
+      sendError(res, 400, "Missing required query param: roomId");
+      return;
+    }
+
+    const recordings = await recordingsService.getRoomRecordings(roomId);
+    sendJson(res, 200, { recordings });
+  } catch (error) {
+    console.error("[getRecordings] error:", error);
+    sendError(res, 500, "Internal server error");
+  }
+}
+
+// ============================================================================
+// SET HISTORY ENDPOINTS
+// ============================================================================
+
+/** Download formats for GET /api/history */
+const HISTORY_FORMATS = {
+  cue: { extension: "cue", contentType: "application/x-cue; charset=utf-8" },
+  m3u: { extension: "m3u", contentType: "audio/x-mpegurl; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+} as const;
+
+/**
+ * Handle GET /api/history?roomId=Y[&format=cue|m3u|csv]
+ */
+async function handleGetHistory(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  try {
+    const params = parseQueryParams(req.url || "");
+    const roomId = params.roomId;
+
+    if (!roomId) {
+      sendError(res, 400, "Missing required query param: roomId");
+      return;
+    }
+
+    const room = roomStore.getRoom(roomId);
+    if (!room) {
+      sendError(res, 404, "Room not found");
+      return;
+    }
+
+    const history = historyStore.getHistory(room.roomId, Date.now());
+    const format = params.format;
+
+    if (!format) {
+      sendJson(res, 200, { history });
+      return;
+    }
+
+    // Own keys only: `in` would also accept inherited names like "toString"
+    if (!Object.hasOwn(HISTORY_FORMATS, format)) {
+      sendError(res, 400, "Invalid format (expected cue, m3u or csv)");
+      return;
+    }
+
+    const { extension, contentType } = HISTORY_FORMATS[format as keyof typeof HISTORY_FORMATS];
+    const baseName = `puidboard-${room.roomCode}`;
+    const body =
+      format === "cue"
+        ? toCueSheet(history, `Room ${room.roomCode}`, `${baseName}.mp3`)
+        : format === "m3u"
+          ? toM3U(history)
+          : toCsv(history);
+
+    res.writeHead(200, {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${baseName}.${extension}"`,
+    });
+    res.end(body);
+  } catch (error) {
+    console.error("[getHistory] error:", error);
+    sendError(res, 500, "Internal server error");
+  }
+}
+
 // ============================================================================
 // YOUTUBE ENDPOINTS
 // ============================================================================
@@ -675,6 +892,27 @@ async function handleYouTubeSearch(
   }
 }
 
+/**
+ * Handle GET /api/youtube/waveform/:videoId
+ */
+async function handleGetYouTubeWaveform(
+  res: ServerResponse,
+  videoId: string
+): Promise<void> {
+  try {
+    const meta = await getCachedMetadata(videoId);
+    if (!meta?.bands) {
+      sendError(res, 404, "Waveform not cached");
+      return;
+    }
+
+    sendJson(res, 200, { bands: meta.bands });
+  } catch (error) {
+    console.error("[getYouTubeWaveform] error:", error);
+    sendError(res, 500, "Internal server error");
+  }
+}
+
 /**
  * Handle GET /api/youtube/stream/:videoId
  *
@@ -892,6 +1130,32 @@ export async function handleTrackApiRequest(
     return true;
   }
 
+  // ============================================================================
+  // RECORDING ROUTES
+  // ============================================================================
+
+  // POST /api/recordings
+  if (method === "POST" && url === "/api/recordings") {
+    await handleRecordingUpload(req, res, io);
+    return true;
+  }
+
+  // GET /api/recordings?roomId=Y
+  if (method === "GET" && url.startsWith("/api/recordings")) {
+    await handleGetRecordings(req, res);
+    return true;
+  }
+
+  // ============================================================================
+  // SET HISTORY ROUTES
+  // ============================================================================
+
+  // GET /api/history?roomId=Y[&format=cue|m3u|csv]
+  if (method === "GET" && url.startsWith("/api/history")) {
+    await handleGetHistory(req, res);
+    return true;
+  }
+
   // ============================================================================
   // YOUTUBE ROUTES
   // ============================================================================
@@ -934,6 +1198,13 @@ export async function handleTrackApiRequest(
     return true;
   }
 
+  // GET /api/youtube/waveform/:videoId
+  const youtubeWaveformMatch = url.match(/^\/api\/youtube\/waveform\/([^/?]+)$/);
+  if (method === "GET" && youtubeWaveformMatch && youtubeWaveformMatch[1]) {
+    await handleGetYouTubeWaveform(res, youtubeWaveformMatch[1]);
+    return true;
+  }
+
   // GET /api/youtube/stream/:videoId (proxy stream to avoid CORS)
   const youtubeStreamMatch = url.match(/^\/api\/youtube\/stream\/([^/?]+)$/);
   if (method === "GET" && youtubeStreamMatch && youtubeStreamMatch[1]) {
@@ -9,6 +9,7 @@ import {
   LeaveRoomEventSchema,
   RejoinRoomEventSchema,
   RoomSnapshotEvent,
+  RoomRejoinDeltaEvent,
   MemberJoinedEvent,
   MemberLeftEvent,
 } from "@puid-board/shared";
@@ -26,17 +27,20 @@ import {
 import { registerTimeHandlers } from "../handlers/time.js";
 import { registerDeckHandlers } from "../handlers/deck.js";
 import { registerFxHandlers } from "../handlers/fx.js";
+import { registerLimiterHandlers } from "../handlers/limiter.js";
 import { registerSamplerHandlers } from "../handlers/sampler.js";
 import { registerMemberHandlers } from "../handlers/member.js";
+import { registerAutoDjHandlers, clearAutoDj } from "../handlers/autoDj.js";
 import { startBeacon, stopBeacon } from "../timers/beacon.js";
 import { getPersistence } from "../rooms/persistence.js";
+import { historyStore } from "../rooms/history.js";
 import { idempotencyStore } from "./idempotency.js";
 import { rateLimiter } from "../security/index.js";
 
 /**
  * Resolve cached YouTube track URLs in a room state snapshot.
  * Replaces stream URLs with direct file URLs for cached tracks
- * and attaches pre-computed metadata (BPM, waveform).
+ * and attaches pre-computed metadata (BPM, key, loudness, waveform).
  */
 async function resolveSnapshotCacheUrls(state: RoomState): Promise<RoomState> {
   const resolvedQueue = await Promise.all(
@@ -56,6 +60,8 @@ async function resolveSnapshotCacheUrls(state: RoomState): Promise<RoomState> {
           cached: true,
           ...(meta?.bpm != null ? { bpm: meta.bpm } : {}),
           ...(meta?.waveform ? { waveform: meta.waveform } : {}),
+          ...(meta?.key ? { key: meta.key } : {}),
+          ...(meta?.loudness ? { loudness: meta.loudness } : {}),
         };
       } catch {
         return item;
@@ -113,9 +119,15 @@ export function registerHandlers(io: Server, socket: Socket): void {
   // Register FX handlers
   registerFxHandlers(io, socket);
 
+  // Register master limiter handlers
+  registerLimiterHandlers(io, socket);
+
   // Register sampler handlers
   registerSamplerHandlers(io, socket);
 
+  // Register Auto-DJ handlers
+  registerAutoDjHandlers(io, socket);
+
   // Register member handlers (rename)
   registerMemberHandlers(io, socket);
 
@@ -137,7 +149,7 @@ function handleCreateRoom(io: Server, socket: Socket, data: unknown): void {
     return;
   }
 
-  const { name } = parsed.data;
+  const { name, deckCount } = parsed.data;
 
   // Check if client is already in a room - auto-leave before creating new
   const existingClient = roomStore.getClient(socket.id);
@@ -165,7 +177,7 @@ function handleCreateRoom(io: Server, socket: Socket, data: unknown): void {
   }
 
   // Create the room
-  const { room, clientId } = roomStore.createRoom(name, socket.id);
+  const { room, clientId } = roomStore.createRoom(name, socket.id, deckCount);
 
   // Join the socket.io room for broadcasts
   socket.join(room.roomId);
@@ -303,6 +315,7 @@ async function handleJoinRoom(io: Server, socket: Socket, data: unknown): Promis
         name: newMember.name,
         color: newMember.color,
         isHost: newMember.isHost,
+        role: newMember.role,
       },
     };
 
@@ -332,7 +345,7 @@ async function handleRejoinRoom(io: Server, socket: Socket, data: unknown): Prom
     return;
   }
 
-  const { roomCode, name, previousClientId } = parsed.data;
+  const { roomCode, name, previousClientId, lastVersion } = parsed.data;
 
   const result = roomStore.rejoinRoom(roomCode, previousClientId, name, socket.id);
 
@@ -350,16 +363,39 @@ async function handleRejoinRoom(io: Server, socket: Socket, data: unknown): Prom
   // Join the socket.io room for broadcasts
   socket.join(room.roomId);
 
-  // Send rejoin snapshot (with cached URLs resolved)
-  const resolvedState = await resolveSnapshotCacheUrls(room);
-  socket.emit("ROOM_REJOIN_SNAPSHOT", {
-    type: "ROOM_REJOIN_SNAPSHOT",
-    roomId: room.roomId,
-    serverTs: Date.now(),
-    state: resolvedState,
-    clientId,
-    missedEvents: [], // Events from idempotency store could be added here
-  });
+  // Replay missed mutations if the event log still covers the gap, so the
+  // client keeps its decks and audio; otherwise send a full snapshot.
+  const missedEvents = idempotencyStore.getEventsSince(room.roomId, lastVersion, room.version);
+  if (missedEvents) {
+    const delta: RoomRejoinDeltaEvent = {
+      type: "ROOM_REJOIN_DELTA",
+      roomId: room.roomId,
+      serverTs: Date.now(),
+      clientId,
+      fromVersion: lastVersion,
+      version: room.version,
+      events: missedEvents,
+      liveState: {
+        hostId: room.hostId,
+        members: room.members,
+        mixer: room.mixer,
+        controlOwners: room.controlOwners,
+        sampler: room.sampler,
+      },
+    };
+    socket.emit("ROOM_REJOIN_DELTA", delta);
+  } else {
+    // Send rejoin snapshot (with cached URLs resolved)
+    const resolvedState = await resolveSnapshotCacheUrls(room);
+    socket.emit("ROOM_REJOIN_SNAPSHOT", {
+      type: "ROOM_REJOIN_SNAPSHOT",
+      roomId: room.roomId,
+      serverTs: Date.now(),
+      state: resolvedState,
+      clientId,
+      missedEvents: [],
+    });
+  }
 
   // Also send the client their ID
   socket.emit("CLIENT_ID", { clientId });
@@ -377,6 +413,7 @@ async function handleRejoinRoom(io: Server, socket: Socket, data: unknown): Prom
           name: newMember.name,
           color: newMember.color,
           isHost: newMember.isHost,
+        role: newMember.role,
         },
       };
       socket.to(room.roomId).emit("MEMBER_JOINED", memberJoined);
@@ -388,7 +425,10 @@ async function handleRejoinRoom(io: Server, socket: Socket, data: unknown): Prom
   startBeacon(io, room.roomId);
 
   console.log(
-    `[REJOIN_ROOM] ${rejoined ? "restored" : "joined"} roomId=${room.roomId} clientId=${clientId}`
+    `[REJOIN_ROOM] ${rejoined ? "restored" : "joined"} roomId=${room.roomId} clientId=${clientId} ` +
+      (missedEvents
+        ? `delta=${missedEvents.length} from=${lastVersion}`
+        : `snapshot (lastVersion=${lastVersion} version=${room.version})`)
   );
 }
 
@@ -454,6 +494,8 @@ async function handleLeaveRoom(io: Server, socket: Socket, data: unknown): Promi
     const persistence = getPersistence();
     await persistence.deleteSnapshot(roomId);
     idempotencyStore.deleteRoom(roomId);
+    historyStore.deleteRoom(roomId);
+    clearAutoDj(roomId);
   }
 
   // Notify remaining members
@@ -522,6 +564,8 @@ async function handleDisconnect(io: Server, socket: Socket, reason: string): Pro
         const persistence = getPersistence();
         await persistence.deleteSnapshot(expiredRoomId);
         idempotencyStore.deleteRoom(expiredRoomId);
+        historyStore.deleteRoom(expiredRoomId);
+        clearAutoDj(expiredRoomId);
       }
 
       // Notify remaining members that this client has left
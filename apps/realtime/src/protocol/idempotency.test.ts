@@ -3,8 +3,22 @@
  */
 
 import { describe, it, expect, beforeEach } from "vitest";
+import type { ServerMutationEvent } from "@puid-board/shared";
 import { idempotencyStore } from "./idempotency.js";
 
+function mutation(roomId: string, version: number): ServerMutationEvent {
+  return {
+    type: "FX_TOGGLE",
+    roomId,
+    clientId: "test-client",
+    clientSeq: version,
+    eventId: `${roomId}-${version}`,
+    serverTs: Date.now(),
+    version,
+    payload: { unit: "fx1", enabled: version % 2 === 0 },
+  };
+}
+
 describe("IdempotencyStore", () => {
   const roomId = "test-room";
   const clientId = "test-client";
@@ -131,4 +145,41 @@ describe("IdempotencyStore", () => {
     expect(stats?.trackedClients).toBe(1);
     expect(stats?.processedEvents).toBe(2);
   });
+
+  describe("getEventsSince", () => {
+    it("returns only events after the given version", () => {
+      for (let v = 3; v <= 6; v++) {
+        idempotencyStore.recordMutation(mutation(roomId, v));
+      }
+
+      const events = idempotencyStore.getEventsSince(roomId, 4, 6);
+      expect(events?.map((e) => e.version)).toEqual([5, 6]);
+    });
+
+    it("returns an empty list when the client is up to date", () => {
+      expect(idempotencyStore.getEventsSince(roomId, 7, 7)).toEqual([]);
+    });
+
+    it("returns null when the client is ahead of the server", () => {
+      expect(idempotencyStore.getEventsSince(roomId, 9, 7)).toBeNull();
+    });
+
+    it("returns null for versions before tracking began", () => {
+      idempotencyStore.recordMutation(mutation(roomId, 10));
+      idempotencyStore.recordMutation(mutation(roomId, 11));
+
+      expect(idempotencyStore.getEventsSince(roomId, 9, 11)).toHaveLength(2);
+      expect(idempotencyStore.getEventsSince(roomId, 8, 11)).toBeNull();
+    });
+
+    it("returns null once the gap has been evicted from the ring buffer", () => {
+      for (let v = 1; v <= 510; v++) {
+        idempotencyStore.recordMutation(mutation(roomId, v));
+      }
+
+      expect(idempotencyStore.getRoomStats(roomId)?.replayableEvents).toBe(500);
+      expect(idempotencyStore.getEventsSince(roomId, 5, 510)).toBeNull();
+      expect(idempotencyStore.getEventsSince(roomId, 10, 510)).toHaveLength(500);
+    });
+  });
 });
@@ -5,7 +5,7 @@
  * events are processed exactly once, even if network issues cause retries.
  */
 
-import type { ClientId, EventId, RoomId } from "@puid-board/shared";
+import type { ClientId, EventId, RoomId, ServerMutationEvent } from "@puid-board/shared";
 
 /** Track processed events for deduplication */
 interface ProcessedEvent {
@@ -26,6 +26,13 @@ interface RoomEventLog {
   recentEvents: ProcessedEvent[];
   /** Max events to keep in memory per room */
   maxRecentEvents: number;
+  /** Versioned ring buffer of applied mutation events (for rejoin replay) */
+  mutationLog: ServerMutationEvent[];
+  /**
+   * Highest version that can no longer be replayed: either evicted from the
+   * buffer or applied before tracking began. Null until the first mutation.
+   */
+  replayFloorVersion: number | null;
 }
 
 /** Global event log store */
@@ -36,6 +43,9 @@ class IdempotencyStore {
   /** Default max recent events to track per room */
   private readonly DEFAULT_MAX_RECENT = 1000;
 
+  /** Max mutation events kept for replay per room; larger gaps get a snapshot */
+  private readonly MAX_REPLAY_EVENTS = 500;
+
   /**
    * Check if an event has already been processed.
    * @returns true if event is duplicate, false if it's new
@@ -90,6 +100,8 @@ class IdempotencyStore {
         processedEventIds: new Set(),
         recentEvents: [],
         maxRecentEvents: this.DEFAULT_MAX_RECENT,
+        mutationLog: [],
+        replayFloorVersion: null,
       };
       this.rooms.set(roomId, room);
     }
@@ -111,6 +123,34 @@ class IdempotencyStore {
     }
   }
 
+  /**
+   * Record an applied mutation event that was broadcast to the room.
+   * Also tracks it for deduplication, and keeps it for rejoin replay.
+   */
+  recordMutation(event: ServerMutationEvent): void {
+    this.recordEvent(
+      event.roomId,
+      event.clientId,
+      event.clientSeq,
+      event.eventId,
+      event.serverTs
+    );
+    const room = this.rooms.get(event.roomId)!;
+
+    // Anything before the first recorded mutation was never captured
+    if (room.replayFloorVersion === null) {
+      room.replayFloorVersion = event.version - 1;
+    }
+
+    room.mutationLog.push(event);
+    if (room.mutationLog.length > this.MAX_REPLAY_EVENTS) {
+      const evicted = room.mutationLog.shift();
+      if (evicted) {
+        room.replayFloorVersion = evicted.version;
+      }
+    }
+  }
+
   /**
    * Clean up tracking for a room (e.g., when room is deleted).
    */
@@ -126,6 +166,7 @@ class IdempotencyStore {
     trackedClients: number;
     processedEvents: number;
     recentEvents: number;
+    replayableEvents: number;
   } | null {
     const room = this.rooms.get(roomId);
     if (!room) {
@@ -136,6 +177,7 @@ class IdempotencyStore {
       trackedClients: room.clientSeqs.size,
       processedEvents: room.processedEventIds.size,
       recentEvents: room.recentEvents.length,
+      replayableEvents: room.mutationLog.length,
     };
   }
 
@@ -159,6 +201,9 @@ class IdempotencyStore {
         serverTs: Date.now() - (recentEventIds.length - idx) * 1000,
       })),
       maxRecentEvents: this.DEFAULT_MAX_RECENT,
+      // Event payloads aren't persisted, so replay starts over after restore
+      mutationLog: [],
+      replayFloorVersion: null,
     };
 
     this.rooms.set(roomId, room);
@@ -168,15 +213,25 @@ class IdempotencyStore {
   }
 
   /**
-   * Get events since a given version from the rolling window.
+   * Get mutation events applied after a given version, oldest first.
    * Used for reconnection catch-up.
+   * @returns the missed events, or null if the log no longer covers the gap
+   *          (caller should fall back to a full snapshot)
    */
-  getEventsSince(roomId: RoomId, _sinceVersion: number): ProcessedEvent[] {
+  getEventsSince(
+    roomId: RoomId,
+    sinceVersion: number,
+    currentVersion: number
+  ): ServerMutationEvent[] | null {
+    // Client is ahead of us (e.g. server restored an older snapshot)
+    if (sinceVersion > currentVersion) return null;
+    if (sinceVersion === currentVersion) return [];
+
     const room = this.rooms.get(roomId);
-    if (!room) return [];
-    // recentEvents don't store version, so return all events after sinceVersion
-    // by timestamp approximation - return all recent events
-    return [...room.recentEvents];
+    if (!room || room.replayFloorVersion === null) return null;
+    if (sinceVersion < room.replayFloorVersion) return null;
+
+    return room.mutationLog.filter((e) => e.version > sinceVersion);
   }
 
   /**
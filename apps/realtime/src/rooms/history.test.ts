@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { QueueItem, RoomState } from "@puid-board/shared";
+import { historyStore } from "./history.js";
+import { roomStore } from "./store.js";
+
+function queueItem(id: string, title: string): QueueItem {
+  return {
+    id,
+    trackId: `track-${id}`,
+    title,
+    durationSec: 300,
+    url: `https://example.com/${id}.mp3`,
+    addedBy: "someone",
+    addedAt: 0,
+    status: "queued",
+    source: "upload",
+    youtubeVideoId: null,
+    thumbnailUrl: null,
+  };
+}
+
+/** Load a queue item onto deck A (what DECK_LOAD does to the state) */
+function load(room: RoomState, item: QueueItem, clientId: string, now: number): void {
+  room.deckA.loadedTrackId = item.trackId;
+  room.deckA.loadedQueueItemId = item.id;
+  room.deckA.durationSec = item.durationSec;
+  room.deckA.playState = "stopped";
+  room.deckA.playheadSec = 0;
+  historyStore.recordLoad(room, "A", clientId, now);
+}
+
+/** Start deck A at its playhead (what DECK_PLAY does to the state) */
+function play(room: RoomState, clientId: string, now: number): void {
+  room.deckA.playState = "playing";
+  room.deckA.epochStartPlayheadSec = room.deckA.playheadSec;
+  room.deckA.epochStartTimeMs = now;
+  historyStore.recordPlay(room, "A", clientId, now);
+}
+
+describe("historyStore", () => {
+  let room: RoomState;
+  let hostId: string;
+
+  beforeEach(() => {
+    historyStore.clear();
+    const created = roomStore.createRoom("Host", `history-socket-${Math.random()}`);
+    room = created.room;
+    hostId = created.clientId;
+    room.queue = [queueItem("q1", "Opener"), queueItem("q2", "Second")];
+    room.mixer.crossfader = 0;
+  });
+
+  it("adds a track when it becomes audible, credited to the player", () => {
+    load(room, room.queue[0]!, hostId, 0);
+    historyStore.update(room, 1_000);
+    expect(historyStore.getHistory(room.roomId, 1_000)).toEqual([]);
+
+    play(room, hostId, 2_000);
+    const [entry] = historyStore.getHistory(room.roomId, 32_000);
+    expect(entry).toMatchObject({
+      deckId: "A",
+      trackId: "track-q1",
+      title: "Opener",
+      url: "https://example.com/q1.mp3",
+      playedBy: hostId,
+      playedByName: "Host",
+      startedAt: 2_000,
+      endedAt: null,
+    });
+    expect(entry?.durationSec).toBeCloseTo(30);
+  });
+
+  it("only counts time the deck is heard through the crossfader", () => {
+    load(room, room.queue[0]!, hostId, 0);
+    play(room, hostId, 0);
+
+    // Crossfaded fully to B for 20s, then back
+    room.mixer.crossfader = 1;
+    historyStore.update(room, 10_000);
+    room.mixer.crossfader = 0.5;
+    historyStore.update(room, 30_000);
+
+    const [entry] = historyStore.getHistory(room.roomId, 40_000);
+    expect(entry?.durationSec).toBeCloseTo(20);
+  });
+
+  it("closes the entry when the next track is loaded and drops short previews", () => {
+    load(room, room.queue[0]!, hostId, 0);
+    play(room, hostId, 0);
+    historyStore.update(room, 60_000);
+
+    // Second track only previewed for 2s
+    load(room, room.queue[1]!, hostId, 60_000);
+    play(room, hostId, 61_000);
+    load(room, room.queue[0]!, hostId, 63_000);
+
+    const history = historyStore.getHistory(room.roomId, 70_000);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ title: "Opener", endedAt: 60_000, durationSec: 60 });
+  });
+
+  it("stops counting when the track runs out", () => {
+    load(room, room.queue[0]!, hostId, 0);
+    play(room, hostId, 0);
+    historyStore.update(room, 299_000);
+    // The 300s track has ended by the next tick
+    historyStore.update(room, 300_100);
+    historyStore.update(room, 400_000);
+
+    const [entry] = historyStore.getHistory(room.roomId, 500_000);
+    expect(entry?.durationSec).toBeCloseTo(300.1);
+    historyStore.deleteRoom(room.roomId);
+    expect(historyStore.getHistory(room.roomId, 500_000)).toEqual([]);
+  });
+});
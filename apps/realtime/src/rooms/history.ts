@@ -0,0 +1,191 @@
+/**
+ * Played-track history for Virtual DJ Rooms.
+ *
+ * Builds each room's set history from deck and mixer state: a track enters the
+ * history when it first becomes audible on the master (see isDeckAudible) and
+ * accumulates audible time across pauses and crossfader moves until another
+ * track is loaded on its deck. Updated on every beacon tick, plus on DECK_LOAD
+ * and DECK_PLAY so loads close entries and plays open them without lag.
+ *
+ * MVP implementation keeps history in memory, dropped with the room.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  getDeckIds,
+  getDeckState,
+  isDeckAudible,
+  MAX_SET_HISTORY_ENTRIES,
+  AUTO_DJ_CLIENT_ID,
+  type ClientId,
+  type DeckId,
+  type PlayedTrack,
+  type RoomId,
+  type RoomState,
+} from "@puid-board/shared";
+
+/** Closed entries audible for less than this are dropped (previews, mis-loads) */
+export const MIN_PLAYED_SEC = 5;
+
+/** The entry a deck is currently adding audible time to */
+interface DeckEntry {
+  entry: PlayedTrack;
+  queueItemId: string | null;
+  /** Server timestamp the deck last became audible (null while inaudible) */
+  audibleSince: number | null;
+}
+
+/** Per-room history */
+interface RoomHistory {
+  entries: PlayedTrack[];
+  /** Open entry per deck */
+  current: Map<DeckId, DeckEntry>;
+  /** Last client to load or play each deck */
+  actors: Map<DeckId, ClientId>;
+}
+
+class HistoryStore {
+  private rooms: Map<RoomId, RoomHistory> = new Map();
+
+  private getOrCreate(roomId: RoomId): RoomHistory {
+    let history = this.rooms.get(roomId);
+    if (!history) {
+      history = { entries: [], current: new Map(), actors: new Map() };
+      this.rooms.set(roomId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Record a DECK_LOAD: the deck's previous track is finished.
+   * Call after the deck state is updated.
+   */
+  recordLoad(room: RoomState, deckId: DeckId, clientId: ClientId, serverTs: number): void {
+    const history = this.getOrCreate(room.roomId);
+    this.closeEntry(history, deckId, serverTs);
+    history.actors.set(deckId, clientId);
+  }
+
+  /**
+   * Record a DECK_PLAY: the player is credited with the track.
+   * Call after the deck state is updated.
+   */
+  recordPlay(room: RoomState, deckId: DeckId, clientId: ClientId, serverTs: number): void {
+    this.getOrCreate(room.roomId).actors.set(deckId, clientId);
+    this.update(room, serverTs);
+  }
+
+  /**
+   * Open, extend and close entries from the room's current state.
+   */
+  update(room: RoomState, serverTs: number): void {
+    const history = this.getOrCreate(room.roomId);
+
+    for (const deckId of getDeckIds(room.deckCount)) {
+      const deck = getDeckState(room, deckId);
+      let current = history.current.get(deckId);
+
+      // Track changed without a load we saw (e.g. a restored room)
+      if (
+        current &&
+        (deck?.loadedTrackId !== current.entry.trackId ||
+          deck?.loadedQueueItemId !== current.queueItemId)
+      ) {
+        this.closeEntry(history, deckId, serverTs);
+        current = undefined;
+      }
+
+      if (!deck?.loadedTrackId) continue;
+      const audible = isDeckAudible(room, deckId, serverTs);
+
+      if (audible && !current) {
+        this.openEntry(history, room, deckId, serverTs);
+      } else if (audible && current && current.audibleSince === null) {
+        current.audibleSince = serverTs;
+      } else if (!audible && current && current.audibleSince !== null) {
+        current.entry.durationSec += (serverTs - current.audibleSince) / 1000;
+        current.entry.endedAt = serverTs;
+        current.audibleSince = null;
+      }
+    }
+  }
+
+  /**
+   * Get a room's history in play order, with live durations for open entries.
+   */
+  getHistory(roomId: RoomId, serverTs: number): PlayedTrack[] {
+    const history = this.rooms.get(roomId);
+    if (!history) return [];
+
+    return history.entries.map((entry) => {
+      const current = [...history.current.values()].find((c) => c.entry === entry);
+      if (!current) return { ...entry };
+      const liveSec =
+        current.audibleSince !== null ? (serverTs - current.audibleSince) / 1000 : 0;
+      return { ...entry, endedAt: null, durationSec: entry.durationSec + liveSec };
+    });
+  }
+
+  /**
+   * Delete a room's history (when the room is deleted).
+   */
+  deleteRoom(roomId: RoomId): void {
+    this.rooms.delete(roomId);
+  }
+
+  /**
+   * Clear all history (for testing).
+   */
+  clear(): void {
+    this.rooms.clear();
+  }
+
+  private openEntry(history: RoomHistory, room: RoomState, deckId: DeckId, serverTs: number): void {
+    const deck = getDeckState(room, deckId)!;
+    const queueItem = room.queue.find((item) => item.id === deck.loadedQueueItemId);
+    const playedBy = history.actors.get(deckId) ?? room.hostId;
+    const member = room.members.find((m) => m.clientId === playedBy);
+
+    const entry: PlayedTrack = {
+      id: randomUUID(),
+      deckId,
+      trackId: deck.loadedTrackId!,
+      title: queueItem?.title ?? "Unknown track",
+      url: queueItem?.url ?? null,
+      playedBy,
+      playedByName: member?.name ?? (playedBy === AUTO_DJ_CLIENT_ID ? "Auto-DJ" : "Unknown"),
+      startedAt: serverTs,
+      endedAt: null,
+      durationSec: 0,
+    };
+
+    history.entries.push(entry);
+    if (history.entries.length > MAX_SET_HISTORY_ENTRIES) {
+      history.entries.shift();
+    }
+    history.current.set(deckId, {
+      entry,
+      queueItemId: deck.loadedQueueItemId,
+      audibleSince: serverTs,
+    });
+  }
+
+  private closeEntry(history: RoomHistory, deckId: DeckId, serverTs: number): void {
+    const current = history.current.get(deckId);
+    if (!current) return;
+    history.current.delete(deckId);
+
+    const { entry } = current;
+    if (current.audibleSince !== null) {
+      entry.durationSec += (serverTs - current.audibleSince) / 1000;
+      entry.endedAt = serverTs;
+    }
+
+    if (entry.durationSec < MIN_PLAYED_SEC) {
+      history.entries = history.entries.filter((e) => e !== entry);
+    }
+  }
+}
+
+// Export singleton instance
+export const historyStore = new HistoryStore();
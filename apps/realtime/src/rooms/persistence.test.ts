@@ -4,7 +4,13 @@
 
 import { describe, it, expect } from "vitest";
 import type { RoomState } from "@puid-board/shared";
-import { createDefaultDeck, createDefaultMixer, createDefaultSampler } from "@puid-board/shared";
+import {
+  createDefaultAutoDj,
+  createDefaultDeck,
+  createDefaultMixer,
+  createDefaultMonitor,
+  createDefaultSampler,
+} from "@puid-board/shared";
 
 describe("Persistence (in-memory fallback)", () => {
   // We'll test the in-memory fallback since Redis is optional
@@ -23,16 +29,22 @@ describe("Persistence (in-memory fallback)", () => {
         color: "#FF0000",
         joinedAt: Date.now(),
         isHost: true,
+        role: "host",
         cursor: null,
         latencyMs: 0,
+        monitor: createDefaultMonitor(),
       },
     ],
     queue: [],
     deckA: createDefaultDeck("A"),
     deckB: createDefaultDeck("B"),
+    deckCount: 2,
+    deckC: null,
+    deckD: null,
     mixer: createDefaultMixer(),
     controlOwners: {},
     sampler: createDefaultSampler(),
+    autoDj: createDefaultAutoDj(),
   };
 
   it("should save and load snapshots in-memory", async () => {
@@ -26,9 +26,26 @@ describe("RoomStore", () => {
       expect(room.members).toHaveLength(1);
       expect(room.members[0]?.name).toBe("TestHost");
       expect(room.members[0]?.isHost).toBe(true);
+      expect(room.members[0]?.role).toBe("host");
       expect(room.queue).toEqual([]);
       expect(room.deckA.deckId).toBe("A");
       expect(room.deckB.deckId).toBe("B");
+      expect(room.deckCount).toBe(2);
+      expect(room.deckC).toBeNull();
+      expect(room.deckD).toBeNull();
+    });
+
+    it("creates decks and channels C/D for four-deck rooms", async () => {
+      const { roomStore } = await import("./store.js");
+
+      const socketId = `test-socket-${Date.now()}`;
+      const { room } = roomStore.createRoom("TestHost", socketId, 4);
+
+      expect(room.deckCount).toBe(4);
+      expect(room.deckC?.deckId).toBe("C");
+      expect(room.deckD?.deckId).toBe("D");
+      expect(room.mixer.channelC?.fader).toBe(1);
+      expect(room.mixer.channelD?.fader).toBe(1);
     });
 
     it("assigns correct default mixer state", async () => {
@@ -74,6 +91,7 @@ describe("RoomStore", () => {
       expect(result?.room.members).toHaveLength(2);
       expect(result?.room.members[1]?.name).toBe("Joiner");
       expect(result?.room.members[1]?.isHost).toBe(false);
+      expect(result?.room.members[1]?.role).toBe("listener");
       expect(result?.room.version).toBe(1);
     });
 
@@ -172,6 +190,7 @@ describe("RoomStore", () => {
       const updatedRoom = roomStore.getRoom(hostRoom.roomId);
       expect(updatedRoom?.hostId).toBe(joinerId);
       expect(updatedRoom?.members[0]?.isHost).toBe(true);
+      expect(updatedRoom?.members[0]?.role).toBe("host");
     });
 
     it("cleans up client tracking on leave", async () => {
@@ -8,9 +8,19 @@ import {
   Member,
   ClientId,
   RoomId,
+  MemberRole,
+  DeckCount,
+  FxState,
+  FxUnitState,
   createDefaultDeck,
+  createDefaultFxUnit,
   createDefaultMixer,
+  createDefaultMonitor,
   createDefaultSampler,
+  createDefaultAutoDj,
+  createDefaultLimiter,
+  createEmptyHotCues,
+  createEmptySavedLoops,
 } from "@puid-board/shared";
 
 /** Generate a random 6-character room code */
@@ -40,6 +50,15 @@ const MEMBER_COLORS = [
   "#F7DC6F", // Gold
 ];
 
+/**
+ * Role assigned to members joining an existing room. Joiners start
+ * read-only so a public room can't be hijacked; the host promotes co-DJs.
+ */
+const DEFAULT_JOIN_ROLE: MemberRole = "listener";
+
+/** Role for non-host members of snapshots taken before roles existed (everyone could DJ) */
+const LEGACY_MEMBER_ROLE: MemberRole = "dj";
+
 /** Disconnect grace period in ms */
 const DISCONNECT_GRACE_MS = 30_000;
 
@@ -82,11 +101,13 @@ class RoomStore {
    * Create a new room.
    * @param hostName Display name of the host
    * @param socketId Socket ID of the host
+   * @param deckCount Number of decks (2 or 4)
    * @returns The created room state and host's client ID
    */
   createRoom(
     hostName: string,
-    socketId: string
+    socketId: string,
+    deckCount: DeckCount = 2
   ): { room: RoomState; clientId: ClientId } {
     const roomId = generateId();
     let roomCode = generateRoomCode();
@@ -105,8 +126,10 @@ class RoomStore {
       color: MEMBER_COLORS[0]!,
       joinedAt: now,
       isHost: true,
+      role: "host",
       cursor: null,
       latencyMs: 0,
+      monitor: createDefaultMonitor(),
     };
 
     const room: RoomState = {
@@ -119,9 +142,13 @@ class RoomStore {
       queue: [],
       deckA: createDefaultDeck("A"),
       deckB: createDefaultDeck("B"),
-      mixer: createDefaultMixer(),
+      deckCount,
+      deckC: deckCount === 4 ? createDefaultDeck("C") : null,
+      deckD: deckCount === 4 ? createDefaultDeck("D") : null,
+      mixer: createDefaultMixer(deckCount),
       controlOwners: {},
       sampler: createDefaultSampler(),
+      autoDj: createDefaultAutoDj(),
     };
 
     // Store room
@@ -138,7 +165,7 @@ class RoomStore {
     this.clientSocketIndex.set(clientId, socketId);
 
     console.log(
-      `[room:create] roomId=${roomId} code=${roomCode} host=${clientId}`
+      `[room:create] roomId=${roomId} code=${roomCode} host=${clientId} decks=${deckCount}`
     );
 
     return { room, clientId };
@@ -182,8 +209,10 @@ class RoomStore {
       color: availableColor,
       joinedAt: now,
       isHost: false,
+      role: DEFAULT_JOIN_ROLE,
       cursor: null,
       latencyMs: 0,
+      monitor: createDefaultMonitor(),
     };
 
     // Add member to room
@@ -248,6 +277,7 @@ class RoomStore {
         const newHost = room.members[0]!;
         room.hostId = newHost.clientId;
         newHost.isHost = true;
+        newHost.role = "host";
         console.log(`[room:host-transfer] roomId=${roomId} newHost=${newHost.clientId}`);
       }
     }
@@ -369,6 +399,7 @@ class RoomStore {
             const newHost = r.members[0]!;
             r.hostId = newHost.clientId;
             newHost.isHost = true;
+            newHost.role = "host";
           }
         }
         onGraceExpired(dc.clientId, dc.roomId);
@@ -467,6 +498,89 @@ class RoomStore {
       return;
     }
 
+    // Snapshots taken before roles existed have no role on members
+    for (const member of roomState.members) {
+      if (!member.role) {
+        member.role = member.isHost ? "host" : LEGACY_MEMBER_ROLE;
+      }
+      // Snapshots taken before per-member monitoring had none
+      member.monitor ??= createDefaultMonitor();
+    }
+
+    // Snapshots taken before per-member monitoring kept the cue mix on the mixer
+    delete (roomState.mixer as typeof roomState.mixer & { headphoneMix?: number }).headphoneMix;
+
+    // Snapshots taken before four-deck rooms existed are two-deck rooms
+    roomState.deckCount ??= 2;
+    roomState.deckC ??= null;
+    roomState.deckD ??= null;
+    roomState.mixer.channelC ??= null;
+    roomState.mixer.channelD ??= null;
+
+    // Snapshots taken before FX units had a single master FX slot: keep it on
+    // master as unit 1
+    const legacy = roomState.mixer as typeof roomState.mixer & { fx?: FxState };
+    if (legacy.fx) {
+      roomState.mixer.fx1 ??= { ...legacy.fx, assign: "master" } as unknown as FxUnitState;
+      delete legacy.fx;
+    }
+    roomState.mixer.fx1 ??= createDefaultFxUnit("A");
+    roomState.mixer.fx2 ??= createDefaultFxUnit("B");
+
+    // Snapshots taken before the master limiter existed
+    roomState.mixer.limiter ??= createDefaultLimiter();
+
+    // Snapshots taken before Auto-DJ existed
+    roomState.autoDj ??= createDefaultAutoDj();
+
+    // Snapshots taken before FX chains held one effect per unit as type/param
+    for (const unitId of ["fx1", "fx2"] as const) {
+      const unit = roomState.mixer[unitId] as FxUnitState & Partial<FxState>;
+      if (!unit.chain) {
+        unit.chain =
+          unit.type && unit.type !== "none"
+            ? [{ type: unit.type, param: unit.param ?? 0.5 }]
+            : [];
+        delete unit.type;
+        delete unit.param;
+      }
+    }
+
+    // Snapshots taken before beat grids and quantize existed: grids come back on BPM detection
+    for (const deck of [roomState.deckA, roomState.deckB, roomState.deckC, roomState.deckD]) {
+      if (!deck) continue;
+      deck.beatGrid ??= null;
+      deck.syncEnabled ??= false;
+      deck.quantize ??= "off";
+
+      // Snapshots taken before key lock existed
+      deck.keyLock ??= false;
+
+      // Snapshots taken before slip mode existed
+      deck.slip ??= false;
+      deck.slipShadow ??= null;
+
+      // Snapshots taken before reverse playback and brakes existed
+      deck.reverse ??= false;
+      deck.motion ??= null;
+
+      // Snapshots taken before hot cue slots had a single hot cue: keep it as slot 1
+      const legacyDeck = deck as typeof deck & { hotCuePointSec?: number | null };
+      if (!deck.hotCues) {
+        deck.hotCues = createEmptyHotCues();
+        if (legacyDeck.hotCuePointSec != null) {
+          deck.hotCues[0] = { positionSec: legacyDeck.hotCuePointSec, label: null, color: null };
+        }
+      }
+      delete legacyDeck.hotCuePointSec;
+
+      // Snapshots taken before saved loops existed
+      deck.savedLoops ??= createEmptySavedLoops();
+
+      // Snapshots taken before key detection existed: keys come back on analysis
+      deck.detectedKey ??= null;
+    }
+
     // Restore room state
     this.rooms.set(roomState.roomId, roomState);
     this.roomCodeIndex.set(roomState.roomCode, roomState.roomId);
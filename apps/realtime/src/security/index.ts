@@ -22,6 +22,7 @@ export {
   type ValidationErrorCode,
   // Permission config
   HOST_ONLY_ACTIONS,
+  LISTENER_ACTIONS,
   // Bounds validation
   validateControlValue,
   validateSeekPosition,
@@ -31,6 +32,7 @@ export {
   // Permission checks
   isHost,
   validateHostPermission,
+  validateRolePermission,
   isMemberOfRoom,
   // Client/room validation
   validateClientInRoom,
@@ -39,17 +39,23 @@ export const RATE_LIMITS: Record<string, RateLimitConfig> = {
   DECK_ACTIONS: { maxEvents: 100, windowMs: 60_000, burstPerSecond: 20 },
   // DECK_SEEK has higher limit for jog wheel scratching (high-frequency operation)
   DECK_SEEK: { maxEvents: 600, windowMs: 60_000, burstPerSecond: 40 },
+  // Hot cue jumps get their own limit so cue drumming doesn't starve other deck actions
+  DECK_HOT_CUE_JUMP: { maxEvents: 300, windowMs: 60_000, burstPerSecond: 20 },
   // Sampler operations
   SAMPLER_PLAY: { maxEvents: 30, windowMs: 60_000, burstPerSecond: 8 },
+  // Auto-DJ on/off
+  AUTO_DJ_SET: { maxEvents: 30, windowMs: 60_000, burstPerSecond: 5 },
+  // Headphone monitoring (cue mix knob drags are sent unthrottled)
+  MEMBER_MONITOR_SET: { maxEvents: 600, windowMs: 60_000, burstPerSecond: 40 },
 };
 
 /** Event types that share the DECK_ACTIONS rate limit */
 // NOTE: DECK_TEMPO_SET is NOT included here because it's a continuous control
 // that uses throttling (like MIXER_SET), not rate limiting
-const DECK_EVENT_TYPES = ["DECK_LOAD", "DECK_PLAY", "DECK_PAUSE", "DECK_CUE", "DECK_LOOP_SET", "DECK_ROLL_START", "DECK_ROLL_STOP"];
+const DECK_EVENT_TYPES = ["DECK_LOAD", "DECK_PLAY", "DECK_PAUSE", "DECK_CUE", "DECK_LOOP_SET", "DECK_ROLL_START", "DECK_ROLL_STOP", "DECK_SYNC", "DECK_BPM_DETECTED", "DECK_BEAT_GRID_SET", "DECK_QUANTIZE_SET", "DECK_KEY_LOCK_SET", "DECK_SLIP_SET", "DECK_SLIP_START", "DECK_SLIP_RELEASE", "DECK_REVERSE_SET", "DECK_CENSOR", "DECK_BRAKE", "DECK_HOT_CUE_SET", "DECK_HOT_CUE_CLEAR", "DECK_LOOP_SAVE", "DECK_LOOP_DELETE"];
 
 /** Event types with their own rate limits */
-const INDIVIDUAL_RATE_LIMIT_TYPES = ["DECK_SEEK"];
+const INDIVIDUAL_RATE_LIMIT_TYPES = ["DECK_SEEK", "DECK_HOT_CUE_JUMP"];
 
 // ============================================================================
 // Sliding Window Implementation
@@ -11,10 +11,13 @@ import {
   validateCursorPosition,
   isHost,
   validateHostPermission,
+  validateRolePermission,
   isMemberOfRoom,
   HOST_ONLY_ACTIONS,
+  LISTENER_ACTIONS,
 } from "./validate.js";
 import type { RoomState, DeckState } from "@puid-board/shared";
+import { createEmptyHotCues, createEmptySavedLoops } from "@puid-board/shared";
 
 // Mock deck for testing
 function createMockDeck(overrides: Partial<DeckState> = {}): DeckState {
@@ -28,13 +31,23 @@ function createMockDeck(overrides: Partial<DeckState> = {}): DeckState {
     durationSec: 180, // 3 minutes
     playbackRate: 1.0,
     detectedBpm: null,
+    detectedKey: null,
     epochId: crypto.randomUUID(),
     epochSeq: 0,
     epochStartPlayheadSec: 0,
     epochStartTimeMs: Date.now(),
     loop: null,
     roll: null,
-    hotCuePointSec: null,
+    hotCues: createEmptyHotCues(),
+    savedLoops: createEmptySavedLoops(),
+    beatGrid: null,
+    syncEnabled: false,
+    quantize: "off",
+    keyLock: false,
+    slip: false,
+    slipShadow: null,
+    reverse: false,
+    motion: null,
     ...overrides,
   };
 }
@@ -54,8 +67,10 @@ function createMockRoom(overrides: Partial<RoomState> = {}): RoomState {
         color: "#FF6B6B",
         joinedAt: Date.now(),
         isHost: true,
+        role: "host",
         cursor: null,
         latencyMs: 0,
+        monitor: { cue: [], headphoneMix: 1.0, splitCue: false },
       },
       {
         clientId: "member-client",
@@ -63,8 +78,10 @@ function createMockRoom(overrides: Partial<RoomState> = {}): RoomState {
         color: "#4ECDC4",
         joinedAt: Date.now(),
         isHost: false,
+        role: "dj",
         cursor: null,
         latencyMs: 0,
+        monitor: { cue: [], headphoneMix: 1.0, splitCue: false },
       },
     ],
     queue: [
@@ -97,13 +114,19 @@ function createMockRoom(overrides: Partial<RoomState> = {}): RoomState {
     ],
     deckA: createMockDeck(),
     deckB: createMockDeck({ deckId: "B" }),
+    deckCount: 2,
+    deckC: null,
+    deckD: null,
     mixer: {
       crossfader: 0.5,
       masterVolume: 0.8,
       channelA: { fader: 1, gain: 0, eq: { low: 0, mid: 0, high: 0 }, filter: 0.5 },
       channelB: { fader: 1, gain: 0, eq: { low: 0, mid: 0, high: 0 }, filter: 0.5 },
-      fx: { type: "none", wetDry: 0, param: 0.5, enabled: false },
-      headphoneMix: 1.0,
+      channelC: null,
+      channelD: null,
+      fx1: { chain: [], wetDry: 0, enabled: false, assign: "A" },
+      fx2: { chain: [], wetDry: 0, enabled: false, assign: "B" },
+      limiter: { enabled: true, threshold: 0.875, release: 0.5, ceiling: 0.95 },
     },
     controlOwners: {},
     sampler: {
@@ -114,6 +137,7 @@ function createMockRoom(overrides: Partial<RoomState> = {}): RoomState {
         { url: null, name: "Airhorn", isCustom: false },
       ],
     },
+    autoDj: { enabled: false, mixBars: 16 },
     ...overrides,
   };
 }
@@ -299,6 +323,66 @@ describe("validateHostPermission", () => {
   });
 });
 
+describe("validateRolePermission", () => {
+  function createRoomWithListener(): RoomState {
+    const room = createMockRoom();
+    room.members.push({
+      clientId: "listener-client",
+      name: "Listener",
+      color: "#45B7D1",
+      joinedAt: Date.now(),
+      isHost: false,
+      role: "listener",
+      cursor: null,
+      latencyMs: 0,
+      monitor: { cue: [], headphoneMix: 1.0, splitCue: false },
+    });
+    return room;
+  }
+
+  it("should allow co-DJs to control the board", () => {
+    const room = createRoomWithListener();
+    expect(validateRolePermission(room, "member-client", "DECK_PLAY").valid).toBe(true);
+    expect(validateRolePermission(room, "member-client", "MIXER_SET").valid).toBe(true);
+  });
+
+  it("should deny listeners board actions", () => {
+    const room = createRoomWithListener();
+    const result = validateRolePermission(room, "listener-client", "MIXER_SET");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("PERMISSION_DENIED");
+    }
+  });
+
+  it("should allow listeners presence actions", () => {
+    const room = createRoomWithListener();
+    expect(validateRolePermission(room, "listener-client", "CURSOR_MOVE").valid).toBe(true);
+    expect(validateRolePermission(room, "listener-client", "MEMBER_RENAME").valid).toBe(true);
+    expect(validateRolePermission(room, "listener-client", "MEMBER_MONITOR_SET").valid).toBe(true);
+  });
+
+  it("should reserve role changes for the host", () => {
+    const room = createRoomWithListener();
+    expect(validateRolePermission(room, "host-client", "MEMBER_ROLE_SET").valid).toBe(true);
+
+    const result = validateRolePermission(room, "member-client", "MEMBER_ROLE_SET");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("NOT_HOST");
+    }
+  });
+
+  it("should deny non-members", () => {
+    const room = createRoomWithListener();
+    const result = validateRolePermission(room, "unknown-client", "DECK_PLAY");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("NOT_IN_ROOM");
+    }
+  });
+});
+
 describe("isMemberOfRoom", () => {
   const room = createMockRoom();
 
@@ -323,3 +407,11 @@ describe("HOST_ONLY_ACTIONS", () => {
     expect(HOST_ONLY_ACTIONS.has("MIXER_SET")).toBe(false);
   });
 });
+
+describe("LISTENER_ACTIONS", () => {
+  it("should not include board actions", () => {
+    expect(LISTENER_ACTIONS.has("CURSOR_MOVE")).toBe(true);
+    expect(LISTENER_ACTIONS.has("DECK_PLAY")).toBe(false);
+    expect(LISTENER_ACTIONS.has("QUEUE_REMOVE")).toBe(false);
+  });
+});
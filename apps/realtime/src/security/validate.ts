@@ -3,7 +3,7 @@
  *
  * Provides:
  * - Bounds validation for control values, seek positions, queue indices
- * - Permission checks for host-only actions
+ * - Permission checks for host-only actions and member roles
  * - Client room membership validation
  * - Type guards and helpers with specific error messages
  */
@@ -12,6 +12,9 @@ import type { RoomState, DeckState, DeckId } from "@puid-board/shared";
 import {
   isValidControlId,
   getControlBounds,
+  getMemberRole,
+  canRoleControl,
+  getDeckState,
   type ValidControlId,
 } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
@@ -54,12 +57,22 @@ export type ValidationErrorCode =
 /** Actions that require host permission (MVP: minimal set) */
 export const HOST_ONLY_ACTIONS: ReadonlySet<string> = new Set([
   "QUEUE_CLEAR", // Clear entire queue (not implemented yet but reserve it)
+  "MEMBER_ROLE_SET", // Promote/demote members between co-DJ and listener
   // For MVP, most actions are allowed by any member
   // Can expand this list later:
   // "ROOM_SETTINGS_UPDATE",
   // "KICK_MEMBER",
 ]);
 
+/** Actions listeners may still perform (presence and self-service only) */
+export const LISTENER_ACTIONS: ReadonlySet<string> = new Set([
+  "CURSOR_MOVE",
+  "TIME_PING",
+  "MEMBER_RENAME",
+  "MEMBER_MONITOR_SET",
+  "TRACK_METADATA_REPORT",
+]);
+
 // ============================================================================
 // Bounds Validation
 // ============================================================================
@@ -282,6 +295,45 @@ export function validateHostPermission(
   return { valid: true };
 }
 
+/**
+ * Validate that a client's role allows an action.
+ * Host-only actions require the host; everything outside LISTENER_ACTIONS
+ * requires a host or co-DJ.
+ */
+export function validateRolePermission(
+  room: RoomState,
+  clientId: string,
+  action: string
+): ValidationResult {
+  const hostResult = validateHostPermission(room, clientId, action);
+  if (!hostResult.valid) {
+    return hostResult;
+  }
+
+  if (LISTENER_ACTIONS.has(action)) {
+    return { valid: true };
+  }
+
+  const role = getMemberRole(room, clientId);
+  if (role === null) {
+    return {
+      valid: false,
+      error: `Client ${clientId} is not a member of this room`,
+      code: "NOT_IN_ROOM",
+    };
+  }
+
+  if (!canRoleControl(role)) {
+    return {
+      valid: false,
+      error: `Action ${action} is not allowed for listeners`,
+      code: "PERMISSION_DENIED",
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Check if a client is a member of a room.
  */
@@ -365,7 +417,7 @@ export function validateDeckExists(
   room: RoomState,
   deckId: DeckId
 ): { valid: true; deck: DeckState } | ValidationError {
-  const deck = deckId === "A" ? room.deckA : room.deckB;
+  const deck = getDeckState(room, deckId);
 
   if (!deck) {
     return {
@@ -404,7 +456,7 @@ export function validateQueueItemExists(
 
 /**
  * Perform full client validation for an event.
- * Checks client registration, room membership, and optionally host permission.
+ * Checks client registration, room membership, and optionally role permission.
  */
 export function validateEventClient(
   socketId: string,
@@ -426,9 +478,9 @@ export function validateEventClient(
     return roomResult;
   }
 
-  // Check host permission if action is specified
+  // Check role permission if action is specified
   if (action) {
-    const permResult = validateHostPermission(roomResult.room, claimedClientId, action);
+    const permResult = validateRolePermission(roomResult.room, claimedClientId, action);
     if (!permResult.valid) {
       return permResult;
     }
@@ -0,0 +1,90 @@
+/**
+ * Tests for recordings service.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { recordingsService, RecordingValidationError } from "./recordings.js";
+import { recordingStore } from "../db/recordingStore.js";
+
+const baseInput = {
+  mimeType: "audio/webm;codecs=opus",
+  roomId: "room-1",
+  recordedBy: "client-1",
+  recordedByName: "DJ One",
+  durationSec: 600,
+};
+
+describe("RecordingsService", () => {
+  beforeEach(() => {
+    recordingStore.clear();
+  });
+
+  it("stores a recording with its tracklist", async () => {
+    const recording = await recordingsService.upload({
+      ...baseInput,
+      buffer: Buffer.from("fake webm recording"),
+      tracklist: [
+        { offsetSec: 240, deckId: "B", trackId: "t2", title: "Second" },
+        { offsetSec: 0, deckId: "A", trackId: "t1", title: "First" },
+      ],
+    });
+
+    expect(recording.id).toBeTruthy();
+    expect(recording.url).toContain(".webm");
+    expect(recording.mimeType).toBe("audio/webm");
+    expect(recording.recordedByName).toBe("DJ One");
+    expect(recording.tracklist.map((t) => t.title)).toEqual(["First", "Second"]);
+  });
+
+  it("lists recordings per room, newest first", async () => {
+    const first = await recordingsService.upload({
+      ...baseInput,
+      buffer: Buffer.from("first take"),
+      tracklist: [],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await recordingsService.upload({
+      ...baseInput,
+      buffer: Buffer.from("second take"),
+      tracklist: [],
+    });
+    await recordingsService.upload({
+      ...baseInput,
+      roomId: "room-2",
+      buffer: Buffer.from("other room"),
+      tracklist: [],
+    });
+
+    const recordings = await recordingsService.getRoomRecordings("room-1");
+    expect(recordings.map((r) => r.id)).toEqual([second.id, first.id]);
+  });
+
+  it("drops tracklist entries past the end of the recording", async () => {
+    const recording = await recordingsService.upload({
+      ...baseInput,
+      buffer: Buffer.from("short take"),
+      durationSec: 60,
+      tracklist: [
+        { offsetSec: 10, deckId: "A", trackId: "t1", title: "In" },
+        { offsetSec: 90, deckId: "B", trackId: "t2", title: "Out" },
+      ],
+    });
+    expect(recording.tracklist.map((t) => t.trackId)).toEqual(["t1"]);
+  });
+
+  it("rejects invalid uploads", async () => {
+    const buffer = Buffer.from("data");
+    await expect(
+      recordingsService.upload({ ...baseInput, buffer, mimeType: "audio/mpeg", tracklist: [] })
+    ).rejects.toThrow(RecordingValidationError);
+    await expect(
+      recordingsService.upload({ ...baseInput, buffer, durationSec: 0, tracklist: [] })
+    ).rejects.toThrow(RecordingValidationError);
+    await expect(
+      recordingsService.upload({ ...baseInput, buffer, tracklist: [{ offsetSec: -1 }] })
+    ).rejects.toThrow(RecordingValidationError);
+    await expect(
+      recordingsService.upload({ ...baseInput, buffer: Buffer.alloc(0), tracklist: [] })
+    ).rejects.toThrow(RecordingValidationError);
+  });
+});
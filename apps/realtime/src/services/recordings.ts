@@ -0,0 +1,143 @@
+/**
+ * Recordings service - master mix recordings uploaded from the browser.
+ *
+ * The recorder's browser captures the master bus with MediaRecorder and builds
+ * the tracklist from the deck loads/plays it saw while recording; the server
+ * stores the file and lists recordings per room.
+ */
+
+import {
+  RecordingTracklistSchema,
+  type Recording as RecordingInfo,
+  type RecordingTrack,
+} from "@puid-board/shared";
+import { recordingStore } from "../db/recordingStore.js";
+import { storageService } from "./storage.js";
+import type { Recording } from "../db/types.js";
+
+// Validation constants
+export const MAX_RECORDING_SIZE = 200 * 1024 * 1024; // 200MB (~3h of 128kbps Opus)
+const MAX_DURATION = 4 * 60 * 60; // 4 hours in seconds
+const ALLOWED_MIME_TYPES = [
+  "audio/webm", // Chrome/Firefox MediaRecorder (may include codecs like "audio/webm;codecs=opus")
+  "audio/ogg",  // Firefox MediaRecorder
+  "audio/mp4",  // Safari MediaRecorder
+];
+
+export interface UploadRecordingInput {
+  buffer: Buffer;
+  mimeType: string;
+  roomId: string;
+  recordedBy: string;
+  recordedByName: string;
+  durationSec: number;
+  /** Tracklist as sent by the client (validated here) */
+  tracklist: unknown;
+}
+
+export class RecordingValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingValidationError";
+  }
+}
+
+class RecordingsService {
+  /**
+   * Upload and store a recording.
+   */
+  async upload(input: UploadRecordingInput): Promise<RecordingInfo> {
+    // Validate file size
+    if (input.buffer.length === 0) {
+      throw new RecordingValidationError("Recording is empty");
+    }
+    if (input.buffer.length > MAX_RECORDING_SIZE) {
+      throw new RecordingValidationError(
+        `File size exceeds maximum of ${MAX_RECORDING_SIZE / 1024 / 1024}MB`
+      );
+    }
+
+    // Validate mime type (strip codec parameters like ";codecs=opus")
+    const baseMimeType = input.mimeType.split(";")[0]!.trim().toLowerCase();
+    if (!ALLOWED_MIME_TYPES.includes(baseMimeType)) {
+      throw new RecordingValidationError(
+        `Invalid recording format. Accepted formats: WebM, OGG, M4A. Received: ${input.mimeType}`
+      );
+    }
+
+    // Validate duration
+    if (!Number.isFinite(input.durationSec) || input.durationSec <= 0) {
+      throw new RecordingValidationError("Duration must be greater than 0");
+    }
+    if (input.durationSec > MAX_DURATION) {
+      throw new RecordingValidationError(
+        `Duration exceeds maximum of ${MAX_DURATION / 60 / 60} hours`
+      );
+    }
+
+    const tracklist = this.parseTracklist(input.tracklist, input.durationSec);
+
+    // Upload to storage
+    const uploadResult = await storageService.upload(
+      input.buffer,
+      `recording-${input.roomId}`,
+      input.mimeType
+    );
+
+    const recording = await recordingStore.create({
+      roomId: input.roomId,
+      recordedBy: input.recordedBy,
+      recordedByName: input.recordedByName,
+      mimeType: baseMimeType,
+      durationSec: input.durationSec,
+      fileSizeBytes: uploadResult.fileSizeBytes,
+      storageKey: uploadResult.storageKey,
+      tracklist,
+    });
+
+    console.log(`[recordings] Uploaded recording: ${recording.id} (${recording.fileSizeBytes} bytes, ${tracklist.length} tracks)`);
+
+    return await this.toInfo(recording);
+  }
+
+  /**
+   * Get all recordings for a room (newest first).
+   */
+  async getRoomRecordings(roomId: string): Promise<RecordingInfo[]> {
+    const recordings = await recordingStore.getRoomRecordings(roomId);
+    return await Promise.all(recordings.map((r) => this.toInfo(r)));
+  }
+
+  /**
+   * Validate the client's tracklist; entries past the end of the recording are dropped.
+   */
+  private parseTracklist(tracklist: unknown, durationSec: number): RecordingTrack[] {
+    const parsed = RecordingTracklistSchema.safeParse(tracklist ?? []);
+    if (!parsed.success) {
+      throw new RecordingValidationError("Invalid tracklist");
+    }
+    return parsed.data
+      .filter((entry) => entry.offsetSec <= durationSec)
+      .sort((a, b) => a.offsetSec - b.offsetSec);
+  }
+
+  /**
+   * Public shape of a recording (with a fresh download URL).
+   */
+  private async toInfo(recording: Recording): Promise<RecordingInfo> {
+    return {
+      id: recording.id,
+      roomId: recording.roomId,
+      recordedBy: recording.recordedBy,
+      recordedByName: recording.recordedByName,
+      url: await storageService.getUrl(recording.storageKey),
+      mimeType: recording.mimeType,
+      durationSec: recording.durationSec,
+      fileSizeBytes: recording.fileSizeBytes,
+      tracklist: recording.tracklist,
+      createdAt: recording.createdAt.getTime(),
+    };
+  }
+}
+
+export const recordingsService = new RecordingsService();
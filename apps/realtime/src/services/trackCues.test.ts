@@ -0,0 +1,52 @@
+/**
+ * Tests for per-track cue storage.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createEmptyHotCues, createEmptySavedLoops, type TrackCues } from "@puid-board/shared";
+import { getTrackCues, loadTrackCues, saveTrackCues, clearTrackCuesCache } from "./trackCues.js";
+import { trackStore } from "../db/trackStore.js";
+
+function createCues(): TrackCues {
+  const cues: TrackCues = {
+    hotCues: createEmptyHotCues(),
+    savedLoops: createEmptySavedLoops(),
+    beatGrid: { bpm: 124, firstBeatSec: 0.1 },
+  };
+  cues.hotCues[0] = { positionSec: 30, label: "Drop", color: null };
+  cues.savedLoops[0] = { startSec: 60, endSec: 67.74, lengthBars: 4 };
+  return cues;
+}
+
+describe("trackCues", () => {
+  beforeEach(() => {
+    trackStore.clear();
+    clearTrackCuesCache();
+  });
+
+  it("stores upload cues on the track record and loads them after a cold start", async () => {
+    const track = await trackStore.create({
+      title: "Test Track",
+      durationSec: 180,
+      source: "upload",
+      mimeType: "audio/mpeg",
+      fileSizeBytes: 5000000,
+      fileHash: "abc123",
+      storageKey: "abc123.mp3",
+    });
+    const ref = { trackId: track.id, source: "upload" as const, youtubeVideoId: null };
+
+    await saveTrackCues(ref, createCues());
+    expect((await trackStore.findById(track.id))?.cues).toEqual(createCues());
+
+    clearTrackCuesCache();
+    expect(getTrackCues(ref)).toBeNull();
+    expect(await loadTrackCues(ref)).toEqual(createCues());
+    expect(getTrackCues(ref)).toEqual(createCues());
+  });
+
+  it("returns null for tracks without saved cues", async () => {
+    const ref = { trackId: "unknown", source: "upload" as const, youtubeVideoId: null };
+    expect(await loadTrackCues(ref)).toBeNull();
+  });
+});
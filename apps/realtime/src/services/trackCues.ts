@@ -0,0 +1,89 @@
+/**
+ * Per-track cue storage - hot cues, saved loops and beat grid.
+ *
+ * Cues follow the track rather than the deck or queue entry:
+ * - Uploads are stored on the Track record (deduplicated by content hash,
+ *   so the same file always maps to the same record)
+ * - YouTube tracks are stored in the video's cache metadata
+ *
+ * An in-memory write-through cache keeps lookups synchronous for the deck
+ * handlers; loadTrackCues() warms it from storage when a track is queued.
+ */
+
+import { TrackCuesSchema, type QueueItem, type TrackCues } from "@puid-board/shared";
+import { trackStore } from "../db/trackStore.js";
+import { getCachedMetadata, updateMetadataCues } from "./youtubeCache.js";
+
+/** The queue item fields that identify a track */
+export type TrackRef = Pick<QueueItem, "trackId" | "source" | "youtubeVideoId">;
+
+const cueCache = new Map<string, TrackCues>();
+
+/** Cache key for a track: YouTube tracks by video, uploads by track ID */
+export function getTrackCacheKey(track: TrackRef): string {
+  return track.source === "youtube" && track.youtubeVideoId
+    ? `yt-${track.youtubeVideoId}`
+    : track.trackId;
+}
+
+/**
+ * Get the cached cues for a track (null if none are loaded or saved).
+ */
+export function getTrackCues(track: TrackRef): TrackCues | null {
+  return cueCache.get(getTrackCacheKey(track)) ?? null;
+}
+
+/**
+ * Load a track's saved cues from storage into the cache.
+ * Returns null if nothing is saved (or the stored cues are unreadable).
+ */
+export async function loadTrackCues(track: TrackRef): Promise<TrackCues | null> {
+  const cached = getTrackCues(track);
+  if (cached) return cached;
+
+  try {
+    const stored =
+      track.source === "youtube" && track.youtubeVideoId
+        ? (await getCachedMetadata(track.youtubeVideoId))?.cues
+        : (await trackStore.findById(track.trackId))?.cues;
+    if (!stored) return null;
+
+    const parsed = TrackCuesSchema.safeParse(stored);
+    if (!parsed.success) return null;
+
+    // A save may have landed while reading; it wins over storage
+    const current = getTrackCues(track);
+    if (current) return current;
+    cueCache.set(getTrackCacheKey(track), parsed.data);
+    return parsed.data;
+  } catch (err) {
+    console.error(`[trackCues] Failed to load cues for ${track.trackId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Save a track's cues: updates the cache immediately, then storage.
+ * Tracks without a stored record (e.g. unknown upload IDs) stay cache-only.
+ */
+export async function saveTrackCues(track: TrackRef, cues: TrackCues): Promise<void> {
+  cueCache.set(getTrackCacheKey(track), cues);
+
+  try {
+    if (track.source === "youtube" && track.youtubeVideoId) {
+      await updateMetadataCues(track.youtubeVideoId, cues);
+    } else {
+      await trackStore.updateCues(track.trackId, cues);
+    }
+  } catch (err) {
+    console.error(`[trackCues] Failed to save cues for ${track.trackId}:`, err);
+    // Non-fatal — the cues are still live in room state and the cache
+  }
+}
+
+/**
+ * Clear the cache (for testing).
+ */
+export function clearTrackCuesCache(): void {
+  cueCache.clear();
+}
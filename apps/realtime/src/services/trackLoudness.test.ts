@@ -0,0 +1,41 @@
+/**
+ * Tests for per-track loudness storage.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { getTrackLoudness, loadTrackLoudness, saveTrackLoudness, clearTrackLoudnessCache } from "./trackLoudness.js";
+import { trackStore } from "../db/trackStore.js";
+
+describe("trackLoudness", () => {
+  beforeEach(() => {
+    trackStore.clear();
+    clearTrackLoudnessCache();
+  });
+
+  it("stores upload loudness on the track record and loads it after a cold start", async () => {
+    const track = await trackStore.create({
+      title: "Test Track",
+      durationSec: 180,
+      source: "upload",
+      mimeType: "audio/mpeg",
+      fileSizeBytes: 5000000,
+      fileHash: "abc123",
+      storageKey: "abc123.mp3",
+    });
+    const ref = { trackId: track.id, source: "upload" as const, youtubeVideoId: null };
+    const loudness = { lufs: -9.4, truePeakDb: 0.2 };
+
+    await saveTrackLoudness(ref, loudness);
+    expect((await trackStore.findById(track.id))?.loudness).toEqual(loudness);
+
+    clearTrackLoudnessCache();
+    expect(getTrackLoudness(ref)).toBeNull();
+    expect(await loadTrackLoudness(ref)).toEqual(loudness);
+    expect(getTrackLoudness(ref)).toEqual(loudness);
+  });
+
+  it("returns null for tracks that haven't been measured", async () => {
+    const ref = { trackId: "unknown", source: "upload" as const, youtubeVideoId: null };
+    expect(await loadTrackLoudness(ref)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Per-track loudness storage - integrated loudness and true peak.
+ *
+ * Measured once by whichever client analyzes the track first, then kept with
+ * the track like its cues: on the Track record for uploads and in the video's
+ * cache metadata for YouTube tracks.
+ *
+ * An in-memory write-through cache keeps lookups synchronous for DECK_LOAD;
+ * loadTrackLoudness() warms it from storage when a track is queued.
+ */
+
+import { TrackLoudnessSchema, type TrackLoudness } from "@puid-board/shared";
+import { trackStore } from "../db/trackStore.js";
+import { getCachedMetadata, updateMetadataLoudness } from "./youtubeCache.js";
+import { getTrackCacheKey, type TrackRef } from "./trackCues.js";
+
+const loudnessCache = new Map<string, TrackLoudness>();
+
+/**
+ * Get the cached loudness for a track (null if not measured or not loaded).
+ */
+export function getTrackLoudness(track: TrackRef): TrackLoudness | null {
+  return loudnessCache.get(getTrackCacheKey(track)) ?? null;
+}
+
+/**
+ * Load a track's measured loudness from storage into the cache.
+ * Returns null if it hasn't been measured (or the stored value is unreadable).
+ */
+export async function loadTrackLoudness(track: TrackRef): Promise<TrackLoudness | null> {
+  const cached = getTrackLoudness(track);
+  if (cached) return cached;
+
+  try {
+    const stored =
+      track.source === "youtube" && track.youtubeVideoId
+        ? (await getCachedMetadata(track.youtubeVideoId))?.loudness
+        : (await trackStore.findById(track.trackId))?.loudness;
+    if (!stored) return null;
+
+    const parsed = TrackLoudnessSchema.safeParse(stored);
+    if (!parsed.success) return null;
+
+    // A measurement may have landed while reading; it wins over storage
+    const current = getTrackLoudness(track);
+    if (current) return current;
+    loudnessCache.set(getTrackCacheKey(track), parsed.data);
+    return parsed.data;
+  } catch (err) {
+    console.error(`[trackLoudness] Failed to load loudness for ${track.trackId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Save a track's measured loudness: updates the cache immediately, then storage.
+ */
+export async function saveTrackLoudness(track: TrackRef, loudness: TrackLoudness): Promise<void> {
+  loudnessCache.set(getTrackCacheKey(track), loudness);
+
+  try {
+    if (track.source === "youtube" && track.youtubeVideoId) {
+      await updateMetadataLoudness(track.youtubeVideoId, loudness);
+    } else {
+      await trackStore.updateLoudness(track.trackId, loudness);
+    }
+  } catch (err) {
+    console.error(`[trackLoudness] Failed to save loudness for ${track.trackId}:`, err);
+    // Non-fatal — the loudness is still on the queue item and in the cache
+  }
+}
+
+/**
+ * Clear the cache (for testing).
+ */
+export function clearTrackLoudnessCache(): void {
+  loudnessCache.clear();
+}
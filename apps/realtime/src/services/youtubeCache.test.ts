@@ -0,0 +1,59 @@
+/**
+ * Tests for YouTube cache metadata updates.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+type YouTubeCache = typeof import("./youtubeCache.js");
+
+describe("youtubeCache metadata", () => {
+  const storageDir = mkdtempSync(join(tmpdir(), "yt-cache-test-"));
+  const originalStorageDir = process.env.STORAGE_DIR;
+  let cache: YouTubeCache;
+
+  beforeAll(async () => {
+    // The storage dir is read when the module loads
+    process.env.STORAGE_DIR = storageDir;
+    cache = await import("./youtubeCache.js");
+  });
+
+  afterAll(() => {
+    if (originalStorageDir === undefined) {
+      delete process.env.STORAGE_DIR;
+    } else {
+      process.env.STORAGE_DIR = originalStorageDir;
+    }
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it("keeps every field when analysis, loudness and cues are saved at once", async () => {
+    const videoId = "concurrent01";
+    const loudness = { lufs: -9.4, truePeakDb: 0.2 };
+    const cues = { hotCues: [], savedLoops: [], beatGrid: null };
+
+    await Promise.all([
+      cache.updateMetadataLoudness(videoId, loudness),
+      cache.updateMetadataAnalysis(videoId, 128, [0.1, 0.5, 0.9], "8A"),
+      cache.updateMetadataCues(videoId, cues),
+    ]);
+
+    const expected = { bpm: 128, waveform: [0.1, 0.5, 0.9], key: "8A", loudness, cues };
+    expect(await cache.getCachedMetadata(videoId)).toMatchObject(expected);
+
+    // The file on disk holds the merged result too, not the last writer's snapshot
+    const onDisk = JSON.parse(readFileSync(join(storageDir, `yt-${videoId}.meta.json`), "utf-8"));
+    expect(onDisk).toMatchObject(expected);
+  });
+
+  it("keeps the cached key when a later analysis has none", async () => {
+    const videoId = "keepkey01";
+
+    await cache.updateMetadataAnalysis(videoId, 124, [0.2], "5B");
+    await cache.updateMetadataAnalysis(videoId, 125, [0.3], null);
+
+    expect(await cache.getCachedMetadata(videoId)).toMatchObject({ bpm: 125, waveform: [0.3], key: "5B" });
+  });
+});
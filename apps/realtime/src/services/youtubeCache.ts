@@ -2,6 +2,7 @@ import { readFile, writeFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { existsSync, mkdirSync } from "node:fs";
 import { fileURLToPath } from "node:url";
+import type { BandWaveform, CamelotKey, TrackCues, TrackLoudness } from "@puid-board/shared";
 
 // Resolve storage dir the same way storage.ts does
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
@@ -22,6 +23,14 @@ export interface YouTubeCacheMetadata {
   waveform: number[] | null;
   thumbnailUrl: string | null;
   cachedAt: number;
+  /** Detected key in Camelot notation (absent until first analyzed) */
+  key?: CamelotKey | null;
+  /** Saved hot cues, loops and beat grid (absent until first saved) */
+  cues?: TrackCues;
+  /** Three-band waveform for the zoomed view (absent until first analyzed) */
+  bands?: BandWaveform;
+  /** Measured loudness (absent until first analyzed) */
+  loudness?: TrackLoudness;
 }
 
 /**
@@ -44,6 +53,28 @@ function localPath(key: string): string {
 // In-memory metadata cache for fast lookups
 const metadataCache = new Map<string, YouTubeCacheMetadata>();
 
+// Pending metadata writes per videoId. Partial updates (analysis, cues,
+// loudness) often arrive together, so each read-modify-write waits for the
+// previous one to land instead of starting from the same stale snapshot.
+const metadataWrites = new Map<string, Promise<void>>();
+
+/**
+ * Run a metadata update after any pending update for the same video.
+ */
+function queueMetadataWrite(videoId: string, write: () => Promise<void>): Promise<void> {
+  const previous = metadataWrites.get(videoId) ?? Promise.resolve();
+  // A failed write shouldn't block the ones queued behind it
+  const next = previous.catch(() => undefined).then(write);
+  metadataWrites.set(videoId, next);
+
+  return next.finally(() => {
+    // Drop the entry once the queue for this video has drained
+    if (metadataWrites.get(videoId) === next) {
+      metadataWrites.delete(videoId);
+    }
+  });
+}
+
 /**
  * Check if a YouTube video's audio is cached.
  */
@@ -129,6 +160,14 @@ export async function getCachedMetadata(videoId: string): Promise<YouTubeCacheMe
  * Cache metadata for a YouTube video.
  */
 export async function cacheMetadata(videoId: string, meta: YouTubeCacheMetadata): Promise<void> {
+  await queueMetadataWrite(videoId, () => writeMetadata(videoId, meta));
+}
+
+/**
+ * Write metadata to disk and the in-memory cache. Callers go through
+ * queueMetadataWrite so writes for one video never interleave.
+ */
+async function writeMetadata(videoId: string, meta: YouTubeCacheMetadata): Promise<void> {
   const key = metaKey(videoId);
   const local = localPath(key);
 
@@ -146,29 +185,71 @@ export async function cacheMetadata(videoId: string, meta: YouTubeCacheMetadata)
 }
 
 /**
- * Update only the BPM and waveform fields in cached metadata.
+ * Metadata for a video that hasn't been cached yet (title and duration are
+ * filled in when the audio is).
+ */
+function createDefaultMetadata(videoId: string): YouTubeCacheMetadata {
+  return {
+    videoId,
+    title: "",
+    durationSec: 0,
+    bpm: null,
+    waveform: null,
+    thumbnailUrl: null,
+    cachedAt: Date.now(),
+  };
+}
+
+/**
+ * Update only the BPM, waveform, key and band waveform fields in cached metadata.
  * Creates metadata if it doesn't exist yet (with partial fields).
+ * A missing key or band waveform keeps the cached one.
  */
 export async function updateMetadataAnalysis(
   videoId: string,
   bpm: number | null,
-  waveform: number[]
+  waveform: number[],
+  key: CamelotKey | null = null,
+  bands: BandWaveform | null = null
+): Promise<void> {
+  await queueMetadataWrite(videoId, async () => {
+    const existing = await getCachedMetadata(videoId);
+
+    const meta: YouTubeCacheMetadata = {
+      ...(existing ?? createDefaultMetadata(videoId)),
+      bpm,
+      waveform,
+      ...(key ? { key } : {}),
+      ...(bands ? { bands } : {}),
+    };
+
+    await writeMetadata(videoId, meta);
+  });
+}
+
+/**
+ * Update only the saved cues in cached metadata.
+ * Creates metadata if it doesn't exist yet (with partial fields).
+ */
+export async function updateMetadataCues(videoId: string, cues: TrackCues): Promise<void> {
+  await queueMetadataWrite(videoId, async () => {
+    const existing = await getCachedMetadata(videoId);
+    await writeMetadata(videoId, { ...(existing ?? createDefaultMetadata(videoId)), cues });
+  });
+}
+
+/**
+ * Update only the measured loudness in cached metadata.
+ * Creates metadata if it doesn't exist yet (with partial fields).
+ */
+export async function updateMetadataLoudness(
+  videoId: string,
+  loudness: TrackLoudness
 ): Promise<void> {
-  const existing = await getCachedMetadata(videoId);
-
-  const meta: YouTubeCacheMetadata = existing
-    ? { ...existing, bpm, waveform }
-    : {
-        videoId,
-        title: "",
-        durationSec: 0,
-        bpm,
-        waveform,
-        thumbnailUrl: null,
-        cachedAt: Date.now(),
-      };
-
-  await cacheMetadata(videoId, meta);
+  await queueMetadataWrite(videoId, async () => {
+    const existing = await getCachedMetadata(videoId);
+    await writeMetadata(videoId, { ...(existing ?? createDefaultMetadata(videoId)), loudness });
+  });
 }
 
 // --- CDN URL helper ---
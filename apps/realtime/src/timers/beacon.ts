@@ -8,8 +8,11 @@
  */
 
 import type { Server } from "socket.io";
-import { BeaconTickEvent, DeckBeaconPayload } from "@puid-board/shared";
+import { BeaconTickEvent, DeckBeaconPayload, DeckState, getDeckPlayheadAt } from "@puid-board/shared";
 import { roomStore } from "../rooms/store.js";
+import { historyStore } from "../rooms/history.js";
+import { settleDeckMotion } from "../handlers/deck.js";
+import { tickAutoDj } from "../handlers/autoDj.js";
 
 /** Interval for BEACON_TICK broadcasts (milliseconds) */
 const BEACON_INTERVAL_MS = 100; // 100ms for fast sync (10 samples/sec for PLL)
@@ -60,32 +63,46 @@ function broadcastBeacon(io: Server, roomId: string): void {
 
   const serverTs = Date.now();
 
-  // Increment epochSeq for playing decks
-  if (room.deckA.playState === "playing") {
-    room.deckA.epochSeq++;
+  // Track which decks are audible for the set history
+  historyStore.update(room, serverTs);
+
+  // Decks C/D are null in two-deck rooms
+  const decks = [room.deckA, room.deckB, room.deckC, room.deckD].filter(
+    (deck): deck is DeckState => deck !== null
+  );
+
+  // Pause decks whose brake/spin-back has run out (new epoch, so clients reset)
+  for (const deck of decks) {
+    settleDeckMotion(deck, serverTs);
   }
-  if (room.deckB.playState === "playing") {
-    room.deckB.epochSeq++;
+
+  // Auto-DJ loads, starts and crossfades (its new epochs go out in this beacon)
+  tickAutoDj(io, room, serverTs);
+
+  // Increment epochSeq for playing decks
+  for (const deck of decks) {
+    if (deck.playState === "playing") {
+      deck.epochSeq++;
+    }
   }
 
   // Calculate current playhead from epoch for each deck (with loop/roll wrapping)
-  const calcPlayhead = (deck: typeof room.deckA): number => {
-    if (deck.playState !== "playing") {
-      return deck.playheadSec;
+  const calcPlayhead = (deck: DeckState): number => {
+    let playhead = getDeckPlayheadAt(deck, serverTs);
+    if (deck.playState !== "playing" || deck.motion) {
+      return playhead;
     }
-    const elapsedMs = serverTs - deck.epochStartTimeMs;
-    const elapsedSec = elapsedMs / 1000;
-    let playhead = deck.epochStartPlayheadSec + (elapsedSec * deck.playbackRate);
-    playhead = Math.min(playhead, deck.durationSec ?? playhead);
 
-    // Apply loop wrapping
+    // Apply loop wrapping (reversed decks wrap at the loop start)
     const loopBounds = deck.loop ?? (deck.roll?.active ? deck.roll : null);
     if (loopBounds) {
       const start = "startSec" in loopBounds ? loopBounds.startSec : 0;
       const end = "endSec" in loopBounds ? loopBounds.endSec : 0;
-      if (end > start && playhead >= end) {
-        const loopLength = end - start;
+      const loopLength = end - start;
+      if (loopLength > 0 && !deck.reverse && playhead >= end) {
         playhead = start + ((playhead - start) % loopLength);
+      } else if (loopLength > 0 && deck.reverse && playhead <= start) {
+        playhead = end - ((start - playhead) % loopLength);
       }
     }
 
@@ -93,7 +110,7 @@ function broadcastBeacon(io: Server, roomId: string): void {
   };
 
   // Helper to extract loop bounds for beacon
-  const getLoopPayload = (deck: typeof room.deckA) => {
+  const getLoopPayload = (deck: DeckState) => {
     if (deck.loop?.enabled) {
       return { enabled: true, startSec: deck.loop.startSec, endSec: deck.loop.endSec };
     }
@@ -104,29 +121,19 @@ function broadcastBeacon(io: Server, roomId: string): void {
   };
 
   // Build beacon payloads
-  const deckA: DeckBeaconPayload = {
-    deckId: room.deckA.deckId,
-    epochId: room.deckA.epochId,
-    epochSeq: room.deckA.epochSeq,
+  const buildPayload = (deck: DeckState): DeckBeaconPayload => ({
+    deckId: deck.deckId,
+    epochId: deck.epochId,
+    epochSeq: deck.epochSeq,
     serverTs,
-    playheadSec: calcPlayhead(room.deckA),
-    playbackRate: room.deckA.playbackRate,
-    playState: room.deckA.playState,
-    detectedBpm: room.deckA.detectedBpm,
-    loop: getLoopPayload(room.deckA),
-  };
-
-  const deckB: DeckBeaconPayload = {
-    deckId: room.deckB.deckId,
-    epochId: room.deckB.epochId,
-    epochSeq: room.deckB.epochSeq,
-    serverTs,
-    playheadSec: calcPlayhead(room.deckB),
-    playbackRate: room.deckB.playbackRate,
-    playState: room.deckB.playState,
-    detectedBpm: room.deckB.detectedBpm,
-    loop: getLoopPayload(room.deckB),
-  };
+    playheadSec: calcPlayhead(deck),
+    playbackRate: deck.playbackRate,
+    playState: deck.playState,
+    detectedBpm: deck.detectedBpm,
+    loop: getLoopPayload(deck),
+    reverse: deck.reverse,
+    motion: deck.motion,
+  });
 
   const beaconTick: BeaconTickEvent = {
     type: "BEACON_TICK",
@@ -134,8 +141,10 @@ function broadcastBeacon(io: Server, roomId: string): void {
     payload: {
       serverTs,
       version: room.version,
-      deckA,
-      deckB,
+      deckA: buildPayload(room.deckA),
+      deckB: buildPayload(room.deckB),
+      ...(room.deckC && { deckC: buildPayload(room.deckC) }),
+      ...(room.deckD && { deckD: buildPayload(room.deckD) }),
     },
   };
 
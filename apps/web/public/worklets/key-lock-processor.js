@@ -0,0 +1,164 @@
+/**
+ * Key lock processor - pitch correction for tempo-shifted deck audio.
+ *
+ * The deck's buffer source keeps running at the tempo fader's playback rate
+ * (so playhead and epoch math are untouched); this processor shifts the pitch
+ * back by pitchRatio = 1 / playbackRate. Resampling followed by pitch
+ * correction is a time stretch: the tempo changes, the key does not.
+ *
+ * Algorithm (WSOLA-style grain overlap):
+ * - Input is written to a delay line; two read taps sweep across a grain
+ *   window at (1 - pitchRatio) samples per sample, which resamples by pitchRatio
+ * - Taps run half a grain apart with sin² weights, so the weights sum to one
+ *   and each tap is silent at the moment it restarts
+ * - A restarting tap searches SEARCH_RANGE samples around its nominal start for
+ *   the best waveform match with the other tap, avoiding the comb-filter
+ *   "phasiness" of a plain delay-line shifter
+ *
+ * With pitchRatio 1 the processor fades to a straight pass-through.
+ */
+
+/** Grain length in samples (~46ms at 44.1kHz) */
+const GRAIN_SIZE = 2048;
+/** Restart search range around the nominal grain start (samples) */
+const SEARCH_RANGE = 256;
+/** Search step (samples) */
+const SEARCH_STEP = 4;
+/** Samples compared per search candidate */
+const CORRELATION_LENGTH = 256;
+/** Shortest tap delay (samples) */
+const MIN_DELAY = 2;
+/** Delay line length (power of two, longer than the longest delay + correlation) */
+const BUFFER_SIZE = 8192;
+const BUFFER_MASK = BUFFER_SIZE - 1;
+/** Wet/dry crossfade when engaging or bypassing (samples) */
+const FADE_LENGTH = 512;
+/** Ratios this close to 1 are passed through untouched */
+const BYPASS_EPSILON = 1e-4;
+
+class KeyLockProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "pitchRatio",
+        defaultValue: 1,
+        minValue: 0.25,
+        maxValue: 4,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.lines = [new Float32Array(BUFFER_SIZE), new Float32Array(BUFFER_SIZE)];
+    this.writeIndex = 0;
+    this.wetGain = 0;
+    // Sweep progress (0-1) and current delay of each tap
+    this.taps = [
+      { progress: 0, delay: MIN_DELAY + SEARCH_RANGE },
+      { progress: 0.5, delay: MIN_DELAY + SEARCH_RANGE + GRAIN_SIZE / 2 },
+    ];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!output || output.length === 0) return true;
+
+    const frames = output[0].length;
+    const ratio = parameters.pitchRatio[0] ?? 1;
+    const active = Math.abs(ratio - 1) > BYPASS_EPSILON;
+    const inputLeft = input && input.length > 0 ? input[0] : null;
+    const inputRight = input && input.length > 1 ? input[1] : inputLeft;
+    const outputLeft = output[0];
+    const outputRight = output.length > 1 ? output[1] : null;
+
+    const delayStep = 1 - ratio;
+    const progressStep = Math.abs(delayStep) / GRAIN_SIZE;
+
+    for (let i = 0; i < frames; i++) {
+      const dryLeft = inputLeft ? inputLeft[i] : 0;
+      const dryRight = inputRight ? inputRight[i] : 0;
+      this.lines[0][this.writeIndex] = dryLeft;
+      this.lines[1][this.writeIndex] = dryRight;
+
+      // Fade towards the wet signal while shifting, back to dry when bypassed
+      if (active && this.wetGain < 1) {
+        this.wetGain = Math.min(1, this.wetGain + 1 / FADE_LENGTH);
+      } else if (!active && this.wetGain > 0) {
+        this.wetGain = Math.max(0, this.wetGain - 1 / FADE_LENGTH);
+      }
+
+      let wetLeft = 0;
+      let wetRight = 0;
+      if (this.wetGain > 0) {
+        for (let t = 0; t < 2; t++) {
+          const tap = this.taps[t];
+          const weight = Math.sin(Math.PI * tap.progress) ** 2;
+          wetLeft += weight * this.read(0, tap.delay);
+          wetRight += weight * this.read(1, tap.delay);
+
+          if (!active) continue;
+          tap.delay += delayStep;
+          tap.progress += progressStep;
+          if (tap.progress >= 1) {
+            tap.progress -= 1;
+            tap.delay = this.findGrainStart(ratio, this.taps[1 - t].delay);
+          }
+          tap.delay = Math.min(Math.max(tap.delay, MIN_DELAY), BUFFER_SIZE - CORRELATION_LENGTH - 2);
+        }
+      }
+
+      outputLeft[i] = dryLeft + (wetLeft - dryLeft) * this.wetGain;
+      if (outputRight) {
+        outputRight[i] = dryRight + (wetRight - dryRight) * this.wetGain;
+      }
+
+      this.writeIndex = (this.writeIndex + 1) & BUFFER_MASK;
+    }
+
+    return true;
+  }
+
+  /**
+   * Read the delay line with linear interpolation.
+   */
+  read(channel, delay) {
+    const line = this.lines[channel];
+    const position = this.writeIndex - delay;
+    const base = Math.floor(position);
+    const fraction = position - base;
+    const a = line[base & BUFFER_MASK];
+    const b = line[(base + 1) & BUFFER_MASK];
+    return a + (b - a) * fraction;
+  }
+
+  /**
+   * Delay for a restarting tap: its nominal start (short delay when pitching
+   * down, long when pitching up) moved to best match the other tap's waveform.
+   */
+  findGrainStart(ratio, otherDelay) {
+    const nominal = MIN_DELAY + SEARCH_RANGE + (ratio > 1 ? GRAIN_SIZE : 0);
+    const line = this.lines[0];
+    const otherStart = Math.floor(this.writeIndex - otherDelay);
+
+    let bestDelay = nominal;
+    let bestScore = -Infinity;
+    for (let offset = -SEARCH_RANGE; offset <= SEARCH_RANGE; offset += SEARCH_STEP) {
+      const candidateStart = this.writeIndex - (nominal + offset);
+      let score = 0;
+      for (let k = 0; k < CORRELATION_LENGTH; k++) {
+        score +=
+          line[(candidateStart - k) & BUFFER_MASK] * line[(otherStart - k) & BUFFER_MASK];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestDelay = nominal + offset;
+      }
+    }
+    return bestDelay;
+  }
+}
+
+registerProcessor("key-lock-processor", KeyLockProcessor);
@@ -3,17 +3,18 @@
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import Link from "next/link";
-import { VERSION } from "@puid-board/shared";
+import { VERSION, type DeckCount } from "@puid-board/shared";
 import { getUsername, setUsername } from "@/utils/username";
 
 export default function Home() {
   const router = useRouter();
   const [joinCode, setJoinCode] = useState("");
   const [username, setUsernameState] = useState(() => getUsername());
+  const [deckCount, setDeckCount] = useState<DeckCount>(2);
 
   const handleCreateRoom = () => {
     // Navigate to special "create" route which will create a new room
-    router.push(`/room/create`);
+    router.push(deckCount === 4 ? `/room/create?decks=4` : `/room/create`);
   };
 
   const handleJoinRoom = (e: React.FormEvent) => {
@@ -77,6 +78,26 @@ export default function Home() {
       </section>
 
       <section style={{ marginBottom: "1.5rem" }}>
+        <div style={{ display: "flex", gap: "0.5rem", marginBottom: "0.75rem" }}>
+          {([2, 4] as const).map((count) => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => setDeckCount(count)}
+              style={{
+                padding: "0.375rem 0.75rem",
+                fontSize: "0.875rem",
+                background: deckCount === count ? "#1f2937" : "white",
+                color: deckCount === count ? "white" : "#1f2937",
+                border: "1px solid #d1d5db",
+                borderRadius: 6,
+                cursor: "pointer",
+              }}
+            >
+              {count} decks
+            </button>
+          ))}
+        </div>
         <button
           type="button"
           onClick={handleCreateRoom}
@@ -94,7 +115,7 @@ export default function Home() {
           Create Room
         </button>
         <p style={{ fontSize: "0.75rem", color: "#666", marginTop: "0.5rem" }}>
-          Creates a new room and copies the link to share.
+          Creates a new room and copies the link to share. Four decks let two pairs of DJs go back to back.
         </p>
       </section>
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import { useCallback, useRef, useState, useEffect } from "react";
 import { USE_MOCK_ROOM } from "@/dev/featureFlags";
 import { MockRoomProvider, useMockRoom } from "@/dev/MockRoomProvider";
@@ -10,7 +10,12 @@ import { useToasts, ToastContainer } from "@/components/Toast";
 import { useRealtimeRoom } from "@/realtime/useRealtimeRoom";
 import { initAudioEngine } from "@/audio/engine";
 import { getUsername, setUsername } from "@/utils/username";
-import type { ClientMutationEvent, RoomState } from "@puid-board/shared";
+import type {
+  ClientMutationEvent,
+  MemberMonitorSetPayload,
+  MemberRole,
+  RoomState,
+} from "@puid-board/shared";
 import { RoomLoadingScreen } from "../../../components/RoomLoadingScreen";
 
 /** Shared room UI content */
@@ -21,6 +26,8 @@ function RoomContent({
   sendEvent,
   nextSeq,
   sendRename,
+  sendRoleChange,
+  sendMonitor,
 }: {
   state: RoomState;
   clientId: string;
@@ -28,6 +35,8 @@ function RoomContent({
   sendEvent: (e: ClientMutationEvent) => void;
   nextSeq: () => number;
   sendRename?: (newName: string) => void;
+  sendRoleChange?: (targetClientId: string, role: Exclude<MemberRole, "host">) => void;
+  sendMonitor?: (update: MemberMonitorSetPayload) => void;
 }) {
   // Initialize audio on first user interaction (click anywhere)
   useEffect(() => {
@@ -65,6 +74,7 @@ function RoomContent({
         members={state.members}
         clientId={clientId}
         onRename={handleRename}
+        onRoleChange={sendRoleChange}
       />
       {/* Main content area - full width DJ board with integrated queue */}
       <main
@@ -83,6 +93,7 @@ function RoomContent({
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
+          sendMonitor={sendMonitor}
         />
       </main>
     </div>
@@ -102,6 +113,7 @@ function MockRoomContent() {
       latencyMs={latencyMs}
       sendEvent={sendEvent}
       nextSeq={() => room.nextClientSeq()}
+      sendMonitor={(update) => room.setMonitor(state.hostId, update)}
     />
   );
 }
@@ -113,6 +125,8 @@ function RealtimeRoomContent({ roomCode }: { roomCode: string }) {
 
   // If roomCode is "create", we want to create a new room, otherwise join existing
   const isCreating = roomCode.toLowerCase() === "create";
+  const searchParams = useSearchParams();
+  const deckCount = searchParams?.get("decks") === "4" ? 4 : 2;
 
   const { toasts, addToast } = useToasts();
   const clientIdRef = useRef<string | null>(null);
@@ -130,10 +144,11 @@ function RealtimeRoomContent({ roomCode }: { roomCode: string }) {
     addToast({ message: `${p.oldName} is now ${p.newName}`, color: "#9ca3af", type: "rename" });
   }, [addToast]);
 
-  const { state, clientId, latencyMs, status, error, sendEvent, sendRename } = useRealtimeRoom({
+  const { state, clientId, latencyMs, status, error, sendEvent, sendRename, sendRoleChange, sendMonitor } = useRealtimeRoom({
     roomCode: isCreating ? undefined : roomCode,
     name,
     create: isCreating,
+    deckCount,
     autoCreate: false,
     onMemberJoined: handleMemberJoined,
     onMemberLeft: handleMemberLeft,
@@ -376,6 +391,8 @@ function RealtimeRoomContent({ roomCode }: { roomCode: string }) {
         sendEvent={sendEvent}
         nextSeq={nextSeq}
         sendRename={sendRename}
+        sendRoleChange={sendRoleChange}
+        sendMonitor={sendMonitor}
       />
       <ToastContainer toasts={toasts} />
     </>
@@ -17,7 +17,7 @@
 import { PLLController } from "./sync/pll";
 import { getServerTime, getAverageRtt } from "./sync/clock";
 import { Deck } from "./deck";
-import type { DeckBeaconPayload } from "@puid-board/shared";
+import type { DeckBeaconPayload, DeckMotion } from "@puid-board/shared";
 
 /** Loop bounds from beacon */
 interface LoopBounds {
@@ -34,6 +34,8 @@ interface TransportState {
   epochId: string;
   epochSeq: number;
   loop: LoopBounds | null;
+  reverse: boolean;
+  motion: DeckMotion | null;
 }
 
 /**
@@ -57,6 +59,8 @@ export class DeckEngine {
       epochId: "",
       epochSeq: 0,
       loop: null,
+      reverse: false,
+      motion: null,
     };
 
     this.pllController = new PLLController();
@@ -114,6 +118,8 @@ export class DeckEngine {
       epochId: beacon.epochId,
       epochSeq: beacon.epochSeq,
       loop: beacon.loop ?? null,
+      reverse: beacon.reverse,
+      motion: beacon.motion,
     };
 
     this.lastBeaconEpochSeq = beacon.epochSeq;
@@ -129,15 +135,24 @@ export class DeckEngine {
       this.deck.setLoopBounds(null);
     }
 
+    // Direction first, so any restart below plays the right way round
+    this.deck.setReverse(beacon.reverse);
+
     // Sync to Deck
     this.syncToDeck(beacon.playheadSec, beacon.playbackRate, beacon.playState);
+
+    // Brake/spin-back: join the server's ramp where it is now
+    if (beacon.motion && beacon.playState === "playing") {
+      this.deck.startMotion(beacon.motion, getServerTime() - beacon.motion.startTimeMs);
+    }
   }
 
   /**
    * Apply PLL-based drift correction.
    */
   private applyPLLCorrection(beacon: DeckBeaconPayload): void {
-    if (beacon.playState !== "playing") {
+    // Brake/spin-back ramps run open-loop until the server pauses the deck
+    if (beacon.playState !== "playing" || beacon.motion) {
       // Not playing - just update state
       this.state.playState = beacon.playState;
       this.state.playheadSec = beacon.playheadSec;
@@ -152,14 +167,19 @@ export class DeckEngine {
 
     // Account for one-way latency in playhead calculation
     const latencyCompensatedElapsed = elapsedSinceBeacon + oneWayLatencyMs / 1000;
+    const direction = beacon.reverse ? -1 : 1;
     let expectedPlayhead =
-      beacon.playheadSec + latencyCompensatedElapsed * beacon.playbackRate;
+      beacon.playheadSec + latencyCompensatedElapsed * beacon.playbackRate * direction;
 
-    // Apply loop wrapping to expected playhead
+    // Apply loop wrapping to expected playhead (wraps at the start in reverse)
     const loop = beacon.loop;
-    if (loop?.enabled && loop.endSec > loop.startSec && expectedPlayhead >= loop.endSec) {
+    if (loop?.enabled && loop.endSec > loop.startSec) {
       const loopLength = loop.endSec - loop.startSec;
-      expectedPlayhead = loop.startSec + ((expectedPlayhead - loop.startSec) % loopLength);
+      if (!beacon.reverse && expectedPlayhead >= loop.endSec) {
+        expectedPlayhead = loop.startSec + ((expectedPlayhead - loop.startSec) % loopLength);
+      } else if (beacon.reverse && expectedPlayhead <= loop.startSec) {
+        expectedPlayhead = loop.endSec - ((loop.startSec - expectedPlayhead) % loopLength);
+      }
     }
 
     // Update loop state
@@ -168,8 +188,8 @@ export class DeckEngine {
     // Get local playhead from Deck
     const localPlayhead = this.deck.getCurrentPlayhead();
 
-    // Calculate drift (ms)
-    const driftMs = (localPlayhead - expectedPlayhead) * 1000;
+    // Calculate drift (ms), positive when ahead in the direction of play
+    const driftMs = (localPlayhead - expectedPlayhead) * 1000 * direction;
 
     // Feed to PLL
     const { correction, shouldSnap } = this.pllController.addMeasurement(driftMs);
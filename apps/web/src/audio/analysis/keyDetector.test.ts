@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { detectKey, toCamelot } from "./keyDetector";
+
+const SAMPLE_RATE = 44100;
+
+/** Mono buffer playing the given MIDI notes together */
+function createChordBuffer(midiNotes: number[], durationSec = 8): AudioBuffer {
+  const data = new Float32Array(SAMPLE_RATE * durationSec);
+  for (const note of midiNotes) {
+    const frequency = 440 * Math.pow(2, (note - 69) / 12);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (data[i] ?? 0) + Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) / midiNotes.length;
+    }
+  }
+  return {
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: 1,
+    length: data.length,
+    duration: durationSec,
+    getChannelData: () => data,
+  } as unknown as AudioBuffer;
+}
+
+describe("keyDetector", () => {
+  it("maps keys onto the Camelot wheel", () => {
+    expect(toCamelot(0, false)).toBe("8B"); // C major
+    expect(toCamelot(9, true)).toBe("8A"); // A minor
+    expect(toCamelot(7, false)).toBe("9B"); // G major
+    expect(toCamelot(4, true)).toBe("9A"); // E minor
+    expect(toCamelot(5, false)).toBe("7B"); // F major
+    expect(toCamelot(6, false)).toBe("2B"); // F# major
+  });
+
+  it("detects major and minor chords", async () => {
+    // C major triad: C4 E4 G4
+    expect(await detectKey(createChordBuffer([60, 64, 67]))).toBe("8B");
+    // A minor triad: A3 C4 E4
+    expect(await detectKey(createChordBuffer([57, 60, 64]))).toBe("8A");
+  });
+
+  it("returns null for silence", async () => {
+    expect(await detectKey(createChordBuffer([], 2))).toBeNull();
+  });
+});
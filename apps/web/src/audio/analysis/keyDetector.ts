@@ -0,0 +1,211 @@
+/**
+ * Key Detection - musical key estimation for harmonic mixing
+ *
+ * Chromagram approach (Krumhansl-Schmuckler):
+ * 1. Extract mono audio and downsample (key lives well below 2kHz)
+ * 2. Measure the energy of every semitone from C2 to B6 in frames spread
+ *    across the track (Goertzel filters, Hann-windowed)
+ * 3. Fold the semitones into a 12-bin chroma vector
+ * 4. Correlate the chroma against the 24 rotated major/minor key profiles
+ * 5. Report the best match in Camelot notation (e.g. "8A" = A minor)
+ */
+
+import type { CamelotKey } from "@puid-board/shared";
+
+/** Key detection result with confidence score */
+export interface KeyResult {
+  key: CamelotKey;
+  confidence: number; // 0-1, correlation of the winning profile
+}
+
+/** Target rate after downsampling (covers B6 at ~1976Hz) */
+const TARGET_SAMPLE_RATE = 5512;
+/** Analysis frame length in downsampled samples (~0.75s) */
+const FRAME_SIZE = 4096;
+/** Frames analyzed per track, spread evenly across it */
+const MAX_FRAMES = 120;
+/** Lowest analyzed note: C2 (MIDI 36) */
+const LOWEST_MIDI_NOTE = 36;
+/** Five octaves: C2 to B6 */
+const SEMITONE_COUNT = 60;
+/** Below this correlation the chroma doesn't look tonal enough to report */
+const MIN_CONFIDENCE = 0.3;
+
+/** Krumhansl-Kessler probe-tone profiles, starting at the tonic */
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * Detect the musical key of an audio buffer.
+ *
+ * @param buffer - The audio buffer to analyze
+ * @returns Camelot key (e.g. "8A") or null if the audio isn't tonal enough
+ */
+export async function detectKey(buffer: AudioBuffer): Promise<CamelotKey | null> {
+  const result = await detectKeyWithConfidence(buffer);
+  if (!result) {
+    console.log("[Key Detector] No key detected");
+    return null;
+  }
+  console.log(
+    `[Key Detector] Detected key ${result.key} (confidence ${result.confidence.toFixed(2)})`
+  );
+  return result.key;
+}
+
+/**
+ * Detect the musical key with a confidence score.
+ */
+export async function detectKeyWithConfidence(buffer: AudioBuffer): Promise<KeyResult | null> {
+  const { data, sampleRate } = downsample(extractMonoChannel(buffer), buffer.sampleRate);
+  if (data.length < FRAME_SIZE) return null;
+
+  const chroma = computeChroma(data, sampleRate);
+  if (chroma.every((value) => value === 0)) return null;
+
+  let best: { tonic: number; minor: boolean; score: number } | null = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const minor of [false, true]) {
+      const profile = minor ? MINOR_PROFILE : MAJOR_PROFILE;
+      const score = correlate(chroma, (i) => profile[(i - tonic + 12) % 12] ?? 0);
+      if (!best || score > best.score) best = { tonic, minor, score };
+    }
+  }
+
+  if (!best || best.score < MIN_CONFIDENCE) return null;
+  return { key: toCamelot(best.tonic, best.minor), confidence: best.score };
+}
+
+/**
+ * Camelot notation for a key: major keys are "B", minor keys "A".
+ * Neighbouring wheel numbers are a fifth apart; relative keys share a number.
+ *
+ * @param tonic - Pitch class of the tonic (0 = C, 9 = A)
+ */
+export function toCamelot(tonic: number, minor: boolean): CamelotKey {
+  // A minor shares its number with its relative major, three semitones up
+  const majorTonic = minor ? (tonic + 3) % 12 : tonic;
+  // C major is 8B; each fifth up moves one step clockwise
+  const number = ((majorTonic * 7) % 12 + 7) % 12 + 1;
+  return `${number}${minor ? "A" : "B"}`;
+}
+
+/**
+ * Extract mono channel by averaging all channels
+ */
+function extractMonoChannel(buffer: AudioBuffer): Float32Array {
+  const { numberOfChannels, length } = buffer;
+  if (numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mono = new Float32Array(length);
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      mono[i] = (mono[i] ?? 0) + (data[i] ?? 0) / numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Downsample by block averaging (doubles as a crude low-pass filter)
+ */
+function downsample(
+  data: Float32Array,
+  sampleRate: number
+): { data: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / TARGET_SAMPLE_RATE));
+  if (factor === 1) return { data, sampleRate };
+
+  const result = new Float32Array(Math.floor(data.length / factor));
+  for (let i = 0; i < result.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += data[i * factor + j] ?? 0;
+    }
+    result[i] = sum / factor;
+  }
+  return { data: result, sampleRate: sampleRate / factor };
+}
+
+/**
+ * Sum semitone energies over frames spread across the track into 12 pitch classes.
+ * Each frame is normalized so loud passages don't dominate the result.
+ */
+function computeChroma(data: Float32Array, sampleRate: number): number[] {
+  const chroma = new Array<number>(12).fill(0);
+  const frameCount = Math.min(MAX_FRAMES, Math.floor(data.length / FRAME_SIZE));
+  const step = Math.floor((data.length - FRAME_SIZE) / Math.max(1, frameCount - 1));
+
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+  }
+
+  const frame = new Float32Array(FRAME_SIZE);
+  const energies = new Array<number>(SEMITONE_COUNT);
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * step;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      frame[i] = (data[start + i] ?? 0) * (window[i] ?? 0);
+    }
+
+    let frameTotal = 0;
+    for (let s = 0; s < SEMITONE_COUNT; s++) {
+      const midi = LOWEST_MIDI_NOTE + s;
+      const frequency = 440 * Math.pow(2, (midi - 69) / 12);
+      const energy = goertzel(frame, frequency, sampleRate);
+      energies[s] = energy;
+      frameTotal += energy;
+    }
+    if (frameTotal === 0) continue; // Silent frame
+
+    for (let s = 0; s < SEMITONE_COUNT; s++) {
+      const pitchClass = (LOWEST_MIDI_NOTE + s) % 12;
+      chroma[pitchClass] = (chroma[pitchClass] ?? 0) + (energies[s] ?? 0) / frameTotal;
+    }
+  }
+
+  return chroma;
+}
+
+/**
+ * Energy of a single frequency in a frame (Goertzel algorithm)
+ */
+function goertzel(frame: Float32Array, frequency: number, sampleRate: number): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let prev = 0;
+  let prev2 = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const current = (frame[i] ?? 0) + coeff * prev - prev2;
+    prev2 = prev;
+    prev = current;
+  }
+  return prev * prev + prev2 * prev2 - coeff * prev * prev2;
+}
+
+/**
+ * Pearson correlation between the chroma and a (rotated) key profile
+ */
+function correlate(chroma: number[], profileAt: (pitchClass: number) => number): number {
+  let chromaMean = 0;
+  let profileMean = 0;
+  for (let i = 0; i < 12; i++) {
+    chromaMean += (chroma[i] ?? 0) / 12;
+    profileMean += profileAt(i) / 12;
+  }
+
+  let covariance = 0;
+  let chromaVariance = 0;
+  let profileVariance = 0;
+  for (let i = 0; i < 12; i++) {
+    const c = (chroma[i] ?? 0) - chromaMean;
+    const p = profileAt(i) - profileMean;
+    covariance += c * p;
+    chromaVariance += c * c;
+    profileVariance += p * p;
+  }
+
+  if (chromaVariance === 0 || profileVariance === 0) return 0;
+  return covariance / Math.sqrt(chromaVariance * profileVariance);
+}
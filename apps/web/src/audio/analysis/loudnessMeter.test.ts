@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { measureLoudness } from "./loudnessMeter";
+
+const SAMPLE_RATE = 48000;
+
+/** Buffer with the same sine on every channel */
+function createSineBuffer(
+  frequency: number,
+  amplitude: number,
+  { channels = 1, durationSec = 5, phase = 0 } = {}
+): AudioBuffer {
+  const data = new Float32Array(SAMPLE_RATE * durationSec);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase);
+  }
+  return {
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: channels,
+    length: data.length,
+    duration: durationSec,
+    getChannelData: () => data,
+  } as unknown as AudioBuffer;
+}
+
+describe("loudnessMeter", () => {
+  it("reads a full-scale 997Hz sine at -3.01 LUFS per channel", async () => {
+    // BS.1770 reference: 0 dBFS 997Hz in one channel reads -3.01 LKFS
+    const mono = await measureLoudness(createSineBuffer(997, 1));
+    expect(mono?.lufs).toBeCloseTo(-3.01, 1);
+    expect(mono?.truePeakDb).toBeCloseTo(0, 1);
+
+    // Half amplitude in both channels: -6 dB, +3 dB for the second channel
+    const stereo = await measureLoudness(createSineBuffer(997, 0.5, { channels: 2 }));
+    expect(stereo?.lufs).toBeCloseTo(-6.03, 1);
+  });
+
+  it("finds peaks between samples", async () => {
+    // A quarter-rate sine 45° off the sample grid never lands on its peak:
+    // every sample is at ±0.707, 3dB under the true peak
+    const buffer = createSineBuffer(SAMPLE_RATE / 4, 1, { durationSec: 1, phase: Math.PI / 4 });
+    const loudness = await measureLoudness(buffer);
+    expect(loudness?.truePeakDb).toBeGreaterThan(-0.2);
+  });
+
+  it("returns null for silence", async () => {
+    expect(await measureLoudness(createSineBuffer(997, 0))).toBeNull();
+  });
+});
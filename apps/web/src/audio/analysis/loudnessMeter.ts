@@ -0,0 +1,235 @@
+/**
+ * Loudness Meter - integrated loudness and true peak for auto trim
+ *
+ * ITU-R BS.1770-4 / EBU R128:
+ * 1. K-weight every channel (high shelf + high pass, coefficients derived
+ *    for the buffer's sample rate)
+ * 2. Sum the mean square over 400ms blocks overlapping by 75%
+ * 3. Gate: drop blocks under -70 LUFS, then blocks more than 10 LU under
+ *    the loudness of what's left
+ * 4. Integrated loudness = loudness of the blocks that pass both gates
+ *
+ * True peak: 4x oversampling (windowed-sinc interpolation) around the
+ * loudest samples, where inter-sample peaks can land.
+ */
+
+import type { TrackLoudness } from "@puid-board/shared";
+
+/** Gating block length (seconds) */
+const BLOCK_SEC = 0.4;
+/** Blocks overlap by 75%: a new block every 100ms */
+const STEPS_PER_BLOCK = 4;
+/** Absolute gate (LUFS) */
+const ABSOLUTE_GATE_LUFS = -70;
+/** Relative gate (LU under the absolute-gated loudness) */
+const RELATIVE_GATE_LU = 10;
+/** Channels measured (front left/right; surround weights aren't needed for DJ tracks) */
+const MAX_CHANNELS = 2;
+/** True peak oversampling factor */
+const OVERSAMPLE = 4;
+/** Interpolation taps either side of an inter-sample point */
+const INTERPOLATION_TAPS = 12;
+/** Only samples within this of the sample peak are oversampled (linear, ~-3dB) */
+const TRUE_PEAK_SEARCH_RATIO = 0.7;
+/** True peak reported for digital silence (dBTP) */
+const SILENT_PEAK_DB = -100;
+
+/** Biquad coefficients (a0 normalized to 1) */
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * Measure the integrated loudness and true peak of an audio buffer.
+ *
+ * @param buffer - The audio buffer to analyze
+ * @returns Loudness, or null for silence (nothing passes the absolute gate)
+ */
+export async function measureLoudness(buffer: AudioBuffer): Promise<TrackLoudness | null> {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < Math.min(buffer.numberOfChannels, MAX_CHANNELS); c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  const lufs = measureIntegratedLoudness(channels, buffer.sampleRate);
+  if (lufs === null) {
+    console.log("[Loudness Meter] Silent track, no loudness");
+    return null;
+  }
+
+  const truePeakDb = measureTruePeakDb(channels);
+  console.log(
+    `[Loudness Meter] ${lufs.toFixed(1)} LUFS, true peak ${truePeakDb.toFixed(1)} dBTP`
+  );
+  return {
+    lufs: Math.max(-70, Math.min(10, lufs)),
+    truePeakDb: Math.max(-100, Math.min(20, truePeakDb)),
+  };
+}
+
+/**
+ * Gated integrated loudness (LUFS), or null if every block is under the
+ * absolute gate.
+ */
+export function measureIntegratedLoudness(
+  channels: Float32Array[],
+  sampleRate: number
+): number | null {
+  const stepLength = Math.round((BLOCK_SEC / STEPS_PER_BLOCK) * sampleRate);
+  const blockLength = stepLength * STEPS_PER_BLOCK;
+  const length = channels[0]?.length ?? 0;
+  if (length < blockLength) return null;
+
+  // Sum of K-weighted squares per 100ms step, across channels
+  const stepCount = Math.floor(length / stepLength);
+  const stepEnergy = new Float64Array(stepCount);
+  const [shelf, highPass] = getKWeightingFilters(sampleRate);
+  for (const data of channels) {
+    const weighted = applyBiquad(applyBiquad(data, shelf), highPass);
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      const start = step * stepLength;
+      for (let i = start; i < start + stepLength; i++) {
+        const sample = weighted[i] ?? 0;
+        sum += sample * sample;
+      }
+      stepEnergy[step] = (stepEnergy[step] ?? 0) + sum;
+    }
+  }
+
+  // Mean square of each 400ms block (four consecutive steps)
+  const blocks: number[] = [];
+  for (let step = 0; step + STEPS_PER_BLOCK <= stepCount; step++) {
+    let sum = 0;
+    for (let s = step; s < step + STEPS_PER_BLOCK; s++) {
+      sum += stepEnergy[s] ?? 0;
+    }
+    blocks.push(sum / blockLength);
+  }
+
+  const absoluteGated = blocks.filter((z) => toLoudness(z) > ABSOLUTE_GATE_LUFS);
+  if (absoluteGated.length === 0) return null;
+
+  const relativeGate = toLoudness(mean(absoluteGated)) - RELATIVE_GATE_LU;
+  const gated = absoluteGated.filter((z) => toLoudness(z) > relativeGate);
+  return toLoudness(mean(gated));
+}
+
+/**
+ * True peak (dBTP): the highest of the sample peak and the 4x-oversampled
+ * points between the loudest samples.
+ */
+export function measureTruePeakDb(channels: Float32Array[]): number {
+  let samplePeak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      samplePeak = Math.max(samplePeak, Math.abs(data[i] ?? 0));
+    }
+  }
+  if (samplePeak === 0) return SILENT_PEAK_DB;
+
+  const kernels = getInterpolationKernels();
+  const threshold = samplePeak * TRUE_PEAK_SEARCH_RATIO;
+  let truePeak = samplePeak;
+
+  for (const data of channels) {
+    for (let n = 0; n < data.length - 1; n++) {
+      if (Math.abs(data[n] ?? 0) < threshold && Math.abs(data[n + 1] ?? 0) < threshold) continue;
+
+      for (const kernel of kernels) {
+        let value = 0;
+        for (let t = 0; t < kernel.length; t++) {
+          value += (data[n - INTERPOLATION_TAPS + 1 + t] ?? 0) * (kernel[t] ?? 0);
+        }
+        truePeak = Math.max(truePeak, Math.abs(value));
+      }
+    }
+  }
+
+  return 20 * Math.log10(truePeak);
+}
+
+/**
+ * BS.1770 K-weighting filters for a sample rate: a +4dB high shelf (head
+ * effects) followed by a ~38Hz high pass (RLB weighting).
+ */
+function getKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: Biquad = {
+    b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+    b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  // Stage 2: high pass
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (passK * passK - 1)) / passA0,
+    a2: (1 - passK / passQ + passK * passK) / passA0,
+  };
+
+  return [shelf, highPass];
+}
+
+/** Run a biquad (direct form I) over a signal */
+function applyBiquad(data: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const out = new Float32Array(data.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const x = data[i] ?? 0;
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    out[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return out;
+}
+
+/**
+ * Hann-windowed sinc kernels for the points 1/4, 2/4 and 3/4 of the way
+ * from one sample to the next.
+ */
+function getInterpolationKernels(): Float64Array[] {
+  const kernels: Float64Array[] = [];
+  const width = INTERPOLATION_TAPS * 2;
+  for (let phase = 1; phase < OVERSAMPLE; phase++) {
+    const offset = phase / OVERSAMPLE;
+    const kernel = new Float64Array(width);
+    for (let t = 0; t < width; t++) {
+      // Distance from the interpolated point to tap t
+      const x = t - (INTERPOLATION_TAPS - 1) - offset;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / INTERPOLATION_TAPS);
+      kernel[t] = sinc * window;
+    }
+    kernels.push(kernel);
+  }
+  return kernels;
+}
+
+/** Loudness (LUFS) of a mean square */
+function toLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { BandWaveformSchema } from "@puid-board/shared";
+import { computeBandWaveform, getBandEnergies } from "./waveformGenerator";
+
+const SAMPLE_RATE = 44100;
+
+/** Mono sine samples at the given frequency */
+function sine(frequency: number, durationSec: number): Float32Array {
+  const data = new Float32Array(SAMPLE_RATE * durationSec);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return data;
+}
+
+/** Mean of a band's energies, skipping the first bucket (filter settling) */
+function mean(values: number[]): number {
+  const rest = values.slice(1);
+  return rest.reduce((sum, v) => sum + v, 0) / rest.length;
+}
+
+describe("band waveform", () => {
+  it("produces one bucket per band per time slice, scaled to 0-255", () => {
+    const bands = computeBandWaveform(sine(440, 2), SAMPLE_RATE, 40);
+    expect(bands.low).toHaveLength(80);
+    expect(bands.mid).toHaveLength(80);
+    expect(bands.high).toHaveLength(80);
+    expect(Math.max(...bands.low, ...bands.mid, ...bands.high)).toBe(255);
+    expect(BandWaveformSchema.safeParse(bands).success).toBe(true);
+  });
+
+  it("puts bass in the low band and hats in the high band", () => {
+    const bass = computeBandWaveform(sine(60, 1), SAMPLE_RATE, 40);
+    expect(mean(bass.low)).toBeGreaterThan(mean(bass.mid) * 2);
+    expect(mean(bass.low)).toBeGreaterThan(mean(bass.high) * 2);
+
+    const hats = computeBandWaveform(sine(8000, 1), SAMPLE_RATE, 40);
+    expect(mean(hats.high)).toBeGreaterThan(mean(hats.mid) * 2);
+    expect(mean(hats.high)).toBeGreaterThan(mean(hats.low) * 2);
+  });
+
+  it("takes the peak energy over a time range", () => {
+    const bands = { bucketsPerSecond: 10, low: [0, 51, 255, 0], mid: [255, 0, 0, 0], high: [0, 0, 0, 102] };
+    expect(getBandEnergies(bands, 0.1, 0.3)).toEqual({ low: 1, mid: 0, high: 0 });
+    expect(getBandEnergies(bands, 0.3, 0.4)).toEqual({ low: 0, mid: 0, high: 0.4 });
+    // Ranges shorter than a bucket still read that bucket
+    expect(getBandEnergies(bands, 0.11, 0.12)).toEqual({ low: 0.2, mid: 0, high: 0 });
+    // Past the end of the track
+    expect(getBandEnergies(bands, 5, 6)).toEqual({ low: 0, mid: 0, high: 0 });
+  });
+
+  it("rejects band arrays of different lengths", () => {
+    expect(BandWaveformSchema.safeParse({ bucketsPerSecond: 40, low: [1, 2], mid: [1], high: [1, 2] }).success).toBe(
+      false
+    );
+  });
+});
@@ -1,3 +1,5 @@
+import { BAND_WAVEFORM_RATE, type BandWaveform } from "@puid-board/shared";
+
 export interface WaveformData {
   peaks: Float32Array;
   sampleRate: number;
@@ -59,6 +61,105 @@ export function generateWaveform(
   };
 }
 
+/** Crossover between the low and mid bands (Hz) */
+const LOW_MID_CROSSOVER_HZ = 200;
+
+/** Crossover between the mid and high bands (Hz) */
+const MID_HIGH_CROSSOVER_HZ = 2000;
+
+/**
+ * Generate the three-band waveform (low/mid/high energy) from an AudioBuffer.
+ * @param buffer - The audio buffer to analyze
+ * @param bucketsPerSecond - Time resolution (default: BAND_WAVEFORM_RATE)
+ */
+export function generateBandWaveform(
+  buffer: AudioBuffer,
+  bucketsPerSecond: number = BAND_WAVEFORM_RATE
+): BandWaveform {
+  return computeBandWaveform(extractMonoChannel(buffer), buffer.sampleRate, bucketsPerSecond);
+}
+
+/**
+ * Split mono samples into low/mid/high bands with one-pole crossovers and
+ * take the RMS of each band per bucket. Energies are scaled together (the
+ * loudest bucket of any band is 255), so the bands stay comparable.
+ */
+export function computeBandWaveform(
+  samples: Float32Array,
+  sampleRate: number,
+  bucketsPerSecond: number
+): BandWaveform {
+  const bucketCount = Math.ceil((samples.length / sampleRate) * bucketsPerSecond);
+  const samplesPerBucket = sampleRate / bucketsPerSecond;
+  const lowAlpha = 1 - Math.exp((-2 * Math.PI * LOW_MID_CROSSOVER_HZ) / sampleRate);
+  const midAlpha = 1 - Math.exp((-2 * Math.PI * MID_HIGH_CROSSOVER_HZ) / sampleRate);
+
+  const rms = [new Float32Array(bucketCount), new Float32Array(bucketCount), new Float32Array(bucketCount)];
+  let lowState = 0;
+  let midState = 0;
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.round(bucket * samplesPerBucket);
+    const end = Math.min(Math.round((bucket + 1) * samplesPerBucket), samples.length);
+    let lowSum = 0;
+    let midSum = 0;
+    let highSum = 0;
+
+    for (let i = start; i < end; i++) {
+      const x = samples[i] ?? 0;
+      lowState += lowAlpha * (x - lowState);
+      midState += midAlpha * (x - midState);
+      const mid = midState - lowState;
+      const high = x - midState;
+      lowSum += lowState * lowState;
+      midSum += mid * mid;
+      highSum += high * high;
+    }
+
+    const count = Math.max(1, end - start);
+    rms[0]![bucket] = Math.sqrt(lowSum / count);
+    rms[1]![bucket] = Math.sqrt(midSum / count);
+    rms[2]![bucket] = Math.sqrt(highSum / count);
+  }
+
+  let max = 0;
+  for (const band of rms) {
+    for (const value of band) max = Math.max(max, value);
+  }
+  const quantize = (band: Float32Array) =>
+    Array.from(band, (value) => (max > 0 ? Math.round((value / max) * 255) : 0));
+
+  return {
+    bucketsPerSecond,
+    low: quantize(rms[0]!),
+    mid: quantize(rms[1]!),
+    high: quantize(rms[2]!),
+  };
+}
+
+/**
+ * Peak band energies (0-1) over a time range.
+ * Used to colour the overview bars and the zoomed view's columns.
+ */
+export function getBandEnergies(
+  bands: BandWaveform,
+  startSec: number,
+  endSec: number
+): { low: number; mid: number; high: number } {
+  const first = Math.max(0, Math.floor(startSec * bands.bucketsPerSecond));
+  const last = Math.min(bands.low.length, Math.max(first + 1, Math.ceil(endSec * bands.bucketsPerSecond)));
+
+  let low = 0;
+  let mid = 0;
+  let high = 0;
+  for (let i = first; i < last; i++) {
+    low = Math.max(low, bands.low[i] ?? 0);
+    mid = Math.max(mid, bands.mid[i] ?? 0);
+    high = Math.max(high, bands.high[i] ?? 0);
+  }
+  return { low: low / 255, mid: mid / 255, high: high / 255 };
+}
+
 /**
  * Extract mono channel from audio buffer (mix stereo to mono if needed)
  */
@@ -8,10 +8,14 @@
  * - Connect to the mixer chain
  */
 
+import { getDeckMotionDistance, SPINBACK_SPEED, type BandWaveform, type CamelotKey, type DeckId, type DeckMotion, type TrackLoudness } from "@puid-board/shared";
 import { getAudioContext, initAudioEngine } from "./engine";
 import { getDeckInput, initMixerGraph } from "./mixerGraph";
-import { generateWaveform, WaveformData } from "./analysis/waveformGenerator";
+import { generateBandWaveform, generateWaveform, WaveformData } from "./analysis/waveformGenerator";
 import { detectBPM } from "./analysis/bpmDetector";
+import { detectKey } from "./analysis/keyDetector";
+import { measureLoudness } from "./analysis/loudnessMeter";
+import { createKeyLockNode, getKeyLockPitchRatio } from "./keyLock";
 
 /** Deck play state */
 export type DeckPlayState = "stopped" | "playing" | "paused" | "cued";
@@ -33,7 +37,7 @@ export interface LoadingState {
 
 /** Deck state */
 export interface DeckState {
-  deckId: "A" | "B";
+  deckId: DeckId;
   trackId: string | null;
   buffer: AudioBuffer | null;
   playState: DeckPlayState;
@@ -45,8 +49,6 @@ export interface DeckState {
   startOffset: number;
   /** Cue point position in seconds */
   cuePointSec: number;
-  /** Hot cue point position in seconds (for performance pad) */
-  hotCuePointSec: number | null;
   /** Track duration in seconds */
   durationSec: number;
   /** Gain node for this deck */
@@ -57,10 +59,24 @@ export interface DeckState {
   source: AudioBufferSourceNode | null;
   /** Current playback rate (1.0 = normal) */
   playbackRate: number;
+  /** Key lock (master tempo): keep the track's pitch when the rate changes */
+  keyLock: boolean;
+  /** Pitch-correcting worklet node, created when key lock is first enabled */
+  keyLockNode: AudioWorkletNode | null;
+  /** Reverse playback (buffered tracks play a reversed copy of the buffer) */
+  reverse: boolean;
+  /** Brake or spin-back in progress (from the server), null otherwise */
+  motion: DeckMotion | null;
   /** Audio analysis data */
   analysis: {
     waveform: WaveformData | null;
+    /** Three-band waveform for the zoomed view */
+    bands: BandWaveform | null;
     bpm: number | null;
+    /** Musical key in Camelot notation */
+    key: CamelotKey | null;
+    /** Integrated loudness and true peak */
+    loudness: TrackLoudness | null;
     status: AnalysisStatus;
   };
   /** Whether using streaming audio element (for YouTube) */
@@ -76,6 +92,27 @@ export interface DeckState {
 /** Track loading cache (avoid re-fetching) */
 const trackCache = new Map<string, AudioBuffer>();
 
+/** Three-band waveform cache by track ID (generated once, or from the server cache) */
+const bandCache = new Map<string, BandWaveform>();
+
+/** Reversed copies of decoded buffers (built on first reverse play) */
+const reversedBufferCache = new WeakMap<AudioBuffer, AudioBuffer>();
+
+/** Reversed copy of a buffer (sample order flipped on every channel) */
+function getReversedBuffer(ctx: BaseAudioContext, buffer: AudioBuffer): AudioBuffer {
+  let reversed = reversedBufferCache.get(buffer);
+  if (!reversed) {
+    reversed = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = new Float32Array(buffer.getChannelData(channel));
+      data.reverse();
+      reversed.copyToChannel(data, channel);
+    }
+    reversedBufferCache.set(buffer, reversed);
+  }
+  return reversed;
+}
+
 /** State listeners */
 type DeckStateListener = (state: DeckState) => void;
 
@@ -89,8 +126,10 @@ export class Deck {
   private currentAnalysisId: number = 0;
   /** Active loop bounds (set by DeckEngine from server state) */
   private loopBounds: { startSec: number; endSec: number } | null = null;
+  /** AudioContext time the current brake/spin-back started at */
+  private motionStartTime = 0;
 
-  constructor(deckId: "A" | "B") {
+  constructor(deckId: DeckId) {
     this.state = {
       deckId,
       trackId: null,
@@ -100,15 +139,21 @@ export class Deck {
       startTime: null,
       startOffset: 0,
       cuePointSec: 0,
-      hotCuePointSec: null,
       durationSec: 0,
       gainNode: null,
       analyser: null,
       source: null,
       playbackRate: 1.0,
+      keyLock: false,
+      keyLockNode: null,
+      reverse: false,
+      motion: null,
       analysis: {
         waveform: null,
+        bands: null,
         bpm: null,
+        key: null,
+        loudness: null,
         status: "idle",
       },
       isStreaming: false,
@@ -134,6 +179,7 @@ export class Deck {
       audioElement: this.state.audioElement,
       mediaSource: this.state.mediaSource,
       analyser: this.state.analyser,
+      keyLockNode: this.state.keyLockNode,
     };
   }
 
@@ -157,7 +203,7 @@ export class Deck {
 
   /**
    * Initialize gain node and analyser (connect to mixer graph).
-   * Signal chain: source → analyser → gainNode → mixerInput
+   * Signal chain: source → [keyLockNode →] analyser → gainNode → mixerInput
    */
   private ensureGainNode(): GainNode | null {
     const ctx = getAudioContext();
@@ -194,6 +240,53 @@ export class Deck {
     return this.state.gainNode;
   }
 
+  /**
+   * Node buffer sources connect to: the key lock node when key lock is on,
+   * otherwise the analyser (or gainNode if there is no analyser).
+   */
+  private getSourceOutput(gainNode: GainNode): AudioNode {
+    if (this.state.keyLock && this.state.keyLockNode) {
+      return this.state.keyLockNode;
+    }
+    return this.state.analyser || gainNode;
+  }
+
+  /**
+   * Point the key lock node's pitch correction at a source playback rate.
+   */
+  private updateKeyLockPitch(rate: number, timeConstant?: number): void {
+    const ctx = getAudioContext();
+    const pitchRatio = this.state.keyLockNode?.parameters.get("pitchRatio");
+    if (!ctx || !pitchRatio) return;
+
+    const value = getKeyLockPitchRatio(rate, this.state.keyLock);
+    if (timeConstant !== undefined) {
+      pitchRatio.setTargetAtTime(value, ctx.currentTime, timeConstant);
+    } else {
+      pitchRatio.setValueAtTime(value, ctx.currentTime);
+    }
+  }
+
+  /**
+   * Whether the source plays the reversed buffer: in reverse, or during a
+   * spin-back (which always runs backwards).
+   */
+  private isBackwards(): boolean {
+    return this.state.motion ? this.state.motion.kind === "spinback" || this.state.reverse : this.state.reverse;
+  }
+
+  /**
+   * Buffer and start offset for a source playing from a track position.
+   * Backwards playback reads the reversed copy from the mirrored offset.
+   */
+  private getSourceBuffer(ctx: BaseAudioContext, buffer: AudioBuffer, positionSec: number): {
+    buffer: AudioBuffer;
+    offset: number;
+  } {
+    if (!this.isBackwards()) return { buffer, offset: positionSec };
+    return { buffer: getReversedBuffer(ctx, buffer), offset: Math.max(0, buffer.duration - positionSec) };
+  }
+
   /**
    * Load a track by URL.
    */
@@ -292,7 +385,14 @@ export class Deck {
       this.state.trackId = trackId; // Set track ID immediately for display
       this.state.durationSec = 0;
       this.state.playheadSec = 0;
-      this.state.analysis = { waveform: null, bpm: null, status: "idle" };
+      this.state.analysis = {
+        waveform: null,
+        bands: bandCache.get(trackId) ?? null,
+        bpm: null,
+        key: null,
+        loudness: null,
+        status: "idle",
+      };
 
       // Stage 1: Extracting (backend yt-dlp is running ~10s)
       this.state.loading = { stage: "extracting", progress: 0, error: null };
@@ -413,7 +513,14 @@ export class Deck {
       this.state.trackId = trackId;
       this.state.durationSec = 0;
       this.state.playheadSec = 0;
-      this.state.analysis = { waveform: null, bpm: null, status: "idle" };
+      this.state.analysis = {
+        waveform: null,
+        bands: bandCache.get(trackId) ?? null,
+        bpm: null,
+        key: null,
+        loudness: null,
+        status: "idle",
+      };
 
       // Update state - track is immediately playable!
       this.state.buffer = buffer;
@@ -476,7 +583,6 @@ export class Deck {
     this.state.durationSec = buffer.duration;
     this.state.playheadSec = 0;
     this.state.cuePointSec = 0;
-    this.state.hotCuePointSec = null;
     this.state.playState = "stopped";
 
     this.analyzeAudio(buffer);
@@ -485,7 +591,7 @@ export class Deck {
   }
 
   /**
-   * Analyze audio buffer for waveform and BPM.
+   * Analyze audio buffer for waveform, BPM and key.
    */
   private async analyzeAudio(buffer: AudioBuffer): Promise<void> {
     // Cancel any previous analysis by incrementing the ID
@@ -497,17 +603,25 @@ export class Deck {
     console.log(`[deck-${this.state.deckId}] Buffer length: ${buffer.length} samples`);
     console.log(`[deck-${this.state.deckId}] Track ID: ${this.state.trackId}`);
 
+    const trackId = this.state.trackId;
+    const cachedBands = trackId ? bandCache.get(trackId) ?? null : null;
+
     // Set analyzing status
     this.state.analysis = {
       status: "analyzing",
       waveform: null,
+      bands: cachedBands,
       bpm: null,
+      key: null,
+      loudness: null,
     };
     this.notify();
 
     try {
-      // Generate waveform (synchronous, fast)
+      // Generate waveforms (synchronous, fast); the band waveform only once per track
       const waveform = generateWaveform(buffer, 480);
+      const bands = cachedBands ?? generateBandWaveform(buffer);
+      if (trackId) bandCache.set(trackId, bands);
 
       if (this.currentAnalysisId !== analysisId) {
         if (this.state.analysis.status === "analyzing") {
@@ -520,6 +634,7 @@ export class Deck {
       this.state.analysis = {
         ...this.state.analysis,
         waveform,
+        bands,
       };
       this.notify();
       // Detect BPM
@@ -530,11 +645,37 @@ export class Deck {
       this.state.analysis = {
         ...this.state.analysis,
         bpm,
-        status: "complete",
       };
       this.notify();
 
       console.log(`[deck-${this.state.deckId}] BPM detected: ${bpm ?? "N/A"}`);
+
+      // Detect key
+      const key = await detectKey(buffer);
+
+      if (this.currentAnalysisId !== analysisId) return; // Cancelled
+
+      this.state.analysis = {
+        ...this.state.analysis,
+        key,
+      };
+      this.notify();
+
+      console.log(`[deck-${this.state.deckId}] Key detected: ${key ?? "N/A"}`);
+
+      // Measure loudness (drives the channel's auto trim)
+      const loudness = await measureLoudness(buffer);
+
+      if (this.currentAnalysisId !== analysisId) return; // Cancelled
+
+      this.state.analysis = {
+        ...this.state.analysis,
+        loudness,
+        status: "complete",
+      };
+      this.notify();
+
+      console.log(`[deck-${this.state.deckId}] Loudness: ${loudness ? `${loudness.lufs.toFixed(1)} LUFS` : "N/A"}`);
     } catch (error) {
       // Check if cancelled before setting error
       if (this.currentAnalysisId !== analysisId) {
@@ -563,11 +704,17 @@ export class Deck {
 
     if (this.state.playState === "playing" && this.state.startTime !== null) {
       const ctx = getAudioContext();
+      if (ctx && this.state.motion) {
+        // Brake/spin-back: same ramp the server runs
+        const elapsedMs = (ctx.currentTime - this.motionStartTime) * 1000;
+        const distance = getDeckMotionDistance(this.state.motion, this.state.playbackRate, this.state.reverse, elapsedMs);
+        return Math.max(0, Math.min(this.state.motion.startSec + distance, this.state.durationSec));
+      }
       if (ctx) {
         const elapsed = ctx.currentTime - this.state.startTime;
         // Playback rate affects how much audio time passes per real time
-        const adjustedElapsed = elapsed * this.state.playbackRate;
-        return Math.min(this.state.startOffset + adjustedElapsed, this.state.durationSec);
+        const adjustedElapsed = elapsed * this.state.playbackRate * (this.state.reverse ? -1 : 1);
+        return Math.max(0, Math.min(this.state.startOffset + adjustedElapsed, this.state.durationSec));
       }
     }
     return this.state.playheadSec;
@@ -626,6 +773,7 @@ export class Deck {
       const audio = this.state.audioElement;
       audio.currentTime = this.state.playheadSec;
       audio.playbackRate = this.state.playbackRate;
+      audio.preservesPitch = this.state.keyLock;
 
       try {
         await audio.play();
@@ -656,15 +804,14 @@ export class Deck {
     this.stopSource();
 
     // Create new buffer source
-    // Connect: source → analyser → gainNode → mixerInput
+    // Connect: source → [keyLockNode →] analyser → gainNode → mixerInput
+    const offset = this.state.playheadSec;
     const source = ctx.createBufferSource();
-    source.buffer = this.state.buffer;
+    const playback = this.getSourceBuffer(ctx, this.state.buffer, offset);
+    source.buffer = playback.buffer;
     source.playbackRate.value = this.state.playbackRate;
-    if (this.state.analyser) {
-      source.connect(this.state.analyser);
-    } else {
-      source.connect(gainNode);
-    }
+    source.connect(this.getSourceOutput(gainNode));
+    this.updateKeyLockPitch(this.state.playbackRate);
 
     // Store reference for closure comparison
     const thisSource = source;
@@ -684,8 +831,7 @@ export class Deck {
     };
 
     // Start from current playhead
-    const offset = this.state.playheadSec;
-    source.start(0, offset);
+    source.start(0, playback.offset);
 
     this.state.source = source;
     this.state.startTime = ctx.currentTime;
@@ -792,83 +938,69 @@ export class Deck {
   }
 
   /**
-   * Set hot cue point at current playhead position.
+   * Jump to a hot cue position and start playing.
+   * Hot cues live in server state; this only previews the jump locally.
    */
-  setHotCue(): void {
-    const currentPlayhead = this.getCurrentPlayhead();
-    this.state.hotCuePointSec = Math.max(0, Math.min(currentPlayhead, this.state.durationSec));
-    console.log(`[HOT_CUE] Deck ${this.state.deckId}: Hot cue SET at ${this.state.hotCuePointSec.toFixed(2)}s`);
-    this.notify();
-    console.log(`[HOT_CUE] Deck ${this.state.deckId}: State notified, hotCuePointSec=${this.state.hotCuePointSec.toFixed(2)}s`);
-  }
-
-  /**
-   * Jump to hot cue point and start playing.
-   * If no hot cue is set, does nothing.
-   */
-  async jumpToHotCue(): Promise<void> {
-    console.log(`[HOT_CUE] Deck ${this.state.deckId}: jumpToHotCue called, hotCuePointSec=${this.state.hotCuePointSec}`);
-
-    if (this.state.hotCuePointSec === null) {
-      console.warn(`[HOT_CUE] Deck ${this.state.deckId}: Cannot jump - no hot cue set`);
-      return;
-    }
-
+  async jumpToHotCue(positionSec: number): Promise<void> {
+    const target = Math.max(0, Math.min(positionSec, this.state.durationSec));
     const currentRate = this.state.playbackRate;
 
     // Handle streaming playback (YouTube)
     if (this.state.isStreaming && this.state.audioElement) {
-      this.state.audioElement.currentTime = this.state.hotCuePointSec;
-      this.state.playheadSec = this.state.hotCuePointSec;
+      this.state.audioElement.currentTime = target;
+      this.state.playheadSec = target;
       await this.play();
-      console.log(`[deck-${this.state.deckId}] Jumped to hot cue at ${this.state.hotCuePointSec.toFixed(2)}s (streaming)`);
+      console.log(`[deck-${this.state.deckId}] Jumped to hot cue at ${target.toFixed(2)}s (streaming)`);
       return;
     }
 
     // Seek to hot cue position
-    this.state.playheadSec = this.state.hotCuePointSec;
+    this.state.playheadSec = target;
     this.stopSource();
 
-    console.log(`[HOT_CUE] Deck ${this.state.deckId}: Jumping to ${this.state.hotCuePointSec.toFixed(2)}s and starting playback`);
-
     // Always start playing after jumping to hot cue (full override)
     await this.playWithRate(currentRate);
 
-    console.log(`[HOT_CUE] Deck ${this.state.deckId}: Jump complete, now playing from ${this.state.hotCuePointSec.toFixed(2)}s`);
-  }
-
-  /**
-   * Set hot cue point to a specific position (from server state sync).
-   */
-  setHotCuePosition(positionSec: number | null): void {
-    this.state.hotCuePointSec = positionSec;
-    this.notify();
-  }
-
-  /**
-   * Clear hot cue point.
-   */
-  clearHotCue(): void {
-    this.state.hotCuePointSec = null;
-    this.notify();
-    console.log(`[deck-${this.state.deckId}] Hot cue cleared`);
+    console.log(`[deck-${this.state.deckId}] Jumped to hot cue at ${target.toFixed(2)}s`);
   }
 
   /**
    * Apply pre-computed analysis data from server cache.
    * Used when joining a room where another client already analyzed the track.
    */
-  setAnalysisFromCache(bpm: number, waveform: WaveformData | null): void {
+  setAnalysisFromCache(
+    bpm: number,
+    waveform: WaveformData | null,
+    key: CamelotKey | null = null,
+    loudness: TrackLoudness | null = null
+  ): void {
     if (this.state.analysis.bpm !== null) return; // Already analyzed locally
     if (this.state.analysis.status === "analyzing") return; // Analysis in progress
 
     this.state.analysis = {
       bpm,
       waveform,
+      bands: this.state.analysis.bands,
+      key,
+      loudness,
       status: "complete",
     };
     this.notify();
-    console.log(`[deck-${this.state.deckId}] Applied cached analysis: BPM=${bpm}`);
+    console.log(`[deck-${this.state.deckId}] Applied cached analysis: BPM=${bpm} key=${key ?? "N/A"}`);
+  }
+
+  /**
+   * Apply a three-band waveform from the server cache.
+   * Kept for the track so analysis doesn't generate it again.
+   */
+  setBandsFromCache(trackId: string, bands: BandWaveform): void {
+    if (bandCache.has(trackId)) return;
+    bandCache.set(trackId, bands);
+
+    if (this.state.trackId === trackId && !this.state.analysis.bands) {
+      this.state.analysis = { ...this.state.analysis, bands };
+      this.notify();
+    }
   }
 
   /**
@@ -959,6 +1091,7 @@ export class Deck {
 
       // Apply rate change immediately (no ramp - causes sync issues)
       this.state.source.playbackRate.value = clampedRate;
+      this.updateKeyLockPitch(clampedRate);
       
       console.log(`[deck-${this.state.deckId}] Rate changed: ${previousRate.toFixed(3)} -> ${clampedRate.toFixed(3)} at position ${currentPosition.toFixed(2)}s`);
     } else {
@@ -985,15 +1118,14 @@ export class Deck {
     this.stopSource();
 
     // Create new buffer source
-    // Connect: source → analyser → gainNode → mixerInput
+    // Connect: source → [keyLockNode →] analyser → gainNode → mixerInput
+    const offset = this.state.playheadSec;
     const source = ctx.createBufferSource();
-    source.buffer = this.state.buffer;
+    const playback = this.getSourceBuffer(ctx, this.state.buffer, offset);
+    source.buffer = playback.buffer;
     source.playbackRate.value = rate;
-    if (this.state.analyser) {
-      source.connect(this.state.analyser);
-    } else {
-      source.connect(gainNode);
-    }
+    source.connect(this.getSourceOutput(gainNode));
+    this.updateKeyLockPitch(rate);
 
     // Store reference for closure comparison
     const thisSource = source;
@@ -1012,8 +1144,7 @@ export class Deck {
     };
 
     // Start from current playhead
-    const offset = this.state.playheadSec;
-    source.start(0, offset);
+    source.start(0, playback.offset);
 
     this.state.source = source;
     this.state.startTime = ctx.currentTime;
@@ -1052,8 +1183,8 @@ export class Deck {
     const crossfadeSec = crossfadeMs / 1000;
     const targetPosition = Math.max(0, Math.min(positionSec, this.state.durationSec));
 
-    // Determine output node (analyser if available, otherwise gainNode)
-    const outputNode = this.state.analyser || gainNode;
+    // Determine output node (key lock node, analyser or gainNode)
+    const outputNode = this.getSourceOutput(gainNode);
 
     // Create a temporary gain node for crossfade
     const oldSource = this.state.source;
@@ -1063,7 +1194,8 @@ export class Deck {
 
     // Create new source at target position
     const newSource = ctx.createBufferSource();
-    newSource.buffer = this.state.buffer;
+    const playback = this.getSourceBuffer(ctx, this.state.buffer, targetPosition);
+    newSource.buffer = playback.buffer;
     newSource.playbackRate.value = currentRate;
 
     const fadeInGain = ctx.createGain();
@@ -1082,7 +1214,7 @@ export class Deck {
     }
 
     // Start new source
-    newSource.start(0, targetPosition);
+    newSource.start(0, playback.offset);
 
     // Crossfade
     const now = ctx.currentTime;
@@ -1127,8 +1259,8 @@ export class Deck {
       if (this.state.source === sourceAtCleanupTime) {
         try {
           newSource.disconnect();
-          // Connect to analyser if available, otherwise gainNode
-          const finalOutput = this.state.analyser || gainNode;
+          // Connect to the current source output
+          const finalOutput = this.getSourceOutput(gainNode);
           newSource.connect(finalOutput);
           fadeInGain.disconnect();
         } catch {
@@ -1156,6 +1288,83 @@ export class Deck {
     this.notify();
   }
 
+  /**
+   * Play forwards or backwards. A playing buffered deck turns around where it
+   * is; streaming audio elements can't play backwards and ignore it.
+   */
+  setReverse(enabled: boolean): void {
+    if (this.state.reverse === enabled) return;
+
+    if (this.state.isStreaming) {
+      console.warn(`[deck-${this.state.deckId}] Reverse needs a decoded buffer, ignored for streaming audio`);
+      return;
+    }
+
+    const wasPlaying = this.state.playState === "playing" && this.state.source !== null;
+    const position = this.getCurrentPlayhead();
+    this.state.reverse = enabled;
+    this.state.playheadSec = position;
+
+    if (wasPlaying) {
+      // Temporarily set to paused so onended doesn't reset playhead
+      this.state.playState = "paused";
+      this.playWithRate(this.state.playbackRate);
+    } else {
+      this.notify();
+    }
+    console.log(`[deck-${this.state.deckId}] ${enabled ? "Reverse" : "Forward"} from ${position.toFixed(2)}s`);
+  }
+
+  /**
+   * Run a brake or spin-back ramp started by the server elapsedMs ago.
+   * The source's rate ramps linearly to zero; the server pauses the deck
+   * when the ramp ends.
+   */
+  startMotion(motion: DeckMotion, elapsedMs: number = 0): void {
+    const ctx = getAudioContext();
+    const gainNode = this.ensureGainNode();
+    if (!ctx || !gainNode || !this.state.buffer || this.state.isStreaming || this.state.playState !== "playing") {
+      return;
+    }
+
+    const durationSec = motion.durationMs / 1000;
+    const elapsedSec = Math.max(0, Math.min(elapsedMs / 1000, durationSec));
+    const startRate = motion.kind === "spinback" ? SPINBACK_SPEED * this.state.playbackRate : this.state.playbackRate;
+    const position = Math.max(
+      0,
+      Math.min(
+        motion.startSec + getDeckMotionDistance(motion, this.state.playbackRate, this.state.reverse, elapsedSec * 1000),
+        this.state.durationSec
+      )
+    );
+
+    // Replace the source (stopSource clears any previous motion)
+    this.state.playState = "paused";
+    this.stopSource();
+    this.state.motion = motion;
+    this.motionStartTime = ctx.currentTime - elapsedSec;
+
+    const source = ctx.createBufferSource();
+    const playback = this.getSourceBuffer(ctx, this.state.buffer, position);
+    source.buffer = playback.buffer;
+    source.connect(this.getSourceOutput(gainNode));
+
+    // Linear ramp from where the server's ramp is now down to a standstill
+    const now = ctx.currentTime;
+    source.playbackRate.setValueAtTime(startRate * (1 - elapsedSec / durationSec), now);
+    source.playbackRate.linearRampToValueAtTime(0, now + (durationSec - elapsedSec));
+    source.start(0, playback.offset);
+
+    this.state.source = source;
+    this.state.startTime = now;
+    this.state.startOffset = position;
+    this.state.playheadSec = position;
+    this.state.playState = "playing";
+    this.startPlayheadUpdate();
+    this.notify();
+    console.log(`[deck-${this.state.deckId}] ${motion.kind} over ${motion.durationMs}ms from ${position.toFixed(2)}s`);
+  }
+
   /**
    * Reset playback rate to normal (1.0).
    */
@@ -1163,6 +1372,58 @@ export class Deck {
     this.setPlaybackRate(1.0);
   }
 
+  /**
+   * Enable or disable key lock (master tempo).
+   * The source keeps playing at the tempo fader's rate, so the playhead is
+   * unaffected; only the pitch correction after it is switched in or out.
+   */
+  async setKeyLock(enabled: boolean): Promise<void> {
+    if (this.state.keyLock === enabled) return;
+    this.state.keyLock = enabled;
+
+    // Streaming audio elements have pitch preservation built in
+    if (this.state.audioElement) {
+      this.state.audioElement.preservesPitch = enabled;
+    }
+
+    if (enabled && !this.state.keyLockNode) {
+      try {
+        await initAudioEngine();
+      } catch (err) {
+        console.error(`[deck-${this.state.deckId}] Failed to initialize audio:`, err);
+        return;
+      }
+
+      const ctx = getAudioContext();
+      const gainNode = this.ensureGainNode();
+      if (!ctx || !gainNode) return;
+
+      const node = await createKeyLockNode(ctx);
+      if (!node || this.state.keyLockNode) {
+        node?.disconnect();
+      } else {
+        // Connect: keyLockNode → analyser → gainNode
+        node.connect(this.state.analyser || gainNode);
+        this.state.keyLockNode = node;
+      }
+    }
+
+    // Re-route the playing source through (or around) the key lock node
+    const gainNode = this.state.gainNode;
+    if (this.state.source && gainNode) {
+      try {
+        this.state.source.disconnect();
+        this.state.source.connect(this.getSourceOutput(gainNode));
+      } catch {
+        // Source may already be stopped
+      }
+    }
+    this.updateKeyLockPitch(this.state.playbackRate);
+
+    console.log(`[deck-${this.state.deckId}] Key lock ${this.state.keyLock ? "on" : "off"}`);
+    this.notify();
+  }
+
   /**
    * Scrub/scratch the audio - directly move the playhead.
    * Used for vinyl mode scratching on jog wheel center platter.
@@ -1198,15 +1459,12 @@ export class Deck {
       this.stopSource();
 
       // Create new buffer source at new position
-      // Connect: source → analyser → gainNode → mixerInput
+      // Connect: source → [keyLockNode →] analyser → gainNode → mixerInput
       const source = ctx.createBufferSource();
-      source.buffer = this.state.buffer;
+      const playback = this.getSourceBuffer(ctx, this.state.buffer, newPosition);
+      source.buffer = playback.buffer;
       source.playbackRate.value = this.state.playbackRate;
-      if (this.state.analyser) {
-        source.connect(this.state.analyser);
-      } else {
-        source.connect(gainNode);
-      }
+      source.connect(this.getSourceOutput(gainNode));
 
       // Store reference for closure comparison
       const thisSource = source;
@@ -1225,7 +1483,7 @@ export class Deck {
       };
 
       // Start from new position
-      source.start(0, newPosition);
+      source.start(0, playback.offset);
 
       this.state.source = source;
       this.state.startTime = ctx.currentTime;
@@ -1266,6 +1524,7 @@ export class Deck {
     const ctx = getAudioContext();
     if (ctx && this.state.source && this.state.playState === "playing") {
       this.state.source.playbackRate.setValueAtTime(tempRate, ctx.currentTime);
+      this.updateKeyLockPitch(tempRate);
     }
   }
 
@@ -1281,6 +1540,7 @@ export class Deck {
         ctx.currentTime,
         0.05 // Quick but smooth return
       );
+      this.updateKeyLockPitch(this.state.playbackRate, 0.05);
     }
   }
 
@@ -1307,6 +1567,8 @@ export class Deck {
       this.state.source = null;
     }
     this.state.startTime = null;
+    // A new source (or none) ends any brake/spin-back ramp
+    this.state.motion = null;
   }
 
   /**
@@ -1320,13 +1582,17 @@ export class Deck {
     const update = () => {
       if (this.state.playState === "playing") {
         let playhead = this.getCurrentPlayhead();
-        // Loop enforcement: wrap playhead when it exceeds loop end
-        if (this.loopBounds && playhead >= this.loopBounds.endSec) {
+        // Loop enforcement: wrap playhead when it exceeds loop end (or start, in reverse)
+        if (this.loopBounds && !this.state.motion) {
           const loopLength = this.loopBounds.endSec - this.loopBounds.startSec;
-          if (loopLength > 0) {
+          if (loopLength > 0 && !this.state.reverse && playhead >= this.loopBounds.endSec) {
             const newPlayhead = this.loopBounds.startSec + ((playhead - this.loopBounds.startSec) % loopLength);
             this.seek(newPlayhead);
             playhead = newPlayhead;
+          } else if (loopLength > 0 && this.state.reverse && playhead <= this.loopBounds.startSec) {
+            const newPlayhead = this.loopBounds.endSec - ((this.loopBounds.startSec - playhead) % loopLength);
+            this.seek(newPlayhead);
+            playhead = newPlayhead;
           }
         }
         this.state.playheadSec = playhead;
@@ -1418,6 +1684,11 @@ export class Deck {
       this.state.analyser = null;
     }
     
+    if (this.state.keyLockNode) {
+      this.state.keyLockNode.disconnect();
+      this.state.keyLockNode = null;
+    }
+
     if (this.state.gainNode) {
       this.state.gainNode.disconnect();
       this.state.gainNode = null;
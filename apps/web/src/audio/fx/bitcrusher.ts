@@ -0,0 +1,139 @@
+/**
+ * Bitcrusher FX - amplitude quantization plus a closing low-pass.
+ *
+ * Parameter maps to bit depth (16 bits at 0 down to 2 bits at 1).
+ * The low-pass follows the depth to mimic a falling sample rate.
+ */
+
+import type { FxState } from "@puid-board/shared";
+import type { FXProcessor, FXParamInfo } from "./types";
+import { setParamSmooth } from "../params";
+
+/** Bit depth range */
+const MAX_BITS = 16;
+const MIN_BITS = 2;
+
+/** Low-pass cutoff range in Hz (at MAX_BITS and MIN_BITS) */
+const MAX_CUTOFF = 20000;
+const MIN_CUTOFF = 3000;
+
+/** Shaper curve resolution (finer than this is transparent anyway) */
+const CURVE_SIZE = 4096;
+
+/**
+ * Map param to bit depth.
+ */
+export function paramToBits(param: number): number {
+  const clamped = Math.max(0, Math.min(1, param));
+  return Math.round(MAX_BITS - clamped * (MAX_BITS - MIN_BITS));
+}
+
+/**
+ * Build a staircase shaper curve quantizing [-1, 1] to 2^bits levels.
+ */
+export function createCrushCurve(bits: number): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(CURVE_SIZE);
+  const levels = Math.pow(2, bits - 1);
+  for (let i = 0; i < CURVE_SIZE; i++) {
+    const x = (i / (CURVE_SIZE - 1)) * 2 - 1;
+    curve[i] = Math.round(x * levels) / levels;
+  }
+  return curve;
+}
+
+export class BitcrusherFX implements FXProcessor {
+  readonly type = "bitcrusher" as const;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private shaper: WaveShaperNode;
+  private lowpass: BiquadFilterNode;
+  private wetGain: GainNode;
+  private dryGain: GainNode;
+  private enabled = true;
+  private currentParam = 0.5;
+  private currentBits = paramToBits(0.5);
+  private currentWetDry = 0.5;
+
+  constructor(ctx: AudioContext) {
+    // Create nodes
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.shaper = ctx.createWaveShaper();
+    this.lowpass = ctx.createBiquadFilter();
+    this.wetGain = ctx.createGain();
+    this.dryGain = ctx.createGain();
+
+    // Set initial values
+    this.shaper.curve = createCrushCurve(this.currentBits);
+    this.lowpass.type = "lowpass";
+    this.lowpass.frequency.value = this.bitsToCutoff(this.currentBits);
+    this.wetGain.gain.value = 0.5;
+    this.dryGain.gain.value = 0.5;
+
+    // Dry path: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // Wet path: input → shaper → lowpass → wetGain → output
+    this.input.connect(this.shaper);
+    this.shaper.connect(this.lowpass);
+    this.lowpass.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+  }
+
+  private bitsToCutoff(bits: number): number {
+    const t = (bits - MIN_BITS) / (MAX_BITS - MIN_BITS);
+    return Math.exp(Math.log(MIN_CUTOFF) + t * (Math.log(MAX_CUTOFF) - Math.log(MIN_CUTOFF)));
+  }
+
+  setWetDry(value: number): void {
+    const wet = Math.max(0, Math.min(1, value));
+    this.currentWetDry = wet;
+    setParamSmooth(this.wetGain.gain, this.enabled ? wet : 0);
+    setParamSmooth(this.dryGain.gain, this.enabled ? 1 - wet : 1);
+  }
+
+  setParam(value: number): void {
+    this.currentParam = Math.max(0, Math.min(1, value));
+    const bits = paramToBits(this.currentParam);
+    // Rebuilding the curve is only needed when the depth actually changes
+    if (bits !== this.currentBits) {
+      this.currentBits = bits;
+      this.shaper.curve = createCrushCurve(bits);
+    }
+    setParamSmooth(this.lowpass.frequency, this.bitsToCutoff(bits));
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    // Disabled: full dry, no wet; enabled: restore wet/dry mix
+    const wet = enabled ? this.currentWetDry : 0;
+    setParamSmooth(this.wetGain.gain, wet);
+    setParamSmooth(this.dryGain.gain, 1 - wet);
+  }
+
+  applyState(state: FxState): void {
+    // Always update the stored wet/dry value first, even when disabled
+    this.currentWetDry = state.wetDry;
+
+    this.setEnabled(state.enabled);
+    this.setParam(state.param);
+  }
+
+  getParamInfo(): FXParamInfo {
+    return {
+      label: "Depth",
+      displayValue: this.currentBits.toString(),
+      unit: "bit",
+    };
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.shaper.disconnect();
+    this.lowpass.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    this.output.disconnect();
+  }
+}
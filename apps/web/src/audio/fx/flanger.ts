@@ -0,0 +1,137 @@
+/**
+ * Flanger FX - short modulated delay with feedback.
+ *
+ * Parameter maps to the sweep cycle length in beats (1 - 32),
+ * locked to the BPM of the assigned deck.
+ */
+
+import type { FxState } from "@puid-board/shared";
+import type { FXProcessor, FXParamInfo } from "./types";
+import { setParamSmooth } from "../params";
+import { DEFAULT_FX_BPM, beatsToSeconds, formatBeats, paramToBeats } from "./tempo";
+
+/** Sweep cycle lengths in beats */
+const CYCLE_BEATS = [1, 2, 4, 8, 16, 32] as const;
+
+/** Centre delay and sweep depth in seconds */
+const BASE_DELAY = 0.003;
+const SWEEP_DEPTH = 0.002;
+
+/** Feedback amount (fixed for simplicity) */
+const FEEDBACK = 0.5;
+
+export class FlangerFX implements FXProcessor {
+  readonly type = "flanger" as const;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private delayNode: DelayNode;
+  private feedbackGain: GainNode;
+  private lfo: OscillatorNode;
+  private lfoDepth: GainNode;
+  private wetGain: GainNode;
+  private dryGain: GainNode;
+  private enabled = true;
+  private currentParam = 0.5;
+  private currentWetDry = 0.5;
+  private bpm = DEFAULT_FX_BPM;
+
+  constructor(ctx: AudioContext) {
+    // Create nodes
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.delayNode = ctx.createDelay(0.02);
+    this.feedbackGain = ctx.createGain();
+    this.lfo = ctx.createOscillator();
+    this.lfoDepth = ctx.createGain();
+    this.wetGain = ctx.createGain();
+    this.dryGain = ctx.createGain();
+
+    // Set initial values
+    this.delayNode.delayTime.value = BASE_DELAY;
+    this.feedbackGain.gain.value = FEEDBACK;
+    this.lfo.type = "triangle";
+    this.lfo.frequency.value = this.getLfoFrequency();
+    this.lfoDepth.gain.value = SWEEP_DEPTH;
+    this.wetGain.gain.value = 0.5;
+    this.dryGain.gain.value = 0.5;
+
+    // Dry path: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // Wet path: input → delay → wetGain → output
+    this.input.connect(this.delayNode);
+    this.delayNode.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // Feedback loop: delay → feedback → delay
+    this.delayNode.connect(this.feedbackGain);
+    this.feedbackGain.connect(this.delayNode);
+
+    // Sweep: LFO → depth → delay time
+    this.lfo.connect(this.lfoDepth);
+    this.lfoDepth.connect(this.delayNode.delayTime);
+    this.lfo.start();
+  }
+
+  private getCycleBeats(): number {
+    return paramToBeats(this.currentParam, CYCLE_BEATS);
+  }
+
+  private getLfoFrequency(): number {
+    return 1 / beatsToSeconds(this.getCycleBeats(), this.bpm);
+  }
+
+  setWetDry(value: number): void {
+    const wet = Math.max(0, Math.min(1, value));
+    this.currentWetDry = wet;
+    setParamSmooth(this.wetGain.gain, this.enabled ? wet : 0);
+    setParamSmooth(this.dryGain.gain, this.enabled ? 1 - wet : 1);
+  }
+
+  setParam(value: number): void {
+    this.currentParam = Math.max(0, Math.min(1, value));
+    setParamSmooth(this.lfo.frequency, this.getLfoFrequency());
+  }
+
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    setParamSmooth(this.lfo.frequency, this.getLfoFrequency());
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    // Disabled: full dry, no wet; enabled: restore wet/dry mix
+    const wet = enabled ? this.currentWetDry : 0;
+    setParamSmooth(this.wetGain.gain, wet);
+    setParamSmooth(this.dryGain.gain, 1 - wet);
+  }
+
+  applyState(state: FxState): void {
+    // Always update the stored wet/dry value first, even when disabled
+    this.currentWetDry = state.wetDry;
+
+    this.setEnabled(state.enabled);
+    this.setParam(state.param);
+  }
+
+  getParamInfo(): FXParamInfo {
+    return {
+      label: "Cycle",
+      displayValue: formatBeats(this.getCycleBeats()),
+      unit: "beats",
+    };
+  }
+
+  dispose(): void {
+    this.lfo.stop();
+    this.lfo.disconnect();
+    this.lfoDepth.disconnect();
+    this.input.disconnect();
+    this.delayNode.disconnect();
+    this.feedbackGain.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    this.output.disconnect();
+  }
+}
@@ -1,4 +1,15 @@
 import { describe, it, expect } from "vitest";
+import { FxTypeSchema } from "@puid-board/shared";
+import type { RoomState } from "@puid-board/shared";
+import { createInitialRoomState } from "../../dev/mockRoom";
+import {
+  DEFAULT_FX_BPM,
+  beatsToSeconds,
+  formatBeats,
+  getFxUnitBpm,
+  paramToBeats,
+} from "./tempo";
+import { createCrushCurve, paramToBits } from "./bitcrusher";
 
 describe("FX module", () => {
   describe("Echo FX", () => {
@@ -102,10 +113,10 @@ describe("FX module", () => {
   });
 
   describe("FX types", () => {
-    const FX_TYPES = ["none", "echo", "reverb", "filter"];
+    const FX_TYPES = FxTypeSchema.options;
 
-    it("has 4 FX types", () => {
-      expect(FX_TYPES).toHaveLength(4);
+    it("has 9 FX types", () => {
+      expect(FX_TYPES).toHaveLength(9);
     });
 
     it("includes none for bypass", () => {
@@ -116,6 +127,80 @@ describe("FX module", () => {
       expect(FX_TYPES).toContain("echo");
       expect(FX_TYPES).toContain("reverb");
       expect(FX_TYPES).toContain("filter");
+      expect(FX_TYPES).toContain("flanger");
+      expect(FX_TYPES).toContain("phaser");
+      expect(FX_TYPES).toContain("bitcrusher");
+      expect(FX_TYPES).toContain("gate");
+      expect(FX_TYPES).toContain("pingpong");
+    });
+  });
+
+  describe("Bitcrusher FX", () => {
+    it("maps param 0 to 16 bits and param 1 to 2 bits", () => {
+      expect(paramToBits(0)).toBe(16);
+      expect(paramToBits(1)).toBe(2);
+    });
+
+    it("quantizes the curve to the bit depth", () => {
+      const curve = createCrushCurve(2);
+      // 2 bits → steps of 1/2 across [-1, 1]
+      expect(new Set(Array.from(curve)).size).toBe(5);
+      expect(curve[0]).toBe(-1);
+      expect(curve[curve.length - 1]).toBe(1);
+    });
+  });
+
+  describe("Tempo sync", () => {
+    const DIVISIONS = [0.125, 0.25, 0.5, 1];
+
+    it("splits the param range into equal steps per division", () => {
+      expect(paramToBeats(0, DIVISIONS)).toBe(0.125);
+      expect(paramToBeats(0.3, DIVISIONS)).toBe(0.25);
+      expect(paramToBeats(0.6, DIVISIONS)).toBe(0.5);
+      expect(paramToBeats(1, DIVISIONS)).toBe(1);
+    });
+
+    it("converts beats to seconds at a BPM", () => {
+      expect(beatsToSeconds(1, 120)).toBeCloseTo(0.5);
+      expect(beatsToSeconds(0.25, 128)).toBeCloseTo(0.1171875);
+    });
+
+    it("formats divisions as fractions", () => {
+      expect(formatBeats(0.125)).toBe("1/8");
+      expect(formatBeats(0.375)).toBe("3/8");
+      expect(formatBeats(0.75)).toBe("3/4");
+      expect(formatBeats(2)).toBe("2");
+    });
+
+    function createRoom(): RoomState {
+      const state = createInitialRoomState("room-1", "ABCD");
+      state.deckA = { ...state.deckA, detectedBpm: 128, playbackRate: 1, playState: "playing" };
+      state.deckB = { ...state.deckB, detectedBpm: 100, playbackRate: 1.1, playState: "playing" };
+      return state;
+    }
+
+    it("follows the assigned deck's effective BPM", () => {
+      const state = createRoom();
+      expect(getFxUnitBpm(state, { ...state.mixer.fx1, assign: "A" })).toBe(128);
+      expect(getFxUnitBpm(state, { ...state.mixer.fx1, assign: "B" })).toBeCloseTo(110);
+    });
+
+    it("returns null when the assigned deck has no BPM", () => {
+      const state = createRoom();
+      state.deckA = { ...state.deckA, detectedBpm: null };
+      expect(getFxUnitBpm(state, { ...state.mixer.fx1, assign: "A" })).toBeNull();
+      expect(DEFAULT_FX_BPM).toBe(120);
+    });
+
+    it("follows the loudest playing deck when assigned to master", () => {
+      const state = createRoom();
+      const master = { ...state.mixer.fx1, assign: "master" as const };
+
+      state.mixer = { ...state.mixer, crossfader: 0 };
+      expect(getFxUnitBpm(state, master)).toBe(128);
+
+      state.mixer = { ...state.mixer, crossfader: 1 };
+      expect(getFxUnitBpm(state, master)).toBeCloseTo(110);
     });
   });
 });
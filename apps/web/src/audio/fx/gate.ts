@@ -0,0 +1,131 @@
+/**
+ * Trance Gate FX - rhythmic on/off chopping of the signal.
+ *
+ * Parameter maps to the gate cycle length in beats (1/8 - 1),
+ * locked to the BPM of the assigned deck.
+ */
+
+import type { FxState } from "@puid-board/shared";
+import type { FXProcessor, FXParamInfo } from "./types";
+import { setParamSmooth } from "../params";
+import { DEFAULT_FX_BPM, beatsToSeconds, formatBeats, paramToBeats } from "./tempo";
+
+/** Gate cycle lengths in beats (one open + one closed half per cycle) */
+const CYCLE_BEATS = [0.125, 0.25, 0.5, 1] as const;
+
+/** Edge smoothing cutoff in Hz (avoids clicks on the square wave) */
+const EDGE_SMOOTHING = 120;
+
+export class GateFX implements FXProcessor {
+  readonly type = "gate" as const;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private gateGain: GainNode;
+  private lfo: OscillatorNode;
+  private edgeFilter: BiquadFilterNode;
+  private lfoDepth: GainNode;
+  private wetGain: GainNode;
+  private dryGain: GainNode;
+  private enabled = true;
+  private currentParam = 0.5;
+  private currentWetDry = 0.5;
+  private bpm = DEFAULT_FX_BPM;
+
+  constructor(ctx: AudioContext) {
+    // Create nodes
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.gateGain = ctx.createGain();
+    this.lfo = ctx.createOscillator();
+    this.edgeFilter = ctx.createBiquadFilter();
+    this.lfoDepth = ctx.createGain();
+    this.wetGain = ctx.createGain();
+    this.dryGain = ctx.createGain();
+
+    // Square LFO (±1) scaled to ±0.5 around 0.5 gives a 0 → 1 gate
+    this.gateGain.gain.value = 0.5;
+    this.lfo.type = "square";
+    this.lfo.frequency.value = this.getLfoFrequency();
+    this.edgeFilter.type = "lowpass";
+    this.edgeFilter.frequency.value = EDGE_SMOOTHING;
+    this.lfoDepth.gain.value = 0.5;
+    this.wetGain.gain.value = 0.5;
+    this.dryGain.gain.value = 0.5;
+
+    // Dry path: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // Wet path: input → gate → wetGain → output
+    this.input.connect(this.gateGain);
+    this.gateGain.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // Modulation: LFO → edge smoothing → depth → gate gain
+    this.lfo.connect(this.edgeFilter);
+    this.edgeFilter.connect(this.lfoDepth);
+    this.lfoDepth.connect(this.gateGain.gain);
+    this.lfo.start();
+  }
+
+  private getCycleBeats(): number {
+    return paramToBeats(this.currentParam, CYCLE_BEATS);
+  }
+
+  private getLfoFrequency(): number {
+    return 1 / beatsToSeconds(this.getCycleBeats(), this.bpm);
+  }
+
+  setWetDry(value: number): void {
+    const wet = Math.max(0, Math.min(1, value));
+    this.currentWetDry = wet;
+    setParamSmooth(this.wetGain.gain, this.enabled ? wet : 0);
+    setParamSmooth(this.dryGain.gain, this.enabled ? 1 - wet : 1);
+  }
+
+  setParam(value: number): void {
+    this.currentParam = Math.max(0, Math.min(1, value));
+    setParamSmooth(this.lfo.frequency, this.getLfoFrequency());
+  }
+
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    setParamSmooth(this.lfo.frequency, this.getLfoFrequency());
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    // Disabled: full dry, no wet; enabled: restore wet/dry mix
+    const wet = enabled ? this.currentWetDry : 0;
+    setParamSmooth(this.wetGain.gain, wet);
+    setParamSmooth(this.dryGain.gain, 1 - wet);
+  }
+
+  applyState(state: FxState): void {
+    // Always update the stored wet/dry value first, even when disabled
+    this.currentWetDry = state.wetDry;
+
+    this.setEnabled(state.enabled);
+    this.setParam(state.param);
+  }
+
+  getParamInfo(): FXParamInfo {
+    return {
+      label: "Rate",
+      displayValue: formatBeats(this.getCycleBeats()),
+      unit: "beats",
+    };
+  }
+
+  dispose(): void {
+    this.lfo.stop();
+    this.lfo.disconnect();
+    this.edgeFilter.disconnect();
+    this.lfoDepth.disconnect();
+    this.input.disconnect();
+    this.gateGain.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    this.output.disconnect();
+  }
+}
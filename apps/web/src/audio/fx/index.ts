@@ -3,4 +3,10 @@ export * from "./types";
 export * from "./echo";
 export * from "./reverb";
 export * from "./filter";
+export * from "./flanger";
+export * from "./phaser";
+export * from "./bitcrusher";
+export * from "./gate";
+export * from "./pingpong";
+export * from "./tempo";
 export * from "./manager";
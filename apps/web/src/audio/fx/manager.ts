@@ -1,20 +1,29 @@
 /**
  * FX Manager - handles FX processor lifecycle and routing.
- * 
+ *
  * Manages creating, switching, and disposing of FX processors.
+ * Each FX unit (fx1, fx2) owns its own input/output pair and an ordered
+ * chain of up to three processors (input → slot 0 → slot 1 → slot 2 → output);
+ * where a unit sits in the signal path is decided by the mixer graph.
  */
 
-import type { FxType, FxState } from "@puid-board/shared";
+import type { FxChainType, FxUnitId, FxUnitState } from "@puid-board/shared";
 import type { FXProcessor, FXParamInfo } from "./types";
 import { EchoFX } from "./echo";
 import { ReverbFX } from "./reverb";
 import { FilterFX } from "./filter";
+import { FlangerFX } from "./flanger";
+import { PhaserFX } from "./phaser";
+import { BitcrusherFX } from "./bitcrusher";
+import { GateFX } from "./gate";
+import { PingPongFX } from "./pingpong";
+import { DEFAULT_FX_BPM } from "./tempo";
 import { getAudioContext } from "../engine";
 
 /**
  * Create an FX processor for the given type.
  */
-function createFXProcessor(ctx: AudioContext, type: FxType): FXProcessor | null {
+function createFXProcessor(ctx: AudioContext, type: FxChainType): FXProcessor {
   switch (type) {
     case "echo":
       return new EchoFX(ctx);
@@ -22,52 +31,88 @@ function createFXProcessor(ctx: AudioContext, type: FxType): FXProcessor | null
       return new ReverbFX(ctx);
     case "filter":
       return new FilterFX(ctx);
-    case "none":
-      return null;
-    default:
-      return null;
+    case "flanger":
+      return new FlangerFX(ctx);
+    case "phaser":
+      return new PhaserFX(ctx);
+    case "bitcrusher":
+      return new BitcrusherFX(ctx);
+    case "gate":
+      return new GateFX(ctx);
+    case "pingpong":
+      return new PingPongFX(ctx);
   }
 }
 
 /**
- * FX Manager state.
+ * FX Manager state (one per unit).
  */
 interface FXManagerState {
-  processor: FXProcessor | null;
-  currentType: FxType;
+  /** Processors in signal order */
+  chain: FXProcessor[];
   input: GainNode | null;
   output: GainNode | null;
   bypassGain: GainNode | null;
+  /** Tempo the unit's synced processors lock to (null = unknown) */
+  bpm: number | null;
 }
 
-/** Singleton FX manager state */
-let fxManager: FXManagerState = {
-  processor: null,
-  currentType: "none",
-  input: null,
-  output: null,
-  bypassGain: null,
+function createEmptyUnit(): FXManagerState {
+  return {
+    chain: [],
+    input: null,
+    output: null,
+    bypassGain: null,
+    bpm: null,
+  };
+}
+
+/** Per-unit FX manager state */
+const fxUnits: Record<FxUnitId, FXManagerState> = {
+  fx1: createEmptyUnit(),
+  fx2: createEmptyUnit(),
 };
 
+/** All FX unit IDs, in signal-chain order */
+export const FX_UNIT_IDS: readonly FxUnitId[] = ["fx1", "fx2"];
+
+/** Per-slot state reported to listeners */
+export interface FXSlotInfo {
+  type: FxChainType;
+  paramInfo: FXParamInfo;
+}
+
 /** State listeners */
-type FXManagerListener = (state: { type: FxType; paramInfo: FXParamInfo | null }) => void;
-const listeners = new Set<FXManagerListener>();
+type FXManagerListener = (state: { chain: FXSlotInfo[] }) => void;
+const listeners: Record<FxUnitId, Set<FXManagerListener>> = {
+  fx1: new Set(),
+  fx2: new Set(),
+};
+
+function getChainInfo(unitId: FxUnitId): FXSlotInfo[] {
+  return fxUnits[unitId].chain.map((processor) => ({
+    type: processor.type as FxChainType,
+    paramInfo: processor.getParamInfo(),
+  }));
+}
 
-function notifyListeners(): void {
-  const paramInfo = fxManager.processor?.getParamInfo() ?? null;
-  for (const listener of listeners) {
-    listener({ type: fxManager.currentType, paramInfo });
+function notifyListeners(unitId: FxUnitId): void {
+  const chain = getChainInfo(unitId);
+  for (const listener of listeners[unitId]) {
+    listener({ chain });
   }
 }
 
 /**
- * Initialize the FX manager.
+ * Initialize an FX unit.
  * Returns [input, output] nodes for routing.
  */
-export function initFXManager(): [GainNode, GainNode] | null {
+export function initFXManager(unitId: FxUnitId): [GainNode, GainNode] | null {
   const ctx = getAudioContext();
   if (!ctx) return null;
 
+  const fxManager = fxUnits[unitId];
+
   // Already initialized
   if (fxManager.input && fxManager.output) {
     return [fxManager.input, fxManager.output];
@@ -82,30 +127,39 @@ export function initFXManager(): [GainNode, GainNode] | null {
   fxManager.input.connect(fxManager.bypassGain);
   fxManager.bypassGain.connect(fxManager.output);
 
-  console.log("[fx-manager] Initialized");
+  console.log(`[fx-manager] Initialized ${unitId}`);
 
   return [fxManager.input, fxManager.output];
 }
 
 /**
- * Get the FX input node (for routing audio into FX chain).
+ * Get an FX unit's input node (for routing audio into FX chain).
  */
-export function getFXInput(): GainNode | null {
-  return fxManager.input;
+export function getFXInput(unitId: FxUnitId): GainNode | null {
+  return fxUnits[unitId].input;
 }
 
 /**
- * Get the FX output node (for routing audio out of FX chain).
+ * Get an FX unit's output node (for routing audio out of FX chain).
  */
-export function getFXOutput(): GainNode | null {
-  return fxManager.output;
+export function getFXOutput(unitId: FxUnitId): GainNode | null {
+  return fxUnits[unitId].output;
 }
 
 /**
- * Set the FX type (creates new processor if different).
+ * Set an FX unit's processor chain.
+ * Processors whose type stays in the chain are reused (so echo/reverb tails
+ * survive a reorder); the rest are disposed.
  */
-export function setFXType(type: FxType): void {
-  if (type === fxManager.currentType) return;
+export function setFXChain(unitId: FxUnitId, types: FxChainType[]): void {
+  const fxManager = fxUnits[unitId];
+  const current = fxManager.chain.map((processor) => processor.type);
+  if (
+    current.length === types.length &&
+    current.every((type, i) => type === types[i])
+  ) {
+    return;
+  }
 
   const ctx = getAudioContext();
   if (!ctx || !fxManager.input || !fxManager.output || !fxManager.bypassGain) {
@@ -113,140 +167,175 @@ export function setFXType(type: FxType): void {
     return;
   }
 
-  // Dispose old processor
-  if (fxManager.processor) {
-    fxManager.input.disconnect(fxManager.processor.input);
-    fxManager.processor.output.disconnect(fxManager.output);
-    fxManager.processor.dispose();
-    fxManager.processor = null;
+  // Tear down the current wiring
+  fxManager.input.disconnect();
+  fxManager.bypassGain.disconnect();
+  for (const processor of fxManager.chain) {
+    processor.output.disconnect();
   }
 
-  // Reconnect bypass
-  try {
-    fxManager.input.disconnect(fxManager.bypassGain);
-  } catch {
-    // May not be connected
+  // Build the new chain, reusing processors by type
+  const reusable = new Map(fxManager.chain.map((p) => [p.type, p]));
+  const chain = types.map((type) => {
+    const existing = reusable.get(type);
+    if (existing) {
+      reusable.delete(type);
+      return existing;
+    }
+    const processor = createFXProcessor(ctx, type);
+    processor.setBpm?.(fxManager.bpm ?? DEFAULT_FX_BPM);
+    return processor;
+  });
+  for (const leftover of reusable.values()) {
+    leftover.dispose();
   }
+  fxManager.chain = chain;
 
-  if (type === "none") {
+  if (chain.length === 0) {
     // No FX - use bypass
     fxManager.input.connect(fxManager.bypassGain);
     fxManager.bypassGain.connect(fxManager.output);
-    fxManager.currentType = "none";
-    console.log("[fx-manager] FX disabled (bypass)");
+    console.log(`[fx-manager] ${unitId} disabled (bypass)`);
   } else {
-    // Create new processor
-    const processor = createFXProcessor(ctx, type);
-    if (processor) {
-      // Disconnect bypass from output
-      try {
-        fxManager.bypassGain.disconnect(fxManager.output);
-      } catch {
-        // May not be connected
-      }
-
-      // Connect through FX
-      fxManager.input.connect(processor.input);
-      processor.output.connect(fxManager.output);
-      fxManager.processor = processor;
-      fxManager.currentType = type;
-      console.log(`[fx-manager] FX set to: ${type}`);
+    // Connect input → processors in order → output
+    let tail: AudioNode = fxManager.input;
+    for (const processor of chain) {
+      tail.connect(processor.input);
+      tail = processor.output;
     }
+    tail.connect(fxManager.output);
+    console.log(`[fx-manager] ${unitId} chain set to: ${types.join(" → ")}`);
   }
 
-  notifyListeners();
+  notifyListeners(unitId);
 }
 
 /**
- * Apply full FX state.
+ * Apply full FX unit state.
  */
-export function applyFXState(state: FxState): void {
-  console.log(`[FXManager] applyFXState called:`, state);
+export function applyFXState(unitId: FxUnitId, state: FxUnitState): void {
+  console.log(`[FXManager] applyFXState called for ${unitId}:`, state);
+
+  // Rebuild the chain if needed
+  setFXChain(
+    unitId,
+    state.chain.map((slot) => slot.type)
+  );
+
+  // Apply settings to each processor
+  const { chain } = fxUnits[unitId];
+  chain.forEach((processor, i) => {
+    const slot = state.chain[i];
+    if (!slot) return;
+    processor.applyState({
+      type: slot.type,
+      param: slot.param,
+      wetDry: state.wetDry,
+      enabled: state.enabled,
+    });
+  });
 
-  // Change type if needed
-  setFXType(state.type);
+  notifyListeners(unitId);
+}
 
-  // Apply settings to processor
-  if (fxManager.processor) {
-    console.log(`[FXManager] Applying state to processor: type=${state.type}, enabled=${state.enabled}, wetDry=${state.wetDry}, param=${state.param}`);
-    fxManager.processor.applyState(state);
-  } else {
-    console.log(`[FXManager] No processor available for state application`);
+/**
+ * Set an FX unit's wet/dry (applied to every processor in the chain).
+ */
+export function setFXWetDry(unitId: FxUnitId, value: number): void {
+  const { chain } = fxUnits[unitId];
+  console.log(`[FXManager] setFXWetDry called: value=${value}, processors=${chain.length}`);
+  for (const processor of chain) {
+    processor.setWetDry(value);
   }
-
-  notifyListeners();
 }
 
 /**
- * Set FX wet/dry.
+ * Set the parameter of one processor in an FX unit's chain.
  */
-export function setFXWetDry(value: number): void {
-  console.log(`[FXManager] setFXWetDry called: value=${value}, hasProcessor=${!!fxManager.processor}`);
-  if (fxManager.processor) {
-    fxManager.processor.setWetDry(value);
+export function setFXSlotParam(unitId: FxUnitId, index: number, value: number): void {
+  const processor = fxUnits[unitId].chain[index];
+  if (processor) {
+    processor.setParam(value);
+    notifyListeners(unitId);
   }
 }
 
 /**
- * Set FX parameter.
+ * Set the tempo an FX unit's synced processors lock to.
+ * Falls back to DEFAULT_FX_BPM when the source BPM is unknown.
  */
-export function setFXParam(value: number): void {
-  if (fxManager.processor) {
-    fxManager.processor.setParam(value);
-    notifyListeners();
+export function setFXBpm(unitId: FxUnitId, bpm: number | null): void {
+  const fxManager = fxUnits[unitId];
+  if (fxManager.bpm === bpm) return;
+  fxManager.bpm = bpm;
+  for (const processor of fxManager.chain) {
+    processor.setBpm?.(bpm ?? DEFAULT_FX_BPM);
   }
+  notifyListeners(unitId);
 }
 
 /**
- * Set FX enabled.
+ * Set an FX unit's enabled state.
  */
-export function setFXEnabled(enabled: boolean): void {
-  console.log(`[FXManager] setFXEnabled called: enabled=${enabled}, hasProcessor=${!!fxManager.processor}, currentType=${fxManager.currentType}`);
-  if (fxManager.processor) {
-    fxManager.processor.setEnabled(enabled);
-    console.log(`[FXManager] setFXEnabled completed for processor type=${fxManager.currentType}`);
-  } else {
+export function setFXEnabled(unitId: FxUnitId, enabled: boolean): void {
+  const { chain } = fxUnits[unitId];
+  console.log(`[FXManager] setFXEnabled called: enabled=${enabled}, processors=${chain.length}`);
+  if (chain.length === 0) {
     console.warn(`[FXManager] setFXEnabled called but no processor available`);
+    return;
+  }
+  for (const processor of chain) {
+    processor.setEnabled(enabled);
   }
 }
 
 /**
- * Get current FX type.
+ * Get an FX unit's current chain of effect types.
  */
-export function getCurrentFXType(): FxType {
-  return fxManager.currentType;
+export function getFXChainTypes(unitId: FxUnitId): FxChainType[] {
+  return fxUnits[unitId].chain.map((processor) => processor.type as FxChainType);
 }
 
 /**
- * Get current FX parameter info.
+ * Get the parameter info of one processor in an FX unit's chain.
  */
-export function getFXParamInfo(): FXParamInfo | null {
-  return fxManager.processor?.getParamInfo() ?? null;
+export function getFXParamInfo(unitId: FxUnitId, index: number): FXParamInfo | null {
+  return fxUnits[unitId].chain[index]?.getParamInfo() ?? null;
 }
 
 /**
- * Subscribe to FX manager state changes.
+ * Subscribe to an FX unit's state changes.
  */
 export function subscribeToFXManager(
+  unitId: FxUnitId,
   listener: FXManagerListener
 ): () => void {
-  listeners.add(listener);
+  listeners[unitId].add(listener);
   // Immediately notify
-  listener({
-    type: fxManager.currentType,
-    paramInfo: fxManager.processor?.getParamInfo() ?? null,
-  });
-  return () => listeners.delete(listener);
+  listener({ chain: getChainInfo(unitId) });
+  return () => listeners[unitId].delete(listener);
 }
 
 /**
- * Dispose FX manager.
+ * Dispose all FX units.
  */
 export function disposeFXManager(): void {
-  if (fxManager.processor) {
-    fxManager.processor.dispose();
-    fxManager.processor = null;
+  for (const unitId of FX_UNIT_IDS) {
+    disposeFXUnit(unitId);
+    listeners[unitId].clear();
+  }
+  console.log("[fx-manager] Disposed");
+}
+
+/**
+ * Dispose a single FX unit's nodes and processors.
+ */
+function disposeFXUnit(unitId: FxUnitId): void {
+  const fxManager = fxUnits[unitId];
+  for (const processor of fxManager.chain) {
+    processor.dispose();
   }
+  fxManager.chain = [];
   if (fxManager.input) {
     fxManager.input.disconnect();
     fxManager.input = null;
@@ -259,7 +348,4 @@ export function disposeFXManager(): void {
     fxManager.bypassGain.disconnect();
     fxManager.bypassGain = null;
   }
-  fxManager.currentType = "none";
-  listeners.clear();
-  console.log("[fx-manager] Disposed");
 }
@@ -0,0 +1,138 @@
+/**
+ * Phaser FX - cascaded all-pass filters with a swept centre frequency.
+ *
+ * Parameter maps to the sweep cycle length in beats (1/2 - 16),
+ * locked to the BPM of the assigned deck.
+ */
+
+import type { FxState } from "@puid-board/shared";
+import type { FXProcessor, FXParamInfo } from "./types";
+import { setParamSmooth } from "../params";
+import { DEFAULT_FX_BPM, beatsToSeconds, formatBeats, paramToBeats } from "./tempo";
+
+/** Sweep cycle lengths in beats */
+const CYCLE_BEATS = [0.5, 1, 2, 4, 8, 16] as const;
+
+/** Number of all-pass stages (each pair adds one notch) */
+const STAGES = 4;
+
+/** Sweep centre and depth in Hz */
+const BASE_FREQ = 1000;
+const SWEEP_DEPTH = 800;
+
+export class PhaserFX implements FXProcessor {
+  readonly type = "phaser" as const;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private stages: BiquadFilterNode[] = [];
+  private lfo: OscillatorNode;
+  private lfoDepth: GainNode;
+  private wetGain: GainNode;
+  private dryGain: GainNode;
+  private enabled = true;
+  private currentParam = 0.5;
+  private currentWetDry = 0.5;
+  private bpm = DEFAULT_FX_BPM;
+
+  constructor(ctx: AudioContext) {
+    // Create nodes
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.lfo = ctx.createOscillator();
+    this.lfoDepth = ctx.createGain();
+    this.wetGain = ctx.createGain();
+    this.dryGain = ctx.createGain();
+
+    // Set initial values
+    this.lfo.type = "sine";
+    this.lfo.frequency.value = this.getLfoFrequency();
+    this.lfoDepth.gain.value = SWEEP_DEPTH;
+    this.wetGain.gain.value = 0.5;
+    this.dryGain.gain.value = 0.5;
+
+    // Dry path: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // Wet path: input → all-pass stages → wetGain → output
+    let previous: AudioNode = this.input;
+    for (let i = 0; i < STAGES; i++) {
+      const stage = ctx.createBiquadFilter();
+      stage.type = "allpass";
+      stage.frequency.value = BASE_FREQ;
+      stage.Q.value = 0.7;
+      previous.connect(stage);
+      this.lfoDepth.connect(stage.frequency);
+      this.stages.push(stage);
+      previous = stage;
+    }
+    previous.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // Sweep: LFO → depth → every stage's frequency
+    this.lfo.connect(this.lfoDepth);
+    this.lfo.start();
+  }
+
+  private getCycleBeats(): number {
+    return paramToBeats(this.currentParam, CYCLE_BEATS);
+  }
+
+  private getLfoFrequency(): number {
+    return 1 / beatsToSeconds(this.getCycleBeats(), this.bpm);
+  }
+
+  setWetDry(value: number): void {
+    const wet = Math.max(0, Math.min(1, value));
+    this.currentWetDry = wet;
+    setParamSmooth(this.wetGain.gain, this.enabled ? wet : 0);
+    setParamSmooth(this.dryGain.gain, this.enabled ? 1 - wet : 1);
+  }
+
+  setParam(value: number): void {
+    this.currentParam = Math.max(0, Math.min(1, value));
+    setParamSmooth(this.lfo.frequency, this.getLfoFrequency());
+  }
+
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    setParamSmooth(this.lfo.frequency, this.getLfoFrequency());
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    // Disabled: full dry, no wet; enabled: restore wet/dry mix
+    const wet = enabled ? this.currentWetDry : 0;
+    setParamSmooth(this.wetGain.gain, wet);
+    setParamSmooth(this.dryGain.gain, 1 - wet);
+  }
+
+  applyState(state: FxState): void {
+    // Always update the stored wet/dry value first, even when disabled
+    this.currentWetDry = state.wetDry;
+
+    this.setEnabled(state.enabled);
+    this.setParam(state.param);
+  }
+
+  getParamInfo(): FXParamInfo {
+    return {
+      label: "Cycle",
+      displayValue: formatBeats(this.getCycleBeats()),
+      unit: "beats",
+    };
+  }
+
+  dispose(): void {
+    this.lfo.stop();
+    this.lfo.disconnect();
+    this.lfoDepth.disconnect();
+    this.input.disconnect();
+    for (const stage of this.stages) {
+      stage.disconnect();
+    }
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    this.output.disconnect();
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Ping-Pong Delay FX - beat-synced delay bouncing between left and right.
+ *
+ * Parameter maps to the delay time in beats (1/8 - 1),
+ * locked to the BPM of the assigned deck instead of a fixed ms range.
+ */
+
+import type { FxState } from "@puid-board/shared";
+import type { FXProcessor, FXParamInfo } from "./types";
+import { setParamSmooth } from "../params";
+import { DEFAULT_FX_BPM, beatsToSeconds, formatBeats, paramToBeats } from "./tempo";
+
+/** Delay times in beats */
+const DELAY_BEATS = [0.125, 0.25, 0.375, 0.5, 0.75, 1] as const;
+
+/** Longest delay the nodes must hold (1 beat at 30 BPM) */
+const MAX_DELAY = 2;
+
+/** Feedback amount (fixed for simplicity) */
+const FEEDBACK = 0.45;
+
+export class PingPongFX implements FXProcessor {
+  readonly type = "pingpong" as const;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private monoSum: GainNode;
+  private delayLeft: DelayNode;
+  private delayRight: DelayNode;
+  private feedbackGain: GainNode;
+  private merger: ChannelMergerNode;
+  private wetGain: GainNode;
+  private dryGain: GainNode;
+  private enabled = true;
+  private currentParam = 0.5;
+  private currentWetDry = 0.5;
+  private bpm = DEFAULT_FX_BPM;
+
+  constructor(ctx: AudioContext) {
+    // Create nodes
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.monoSum = ctx.createGain();
+    this.delayLeft = ctx.createDelay(MAX_DELAY);
+    this.delayRight = ctx.createDelay(MAX_DELAY);
+    this.feedbackGain = ctx.createGain();
+    this.merger = ctx.createChannelMerger(2);
+    this.wetGain = ctx.createGain();
+    this.dryGain = ctx.createGain();
+
+    // Sum to mono so the first repeat lands only on the left
+    this.monoSum.channelCount = 1;
+    this.monoSum.channelCountMode = "explicit";
+    this.monoSum.channelInterpretation = "speakers";
+
+    // Set initial values
+    const delayTime = this.getDelayTime();
+    this.delayLeft.delayTime.value = delayTime;
+    this.delayRight.delayTime.value = delayTime;
+    this.feedbackGain.gain.value = FEEDBACK;
+    this.wetGain.gain.value = 0.5;
+    this.dryGain.gain.value = 0.5;
+
+    // Dry path: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // Wet path: input → mono → left delay → right delay, each to its side
+    this.input.connect(this.monoSum);
+    this.monoSum.connect(this.delayLeft);
+    this.delayLeft.connect(this.merger, 0, 0);
+    this.delayLeft.connect(this.delayRight);
+    this.delayRight.connect(this.merger, 0, 1);
+    this.merger.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // Feedback loop: right delay → feedback → left delay
+    this.delayRight.connect(this.feedbackGain);
+    this.feedbackGain.connect(this.delayLeft);
+  }
+
+  private getDelayBeats(): number {
+    return paramToBeats(this.currentParam, DELAY_BEATS);
+  }
+
+  private getDelayTime(): number {
+    return Math.min(MAX_DELAY, beatsToSeconds(this.getDelayBeats(), this.bpm));
+  }
+
+  private updateDelayTime(): void {
+    const delayTime = this.getDelayTime();
+    setParamSmooth(this.delayLeft.delayTime, delayTime);
+    setParamSmooth(this.delayRight.delayTime, delayTime);
+  }
+
+  setWetDry(value: number): void {
+    const wet = Math.max(0, Math.min(1, value));
+    this.currentWetDry = wet;
+    setParamSmooth(this.wetGain.gain, this.enabled ? wet : 0);
+    setParamSmooth(this.dryGain.gain, this.enabled ? 1 - wet : 1);
+  }
+
+  setParam(value: number): void {
+    this.currentParam = Math.max(0, Math.min(1, value));
+    this.updateDelayTime();
+  }
+
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    this.updateDelayTime();
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    // Disabled: full dry, no wet; enabled: restore wet/dry mix
+    const wet = enabled ? this.currentWetDry : 0;
+    setParamSmooth(this.wetGain.gain, wet);
+    setParamSmooth(this.dryGain.gain, 1 - wet);
+  }
+
+  applyState(state: FxState): void {
+    // Always update the stored wet/dry value first, even when disabled
+    this.currentWetDry = state.wetDry;
+
+    this.setEnabled(state.enabled);
+    this.setParam(state.param);
+  }
+
+  getParamInfo(): FXParamInfo {
+    return {
+      label: "Delay",
+      displayValue: formatBeats(this.getDelayBeats()),
+      unit: "beats",
+    };
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.monoSum.disconnect();
+    this.delayLeft.disconnect();
+    this.delayRight.disconnect();
+    this.feedbackGain.disconnect();
+    this.merger.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    this.output.disconnect();
+  }
+}
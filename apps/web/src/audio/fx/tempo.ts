@@ -0,0 +1,74 @@
+/**
+ * Tempo helpers for beat-synced FX.
+ *
+ * Tempo-synced processors map their 0-1 parameter onto a list of beat
+ * divisions, and convert divisions to seconds using the BPM of the deck
+ * their FX unit is assigned to.
+ */
+
+import type { RoomState, FxUnitState, DeckId } from "@puid-board/shared";
+import { getDeckIds, getDeckState, getChannelState, getCrossfaderSide } from "@puid-board/shared";
+
+/** BPM used when the source deck has no detected BPM */
+export const DEFAULT_FX_BPM = 120;
+
+/**
+ * Pick a beat division for a 0-1 parameter.
+ * The parameter range is split into equal steps, one per option.
+ */
+export function paramToBeats(param: number, options: readonly number[]): number {
+  const clamped = Math.max(0, Math.min(1, param));
+  const index = Math.min(options.length - 1, Math.floor(clamped * options.length));
+  return options[index]!;
+}
+
+/** Length of a beat division in seconds at the given BPM */
+export function beatsToSeconds(beats: number, bpm: number): number {
+  return (beats * 60) / bpm;
+}
+
+/** Format a beat division for display ("1/8", "3/4", "2") */
+export function formatBeats(beats: number): string {
+  if (beats >= 1) return String(beats);
+  for (const denominator of [2, 4, 8, 16, 32]) {
+    const numerator = beats * denominator;
+    if (Number.isInteger(numerator)) {
+      return `${numerator}/${denominator}`;
+    }
+  }
+  return beats.toFixed(2);
+}
+
+/** Effective BPM of a deck (detected BPM scaled by tempo), or null */
+function getDeckBpm(state: RoomState, deckId: DeckId): number | null {
+  const deck = getDeckState(state, deckId);
+  if (!deck?.detectedBpm) return null;
+  return deck.detectedBpm * deck.playbackRate;
+}
+
+/**
+ * BPM an FX unit should lock to.
+ * Deck-assigned units follow their deck. Master-assigned units follow the
+ * playing deck that is loudest through its fader and the crossfader.
+ */
+export function getFxUnitBpm(state: RoomState, unit: FxUnitState): number | null {
+  if (unit.assign !== "master") {
+    return getDeckBpm(state, unit.assign);
+  }
+
+  let best: { bpm: number; level: number } | null = null;
+  for (const deckId of getDeckIds(state.deckCount)) {
+    const deck = getDeckState(state, deckId);
+    const bpm = getDeckBpm(state, deckId);
+    if (!deck || deck.playState !== "playing" || bpm === null) continue;
+
+    const fader = getChannelState(state.mixer, deckId)?.fader ?? 1;
+    const crossfader =
+      getCrossfaderSide(deckId) === "A" ? 1 - state.mixer.crossfader : state.mixer.crossfader;
+    const level = fader * crossfader;
+    if (!best || level > best.level) {
+      best = { bpm, level };
+    }
+  }
+  return best?.bpm ?? null;
+}
@@ -29,6 +29,12 @@ export interface FXProcessor {
   /** Apply full FX state */
   applyState(state: FxState): void;
   
+  /**
+   * Set the tempo the effect locks to (tempo-synced effects only).
+   * Called with the BPM of the deck the FX unit is assigned to.
+   */
+  setBpm?(bpm: number): void;
+  
   /** Get current parameter info for UI display */
   getParamInfo(): FXParamInfo;
   
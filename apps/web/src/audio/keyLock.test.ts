@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { getKeyLockPitchRatio, KEY_LOCK_PROCESSOR_NAME } from "./keyLock";
+
+const SAMPLE_RATE = 44100;
+const BLOCK_SIZE = 128;
+
+type Processor = {
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+};
+
+let ProcessorClass: (new () => Processor) | null = null;
+
+/** Run a mono sine through the processor and return the left output */
+function runProcessor(frequency: number, pitchRatio: number, seconds: number): Float32Array {
+  const processor = new ProcessorClass!();
+  const total = Math.floor((SAMPLE_RATE * seconds) / BLOCK_SIZE) * BLOCK_SIZE;
+  const result = new Float32Array(total);
+  const parameters = { pitchRatio: new Float32Array([pitchRatio]) };
+
+  for (let start = 0; start < total; start += BLOCK_SIZE) {
+    const input = new Float32Array(BLOCK_SIZE);
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      input[i] = Math.sin((2 * Math.PI * frequency * (start + i)) / SAMPLE_RATE);
+    }
+    const left = new Float32Array(BLOCK_SIZE);
+    const right = new Float32Array(BLOCK_SIZE);
+    processor.process([[input]], [[left, right]], parameters);
+    result.set(left, start);
+  }
+  return result;
+}
+
+/** Estimate frequency from rising zero crossings */
+function measureFrequency(samples: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] ?? 0) < 0 && (samples[i] ?? 0) >= 0) crossings++;
+  }
+  return (crossings * SAMPLE_RATE) / samples.length;
+}
+
+describe("key lock", () => {
+  beforeAll(async () => {
+    // Minimal AudioWorkletGlobalScope for loading the processor module
+    Object.assign(globalThis, {
+      AudioWorkletProcessor: class {},
+      registerProcessor: (name: string, ctor: new () => Processor) => {
+        if (name === KEY_LOCK_PROCESSOR_NAME) ProcessorClass = ctor;
+      },
+    });
+    // Plain script, not a TS module: keep the path out of type-checking
+    const processorPath = "../../public/worklets/key-lock-processor.js";
+    await import(/* @vite-ignore */ processorPath);
+  });
+
+  it("cancels the playback rate's pitch change only when enabled", () => {
+    expect(getKeyLockPitchRatio(1.06, true)).toBeCloseTo(1 / 1.06);
+    expect(getKeyLockPitchRatio(1.06, false)).toBe(1);
+    expect(getKeyLockPitchRatio(0.92, true) * 0.92).toBeCloseTo(1);
+  });
+
+  it("passes audio through untouched at a ratio of 1", () => {
+    const output = runProcessor(440, 1, 0.1);
+    const expected = Math.sin((2 * Math.PI * 440 * 1000) / SAMPLE_RATE);
+    expect(output[1000]).toBeCloseTo(expected, 6);
+  });
+
+  it("shifts pitch by the requested ratio", () => {
+    // +6% tempo: a 440Hz tone played at 1.06x would be 466Hz; key lock brings it back
+    const output = runProcessor(466.4, 1 / 1.06, 2);
+    // Skip the wet fade-in and the first grains
+    const frequency = measureFrequency(output.subarray(SAMPLE_RATE / 2));
+    expect(frequency).toBeGreaterThan(430);
+    expect(frequency).toBeLessThan(450);
+  });
+});
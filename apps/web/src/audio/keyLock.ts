@@ -0,0 +1,63 @@
+/**
+ * Key lock (master tempo) - keeps a deck's pitch when its tempo changes.
+ *
+ * The deck's buffer source still plays at the tempo fader's playback rate, so
+ * playhead, epoch and PLL math stay exactly as they are. A pitch-correcting
+ * AudioWorklet (public/worklets/key-lock-processor.js) sits after the source
+ * and shifts the pitch back by 1 / playbackRate.
+ */
+
+/** Worklet module URL (served from public/) */
+const KEY_LOCK_PROCESSOR_URL = "/worklets/key-lock-processor.js";
+
+/** Name the processor registers under */
+export const KEY_LOCK_PROCESSOR_NAME = "key-lock-processor";
+
+/** Module loads per context (addModule must finish before nodes are created) */
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Load the key lock worklet module into a context (once per context).
+ */
+export function loadKeyLockWorklet(ctx: BaseAudioContext): Promise<void> {
+  let load = moduleLoads.get(ctx);
+  if (!load) {
+    load = ctx.audioWorklet.addModule(KEY_LOCK_PROCESSOR_URL);
+    // Allow a retry after a failed load
+    load.catch(() => moduleLoads.delete(ctx));
+    moduleLoads.set(ctx, load);
+  }
+  return load;
+}
+
+/**
+ * Create a key lock node (starts as a pass-through).
+ * Returns null if AudioWorklet is unsupported or the module fails to load.
+ */
+export async function createKeyLockNode(ctx: AudioContext): Promise<AudioWorkletNode | null> {
+  if (!ctx.audioWorklet) {
+    console.warn("[key-lock] AudioWorklet not supported");
+    return null;
+  }
+
+  try {
+    await loadKeyLockWorklet(ctx);
+    return new AudioWorkletNode(ctx, KEY_LOCK_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+    });
+  } catch (err) {
+    console.error("[key-lock] Failed to create key lock node:", err);
+    return null;
+  }
+}
+
+/**
+ * Pitch ratio that cancels the pitch change of a playback rate.
+ * 1 (pass-through) when key lock is off.
+ */
+export function getKeyLockPitchRatio(playbackRate: number, keyLock: boolean): number {
+  if (!keyLock || playbackRate <= 0) return 1;
+  return 1 / playbackRate;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
 import { equalPowerCrossfade, bipolarToGain, clamp } from "./params";
+import {
+  getMonitorGains,
+  createCeilingCurve,
+  createSilentMeterReading,
+  updateMeterReading,
+  METER_FLOOR_DB,
+} from "./mixerGraph";
 
 describe("Mixer Graph logic", () => {
   describe("EQ gain mapping", () => {
@@ -89,4 +96,73 @@ describe("Mixer Graph logic", () => {
       expect(subParam).toBe("low");
     });
   });
+
+  describe("Headphone monitoring", () => {
+    it("opens only the CUE'd channels' PFL taps", () => {
+      const gains = getMonitorGains({ cue: ["B", "D"], headphoneMix: 0.5, splitCue: false });
+      expect(gains.pfl).toEqual({ A: 0, B: 1, C: 0, D: 1 });
+    });
+
+    it("blends cue and main by headphoneMix", () => {
+      const gains = getMonitorGains({ cue: ["A"], headphoneMix: 0.25, splitCue: false });
+      expect(gains.cueMix).toBeCloseTo(0.75);
+      expect(gains.main).toBeCloseTo(0.25);
+      expect(gains.splitCue).toBe(0);
+      expect(gains.splitMain).toBe(0);
+    });
+
+    it("puts cue and main fully on separate ears in split cue", () => {
+      const gains = getMonitorGains({ cue: ["A"], headphoneMix: 0.25, splitCue: true });
+      expect(gains.cueMix).toBe(0);
+      expect(gains.main).toBe(0);
+      expect(gains.splitCue).toBe(1);
+      expect(gains.splitMain).toBe(1);
+    });
+  });
+
+  describe("Level meters", () => {
+    /** One 60fps frame of a constant signal */
+    const frame = (amplitude: number) => new Float32Array(800).fill(amplitude);
+
+    it("rises toward the RMS level with VU ballistics", () => {
+      let reading = createSilentMeterReading();
+      reading = updateMeterReading(reading, frame(0.5), 1 / 60, 0);
+      // One frame in: well short of -6dB, but moving
+      expect(reading.levelDb).toBeGreaterThan(METER_FLOOR_DB);
+      expect(reading.levelDb).toBeLessThan(-20);
+      expect(reading.peakDb).toBeCloseTo(-6.02, 1);
+
+      for (let i = 1; i <= 180; i++) {
+        reading = updateMeterReading(reading, frame(0.5), 1 / 60, i * 16);
+      }
+      expect(reading.levelDb).toBeCloseTo(-6.02, 1);
+    });
+
+    it("holds the peak for 1.5s, then lets it fall", () => {
+      let reading = updateMeterReading(createSilentMeterReading(), frame(1), 1 / 60, 0);
+      expect(reading.holdDb).toBe(0);
+
+      reading = updateMeterReading(reading, frame(0.1), 0.1, 1000);
+      expect(reading.holdDb).toBe(0);
+
+      // Released: falls at 20dB/s, never below the current peak
+      reading = updateMeterReading(reading, frame(0.1), 0.1, 1600);
+      expect(reading.holdDb).toBeCloseTo(-2);
+      reading = updateMeterReading(reading, frame(0.1), 1, 2600);
+      expect(reading.holdDb).toBeCloseTo(-20);
+    });
+
+    it("reads silence at the floor", () => {
+      const reading = updateMeterReading(createSilentMeterReading(), frame(0), 1 / 60, 0);
+      expect(reading).toMatchObject({ levelDb: METER_FLOOR_DB, peakDb: METER_FLOOR_DB });
+    });
+  });
+
+  describe("Limiter ceiling", () => {
+    it("passes signal under the ceiling and clamps everything over it", () => {
+      const curve = createCeilingCurve(0.5, 5);
+      // Curve points sit at inputs -1, -0.5, 0, 0.5, 1
+      expect(Array.from(curve)).toEqual([-0.5, -0.5, 0, 0.5, 0.5]);
+    });
+  });
 });
@@ -4,12 +4,45 @@
  * Signal flow:
  * Deck A → Gain → 3-band EQ → Channel Fader → Crossfader A input
  * Deck B → Gain → 3-band EQ → Channel Fader → Crossfader B input
+ * Deck C → (same chain) → Crossfader A input (four-deck rooms)
+ * Deck D → (same chain) → Crossfader B input (four-deck rooms)
  * Crossfader → Master Gain → Analyser → Destination
+ *
+ * The master limiter sits after the master FX return, before the analyser:
+ * a hard-knee 20:1 compressor (fast attack, the browser's ~6ms look-ahead)
+ * into a ceiling clamp. Bypassing it cross-switches to a dry path.
+ *
+ * Headphone monitoring is local to this member (Member.monitor):
+ * CUE'd channels are tapped after EQ, before the fader (PFL), into a cue bus.
+ * Blend mode mixes cue and main by headphoneMix; split cue sends the cue bus
+ * to the left ear and main to the right through a channel merger.
+ *
+ * A record tap follows the analyser at master volume, so recordings capture
+ * the master bus without this member's headphone cue.
+ *
+ * Level meters: each channel's inputGain (pre-EQ, pre-fader) feeds a meter
+ * analyser, and the record tap is split into L/R master meter analysers.
+ * They are read on the shared RAF loop only while something is listening.
+ *
+ * FX units are inserted post-fader on the channel they are assigned to
+ * (fader → FX → output), or between pre-master and the analyser when
+ * assigned to master. Units sharing a target are chained fx1 → fx2.
  * 
  * The mixer graph is a singleton that connects to the audio engine.
  */
 
-import type { MixerState, ChannelState, EqState } from "@puid-board/shared";
+import {
+  createDefaultLimiter,
+  getLimiterSettings,
+  type LimiterState,
+  type MixerState,
+  type MonitorSettings,
+  type ChannelState,
+  type EqState,
+  type DeckId,
+  type FxAssign,
+  type FxUnitId,
+} from "@puid-board/shared";
 import { getAudioContext, getMasterGain } from "./engine";
 import {
   setParamSmooth,
@@ -17,8 +50,17 @@ import {
   equalPowerCrossfade,
   bipolarToGain,
   clamp,
+  dbToLinear,
+  linearToDb,
 } from "./params";
-import { initFXManager, applyFXState } from "./fx/manager";
+import {
+  initFXManager,
+  applyFXState,
+  setFXWetDry,
+  setFXSlotParam,
+  FX_UNIT_IDS,
+} from "./fx/manager";
+import { rafManager } from "./controlOptimizer";
 
 /** EQ frequency bands */
 const EQ_FREQUENCIES = {
@@ -37,6 +79,33 @@ const EQ_Q = {
 /** Maximum EQ boost/cut in dB */
 const EQ_MAX_DB = 12;
 
+/** Limiter compression ratio (20:1 is limiting) */
+const LIMITER_RATIO = 20;
+
+/** Limiter attack in seconds (as fast as the compressor allows) */
+const LIMITER_ATTACK_SEC = 0.001;
+
+/** Points in the ceiling clamp curve (odd, so 0 maps to 0) */
+const LIMITER_CURVE_LENGTH = 2049;
+
+/** Smallest gain reduction change (dB) that notifies meter listeners */
+const GAIN_REDUCTION_STEP_DB = 0.1;
+
+/** Level meter floor (dB); anything quieter reads as silence */
+export const METER_FLOOR_DB = -60;
+
+/** Level meter analyser size (covers a 60fps frame at 48kHz) */
+const METER_FFT_SIZE = 1024;
+
+/** VU integration time (seconds) */
+const METER_VU_TIME_SEC = 0.3;
+
+/** How long the peak-hold marker stays put (ms) */
+const METER_PEAK_HOLD_MS = 1500;
+
+/** How fast the peak-hold marker falls once released (dB per second) */
+const METER_PEAK_FALL_DB_PER_SEC = 20;
+
 /** Channel audio nodes */
 interface ChannelNodes {
   /** Input gain (trim/gain knob) */
@@ -51,6 +120,8 @@ interface ChannelNodes {
   fader: GainNode;
   /** Output to crossfader */
   output: GainNode;
+  /** Pre-fader level meter (taps inputGain) */
+  meter: AnalyserNode;
 }
 
 /** Mixer graph state */
@@ -59,6 +130,10 @@ interface MixerGraphState {
   channelA: ChannelNodes | null;
   /** Channel B nodes */
   channelB: ChannelNodes | null;
+  /** Channel C nodes (feeds the A side of the crossfader) */
+  channelC: ChannelNodes | null;
+  /** Channel D nodes (feeds the B side of the crossfader) */
+  channelD: ChannelNodes | null;
   /** Crossfader gain for channel A */
   crossfaderA: GainNode | null;
   /** Crossfader gain for channel B */
@@ -67,16 +142,50 @@ interface MixerGraphState {
   preMaster: GainNode | null;
   /** Analyser for metering */
   analyser: AnalyserNode | null;
+  /** Limiter input (master FX return) */
+  limiterInput: GainNode | null;
+  /** Limiter gain computer */
+  limiterCompressor: DynamicsCompressorNode | null;
+  /** Ceiling clamp after the compressor */
+  limiterCeiling: WaveShaperNode | null;
+  /** Limited path into the analyser (1 = limiter on) */
+  limiterWet: GainNode | null;
+  /** Dry path into the analyser (1 = limiter bypassed) */
+  limiterBypass: GainNode | null;
+  /** Limiter settings last applied (the ceiling curve is built for these) */
+  limiter: LimiterState | null;
   /** PFL (pre-fader listen) gain for channel A */
   pflA: GainNode | null;
   /** PFL gain for channel B */
   pflB: GainNode | null;
-  /** Cue mix node - blends PFL and main */
+  /** PFL gain for channel C */
+  pflC: GainNode | null;
+  /** PFL gain for channel D */
+  pflD: GainNode | null;
+  /** Cue bus - sums the CUE'd channels */
+  cueBus: GainNode | null;
+  /** Cue mix node - cue bus level in blend mode */
   cueMix: GainNode | null;
   /** Main output gain (before headphone blend) */
   mainGain: GainNode | null;
-  /** Current cue mix value (0=PFL, 1=Main) */
-  cueMixValue: number;
+  /** Split cue: cue bus into the merger (left ear) */
+  splitCueGain: GainNode | null;
+  /** Split cue: main into the merger (right ear) */
+  splitMainGain: GainNode | null;
+  /** Split cue merger (input 0 = left, input 1 = right) */
+  splitMerger: ChannelMergerNode | null;
+  /** Master bus at master volume, without headphone cue (for recording) */
+  recordTap: GainNode | null;
+  /** Master meter analysers (left, right), split from the record tap */
+  masterMeters: [AnalyserNode, AnalyserNode] | null;
+  /** Splits the record tap into the master meters */
+  masterMeterSplitter: ChannelSplitterNode | null;
+  /** Current local monitor settings */
+  monitor: MonitorSettings;
+  /** FX unit input/output nodes (null if FX unavailable) */
+  fxNodes: Record<FxUnitId, [GainNode, GainNode]> | null;
+  /** Current FX assignment, used to skip redundant re-routing */
+  fxRouting: Record<FxUnitId, FxAssign> | null;
   /** Is initialized */
   initialized: boolean;
 }
@@ -85,15 +194,34 @@ interface MixerGraphState {
 let mixerGraph: MixerGraphState = {
   channelA: null,
   channelB: null,
+  channelC: null,
+  channelD: null,
   crossfaderA: null,
   crossfaderB: null,
   preMaster: null,
   analyser: null,
+  limiterInput: null,
+  limiterCompressor: null,
+  limiterCeiling: null,
+  limiterWet: null,
+  limiterBypass: null,
+  limiter: null,
   pflA: null,
   pflB: null,
+  pflC: null,
+  pflD: null,
+  cueBus: null,
   cueMix: null,
   mainGain: null,
-  cueMixValue: 1.0,
+  splitCueGain: null,
+  splitMainGain: null,
+  splitMerger: null,
+  recordTap: null,
+  masterMeters: null,
+  masterMeterSplitter: null,
+  monitor: { cue: [], headphoneMix: 1.0, splitCue: false },
+  fxNodes: null,
+  fxRouting: null,
   initialized: false,
 };
 
@@ -112,6 +240,57 @@ let clippingState: ClippingState = {
 type ClippingListener = (state: ClippingState) => void;
 const clippingListeners = new Set<ClippingListener>();
 
+/** Current limiter gain reduction (dB, 0 = none, positive = reducing) */
+let gainReductionDb = 0;
+
+/** Gain reduction listeners */
+type GainReductionListener = (reductionDb: number) => void;
+const gainReductionListeners = new Set<GainReductionListener>();
+
+/** One level meter's reading (dB, METER_FLOOR_DB = silence) */
+export interface MeterReading {
+  /** VU level: RMS with ~300ms ballistics */
+  levelDb: number;
+  /** Sample peak over the last frame */
+  peakDb: number;
+  /** Peak-hold marker */
+  holdDb: number;
+  /** When the peak-hold marker starts falling (ms, RAF time) */
+  holdUntilMs: number;
+}
+
+/** All meter readings */
+export interface MeterLevels {
+  /** Pre-fader level per channel */
+  channels: Record<DeckId, MeterReading>;
+  /** Master bus left and right */
+  master: [MeterReading, MeterReading];
+}
+
+/** Meter listeners */
+type MeterListener = (levels: MeterLevels) => void;
+const meterListeners = new Set<MeterListener>();
+
+/** Create a silent meter reading */
+export function createSilentMeterReading(): MeterReading {
+  return {
+    levelDb: METER_FLOOR_DB,
+    peakDb: METER_FLOOR_DB,
+    holdDb: METER_FLOOR_DB,
+    holdUntilMs: 0,
+  };
+}
+
+let meterLevels: MeterLevels = {
+  channels: {
+    A: createSilentMeterReading(),
+    B: createSilentMeterReading(),
+    C: createSilentMeterReading(),
+    D: createSilentMeterReading(),
+  },
+  master: [createSilentMeterReading(), createSilentMeterReading()],
+};
+
 /**
  * Create a channel's audio nodes.
  */
@@ -145,14 +324,19 @@ function createChannelNodes(ctx: AudioContext): ChannelNodes {
   const output = ctx.createGain();
   output.gain.value = 1.0;
 
+  // Pre-fader meter (read-only tap, not connected onward)
+  const meter = ctx.createAnalyser();
+  meter.fftSize = METER_FFT_SIZE;
+
   // Connect chain: inputGain → eqLow → eqMid → eqHigh → fader → output
   inputGain.connect(eqLow);
   eqLow.connect(eqMid);
   eqMid.connect(eqHigh);
   eqHigh.connect(fader);
   fader.connect(output);
+  inputGain.connect(meter);
 
-  return { inputGain, eqLow, eqMid, eqHigh, fader, output };
+  return { inputGain, eqLow, eqMid, eqHigh, fader, output, meter };
 }
 
 /**
@@ -174,9 +358,11 @@ export function initMixerGraph(): boolean {
 
   console.log("[mixer-graph] Initializing...");
 
-  // Create channels
+  // Create channels (C/D are always built; they stay silent in two-deck rooms)
   mixerGraph.channelA = createChannelNodes(ctx);
   mixerGraph.channelB = createChannelNodes(ctx);
+  mixerGraph.channelC = createChannelNodes(ctx);
+  mixerGraph.channelD = createChannelNodes(ctx);
 
   // Create crossfader gains - initialize at center position (0.5)
   // This matches the default state in state.ts: crossfader: 0.5
@@ -198,56 +384,114 @@ export function initMixerGraph(): boolean {
   mixerGraph.analyser.fftSize = 256;
   mixerGraph.analyser.smoothingTimeConstant = 0.3;
 
+  // Create master limiter: input → compressor → ceiling → wet, and input → bypass
+  mixerGraph.limiterInput = ctx.createGain();
+  mixerGraph.limiterInput.gain.value = 1.0;
+  mixerGraph.limiterCompressor = ctx.createDynamicsCompressor();
+  mixerGraph.limiterCompressor.knee.value = 0;
+  mixerGraph.limiterCompressor.ratio.value = LIMITER_RATIO;
+  mixerGraph.limiterCompressor.attack.value = LIMITER_ATTACK_SEC;
+  mixerGraph.limiterCeiling = ctx.createWaveShaper();
+  mixerGraph.limiterCeiling.oversample = "4x";
+  mixerGraph.limiterWet = ctx.createGain();
+  mixerGraph.limiterWet.gain.value = 1.0;
+  mixerGraph.limiterBypass = ctx.createGain();
+  mixerGraph.limiterBypass.gain.value = 0;
+  mixerGraph.limiterInput.connect(mixerGraph.limiterCompressor);
+  mixerGraph.limiterCompressor.connect(mixerGraph.limiterCeiling);
+  mixerGraph.limiterCeiling.connect(mixerGraph.limiterWet);
+  mixerGraph.limiterInput.connect(mixerGraph.limiterBypass);
+  mixerGraph.limiterWet.connect(mixerGraph.analyser);
+  mixerGraph.limiterBypass.connect(mixerGraph.analyser);
+  updateLimiter(createDefaultLimiter());
+
   // Create PFL tap points (after EQ, before fader)
   mixerGraph.pflA = ctx.createGain();
-  mixerGraph.pflA.gain.value = 0; // Off by default (cueMix=1 means main only)
+  mixerGraph.pflA.gain.value = 0; // Off until the channel's CUE button is on
   mixerGraph.pflB = ctx.createGain();
   mixerGraph.pflB.gain.value = 0;
+  mixerGraph.pflC = ctx.createGain();
+  mixerGraph.pflC.gain.value = 0;
+  mixerGraph.pflD = ctx.createGain();
+  mixerGraph.pflD.gain.value = 0;
 
   // Tap EQ output to PFL (before fader)
   mixerGraph.channelA.eqHigh.connect(mixerGraph.pflA);
   mixerGraph.channelB.eqHigh.connect(mixerGraph.pflB);
+  mixerGraph.channelC.eqHigh.connect(mixerGraph.pflC);
+  mixerGraph.channelD.eqHigh.connect(mixerGraph.pflD);
 
-  // Create cue mix summing node
+  // Create cue bus and blend-mode cue mix
+  mixerGraph.cueBus = ctx.createGain();
+  mixerGraph.cueBus.gain.value = 1.0;
   mixerGraph.cueMix = ctx.createGain();
-  mixerGraph.cueMix.gain.value = 1.0;
+  mixerGraph.cueMix.gain.value = 0;
 
   // Create main output gain
   mixerGraph.mainGain = ctx.createGain();
   mixerGraph.mainGain.gain.value = 1.0;
 
-  // PFL channels → cue mix
-  mixerGraph.pflA.connect(mixerGraph.cueMix);
-  mixerGraph.pflB.connect(mixerGraph.cueMix);
-
-  // Connect channels → crossfader gains → pre-master
+  // Split cue: each side is summed to mono by the merger's single-channel inputs
+  mixerGraph.splitCueGain = ctx.createGain();
+  mixerGraph.splitCueGain.gain.value = 0;
+  mixerGraph.splitMainGain = ctx.createGain();
+  mixerGraph.splitMainGain.gain.value = 0;
+  mixerGraph.splitMerger = ctx.createChannelMerger(2);
+
+  // Record tap: not connected to the destination, recorders connect to it
+  mixerGraph.recordTap = ctx.createGain();
+  mixerGraph.recordTap.gain.value = masterGain.gain.value;
+
+  // Master meters: record tap → splitter → L/R analysers
+  mixerGraph.masterMeterSplitter = ctx.createChannelSplitter(2);
+  const masterMeterL = ctx.createAnalyser();
+  masterMeterL.fftSize = METER_FFT_SIZE;
+  const masterMeterR = ctx.createAnalyser();
+  masterMeterR.fftSize = METER_FFT_SIZE;
+  mixerGraph.masterMeters = [masterMeterL, masterMeterR];
+  mixerGraph.recordTap.connect(mixerGraph.masterMeterSplitter);
+  mixerGraph.masterMeterSplitter.connect(masterMeterL, 0);
+  mixerGraph.masterMeterSplitter.connect(masterMeterR, 1);
+
+  // PFL channels → cue bus → (cue mix | split left)
+  mixerGraph.pflA.connect(mixerGraph.cueBus);
+  mixerGraph.pflB.connect(mixerGraph.cueBus);
+  mixerGraph.pflC.connect(mixerGraph.cueBus);
+  mixerGraph.pflD.connect(mixerGraph.cueBus);
+  mixerGraph.cueBus.connect(mixerGraph.cueMix);
+  mixerGraph.cueBus.connect(mixerGraph.splitCueGain);
+  mixerGraph.splitCueGain.connect(mixerGraph.splitMerger, 0, 0);
+  mixerGraph.splitMainGain.connect(mixerGraph.splitMerger, 0, 1);
+
+  // Connect channels → crossfader gains → pre-master (C shares A's side, D shares B's)
   mixerGraph.channelA.output.connect(mixerGraph.crossfaderA);
   mixerGraph.channelB.output.connect(mixerGraph.crossfaderB);
+  mixerGraph.channelC.output.connect(mixerGraph.crossfaderA);
+  mixerGraph.channelD.output.connect(mixerGraph.crossfaderB);
 
   mixerGraph.crossfaderA.connect(mixerGraph.preMaster);
   mixerGraph.crossfaderB.connect(mixerGraph.preMaster);
 
-  // Initialize FX manager and insert into signal path
-  const fxNodes = initFXManager();
+  // Initialize FX units; they are inserted into the signal path by routeFxUnits
+  const fx1Nodes = initFXManager("fx1");
+  const fx2Nodes = initFXManager("fx2");
+  mixerGraph.fxNodes =
+    fx1Nodes && fx2Nodes ? { fx1: fx1Nodes, fx2: fx2Nodes } : null;
 
-  if (fxNodes) {
-    const [fxInput, fxOutput] = fxNodes;
-    // Connect: pre-master → FX input → FX output → analyser → mainGain
-    mixerGraph.preMaster.connect(fxInput);
-    fxOutput.connect(mixerGraph.analyser);
-  } else {
-    // No FX available, bypass directly
-    mixerGraph.preMaster.connect(mixerGraph.analyser);
-  }
+  // Default routing: FX1 on deck A, FX2 on deck B (matches createDefaultMixer)
+  routeFxUnits({ fx1: "A", fx2: "B" });
 
-  // Main signal path: analyser → mainGain → masterGain
+  // Main signal path: analyser → mainGain → masterGain (and → split right)
   mixerGraph.analyser.connect(mixerGraph.mainGain);
-  // CueMix + mainGain both feed into masterGain
+  mixerGraph.analyser.connect(mixerGraph.splitMainGain);
+  mixerGraph.analyser.connect(mixerGraph.recordTap);
+  // CueMix, mainGain and the split merger all feed into masterGain
   mixerGraph.cueMix.connect(masterGain);
   mixerGraph.mainGain.connect(masterGain);
+  mixerGraph.splitMerger.connect(masterGain);
 
-  // Apply default cue mix (1.0 = main only)
-  updateCueMix(1.0);
+  // Apply current monitor settings (default: nothing cued, main only)
+  updateMonitor(mixerGraph.monitor);
 
   mixerGraph.initialized = true;
   console.log("[mixer-graph] Initialized successfully (with FX)");
@@ -258,16 +502,110 @@ export function initMixerGraph(): boolean {
   return true;
 }
 
+/**
+ * Get the channel nodes for a deck.
+ */
+function getChannelNodes(deckId: DeckId): ChannelNodes | null {
+  switch (deckId) {
+    case "A":
+      return mixerGraph.channelA;
+    case "B":
+      return mixerGraph.channelB;
+    case "C":
+      return mixerGraph.channelC;
+    case "D":
+      return mixerGraph.channelD;
+  }
+}
+
+/**
+ * Route FX units into the insert points they are assigned to.
+ * Every insert point is rebuilt: targets with no unit assigned are wired straight through.
+ */
+function routeFxUnits(assignments: Record<FxUnitId, FxAssign>): void {
+  const current = mixerGraph.fxRouting;
+  if (
+    current &&
+    FX_UNIT_IDS.every((unitId) => current[unitId] === assignments[unitId])
+  ) {
+    return;
+  }
+
+  const { preMaster, limiterInput, fxNodes } = mixerGraph;
+  if (!preMaster || !limiterInput) return;
+
+  const insertPoints: Array<[FxAssign, GainNode, AudioNode]> = [
+    ["master", preMaster, limiterInput],
+  ];
+  for (const deckId of ["A", "B", "C", "D"] as const) {
+    const channel = getChannelNodes(deckId);
+    if (channel) {
+      insertPoints.push([deckId, channel.fader, channel.output]);
+    }
+  }
+
+  // Tear down previous unit outputs before rewiring
+  if (fxNodes) {
+    for (const unitId of FX_UNIT_IDS) {
+      fxNodes[unitId][1].disconnect();
+    }
+  }
+
+  for (const [target, source, destination] of insertPoints) {
+    source.disconnect();
+
+    let tail: AudioNode = source;
+    if (fxNodes) {
+      for (const unitId of FX_UNIT_IDS) {
+        if (assignments[unitId] !== target) continue;
+        const [fxInput, fxOutput] = fxNodes[unitId];
+        tail.connect(fxInput);
+        tail = fxOutput;
+      }
+    }
+    tail.connect(destination);
+  }
+
+  mixerGraph.fxRouting = { ...assignments };
+  console.log(
+    `[mixer-graph] FX routing: fx1→${assignments.fx1} fx2→${assignments.fx2}`
+  );
+}
+
+/**
+ * Get the node recorders should capture: the master bus at master volume,
+ * without headphone cue. Falls back to the engine master before init.
+ */
+export function getRecordOutput(): AudioNode | null {
+  if (!mixerGraph.initialized) {
+    initMixerGraph();
+  }
+
+  return mixerGraph.recordTap ?? getMasterGain();
+}
+
 /**
  * Get the input node for a deck to connect to.
  */
-export function getDeckInput(deckId: "A" | "B"): GainNode | null {
+export function getDeckInput(deckId: DeckId): GainNode | null {
+  if (!mixerGraph.initialized) {
+    initMixerGraph();
+  }
+
+  return getChannelNodes(deckId)?.inputGain ?? null;
+}
+
+/**
+ * Get the headphone cue bus input, for local-only sources like queue
+ * prelisten. Anything connected here follows the member's cue/main blend
+ * and never reaches the master bus or the recorder.
+ */
+export function getCueInput(): GainNode | null {
   if (!mixerGraph.initialized) {
     initMixerGraph();
   }
 
-  const channel = deckId === "A" ? mixerGraph.channelA : mixerGraph.channelB;
-  return channel?.inputGain ?? null;
+  return mixerGraph.cueBus;
 }
 
 /**
@@ -314,26 +652,130 @@ function updateCrossfader(position: number): void {
 }
 
 /**
- * Update headphone cue mix.
- * 0 = PFL only (pre-fader listen), 1 = main only
+ * Get the PFL tap for a deck's channel.
  */
-function updateCueMix(value: number): void {
-  const mix = clamp(value, 0, 1);
-  mixerGraph.cueMixValue = mix;
+function getPflNode(deckId: DeckId): GainNode | null {
+  switch (deckId) {
+    case "A":
+      return mixerGraph.pflA;
+    case "B":
+      return mixerGraph.pflB;
+    case "C":
+      return mixerGraph.pflC;
+    case "D":
+      return mixerGraph.pflD;
+  }
+}
+
+/** Gain levels of the monitoring nodes */
+export interface MonitorGains {
+  /** PFL tap per channel (1 = CUE on) */
+  pfl: Record<DeckId, number>;
+  /** Cue bus level in blend mode */
+  cueMix: number;
+  /** Main level in blend mode */
+  main: number;
+  /** Cue bus into the left ear (split cue) */
+  splitCue: number;
+  /** Main into the right ear (split cue) */
+  splitMain: number;
+}
+
+/**
+ * Compute monitoring gains from monitor settings.
+ * CUE buttons open each channel's PFL tap. In blend mode headphoneMix
+ * crossfades cue (0) and main (1); in split cue mode cue is fully in the
+ * left ear and main fully in the right.
+ */
+export function getMonitorGains(monitor: MonitorSettings): MonitorGains {
+  const mix = clamp(monitor.headphoneMix, 0, 1);
+  const split = monitor.splitCue;
+  const cued = (deckId: DeckId) => (monitor.cue.includes(deckId) ? 1 : 0);
+
+  return {
+    pfl: { A: cued("A"), B: cued("B"), C: cued("C"), D: cued("D") },
+    cueMix: split ? 0 : 1 - mix,
+    main: split ? 0 : mix,
+    splitCue: split ? 1 : 0,
+    splitMain: split ? 1 : 0,
+  };
+}
+
+/**
+ * Update headphone monitoring nodes.
+ */
+function updateMonitor(monitor: MonitorSettings): void {
+  mixerGraph.monitor = monitor;
+  const gains = getMonitorGains(monitor);
+
+  for (const deckId of ["A", "B", "C", "D"] as const) {
+    const pfl = getPflNode(deckId);
+    if (pfl) {
+      setParamSmooth(pfl.gain, gains.pfl[deckId]);
+    }
+  }
 
-  // Main gain follows the mix value (1 = full main, 0 = no main)
   if (mixerGraph.mainGain) {
-    setParamSmooth(mixerGraph.mainGain.gain, mix);
+    setParamSmooth(mixerGraph.mainGain.gain, gains.main);
   }
+  if (mixerGraph.cueMix) {
+    setParamSmooth(mixerGraph.cueMix.gain, gains.cueMix);
+  }
+  if (mixerGraph.splitCueGain) {
+    setParamSmooth(mixerGraph.splitCueGain.gain, gains.splitCue);
+  }
+  if (mixerGraph.splitMainGain) {
+    setParamSmooth(mixerGraph.splitMainGain.gain, gains.splitMain);
+  }
+}
 
-  // PFL gains are inverse (0 = full PFL, 1 = no PFL)
-  const pflLevel = 1 - mix;
-  if (mixerGraph.pflA) {
-    setParamSmooth(mixerGraph.pflA.gain, pflLevel);
+/**
+ * Apply this member's headphone monitor settings to the audio graph.
+ * Monitoring is per member, so this never comes from the shared MixerState.
+ */
+export function applyMonitorSettings(monitor: MonitorSettings): void {
+  if (!mixerGraph.initialized) {
+    // Picked up by initMixerGraph
+    mixerGraph.monitor = monitor;
+    return;
   }
-  if (mixerGraph.pflB) {
-    setParamSmooth(mixerGraph.pflB.gain, pflLevel);
+  updateMonitor(monitor);
+}
+
+/**
+ * Waveshaper curve that passes the signal untouched up to the ceiling
+ * (linear amplitude) and clamps everything beyond it.
+ */
+export function createCeilingCurve(ceiling: number, length = LIMITER_CURVE_LENGTH): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const x = (i * 2) / (length - 1) - 1;
+    curve[i] = clamp(x, -ceiling, ceiling);
   }
+  return curve;
+}
+
+/**
+ * Update the master limiter from state.
+ */
+function updateLimiter(limiter: LimiterState): void {
+  const { limiterCompressor, limiterCeiling, limiterWet, limiterBypass } = mixerGraph;
+  if (!limiterCompressor || !limiterCeiling || !limiterWet || !limiterBypass) {
+    return;
+  }
+
+  const { thresholdDb, releaseSec, ceilingDb } = getLimiterSettings(limiter);
+  setParamSmooth(limiterCompressor.threshold, thresholdDb);
+  setParamSmooth(limiterCompressor.release, releaseSec);
+
+  // Rebuilding the curve allocates, so only do it when the ceiling moves
+  if (mixerGraph.limiter?.ceiling !== limiter.ceiling) {
+    limiterCeiling.curve = createCeilingCurve(dbToLinear(ceilingDb));
+  }
+
+  setParamFast(limiterWet.gain, limiter.enabled ? 1 : 0);
+  setParamFast(limiterBypass.gain, limiter.enabled ? 0 : 1);
+  mixerGraph.limiter = { ...limiter };
 }
 
 /**
@@ -344,6 +786,9 @@ function updateMasterVolume(volume: number): void {
   if (masterGain) {
     setParamSmooth(masterGain.gain, clamp(volume, 0, 1));
   }
+  if (mixerGraph.recordTap) {
+    setParamSmooth(mixerGraph.recordTap.gain, clamp(volume, 0, 1));
+  }
 }
 
 /**
@@ -351,8 +796,8 @@ function updateMasterVolume(volume: number): void {
  */
 export function applyMixerState(mixer: MixerState): void {
   console.log("[mixerGraph] applyMixerState called:", {
-    fxType: mixer.fx.type,
-    fxEnabled: mixer.fx.enabled,
+    fx1: `${mixer.fx1.chain.map((slot) => slot.type).join(">") || "none"} (${mixer.fx1.assign})`,
+    fx2: `${mixer.fx2.chain.map((slot) => slot.type).join(">") || "none"} (${mixer.fx2.assign})`,
     initialized: mixerGraph.initialized,
   });
 
@@ -371,6 +816,12 @@ export function applyMixerState(mixer: MixerState): void {
   if (mixerGraph.channelB) {
     updateChannel(mixerGraph.channelB, mixer.channelB);
   }
+  if (mixerGraph.channelC && mixer.channelC) {
+    updateChannel(mixerGraph.channelC, mixer.channelC);
+  }
+  if (mixerGraph.channelD && mixer.channelD) {
+    updateChannel(mixerGraph.channelD, mixer.channelD);
+  }
 
   // Update crossfader
   updateCrossfader(mixer.crossfader);
@@ -378,14 +829,18 @@ export function applyMixerState(mixer: MixerState): void {
   // Update master volume
   updateMasterVolume(mixer.masterVolume);
 
-  // Update FX
-  console.log("[mixerGraph] About to call applyFXState with:", mixer.fx);
-  applyFXState(mixer.fx);
+  // Update master limiter
+  updateLimiter(mixer.limiter);
+
+  // Update FX units and their insert points
+  routeFxUnits({ fx1: mixer.fx1.assign, fx2: mixer.fx2.assign });
+  applyFXState("fx1", mixer.fx1);
+  applyFXState("fx2", mixer.fx2);
 }
 
 /**
  * Update a single mixer parameter.
- * controlId format: "channelA.gain", "channelB.eq.low", "crossfader", "masterVolume", "fx.wetDry", "fx.param"
+ * controlId format: "channelA.gain", "channelB.eq.low", "crossfader", "masterVolume", "fx1.wetDry", "fx2.chain.0.param", "limiter.ceiling"
  */
 export function updateMixerParam(controlId: string, value: number): void {
   if (!mixerGraph.initialized) {
@@ -404,25 +859,31 @@ export function updateMixerParam(controlId: string, value: number): void {
     return;
   }
 
-  if (controlId === "headphoneMix") {
-    updateCueMix(value);
+  // Handle master limiter controls
+  if (parts[0] === "limiter") {
+    const limiter = mixerGraph.limiter ?? createDefaultLimiter();
+    const param = parts[1];
+    if (param === "threshold" || param === "release" || param === "ceiling") {
+      updateLimiter({ ...limiter, [param]: clamp(value, 0, 1) });
+    }
     return;
   }
 
   // Handle FX controls
-  if (parts[0] === "fx") {
-    const { setFXWetDry, setFXParam } = require("./fx/manager");
+  if (parts[0] === "fx1" || parts[0] === "fx2") {
+    const unitId: FxUnitId = parts[0];
     if (parts[1] === "wetDry") {
-      setFXWetDry(value);
-    } else if (parts[1] === "param") {
-      setFXParam(value);
+      setFXWetDry(unitId, value);
+    } else if (parts[1] === "chain" && parts[3] === "param") {
+      setFXSlotParam(unitId, Number(parts[2]), value);
     }
     return;
   }
 
-  const channelId = parts[0];
-  const channel = channelId === "channelA" ? mixerGraph.channelA : mixerGraph.channelB;
-  
+  // "channelC" -> "C"
+  const deckId = parts[0]?.replace(/^channel/, "") as DeckId;
+  const channel = getChannelNodes(deckId);
+
   if (!channel) return;
 
   const param = parts[1];
@@ -481,6 +942,20 @@ function startClippingDetection(): void {
       }
     }
 
+    // Limiter gain reduction (reduction is negative dB; 0 while bypassed)
+    const limiterOn = mixerGraph.limiter?.enabled ?? false;
+    const reduction = limiterOn && mixerGraph.limiterCompressor
+      ? Math.max(0, -mixerGraph.limiterCompressor.reduction)
+      : 0;
+    // Always report the return to 0 so the meter doesn't stick just above it
+    const settled = reduction === 0 && gainReductionDb !== 0;
+    if (settled || Math.abs(reduction - gainReductionDb) >= GAIN_REDUCTION_STEP_DB) {
+      gainReductionDb = reduction;
+      for (const listener of gainReductionListeners) {
+        listener(gainReductionDb);
+      }
+    }
+
     clippingDetectionId = requestAnimationFrame(detect);
   };
 
@@ -521,6 +996,123 @@ export function getPeakLevel(): number {
   return clippingState.peakLevel;
 }
 
+/**
+ * Subscribe to master limiter gain reduction (dB, 0 = none).
+ * Notified when it moves by 0.1dB or more.
+ */
+export function subscribeToGainReduction(listener: GainReductionListener): () => void {
+  gainReductionListeners.add(listener);
+  // Immediately notify of current state
+  listener(gainReductionDb);
+  return () => gainReductionListeners.delete(listener);
+}
+
+/** Linear amplitude to meter dB, floored at METER_FLOOR_DB */
+function toMeterDb(linear: number): number {
+  return linear > 0 ? Math.max(METER_FLOOR_DB, linearToDb(linear)) : METER_FLOOR_DB;
+}
+
+/**
+ * Advance a meter reading by one frame of samples: VU ballistics on the
+ * RMS level, and a peak-hold marker that holds for 1.5s then falls at
+ * 20dB/s.
+ */
+export function updateMeterReading(
+  prev: MeterReading,
+  samples: Float32Array,
+  dtSec: number,
+  nowMs: number
+): MeterReading {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] ?? 0;
+    sumSquares += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  const rms = samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+
+  // VU: exponential approach to the frame's RMS
+  const coefficient = 1 - Math.exp(-dtSec / METER_VU_TIME_SEC);
+  const levelDb = prev.levelDb + (toMeterDb(rms) - prev.levelDb) * coefficient;
+
+  const peakDb = toMeterDb(peak);
+  if (peakDb >= prev.holdDb) {
+    return { levelDb, peakDb, holdDb: peakDb, holdUntilMs: nowMs + METER_PEAK_HOLD_MS };
+  }
+  const holdDb = nowMs < prev.holdUntilMs
+    ? prev.holdDb
+    : Math.max(peakDb, prev.holdDb - METER_PEAK_FALL_DB_PER_SEC * dtSec);
+  return { levelDb, peakDb, holdDb, holdUntilMs: prev.holdUntilMs };
+}
+
+/** Samples buffer shared by every meter read (all meters are the same size) */
+const meterSamples = new Float32Array(METER_FFT_SIZE);
+
+/** RAF time of the last meter read (null = not read yet) */
+let lastMeterTimeMs: number | null = null;
+
+/** Unsubscribe from the shared RAF loop (null = not metering) */
+let stopMeterLoop: (() => void) | null = null;
+
+/**
+ * Read every meter analyser once and notify listeners. Runs on the
+ * shared RAF loop.
+ */
+function readMeters(timeMs: number): void {
+  const { masterMeters } = mixerGraph;
+  if (!mixerGraph.initialized || !masterMeters) return;
+
+  // Cap the step so a backgrounded tab doesn't jump the ballistics
+  const dtSec = lastMeterTimeMs === null ? 0 : Math.min(0.1, (timeMs - lastMeterTimeMs) / 1000);
+  lastMeterTimeMs = timeMs;
+
+  const read = (analyser: AnalyserNode, prev: MeterReading): MeterReading => {
+    analyser.getFloatTimeDomainData(meterSamples);
+    return updateMeterReading(prev, meterSamples, dtSec, timeMs);
+  };
+
+  const channels = { ...meterLevels.channels };
+  for (const deckId of ["A", "B", "C", "D"] as const) {
+    const channel = getChannelNodes(deckId);
+    if (channel) {
+      channels[deckId] = read(channel.meter, channels[deckId]);
+    }
+  }
+  meterLevels = {
+    channels,
+    master: [
+      read(masterMeters[0], meterLevels.master[0]),
+      read(masterMeters[1], meterLevels.master[1]),
+    ],
+  };
+
+  for (const listener of meterListeners) {
+    listener(meterLevels);
+  }
+}
+
+/**
+ * Subscribe to level meter readings, delivered every animation frame.
+ * Meters are only read while at least one listener is subscribed.
+ */
+export function subscribeToMeters(listener: MeterListener): () => void {
+  meterListeners.add(listener);
+  listener(meterLevels);
+  if (!stopMeterLoop) {
+    lastMeterTimeMs = null;
+    stopMeterLoop = rafManager.subscribe(readMeters);
+  }
+
+  return () => {
+    meterListeners.delete(listener);
+    if (meterListeners.size === 0 && stopMeterLoop) {
+      stopMeterLoop();
+      stopMeterLoop = null;
+    }
+  };
+}
+
 /**
  * Check if mixer graph is initialized.
  */
@@ -542,6 +1134,14 @@ export function disposeMixerGraph(): void {
     mixerGraph.channelB.inputGain.disconnect();
     mixerGraph.channelB = null;
   }
+  if (mixerGraph.channelC) {
+    mixerGraph.channelC.inputGain.disconnect();
+    mixerGraph.channelC = null;
+  }
+  if (mixerGraph.channelD) {
+    mixerGraph.channelD.inputGain.disconnect();
+    mixerGraph.channelD = null;
+  }
   if (mixerGraph.crossfaderA) {
     mixerGraph.crossfaderA.disconnect();
     mixerGraph.crossfaderA = null;
@@ -558,6 +1158,26 @@ export function disposeMixerGraph(): void {
     mixerGraph.analyser.disconnect();
     mixerGraph.analyser = null;
   }
+  if (mixerGraph.limiterInput) {
+    mixerGraph.limiterInput.disconnect();
+    mixerGraph.limiterInput = null;
+  }
+  if (mixerGraph.limiterCompressor) {
+    mixerGraph.limiterCompressor.disconnect();
+    mixerGraph.limiterCompressor = null;
+  }
+  if (mixerGraph.limiterCeiling) {
+    mixerGraph.limiterCeiling.disconnect();
+    mixerGraph.limiterCeiling = null;
+  }
+  if (mixerGraph.limiterWet) {
+    mixerGraph.limiterWet.disconnect();
+    mixerGraph.limiterWet = null;
+  }
+  if (mixerGraph.limiterBypass) {
+    mixerGraph.limiterBypass.disconnect();
+    mixerGraph.limiterBypass = null;
+  }
   if (mixerGraph.pflA) {
     mixerGraph.pflA.disconnect();
     mixerGraph.pflA = null;
@@ -566,6 +1186,18 @@ export function disposeMixerGraph(): void {
     mixerGraph.pflB.disconnect();
     mixerGraph.pflB = null;
   }
+  if (mixerGraph.pflC) {
+    mixerGraph.pflC.disconnect();
+    mixerGraph.pflC = null;
+  }
+  if (mixerGraph.pflD) {
+    mixerGraph.pflD.disconnect();
+    mixerGraph.pflD = null;
+  }
+  if (mixerGraph.cueBus) {
+    mixerGraph.cueBus.disconnect();
+    mixerGraph.cueBus = null;
+  }
   if (mixerGraph.cueMix) {
     mixerGraph.cueMix.disconnect();
     mixerGraph.cueMix = null;
@@ -574,7 +1206,31 @@ export function disposeMixerGraph(): void {
     mixerGraph.mainGain.disconnect();
     mixerGraph.mainGain = null;
   }
+  if (mixerGraph.splitCueGain) {
+    mixerGraph.splitCueGain.disconnect();
+    mixerGraph.splitCueGain = null;
+  }
+  if (mixerGraph.splitMainGain) {
+    mixerGraph.splitMainGain.disconnect();
+    mixerGraph.splitMainGain = null;
+  }
+  if (mixerGraph.splitMerger) {
+    mixerGraph.splitMerger.disconnect();
+    mixerGraph.splitMerger = null;
+  }
+  if (mixerGraph.recordTap) {
+    mixerGraph.recordTap.disconnect();
+    mixerGraph.recordTap = null;
+  }
+  if (mixerGraph.masterMeterSplitter) {
+    mixerGraph.masterMeterSplitter.disconnect();
+    mixerGraph.masterMeterSplitter = null;
+  }
+  mixerGraph.masterMeters = null;
 
+  mixerGraph.fxNodes = null;
+  mixerGraph.fxRouting = null;
+  mixerGraph.limiter = null;
   mixerGraph.initialized = false;
   clippingListeners.clear();
   
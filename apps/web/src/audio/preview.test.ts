@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  computePreviewPosition,
+  subscribeToPreview,
+  getPreviewState,
+  seekPreview,
+  stopPreview,
+  type PreviewState,
+} from "./preview";
+
+describe("Queue prelisten", () => {
+  describe("computePreviewPosition", () => {
+    it("advances with the audio clock while playing", () => {
+      expect(computePreviewPosition(10, 100, 102.5, 180, true)).toBeCloseTo(12.5);
+    });
+
+    it("holds the stored offset while paused", () => {
+      expect(computePreviewPosition(42, 100, 150, 180, false)).toBe(42);
+    });
+
+    it("clamps to the track length", () => {
+      expect(computePreviewPosition(170, 100, 130, 180, true)).toBe(180);
+      expect(computePreviewPosition(0, 100, 99, 180, true)).toBe(0);
+    });
+  });
+
+  describe("player state", () => {
+    it("starts idle and notifies subscribers immediately", () => {
+      const states: PreviewState[] = [];
+      const unsubscribe = subscribeToPreview((state) => states.push(state));
+
+      expect(states).toHaveLength(1);
+      expect(states[0]?.status).toBe("idle");
+      expect(states[0]?.key).toBeNull();
+
+      unsubscribe();
+    });
+
+    it("ignores seeks when nothing is loaded", () => {
+      seekPreview(30);
+      expect(getPreviewState().status).toBe("idle");
+      expect(getPreviewState().playing).toBe(false);
+    });
+
+    it("stopPreview resets to idle and notifies", () => {
+      const states: PreviewState[] = [];
+      const unsubscribe = subscribeToPreview((state) => states.push(state));
+
+      stopPreview();
+
+      expect(states).toHaveLength(2);
+      expect(states[1]).toMatchObject({ key: null, status: "idle", playing: false, waveform: null });
+
+      unsubscribe();
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Queue prelisten - auditions a track in this member's headphones.
+ *
+ * The preview player feeds the mixer's cue bus directly, so it follows the
+ * headphone cue/main blend (or the left ear in split cue) and never reaches
+ * the master bus or the recorder. It is purely local: nothing here touches
+ * room state or sends events, so a DJ can check the next track while the
+ * room keeps listening to the live deck.
+ */
+
+import { getAudioContext, initAudioEngine } from "./engine";
+import { getCueInput } from "./mixerGraph";
+import { generateWaveform } from "./analysis/waveformGenerator";
+
+/** Buckets in the preview scrubber waveform */
+export const PREVIEW_WAVEFORM_BUCKETS = 200;
+
+/** Something that can be previewed: a queue item or a search result */
+export interface PreviewSource {
+  /** Identifies the source so the UI can tell which item is previewing */
+  key: string;
+  title: string;
+  /** Where to fetch the audio when no buffer is available */
+  url: string;
+  /** Already decoded audio (e.g. a pre-loaded YouTube queue item) */
+  buffer?: AudioBuffer | null;
+}
+
+export type PreviewStatus = "idle" | "loading" | "ready" | "error";
+
+/** Preview player state (playback position is read separately, per frame) */
+export interface PreviewState {
+  key: string | null;
+  title: string;
+  status: PreviewStatus;
+  playing: boolean;
+  durationSec: number;
+  /** Normalized peaks for the scrubber, null until the audio is decoded */
+  waveform: Float32Array | null;
+  error: string | null;
+}
+
+type PreviewListener = (state: PreviewState) => void;
+
+const IDLE_STATE: PreviewState = {
+  key: null,
+  title: "",
+  status: "idle",
+  playing: false,
+  durationSec: 0,
+  waveform: null,
+  error: null,
+};
+
+let state: PreviewState = IDLE_STATE;
+let buffer: AudioBuffer | null = null;
+let source: AudioBufferSourceNode | null = null;
+
+/** Track position when playback last started or paused (seconds) */
+let offsetSec = 0;
+/** AudioContext time playback last started */
+let startedAt = 0;
+
+/** Bumped on every load so a slow fetch can't replace a newer preview */
+let loadToken = 0;
+
+const listeners: Set<PreviewListener> = new Set();
+
+function setState(next: Partial<PreviewState>): void {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Playback position in seconds, given where playback started.
+ * Clamped to the track so a stale clock can't overshoot the end.
+ */
+export function computePreviewPosition(
+  offset: number,
+  startTime: number,
+  now: number,
+  durationSec: number,
+  playing: boolean
+): number {
+  const position = playing ? offset + (now - startTime) : offset;
+  return Math.max(0, Math.min(durationSec, position));
+}
+
+/**
+ * Subscribe to preview state changes. The listener is called immediately
+ * with the current state.
+ */
+export function subscribeToPreview(listener: PreviewListener): () => void {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the current preview state.
+ */
+export function getPreviewState(): PreviewState {
+  return state;
+}
+
+/**
+ * Get the current preview playback position in seconds.
+ */
+export function getPreviewPosition(): number {
+  const ctx = getAudioContext();
+  return computePreviewPosition(
+    offsetSec,
+    startedAt,
+    ctx?.currentTime ?? startedAt,
+    state.durationSec,
+    state.playing
+  );
+}
+
+/**
+ * Stop the source node without touching the stored position.
+ */
+function stopSource(): void {
+  if (!source) {
+    return;
+  }
+  // Detach first so onended doesn't treat this as the track running out
+  source.onended = null;
+  try {
+    source.stop();
+  } catch {
+    // Already stopped
+  }
+  source.disconnect();
+  source = null;
+}
+
+/**
+ * Start the source node at the stored position.
+ */
+function startSource(): void {
+  const ctx = getAudioContext();
+  const cueInput = getCueInput();
+  if (!ctx || !cueInput || !buffer) {
+    console.warn("[preview] Cannot play: audio not ready");
+    return;
+  }
+
+  stopSource();
+  if (offsetSec >= buffer.duration) {
+    offsetSec = 0;
+  }
+
+  const node = ctx.createBufferSource();
+  node.buffer = buffer;
+  node.connect(cueInput);
+  node.onended = () => {
+    if (source !== node) {
+      return;
+    }
+    // Ran off the end: rewind so the next play starts from the top
+    node.disconnect();
+    source = null;
+    offsetSec = 0;
+    setState({ playing: false });
+  };
+  node.start(0, offsetSec);
+
+  source = node;
+  startedAt = ctx.currentTime;
+  setState({ playing: true });
+}
+
+/**
+ * Fetch and decode a preview source.
+ */
+async function loadPreviewBuffer(ctx: AudioContext, url: string): Promise<AudioBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio: ${response.status} ${response.statusText}`);
+  }
+  const arrayBuffer = await response.arrayBuffer();
+  return ctx.decodeAudioData(arrayBuffer);
+}
+
+/**
+ * Load a source into the preview player and play it from the start.
+ */
+export async function startPreview(next: PreviewSource): Promise<void> {
+  const token = ++loadToken;
+
+  stopSource();
+  buffer = null;
+  offsetSec = 0;
+  setState({ ...IDLE_STATE, key: next.key, title: next.title, status: "loading" });
+
+  try {
+    const ctx = getAudioContext() ?? (await initAudioEngine());
+    const decoded = next.buffer ?? (await loadPreviewBuffer(ctx, next.url));
+    if (token !== loadToken) {
+      return;
+    }
+
+    buffer = decoded;
+    const { peaks } = generateWaveform(decoded, PREVIEW_WAVEFORM_BUCKETS);
+    setState({ status: "ready", durationSec: decoded.duration, waveform: peaks });
+    console.log(`[preview] Loaded "${next.title}" (${decoded.duration.toFixed(1)}s)`);
+
+    startSource();
+  } catch (error) {
+    if (token !== loadToken) {
+      return;
+    }
+    console.error(`[preview] Failed to load "${next.title}":`, error);
+    setState({
+      status: "error",
+      error: error instanceof Error ? error.message : "Failed to load preview",
+    });
+  }
+}
+
+/**
+ * Preview button behaviour: start a new source, or pause/resume the one
+ * already loaded.
+ */
+export function togglePreview(next: PreviewSource): void {
+  if (state.key !== next.key || state.status === "error") {
+    void startPreview(next);
+    return;
+  }
+  if (state.status !== "ready") {
+    return;
+  }
+  if (state.playing) {
+    pausePreview();
+  } else {
+    startSource();
+  }
+}
+
+/**
+ * Pause the preview, keeping its position.
+ */
+export function pausePreview(): void {
+  if (!state.playing) {
+    return;
+  }
+  offsetSec = getPreviewPosition();
+  stopSource();
+  setState({ playing: false });
+}
+
+/**
+ * Resume a paused preview.
+ */
+export function resumePreview(): void {
+  if (state.status === "ready" && !state.playing) {
+    startSource();
+  }
+}
+
+/**
+ * Jump to a position in the preview (seconds). Keeps playing if it was.
+ */
+export function seekPreview(positionSec: number): void {
+  if (state.status !== "ready") {
+    return;
+  }
+  offsetSec = Math.max(0, Math.min(state.durationSec, positionSec));
+  if (state.playing) {
+    startSource();
+  }
+}
+
+/**
+ * Stop the preview and unload it.
+ */
+export function stopPreview(): void {
+  loadToken++;
+  stopSource();
+  buffer = null;
+  offsetSec = 0;
+  setState(IDLE_STATE);
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { pickRecordingMimeType, getRecordingElapsedSec, getRecorderState } from "./recorder";
+
+describe("master recorder", () => {
+  it("prefers Opus in WebM, falling back to what the browser supports", () => {
+    expect(pickRecordingMimeType(() => true)).toBe("audio/webm;codecs=opus");
+    // Safari
+    expect(pickRecordingMimeType((type) => type === "audio/mp4")).toBe("audio/mp4");
+    expect(pickRecordingMimeType(() => false)).toBeNull();
+  });
+
+  it("measures elapsed time from the start of the recording", () => {
+    expect(getRecorderState().status).toBe("idle");
+    expect(getRecordingElapsedSec(getRecorderState(), 5000)).toBe(0);
+
+    const recording = { status: "recording" as const, startedAt: 1000, sizeBytes: 0, mimeType: "audio/webm" };
+    expect(getRecordingElapsedSec(recording, 91_000)).toBe(90);
+  });
+});
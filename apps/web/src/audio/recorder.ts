@@ -0,0 +1,181 @@
+/**
+ * Master recorder - records the master bus in the browser.
+ *
+ * The mixer's record tap (master bus at master volume, without this member's
+ * headphone cue) feeds a MediaStreamAudioDestinationNode, which MediaRecorder
+ * encodes. Chunks are collected every second so the file size can be shown
+ * while recording.
+ *
+ * The recorder is a singleton: one recording per browser at a time.
+ */
+
+import { getAudioContext } from "./engine";
+import { getRecordOutput } from "./mixerGraph";
+
+/** Recording formats, best first (Safari can only record MP4) */
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/webm",
+  "audio/mp4",
+];
+
+/** Encoder bitrate (Opus at 192kbps is transparent for a DJ mix) */
+const RECORDING_BITS_PER_SECOND = 192_000;
+
+/** How often MediaRecorder hands over a chunk */
+const CHUNK_INTERVAL_MS = 1000;
+
+export type RecorderStatus = "idle" | "recording";
+
+/** Recorder state */
+export interface RecorderState {
+  status: RecorderStatus;
+  /** performance.now() when recording started (null when idle) */
+  startedAt: number | null;
+  /** Bytes encoded so far */
+  sizeBytes: number;
+  /** Format being recorded (null when idle) */
+  mimeType: string | null;
+}
+
+/** A finished recording, ready to upload */
+export interface RecordingResult {
+  blob: Blob;
+  mimeType: string;
+  durationSec: number;
+}
+
+const IDLE_STATE: RecorderState = {
+  status: "idle",
+  startedAt: null,
+  sizeBytes: 0,
+  mimeType: null,
+};
+
+let recorderState: RecorderState = IDLE_STATE;
+let mediaRecorder: MediaRecorder | null = null;
+let streamDestination: MediaStreamAudioDestinationNode | null = null;
+let chunks: Blob[] = [];
+
+type RecorderListener = (state: RecorderState) => void;
+const listeners = new Set<RecorderListener>();
+
+function setRecorderState(next: RecorderState): void {
+  recorderState = next;
+  for (const listener of listeners) {
+    listener(recorderState);
+  }
+}
+
+/**
+ * Get the current recorder state.
+ */
+export function getRecorderState(): RecorderState {
+  return recorderState;
+}
+
+/**
+ * Subscribe to recorder state changes.
+ */
+export function subscribeToRecorder(listener: RecorderListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Pick the best recording format the browser supports (null if none).
+ */
+export function pickRecordingMimeType(
+  isTypeSupported: (mimeType: string) => boolean
+): string | null {
+  return RECORDING_MIME_TYPES.find((mimeType) => isTypeSupported(mimeType)) ?? null;
+}
+
+/**
+ * Seconds recorded so far (0 when idle).
+ */
+export function getRecordingElapsedSec(
+  state: RecorderState,
+  now: number = performance.now()
+): number {
+  if (state.startedAt === null) return 0;
+  return Math.max(0, (now - state.startedAt) / 1000);
+}
+
+/**
+ * Start recording the master bus.
+ * Throws if the audio engine isn't running or MediaRecorder is unavailable.
+ */
+export function startRecording(): void {
+  if (recorderState.status === "recording") return;
+
+  const ctx = getAudioContext();
+  const output = getRecordOutput();
+  if (!ctx || !output) {
+    throw new Error("Audio engine is not running");
+  }
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("Recording is not supported in this browser");
+  }
+
+  const mimeType = pickRecordingMimeType((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("No supported recording format");
+  }
+
+  streamDestination = ctx.createMediaStreamDestination();
+  output.connect(streamDestination);
+  chunks = [];
+
+  const recorder = new MediaRecorder(streamDestination.stream, {
+    mimeType,
+    audioBitsPerSecond: RECORDING_BITS_PER_SECOND,
+  });
+  recorder.ondataavailable = (e) => {
+    if (e.data.size === 0) return;
+    chunks.push(e.data);
+    setRecorderState({ ...recorderState, sizeBytes: recorderState.sizeBytes + e.data.size });
+  };
+  recorder.start(CHUNK_INTERVAL_MS);
+  mediaRecorder = recorder;
+
+  setRecorderState({
+    status: "recording",
+    startedAt: performance.now(),
+    sizeBytes: 0,
+    mimeType,
+  });
+  console.log(`[recorder] Recording master bus (${mimeType})`);
+}
+
+/**
+ * Stop recording. Resolves with the finished file (null if not recording).
+ */
+export function stopRecording(): Promise<RecordingResult | null> {
+  const recorder = mediaRecorder;
+  if (!recorder || recorderState.status !== "recording") {
+    return Promise.resolve(null);
+  }
+
+  const durationSec = getRecordingElapsedSec(recorderState);
+  const mimeType = recorderState.mimeType ?? recorder.mimeType;
+
+  return new Promise((resolve) => {
+    // The final chunk arrives before onstop
+    recorder.onstop = () => {
+      const blob = new Blob(chunks, { type: mimeType });
+      const output = getRecordOutput();
+      if (output && streamDestination) {
+        output.disconnect(streamDestination);
+      }
+      streamDestination = null;
+      mediaRecorder = null;
+      chunks = [];
+      setRecorderState(IDLE_STATE);
+      console.log(`[recorder] Stopped: ${durationSec.toFixed(1)}s, ${blob.size} bytes`);
+      resolve({ blob, mimeType, durationSec });
+    };
+    recorder.stop();
+  });
+}
@@ -388,26 +388,6 @@ export function stopAllSamples(): void {
   }
 }
 
-/**
- * Keybind to slot mapping.
- */
-export const SAMPLER_KEYBINDS: Record<string, SampleSlot> = {
-  r: 0,
-  t: 1,
-  y: 2,
-  u: 3,
-};
-
-/**
- * Slot to keybind mapping (for display).
- */
-export const SLOT_KEYBINDS: Record<SampleSlot, string> = {
-  0: "R",
-  1: "T",
-  2: "Y",
-  3: "U",
-};
-
 /**
  * Colors for each sample slot.
  * All buttons use the same orange color for a unified look.
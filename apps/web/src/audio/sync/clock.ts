@@ -240,6 +240,7 @@ export function calculateExpectedPlayhead(
   const serverNow = getServerTime();
   const elapsedMs = serverNow - epochStartTimeMs;
   // FIXED: Multiply by playbackRate to account for tempo changes
+  // (also with key lock: the source still runs at playbackRate, only its pitch is corrected)
   return startPlayheadSec + (elapsedMs / 1000) * playbackRate;
 }
 
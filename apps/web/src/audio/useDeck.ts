@@ -1,16 +1,19 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
+import type { DeckId } from "@puid-board/shared";
 import { Deck, DeckState } from "./deck";
 import { DeckEngine } from "./DeckEngine";
 
-/** Singleton deck instances */
-const decks: { A: Deck | null; B: Deck | null } = { A: null, B: null };
+/** Singleton deck instances (C/D are only created in four-deck rooms) */
+const decks: Record<DeckId, Deck | null> = { A: null, B: null, C: null, D: null };
 
 /** Singleton DeckEngine instances (manage transport state) */
-const deckEngines: { A: DeckEngine | null; B: DeckEngine | null } = {
+const deckEngines: Record<DeckId, DeckEngine | null> = {
   A: null,
   B: null,
+  C: null,
+  D: null,
 };
 
 /** Debounce helper for stable values */
@@ -33,7 +36,7 @@ function useDebounce<T>(value: T, delay: number): T {
 /**
  * Get or create a deck instance.
  */
-export function getDeck(deckId: "A" | "B"): Deck {
+export function getDeck(deckId: DeckId): Deck {
   if (!decks[deckId]) {
     decks[deckId] = new Deck(deckId);
   }
@@ -44,7 +47,7 @@ export function getDeck(deckId: "A" | "B"): Deck {
  * Get or create a DeckEngine instance.
  * DeckEngine owns transport state and sync logic.
  */
-export function getDeckEngine(deckId: "A" | "B"): DeckEngine {
+export function getDeckEngine(deckId: DeckId): DeckEngine {
   if (!deckEngines[deckId]) {
     const deck = getDeck(deckId);
     deckEngines[deckId] = new DeckEngine(deck);
@@ -55,7 +58,7 @@ export function getDeckEngine(deckId: "A" | "B"): DeckEngine {
 /**
  * Hook to use a deck's state and controls.
  */
-export function useDeck(deckId: "A" | "B") {
+export function useDeck(deckId: DeckId) {
   const deckRef = useRef<Deck>(getDeck(deckId));
   const [state, setState] = useState<DeckState>(deckRef.current.getState());
 
@@ -148,20 +151,8 @@ export function useDeck(deckId: "A" | "B") {
     deckRef.current.resetPlaybackRate();
   }, []);
 
-  const setHotCue = useCallback(() => {
-    deckRef.current.setHotCue();
-  }, []);
-
-  const jumpToHotCue = useCallback(async () => {
-    await deckRef.current.jumpToHotCue();
-  }, []);
-
-  const clearHotCue = useCallback(() => {
-    deckRef.current.clearHotCue();
-  }, []);
-
-  const setHotCuePosition = useCallback((positionSec: number | null) => {
-    deckRef.current.setHotCuePosition(positionSec);
+  const jumpToHotCue = useCallback(async (positionSec: number) => {
+    await deckRef.current.jumpToHotCue(positionSec);
   }, []);
 
   const getAnalyser = useCallback(() => {
@@ -200,10 +191,7 @@ export function useDeck(deckId: "A" | "B") {
     releaseNudge,
     setPlaybackRate,
     resetPlaybackRate,
-    setHotCue,
     jumpToHotCue,
-    clearHotCue,
-    setHotCuePosition,
     /** Current playhead in seconds */
     playhead: state.playheadSec,
     /** Track duration in seconds */
@@ -214,14 +202,18 @@ export function useDeck(deckId: "A" | "B") {
     isLoaded: state.buffer !== null || (state.isStreaming && state.audioElement !== null),
     /** Waveform data */
     waveform: state.analysis.waveform,
+    /** Three-band waveform data (zoomed view) */
+    bands: state.analysis.bands,
     /** Current BPM (adjusted for playback rate) */
     bpm: currentBpm,
+    /** Detected musical key (Camelot notation) */
+    key: state.analysis.key,
+    /** Integrated loudness and true peak */
+    loudness: state.analysis.loudness,
     /** Current playback rate */
     playbackRate: state.playbackRate,
     /** Is analyzing audio */
     isAnalyzing: state.analysis.status === "analyzing",
-    /** Hot cue point position in seconds (null if not set) */
-    hotCuePointSec: state.hotCuePointSec,
     /** Get the analyser node for real-time visualization */
     getAnalyser,
     /** Get current frequency data (normalized 0-1) for visualization */
@@ -235,88 +227,13 @@ export function useDeck(deckId: "A" | "B") {
   };
 }
 
-/** Result of a BPM sync operation */
-export interface SyncResult {
-  success: boolean;
-  newRate?: number;
-  sourceBpm?: number;
-  targetBpm?: number;
-  error?: string;
-}
-
-/**
- * Sync one deck's BPM to match the other deck.
- * Adjusts the source deck's playback rate to match the target deck's BPM.
- *
- * @param sourceDeckId - The deck to adjust (the one you pressed sync on)
- * @returns SyncResult with the new rate and details
- */
-export function syncDeckBPM(sourceDeckId: "A" | "B"): SyncResult {
-  const targetDeckId = sourceDeckId === "A" ? "B" : "A";
-
-  const sourceDeck = decks[sourceDeckId];
-  const targetDeck = decks[targetDeckId];
-
-  if (!sourceDeck || !targetDeck) {
-    console.warn(`[syncDeckBPM] Deck not initialized`);
-    return { success: false, error: "Deck not initialized" };
-  }
-
-  const sourceState = sourceDeck.getState();
-  const targetState = targetDeck.getState();
-
-  const sourceBPM = sourceState.analysis.bpm;
-  const targetBPM = targetState.analysis.bpm;
-
-  if (!sourceBPM || !targetBPM) {
-    console.warn(`[syncDeckBPM] BPM not detected - source: ${sourceBPM}, target: ${targetBPM}`);
-    return {
-      success: false,
-      error: "BPM not detected",
-      sourceBpm: sourceBPM ?? undefined,
-      targetBpm: targetBPM ?? undefined,
-    };
-  }
-
-  // Calculate the rate needed to match BPMs
-  // If source is 120 BPM and target is 130 BPM, we need rate = 130/120 = 1.083
-  const newRate = targetBPM / sourceBPM;
-
-  // Check for extreme ratios that might indicate octave detection errors
-  if (newRate > 1.5 || newRate < 0.67) {
-    console.warn(`[syncDeckBPM] Extreme ratio detected (${newRate.toFixed(3)}), possible octave error`);
-    // Still allow it but log warning
-  }
-
-  // Clamp to reasonable range (0.5x to 2.0x)
-  const clampedRate = Math.max(0.5, Math.min(2.0, newRate));
-
-  console.log(`[syncDeckBPM] Syncing Deck ${sourceDeckId} (${sourceBPM} BPM) to Deck ${targetDeckId} (${targetBPM} BPM) - rate: ${clampedRate.toFixed(3)}`);
-
-  sourceDeck.setPlaybackRate(clampedRate);
-
-  // Return the calculated rate so caller can use it immediately
-  // This fixes the race condition where deck.playbackRate might not be updated yet
-  return {
-    success: true,
-    newRate: clampedRate,
-    sourceBpm: sourceBPM,
-    targetBpm: targetBPM,
-  };
-}
-
 /**
  * Dispose all deck instances (cleanup).
  */
 export function disposeAllDecks(): void {
-  if (decks.A) {
-    decks.A.dispose();
-    decks.A = null;
-  }
-  if (decks.B) {
-    decks.B.dispose();
-    decks.B = null;
+  for (const deckId of Object.keys(decks) as DeckId[]) {
+    decks[deckId]?.dispose();
+    decks[deckId] = null;
+    deckEngines[deckId] = null;
   }
-  deckEngines.A = null;
-  deckEngines.B = null;
 }
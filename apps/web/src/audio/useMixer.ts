@@ -1,15 +1,19 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { MixerState } from "@puid-board/shared";
+import type { MixerState, MonitorSettings, RoomState } from "@puid-board/shared";
 import {
   applyMixerState,
+  applyMonitorSettings,
   updateMixerParam,
   subscribeToClipping,
+  subscribeToGainReduction,
   initMixerGraph,
   isMixerGraphInitialized,
 } from "./mixerGraph";
 import { isAutoplayAllowed } from "./engine";
+import { setFXBpm } from "./fx/manager";
+import { getFxUnitBpm } from "./fx/tempo";
 
 /**
  * Hook to sync MixerState from realtime server to audio graph.
@@ -40,9 +44,8 @@ export function useMixerSync(mixerState: MixerState | null) {
     const json = JSON.stringify(mixerState);
     if (json !== lastJsonRef.current) {
       console.log("[useMixerSync] Mixer state changed, applying:", {
-        fxType: mixerState.fx.type,
-        fxEnabled: mixerState.fx.enabled,
-        fxWetDry: mixerState.fx.wetDry
+        fx1: mixerState.fx1,
+        fx2: mixerState.fx2,
       });
       applyMixerState(mixerState);
       lastJsonRef.current = json;
@@ -52,6 +55,40 @@ export function useMixerSync(mixerState: MixerState | null) {
   }, [mixerState]);
 }
 
+/**
+ * Hook to apply this member's headphone monitoring to the audio graph.
+ * Unlike the mixer, monitoring only ever affects the local output.
+ */
+export function useMonitorSync(monitor: MonitorSettings) {
+  const lastJsonRef = useRef<string>("");
+
+  useEffect(() => {
+    // Member objects are rebuilt on every member update; only re-apply real changes
+    const json = JSON.stringify(monitor);
+    if (json !== lastJsonRef.current) {
+      applyMonitorSettings(monitor);
+      lastJsonRef.current = json;
+    }
+  }, [monitor]);
+}
+
+/**
+ * Hook to keep tempo-synced FX locked to the BPM of their assigned deck.
+ * Re-applies only when a unit's effective BPM actually changes.
+ */
+export function useFxTempoSync(state: RoomState) {
+  const fx1Bpm = getFxUnitBpm(state, state.mixer.fx1);
+  const fx2Bpm = getFxUnitBpm(state, state.mixer.fx2);
+
+  useEffect(() => {
+    setFXBpm("fx1", fx1Bpm);
+  }, [fx1Bpm]);
+
+  useEffect(() => {
+    setFXBpm("fx2", fx2Bpm);
+  }, [fx2Bpm]);
+}
+
 /**
  * Hook to get clipping state.
  */
@@ -71,6 +108,17 @@ export function useClipping() {
   return { isClipping, peakLevel };
 }
 
+/**
+ * Hook to get the master limiter's gain reduction (dB, 0 = none).
+ */
+export function useGainReduction() {
+  const [reductionDb, setReductionDb] = useState(0);
+
+  useEffect(() => subscribeToGainReduction(setReductionDb), []);
+
+  return reductionDb;
+}
+
 /**
  * Hook to update a single mixer parameter.
  * Use for local optimistic updates before server ack.
@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getPreviewState, subscribeToPreview, type PreviewState } from "./preview";
+
+/**
+ * Hook for the queue prelisten player state.
+ * Playback position isn't included; read it per frame with getPreviewPosition().
+ */
+export function usePreview(): PreviewState {
+  const [state, setState] = useState<PreviewState>(getPreviewState);
+
+  useEffect(() => subscribeToPreview(setState), []);
+
+  return state;
+}
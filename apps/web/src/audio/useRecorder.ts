@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getRecorderState, subscribeToRecorder, type RecorderState } from "./recorder";
+
+/**
+ * Hook to get the master recorder's state.
+ */
+export function useRecorder(): RecorderState {
+  const [state, setState] = useState<RecorderState>(getRecorderState);
+
+  useEffect(() => subscribeToRecorder(setState), []);
+
+  return state;
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { memo, useCallback } from "react";
+import type { BeatGrid, ClientMutationEvent, DeckId, QuantizeMode } from "@puid-board/shared";
+
+export type BeatGridEditorProps = {
+  deckId: DeckId;
+  /** Beat grid of the loaded track (server state) */
+  beatGrid: BeatGrid;
+  /** Deck quantize resolution (server state) */
+  quantize: QuantizeMode;
+  /** Current playhead in seconds (for setting the downbeat) */
+  playheadSec: number;
+  accentColor: string;
+  roomId: string;
+  clientId: string;
+  sendEvent: (e: ClientMutationEvent) => void;
+  nextSeq: () => number;
+};
+
+/** BPM step per click */
+const BPM_STEP = 0.1;
+
+/** Grid shift per click in seconds */
+const SHIFT_STEP_SEC = 0.01;
+
+/** Beats per bar (the downbeat offset is kept within the first bar) */
+const BEATS_PER_BAR = 4;
+
+const MIN_BPM = 20;
+const MAX_BPM = 300;
+
+/** Quantize button cycles off → beat → bar */
+const NEXT_QUANTIZE: Record<QuantizeMode, QuantizeMode> = { off: "beat", beat: "bar", bar: "off" };
+const QUANTIZE_LABELS: Record<QuantizeMode, string> = { off: "Q", beat: "Q1", bar: "Q4" };
+
+/**
+ * Compact beat grid editor: shift the grid, adjust its BPM, or set the
+ * downbeat at the playhead. Every edit is sent to the server as DECK_BEAT_GRID_SET.
+ * Also holds the deck's quantize toggle, which snaps to this grid.
+ */
+const BeatGridEditor = memo(function BeatGridEditor({
+  deckId,
+  beatGrid,
+  quantize,
+  playheadSec,
+  accentColor,
+  roomId,
+  clientId,
+  sendEvent,
+  nextSeq,
+}: BeatGridEditorProps) {
+  const sendGrid = useCallback(
+    (next: BeatGrid) => {
+      sendEvent({
+        type: "DECK_BEAT_GRID_SET",
+        roomId,
+        clientId,
+        clientSeq: nextSeq(),
+        payload: { deckId, beatGrid: next },
+      });
+    },
+    [sendEvent, roomId, clientId, nextSeq, deckId]
+  );
+
+  const shiftGrid = (deltaSec: number) => {
+    const firstBeatSec = Math.max(0, beatGrid.firstBeatSec + deltaSec);
+    sendGrid({ ...beatGrid, firstBeatSec: Math.round(firstBeatSec * 1000) / 1000 });
+  };
+
+  const nudgeBpm = (delta: number) => {
+    const bpm = Math.max(MIN_BPM, Math.min(MAX_BPM, beatGrid.bpm + delta));
+    sendGrid({ ...beatGrid, bpm: Math.round(bpm * 100) / 100 });
+  };
+
+  // Downbeat at the playhead, moved back whole bars to the earliest one
+  const setDownbeat = () => {
+    const barSec = (60 / beatGrid.bpm) * BEATS_PER_BAR;
+    sendGrid({ ...beatGrid, firstBeatSec: playheadSec % barSec });
+  };
+
+  const cycleQuantize = () => {
+    sendEvent({
+      type: "DECK_QUANTIZE_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, quantize: NEXT_QUANTIZE[quantize] },
+    });
+  };
+
+  const button = (label: string, title: string, onClick: () => void, active = false) => (
+    <button
+      type="button"
+      title={title}
+      onClick={(e) => {
+        // The deck display seeks on click
+        e.stopPropagation();
+        onClick();
+      }}
+      style={{
+        padding: "0 4px",
+        background: "transparent",
+        border: `1px solid ${active ? accentColor : "#2a2a2a"}`,
+        borderRadius: "2px",
+        color: active ? accentColor : "#9ca3af",
+        fontSize: "9px",
+        fontFamily: "monospace",
+        lineHeight: "12px",
+        cursor: "pointer",
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: "3px" }}>
+      {button("◀", "Shift grid earlier", () => shiftGrid(-SHIFT_STEP_SEC))}
+      {button("▶", "Shift grid later", () => shiftGrid(SHIFT_STEP_SEC))}
+      {button("−", "Decrease grid BPM", () => nudgeBpm(-BPM_STEP))}
+      <span style={{ color: accentColor, fontSize: "10px", fontFamily: "monospace" }}>
+        {beatGrid.bpm.toFixed(1)}
+      </span>
+      {button("+", "Increase grid BPM", () => nudgeBpm(BPM_STEP))}
+      {button("1", "Set downbeat at playhead", setDownbeat)}
+      {button(
+        QUANTIZE_LABELS[quantize],
+        `Quantize: ${quantize}`,
+        cycleQuantize,
+        quantize !== "off"
+      )}
+    </div>
+  );
+});
+
+export default BeatGridEditor;
@@ -4,6 +4,7 @@ import {
   buildMemberColorMap,
 } from "./CursorsLayer";
 import type { Member, ControlOwnership } from "@puid-board/shared";
+import { createDefaultMonitor } from "@puid-board/shared";
 
 describe("CursorsLayer", () => {
   describe("buildMemberColorMap", () => {
@@ -15,8 +16,10 @@ describe("CursorsLayer", () => {
           color: "#FF0000",
           joinedAt: 0,
           isHost: true,
+          role: "host",
           cursor: null,
           latencyMs: 0,
+          monitor: createDefaultMonitor(),
         },
         {
           clientId: "c2",
@@ -24,8 +27,10 @@ describe("CursorsLayer", () => {
           color: "#00FF00",
           joinedAt: 0,
           isHost: false,
+          role: "dj",
           cursor: null,
           latencyMs: 0,
+          monitor: createDefaultMonitor(),
         },
       ];
 
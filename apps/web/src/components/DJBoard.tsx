@@ -7,21 +7,44 @@ import type {
   DeckState,
   ControlOwnership,
   QueueItem,
+  DeckId,
+  DeckCount,
+  CamelotKey,
+  MonitorSettings,
+  MemberMonitorSetPayload,
+} from "@puid-board/shared";
+import {
+  THROTTLE,
+  createDefaultMonitor,
+  canMemberControl,
+  getDeckState,
+  getChannelState,
+  getCrossfaderSide,
+  getDeckIds,
+  findHarmonicReferenceKey,
 } from "@puid-board/shared";
-import { THROTTLE } from "@puid-board/shared";
 import { Knob, Crossfader, JogWheel } from "./controls";
 import { buildMemberColorMap } from "./CursorsLayer";
 import DeckTransport from "./DeckTransport";
 import FXControlPanel from "./FXControlPanel";
 import SamplerPanel from "./SamplerPanel";
 import PerformancePadPanel from "./PerformancePadPanel";
-import { useMixerSync } from "@/audio/useMixer";
+import BeatGridEditor from "./BeatGridEditor";
+import { useMixerSync, useMonitorSync, useFxTempoSync } from "@/audio/useMixer";
 import ClippingIndicator from "./ClippingIndicator";
+import LimiterControl from "./LimiterControl";
 import { useDeck, getDeck } from "@/audio/useDeck";
 import { useBoardScale } from "@/hooks/useBoardScale";
-import { LCDScreen, WaveformDisplay, TrackInfoDisplay, TimeDisplay } from "./displays";
+import { LCDScreen, WaveformDisplay, ZoomedWaveform, TrackInfoDisplay, TimeDisplay, LevelMeter } from "./displays";
 import QueuePanel from "./QueuePanel";
 import SamplerSettings from "./SamplerSettings";
+import RecordingControl from "./RecordingControl";
+import MidiSettings from "./MidiSettings";
+import ShortcutSettings from "./ShortcutSettings";
+import ShortcutOverlay from "./ShortcutOverlay";
+import { useMidiController } from "@/midi/useMidiController";
+import type { BoardSide } from "@/shortcuts/keymap";
+import { useShortcuts } from "@/shortcuts/useShortcuts";
 import { useQueueAudioLoader } from "@/audio/useQueueAudioLoader";
 
 export type DJBoardProps = {
@@ -29,6 +52,8 @@ export type DJBoardProps = {
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
   nextSeq: () => number;
+  /** Update this member's headphone monitoring (member-level, not a mixer mutation) */
+  sendMonitor?: (update: MemberMonitorSetPayload) => void;
 };
 
 // FIXED BOARD DIMENSIONS - Mixer only (queue is separate)
@@ -72,6 +97,14 @@ const DECK_B_TEMPO = {
   height: 180,
 };
 
+// Accent colors per deck; C and D share the A and B sides of the board
+const DECK_ACCENTS: Record<DeckId, string> = {
+  A: "#3b82f6",
+  B: "#8b5cf6",
+  C: "#14b8a6",
+  D: "#ec4899",
+};
+
 // Mixer positions (center)
 const MIXER = {
   display: { x: 688, y: 170, width: 224, height: 160 }, // From SVG: <rect x="688" y="170" width="224" height="160"/>
@@ -87,6 +120,14 @@ const MIXER = {
   faders: { x: 688, y: 346, width: 224, height: 132 },
   channelA: { x: 730, y: 384, width: 18, height: 84 }, // From SVG: <rect x="730" y="384" width="18" height="84"/>
   channelB: { x: 852, y: 384, width: 18, height: 84 }, // From SVG: <rect x="852" y="384" width="18" height="84"/>
+  // Level meters: pre-fader channel meters outside each channel fader, master L/R left of the master knob
+  meters: {
+    channelLeft: { cx: 719, y: 398 },
+    channelRight: { cx: 881, y: 398 },
+    channelHeight: 70,
+    master: { cx: 703, y: 212 },
+    masterHeight: 52,
+  },
   // Crossfader
   crossfader: { x: 552, y: 534, width: 496, height: 34 }, // From SVG: <rect x="552" y="534" width="496" height="34"/>
   // Sampler panel - positioned above crossfader (y=534), centered in mixer
@@ -104,16 +145,19 @@ function DeckDisplay({
   position,
   accentColor,
   queue,
+  referenceKey,
   roomId,
   clientId,
   sendEvent,
   nextSeq,
 }: {
   deck: DeckState;
-  deckId: "A" | "B";
+  deckId: DeckId;
   position: { x: number; y: number; width: number; height: number };
   accentColor: string;
   queue: QueueItem[];
+  /** Key of the deck being mixed against, for the LCD key badge */
+  referenceKey: CamelotKey | null;
   roomId: string;
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
@@ -123,13 +167,6 @@ function DeckDisplay({
   const loadedItem = queue.find(q => q.id === deck.loadedQueueItemId);
   const progress = localDeck.duration > 0 ? localDeck.playhead / localDeck.duration : 0;
 
-  // Sync server hot cue state to local deck engine
-  useEffect(() => {
-    if (deck.hotCuePointSec !== localDeck.hotCuePointSec) {
-      localDeck.setHotCuePosition(deck.hotCuePointSec ?? null);
-    }
-  }, [deck.hotCuePointSec]);
-
   // Handle click-to-seek on the display panel
   const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
     // Only seek if a track is loaded and has duration
@@ -161,6 +198,31 @@ function DeckDisplay({
     localDeck.seek(targetPositionSec);
   };
 
+  // Drag-to-scrub on the zoomed waveform (the deck is already scrubbed locally)
+  const handleScrubSeek = useCallback(
+    (positionSec: number) => {
+      sendEvent({
+        type: "DECK_SEEK",
+        roomId,
+        clientId,
+        clientSeq: nextSeq(),
+        payload: { deckId, positionSec },
+      });
+    },
+    [sendEvent, roomId, clientId, nextSeq, deckId]
+  );
+
+  // In slip mode a waveform scrub is a slip gesture (resumes from the shadow on release)
+  const handleScrubStart = useCallback(() => {
+    if (!deck.slip) return;
+    sendEvent({ type: "DECK_SLIP_START", roomId, clientId, clientSeq: nextSeq(), payload: { deckId } });
+  }, [sendEvent, roomId, clientId, nextSeq, deckId, deck.slip]);
+
+  const handleScrubEnd = useCallback(() => {
+    if (!deck.slip) return;
+    sendEvent({ type: "DECK_SLIP_RELEASE", roomId, clientId, clientSeq: nextSeq(), payload: { deckId } });
+  }, [sendEvent, roomId, clientId, nextSeq, deckId, deck.slip]);
+
   return (
     <div
       onClick={handleClick}
@@ -182,20 +244,56 @@ function DeckDisplay({
           title={loadedItem?.title ?? null}
           playState={deck.playState}
           accentColor={accentColor}
+          musicalKey={localDeck.key ?? deck.detectedKey}
+          referenceKey={referenceKey}
+          loudness={loadedItem?.loudness ?? localDeck.loudness}
         />
-        <WaveformDisplay
-          waveform={localDeck.waveform}
-          progress={progress}
-          accentColor={accentColor}
-          isPlaying={localDeck.isPlaying}
-          isLoading={localDeck.isAnalyzing}
-          hotCuePosition={localDeck.hotCuePointSec}
-          duration={localDeck.duration}
-        />
+        <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+          <ZoomedWaveform
+            deckId={deckId}
+            bands={localDeck.bands}
+            duration={localDeck.duration}
+            accentColor={accentColor}
+            beatGrid={deck.beatGrid}
+            hotCues={deck.hotCues}
+            savedLoops={deck.savedLoops}
+            loop={deck.loop}
+            onSeek={handleScrubSeek}
+            onScrubStart={handleScrubStart}
+            onScrubEnd={handleScrubEnd}
+          />
+          <WaveformDisplay
+            waveform={localDeck.waveform}
+            progress={progress}
+            accentColor={accentColor}
+            isPlaying={localDeck.isPlaying}
+            isLoading={localDeck.isAnalyzing}
+            hotCues={deck.hotCues}
+            savedLoops={deck.savedLoops}
+            duration={localDeck.duration}
+            beatGrid={deck.beatGrid}
+            bands={localDeck.bands}
+            height={20}
+          />
+        </div>
         <TimeDisplay
           currentTime={localDeck.playhead}
           duration={localDeck.duration}
-        />
+        >
+          {deck.beatGrid && (
+            <BeatGridEditor
+              deckId={deckId}
+              beatGrid={deck.beatGrid}
+              quantize={deck.quantize}
+              playheadSec={localDeck.playhead}
+              accentColor={accentColor}
+              roomId={roomId}
+              clientId={clientId}
+              sendEvent={sendEvent}
+              nextSeq={nextSeq}
+            />
+          )}
+        </TimeDisplay>
       </LCDScreen>
     </div>
   );
@@ -212,9 +310,11 @@ function DeckControls({
   nextSeq,
   accentColor,
   queue,
+  hidden = false,
+  shortcutSide,
 }: {
   deck: DeckState;
-  deckId: "A" | "B";
+  deckId: DeckId;
   position: { x: number; y: number; width: number; height: number };
   roomId: string;
   clientId: string;
@@ -222,6 +322,10 @@ function DeckControls({
   nextSeq: () => number;
   accentColor: string;
   queue: QueueItem[];
+  /** Keep the transport mounted (so audio follows the server) but not shown */
+  hidden?: boolean;
+  /** Board side whose transport shortcuts apply while this deck is shown */
+  shortcutSide?: BoardSide;
 }) {
   return (
     <div
@@ -231,6 +335,7 @@ function DeckControls({
         top: position.y,
         zIndex: 100,
         pointerEvents: "auto",
+        display: hidden ? "none" : undefined,
       }}
     >
       <DeckTransport
@@ -242,24 +347,74 @@ function DeckControls({
         nextSeq={nextSeq}
         accentColor={accentColor}
         queue={queue}
+        shortcutSide={hidden ? undefined : shortcutSide}
       />
     </div>
   );
 }
 
+/** Layer switch for a board side in four-deck rooms (A/C on the left, B/D on the right) */
+function DeckLayerToggle({
+  layers,
+  active,
+  onSelect,
+  position,
+}: {
+  layers: DeckId[];
+  active: DeckId;
+  onSelect: (deckId: DeckId) => void;
+  position: { x: number; y: number };
+}) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: position.x,
+        top: position.y,
+        display: "flex",
+        gap: 4,
+        zIndex: 100,
+      }}
+    >
+      {layers.map((id) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onSelect(id)}
+          style={{
+            padding: "1px 8px",
+            fontSize: "0.625rem",
+            fontWeight: 700,
+            fontFamily: "monospace",
+            borderRadius: 3,
+            cursor: "pointer",
+            border: `1px solid ${DECK_ACCENTS[id]}`,
+            background: id === active ? DECK_ACCENTS[id] : "rgba(17, 24, 39, 0.85)",
+            color: id === active ? "#fff" : DECK_ACCENTS[id],
+          }}
+        >
+          DECK {id}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 /** Positioned jog wheel */
 function PositionedJogWheel({
   deckId,
   position,
   accentColor,
+  slip,
   roomId,
   clientId,
   sendEvent,
   nextSeq,
 }: {
-  deckId: "A" | "B";
+  deckId: DeckId;
   position: { cx: number; cy: number; r: number };
   accentColor: string;
+  slip: boolean;
   roomId: string;
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
@@ -287,6 +442,7 @@ function PositionedJogWheel({
         accentColor={accentColor}
         size={size}
         isPlaying={isPlaying}
+        slip={slip}
         roomId={roomId}
         clientId={clientId}
         sendEvent={sendEvent}
@@ -299,21 +455,31 @@ function PositionedJogWheel({
 /** Mixer knobs section - centered at exact SVG coordinates */
 function MixerKnobs({
   mixer,
+  leftDeckId,
+  rightDeckId,
   roomId,
   clientId,
   sendEvent,
   nextSeq,
   controlOwners,
   memberColors,
+  monitor,
+  onMonitorChange,
 }: {
   mixer: RoomState["mixer"];
+  leftDeckId: DeckId;
+  rightDeckId: DeckId;
   roomId: string;
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
   nextSeq: () => number;
   controlOwners: Record<string, ControlOwnership>;
   memberColors: Record<string, string>;
+  monitor: MonitorSettings;
+  onMonitorChange: (update: MemberMonitorSetPayload) => void;
 }) {
+  const leftChannel = getChannelState(mixer, leftDeckId) ?? mixer.channelA;
+  const rightChannel = getChannelState(mixer, rightDeckId) ?? mixer.channelB;
   const knobSize = MIXER.knobRadius * 2; // 52px diameter
 
   return (
@@ -388,7 +554,7 @@ function MixerKnobs({
         />
       </div>
 
-      {/* HI A label */}
+      {/* HI A/C label */}
       <div
         style={{
           position: "absolute",
@@ -401,10 +567,10 @@ function MixerKnobs({
           letterSpacing: "0.05em",
         }}
       >
-        HI A
+        HI {leftDeckId}
       </div>
 
-      {/* Channel A EQ High - centered at (856, 238) */}
+      {/* Left channel EQ High - centered at (856, 238) */}
       <div
         style={{
           position: "absolute",
@@ -414,13 +580,13 @@ function MixerKnobs({
         }}
       >
         <Knob
-          controlId="channelA.eq.high"
-          value={mixer.channelA.eq.high}
+          controlId={`channel${leftDeckId}.eq.high`}
+          value={leftChannel.eq.high}
           roomId={roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
-          ownership={controlOwners["channelA.eq.high"]}
+          ownership={controlOwners[`channel${leftDeckId}.eq.high`]}
           memberColors={memberColors}
           size={knobSize}
           min={-1}
@@ -429,7 +595,7 @@ function MixerKnobs({
         />
       </div>
 
-      {/* HI B label */}
+      {/* HI B/D label */}
       <div
         style={{
           position: "absolute",
@@ -442,10 +608,10 @@ function MixerKnobs({
           letterSpacing: "0.05em",
         }}
       >
-        HI B
+        HI {rightDeckId}
       </div>
 
-      {/* Channel B EQ High - centered at (744, 302) */}
+      {/* Right channel EQ High - centered at (744, 302) */}
       <div
         style={{
           position: "absolute",
@@ -455,13 +621,13 @@ function MixerKnobs({
         }}
       >
         <Knob
-          controlId="channelB.eq.high"
-          value={mixer.channelB.eq.high}
+          controlId={`channel${rightDeckId}.eq.high`}
+          value={rightChannel.eq.high}
           roomId={roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
-          ownership={controlOwners["channelB.eq.high"]}
+          ownership={controlOwners[`channel${rightDeckId}.eq.high`]}
           memberColors={memberColors}
           size={knobSize}
           min={-1}
@@ -486,7 +652,43 @@ function MixerKnobs({
         CUE
       </div>
 
-      {/* Headphone cue mix - centered at (856, 302) */}
+      {/* Per-channel CUE (PFL) and split cue - between HI B and the cue mix */}
+      <div
+        style={{
+          position: "absolute",
+          left: (MIXER.knobs.channelBHigh.cx + MIXER.knobs.headphoneMix.cx) / 2,
+          top: MIXER.knobs.headphoneMix.cy,
+          transform: "translate(-50%, -50%)",
+          display: "flex",
+          flexDirection: "column",
+          gap: 2,
+        }}
+      >
+        {[leftDeckId, rightDeckId].map((id) => {
+          const isCued = monitor.cue.includes(id);
+          return (
+            <MonitorButton
+              key={id}
+              label={`CUE ${id}`}
+              color={DECK_ACCENTS[id]}
+              active={isCued}
+              onClick={() =>
+                onMonitorChange({
+                  cue: isCued ? monitor.cue.filter((d) => d !== id) : [...monitor.cue, id],
+                })
+              }
+            />
+          );
+        })}
+        <MonitorButton
+          label="SPLIT"
+          color="#f59e0b"
+          active={monitor.splitCue}
+          onClick={() => onMonitorChange({ splitCue: !monitor.splitCue })}
+        />
+      </div>
+
+      {/* Headphone cue mix (local to this member) - centered at (856, 302) */}
       <div
         style={{
           position: "absolute",
@@ -497,23 +699,59 @@ function MixerKnobs({
       >
         <Knob
           controlId="headphoneMix"
-          value={mixer.headphoneMix ?? 1.0}
+          value={monitor.headphoneMix}
           roomId={roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
-          ownership={controlOwners["headphoneMix"]}
-          memberColors={memberColors}
           size={knobSize}
+          onChange={(value) => onMonitorChange({ headphoneMix: value })}
         />
       </div>
     </>
   );
 }
 
+/** Small toggle for headphone monitoring (CUE A/B, SPLIT) */
+function MonitorButton({
+  label,
+  color,
+  active,
+  onClick,
+}: {
+  label: string;
+  color: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      style={{
+        width: 44,
+        padding: "1px 0",
+        fontSize: "0.5rem",
+        fontWeight: 700,
+        fontFamily: "monospace",
+        borderRadius: 3,
+        cursor: "pointer",
+        border: `1px solid ${color}`,
+        background: active ? color : "rgba(17, 24, 39, 0.85)",
+        color: active ? "#fff" : color,
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
 /** Mixer faders and FX section - Aligned to SVG background */
 function MixerFaders({
   mixer,
+  deckCount,
+  leftDeckId,
+  rightDeckId,
   roomId,
   clientId,
   sendEvent,
@@ -522,6 +760,9 @@ function MixerFaders({
   memberColors,
 }: {
   mixer: RoomState["mixer"];
+  deckCount: DeckCount;
+  leftDeckId: DeckId;
+  rightDeckId: DeckId;
   roomId: string;
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
@@ -542,9 +783,13 @@ function MixerFaders({
       }}
     >
       <FXControlPanel
-        fxState={mixer.fx}
-        channelAFader={mixer.channelA.fader}
-        channelBFader={mixer.channelB.fader}
+        fx1={mixer.fx1}
+        fx2={mixer.fx2}
+        deckCount={deckCount}
+        leftChannel={leftDeckId}
+        rightChannel={rightDeckId}
+        leftFader={(getChannelState(mixer, leftDeckId) ?? mixer.channelA).fader}
+        rightFader={(getChannelState(mixer, rightDeckId) ?? mixer.channelB).fader}
         roomId={roomId}
         clientId={clientId}
         sendEvent={sendEvent}
@@ -556,6 +801,9 @@ function MixerFaders({
   );
 }
 
+/** Crossfader movement per keyboard nudge */
+const CROSSFADER_NUDGE = 0.1;
+
 /** Crossfader section */
 function CrossfaderSection({
   mixer,
@@ -574,6 +822,22 @@ function CrossfaderSection({
   controlOwners: Record<string, ControlOwnership>;
   memberColors: Record<string, string>;
 }) {
+  // Keyboard nudges: step toward either side or snap back to the middle
+  const setCrossfader = (value: number) => {
+    sendEvent({
+      type: "MIXER_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { controlId: "crossfader", value: Math.round(value * 100) / 100 },
+    });
+  };
+  useShortcuts({
+    "crossfader.left": () => setCrossfader(Math.max(0, mixer.crossfader - CROSSFADER_NUDGE)),
+    "crossfader.center": () => setCrossfader(0.5),
+    "crossfader.right": () => setCrossfader(Math.min(1, mixer.crossfader + CROSSFADER_NUDGE)),
+  });
+
   return (
     <div
       style={{
@@ -630,7 +894,7 @@ const TempoFader = memo(function TempoFader({
   controlOwners,
   memberColors,
 }: {
-  deckId: "A" | "B";
+  deckId: DeckId;
   serverPlaybackRate: number;
   position: { x: number; y: number; height: number };
   roomId: string;
@@ -646,7 +910,7 @@ const TempoFader = memo(function TempoFader({
   const lastSendRef = useRef(0);
   const localValueRef = useRef(playbackRateToFader(serverPlaybackRate));
 
-  const controlId = deckId === "A" ? "deckA.tempo" : "deckB.tempo";
+  const controlId = `deck${deckId}.tempo`;
   const ownership = controlOwners[controlId];
   const isOwnedByOther = ownership && ownership.clientId !== clientId;
   const ownerColor = ownership && memberColors[ownership.clientId];
@@ -933,8 +1197,8 @@ const TempoFader = memo(function TempoFader({
         style={{
           position: "absolute",
           top: position.height / 2 + 24,
-          right: deckId === "A" ? -18 : "auto",
-          left: deckId === "B" ? -18 : "auto",
+          right: getCrossfaderSide(deckId) === "A" ? -18 : "auto",
+          left: getCrossfaderSide(deckId) === "B" ? -18 : "auto",
           fontSize: "8px",
           color: "#6b7280",
           fontWeight: 500,
@@ -982,19 +1246,61 @@ const TempoFader = memo(function TempoFader({
 export default function DJBoard({
   state,
   clientId,
-  sendEvent,
+  sendEvent: sendEventRaw,
   nextSeq,
+  sendMonitor,
 }: DJBoardProps) {
   const memberColors = buildMemberColorMap(state.members);
 
+  // Listeners see the board but cannot touch it; the server rejects their
+  // mutations anyway, so drop them here instead of waiting for the NACK.
+  const readOnly = !canMemberControl(state, clientId);
+  const sendEvent = useCallback(
+    (e: ClientMutationEvent) => {
+      if (readOnly) return;
+      sendEventRaw(e);
+    },
+    [readOnly, sendEventRaw]
+  );
+
+  // Four-deck rooms stack C under A and D under B; each side shows one layer
+  // at a time, but every deck's transport stays mounted to keep its audio in sync.
+  const isFourDeck = state.deckCount === 4;
+  const [leftLayer, setLeftLayer] = useState<DeckId>("A");
+  const [rightLayer, setRightLayer] = useState<DeckId>("B");
+  const leftDeckId: DeckId = isFourDeck ? leftLayer : "A";
+  const rightDeckId: DeckId = isFourDeck ? rightLayer : "B";
+  const leftDeck = getDeckState(state, leftDeckId) ?? state.deckA;
+  const rightDeck = getDeckState(state, rightDeckId) ?? state.deckB;
+  const leftLayers: DeckId[] = isFourDeck ? ["A", "C"] : ["A"];
+  const rightLayers: DeckId[] = isFourDeck ? ["B", "D"] : ["B"];
+
   // Sampler settings modal state
   const [isSamplerSettingsOpen, setIsSamplerSettingsOpen] = useState(false);
+  const [isMidiSettingsOpen, setIsMidiSettingsOpen] = useState(false);
+  const [isShortcutSettingsOpen, setIsShortcutSettingsOpen] = useState(false);
+  const [isShortcutOverlayOpen, setIsShortcutOverlayOpen] = useState(false);
+
+  useShortcuts({ overlay: () => setIsShortcutOverlayOpen((open) => !open) });
+
+  // MIDI controller input and LED feedback
+  useMidiController({ state, clientId, sendEvent, nextSeq, disabled: readOnly });
 
   // Calculate responsive scale - board + queue together fill viewport
   const scale = useBoardScale(BOARD_WIDTH + QUEUE_WIDTH, BOARD_HEIGHT, 0.90);
 
+  // Headphone monitoring is per member: only our own settings reach the audio graph
+  const monitor =
+    state.members.find((m) => m.clientId === clientId)?.monitor ?? createDefaultMonitor();
+  const handleMonitorChange = useCallback(
+    (update: MemberMonitorSetPayload) => sendMonitor?.(update),
+    [sendMonitor]
+  );
+
   // Sync mixer state to audio graph
   useMixerSync(state.mixer);
+  useMonitorSync(monitor);
+  useFxTempoSync(state);
 
   // Get realtime URL for YouTube audio pre-loading
   const realtimeUrl =
@@ -1007,8 +1313,8 @@ export default function DJBoard({
 
   // Debug: log FX state when it changes
   useEffect(() => {
-    console.log("[DJBoard] FX state received:", state.mixer.fx);
-  }, [state.mixer.fx]);
+    console.log("[DJBoard] FX state received:", state.mixer.fx1, state.mixer.fx2);
+  }, [state.mixer.fx1, state.mixer.fx2]);
 
   return (
     <div
@@ -1028,10 +1334,41 @@ export default function DJBoard({
         style={{
           display: "flex",
           gap: 0,
+          position: "relative",
           transform: `scale(${scale})`,
           transformOrigin: "center center",
         }}
       >
+        {/* Read-only shield for listeners */}
+        {readOnly && (
+          <div
+            style={{
+              position: "absolute",
+              inset: 0,
+              zIndex: 2000,
+              cursor: "not-allowed",
+              display: "flex",
+              justifyContent: "center",
+              alignItems: "flex-start",
+            }}
+          >
+            <div
+              style={{
+                marginTop: 8,
+                padding: "4px 12px",
+                background: "rgba(17, 24, 39, 0.85)",
+                border: "1px solid #4b5563",
+                borderRadius: 4,
+                color: "#9ca3af",
+                fontSize: "0.625rem",
+                fontFamily: "monospace",
+                letterSpacing: "0.1em",
+              }}
+            >
+              LISTENING — ASK THE HOST TO DJ
+            </div>
+          </div>
+        )}
         {/* DJ Board (mixer) */}
         <div
           style={{
@@ -1057,45 +1394,64 @@ export default function DJBoard({
             }}
           />
 
-        {/* === DECK A (Left Side) === */}
+        {/* === DECK A / C (Left Side) === */}
+        {isFourDeck && (
+          <DeckLayerToggle
+            layers={leftLayers}
+            active={leftDeckId}
+            onSelect={setLeftLayer}
+            position={{ x: DECK_A.waveform.x, y: DECK_A.waveform.y - 22 }}
+          />
+        )}
+
         <DeckDisplay
-          deck={state.deckA}
-          deckId="A"
+          key={leftDeckId}
+          deck={leftDeck}
+          deckId={leftDeckId}
           position={DECK_A.waveform}
-          accentColor="#3b82f6"
+          accentColor={DECK_ACCENTS[leftDeckId]}
           queue={queueWithAudio}
+          referenceKey={findHarmonicReferenceKey(state, leftDeckId)}
           roomId={state.roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
         />
 
-        <DeckControls
-          deck={state.deckA}
-          deckId="A"
-          position={DECK_A.controls}
-          roomId={state.roomId}
-          clientId={clientId}
-          sendEvent={sendEvent}
-          nextSeq={nextSeq}
-          accentColor="#3b82f6"
-          queue={queueWithAudio}
-        />
+        {leftLayers.map((id) => (
+          <DeckControls
+            key={id}
+            deck={getDeckState(state, id) ?? leftDeck}
+            deckId={id}
+            position={DECK_A.controls}
+            roomId={state.roomId}
+            clientId={clientId}
+            sendEvent={sendEvent}
+            nextSeq={nextSeq}
+            accentColor={DECK_ACCENTS[id]}
+            queue={queueWithAudio}
+            hidden={id !== leftDeckId}
+            shortcutSide={readOnly ? undefined : "left"}
+          />
+        ))}
 
         <PositionedJogWheel
-          deckId="A"
+          key={leftDeckId}
+          deckId={leftDeckId}
           position={DECK_A.jogWheel}
-          accentColor="#3b82f6"
+          accentColor={DECK_ACCENTS[leftDeckId]}
+          slip={leftDeck.slip}
           roomId={state.roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
         />
 
-        {/* Deck A Tempo Fader */}
+        {/* Deck A/C Tempo Fader */}
         <TempoFader
-          deckId="A"
-          serverPlaybackRate={state.deckA.playbackRate}
+          key={leftDeckId}
+          deckId={leftDeckId}
+          serverPlaybackRate={leftDeck.playbackRate}
           position={DECK_A_TEMPO}
           roomId={state.roomId}
           clientId={clientId}
@@ -1105,7 +1461,7 @@ export default function DJBoard({
           memberColors={memberColors}
         />
 
-        {/* Deck A Performance Pads */}
+        {/* Deck A/C Performance Pads */}
         <div
           style={{
             position: "absolute",
@@ -1116,41 +1472,98 @@ export default function DJBoard({
           }}
         >
           <PerformancePadPanel
-            deckId="A"
-            keybinds={["1", "2", "3", "4"]}
+            key={leftDeckId}
+            deckId={leftDeckId}
+            serverState={leftDeck}
+            side="left"
             roomId={state.roomId}
             clientId={clientId}
             sendEvent={sendEvent}
             nextSeq={nextSeq}
+            disabled={readOnly}
           />
         </div>
 
         {/* === MIXER (Center) === */}
         <MixerKnobs
           mixer={state.mixer}
+          leftDeckId={leftDeckId}
+          rightDeckId={rightDeckId}
           roomId={state.roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
           controlOwners={state.controlOwners}
           memberColors={memberColors}
+          monitor={monitor}
+          onMonitorChange={handleMonitorChange}
         />
 
-        {/* Clipping Indicator - between master and HI A knobs */}
+        {/* Clipping Indicator and limiter gain reduction - between master and HI A knobs */}
         <div
           style={{
             position: "absolute",
             left: (MIXER.knobs.masterVolume.cx + MIXER.knobs.channelAHigh.cx) / 2,
             top: MIXER.knobs.masterVolume.cy,
             transform: "translate(-50%, -50%)",
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
             zIndex: 101,
           }}
         >
           <ClippingIndicator />
+          <LimiterControl
+            limiter={state.mixer.limiter}
+            roomId={state.roomId}
+            clientId={clientId}
+            sendEvent={sendEvent}
+            nextSeq={nextSeq}
+            controlOwners={state.controlOwners}
+            memberColors={memberColors}
+          />
         </div>
 
+        {/* Level meters - master L/R, then pre-fader meters for the channels on the faders */}
+        <div
+          style={{
+            position: "absolute",
+            left: MIXER.meters.master.cx,
+            top: MIXER.meters.master.y,
+            transform: "translateX(-50%)",
+            display: "flex",
+            gap: 2,
+            zIndex: 101,
+            pointerEvents: "none",
+          }}
+        >
+          <LevelMeter source="masterL" height={MIXER.meters.masterHeight} />
+          <LevelMeter source="masterR" height={MIXER.meters.masterHeight} />
+        </div>
+        {([
+          [leftDeckId, MIXER.meters.channelLeft],
+          [rightDeckId, MIXER.meters.channelRight],
+        ] as const).map(([deckId, position]) => (
+          <div
+            key={deckId}
+            style={{
+              position: "absolute",
+              left: position.cx,
+              top: position.y,
+              transform: "translateX(-50%)",
+              zIndex: 101,
+              pointerEvents: "none",
+            }}
+          >
+            <LevelMeter source={deckId} height={MIXER.meters.channelHeight} />
+          </div>
+        ))}
+
         <MixerFaders
           mixer={state.mixer}
+          deckCount={state.deckCount}
+          leftDeckId={leftDeckId}
+          rightDeckId={rightDeckId}
           roomId={state.roomId}
           clientId={clientId}
           sendEvent={sendEvent}
@@ -1177,6 +1590,7 @@ export default function DJBoard({
             sendEvent={sendEvent}
             nextSeq={nextSeq}
             samplerState={state.sampler}
+            disabled={readOnly}
           />
         </div>
 
@@ -1190,45 +1604,64 @@ export default function DJBoard({
           memberColors={memberColors}
         />
 
-        {/* === DECK B (Right Side) === */}
+        {/* === DECK B / D (Right Side) === */}
+        {isFourDeck && (
+          <DeckLayerToggle
+            layers={rightLayers}
+            active={rightDeckId}
+            onSelect={setRightLayer}
+            position={{ x: DECK_B.waveform.x, y: DECK_B.waveform.y - 22 }}
+          />
+        )}
+
         <DeckDisplay
-          deck={state.deckB}
-          deckId="B"
+          key={rightDeckId}
+          deck={rightDeck}
+          deckId={rightDeckId}
           position={DECK_B.waveform}
-          accentColor="#8b5cf6"
+          accentColor={DECK_ACCENTS[rightDeckId]}
           queue={queueWithAudio}
+          referenceKey={findHarmonicReferenceKey(state, rightDeckId)}
           roomId={state.roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
         />
 
-        <DeckControls
-          deck={state.deckB}
-          deckId="B"
-          position={DECK_B.controls}
-          roomId={state.roomId}
-          clientId={clientId}
-          sendEvent={sendEvent}
-          nextSeq={nextSeq}
-          accentColor="#8b5cf6"
-          queue={queueWithAudio}
-        />
+        {rightLayers.map((id) => (
+          <DeckControls
+            key={id}
+            deck={getDeckState(state, id) ?? rightDeck}
+            deckId={id}
+            position={DECK_B.controls}
+            roomId={state.roomId}
+            clientId={clientId}
+            sendEvent={sendEvent}
+            nextSeq={nextSeq}
+            accentColor={DECK_ACCENTS[id]}
+            queue={queueWithAudio}
+            hidden={id !== rightDeckId}
+            shortcutSide={readOnly ? undefined : "right"}
+          />
+        ))}
 
         <PositionedJogWheel
-          deckId="B"
+          key={rightDeckId}
+          deckId={rightDeckId}
           position={DECK_B.jogWheel}
-          accentColor="#8b5cf6"
+          accentColor={DECK_ACCENTS[rightDeckId]}
+          slip={rightDeck.slip}
           roomId={state.roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
         />
 
-        {/* Deck B Tempo Fader */}
+        {/* Deck B/D Tempo Fader */}
         <TempoFader
-          deckId="B"
-          serverPlaybackRate={state.deckB.playbackRate}
+          key={rightDeckId}
+          deckId={rightDeckId}
+          serverPlaybackRate={rightDeck.playbackRate}
           position={DECK_B_TEMPO}
           roomId={state.roomId}
           clientId={clientId}
@@ -1238,7 +1671,7 @@ export default function DJBoard({
           memberColors={memberColors}
         />
 
-        {/* Deck B Performance Pads */}
+        {/* Deck B/D Performance Pads */}
         <div
           style={{
             position: "absolute",
@@ -1249,12 +1682,15 @@ export default function DJBoard({
           }}
         >
           <PerformancePadPanel
-            deckId="B"
-            keybinds={["7", "8", "9", "0"]}
+            key={rightDeckId}
+            deckId={rightDeckId}
+            serverState={rightDeck}
+            side="right"
             roomId={state.roomId}
             clientId={clientId}
             sendEvent={sendEvent}
             nextSeq={nextSeq}
+            disabled={readOnly}
           />
         </div>
 
@@ -1285,44 +1721,96 @@ export default function DJBoard({
             flexDirection: "column",
           }}
         >
-          {/* Sampler Settings Button */}
+          {/* Recording controls, Shortcut, MIDI and Sampler Settings Buttons */}
           <div
             style={{
               padding: "8px 16px",
               display: "flex",
-              justifyContent: "flex-end",
+              justifyContent: "space-between",
+              alignItems: "center",
             }}
           >
-            <button
-              onClick={() => setIsSamplerSettingsOpen(true)}
-              style={{
-                padding: "6px 12px",
-                fontSize: "11px",
-                fontWeight: 500,
-                background: "rgba(255, 140, 59, 0.15)",
-                color: "#FF8C3B",
-                border: "none",
-                borderRadius: 4,
-                cursor: "pointer",
-                letterSpacing: "0.02em",
-                display: "flex",
-                alignItems: "center",
-                gap: 6,
-                transition: "all 0.15s ease",
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.background = "rgba(255, 140, 59, 0.25)";
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.background = "rgba(255, 140, 59, 0.15)";
-              }}
-            >
-              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <circle cx="12" cy="12" r="3" />
-                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
-              </svg>
-              Sampler
-            </button>
+            <RecordingControl state={state} readOnly={readOnly} />
+            <div style={{ display: "flex", gap: 6 }}>
+              <button
+                onClick={() => setIsShortcutSettingsOpen(true)}
+                style={{
+                  padding: "6px 12px",
+                  fontSize: "11px",
+                  fontWeight: 500,
+                  background: "rgba(156, 163, 175, 0.12)",
+                  color: "#9ca3af",
+                  border: "none",
+                  borderRadius: 4,
+                  cursor: "pointer",
+                  letterSpacing: "0.02em",
+                  transition: "all 0.15s ease",
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = "rgba(156, 163, 175, 0.22)";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = "rgba(156, 163, 175, 0.12)";
+                }}
+                title="Keyboard shortcuts"
+              >
+                Keys
+              </button>
+              <button
+                onClick={() => setIsMidiSettingsOpen(true)}
+                style={{
+                  padding: "6px 12px",
+                  fontSize: "11px",
+                  fontWeight: 500,
+                  background: "rgba(156, 163, 175, 0.12)",
+                  color: "#9ca3af",
+                  border: "none",
+                  borderRadius: 4,
+                  cursor: "pointer",
+                  letterSpacing: "0.02em",
+                  transition: "all 0.15s ease",
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = "rgba(156, 163, 175, 0.22)";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = "rgba(156, 163, 175, 0.12)";
+                }}
+                title="MIDI controller mapping"
+              >
+                MIDI
+              </button>
+              <button
+                onClick={() => setIsSamplerSettingsOpen(true)}
+                style={{
+                  padding: "6px 12px",
+                  fontSize: "11px",
+                  fontWeight: 500,
+                  background: "rgba(255, 140, 59, 0.15)",
+                  color: "#FF8C3B",
+                  border: "none",
+                  borderRadius: 4,
+                  cursor: "pointer",
+                  letterSpacing: "0.02em",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 6,
+                  transition: "all 0.15s ease",
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = "rgba(255, 140, 59, 0.25)";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = "rgba(255, 140, 59, 0.15)";
+                }}
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <circle cx="12" cy="12" r="3" />
+                  <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
+                </svg>
+                Sampler
+              </button>
+            </div>
           </div>
 
           <QueuePanel
@@ -1332,6 +1820,10 @@ export default function DJBoard({
             clientId={clientId}
             sendEvent={sendEvent}
             nextSeq={nextSeq}
+            deckIds={getDeckIds(state.deckCount)}
+            referenceKey={findHarmonicReferenceKey(state, null)}
+            autoDj={state.autoDj}
+            monitor={monitor}
           />
         </div>
       </div>
@@ -1342,6 +1834,23 @@ export default function DJBoard({
         onClose={() => setIsSamplerSettingsOpen(false)}
         roomId={state.roomId}
       />
+
+      {/* MIDI Settings Modal */}
+      <MidiSettings
+        isOpen={isMidiSettingsOpen}
+        onClose={() => setIsMidiSettingsOpen(false)}
+        deckCount={state.deckCount}
+      />
+
+      {/* Keyboard Shortcut Settings Modal and Overlay */}
+      <ShortcutSettings
+        isOpen={isShortcutSettingsOpen}
+        onClose={() => setIsShortcutSettingsOpen(false)}
+      />
+      <ShortcutOverlay
+        isOpen={isShortcutOverlayOpen}
+        onClose={() => setIsShortcutOverlayOpen(false)}
+      />
     </div>
   );
 }
@@ -1,17 +1,26 @@
 "use client";
 
-import { useCallback, useEffect, useState, useRef, useMemo } from "react";
-import type { DeckState as ServerDeckState, ClientMutationEvent, QueueItem } from "@puid-board/shared";
-import { useDeck, syncDeckBPM, getDeck } from "@/audio/useDeck";
+import { useCallback, useEffect, useRef, useMemo } from "react";
+import {
+  MAX_BAND_WAVEFORM_BUCKETS,
+  BandWaveformSchema,
+  type DeckState as ServerDeckState,
+  type ClientMutationEvent,
+  type QueueItem,
+  type DeckId,
+} from "@puid-board/shared";
+import { useDeck, getDeck } from "@/audio/useDeck";
 // DISABLED: getDeck was used for seekSmooth during playback, now handled by DeckEngine
 // import { getDeck } from "@/audio/useDeck";
 import { DeckControlPanel } from "./displays";
 import { initAudioEngine } from "@/audio/engine";
 import { getRealtimeClient } from "@/realtime/client";
+import type { BoardSide } from "@/shortcuts/keymap";
+import { useShortcuts } from "@/shortcuts/useShortcuts";
 
 export type DeckTransportProps = {
   /** Deck ID (A or B) */
-  deckId: "A" | "B";
+  deckId: DeckId;
   /** Server deck state */
   serverState: ServerDeckState;
   /** Room ID for sending events */
@@ -26,6 +35,8 @@ export type DeckTransportProps = {
   accentColor: string;
   /** Queue items (for loading tracks, may include pre-loaded audio buffers) */
   queue: QueueItem[];
+  /** Board side whose play/cue/sync shortcuts drive this deck (none when unset) */
+  shortcutSide?: BoardSide;
 };
 
 /**
@@ -40,6 +51,7 @@ export default function DeckTransport({
   nextSeq,
   accentColor,
   queue,
+  shortcutSide,
 }: DeckTransportProps) {
   const deck = useDeck(deckId);
 
@@ -228,12 +240,17 @@ export default function DeckTransport({
   // DeckEngine is the single writer for transport state and applies rate changes
   // smoothly via PLL-based drift correction.
 
+  // Key lock follows server state (it only changes pitch, so it doesn't touch transport)
+  useEffect(() => {
+    void getDeck(deckId).setKeyLock(serverState.keyLock);
+  }, [serverState.keyLock, deckId]);
+
   // Get the current queue item for this deck
   const queueItem = serverState.loadedQueueItemId
     ? queue.find((q) => q.id === serverState.loadedQueueItemId) ?? null
     : null;
 
-  // Apply pre-computed BPM and waveform from cache to the Deck instance
+  // Apply pre-computed BPM, key, loudness and waveform from cache to the Deck instance
   useEffect(() => {
     if (!queueItem?.bpm) return;
     const deckInstance = getDeck(deckId);
@@ -248,41 +265,85 @@ export default function DeckTransport({
               duration: queueItem.durationSec,
               bucketCount: queueItem.waveform.length,
             }
-          : null
+          : null,
+        queueItem.key ?? null,
+        queueItem.loudness ?? null
       );
     }
-  }, [queueItem?.bpm, queueItem?.waveform, deckId, queueItem?.durationSec]);
+  }, [queueItem?.bpm, queueItem?.waveform, queueItem?.key, queueItem?.loudness, deckId, queueItem?.durationSec]);
+
+  // Fetch the cached three-band waveform for analyzed YouTube tracks (too large for the room snapshot)
+  const bandTrackId = queueItem?.trackId;
+  const bandVideoId = queueItem?.source === "youtube" && queueItem.bpm ? queueItem.youtubeVideoId : null;
+  useEffect(() => {
+    if (!bandTrackId || !bandVideoId) return;
+    let cancelled = false;
+
+    fetch(`${realtimeUrl}/api/youtube/waveform/${encodeURIComponent(bandVideoId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: unknown) => {
+        if (cancelled || !data || typeof data !== "object") return;
+        const parsed = BandWaveformSchema.safeParse((data as { bands?: unknown }).bands);
+        if (parsed.success) {
+          getDeck(deckId).setBandsFromCache(bandTrackId, parsed.data);
+        }
+      })
+      .catch((err) => {
+        console.warn(`[DeckTransport-${deckId}] Failed to fetch band waveform:`, err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bandTrackId, bandVideoId, realtimeUrl, deckId]);
+
+  // Last analysis sent for the loaded item, so state echoes don't re-send it
+  const reportedAnalysisRef = useRef<string | null>(null);
+  const queueItemId = queueItem?.id ?? null;
+  const queueItemSource = queueItem?.source;
+  const queueItemVideoId = queueItem?.youtubeVideoId;
+  const queueItemCached = queueItem?.cached;
 
-  // Send detected BPM to server when analysis completes
+  // Send detected BPM, key and loudness to server when analysis completes
   useEffect(() => {
     const bpm = deck.state.analysis.bpm;
+    const key = deck.state.analysis.key;
+    const loudness = deck.state.analysis.loudness ?? undefined;
     const status = deck.state.analysis.status;
 
     // Only send when analysis is complete and we have a valid BPM
     if (status === "complete" && bpm !== null && bpm > 0) {
+      const reportKey = `${queueItemId}:${bpm}:${key}:${loudness?.lufs}`;
+      if (reportedAnalysisRef.current === reportKey) return;
+      reportedAnalysisRef.current = reportKey;
+
       console.log(`[DeckTransport-${deckId}]   - Sending DECK_BPM_DETECTED event`);
       sendEvent({
         type: "DECK_BPM_DETECTED",
         roomId,
         clientId,
         clientSeq: nextSeq(),
-        payload: { deckId, bpm },
+        payload: { deckId, bpm, key, loudness },
       });
 
       // Also report to server cache for YouTube tracks
-      if (queueItem?.source === "youtube" && queueItem?.youtubeVideoId && !queueItem?.cached) {
-        const waveform = deck.state.analysis.waveform;
+      if (queueItemSource === "youtube" && queueItemVideoId && !queueItemCached) {
+        // Read the peaks from the deck that owns the analysis, so waveform/band
+        // updates alone don't re-send the detected BPM
+        const { waveform, bands } = getDeck(deckId).getState().analysis;
         if (waveform) {
           const client = getRealtimeClient();
           client.sendTrackMetadata(
-            queueItem.youtubeVideoId,
+            queueItemVideoId,
             bpm,
-            Array.from(waveform.peaks)
+            Array.from(waveform.peaks),
+            key,
+            bands && bands.low.length <= MAX_BAND_WAVEFORM_BUCKETS ? bands : undefined
           );
         }
       }
     }
-  }, [deck.state.analysis.bpm, deck.state.analysis.status, deckId, roomId, clientId, sendEvent, nextSeq, queueItem]);
+  }, [deck.state.analysis.bpm, deck.state.analysis.key, deck.state.analysis.loudness, deck.state.analysis.status, deckId, roomId, clientId, sendEvent, nextSeq, queueItemId, queueItemSource, queueItemVideoId, queueItemCached]);
 
   // Send DECK_PLAY event (optimistic: play locally first, then notify server)
   const handlePlay = useCallback(async () => {
@@ -322,46 +383,49 @@ export default function DeckTransport({
     });
   }, [sendEvent, roomId, clientId, nextSeq, deckId, deck]);
 
-  // Track if this deck is synced (rate !== 1.0)
-  const [isSynced, setIsSynced] = useState(false);
+  // SYNC is server-authoritative: the server matches tempo and beat phase
+  const handleSync = useCallback(() => {
+    sendEvent({
+      type: "DECK_SYNC",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, enabled: !serverState.syncEnabled },
+    });
+  }, [sendEvent, roomId, clientId, nextSeq, deckId, serverState.syncEnabled]);
 
-  // Update sync state when playback rate changes
-  useEffect(() => {
-    const rate = deck.playbackRate;
-    setIsSynced(Math.abs(rate - 1.0) > 0.001);
-  }, [deck.playbackRate]);
+  // Toggle key lock (master tempo) for everyone in the room
+  const handleKeyLock = useCallback(() => {
+    sendEvent({
+      type: "DECK_KEY_LOCK_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, enabled: !serverState.keyLock },
+    });
+  }, [sendEvent, roomId, clientId, nextSeq, deckId, serverState.keyLock]);
 
-  // Sync this deck's BPM to the other deck
-  const handleSync = useCallback(() => {
-    if (isSynced) {
-      // Reset to 1.0 playback rate
-      deck.resetPlaybackRate();
-      setIsSynced(false);
-      // Send tempo reset event to server
-      sendEvent({
-        type: "DECK_TEMPO_SET",
-        roomId,
-        clientId,
-        clientSeq: nextSeq(),
-        payload: { deckId, playbackRate: 1.0 },
-      });
-    } else {
-      // FIXED: Use the returned rate from syncDeckBPM to avoid race condition
-      const result = syncDeckBPM(deckId);
-      if (result.success && result.newRate !== undefined) {
-        setIsSynced(true);
-        // Use the rate returned by syncDeckBPM, not deck.playbackRate
-        // This avoids the race condition where state hasn't updated yet
-        sendEvent({
-          type: "DECK_TEMPO_SET",
-          roomId,
-          clientId,
-          clientSeq: nextSeq(),
-          payload: { deckId, playbackRate: result.newRate },
-        });
-      }
-    }
-  }, [deckId, isSynced, deck, sendEvent, roomId, clientId, nextSeq]);
+  // Toggle slip mode (the server keeps the shadow playhead for everyone)
+  const handleSlip = useCallback(() => {
+    sendEvent({
+      type: "DECK_SLIP_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, enabled: !serverState.slip },
+    });
+  }, [sendEvent, roomId, clientId, nextSeq, deckId, serverState.slip]);
+
+  // Keyboard shortcuts for the side of the board this deck is showing on
+  const side = shortcutSide ?? "left";
+  useShortcuts(
+    {
+      [`${side}.play`]: () => (isPlaying ? handlePause() : handlePlay()),
+      [`${side}.cue`]: handleCue,
+      [`${side}.sync`]: handleSync,
+    },
+    !shortcutSide
+  );
 
   const hasTrack = deck.isLoaded || serverState.loadedTrackId !== null;
 
@@ -400,7 +464,11 @@ export default function DeckTransport({
       onPause={handlePause}
       onCue={handleCue}
       onSync={handleSync}
-      isSynced={isSynced}
+      isSynced={serverState.syncEnabled}
+      onKeyLock={handleKeyLock}
+      isKeyLocked={serverState.keyLock}
+      onSlip={handleSlip}
+      isSlipping={serverState.slip}
       isPlaying={isPlaying}
       playbackRate={deck.playbackRate}
     />
@@ -1,13 +1,34 @@
 "use client";
 
-import { useCallback } from "react";
-import type { ClientMutationEvent, FxType, FxState, ControlOwnership } from "@puid-board/shared";
+import { useCallback, useState } from "react";
+import type {
+  ClientMutationEvent,
+  FxChainType,
+  FxChainSlot,
+  FxUnitState,
+  FxUnitId,
+  ControlOwnership,
+  DeckId,
+  DeckCount,
+} from "@puid-board/shared";
+import {
+  getFxAssignTargets,
+  getFxChainParamControlId,
+  MAX_FX_CHAIN_LENGTH,
+} from "@puid-board/shared";
 import { Fader, Knob } from "./controls";
 
 export type FXControlPanelProps = {
-  fxState: FxState;
-  channelAFader: number;
-  channelBFader: number;
+  fx1: FxUnitState;
+  fx2: FxUnitState;
+  /** Number of decks in the room (limits FX assign targets) */
+  deckCount?: DeckCount;
+  /** Channel shown on the left fader (A, or C in four-deck rooms) */
+  leftChannel?: DeckId;
+  /** Channel shown on the right fader (B, or D in four-deck rooms) */
+  rightChannel?: DeckId;
+  leftFader: number;
+  rightFader: number;
   roomId: string;
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
@@ -16,31 +37,57 @@ export type FXControlPanelProps = {
   memberColors: Record<string, string>;
 };
 
-/** FX button definitions - no "none" option, order: FILTER, ECHO, REVERB */
-const FX_BUTTONS: { value: Exclude<FxType, "none">; label: string }[] = [
+/** Fader label colors, matching each deck's accent */
+const CHANNEL_COLORS: Record<DeckId, string> = {
+  A: "#3b82f6",
+  B: "#8b5cf6",
+  C: "#14b8a6",
+  D: "#ec4899",
+};
+
+/** FX unit tabs */
+const FX_UNITS: { value: FxUnitId; label: string }[] = [
+  { value: "fx1", label: "FX1" },
+  { value: "fx2", label: "FX2" },
+];
+
+/** FX button definitions - no "none" option, laid out two per row */
+const FX_BUTTONS: { value: FxChainType; label: string }[] = [
   { value: "filter", label: "FILTER" },
   { value: "echo", label: "ECHO" },
   { value: "reverb", label: "REVERB" },
+  { value: "flanger", label: "FLANGER" },
+  { value: "phaser", label: "PHASER" },
+  { value: "bitcrusher", label: "CRUSH" },
+  { value: "gate", label: "GATE" },
+  { value: "pingpong", label: "P.PONG" },
 ];
 
 /**
- * FX Control Panel - Refactored design with vertical stacked buttons
+ * FX Control Panel - Refactored design with a two-column FX button grid
  *
  * LAYOUT:
  * - Container: 224px wide x 132px tall (positioned at x=688, y=346)
- * - FX buttons + knob: top portion (~50% of height)
+ * - FX1/FX2 unit tabs + assign button, FX buttons + one knob per chain slot: top portion
  * - Channel A fader: left slider hole (x=51 relative)
  * - Channel B fader: right slider hole (x=173 relative)
  *
  * BEHAVIOR:
- * - Only one FX can be active at a time
- * - Clicking active button deactivates FX (sets type to "none")
- * - Clicking different button switches to that FX and enables it
+ * - The tabs pick which FX unit the buttons and knobs edit (local only)
+ * - The assign button cycles the unit through decks and master
+ * - Each unit chains up to three FX; buttons show their position in the chain
+ * - Clicking an FX in the chain removes it (an empty chain turns the unit off)
+ * - Clicking an FX not in the chain appends it and enables the unit
+ * - Clicking a knob's label moves that FX one step earlier in the chain
  */
 export default function FXControlPanel({
-  fxState,
-  channelAFader,
-  channelBFader,
+  fx1,
+  fx2,
+  deckCount = 2,
+  leftChannel = "A",
+  rightChannel = "B",
+  leftFader,
+  rightFader,
   roomId,
   clientId,
   sendEvent,
@@ -48,50 +95,74 @@ export default function FXControlPanel({
   controlOwners,
   memberColors,
 }: FXControlPanelProps) {
+  const [unit, setUnit] = useState<FxUnitId>("fx1");
+  const fxState = unit === "fx1" ? fx1 : fx2;
+
+  // Cycle the selected unit to the next assign target (A → B → ... → master → A)
+  const handleAssignClick = useCallback(() => {
+    const targets = getFxAssignTargets(deckCount);
+    const index = targets.indexOf(fxState.assign);
+    const next = targets[(index + 1) % targets.length]!;
+    sendEvent({
+      type: "FX_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { unit, param: "assign", value: next },
+    });
+  }, [sendEvent, roomId, clientId, nextSeq, unit, deckCount, fxState.assign]);
+
+  // Send the selected unit's edited chain
+  const sendChain = useCallback(
+    (chain: FxChainSlot[]) => {
+      sendEvent({
+        type: "FX_CHAIN_SET",
+        roomId,
+        clientId,
+        clientSeq: nextSeq(),
+        payload: { unit, chain },
+      });
+    },
+    [sendEvent, roomId, clientId, nextSeq, unit]
+  );
+
   // Handle FX button click
-  // - If clicking the active FX button, turn it off (set type to "none" and disable)
-  // - If clicking a different button, switch to that FX and enable it
+  // - If the FX is in the chain, remove it (server turns the unit off when the chain empties)
+  // - Otherwise append it to the chain and enable the unit
   const handleFXButtonClick = useCallback(
-    (type: Exclude<FxType, "none">) => {
-      const isCurrentlyActive = fxState.type === type && fxState.enabled;
+    (type: FxChainType) => {
+      if (fxState.chain.some((slot) => slot.type === type)) {
+        sendChain(fxState.chain.filter((slot) => slot.type !== type));
+        return;
+      }
 
-      if (isCurrentlyActive) {
-        // Turn off the FX
-        sendEvent({
-          type: "FX_SET",
-          roomId,
-          clientId,
-          clientSeq: nextSeq(),
-          payload: { param: "type", value: "none" },
-        });
+      if (fxState.chain.length >= MAX_FX_CHAIN_LENGTH) return;
+
+      sendChain([...fxState.chain, { type, param: 0.5 }]);
+      if (!fxState.enabled) {
         sendEvent({
           type: "FX_TOGGLE",
           roomId,
           clientId,
           clientSeq: nextSeq(),
-          payload: { enabled: false },
+          payload: { unit, enabled: true },
         });
-      } else {
-        // Switch to this FX and enable it
-        sendEvent({
-          type: "FX_SET",
-          roomId,
-          clientId,
-          clientSeq: nextSeq(),
-          payload: { param: "type", value: type },
-        });
-        if (!fxState.enabled) {
-          sendEvent({
-            type: "FX_TOGGLE",
-            roomId,
-            clientId,
-            clientSeq: nextSeq(),
-            payload: { enabled: true },
-          });
-        }
       }
     },
-    [sendEvent, roomId, clientId, nextSeq, fxState.type, fxState.enabled]
+    [sendChain, sendEvent, roomId, clientId, nextSeq, unit, fxState.chain, fxState.enabled]
+  );
+
+  // Move a chain slot one step earlier (slot 0 stays put)
+  const handleMoveEarlier = useCallback(
+    (index: number) => {
+      if (index <= 0) return;
+      const chain = [...fxState.chain];
+      const [slot] = chain.splice(index, 1);
+      if (!slot) return;
+      chain.splice(index - 1, 0, slot);
+      sendChain(chain);
+    },
+    [sendChain, fxState.chain]
   );
 
   // SVG-aligned positions (relative to container at x=688, y=346)
@@ -102,7 +173,7 @@ export default function FXControlPanel({
 
   // FX control area (buttons + knob) positioned at top center
   const FX_AREA_CENTER_X = 112; // Centered between the two sliders
-  const FX_AREA_Y = 10;         // Balanced spacing from top
+  const FX_AREA_Y = 2;          // Unit row sits flush with the top edge
 
   return (
     <div
@@ -124,19 +195,79 @@ export default function FXControlPanel({
           display: "flex",
           flexDirection: "column",
           alignItems: "center",
-          gap: 6,
+          gap: 4,
         }}
       >
-        {/* Vertical stacked FX buttons */}
+        {/* Unit tabs + assign target */}
+        <div style={{ display: "flex", gap: 2 }}>
+          {FX_UNITS.map((u) => {
+            const isSelected = u.value === unit;
+            return (
+              <button
+                key={u.value}
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setUnit(u.value);
+                }}
+                style={{
+                  width: 24,
+                  padding: "1px 0",
+                  fontSize: "0.45rem",
+                  fontWeight: 700,
+                  background: isSelected ? "#1f2937" : "transparent",
+                  color: isSelected ? "#e5e7eb" : "#6b7280",
+                  border: "1px solid #4b5563",
+                  borderRadius: 3,
+                  cursor: "pointer",
+                  pointerEvents: "auto",
+                }}
+              >
+                {u.label}
+              </button>
+            );
+          })}
+          <button
+            type="button"
+            title="Assign FX unit to a deck or master"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              handleAssignClick();
+            }}
+            style={{
+              width: 24,
+              padding: "1px 0",
+              fontSize: "0.45rem",
+              fontWeight: 700,
+              background: "#111827",
+              color:
+                fxState.assign === "master"
+                  ? "#f59e0b"
+                  : CHANNEL_COLORS[fxState.assign],
+              border: "1px solid #4b5563",
+              borderRadius: 3,
+              cursor: "pointer",
+              pointerEvents: "auto",
+            }}
+          >
+            {fxState.assign === "master" ? "MST" : fxState.assign}
+          </button>
+        </div>
+
+        {/* FX buttons, two per row */}
         <div
           style={{
-            display: "flex",
-            flexDirection: "column",
-            gap: 4,
+            display: "grid",
+            gridTemplateColumns: "repeat(2, 44px)",
+            gap: 2,
           }}
         >
           {FX_BUTTONS.map((fx) => {
-            const isActive = fxState.type === fx.value && fxState.enabled;
+            const chainIndex = fxState.chain.findIndex((slot) => slot.type === fx.value);
+            const isActive = chainIndex >= 0 && fxState.enabled;
+            const isFull = chainIndex < 0 && fxState.chain.length >= MAX_FX_CHAIN_LENGTH;
             return (
               <button
                 key={fx.value}
@@ -147,16 +278,17 @@ export default function FXControlPanel({
                   handleFXButtonClick(fx.value);
                 }}
                 style={{
-                  width: 52,
-                  padding: "3px 6px",
-                  fontSize: "0.5rem",
+                  width: 44,
+                  padding: "2px 0",
+                  fontSize: "0.45rem",
                   fontWeight: 700,
                   letterSpacing: "0.02em",
                   background: isActive ? "#3b82f6" : "#374151",
                   color: isActive ? "#fff" : "#9ca3af",
                   border: "1px solid #4b5563",
                   borderRadius: 3,
-                  cursor: "pointer",
+                  cursor: isFull ? "not-allowed" : "pointer",
+                  opacity: isFull ? 0.5 : 1,
                   transition: "all 0.1s",
                   pointerEvents: "auto",
                   boxShadow: isActive
@@ -164,27 +296,61 @@ export default function FXControlPanel({
                     : "0 1px 2px rgba(0, 0, 0, 0.3)",
                 }}
               >
-                {fx.label}
+                {chainIndex >= 0 ? `${chainIndex + 1}·${fx.label}` : fx.label}
               </button>
             );
           })}
         </div>
 
-        {/* Magnitude knob */}
-        <Knob
-          controlId="fx.param"
-          value={fxState.param}
-          roomId={roomId}
-          clientId={clientId}
-          sendEvent={sendEvent}
-          nextSeq={nextSeq}
-          ownership={controlOwners["fx.param"]}
-          memberColors={memberColors}
-          size={36}
-        />
+        {/* One magnitude knob per chain slot, in signal order */}
+        <div style={{ display: "flex", gap: 4, minHeight: 36 }}>
+          {fxState.chain.map((slot, index) => {
+            const controlId = getFxChainParamControlId(unit, index);
+            const label = FX_BUTTONS.find((fx) => fx.value === slot.type)?.label ?? slot.type;
+            return (
+              <div
+                key={`${unit}-${slot.type}`}
+                style={{ display: "flex", flexDirection: "column", alignItems: "center" }}
+              >
+                <Knob
+                  controlId={controlId}
+                  value={slot.param}
+                  roomId={roomId}
+                  clientId={clientId}
+                  sendEvent={sendEvent}
+                  nextSeq={nextSeq}
+                  ownership={controlOwners[controlId]}
+                  memberColors={memberColors}
+                  size={fxState.chain.length > 1 ? 24 : 36}
+                />
+                <button
+                  type="button"
+                  title={index > 0 ? "Move earlier in chain" : undefined}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleMoveEarlier(index);
+                  }}
+                  style={{
+                    padding: 0,
+                    fontSize: "0.4rem",
+                    fontWeight: 700,
+                    background: "transparent",
+                    color: "#9ca3af",
+                    border: "none",
+                    cursor: index > 0 ? "pointer" : "default",
+                    pointerEvents: "auto",
+                  }}
+                >
+                  {index > 0 ? `◀${label.slice(0, 3)}` : label.slice(0, 3)}
+                </button>
+              </div>
+            );
+          })}
+        </div>
       </div>
 
-      {/* Channel A Fader - Aligned to left slider hole */}
+      {/* Left channel fader (A/C) - Aligned to left slider hole */}
       <div
         style={{
           position: "absolute",
@@ -197,21 +363,23 @@ export default function FXControlPanel({
           gap: 4,
         }}
       >
-        <span style={{ fontSize: "0.5rem", color: "#3b82f6", fontWeight: 600 }}>A</span>
+        <span style={{ fontSize: "0.5rem", color: CHANNEL_COLORS[leftChannel], fontWeight: 600 }}>
+          {leftChannel}
+        </span>
         <Fader
-          controlId="channelA.fader"
-          value={channelAFader}
+          controlId={`channel${leftChannel}.fader`}
+          value={leftFader}
           roomId={roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
-          ownership={controlOwners["channelA.fader"]}
+          ownership={controlOwners[`channel${leftChannel}.fader`]}
           memberColors={memberColors}
           height={SLIDER_HEIGHT}
         />
       </div>
 
-      {/* Channel B Fader - Aligned to right slider hole */}
+      {/* Right channel fader (B/D) - Aligned to right slider hole */}
       <div
         style={{
           position: "absolute",
@@ -224,15 +392,17 @@ export default function FXControlPanel({
           gap: 4,
         }}
       >
-        <span style={{ fontSize: "0.5rem", color: "#8b5cf6", fontWeight: 600 }}>B</span>
+        <span style={{ fontSize: "0.5rem", color: CHANNEL_COLORS[rightChannel], fontWeight: 600 }}>
+          {rightChannel}
+        </span>
         <Fader
-          controlId="channelB.fader"
-          value={channelBFader}
+          controlId={`channel${rightChannel}.fader`}
+          value={rightFader}
           roomId={roomId}
           clientId={clientId}
           sendEvent={sendEvent}
           nextSeq={nextSeq}
-          ownership={controlOwners["channelB.fader"]}
+          ownership={controlOwners[`channel${rightChannel}.fader`]}
           memberColors={memberColors}
           height={SLIDER_HEIGHT}
         />
@@ -0,0 +1,189 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type {
+  ClientMutationEvent,
+  ControlOwnership,
+  LimiterState,
+} from "@puid-board/shared";
+import { getLimiterSettings } from "@puid-board/shared";
+import { useGainReduction } from "@/audio/useMixer";
+import { Knob } from "./controls";
+
+export type LimiterControlProps = {
+  limiter: LimiterState;
+  roomId: string;
+  clientId: string;
+  sendEvent: (e: ClientMutationEvent) => void;
+  nextSeq: () => number;
+  controlOwners: Record<string, ControlOwnership>;
+  memberColors: Record<string, string>;
+};
+
+/** Gain reduction shown by a full meter (dB) */
+const METER_RANGE_DB = 12;
+
+/** Meter height in pixels */
+const METER_HEIGHT = 22;
+
+/** Limiter knobs, in signal order */
+const LIMITER_KNOBS = [
+  { controlId: "limiter.threshold", param: "threshold", label: "THR" },
+  { controlId: "limiter.release", param: "release", label: "REL" },
+  { controlId: "limiter.ceiling", param: "ceiling", label: "CEIL" },
+] as const;
+
+/**
+ * Master limiter gain-reduction meter, shown next to the clipping LED.
+ * The meter fills downward as the limiter pulls the master bus down.
+ * Clicking it opens the limiter settings: on/off plus threshold, release
+ * and ceiling knobs.
+ */
+export default function LimiterControl({
+  limiter,
+  roomId,
+  clientId,
+  sendEvent,
+  nextSeq,
+  controlOwners,
+  memberColors,
+}: LimiterControlProps) {
+  const reductionDb = useGainReduction();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleToggle = useCallback(() => {
+    sendEvent({
+      type: "LIMITER_TOGGLE",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { enabled: !limiter.enabled },
+    });
+  }, [sendEvent, roomId, clientId, nextSeq, limiter.enabled]);
+
+  const fill = Math.min(1, reductionDb / METER_RANGE_DB);
+  const { thresholdDb, releaseSec, ceilingDb } = getLimiterSettings(limiter);
+  const readouts: Record<(typeof LIMITER_KNOBS)[number]["param"], string> = {
+    threshold: `${thresholdDb.toFixed(1)}dB`,
+    release: `${Math.round(releaseSec * 1000)}ms`,
+    ceiling: `${ceilingDb.toFixed(1)}dB`,
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        type="button"
+        title={`Limiter ${limiter.enabled ? "on" : "bypassed"}: ${reductionDb.toFixed(1)}dB gain reduction`}
+        onClick={() => setIsOpen((open) => !open)}
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          gap: 2,
+          padding: 0,
+          background: "none",
+          border: "none",
+          cursor: "pointer",
+        }}
+      >
+        <div
+          style={{
+            fontSize: "7px",
+            color: limiter.enabled ? "#6b7280" : "#374151",
+            fontWeight: 600,
+            letterSpacing: "0.05em",
+          }}
+        >
+          GR
+        </div>
+        <div
+          style={{
+            position: "relative",
+            width: 6,
+            height: METER_HEIGHT,
+            background: "#111827",
+            border: "1px solid rgba(0,0,0,0.3)",
+            borderRadius: 1,
+            overflow: "hidden",
+          }}
+        >
+          <div
+            style={{
+              position: "absolute",
+              top: 0,
+              left: 0,
+              right: 0,
+              height: `${fill * 100}%`,
+              background: fill > 0.5 ? "#ef4444" : "#f59e0b",
+            }}
+          />
+        </div>
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: "50%",
+            transform: "translateX(-50%)",
+            marginTop: 6,
+            padding: 6,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: 4,
+            background: "#1f2937",
+            border: "1px solid #374151",
+            borderRadius: 4,
+            boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+            zIndex: 200,
+          }}
+        >
+          <button
+            type="button"
+            onClick={handleToggle}
+            style={{
+              width: "100%",
+              padding: "2px 6px",
+              fontSize: "8px",
+              fontWeight: 700,
+              letterSpacing: "0.05em",
+              color: limiter.enabled ? "#052e16" : "#9ca3af",
+              background: limiter.enabled ? "#22c55e" : "#374151",
+              border: "none",
+              borderRadius: 2,
+              cursor: "pointer",
+            }}
+          >
+            {limiter.enabled ? "LIMITER ON" : "LIMITER OFF"}
+          </button>
+          <div style={{ display: "flex", gap: 6 }}>
+            {LIMITER_KNOBS.map(({ controlId, param, label }) => (
+              <div
+                key={controlId}
+                style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 1 }}
+              >
+                <Knob
+                  controlId={controlId}
+                  value={limiter[param]}
+                  roomId={roomId}
+                  clientId={clientId}
+                  sendEvent={sendEvent}
+                  nextSeq={nextSeq}
+                  ownership={controlOwners[controlId]}
+                  memberColors={memberColors}
+                  size={24}
+                />
+                <div style={{ fontSize: "7px", color: "#9ca3af", fontWeight: 600 }}>{label}</div>
+                <div style={{ fontSize: "7px", color: "#6b7280", fontFamily: "monospace" }}>
+                  {readouts[param]}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
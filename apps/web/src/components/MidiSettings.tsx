@@ -0,0 +1,331 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { DeckCount } from "@puid-board/shared";
+import {
+  getMidiAccessState,
+  initMidi,
+  subscribeToMidiAccess,
+  type MidiAccessState,
+} from "@/midi/access";
+import {
+  ENCODER_MODES,
+  findTargetBinding,
+  getMidiInputLabel,
+  getMidiTargetKey,
+  getMidiTargetLabel,
+  getMidiTargets,
+  type EncoderMode,
+  type MidiTarget,
+} from "@/midi/mapping";
+import {
+  addMidiProfile,
+  clearMidiBinding,
+  deleteMidiProfile,
+  getMidiProfileState,
+  setActiveMidiProfile,
+  setMidiBindingEncoder,
+  setMidiLearnTarget,
+  subscribeToMidiProfiles,
+  updateActiveMidiProfile,
+  type MidiProfileState,
+} from "@/midi/profiles";
+
+export type MidiSettingsProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  deckCount: DeckCount;
+};
+
+const GROUPS = ["Mixer", "FX", "Decks", "Hot Cues", "Sampler"] as const;
+
+/** Editor section a target is listed under */
+function getTargetGroup(target: MidiTarget): (typeof GROUPS)[number] {
+  switch (target.kind) {
+    case "control":
+      if (target.controlId.startsWith("fx")) return "FX";
+      if (target.controlId.startsWith("deck")) return "Decks";
+      return "Mixer";
+    case "deck":
+      return "Decks";
+    case "hotCue":
+      return "Hot Cues";
+    case "sampler":
+      return "Sampler";
+  }
+}
+
+const STATUS_TEXT: Record<MidiAccessState["status"], string> = {
+  unsupported: "Web MIDI is not supported in this browser (try Chrome or Edge)",
+  idle: "Not connected",
+  requesting: "Waiting for permission...",
+  ready: "Connected",
+  denied: "MIDI access was blocked - allow it in the browser's site settings",
+};
+
+const buttonStyle = {
+  padding: "4px 10px",
+  fontSize: 11,
+  fontWeight: 500,
+  background: "rgba(156, 163, 175, 0.12)",
+  color: "#9ca3af",
+  border: "none",
+  borderRadius: 4,
+  cursor: "pointer",
+} as const;
+
+const selectStyle = {
+  padding: "4px 6px",
+  fontSize: 11,
+  background: "#1a1a1a",
+  color: "#e5e5e5",
+  border: "1px solid #333",
+  borderRadius: 4,
+} as const;
+
+/**
+ * MIDI settings - connects controllers and edits the user's mapping profiles.
+ * Learn: press Learn next to a function, then move or press the control on the
+ * controller.
+ */
+export default function MidiSettings({ isOpen, onClose, deckCount }: MidiSettingsProps) {
+  const [access, setAccess] = useState<MidiAccessState>(getMidiAccessState);
+  const [profiles, setProfiles] = useState<MidiProfileState>(getMidiProfileState);
+
+  useEffect(() => subscribeToMidiAccess(setAccess), []);
+  useEffect(() => subscribeToMidiProfiles(setProfiles), []);
+
+  // Connect when opened; stop learning when closed
+  useEffect(() => {
+    if (!isOpen) return;
+    initMidi();
+    return () => setMidiLearnTarget(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const activeProfile =
+    profiles.profiles.find((p) => p.id === profiles.activeProfileId) ?? null;
+  const learnKey = profiles.learnTarget && getMidiTargetKey(profiles.learnTarget);
+  const targets = getMidiTargets(deckCount);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: "rgba(0, 0, 0, 0.8)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 10000,
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: "linear-gradient(180deg, #1a1a1a 0%, #0f0f10 100%)",
+          borderRadius: 12,
+          border: "1px solid #333",
+          padding: 24,
+          width: 560,
+          maxWidth: "90vw",
+          maxHeight: "85vh",
+          overflowY: "auto",
+          boxShadow: "0 20px 60px rgba(0, 0, 0, 0.5)",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: 16,
+          }}
+        >
+          <h2
+            style={{
+              margin: 0,
+              fontSize: 18,
+              fontWeight: 600,
+              color: "#e5e5e5",
+              letterSpacing: "0.025em",
+            }}
+          >
+            MIDI Controller
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: "transparent",
+              border: "none",
+              color: "#666",
+              fontSize: 24,
+              cursor: "pointer",
+              padding: 4,
+              lineHeight: 1,
+            }}
+          >
+            x
+          </button>
+        </div>
+
+        {/* Devices */}
+        <div style={{ fontSize: 12, color: "#9ca3af", marginBottom: 16 }}>
+          {STATUS_TEXT[access.status]}
+          {access.status === "ready" && (
+            <span style={{ color: "#6b7280" }}>
+              {" "}
+              ·{" "}
+              {access.inputs.length > 0
+                ? access.inputs.map((input) => input.name).join(", ")
+                : "no controllers plugged in"}
+            </span>
+          )}
+        </div>
+
+        {/* Profile */}
+        <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 8 }}>
+          <select
+            value={activeProfile?.id ?? ""}
+            onChange={(e) => setActiveMidiProfile(e.target.value)}
+            disabled={profiles.profiles.length === 0}
+            style={{ ...selectStyle, flex: 1 }}
+          >
+            {profiles.profiles.length === 0 && <option value="">No profiles</option>}
+            {profiles.profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name} ({profile.bindings.length})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => addMidiProfile(`Controller ${profiles.profiles.length + 1}`)}
+            style={buttonStyle}
+          >
+            New
+          </button>
+          {activeProfile && (
+            <button onClick={() => deleteMidiProfile(activeProfile.id)} style={buttonStyle}>
+              Delete
+            </button>
+          )}
+        </div>
+
+        {activeProfile && (
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 16 }}>
+            <input
+              value={activeProfile.name}
+              onChange={(e) => updateActiveMidiProfile({ name: e.target.value.slice(0, 32) })}
+              style={{ ...selectStyle, flex: 1 }}
+              aria-label="Profile name"
+            />
+            <select
+              value={activeProfile.outputName ?? ""}
+              onChange={(e) => updateActiveMidiProfile({ outputName: e.target.value || null })}
+              style={{ ...selectStyle, flex: 1 }}
+              title="Where LED feedback is sent"
+            >
+              <option value="">LEDs: all outputs</option>
+              {access.outputs.map((output) => (
+                <option key={output.id} value={output.name}>
+                  LEDs: {output.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Mappings */}
+        {GROUPS.map((group) => (
+          <div key={group} style={{ marginBottom: 12 }}>
+            <div
+              style={{
+                fontSize: 11,
+                fontWeight: 600,
+                color: "#6b7280",
+                textTransform: "uppercase",
+                letterSpacing: "0.05em",
+                marginBottom: 4,
+              }}
+            >
+              {group}
+            </div>
+            {targets
+              .filter((target) => getTargetGroup(target) === group)
+              .map((target) => {
+                const key = getMidiTargetKey(target);
+                const binding = activeProfile && findTargetBinding(activeProfile, target);
+                const isLearning = learnKey === key;
+                return (
+                  <div
+                    key={key}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 6,
+                      padding: "3px 0",
+                      borderBottom: "1px solid #1f1f1f",
+                      fontSize: 12,
+                    }}
+                  >
+                    <span style={{ flex: 1, color: "#e5e5e5" }}>{getMidiTargetLabel(target)}</span>
+                    <span
+                      style={{
+                        width: 100,
+                        color: binding ? "#FF8C3B" : "#404040",
+                        fontFamily: "monospace",
+                        fontSize: 11,
+                      }}
+                    >
+                      {binding ? getMidiInputLabel(binding.input) : "-"}
+                    </span>
+                    {binding && target.kind === "control" ? (
+                      <select
+                        value={binding.encoder}
+                        onChange={(e) => setMidiBindingEncoder(target, e.target.value as EncoderMode)}
+                        style={{ ...selectStyle, width: 150 }}
+                      >
+                        {ENCODER_MODES.map(({ mode, label }) => (
+                          <option key={mode} value={mode}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span style={{ width: 150 }} />
+                    )}
+                    <button
+                      onClick={() => setMidiLearnTarget(isLearning ? null : target)}
+                      disabled={access.status !== "ready"}
+                      style={{
+                        ...buttonStyle,
+                        width: 64,
+                        background: isLearning ? "rgba(255, 140, 59, 0.9)" : buttonStyle.background,
+                        color: isLearning ? "#fff" : buttonStyle.color,
+                      }}
+                    >
+                      {isLearning ? "Listening" : "Learn"}
+                    </button>
+                    <button
+                      onClick={() => clearMidiBinding(target)}
+                      disabled={!binding}
+                      style={{ ...buttonStyle, opacity: binding ? 1 : 0.4 }}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { memo, useState, useCallback, useRef } from "react";
 
-export type PadFunction = "hotcue" | "loop" | "roll" | "jump";
+export type PadFunction = "hotcue" | "loop" | "roll" | "jump" | "vinyl";
 
 export type PerformancePadButtonProps = {
   keybind: string;
@@ -11,6 +11,8 @@ export type PerformancePadButtonProps = {
   onClick: () => void;
   onHold: () => void;
   onRelease: () => void;
+  /** Fired as soon as the pad goes down (before tap/hold is known) */
+  onPress?: () => void;
   size?: number;
   /** External pressed state (e.g., from keyboard trigger) */
   externalPressed?: boolean;
@@ -100,6 +102,26 @@ const FUNCTION_ICONS: Record<PadFunction, JSX.Element> = {
       </g>
     </>
   ),
+  vinyl: (
+    <>
+      {/* Vinyl icon - record with groove and label */}
+      <g transform="translate(-0.5,-0.5)" opacity="0.06" stroke="#ffffff" fill="none" strokeWidth="1.6">
+        <circle cx="8" cy="8" r="6" />
+        <path d="M4.5 6 A4 4 0 0 1 10 4.5" />
+        <circle cx="8" cy="8" r="1.5" fill="#ffffff" />
+      </g>
+      <g transform="translate(0.6,0.6)" opacity="0.42" stroke="#000000" fill="none" strokeWidth="1.6">
+        <circle cx="8" cy="8" r="6" />
+        <path d="M4.5 6 A4 4 0 0 1 10 4.5" />
+        <circle cx="8" cy="8" r="1.5" fill="#000000" />
+      </g>
+      <g opacity="0.20" stroke="#9ca3af" fill="none" strokeWidth="1.6">
+        <circle cx="8" cy="8" r="6" />
+        <path d="M4.5 6 A4 4 0 0 1 10 4.5" />
+        <circle cx="8" cy="8" r="1.5" fill="#9ca3af" />
+      </g>
+    </>
+  ),
 };
 
 /**
@@ -113,6 +135,7 @@ const PerformancePadButton = memo(function PerformancePadButton({
   onClick,
   onHold,
   onRelease,
+  onPress,
   size = 60,
   externalPressed = false,
 }: PerformancePadButtonProps) {
@@ -127,6 +150,7 @@ const PerformancePadButton = memo(function PerformancePadButton({
     e.preventDefault();
     setInternalPressed(true);
     isHoldTriggeredRef.current = false;
+    onPress?.();
 
     // Set up hold detection
     // Hold will fire after threshold, tap will fire on release if hold didn't trigger
@@ -134,7 +158,7 @@ const PerformancePadButton = memo(function PerformancePadButton({
       isHoldTriggeredRef.current = true;
       onHold();
     }, HOLD_THRESHOLD_MS);
-  }, [onHold]);
+  }, [onHold, onPress]);
 
   const handlePointerUp = useCallback(() => {
     setInternalPressed(false);
@@ -1,13 +1,19 @@
 "use client";
 
-import { memo, useCallback, useEffect, useState, useRef } from "react";
+import { memo, useCallback, useEffect, useMemo, useState, useRef } from "react";
 import PerformancePadButton, { type PadFunction } from "./PerformancePadButton";
+import type { DeckId, DeckState } from "@puid-board/shared";
+import { DEFAULT_HOT_CUE_COLORS, quantizePosition } from "@puid-board/shared";
 import { useDeck } from "@/audio/useDeck";
+import { getKeyLabel, type BoardSide } from "@/shortcuts/keymap";
+import { isShortcutEvent, useShortcutState } from "@/shortcuts/useShortcuts";
 
 export type PerformancePadPanelProps = {
-  deckId: "A" | "B";
-  /** Keybinds for the 4 pads (top-left, top-right, bottom-left, bottom-right) */
-  keybinds: [string, string, string, string];
+  deckId: DeckId;
+  /** Server deck state (hot cues, loops, beat grid and quantize setting) */
+  serverState: DeckState;
+  /** Board side, selects the pad shortcuts (see shortcuts/keymap.ts) */
+  side: BoardSide;
   /** Room ID for sending events */
   roomId: string;
   /** Client ID */
@@ -16,8 +22,13 @@ export type PerformancePadPanelProps = {
   sendEvent: (e: import("@puid-board/shared").ClientMutationEvent) => void;
   /** Get next sequence number */
   nextSeq: () => number;
+  /** Ignore keyboard input (read-only listeners) */
+  disabled?: boolean;
 };
 
+// Shortcut actions for the pads, in grid order
+const PAD_SHORTCUTS = ["pad1", "pad2", "pad3", "pad4"] as const;
+
 // Pad functions in order: HOT CUE, LOOP, ROLL, JUMP
 const PAD_FUNCTIONS: [PadFunction, PadFunction, PadFunction, PadFunction] = ["hotcue", "loop", "roll", "jump"];
 
@@ -29,20 +40,80 @@ const PAD_COLORS: [string, string, string, string] = [
   "#FF3B3B", // Pad 4: Jump - Red
 ];
 
+// Function labels in display format
+const FUNCTION_LABELS = ["HOT CUE", "LOOP", "ROLL", "JUMP"];
+
+/** Pad banks: the performance functions, hot cues 1-4 / 5-8, the saved loops or vinyl effects */
+type PadBank = "perform" | "cues1" | "cues2" | "loops" | "vinyl";
+
+const PAD_BANKS: { bank: PadBank; label: string }[] = [
+  { bank: "perform", label: "PERF" },
+  { bank: "cues1", label: "1-4" },
+  { bank: "cues2", label: "5-8" },
+  { bank: "loops", label: "LOOP" },
+  { bank: "vinyl", label: "VNL" },
+];
+
+const BANK_TITLES: Record<PadBank, string> = {
+  perform: "Performance pads",
+  cues1: "Hot cues 1-4",
+  cues2: "Hot cues 5-8",
+  loops: "Saved loops",
+  vinyl: "Censor, reverse, brake and spin-back",
+};
+
+/** First hot cue index shown by each cue bank */
+const BANK_CUE_OFFSET: Record<"cues1" | "cues2", number> = { cues1: 0, cues2: 4 };
+
+/** LED color of a pad whose hot cue or loop slot is empty */
+const EMPTY_CUE_COLOR = "#3a3a3a";
+
+/** LED color of a saved loop pad */
+const SAVED_LOOP_COLOR = "#3BD16F";
+
+/** LED color of the vinyl effect pads */
+const VINYL_COLOR = "#A855F7";
+
+/** Brake/spin-back ramp times a held pad cycles through (ms) */
+const MOTION_DURATIONS_MS = [500, 1000, 2000, 4000] as const;
+
+type PadHandlers = { onClick: () => void; onHold: () => void; onRelease: () => void; onPress?: () => void };
+
+type PadConfig = { handlers: PadHandlers; padFunction: PadFunction; color: string; label: string };
+
+const NOOP = () => {};
+
 /**
  * Performance pad panel with 4 pads in 2x2 grid.
- * Each pad has a fixed function: Hot Cue, Loop, Roll, Jump.
+ * The perform bank has fixed functions: Hot Cue, Loop, Roll, Jump.
+ * The cue banks map the pads to hot cues 1-4 and 5-8: tap sets an empty
+ * cue or jumps to a set one, hold clears it. The loop bank works the same
+ * way on the saved loops: tap saves the active loop or recalls a saved one.
+ * In slip mode a set hot cue plays while its pad is held and the deck
+ * resumes from the shadow playhead on release. The vinyl bank has censor
+ * (held), reverse (toggle) and brake / spin-back (tap; hold cycles the time).
  */
 const PerformancePadPanel = memo(function PerformancePadPanel({
   deckId,
-  keybinds,
+  serverState,
+  side,
   roomId,
   clientId,
   sendEvent,
   nextSeq,
+  disabled = false,
 }: PerformancePadPanelProps) {
   const deck = useDeck(deckId);
+  const { map: shortcutMap, layout } = useShortcutState();
+  // Key codes for the 4 pads (top-left, top-right, bottom-left, bottom-right)
+  const keybinds = useMemo(
+    () => PAD_SHORTCUTS.map((pad) => shortcutMap[`${side}.${pad}` as const]),
+    [shortcutMap, side]
+  );
   const [keyPressed, setKeyPressed] = useState<Record<string, boolean>>({});
+  const [bank, setBank] = useState<PadBank>("perform");
+  // Brake and spin-back ramp times (index into MOTION_DURATIONS_MS)
+  const [motionTimes, setMotionTimes] = useState({ brake: 1, spinback: 0 });
 
   // Keyboard hold detection (track key down times for hold detection)
   const keyHoldTimersRef = useRef<Record<string, NodeJS.Timeout | null>>({});
@@ -50,22 +121,9 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
   // Track which keys are currently down (for repeat guard) - using ref to avoid effect re-runs
   const keysDownRef = useRef<Record<string, boolean>>({});
 
-  // Store handlers in refs to prevent useEffect from re-running on every frame
-  // Initialize with no-op functions, will be updated after handlers are declared
-  const handlersRef = useRef({
-    hotCueClick: () => {},
-    hotCueHold: () => {},
-    hotCueRelease: () => {},
-    loopClick: () => {},
-    loopHold: () => {},
-    loopRelease: () => {},
-    rollClick: () => {},
-    rollHold: () => {},
-    rollRelease: () => {},
-    jumpClick: () => {},
-    jumpHold: () => {},
-    jumpRelease: () => {},
-  });
+  // Store the active bank's handlers in a ref to prevent useEffect from re-running on every frame
+  // Empty until the handlers are declared below
+  const handlersRef = useRef<PadHandlers[]>([]);
 
   // Loop state
   const loopStateRef = useRef<{
@@ -87,60 +145,81 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
     returnPos: null,
   });
 
-  // --- PAD 1: HOT CUE ---
-  const handleHotCueClick = useCallback(() => {
-    console.log(`[HOT_CUE] Deck ${deckId}: Tap handler called, isLoaded=${deck.isLoaded}, hotCuePointSec=${deck.hotCuePointSec}`);
+  // --- HOT CUES ---
+  // Set a hot cue slot at the current position (snapped as the server will when quantized)
+  const setHotCue = useCallback((index: number) => {
+    if (!deck.isLoaded) return;
 
-    if (!deck.isLoaded) {
-      console.log(`[HOT_CUE] Deck ${deckId}: Blocked - no track loaded`);
-      return;
-    }
+    const position = quantizePosition(serverState, deck.playhead);
+    console.log(`[HOT_CUE] Deck ${deckId}: Setting hot cue ${index + 1} at ${position.toFixed(2)}s`);
 
-    // Tap: Jump to hot cue and play (if cue is set)
-    if (deck.hotCuePointSec !== null) {
-      console.log(`[HOT_CUE] Deck ${deckId}: Jumping to cue at ${deck.hotCuePointSec.toFixed(2)}s`);
+    sendEvent({
+      type: "DECK_HOT_CUE_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, index, positionSec: position },
+    });
+  }, [deck, deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
 
-      // CRITICAL FIX: Send DECK_SEEK event to server so all clients sync
-      // Without this, only the local client jumps, then BEACON_TICK pulls it back
-      sendEvent({
-        type: "DECK_SEEK",
-        roomId,
-        clientId,
-        clientSeq: nextSeq(),
-        payload: { deckId, positionSec: deck.hotCuePointSec },
-      });
-      console.log(`[HOT_CUE] Deck ${deckId}: DECK_SEEK event sent to server`);
+  // Jump to a set hot cue slot and play
+  const jumpToHotCue = useCallback((index: number) => {
+    const cue = serverState.hotCues[index];
+    if (!deck.isLoaded || !cue) return;
 
-      // Apply locally for immediate feedback (optimistic update)
-      deck.jumpToHotCue();
-    } else {
-      console.log(`[HOT_CUE] Deck ${deckId}: No cue set - tap does nothing`);
-    }
-  }, [deck, deckId, sendEvent, roomId, clientId, nextSeq]);
+    console.log(`[HOT_CUE] Deck ${deckId}: Jumping to hot cue ${index + 1} at ${cue.positionSec.toFixed(2)}s`);
 
-  const handleHotCueHold = useCallback(() => {
-    console.log(`[HOT_CUE] Deck ${deckId}: Hold handler called, isLoaded=${deck.isLoaded}, playhead=${deck.playhead.toFixed(2)}s`);
+    // Server moves the playhead for all clients (otherwise BEACON_TICK pulls us back)
+    sendEvent({
+      type: "DECK_HOT_CUE_JUMP",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, index },
+    });
 
-    if (!deck.isLoaded) {
-      console.log(`[HOT_CUE] Deck ${deckId}: Blocked - no track loaded`);
-      return;
-    }
+    // Apply locally for immediate feedback (optimistic update)
+    deck.jumpToHotCue(cue.positionSec);
+  }, [deck, deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
 
-    // Hold: Set hot cue at current position
-    const position = deck.playhead;
-    console.log(`[HOT_CUE] Deck ${deckId}: Setting hot cue at ${position.toFixed(2)}s`);
-    deck.setHotCue();
+  const clearHotCue = useCallback((index: number) => {
+    if (!serverState.hotCues[index]) return;
 
-    // Send DECK_HOT_CUE_SET event to server so all clients sync
+    console.log(`[HOT_CUE] Deck ${deckId}: Clearing hot cue ${index + 1}`);
     sendEvent({
-      type: "DECK_HOT_CUE_SET",
+      type: "DECK_HOT_CUE_CLEAR",
       roomId,
       clientId,
       clientSeq: nextSeq(),
-      payload: { deckId, hotCuePointSec: position },
+      payload: { deckId, index },
     });
-    console.log(`[HOT_CUE] Deck ${deckId}: DECK_HOT_CUE_SET event sent to server`);
-  }, [deck, deckId, sendEvent, roomId, clientId, nextSeq]);
+  }, [deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
+
+  // Slip mode: resume from the shadow playhead the server kept during the jump
+  const releaseSlip = useCallback(() => {
+    sendEvent({
+      type: "DECK_SLIP_RELEASE",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId },
+    });
+  }, [deckId, sendEvent, roomId, clientId, nextSeq]);
+
+  // Handlers of a set hot cue pad in slip mode: jump on press, resume on release
+  const slipHotCueHandlers = (index: number): PadHandlers => ({
+    onPress: () => jumpToHotCue(index),
+    onClick: NOOP,
+    onHold: NOOP,
+    onRelease: releaseSlip,
+  });
+
+  // --- PAD 1: HOT CUE (hot cue 1) ---
+  // Tap: jump to hot cue 1 and play (if set)
+  const handleHotCueClick = useCallback(() => jumpToHotCue(0), [jumpToHotCue]);
+
+  // Hold: set hot cue 1 at the current position
+  const handleHotCueHold = useCallback(() => setHotCue(0), [setHotCue]);
 
   const handleHotCueRelease = useCallback(() => {
     // No action on release for hot cue
@@ -157,7 +236,7 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
       const bpm = deck.bpm ?? 120;
       const secondsPerBeat = 60 / bpm;
       const loopLengthSec = secondsPerBeat * 4 * loopState.length; // 4 beats per bar
-      const startSec = deck.playhead;
+      const startSec = quantizePosition(serverState, deck.playhead);
       const endSec = startSec + loopLengthSec;
 
       loopState.enabled = true;
@@ -185,7 +264,7 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
         payload: { deckId, enabled: false, startSec: 0, endSec: 0, lengthBars: loopState.length as 1 | 2 | 4 | 8 },
       });
     }
-  }, [deck, deckId, sendEvent, roomId, clientId, nextSeq]);
+  }, [deck, deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
 
   const handleLoopHold = useCallback(() => {
     // Cycle loop length: 1 -> 2 -> 4 -> 8 -> 1
@@ -209,8 +288,9 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
   const handleRollHold = useCallback(() => {
     if (!deck.isLoaded || loopRollStateRef.current.active) return;
 
-    const startSec = deck.playhead;
-    const returnSec = startSec;
+    // Roll starts on the grid when quantized, but returns to where it was pressed
+    const returnSec = deck.playhead;
+    const startSec = quantizePosition(serverState, returnSec);
     const loopState = loopStateRef.current;
     const lengthBars = loopState.length as 1 | 2 | 4 | 8;
 
@@ -225,7 +305,7 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
       clientSeq: nextSeq(),
       payload: { deckId, startSec, lengthBars, returnSec },
     });
-  }, [deck, deckId, sendEvent, roomId, clientId, nextSeq]);
+  }, [deck, deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
 
   const handleRollRelease = useCallback(() => {
     if (!loopRollStateRef.current.active) return;
@@ -291,64 +371,213 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
     // No action on release for jump
   }, []);
 
-  // Update handler refs with actual handlers (after they're declared)
-  handlersRef.current = {
-    hotCueClick: handleHotCueClick,
-    hotCueHold: handleHotCueHold,
-    hotCueRelease: handleHotCueRelease,
-    loopClick: handleLoopClick,
-    loopHold: handleLoopHold,
-    loopRelease: handleLoopRelease,
-    rollClick: handleRollClick,
-    rollHold: handleRollHold,
-    rollRelease: handleRollRelease,
-    jumpClick: handleJumpClick,
-    jumpHold: handleJumpHold,
-    jumpRelease: handleJumpRelease,
-  };
+  // --- SAVED LOOPS ---
+  // Save the active loop into a slot (the server stores it with the track)
+  const saveLoop = useCallback((index: number) => {
+    if (!serverState.loop?.enabled) return;
+
+    console.log(`[PerformancePad-${deckId}] Loop: Saving active loop to slot ${index + 1}`);
+    sendEvent({
+      type: "DECK_LOOP_SAVE",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, index },
+    });
+  }, [deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
+
+  // Recall a saved loop as the active loop
+  const recallLoop = useCallback((index: number) => {
+    const saved = serverState.savedLoops[index];
+    if (!deck.isLoaded || !saved) return;
+
+    const loopState = loopStateRef.current;
+    loopState.enabled = true;
+    loopState.startPos = saved.startSec;
+    loopState.length = saved.lengthBars;
+    console.log(`[PerformancePad-${deckId}] Loop: Recalled slot ${index + 1} at ${saved.startSec.toFixed(2)}s`);
+
+    sendEvent({
+      type: "DECK_LOOP_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, enabled: true, ...saved },
+    });
+  }, [deck, deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
+
+  const deleteLoop = useCallback((index: number) => {
+    if (!serverState.savedLoops[index]) return;
+
+    console.log(`[PerformancePad-${deckId}] Loop: Deleting slot ${index + 1}`);
+    sendEvent({
+      type: "DECK_LOOP_DELETE",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, index },
+    });
+  }, [deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
+
+  // --- VINYL EFFECTS ---
+  const setCensor = useCallback((active: boolean) => {
+    if (!deck.isLoaded) return;
+    sendEvent({
+      type: "DECK_CENSOR",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, active },
+    });
+  }, [deck, deckId, sendEvent, roomId, clientId, nextSeq]);
+
+  const toggleReverse = useCallback(() => {
+    sendEvent({
+      type: "DECK_REVERSE_SET",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, enabled: !serverState.reverse },
+    });
+  }, [deckId, serverState, sendEvent, roomId, clientId, nextSeq]);
+
+  const startMotion = useCallback((kind: "brake" | "spinback") => {
+    if (serverState.playState !== "playing") return;
+    const durationMs = MOTION_DURATIONS_MS[motionTimes[kind]]!;
+    console.log(`[PerformancePad-${deckId}] ${kind} over ${durationMs}ms`);
+    sendEvent({
+      type: "DECK_BRAKE",
+      roomId,
+      clientId,
+      clientSeq: nextSeq(),
+      payload: { deckId, kind, durationMs },
+    });
+  }, [deckId, serverState, motionTimes, sendEvent, roomId, clientId, nextSeq]);
+
+  const cycleMotionTime = useCallback((kind: "brake" | "spinback") => {
+    setMotionTimes((times) => ({ ...times, [kind]: (times[kind] + 1) % MOTION_DURATIONS_MS.length }));
+  }, []);
+
+  // Handlers and pad appearance for the active bank
+  let pads: PadConfig[];
+  if (bank === "perform") {
+    pads = [
+      serverState.slip && serverState.hotCues[0]
+        ? slipHotCueHandlers(0)
+        : { onClick: handleHotCueClick, onHold: handleHotCueHold, onRelease: handleHotCueRelease },
+      { onClick: handleLoopClick, onHold: handleLoopHold, onRelease: handleLoopRelease },
+      { onClick: handleRollClick, onHold: handleRollHold, onRelease: handleRollRelease },
+      { onClick: handleJumpClick, onHold: handleJumpHold, onRelease: handleJumpRelease },
+    ].map((handlers, index) => ({
+      handlers,
+      padFunction: PAD_FUNCTIONS[index]!,
+      color: PAD_COLORS[index]!,
+      label: FUNCTION_LABELS[index]!,
+    }));
+  } else if (bank === "vinyl") {
+    const motionLabel = (name: string, kind: "brake" | "spinback") =>
+      `${name} ${MOTION_DURATIONS_MS[motionTimes[kind]]! / 1000}S`;
+    pads = [
+      {
+        handlers: { onPress: () => setCensor(true), onClick: NOOP, onHold: NOOP, onRelease: () => setCensor(false) },
+        padFunction: "vinyl",
+        color: VINYL_COLOR,
+        label: "CENSOR",
+      },
+      {
+        handlers: { onClick: toggleReverse, onHold: NOOP, onRelease: NOOP },
+        padFunction: "vinyl",
+        color: serverState.reverse ? PAD_COLORS[0] : VINYL_COLOR,
+        label: "REVERSE",
+      },
+      {
+        handlers: { onClick: () => startMotion("brake"), onHold: () => cycleMotionTime("brake"), onRelease: NOOP },
+        padFunction: "vinyl",
+        color: VINYL_COLOR,
+        label: motionLabel("BRAKE", "brake"),
+      },
+      {
+        handlers: { onClick: () => startMotion("spinback"), onHold: () => cycleMotionTime("spinback"), onRelease: NOOP },
+        padFunction: "vinyl",
+        color: VINYL_COLOR,
+        label: motionLabel("SPIN", "spinback"),
+      },
+    ];
+  } else if (bank === "loops") {
+    pads = serverState.savedLoops.map((saved, index) => ({
+      handlers: {
+        onClick: () => (saved ? recallLoop(index) : saveLoop(index)),
+        onHold: () => deleteLoop(index),
+        onRelease: NOOP,
+      },
+      padFunction: "loop",
+      color: saved ? SAVED_LOOP_COLOR : EMPTY_CUE_COLOR,
+      label: saved ? `${saved.lengthBars} BAR` : `LOOP ${index + 1}`,
+    }));
+  } else {
+    const offset = BANK_CUE_OFFSET[bank];
+    pads = [0, 1, 2, 3].map((i) => {
+      const index = offset + i;
+      const cue = serverState.hotCues[index] ?? null;
+      return {
+        handlers:
+          serverState.slip && cue
+            ? slipHotCueHandlers(index)
+            : {
+                onClick: () => (cue ? jumpToHotCue(index) : setHotCue(index)),
+                onHold: () => clearHotCue(index),
+                onRelease: NOOP,
+              },
+        padFunction: "hotcue",
+        color: cue ? cue.color ?? DEFAULT_HOT_CUE_COLORS[index]! : EMPTY_CUE_COLOR,
+        label: (cue?.label ?? `CUE ${index + 1}`).toUpperCase().slice(0, 10),
+      };
+    });
+  }
+
+  // Update handler ref with the active bank's handlers (after they're declared)
+  handlersRef.current = pads.map((pad) => pad.handlers);
 
   // Keyboard event handling with hold detection
   // CRITICAL: Only depends on keybinds to avoid effect re-running on every frame
   useEffect(() => {
+    if (disabled) return;
     const HOLD_THRESHOLD_MS = 300;
-    const PAD_NAMES = ["HOT_CUE", "LOOP", "ROLL", "JUMP"];
+    const padName = (keyIndex: number) => `PAD_${keyIndex + 1}`;
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      const keyIndex = keybinds.indexOf(e.key);
+      const code = e.code;
+      const keyIndex = keybinds.indexOf(code);
       // Use ref for repeat guard to avoid effect re-runs
-      if (keyIndex === -1 || keysDownRef.current[e.key]) return;
+      if (keyIndex === -1 || keysDownRef.current[code] || !isShortcutEvent(e)) return;
 
-      const padName = PAD_NAMES[keyIndex];
-      console.log(`[${padName}] Key down: "${e.key}" for Deck ${deckId}`);
+      const name = padName(keyIndex);
+      console.log(`[${name}] Key down: "${code}" for Deck ${deckId}`);
 
       e.preventDefault();
       // Track in ref (for repeat guard)
-      keysDownRef.current[e.key] = true;
+      keysDownRef.current[code] = true;
       // Update state (for visual feedback)
-      setKeyPressed(prev => ({ ...prev, [e.key]: true }));
+      setKeyPressed(prev => ({ ...prev, [code]: true }));
 
       // Clear any existing timer for this key
-      if (keyHoldTimersRef.current[e.key]) {
-        clearTimeout(keyHoldTimersRef.current[e.key]!);
+      if (keyHoldTimersRef.current[code]) {
+        clearTimeout(keyHoldTimersRef.current[code]!);
       }
 
       // Set hold detected flag to false initially
-      keyHoldTriggeredRef.current[e.key] = false;
+      keyHoldTriggeredRef.current[code] = false;
+
+      handlersRef.current[keyIndex]?.onPress?.();
 
-      // Get the hold handler for this pad from the ref (not stale)
-      const holdHandlers = [
-        handlersRef.current.hotCueHold,
-        handlersRef.current.loopHold,
-        handlersRef.current.rollHold,
-        handlersRef.current.jumpHold
-      ];
-      const holdHandler = holdHandlers[keyIndex];
+      // Get the hold handler for this pad from the ref (not stale, follows the active bank)
+      const holdHandler = handlersRef.current[keyIndex]?.onHold;
 
       // Set up hold detection (same as button)
-      console.log(`[${padName}] Starting ${HOLD_THRESHOLD_MS}ms hold timer for Deck ${deckId}`);
-      keyHoldTimersRef.current[e.key] = setTimeout(() => {
-        console.log(`[${padName}] Hold timer FIRED for Deck ${deckId} - calling hold handler`);
-        keyHoldTriggeredRef.current[e.key] = true;
+      console.log(`[${name}] Starting ${HOLD_THRESHOLD_MS}ms hold timer for Deck ${deckId}`);
+      keyHoldTimersRef.current[code] = setTimeout(() => {
+        console.log(`[${name}] Hold timer FIRED for Deck ${deckId} - calling hold handler`);
+        keyHoldTriggeredRef.current[code] = true;
         if (holdHandler) {
           holdHandler();
         }
@@ -356,51 +585,41 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      const keyIndex = keybinds.indexOf(e.key);
-      if (keyIndex === -1) return;
+      const code = e.code;
+      const keyIndex = keybinds.indexOf(code);
+      // Ignore releases of keys that never started a press (e.g. typed into a field)
+      if (keyIndex === -1 || !keysDownRef.current[code]) return;
 
-      const padName = PAD_NAMES[keyIndex];
-      console.log(`[${padName}] Key up: "${e.key}" for Deck ${deckId}`);
+      const name = padName(keyIndex);
+      console.log(`[${name}] Key up: "${code}" for Deck ${deckId}`);
 
       e.preventDefault();
       // Clear ref (for repeat guard)
-      keysDownRef.current[e.key] = false;
+      keysDownRef.current[code] = false;
       // Update state (for visual feedback)
-      setKeyPressed(prev => ({ ...prev, [e.key]: false }));
+      setKeyPressed(prev => ({ ...prev, [code]: false }));
 
       // If hold timer is still running, this was a quick tap
-      const wasQuickTap = keyHoldTimersRef.current[e.key] !== null && !keyHoldTriggeredRef.current[e.key];
+      const wasQuickTap = keyHoldTimersRef.current[code] !== null && !keyHoldTriggeredRef.current[code];
 
       // Clear hold timer
-      if (keyHoldTimersRef.current[e.key]) {
-        clearTimeout(keyHoldTimersRef.current[e.key]!);
-        keyHoldTimersRef.current[e.key] = null;
+      if (keyHoldTimersRef.current[code]) {
+        clearTimeout(keyHoldTimersRef.current[code]!);
+        keyHoldTimersRef.current[code] = null;
       }
 
-      // Get handlers for this pad from the ref (not stale)
-      const clickHandlers = [
-        handlersRef.current.hotCueClick,
-        handlersRef.current.loopClick,
-        handlersRef.current.rollClick,
-        handlersRef.current.jumpClick
-      ];
-      const releaseHandlers = [
-        handlersRef.current.hotCueRelease,
-        handlersRef.current.loopRelease,
-        handlersRef.current.rollRelease,
-        handlersRef.current.jumpRelease
-      ];
-      const clickHandler = clickHandlers[keyIndex];
-      const releaseHandler = releaseHandlers[keyIndex];
+      // Get handlers for this pad from the ref (not stale, follows the active bank)
+      const clickHandler = handlersRef.current[keyIndex]?.onClick;
+      const releaseHandler = handlersRef.current[keyIndex]?.onRelease;
 
       // Fire onClick only if it was a quick tap (hold didn't trigger)
       if (wasQuickTap) {
-        console.log(`[${padName}] Quick tap detected for Deck ${deckId} - calling click handler`);
+        console.log(`[${name}] Quick tap detected for Deck ${deckId} - calling click handler`);
         if (clickHandler) {
           clickHandler();
         }
       } else {
-        console.log(`[${padName}] Hold was triggered for Deck ${deckId} - skipping click handler`);
+        console.log(`[${name}] Hold was triggered for Deck ${deckId} - skipping click handler`);
       }
 
       // Always call release handler
@@ -418,132 +637,146 @@ const PerformancePadPanel = memo(function PerformancePadPanel({
       // DO NOT clear timers here - that was causing the bug!
       // Timers will complete naturally or be cleared by handleKeyUp
     };
-  }, [keybinds, deckId]); // Only keybinds and deckId, NOT the handler functions!
-
-  // Handlers array for rendering
-  const handlers = [
-    { onClick: handleHotCueClick, onHold: handleHotCueHold, onRelease: handleHotCueRelease },
-    { onClick: handleLoopClick, onHold: handleLoopHold, onRelease: handleLoopRelease },
-    { onClick: handleRollClick, onHold: handleRollHold, onRelease: handleRollRelease },
-    { onClick: handleJumpClick, onHold: handleJumpHold, onRelease: handleJumpRelease },
-  ];
-
-  // Function labels in display format
-  const FUNCTION_LABELS = ["HOT CUE", "LOOP", "ROLL", "JUMP"];
+  }, [keybinds, deckId, disabled]); // NOT the handler functions!
 
   return (
-    <div
-      style={{
-        display: "grid",
-        gridTemplateColumns: "repeat(2, 1fr)",
-        gridTemplateRows: "repeat(2, 1fr)",
-        gap: 0,
-        width: "fit-content",
-      }}
-    >
-      {keybinds.map((keybind, index) => {
-        const handler = handlers[index];
-        const padFunction = PAD_FUNCTIONS[index];
-        const color = PAD_COLORS[index];
-        const label = FUNCTION_LABELS[index];
-
-        if (!handler || !padFunction || !color) {
-          console.error(`Missing handler/function/color for pad ${index}`);
-          return null;
-        }
-
-        // Determine label position based on grid position
-        // Left column (index 0,2): labels go to left of button
-        // Right column (index 1,3): labels go to right of button
-        const isLeftColumn = index % 2 === 0;
-
-        return (
-          <div key={index} style={{ position: "relative" }}>
-            <PerformancePadButton
-              keybind={keybind}
-              padFunction={padFunction}
-              color={color}
-              onClick={handler.onClick}
-              onHold={handler.onHold}
-              onRelease={handler.onRelease}
-              size={46}
-              externalPressed={keyPressed[keybind]}
-            />
-            {/* Etched function label (3-layer SVG effect matching board aesthetic) */}
-            <svg
-              viewBox="0 0 60 12"
-              width="60"
-              height="12"
-              style={{
-                position: "absolute",
-                top: "50%",
-                transform: "translateY(-50%)",
-                left: isLeftColumn ? -62 : undefined,
-                right: isLeftColumn ? undefined : -62,
-                pointerEvents: "none",
-                userSelect: "none",
-              }}
-              aria-hidden="true"
-            >
-              {/* Highlight layer */}
-              <text
-                x={isLeftColumn ? "58" : "2"}
-                y="6"
-                textAnchor={isLeftColumn ? "end" : "start"}
-                dominantBaseline="central"
-                fill="#ffffff"
-                opacity="0.06"
-                dx="-0.4"
-                dy="-0.4"
-                style={{
-                  fontFamily: "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
-                  fontWeight: 700,
-                  fontSize: "7px",
-                  letterSpacing: "0.10em",
-                }}
-              >
-                {label}
-              </text>
-              {/* Shadow layer */}
-              <text
-                x={isLeftColumn ? "58" : "2"}
-                y="6"
-                textAnchor={isLeftColumn ? "end" : "start"}
-                dominantBaseline="central"
-                fill="#000000"
-                opacity="0.50"
-                dx="0.5"
-                dy="0.5"
-                style={{
-                  fontFamily: "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
-                  fontWeight: 700,
-                  fontSize: "7px",
-                  letterSpacing: "0.10em",
-                }}
-              >
-                {label}
-              </text>
-              {/* Face layer */}
-              <text
-                x={isLeftColumn ? "58" : "2"}
-                y="6"
-                textAnchor={isLeftColumn ? "end" : "start"}
-                dominantBaseline="central"
-                fill="#f0f0f0"
-                opacity="0.30"
+    <div style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: "4px" }}>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(2, 1fr)",
+          gridTemplateRows: "repeat(2, 1fr)",
+          gap: 0,
+          width: "fit-content",
+        }}
+      >
+        {keybinds.map((keybind, index) => {
+          const pad = pads[index];
+
+          if (!pad) {
+            console.error(`Missing pad ${index}`);
+            return null;
+          }
+          const { handlers: handler, padFunction, color, label } = pad;
+
+          // Determine label position based on grid position
+          // Left column (index 0,2): labels go to left of button
+          // Right column (index 1,3): labels go to right of button
+          const isLeftColumn = index % 2 === 0;
+
+          return (
+            <div key={index} style={{ position: "relative" }}>
+              <PerformancePadButton
+                keybind={getKeyLabel(keybind, layout)}
+                padFunction={padFunction}
+                color={color}
+                onClick={handler.onClick}
+                onHold={handler.onHold}
+                onRelease={handler.onRelease}
+                onPress={handler.onPress}
+                size={46}
+                externalPressed={keybind ? keyPressed[keybind] : false}
+              />
+              {/* Etched function label (3-layer SVG effect matching board aesthetic) */}
+              <svg
+                viewBox="0 0 60 12"
+                width="60"
+                height="12"
                 style={{
-                  fontFamily: "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
-                  fontWeight: 700,
-                  fontSize: "7px",
-                  letterSpacing: "0.10em",
+                  position: "absolute",
+                  top: "50%",
+                  transform: "translateY(-50%)",
+                  left: isLeftColumn ? -62 : undefined,
+                  right: isLeftColumn ? undefined : -62,
+                  pointerEvents: "none",
+                  userSelect: "none",
                 }}
+                aria-hidden="true"
               >
-                {label}
-              </text>
-            </svg>
-          </div>
-        );
-      })}
+                {/* Highlight layer */}
+                <text
+                  x={isLeftColumn ? "58" : "2"}
+                  y="6"
+                  textAnchor={isLeftColumn ? "end" : "start"}
+                  dominantBaseline="central"
+                  fill="#ffffff"
+                  opacity="0.06"
+                  dx="-0.4"
+                  dy="-0.4"
+                  style={{
+                    fontFamily: "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
+                    fontWeight: 700,
+                    fontSize: "7px",
+                    letterSpacing: "0.10em",
+                  }}
+                >
+                  {label}
+                </text>
+                {/* Shadow layer */}
+                <text
+                  x={isLeftColumn ? "58" : "2"}
+                  y="6"
+                  textAnchor={isLeftColumn ? "end" : "start"}
+                  dominantBaseline="central"
+                  fill="#000000"
+                  opacity="0.50"
+                  dx="0.5"
+                  dy="0.5"
+                  style={{
+                    fontFamily: "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
+                    fontWeight: 700,
+                    fontSize: "7px",
+                    letterSpacing: "0.10em",
+                  }}
+                >
+                  {label}
+                </text>
+                {/* Face layer */}
+                <text
+                  x={isLeftColumn ? "58" : "2"}
+                  y="6"
+                  textAnchor={isLeftColumn ? "end" : "start"}
+                  dominantBaseline="central"
+                  fill="#f0f0f0"
+                  opacity="0.30"
+                  style={{
+                    fontFamily: "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
+                    fontWeight: 700,
+                    fontSize: "7px",
+                    letterSpacing: "0.10em",
+                  }}
+                >
+                  {label}
+                </text>
+              </svg>
+            </div>
+          );
+        })}
+      </div>
+      {/* Bank selector */}
+      <div style={{ display: "flex", gap: "3px" }}>
+        {PAD_BANKS.map(({ bank: b, label }) => (
+          <button
+            key={b}
+            type="button"
+            title={BANK_TITLES[b]}
+            onClick={() => setBank(b)}
+            style={{
+              padding: "0 4px",
+              background: "transparent",
+              border: `1px solid ${bank === b ? "#FF3B3B" : "#2a2a2a"}`,
+              borderRadius: "2px",
+              color: bank === b ? "#FF3B3B" : "#9ca3af",
+              fontSize: "8px",
+              fontFamily: "monospace",
+              lineHeight: "11px",
+              cursor: "pointer",
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
     </div>
   );
 });
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { MonitorSettings } from "@puid-board/shared";
+import { getMonitorGains } from "@/audio/mixerGraph";
+import {
+  getPreviewPosition,
+  pausePreview,
+  resumePreview,
+  seekPreview,
+  stopPreview,
+} from "@/audio/preview";
+import { usePreview } from "@/audio/usePreview";
+import { rafManager } from "@/audio/controlOptimizer";
+
+export type PreviewPlayerProps = {
+  /** This member's headphone settings, to warn when the cue bus is muted */
+  monitor?: MonitorSettings;
+};
+
+/** Scrubber height in pixels */
+const SCRUBBER_HEIGHT = 28;
+
+/** Minimum interval between seeks while dragging (ms) */
+const SEEK_THROTTLE_MS = 50;
+
+/** Played part of the waveform */
+const PLAYED_COLOR = "#f59e0b";
+/** Unplayed part of the waveform */
+const UNPLAYED_COLOR = "#525252";
+
+/** Format seconds as M:SS */
+function formatTime(sec: number): string {
+  const mins = Math.floor(sec / 60);
+  const secs = Math.floor(sec % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Queue prelisten strip: the track being auditioned in this member's
+ * headphones, with a mini waveform to click or drag through it.
+ * Entirely local - nothing here is sent to the room.
+ */
+export default function PreviewPlayer({ monitor }: PreviewPlayerProps) {
+  const preview = usePreview();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timeRef = useRef<HTMLSpanElement>(null);
+  const scrubbingRef = useRef(false);
+  const lastSeekRef = useRef(0);
+
+  const { waveform, durationSec } = preview;
+
+  // Redraw the waveform and playhead every frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    return rafManager.subscribe(() => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      const position = getPreviewPosition();
+      if (timeRef.current) {
+        timeRef.current.textContent = `${formatTime(position)} / ${formatTime(durationSec)}`;
+      }
+      if (!waveform || durationSec <= 0 || width === 0) return;
+
+      const playheadX = (position / durationSec) * width;
+      const barWidth = width / waveform.length;
+      const centerY = height / 2;
+      for (let i = 0; i < waveform.length; i++) {
+        const x = i * barWidth;
+        const half = Math.max(0.5, (waveform[i] ?? 0) * centerY);
+        ctx.fillStyle = x < playheadX ? PLAYED_COLOR : UNPLAYED_COLOR;
+        ctx.fillRect(x, centerY - half, Math.max(1, barWidth - 0.5), half * 2);
+      }
+
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(Math.round(playheadX) - 1, 0, 2, height);
+    });
+  }, [preview.status, waveform, durationSec]);
+
+  if (preview.status === "idle") {
+    return null;
+  }
+
+  const seekTo = (e: React.PointerEvent<HTMLCanvasElement>, force: boolean) => {
+    const now = performance.now();
+    if (!force && now - lastSeekRef.current < SEEK_THROTTLE_MS) return;
+    lastSeekRef.current = now;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0) return;
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    seekPreview(fraction * durationSec);
+  };
+
+  const gains = monitor ? getMonitorGains(monitor) : null;
+  const cueMuted = gains !== null && gains.cueMix === 0 && gains.splitCue === 0;
+
+  return (
+    <div
+      style={{
+        margin: "0.75rem",
+        padding: "0.5rem 0.625rem",
+        background: "#141414",
+        borderRadius: 8,
+        boxShadow: "inset 0 0 0 1px rgba(245, 158, 11, 0.25)",
+      }}
+    >
+      {/* Title row */}
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "0.375rem" }}>
+        <span
+          style={{
+            fontSize: "0.5625rem",
+            fontWeight: 700,
+            color: "#f59e0b",
+            background: "rgba(245, 158, 11, 0.1)",
+            padding: "1px 4px",
+            borderRadius: "2px",
+            letterSpacing: "0.05em",
+          }}
+        >
+          PRELISTEN
+        </span>
+        <span
+          style={{
+            flex: 1,
+            minWidth: 0,
+            fontSize: "0.75rem",
+            fontWeight: 500,
+            color: "#a3a3a3",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {preview.title}
+        </span>
+        <span
+          ref={timeRef}
+          style={{ fontSize: "0.625rem", color: "#525252", fontFamily: "monospace" }}
+        />
+        <button
+          type="button"
+          onClick={() => (preview.playing ? pausePreview() : resumePreview())}
+          disabled={preview.status !== "ready"}
+          title={preview.playing ? "Pause prelisten" : "Play prelisten"}
+          style={{
+            padding: "0.25rem 0.5rem",
+            fontSize: "0.625rem",
+            fontWeight: 600,
+            background: "rgba(245, 158, 11, 0.15)",
+            color: preview.status === "ready" ? "#f59e0b" : "#525252",
+            border: "none",
+            borderRadius: 4,
+            cursor: preview.status === "ready" ? "pointer" : "not-allowed",
+          }}
+        >
+          {preview.playing ? "PAUSE" : "PLAY"}
+        </button>
+        <button
+          type="button"
+          onClick={stopPreview}
+          title="Stop prelisten"
+          style={{
+            padding: "0.25rem 0.375rem",
+            fontSize: "0.6875rem",
+            background: "transparent",
+            color: "#525252",
+            border: "none",
+            borderRadius: 4,
+            cursor: "pointer",
+            lineHeight: 1,
+          }}
+        >
+          x
+        </button>
+      </div>
+
+      {/* Waveform scrubber */}
+      {preview.status === "error" ? (
+        <div
+          style={{
+            fontSize: "0.625rem",
+            color: "#ef4444",
+            background: "rgba(239, 68, 68, 0.1)",
+            padding: "0.25rem 0.5rem",
+            borderRadius: "4px",
+          }}
+        >
+          {preview.error || "Failed to load preview"}
+        </div>
+      ) : (
+        <canvas
+          ref={canvasRef}
+          onPointerDown={(e) => {
+            if (preview.status !== "ready") return;
+            scrubbingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekTo(e, true);
+          }}
+          onPointerMove={(e) => {
+            if (scrubbingRef.current) seekTo(e, false);
+          }}
+          onPointerUp={(e) => {
+            if (!scrubbingRef.current) return;
+            scrubbingRef.current = false;
+            seekTo(e, true);
+          }}
+          style={{
+            display: "block",
+            width: "100%",
+            height: SCRUBBER_HEIGHT,
+            background: "#0a0a0a",
+            borderRadius: 4,
+            cursor: preview.status === "ready" ? "pointer" : "progress",
+          }}
+        />
+      )}
+
+      {cueMuted && (
+        <div style={{ marginTop: "0.375rem", fontSize: "0.625rem", color: "#737373" }}>
+          Headphone mix is on main - turn it toward cue to hear the preview
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import type { QueueItem, QueueItemStatus, Member } from "@puid-board/shared";
+import type { QueueItem, QueueItemStatus, Member, DeckId, CamelotKey } from "@puid-board/shared";
+import { isHarmonicMatch } from "@puid-board/shared";
 import { LoadingBar } from "./displays";
 
 /** Status badge colors - dark theme optimized */
@@ -8,8 +9,12 @@ const STATUS_COLORS: Record<QueueItemStatus, { bg: string; text: string; glow?:
   queued: { bg: "#262626", text: "#737373" },
   loaded_A: { bg: "rgba(59, 130, 246, 0.15)", text: "#60a5fa", glow: "0 0 8px rgba(59, 130, 246, 0.3)" },
   loaded_B: { bg: "rgba(139, 92, 246, 0.15)", text: "#a78bfa", glow: "0 0 8px rgba(139, 92, 246, 0.3)" },
+  loaded_C: { bg: "rgba(20, 184, 166, 0.15)", text: "#2dd4bf", glow: "0 0 8px rgba(20, 184, 166, 0.3)" },
+  loaded_D: { bg: "rgba(236, 72, 153, 0.15)", text: "#f472b6", glow: "0 0 8px rgba(236, 72, 153, 0.3)" },
   playing_A: { bg: "rgba(34, 197, 94, 0.2)", text: "#4ade80", glow: "0 0 10px rgba(34, 197, 94, 0.4)" },
   playing_B: { bg: "rgba(34, 197, 94, 0.2)", text: "#4ade80", glow: "0 0 10px rgba(34, 197, 94, 0.4)" },
+  playing_C: { bg: "rgba(34, 197, 94, 0.2)", text: "#4ade80", glow: "0 0 10px rgba(34, 197, 94, 0.4)" },
+  playing_D: { bg: "rgba(34, 197, 94, 0.2)", text: "#4ade80", glow: "0 0 10px rgba(34, 197, 94, 0.4)" },
   played: { bg: "#1a1a1a", text: "#525252" },
 };
 
@@ -18,8 +23,12 @@ const STATUS_TEXT: Record<QueueItemStatus, string> = {
   queued: "QUEUED",
   loaded_A: "DECK A",
   loaded_B: "DECK B",
+  loaded_C: "DECK C",
+  loaded_D: "DECK D",
   playing_A: "PLAYING",
   playing_B: "PLAYING",
+  playing_C: "PLAYING",
+  playing_D: "PLAYING",
   played: "PLAYED",
 };
 
@@ -29,7 +38,15 @@ export type QueueItemRowProps = {
   members: Member[];
   isOwnItem: boolean;
   onRemove?: (queueItemId: string) => void;
-  onLoadToDeck?: (queueItemId: string, deckId: "A" | "B") => void;
+  onLoadToDeck?: (queueItemId: string, deckId: DeckId) => void;
+  /** Prelisten the track in this member's headphones (local only) */
+  onPreview?: (queueItemId: string) => void;
+  /** Whether this row is the one playing in prelisten */
+  isPreviewing?: boolean;
+  /** Decks offered as load targets (C and D only exist in four-deck rooms) */
+  deckIds?: DeckId[];
+  /** Key of the deck being mixed against; compatible keys are highlighted */
+  referenceKey?: CamelotKey | null;
   /** Drag handlers for reordering */
   onDragStart?: (e: React.DragEvent, index: number) => void;
   onDragOver?: (e: React.DragEvent, index: number) => void;
@@ -37,6 +54,14 @@ export type QueueItemRowProps = {
   isDragOver?: boolean;
 };
 
+/** Load button colors per deck: [rgb for background tint, text color] */
+const LOAD_BUTTON_COLORS: Record<DeckId, [string, string]> = {
+  A: ["59, 130, 246", "#60a5fa"],
+  B: ["139, 92, 246", "#a78bfa"],
+  C: ["20, 184, 166", "#2dd4bf"],
+  D: ["236, 72, 153", "#f472b6"],
+};
+
 /** Format duration as M:SS */
 function formatDuration(sec: number): string {
   const mins = Math.floor(sec / 60);
@@ -57,6 +82,10 @@ export default function QueueItemRow({
   isOwnItem: _isOwnItem,
   onRemove,
   onLoadToDeck,
+  onPreview,
+  isPreviewing = false,
+  deckIds = ["A", "B"],
+  referenceKey = null,
   onDragStart,
   onDragOver,
   onDrop,
@@ -72,8 +101,11 @@ export default function QueueItemRow({
 
   // Can only load to deck if: (1) status allows it, (2) not currently loading, (3) no error
   const canLoad = (item.status === "queued" || item.status === "played") && !isYouTubeLoading && !hasLoadingError;
-  const isPlaying = item.status === "playing_A" || item.status === "playing_B";
-  const isLoaded = item.status === "loaded_A" || item.status === "loaded_B";
+  // Prelisten streams the same audio, so wait for a YouTube pre-load to finish
+  const canPreview = !isYouTubeLoading && !hasLoadingError;
+  const isPlaying = item.status.startsWith("playing_");
+  const isLoaded = item.status.startsWith("loaded_");
+  const isKeyMatch = isHarmonicMatch(item.key, referenceKey);
 
   return (
     <li
@@ -220,12 +252,59 @@ export default function QueueItemRow({
             }}
           >
             {formatDuration(item.durationSec)}
+            {item.key && (
+              <>
+                <span style={{ margin: "0 0.375rem", opacity: 0.5 }}>|</span>
+                <span
+                  title={isKeyMatch ? `Mixes with ${referenceKey}` : undefined}
+                  style={{
+                    fontWeight: 600,
+                    color: isKeyMatch ? "#4ade80" : "#737373",
+                  }}
+                >
+                  {item.key}
+                </span>
+              </>
+            )}
             <span style={{ margin: "0 0.375rem", opacity: 0.5 }}>|</span>
             {addedByName}
           </div>
         )}
       </div>
 
+      {/* Prelisten button - headphones only, never loads a deck */}
+      {onPreview && (
+        <button
+          type="button"
+          onClick={() => canPreview && onPreview(item.id)}
+          title={
+            canPreview
+              ? isPreviewing
+                ? "Pause prelisten"
+                : "Prelisten in headphones"
+              : isYouTubeLoading
+              ? "Loading..."
+              : "Error loading track"
+          }
+          disabled={!canPreview}
+          style={{
+            padding: "0.25rem 0.375rem",
+            fontSize: "0.625rem",
+            fontWeight: 600,
+            background: isPreviewing ? "rgba(245, 158, 11, 0.25)" : "rgba(245, 158, 11, 0.1)",
+            color: canPreview ? "#f59e0b" : "#525252",
+            border: "none",
+            borderRadius: 4,
+            cursor: canPreview ? "pointer" : "not-allowed",
+            transition: "all 0.15s ease",
+            opacity: canPreview ? 1 : 0.5,
+            lineHeight: 1,
+          }}
+        >
+          {isPreviewing ? "||" : "PFL"}
+        </button>
+      )}
+
       {/* Status badge */}
       <span
         style={{
@@ -245,66 +324,42 @@ export default function QueueItemRow({
       {/* Load to deck buttons - show if queued/played, but disable if loading */}
       {(item.status === "queued" || item.status === "played") && onLoadToDeck && (
         <div style={{ display: "flex", gap: "0.25rem" }}>
-          <button
-            type="button"
-            onClick={() => canLoad && onLoadToDeck(item.id, "A")}
-            title={canLoad ? "Load to Deck A" : isYouTubeLoading ? "Loading..." : "Error loading track"}
-            disabled={!canLoad}
-            style={{
-              padding: "0.25rem 0.5rem",
-              fontSize: "0.625rem",
-              fontWeight: 600,
-              background: canLoad ? "rgba(59, 130, 246, 0.15)" : "rgba(64, 64, 64, 0.15)",
-              color: canLoad ? "#60a5fa" : "#525252",
-              border: "none",
-              borderRadius: 4,
-              cursor: canLoad ? "pointer" : "not-allowed",
-              transition: "all 0.15s ease",
-              opacity: canLoad ? 1 : 0.5,
-            }}
-            onMouseEnter={(e) => {
-              if (canLoad) {
-                e.currentTarget.style.background = "rgba(59, 130, 246, 0.25)";
-              }
-            }}
-            onMouseLeave={(e) => {
-              if (canLoad) {
-                e.currentTarget.style.background = "rgba(59, 130, 246, 0.15)";
-              }
-            }}
-          >
-            A
-          </button>
-          <button
-            type="button"
-            onClick={() => canLoad && onLoadToDeck(item.id, "B")}
-            title={canLoad ? "Load to Deck B" : isYouTubeLoading ? "Loading..." : "Error loading track"}
-            disabled={!canLoad}
-            style={{
-              padding: "0.25rem 0.5rem",
-              fontSize: "0.625rem",
-              fontWeight: 600,
-              background: canLoad ? "rgba(139, 92, 246, 0.15)" : "rgba(64, 64, 64, 0.15)",
-              color: canLoad ? "#a78bfa" : "#525252",
-              border: "none",
-              borderRadius: 4,
-              cursor: canLoad ? "pointer" : "not-allowed",
-              transition: "all 0.15s ease",
-              opacity: canLoad ? 1 : 0.5,
-            }}
-            onMouseEnter={(e) => {
-              if (canLoad) {
-                e.currentTarget.style.background = "rgba(139, 92, 246, 0.25)";
-              }
-            }}
-            onMouseLeave={(e) => {
-              if (canLoad) {
-                e.currentTarget.style.background = "rgba(139, 92, 246, 0.15)";
-              }
-            }}
-          >
-            B
-          </button>
+          {deckIds.map((deckId) => {
+            const [rgb, text] = LOAD_BUTTON_COLORS[deckId];
+            return (
+              <button
+                key={deckId}
+                type="button"
+                onClick={() => canLoad && onLoadToDeck(item.id, deckId)}
+                title={canLoad ? `Load to Deck ${deckId}` : isYouTubeLoading ? "Loading..." : "Error loading track"}
+                disabled={!canLoad}
+                style={{
+                  padding: "0.25rem 0.5rem",
+                  fontSize: "0.625rem",
+                  fontWeight: 600,
+                  background: canLoad ? `rgba(${rgb}, 0.15)` : "rgba(64, 64, 64, 0.15)",
+                  color: canLoad ? text : "#525252",
+                  border: "none",
+                  borderRadius: 4,
+                  cursor: canLoad ? "pointer" : "not-allowed",
+                  transition: "all 0.15s ease",
+                  opacity: canLoad ? 1 : 0.5,
+                }}
+                onMouseEnter={(e) => {
+                  if (canLoad) {
+                    e.currentTarget.style.background = `rgba(${rgb}, 0.25)`;
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (canLoad) {
+                    e.currentTarget.style.background = `rgba(${rgb}, 0.15)`;
+                  }
+                }}
+              >
+                {deckId}
+              </button>
+            );
+          })}
         </div>
       )}
 
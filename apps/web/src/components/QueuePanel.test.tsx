@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import type { QueueItem, Member } from "@puid-board/shared";
+import { createDefaultMonitor } from "@puid-board/shared";
 
 describe("QueuePanel", () => {
   const mockMembers: Member[] = [
@@ -9,8 +10,10 @@ describe("QueuePanel", () => {
       color: "#FF6B6B",
       joinedAt: Date.now(),
       isHost: true,
+      role: "host",
       cursor: null,
       latencyMs: 0,
+      monitor: createDefaultMonitor(),
     },
     {
       clientId: "client-2",
@@ -18,8 +21,10 @@ describe("QueuePanel", () => {
       color: "#4ECDC4",
       joinedAt: Date.now(),
       isHost: false,
+      role: "dj",
       cursor: null,
       latencyMs: 0,
+      monitor: createDefaultMonitor(),
     },
   ];
 
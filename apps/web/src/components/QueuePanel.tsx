@@ -1,10 +1,23 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import type { QueueItem, Member, ClientMutationEvent } from "@puid-board/shared";
+import type {
+  QueueItem,
+  Member,
+  ClientMutationEvent,
+  DeckId,
+  CamelotKey,
+  AutoDjState,
+  AutoDjMixBars,
+  MonitorSettings,
+} from "@puid-board/shared";
+import { togglePreview } from "@/audio/preview";
+import { usePreview } from "@/audio/usePreview";
 import QueueItemRow from "./QueueItemRow";
 import TrackUploader, { UploadResult } from "./TrackUploader";
 import YouTubeSearch, { YouTubeTrackData } from "./YouTubeSearch";
+import SetHistory from "./SetHistory";
+import PreviewPlayer from "./PreviewPlayer";
 
 export type QueuePanelProps = {
   queue: QueueItem[];
@@ -13,8 +26,19 @@ export type QueuePanelProps = {
   clientId: string;
   sendEvent: (e: ClientMutationEvent) => void;
   nextSeq: () => number;
+  /** Decks tracks can be loaded to (defaults to A and B) */
+  deckIds?: DeckId[];
+  /** Key of the deck being mixed against, for harmonic hints on rows */
+  referenceKey?: CamelotKey | null;
+  /** Room Auto-DJ setting (toggle is hidden when absent) */
+  autoDj?: AutoDjState;
+  /** This member's headphone settings (for the prelisten cue hint) */
+  monitor?: MonitorSettings;
 };
 
+/** Mix lengths the Auto-DJ bars button cycles through */
+const AUTO_DJ_MIX_BARS: AutoDjMixBars[] = [4, 8, 16, 32];
+
 export default function QueuePanel({
   queue,
   members,
@@ -22,10 +46,19 @@ export default function QueuePanel({
   clientId,
   sendEvent,
   nextSeq,
+  deckIds,
+  referenceKey,
+  autoDj,
+  monitor,
 }: QueuePanelProps) {
   const [dragIndex, setDragIndex] = useState<number | null>(null);
   const [dropIndex, setDropIndex] = useState<number | null>(null);
-  const [activeTab, setActiveTab] = useState<"upload" | "youtube">("upload");
+  const [activeTab, setActiveTab] = useState<"upload" | "youtube" | "history">("upload");
+  const preview = usePreview();
+
+  /** Source being previewed (loading counts, so its button lights up straight away) */
+  const activePreviewKey =
+    preview.playing || preview.status === "loading" ? preview.key : null;
 
   /** Add a track to the queue after upload completes */
   const handleUploadComplete = useCallback(
@@ -93,7 +126,7 @@ export default function QueuePanel({
 
   /** Load a track to a deck */
   const handleLoadToDeck = useCallback(
-    (queueItemId: string, deckId: "A" | "B") => {
+    (queueItemId: string, deckId: DeckId) => {
       console.log(`[QueuePanel] ╔════════════════════════════════════════════════════════════╗`);
       console.log(`[QueuePanel] ║  LOAD TO DECK CALLED                                      ║`);
       console.log(`[QueuePanel] ╚════════════════════════════════════════════════════════════╝`);
@@ -128,6 +161,44 @@ export default function QueuePanel({
     [sendEvent, roomId, clientId, nextSeq, queue]
   );
 
+  /** Prelisten a queue item in headphones (local only, no room events) */
+  const handlePreview = useCallback(
+    (queueItemId: string) => {
+      const item = queue.find((q) => q.id === queueItemId);
+      if (!item) return;
+      togglePreview({
+        key: item.id,
+        title: item.title,
+        url: item.url,
+        buffer: item.audioBuffer,
+      });
+    },
+    [queue]
+  );
+
+  /** Prelisten a YouTube search result before adding it */
+  const handleYouTubePreview = useCallback((track: YouTubeTrackData) => {
+    togglePreview({
+      key: `youtube:${track.videoId}`,
+      title: track.title,
+      url: track.url,
+    });
+  }, []);
+
+  /** Turn Auto-DJ on/off and/or change its mix length */
+  const handleAutoDjSet = useCallback(
+    (enabled: boolean, mixBars?: AutoDjMixBars) => {
+      sendEvent({
+        type: "AUTO_DJ_SET",
+        roomId,
+        clientId,
+        clientSeq: nextSeq(),
+        payload: { enabled, mixBars },
+      });
+    },
+    [sendEvent, roomId, clientId, nextSeq]
+  );
+
   /** Drag start handler */
   const handleDragStart = useCallback(
     (e: React.DragEvent, index: number) => {
@@ -243,6 +314,52 @@ export default function QueuePanel({
           >
             {queue.length}
           </span>
+
+          {/* Auto-DJ toggle + mix length */}
+          {autoDj && (
+            <div style={{ marginLeft: "auto", display: "flex", gap: "0.25rem" }}>
+              <button
+                onClick={() => handleAutoDjSet(!autoDj.enabled)}
+                title="Auto-DJ mixes through the queue until someone takes a control"
+                style={{
+                  padding: "0.25rem 0.5rem",
+                  background: autoDj.enabled ? "#14532d" : "transparent",
+                  border: "1px solid",
+                  borderColor: autoDj.enabled ? "#22c55e" : "#333",
+                  borderRadius: "4px",
+                  color: autoDj.enabled ? "#4ade80" : "#888",
+                  fontSize: "0.625rem",
+                  fontWeight: 600,
+                  letterSpacing: "0.05em",
+                  cursor: "pointer",
+                  transition: "all 0.15s",
+                }}
+              >
+                AUTO-DJ
+              </button>
+              <button
+                onClick={() => {
+                  const index = AUTO_DJ_MIX_BARS.indexOf(autoDj.mixBars);
+                  const next = AUTO_DJ_MIX_BARS[(index + 1) % AUTO_DJ_MIX_BARS.length]!;
+                  handleAutoDjSet(autoDj.enabled, next);
+                }}
+                title="Bars Auto-DJ mixes over"
+                style={{
+                  padding: "0.25rem 0.5rem",
+                  background: "transparent",
+                  border: "1px solid #333",
+                  borderRadius: "4px",
+                  color: "#888",
+                  fontSize: "0.625rem",
+                  fontWeight: 600,
+                  fontFamily: "monospace",
+                  cursor: "pointer",
+                }}
+              >
+                {autoDj.mixBars} BARS
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Tabs */}
@@ -289,85 +406,124 @@ export default function QueuePanel({
           >
             YouTube
           </button>
+          <button
+            onClick={() => setActiveTab("history")}
+            style={{
+              flex: 1,
+              padding: "0.5rem 0.75rem",
+              background: activeTab === "history" ? "#333" : "transparent",
+              border: "1px solid",
+              borderColor: activeTab === "history" ? "#444" : "#333",
+              borderRadius: "4px",
+              color: activeTab === "history" ? "#fff" : "#888",
+              fontSize: "0.75rem",
+              fontWeight: 500,
+              cursor: "pointer",
+              transition: "all 0.15s",
+            }}
+          >
+            History
+          </button>
         </div>
 
         {/* Tab Content */}
-        {activeTab === "upload" ? (
-          <TrackUploader onUploadComplete={handleUploadComplete} />
-        ) : (
-          <YouTubeSearch onAddTrack={handleYouTubeAdd} />
+        {activeTab === "upload" && <TrackUploader onUploadComplete={handleUploadComplete} />}
+        {activeTab === "youtube" && (
+          <YouTubeSearch
+            onAddTrack={handleYouTubeAdd}
+            onPreview={handleYouTubePreview}
+            previewVideoId={
+              activePreviewKey?.startsWith("youtube:") ? activePreviewKey.slice("youtube:".length) : null
+            }
+          />
         )}
       </div>
 
-      {/* Queue list */}
-      <ul
-        style={{
-          flex: 1,
-          overflow: "auto",
-          margin: 0,
-          padding: "0 0.75rem 0.75rem",
-          listStyle: "none",
-        }}
-        onDragEnd={handleDragEnd}
-      >
-        {queue.length === 0 ? (
-          <li
+      {/* Prelisten player (hidden until something is previewed) */}
+      <PreviewPlayer monitor={monitor} />
+
+      {/* Set history (replaces the queue list) */}
+      {activeTab === "history" ? (
+        <div style={{ flex: 1, overflow: "auto", padding: "0.75rem" }}>
+          <SetHistory roomId={roomId} />
+        </div>
+      ) : (
+        <>
+          {/* Queue list */}
+          <ul
             style={{
-              padding: "3rem 1rem",
-              textAlign: "center",
+              flex: 1,
+              overflow: "auto",
+              margin: 0,
+              padding: "0 0.75rem 0.75rem",
+              listStyle: "none",
             }}
+            onDragEnd={handleDragEnd}
           >
+            {queue.length === 0 ? (
+              <li
+                style={{
+                  padding: "3rem 1rem",
+                  textAlign: "center",
+                }}
+              >
+                <div
+                  style={{
+                    color: "#404040",
+                    fontSize: "0.8125rem",
+                    fontWeight: 500,
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  No tracks in queue
+                </div>
+                <div
+                  style={{
+                    color: "#333333",
+                    fontSize: "0.6875rem",
+                  }}
+                >
+                  Add tracks to get started
+                </div>
+              </li>
+            ) : (
+              queue.map((item, index) => (
+                <QueueItemRow
+                  key={item.id}
+                  item={item}
+                  index={index}
+                  members={members}
+                  isOwnItem={item.addedBy === clientId}
+                  onRemove={handleRemove}
+                  onLoadToDeck={handleLoadToDeck}
+                  onPreview={handlePreview}
+                  isPreviewing={activePreviewKey === item.id}
+                  deckIds={deckIds}
+                  referenceKey={referenceKey}
+                  onDragStart={handleDragStart}
+                  onDragOver={handleDragOver}
+                  onDrop={handleDrop}
+                  isDragOver={dropIndex === index}
+                />
+              ))
+            )}
+          </ul>
+
+          {/* Footer hint - only show when there are tracks */}
+          {queue.length > 0 && (
             <div
               style={{
+                padding: "0.75rem 1.25rem",
+                fontSize: "0.625rem",
                 color: "#404040",
-                fontSize: "0.8125rem",
-                fontWeight: 500,
-                marginBottom: "0.5rem",
+                textAlign: "center",
+                letterSpacing: "0.02em",
               }}
             >
-              No tracks in queue
+              Drag to reorder
             </div>
-            <div
-              style={{
-                color: "#333333",
-                fontSize: "0.6875rem",
-              }}
-            >
-              Add tracks to get started
-            </div>
-          </li>
-        ) : (
-          queue.map((item, index) => (
-            <QueueItemRow
-              key={item.id}
-              item={item}
-              index={index}
-              members={members}
-              isOwnItem={item.addedBy === clientId}
-              onRemove={handleRemove}
-              onLoadToDeck={handleLoadToDeck}
-              onDragStart={handleDragStart}
-              onDragOver={handleDragOver}
-              onDrop={handleDrop}
-              isDragOver={dropIndex === index}
-            />
-          ))
-        )}
-      </ul>
-
-      {/* Footer hint - only show when there are tracks */}
-      {queue.length > 0 && (
-        <div
-          style={{
-            padding: "0.75rem 1.25rem",
-            fontSize: "0.625rem",
-            color: "#404040",
-            textAlign: "center",
-            letterSpacing: "0.02em",
-          }}
-        >
-          Drag to reorder
-        </div>
+          )}
+        </>
       )}
     </aside>
   );
@@ -0,0 +1,383 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import type { RoomState, Recording, RecordingTrack } from "@puid-board/shared";
+import { appendTracklist } from "@puid-board/shared";
+import {
+  startRecording,
+  stopRecording,
+  getRecordingElapsedSec,
+  type RecordingResult,
+} from "@/audio/recorder";
+import { useRecorder } from "@/audio/useRecorder";
+import { initAudioEngine } from "@/audio/engine";
+import { getRealtimeClient } from "@/realtime/client";
+
+export type RecordingControlProps = {
+  state: RoomState;
+  /** Listeners can browse recordings but not add to them */
+  readOnly?: boolean;
+};
+
+const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL || "http://localhost:3001";
+
+/** Format seconds as M:SS, or H:MM:SS for long sets */
+function formatDuration(sec: number): string {
+  const hours = Math.floor(sec / 3600);
+  const mins = Math.floor((sec % 3600) / 60);
+  const secs = Math.floor(sec % 60);
+  const ss = secs.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${mins.toString().padStart(2, "0")}:${ss}` : `${mins}:${ss}`;
+}
+
+/** Format a byte count as KB/MB */
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Upload a finished recording with its tracklist */
+async function uploadRecording(
+  result: RecordingResult,
+  roomId: string,
+  tracklist: RecordingTrack[]
+): Promise<Recording> {
+  // The server identifies the uploader by their live connection
+  const socketId = getRealtimeClient().getSocketId();
+  if (!socketId) {
+    throw new Error("Not connected");
+  }
+
+  const ext = result.mimeType.startsWith("audio/mp4")
+    ? "m4a"
+    : result.mimeType.startsWith("audio/ogg")
+      ? "ogg"
+      : "webm";
+
+  const formData = new FormData();
+  formData.append("file", result.blob, `recording.${ext}`);
+  formData.append("roomId", roomId);
+  formData.append("socketId", socketId);
+  formData.append("mimeType", result.mimeType);
+  formData.append("durationSec", result.durationSec.toString());
+  formData.append("tracklist", JSON.stringify(tracklist));
+
+  const response = await fetch(`${REALTIME_URL}/api/recordings`, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Upload failed" }));
+    throw new Error(error.error || "Upload failed");
+  }
+
+  const data = await response.json();
+  return data.recording;
+}
+
+/**
+ * REC control - records the master bus, uploads it to the room when stopped,
+ * and lists the room's recordings with their tracklists.
+ */
+export default function RecordingControl({ state, readOnly = false }: RecordingControlProps) {
+  const recorder = useRecorder();
+  const isRecording = recorder.status === "recording";
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [isListOpen, setIsListOpen] = useState(false);
+  const [, setTick] = useState(0);
+  const tracklistRef = useRef<RecordingTrack[]>([]);
+  const roomId = state.roomId;
+
+  // Tick the elapsed time display while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setTick((t) => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Build the tracklist from deck loads/plays seen while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    tracklistRef.current = appendTracklist(
+      tracklistRef.current,
+      state,
+      getRecordingElapsedSec(recorder)
+    );
+  }, [state, isRecording, recorder]);
+
+  // Load the room's recordings, then follow new uploads
+  useEffect(() => {
+    const addRecording = (recording: Recording) => {
+      setRecordings((prev) =>
+        prev.some((r) => r.id === recording.id) ? prev : [recording, ...prev]
+      );
+    };
+
+    fetch(`${REALTIME_URL}/api/recordings?roomId=${encodeURIComponent(roomId)}`)
+      .then((res) => (res.ok ? res.json() : { recordings: [] }))
+      .then((data: { recordings: Recording[] }) => {
+        setRecordings((prev) => {
+          const known = new Set(prev.map((r) => r.id));
+          return [...prev, ...data.recordings.filter((r) => !known.has(r.id))];
+        });
+      })
+      .catch((err) => console.warn("[RecordingControl] Failed to load recordings:", err));
+
+    return getRealtimeClient().onRecordingAdded(addRecording);
+  }, [roomId]);
+
+  const handleToggle = useCallback(async () => {
+    setError(null);
+
+    if (!isRecording) {
+      try {
+        await initAudioEngine();
+        tracklistRef.current = [];
+        startRecording();
+      } catch (err) {
+        console.error("[RecordingControl] Failed to start recording:", err);
+        setError(err instanceof Error ? err.message : "Failed to start recording");
+      }
+      return;
+    }
+
+    const result = await stopRecording();
+    if (!result) return;
+
+    setIsUploading(true);
+    try {
+      const recording = await uploadRecording(result, roomId, tracklistRef.current);
+      setRecordings((prev) =>
+        prev.some((r) => r.id === recording.id) ? prev : [recording, ...prev]
+      );
+    } catch (err) {
+      console.error("[RecordingControl] Upload failed:", err);
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  }, [isRecording, roomId]);
+
+  return (
+    <>
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <button
+          onClick={handleToggle}
+          disabled={isUploading || (readOnly && !isRecording)}
+          title={
+            error ??
+            (isRecording
+              ? "Stop and upload recording"
+              : readOnly
+                ? "Listeners can't record to the room"
+                : "Record the master mix")
+          }
+          style={{
+            padding: "6px 10px",
+            fontSize: "11px",
+            fontWeight: 600,
+            background: isRecording ? "rgba(239, 68, 68, 0.9)" : "rgba(239, 68, 68, 0.15)",
+            color: isRecording ? "#fff" : "#ef4444",
+            border: error ? "1px solid #ef4444" : "none",
+            borderRadius: 4,
+            cursor: isUploading ? "wait" : readOnly && !isRecording ? "not-allowed" : "pointer",
+            opacity: readOnly && !isRecording ? 0.5 : 1,
+            letterSpacing: "0.02em",
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+            fontFamily: isRecording ? "monospace" : undefined,
+          }}
+        >
+          <span
+            style={{
+              width: 8,
+              height: 8,
+              borderRadius: "50%",
+              background: isRecording ? "#fff" : "#ef4444",
+            }}
+          />
+          {isUploading
+            ? "Uploading..."
+            : isRecording
+              ? `${formatDuration(getRecordingElapsedSec(recorder))} · ${formatSize(recorder.sizeBytes)}`
+              : "REC"}
+        </button>
+        <button
+          onClick={() => setIsListOpen(true)}
+          style={{
+            padding: "6px 10px",
+            fontSize: "11px",
+            fontWeight: 500,
+            background: "rgba(156, 163, 175, 0.12)",
+            color: "#9ca3af",
+            border: "none",
+            borderRadius: 4,
+            cursor: "pointer",
+            letterSpacing: "0.02em",
+          }}
+        >
+          Recordings{recordings.length > 0 ? ` (${recordings.length})` : ""}
+        </button>
+      </div>
+
+      {isListOpen && (
+        <RecordingsModal recordings={recordings} onClose={() => setIsListOpen(false)} />
+      )}
+    </>
+  );
+}
+
+/** The room's recordings, with download links and tracklists */
+function RecordingsModal({
+  recordings,
+  onClose,
+}: {
+  recordings: Recording[];
+  onClose: () => void;
+}) {
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: "rgba(0, 0, 0, 0.8)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 10000,
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: "linear-gradient(180deg, #1a1a1a 0%, #0f0f10 100%)",
+          borderRadius: 12,
+          border: "1px solid #333",
+          padding: 24,
+          width: 480,
+          maxWidth: "90vw",
+          maxHeight: "80vh",
+          overflowY: "auto",
+          boxShadow: "0 20px 60px rgba(0, 0, 0, 0.5)",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: 20,
+          }}
+        >
+          <h2
+            style={{
+              margin: 0,
+              fontSize: 18,
+              fontWeight: 600,
+              color: "#e5e5e5",
+              letterSpacing: "0.025em",
+            }}
+          >
+            Recordings
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: "transparent",
+              border: "none",
+              color: "#666",
+              fontSize: 24,
+              cursor: "pointer",
+              padding: 4,
+              lineHeight: 1,
+            }}
+          >
+            x
+          </button>
+        </div>
+
+        {recordings.length === 0 && (
+          <p style={{ margin: 0, fontSize: 13, color: "#6b7280" }}>
+            No recordings yet. Hit REC to record the master mix.
+          </p>
+        )}
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          {recordings.map((recording) => (
+            <div
+              key={recording.id}
+              style={{
+                padding: 12,
+                background: "rgba(255, 255, 255, 0.03)",
+                border: "1px solid #27272a",
+                borderRadius: 8,
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  gap: 8,
+                }}
+              >
+                <div style={{ fontSize: 13, color: "#e5e5e5" }}>
+                  {new Date(recording.createdAt).toLocaleString()}
+                  <div style={{ fontSize: 11, color: "#6b7280", marginTop: 2 }}>
+                    {recording.recordedByName} · {formatDuration(recording.durationSec)} ·{" "}
+                    {formatSize(recording.fileSizeBytes)}
+                  </div>
+                </div>
+                <a
+                  href={recording.url}
+                  download
+                  style={{
+                    padding: "4px 10px",
+                    fontSize: 11,
+                    fontWeight: 500,
+                    color: "#FF8C3B",
+                    background: "rgba(255, 140, 59, 0.15)",
+                    borderRadius: 4,
+                    textDecoration: "none",
+                  }}
+                >
+                  Download
+                </a>
+              </div>
+
+              {recording.tracklist.length > 0 && (
+                <ol
+                  style={{
+                    margin: "10px 0 0",
+                    paddingLeft: 20,
+                    fontSize: 12,
+                    color: "#9ca3af",
+                  }}
+                >
+                  {recording.tracklist.map((track, i) => (
+                    <li key={i}>
+                      <span style={{ fontFamily: "monospace", color: "#6b7280" }}>
+                        {formatDuration(track.offsetSec)}
+                      </span>{" "}
+                      {track.title}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
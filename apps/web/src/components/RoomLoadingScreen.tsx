@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { RoomState } from "@puid-board/shared";
+import type { RoomState, QueueItem } from "@puid-board/shared";
+import { getDeckIds, getDeckState } from "@puid-board/shared";
 import { initAudioEngine } from "../audio/engine";
 
 interface LoadingItem {
@@ -42,20 +43,15 @@ export function RoomLoadingScreen({ state, realtimeUrl, onReady }: RoomLoadingSc
 
     const loadingItems = new Map<string, LoadingItem>();
 
-    // Check deck A
-    const deckAItem = state.deckA.loadedTrackId
-      ? state.queue.find((q) => q.trackId === state.deckA.loadedTrackId)
-      : null;
-    if (deckAItem) {
-      loadingItems.set("deckA", { label: `Deck A: ${deckAItem.title}`, status: "pending", progress: 0 });
-    }
-
-    // Check deck B
-    const deckBItem = state.deckB.loadedTrackId
-      ? state.queue.find((q) => q.trackId === state.deckB.loadedTrackId)
-      : null;
-    if (deckBItem) {
-      loadingItems.set("deckB", { label: `Deck B: ${deckBItem.title}`, status: "pending", progress: 0 });
+    // Check every deck in the room (A/B, plus C/D in four-deck rooms)
+    const deckItems: [string, QueueItem][] = [];
+    for (const deckId of getDeckIds(state.deckCount)) {
+      const trackId = getDeckState(state, deckId)?.loadedTrackId;
+      const deckItem = trackId ? state.queue.find((q) => q.trackId === trackId) : undefined;
+      if (deckItem) {
+        deckItems.push([`deck${deckId}`, deckItem]);
+        loadingItems.set(`deck${deckId}`, { label: `Deck ${deckId}: ${deckItem.title}`, status: "pending", progress: 0 });
+      }
     }
 
     // Check sampler custom sounds
@@ -76,8 +72,7 @@ export function RoomLoadingScreen({ state, realtimeUrl, onReady }: RoomLoadingSc
       const promises: Promise<void>[] = [];
 
       // Load deck tracks
-      for (const [key, deckItem] of [["deckA", deckAItem], ["deckB", deckBItem]] as const) {
-        if (!deckItem) continue;
+      for (const [key, deckItem] of deckItems) {
         const itemKey = key;
 
         promises.push(
@@ -4,7 +4,6 @@ import { useEffect, useCallback, useState, useRef } from "react";
 import SamplerButton from "./SamplerButton";
 import {
   playSample,
-  SLOT_KEYBINDS,
   SLOT_COLORS,
   SLOT_ICONS,
   loadDefaultSamples,
@@ -13,6 +12,8 @@ import {
 } from "@/audio/sampler";
 import type { ClientMutationEvent } from "@puid-board/shared";
 import { getRealtimeClient } from "@/realtime/client";
+import { getKeyLabel, getSamplerShortcut } from "@/shortcuts/keymap";
+import { useShortcutState, useShortcuts } from "@/shortcuts/useShortcuts";
 
 export type SamplerPanelProps = {
   /** Optional: width to constrain the panel */
@@ -27,14 +28,16 @@ export type SamplerPanelProps = {
   nextSeq?: () => number;
   /** Room sampler state from snapshot — for auto-loading custom sounds on join */
   samplerState?: { slots: Array<{ url: string | null; name: string; isCustom: boolean }> };
+  /** Ignore keyboard input (read-only listeners) */
+  disabled?: boolean;
 };
 
 /**
  * Sampler panel with 4 performance pads.
- * Handles keyboard events for R, T, Y, U keys.
+ * Handles the sampler keyboard shortcuts (R, T, Y, U by default).
  * Positioned below the FX control panel.
  */
-export default function SamplerPanel({ width = 184, roomId, clientId, sendEvent, nextSeq, samplerState }: SamplerPanelProps) {
+export default function SamplerPanel({ width = 184, roomId, clientId, sendEvent, nextSeq, samplerState, disabled = false }: SamplerPanelProps) {
   // Calculate button size to fit 4 buttons border-to-border (no gaps)
   // Width should be exactly 4 * buttonSize
   const gap = 0;
@@ -112,41 +115,16 @@ export default function SamplerPanel({ width = 184, roomId, clientId, sendEvent,
     });
   }, []); // Empty deps — only run on mount
 
-  // Handle keyboard events
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Ignore if user is typing in an input field
-      if (
-        e.target instanceof HTMLInputElement ||
-        e.target instanceof HTMLTextAreaElement
-      ) {
-        return;
-      }
-
-      // Use e.code for more reliable detection (KeyR, KeyT, KeyY, KeyU)
-      const codeMap: Record<string, SampleSlot> = {
-        KeyR: 0,
-        KeyT: 1,
-        KeyY: 2,
-        KeyU: 3,
-      };
-
-      const slot = codeMap[e.code];
-
-      if (slot !== undefined) {
-        console.log(`[Sampler] Key pressed: ${e.code} -> Slot ${slot}`);
-        e.preventDefault();
-        handlePlaySample(slot);
-      }
-    };
-
-    console.log("[Sampler] Keyboard listener attached");
-    window.addEventListener("keydown", handleKeyDown);
-    return () => {
-      console.log("[Sampler] Keyboard listener removed");
-      window.removeEventListener("keydown", handleKeyDown);
-    };
-  }, [handlePlaySample]);
+  // Handle keyboard shortcuts (R, T, Y, U by default)
+  useShortcuts(
+    {
+      "sampler.1": () => handlePlaySample(0),
+      "sampler.2": () => handlePlaySample(1),
+      "sampler.3": () => handlePlaySample(2),
+      "sampler.4": () => handlePlaySample(3),
+    },
+    disabled
+  );
 
   // Cleanup timers on unmount
   useEffect(() => {
@@ -156,6 +134,7 @@ export default function SamplerPanel({ width = 184, roomId, clientId, sendEvent,
     };
   }, []);
 
+  const { map: shortcutMap, layout } = useShortcutState();
   const slots: SampleSlot[] = [0, 1, 2, 3];
 
   return (
@@ -173,7 +152,7 @@ export default function SamplerPanel({ width = 184, roomId, clientId, sendEvent,
       {slots.map((slot) => (
         <SamplerButton
           key={slot}
-          keybind={SLOT_KEYBINDS[slot]}
+          keybind={getKeyLabel(shortcutMap[getSamplerShortcut(slot)], layout)}
           color={SLOT_COLORS[slot]}
           onClick={() => handlePlaySample(slot)}
           size={buttonSize}
@@ -3,7 +3,6 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import {
   type SampleSlot,
-  SLOT_KEYBINDS,
   SLOT_COLORS,
   DEFAULT_SAMPLE_NAMES,
   getAllSampleMetadata,
@@ -13,6 +12,8 @@ import {
   onSampleChange,
   loadDefaultSamples,
 } from "@/audio/sampler";
+import { getKeyLabel, getSamplerShortcut } from "@/shortcuts/keymap";
+import { useShortcutState } from "@/shortcuts/useShortcuts";
 
 export type SamplerSettingsProps = {
   isOpen: boolean;
@@ -469,6 +470,7 @@ function SlotRow({
   isRecording: boolean;
 }) {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const { map: shortcutMap, layout } = useShortcutState();
 
   return (
     <div
@@ -498,7 +500,7 @@ function SlotRow({
           flexShrink: 0,
         }}
       >
-        {SLOT_KEYBINDS[slot]}
+        {getKeyLabel(shortcutMap[getSamplerShortcut(slot)], layout)}
       </div>
 
       {/* Sample info */}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { PlayedTrack } from "@puid-board/shared";
+
+export type SetHistoryProps = {
+  roomId: string;
+};
+
+const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL || "http://localhost:3001";
+
+/** How often the history is refreshed while shown (open entries keep growing) */
+const REFRESH_INTERVAL_MS = 5000;
+
+const EXPORT_FORMATS = [
+  { format: "cue", label: "CUE" },
+  { format: "m3u", label: "M3U" },
+  { format: "csv", label: "CSV" },
+] as const;
+
+/** Format seconds as M:SS */
+function formatDuration(sec: number): string {
+  const mins = Math.floor(sec / 60);
+  const secs = Math.floor(sec % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Set history - the room's played tracks as tracked by the server, with
+ * CUE sheet, M3U and CSV downloads.
+ */
+export default function SetHistory({ roomId }: SetHistoryProps) {
+  const [history, setHistory] = useState<PlayedTrack[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const historyUrl = `${REALTIME_URL}/api/history?roomId=${encodeURIComponent(roomId)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      fetch(historyUrl)
+        .then((res) => {
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          return res.json();
+        })
+        .then((data: { history: PlayedTrack[] }) => {
+          if (cancelled) return;
+          setHistory(data.history);
+          setError(null);
+        })
+        .catch((err) => {
+          console.warn("[SetHistory] Failed to load history:", err);
+          if (!cancelled) setError("Couldn't load history");
+        });
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [historyUrl]);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+      {/* Export */}
+      <div style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+        <span style={{ flex: 1, fontSize: "0.6875rem", color: "#737373" }}>
+          {error ?? `${history.length} played`}
+        </span>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <a
+            key={format}
+            href={`${historyUrl}&format=${format}`}
+            download
+            title={`Download the tracklist as ${label}`}
+            style={{
+              padding: "0.25rem 0.5rem",
+              fontSize: "0.6875rem",
+              fontWeight: 500,
+              color: history.length > 0 ? "#FF8C3B" : "#525252",
+              background: history.length > 0 ? "rgba(255, 140, 59, 0.15)" : "transparent",
+              border: "1px solid #333",
+              borderRadius: "4px",
+              textDecoration: "none",
+              pointerEvents: history.length > 0 ? "auto" : "none",
+            }}
+          >
+            {label}
+          </a>
+        ))}
+      </div>
+
+      {/* Played tracks */}
+      {history.length === 0 ? (
+        <div
+          style={{
+            padding: "1.5rem 0.5rem",
+            textAlign: "center",
+            color: "#404040",
+            fontSize: "0.75rem",
+          }}
+        >
+          Tracks show up here once they are heard on the master
+        </div>
+      ) : (
+        <ol style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {history.map((track, index) => (
+            <li
+              key={track.id}
+              style={{
+                display: "flex",
+                alignItems: "baseline",
+                gap: "0.5rem",
+                padding: "0.375rem 0",
+                borderBottom: "1px solid #1f1f1f",
+                fontSize: "0.75rem",
+              }}
+            >
+              <span style={{ width: "1.25rem", color: "#525252", fontFamily: "monospace" }}>
+                {index + 1}
+              </span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div
+                  style={{
+                    color: track.endedAt === null ? "#FF8C3B" : "#e5e5e5",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {track.title}
+                </div>
+                <div style={{ fontSize: "0.625rem", color: "#737373" }}>
+                  {new Date(track.startedAt).toLocaleTimeString()} · Deck {track.deckId} ·{" "}
+                  {track.playedByName}
+                </div>
+              </div>
+              <span style={{ color: "#737373", fontFamily: "monospace" }}>
+                {formatDuration(track.durationSec)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
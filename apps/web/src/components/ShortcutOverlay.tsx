@@ -0,0 +1,90 @@
+"use client";
+
+import { SHORTCUT_ACTIONS, SHORTCUT_GROUPS, getKeyLabel } from "@/shortcuts/keymap";
+import { useShortcutState } from "@/shortcuts/useShortcuts";
+
+export type ShortcutOverlayProps = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+/**
+ * On-screen cheat sheet of the current keyboard shortcuts.
+ * Toggled with the "Show shortcuts" key; click anywhere to dismiss.
+ */
+export default function ShortcutOverlay({ isOpen, onClose }: ShortcutOverlayProps) {
+  const { map, layout } = useShortcutState();
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: "rgba(0, 0, 0, 0.6)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 9000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${SHORTCUT_GROUPS.length}, auto)`,
+          gap: 24,
+          padding: 20,
+          background: "rgba(15, 15, 16, 0.95)",
+          border: "1px solid #333",
+          borderRadius: 12,
+          boxShadow: "0 20px 60px rgba(0, 0, 0, 0.5)",
+        }}
+      >
+        {SHORTCUT_GROUPS.map((group) => (
+          <div key={group}>
+            <div
+              style={{
+                fontSize: 11,
+                fontWeight: 600,
+                color: "#6b7280",
+                textTransform: "uppercase",
+                letterSpacing: "0.05em",
+                marginBottom: 8,
+              }}
+            >
+              {group}
+            </div>
+            {SHORTCUT_ACTIONS.filter((action) => action.group === group).map((action) => (
+              <div
+                key={action.id}
+                style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4, fontSize: 12 }}
+              >
+                <kbd
+                  style={{
+                    minWidth: 22,
+                    padding: "2px 6px",
+                    textAlign: "center",
+                    fontFamily: "monospace",
+                    fontSize: 11,
+                    color: map[action.id] ? "#FF8C3B" : "#404040",
+                    background: "#1a1a1a",
+                    border: "1px solid #333",
+                    borderRadius: 4,
+                  }}
+                >
+                  {getKeyLabel(map[action.id], layout) || "-"}
+                </kbd>
+                <span style={{ color: "#e5e5e5" }}>{action.label}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
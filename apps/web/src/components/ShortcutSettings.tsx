@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  SHORTCUT_ACTIONS,
+  SHORTCUT_GROUPS,
+  createDefaultShortcutMap,
+  exportShortcutMap,
+  getKeyLabel,
+  getShortcutLabel,
+  parseShortcutMap,
+  type ShortcutAction,
+} from "@/shortcuts/keymap";
+import { setShortcut, setShortcutMap, setShortcutsSuspended } from "@/shortcuts/registry";
+import { useShortcutState } from "@/shortcuts/useShortcuts";
+
+export type ShortcutSettingsProps = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+/** Keys that only modify other keys can't be bound on their own */
+const MODIFIER_CODES = new Set([
+  "ShiftLeft",
+  "ShiftRight",
+  "ControlLeft",
+  "ControlRight",
+  "AltLeft",
+  "AltRight",
+  "MetaLeft",
+  "MetaRight",
+  "CapsLock",
+]);
+
+const buttonStyle = {
+  padding: "4px 10px",
+  fontSize: 11,
+  fontWeight: 500,
+  background: "rgba(156, 163, 175, 0.12)",
+  color: "#9ca3af",
+  border: "none",
+  borderRadius: 4,
+  cursor: "pointer",
+} as const;
+
+/**
+ * Keyboard shortcut settings - rebind keys, import/export the map as JSON.
+ * Shortcuts are paused while open so rebinding doesn't trigger the board.
+ */
+export default function ShortcutSettings({ isOpen, onClose }: ShortcutSettingsProps) {
+  const { map, layout } = useShortcutState();
+  const [listening, setListening] = useState<ShortcutAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Pause the board's shortcuts while open
+  useEffect(() => {
+    if (!isOpen) return;
+    setShortcutsSuspended(true);
+    return () => {
+      setShortcutsSuspended(false);
+      setListening(null);
+      setNotice(null);
+    };
+  }, [isOpen]);
+
+  // Capture the next key for the action being rebound (Escape cancels)
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (MODIFIER_CODES.has(e.code) || e.ctrlKey || e.metaKey || e.altKey) return;
+      e.preventDefault();
+      setListening(null);
+      if (e.code === "Escape") return;
+
+      const displaced = setShortcut(listening, e.code);
+      setNotice(
+        displaced
+          ? `${getKeyLabel(e.code, layout)} was removed from ${getShortcutLabel(displaced)}`
+          : null
+      );
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [listening, layout]);
+
+  const handleExport = () => {
+    const blob = new Blob([exportShortcutMap(map)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "puidboard-shortcuts.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    const result = parseShortcutMap(await file.text());
+    if (result.ok) {
+      setShortcutMap(result.map);
+      setNotice(`Imported shortcuts from ${file.name}`);
+    } else {
+      setNotice(`Import failed: ${result.error}`);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: "rgba(0, 0, 0, 0.8)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 10000,
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: "linear-gradient(180deg, #1a1a1a 0%, #0f0f10 100%)",
+          borderRadius: 12,
+          border: "1px solid #333",
+          padding: 24,
+          width: 480,
+          maxWidth: "90vw",
+          maxHeight: "85vh",
+          overflowY: "auto",
+          boxShadow: "0 20px 60px rgba(0, 0, 0, 0.5)",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: 16,
+          }}
+        >
+          <h2
+            style={{
+              margin: 0,
+              fontSize: 18,
+              fontWeight: 600,
+              color: "#e5e5e5",
+              letterSpacing: "0.025em",
+            }}
+          >
+            Keyboard Shortcuts
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: "transparent",
+              border: "none",
+              color: "#666",
+              fontSize: 24,
+              cursor: "pointer",
+              padding: 4,
+              lineHeight: 1,
+            }}
+          >
+            x
+          </button>
+        </div>
+
+        {/* Import / export */}
+        <div style={{ display: "flex", gap: 6, marginBottom: 12 }}>
+          <button onClick={handleExport} style={buttonStyle}>
+            Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>
+            Import
+          </button>
+          <button
+            onClick={() => {
+              setShortcutMap(createDefaultShortcutMap());
+              setNotice("Restored the default shortcuts");
+            }}
+            style={buttonStyle}
+          >
+            Reset to defaults
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {notice && (
+          <div style={{ fontSize: 12, color: "#FF8C3B", marginBottom: 12 }}>{notice}</div>
+        )}
+
+        {/* Bindings */}
+        {SHORTCUT_GROUPS.map((group) => (
+          <div key={group} style={{ marginBottom: 12 }}>
+            <div
+              style={{
+                fontSize: 11,
+                fontWeight: 600,
+                color: "#6b7280",
+                textTransform: "uppercase",
+                letterSpacing: "0.05em",
+                marginBottom: 4,
+              }}
+            >
+              {group}
+            </div>
+            {SHORTCUT_ACTIONS.filter((action) => action.group === group).map((action) => {
+              const isListening = listening === action.id;
+              const code = map[action.id];
+              return (
+                <div
+                  key={action.id}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    padding: "3px 0",
+                    borderBottom: "1px solid #1f1f1f",
+                    fontSize: 12,
+                  }}
+                >
+                  <span style={{ flex: 1, color: "#e5e5e5" }}>{action.label}</span>
+                  <button
+                    onClick={() => setListening(isListening ? null : action.id)}
+                    title="Click, then press a key (Escape cancels)"
+                    style={{
+                      ...buttonStyle,
+                      minWidth: 88,
+                      fontFamily: isListening ? undefined : "monospace",
+                      background: isListening ? "rgba(255, 140, 59, 0.9)" : buttonStyle.background,
+                      color: isListening ? "#fff" : code ? "#FF8C3B" : "#404040",
+                    }}
+                  >
+                    {isListening ? "Press a key" : code ? getKeyLabel(code, layout) : "-"}
+                  </button>
+                  <button
+                    onClick={() => setShortcut(action.id, null)}
+                    disabled={!code}
+                    style={{ ...buttonStyle, opacity: code ? 1 : 0.4 }}
+                  >
+                    Clear
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useState, useRef, useEffect } from "react";
-import type { Member } from "@puid-board/shared";
+import type { Member, MemberRole } from "@puid-board/shared";
 
 const CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 const ROOM_CODE_LEN = 6;
@@ -28,6 +28,14 @@ export type TopBarProps = {
   members?: Member[];
   clientId?: string;
   onRename?: (newName: string) => void;
+  /** Host only: switch another member between DJ and listener */
+  onRoleChange?: (targetClientId: string, role: Exclude<MemberRole, "host">) => void;
+};
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  host: "HOST",
+  dj: "DJ",
+  listener: "LISTEN",
 };
 
 const pillStyle = {
@@ -42,7 +50,7 @@ const pillStyle = {
   whiteSpace: "nowrap" as const,
 };
 
-export default function TopBar({ roomCode, latencyMs, members, clientId, onRename }: TopBarProps) {
+export default function TopBar({ roomCode, latencyMs, members, clientId, onRename, onRoleChange }: TopBarProps) {
   const [copiedCode, setCopiedCode] = useState(false);
   const [copiedLink, setCopiedLink] = useState(false);
   const [editing, setEditing] = useState(false);
@@ -103,6 +111,7 @@ export default function TopBar({ roomCode, latencyMs, members, clientId, onRenam
 
   // Build pills list
   const currentUser = members?.find((m) => m.clientId === clientId);
+  const canManageRoles = currentUser?.role === "host" && !!onRoleChange;
   const otherMembers = members
     ?.filter((m) => m.clientId !== clientId)
     .sort((a, b) => a.joinedAt - b.joinedAt) ?? [];
@@ -219,6 +228,26 @@ export default function TopBar({ roomCode, latencyMs, members, clientId, onRenam
               >
                 <span style={{ width: 8, height: 8, borderRadius: "50%", background: member.color, flexShrink: 0 }} />
                 <span>{member.name}{isMe ? " (You)" : ""}</span>
+                {canManageRoles && !isMe && member.role !== "host" ? (
+                  <button
+                    type="button"
+                    title={member.role === "listener" ? "Allow to DJ" : "Make listener"}
+                    onClick={() => onRoleChange?.(member.clientId, member.role === "listener" ? "dj" : "listener")}
+                    style={{
+                      padding: "0 4px",
+                      background: "#1f2937",
+                      border: "none",
+                      borderRadius: 4,
+                      color: member.role === "listener" ? "#9ca3af" : "#f9fafb",
+                      fontSize: "0.625rem",
+                      cursor: "pointer",
+                    }}
+                  >
+                    {ROLE_LABELS[member.role]}
+                  </button>
+                ) : (
+                  <span style={{ fontSize: "0.625rem", color: "#9ca3af" }}>{ROLE_LABELS[member.role]}</span>
+                )}
               </div>
             );
           })}
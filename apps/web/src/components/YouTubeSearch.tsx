@@ -25,13 +25,17 @@ export interface YouTubeTrackData {
 
 export type YouTubeSearchProps = {
   onAddTrack: (track: YouTubeTrackData) => void;
+  /** Prelisten a result in headphones without adding it (button hidden when absent) */
+  onPreview?: (track: YouTubeTrackData) => void;
+  /** Video currently playing in prelisten */
+  previewVideoId?: string | null;
 };
 
 // ============================================================================
 // Component
 // ============================================================================
 
-export default function YouTubeSearch({ onAddTrack }: YouTubeSearchProps) {
+export default function YouTubeSearch({ onAddTrack, onPreview, previewVideoId = null }: YouTubeSearchProps) {
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<YouTubeSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -299,6 +303,39 @@ export default function YouTubeSearch({ onAddTrack }: YouTubeSearchProps) {
                 </div>
               </div>
 
+              {/* Prelisten button */}
+              {onPreview && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onPreview({
+                      videoId: result.videoId,
+                      title: result.title,
+                      durationSec: result.durationSec,
+                      thumbnailUrl: result.thumbnailUrl,
+                      url: `${realtimeUrl}/api/youtube/stream/${result.videoId}`,
+                    });
+                  }}
+                  title={previewVideoId === result.videoId ? "Pause prelisten" : "Prelisten in headphones"}
+                  style={{
+                    padding: "0.375rem 0.5rem",
+                    background:
+                      previewVideoId === result.videoId
+                        ? "rgba(245, 158, 11, 0.25)"
+                        : "rgba(245, 158, 11, 0.1)",
+                    border: "none",
+                    borderRadius: "4px",
+                    color: "#f59e0b",
+                    fontSize: "0.6875rem",
+                    fontWeight: 600,
+                    cursor: "pointer",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {previewVideoId === result.videoId ? "||" : "PFL"}
+                </button>
+              )}
+
               {/* Add button */}
               <button
                 onClick={(e) => {
@@ -8,11 +8,11 @@ import {
   type CoalescedPointerData,
 } from "../../audio/controlOptimizer";
 import { getDeck } from "../../audio/useDeck";
-import type { ClientMutationEvent } from "@puid-board/shared";
+import type { ClientMutationEvent, DeckId } from "@puid-board/shared";
 
 export type JogWheelProps = {
   /** Deck identifier */
-  deckId: "A" | "B";
+  deckId: DeckId;
   /** Accent color for the glow effect */
   accentColor: string;
   /** Size of the jog wheel in pixels */
@@ -21,6 +21,8 @@ export type JogWheelProps = {
   isPlaying?: boolean;
   /** Optional playback rate for variable speed */
   playbackRate?: number;
+  /** Slip mode: a scratch resumes from the server's shadow playhead on release */
+  slip?: boolean;
   /** Room ID for network events */
   roomId?: string;
   /** Client ID for network events */
@@ -92,6 +94,7 @@ interface JogWheelState {
  *    - Touch and drag to scratch/scrub audio
  *    - Directly controls playhead position
  *    - Works when playing or paused
+ *    - In slip mode, resumes from the shadow playhead on release
  *
  * 2. PITCH BEND MODE (Outer Ring):
  *    - Rotate to temporarily speed up/slow down
@@ -110,6 +113,7 @@ const JogWheel = memo(function JogWheel({
   size = 280,
   isPlaying = false,
   playbackRate = 1.0,
+  slip = false,
   roomId,
   clientId,
   sendEvent,
@@ -240,6 +244,12 @@ const JogWheel = memo(function JogWheel({
     });
   }, [sendEvent, nextSeq, roomId, clientId, deckId]);
 
+  // Start/release the slip shadow around a scratch (slip mode only)
+  const sendSlipEvent = useCallback((type: "DECK_SLIP_START" | "DECK_SLIP_RELEASE") => {
+    if (!slip || !sendEvent || !nextSeq || !roomId || !clientId) return;
+    sendEvent({ type, roomId, clientId, clientSeq: nextSeq(), payload: { deckId } });
+  }, [slip, sendEvent, nextSeq, roomId, clientId, deckId]);
+
   // Handle vinyl scratching (center platter)
   const handleVinylScratch = useCallback((angleDiff: number) => {
     const deck = deckRef.current;
@@ -360,9 +370,11 @@ const JogWheel = memo(function JogWheel({
     state.lastAngle = angle;
     lastPositionRef.current = { x: e.clientX, y: e.clientY };
 
+    if (zone === "center") sendSlipEvent("DECK_SLIP_START");
+
     (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
     startAnimation();
-  }, [getTouchZone, getAngleFromCenter, startAnimation]);
+  }, [getTouchZone, getAngleFromCenter, startAnimation, sendSlipEvent]);
 
   // Handle pointer move
   const handlePointerMove = useCallback((e: React.PointerEvent) => {
@@ -430,6 +442,8 @@ const JogWheel = memo(function JogWheel({
       // Bend will decay in animation callback
     }
 
+    if (state.touchZone === "center") sendSlipEvent("DECK_SLIP_RELEASE");
+
     state.touchZone = null;
 
     // Calculate release velocity for visual momentum
@@ -442,7 +456,7 @@ const JogWheel = memo(function JogWheel({
     } else if (isPlaying || Math.abs(state.currentBend) > 0.001) {
       startAnimation();
     }
-  }, [getAverageVelocity, startAnimation, isPlaying]);
+  }, [getAverageVelocity, startAnimation, isPlaying, sendSlipEvent]);
 
   // Memoized styles
   const containerStyle = useMemo<React.CSSProperties>(() => ({
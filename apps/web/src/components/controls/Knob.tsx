@@ -33,6 +33,8 @@ export type KnobProps = {
   bipolar?: boolean;
   /** Is this control being moved by a remote user (for interpolation) */
   isRemoteUpdate?: boolean;
+  /** Local-only control: report values here instead of MIXER_SET (no grab/release) */
+  onChange?: (value: number) => void;
 };
 
 // Triple-buffer state for smooth visual updates
@@ -72,6 +74,7 @@ const Knob = memo(function Knob({
   max = 1,
   bipolar = false,
   isRemoteUpdate = false,
+  onChange,
 }: KnobProps) {
   const knobRef = useRef<HTMLDivElement>(null);
   const indicatorRef = useRef<HTMLImageElement>(null);
@@ -180,6 +183,11 @@ const Knob = memo(function Knob({
     lastSendRef.current = now;
     stateRef.current.network = newValue;
 
+    if (onChange) {
+      onChange(newValue);
+      return;
+    }
+
     sendEvent({
       type: "MIXER_SET",
       roomId,
@@ -187,9 +195,10 @@ const Knob = memo(function Knob({
       clientSeq: nextSeq(),
       payload: { controlId, value: newValue },
     });
-  }, [controlId, roomId, clientId, sendEvent, nextSeq]);
+  }, [controlId, roomId, clientId, sendEvent, nextSeq, onChange]);
 
   const sendGrab = useCallback(() => {
+    if (onChange) return;
     sendEvent({
       type: "CONTROL_GRAB",
       roomId,
@@ -197,9 +206,10 @@ const Knob = memo(function Knob({
       clientSeq: nextSeq(),
       payload: { controlId },
     });
-  }, [controlId, roomId, clientId, sendEvent, nextSeq]);
+  }, [controlId, roomId, clientId, sendEvent, nextSeq, onChange]);
 
   const sendRelease = useCallback(() => {
+    if (onChange) return;
     sendEvent({
       type: "CONTROL_RELEASE",
       roomId,
@@ -207,7 +217,7 @@ const Knob = memo(function Knob({
       clientSeq: nextSeq(),
       payload: { controlId },
     });
-  }, [controlId, roomId, clientId, sendEvent, nextSeq]);
+  }, [controlId, roomId, clientId, sendEvent, nextSeq, onChange]);
 
   // Handle pointer down
   const handlePointerDown = useCallback((e: React.PointerEvent) => {
@@ -11,6 +11,12 @@ export type DeckControlPanelProps = {
   onCue: () => void;
   onSync?: () => void;
   isSynced?: boolean;
+  onKeyLock?: () => void;
+  /** Key lock (master tempo) keeps the pitch when the tempo changes */
+  isKeyLocked?: boolean;
+  onSlip?: () => void;
+  /** Slip mode resumes from a shadow playhead after scratches, loops and cue jumps */
+  isSlipping?: boolean;
   isPlaying: boolean;
   /** Current playback rate (1.0 = normal, 1.08 = +8%) */
   playbackRate?: number;
@@ -30,6 +36,10 @@ export function DeckControlPanel({
   onCue,
   onSync,
   isSynced = false,
+  onKeyLock,
+  isKeyLocked = false,
+  onSlip,
+  isSlipping = false,
   isPlaying,
   playbackRate = 1.0,
 }: DeckControlPanelProps) {
@@ -152,17 +162,73 @@ export function DeckControlPanel({
           {statusText}
         </div>
 
-        {/* Pitch */}
+        {/* Pitch, Key Lock and Slip */}
         <div
           style={{
-            fontSize: "9px",
-            fontWeight: 600,
-            fontFamily: "monospace",
-            color: pitchColor,
-            textAlign: "center",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "6px",
           }}
         >
-          PITCH: {pitchDisplay}
+          <div
+            style={{
+              fontSize: "9px",
+              fontWeight: 600,
+              fontFamily: "monospace",
+              color: pitchColor,
+            }}
+          >
+            PITCH: {pitchDisplay}
+          </div>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onKeyLock?.();
+            }}
+            style={{
+              fontSize: "8px",
+              fontWeight: 700,
+              fontFamily: "monospace",
+              lineHeight: 1,
+              padding: "1px 3px",
+              borderRadius: "3px",
+              border: isKeyLocked ? "1px solid #22d3ee" : "1px solid #242424",
+              background: isKeyLocked ? "rgba(34, 211, 238, 0.15)" : "rgba(0, 0, 0, 0.3)",
+              color: isKeyLocked ? "#22d3ee" : "#6b7280",
+              cursor: "pointer",
+              pointerEvents: "auto",
+            }}
+            title={isKeyLocked ? "Key lock on: tempo changes keep the pitch" : "Key lock off"}
+          >
+            KEY
+          </button>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onSlip?.();
+            }}
+            style={{
+              fontSize: "8px",
+              fontWeight: 700,
+              fontFamily: "monospace",
+              lineHeight: 1,
+              padding: "1px 3px",
+              borderRadius: "3px",
+              border: isSlipping ? "1px solid #e879f9" : "1px solid #242424",
+              background: isSlipping ? "rgba(232, 121, 249, 0.15)" : "rgba(0, 0, 0, 0.3)",
+              color: isSlipping ? "#e879f9" : "#6b7280",
+              cursor: "pointer",
+              pointerEvents: "auto",
+            }}
+            title={isSlipping ? "Slip on: scratches, loops and cue jumps resume where the track would have been" : "Slip off"}
+          >
+            SLIP
+          </button>
         </div>
       </div>
 
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { DeckId } from "@puid-board/shared";
+import {
+  subscribeToMeters,
+  METER_FLOOR_DB,
+  type MeterLevels,
+  type MeterReading,
+} from "@/audio/mixerGraph";
+
+export type LevelMeterProps = {
+  /** Channel strip (pre-fader) or master side to show */
+  source: DeckId | "masterL" | "masterR";
+  /** Height in pixels */
+  height: number;
+  /** Width in pixels */
+  width?: number;
+};
+
+/** Top of the scale (dBFS) */
+const METER_TOP_DB = 0;
+
+/** Green → amber at -12dB → red from -3dB, laid over the full meter height */
+const METER_GRADIENT = `linear-gradient(to top, #22c55e 0%, #22c55e ${toPercent(-12)}%, #f59e0b ${toPercent(-12)}%, #f59e0b ${toPercent(-3)}%, #ef4444 ${toPercent(-3)}%)`;
+
+/** Position of a dB value on the meter (0-100) */
+function toPercent(db: number): number {
+  const clamped = Math.max(METER_FLOOR_DB, Math.min(METER_TOP_DB, db));
+  return ((clamped - METER_FLOOR_DB) / (METER_TOP_DB - METER_FLOOR_DB)) * 100;
+}
+
+function selectReading(levels: MeterLevels, source: LevelMeterProps["source"]): MeterReading {
+  if (source === "masterL") return levels.master[0];
+  if (source === "masterR") return levels.master[1];
+  return levels.channels[source];
+}
+
+/**
+ * Vertical VU meter with a peak-hold marker.
+ * Readings arrive every animation frame, so the bar and marker are moved
+ * through refs rather than React state.
+ */
+export function LevelMeter({ source, height, width = 4 }: LevelMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const holdRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    return subscribeToMeters((levels) => {
+      const reading = selectReading(levels, source);
+      if (barRef.current) {
+        barRef.current.style.height = `${toPercent(reading.levelDb)}%`;
+      }
+      if (holdRef.current) {
+        const silent = reading.holdDb <= METER_FLOOR_DB;
+        holdRef.current.style.bottom = `${toPercent(reading.holdDb)}%`;
+        holdRef.current.style.opacity = silent ? "0" : "1";
+        holdRef.current.style.background = reading.holdDb > -3 ? "#ef4444" : "#e5e7eb";
+      }
+    });
+  }, [source]);
+
+  return (
+    <div
+      style={{
+        position: "relative",
+        width,
+        height,
+        background: "#111827",
+        border: "1px solid rgba(0,0,0,0.3)",
+        borderRadius: 1,
+        overflow: "hidden",
+      }}
+    >
+      <div
+        ref={barRef}
+        style={{
+          position: "absolute",
+          left: 0,
+          right: 0,
+          bottom: 0,
+          height: 0,
+          backgroundImage: METER_GRADIENT,
+          backgroundSize: `100% ${height}px`,
+          backgroundPosition: "bottom",
+        }}
+      />
+      <div
+        ref={holdRef}
+        style={{
+          position: "absolute",
+          left: 0,
+          right: 0,
+          bottom: 0,
+          height: 1,
+          opacity: 0,
+        }}
+      />
+    </div>
+  );
+}
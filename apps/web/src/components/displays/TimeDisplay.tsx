@@ -3,12 +3,13 @@ import React from "react";
 export type TimeDisplayProps = {
   currentTime: number; // in seconds
   duration: number; // in seconds
+  children?: React.ReactNode; // optional content between the two times
 };
 
 /**
  * Time Display - shows elapsed and remaining time
  */
-export function TimeDisplay({ currentTime, duration }: TimeDisplayProps) {
+export function TimeDisplay({ currentTime, duration, children }: TimeDisplayProps) {
   // Format time as M:SS
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(Math.abs(seconds) / 60);
@@ -34,6 +35,8 @@ export function TimeDisplay({ currentTime, duration }: TimeDisplayProps) {
       {/* Elapsed Time */}
       <div style={{ color: "#f0f0f0" }}>{elapsed}</div>
 
+      {children}
+
       {/* Remaining Time */}
       <div style={{ color: "#6b7280" }}>{remaining}</div>
     </div>
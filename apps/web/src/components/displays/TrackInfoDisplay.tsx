@@ -1,21 +1,32 @@
 import React from "react";
+import type { CamelotKey, DeckId, TrackLoudness } from "@puid-board/shared";
+import { isHarmonicMatch, getAutoTrimDb, LOUDNESS_TARGET_LUFS } from "@puid-board/shared";
 import { DeckPlayState } from "../../audio/deck";
 
 export type TrackInfoDisplayProps = {
-  deckId: "A" | "B";
+  deckId: DeckId;
   title: string | null;
   playState: DeckPlayState;
   accentColor: string;
+  /** Detected key of the loaded track (Camelot notation) */
+  musicalKey?: CamelotKey | null;
+  /** Key of the deck being mixed against; a compatible key lights up */
+  referenceKey?: CamelotKey | null;
+  /** Measured loudness of the loaded track, shown with its auto trim */
+  loudness?: TrackLoudness | null;
 };
 
 /**
- * Track Info Display - shows deck badge, track title, and status LED
+ * Track Info Display - shows deck badge, track title, key, loudness, and status LED
  */
 export function TrackInfoDisplay({
   deckId,
   title,
   playState,
   accentColor,
+  musicalKey = null,
+  referenceKey = null,
+  loudness = null,
 }: TrackInfoDisplayProps) {
   // Determine LED color based on play state
   const ledColor =
@@ -27,6 +38,10 @@ export function TrackInfoDisplay({
       ? "#f59e0b" // Orange (loaded)
       : "#ef4444"; // Red (empty)
 
+  const isKeyMatch = isHarmonicMatch(musicalKey, referenceKey);
+
+  const trimDb = loudness ? Math.round(getAutoTrimDb(loudness) * 10) / 10 : 0;
+
   // Truncate title to ~40 characters (more space without BPM)
   const displayTitle = title
     ? title.length > 40
@@ -78,6 +93,47 @@ export function TrackInfoDisplay({
         {displayTitle}
       </div>
 
+      {/* Key Badge (green when it mixes with the other deck) */}
+      {title && musicalKey && (
+        <div
+          title={isKeyMatch ? `Mixes with ${referenceKey}` : undefined}
+          style={{
+            padding: "1px 6px",
+            borderRadius: "4px",
+            fontSize: "10px",
+            fontWeight: 700,
+            fontFamily: "monospace",
+            color: isKeyMatch ? "#22c55e" : "#9ca3af",
+            border: `1px solid ${isKeyMatch ? "#22c55e" : "#374151"}`,
+            boxShadow: isKeyMatch ? "0 0 6px rgba(34, 197, 94, 0.4)" : "none",
+            flexShrink: 0,
+          }}
+        >
+          {musicalKey}
+        </div>
+      )}
+
+      {/* Loudness Badge (LUFS and the auto trim applied on load) */}
+      {title && loudness && (
+        <div
+          title={`True peak ${loudness.truePeakDb.toFixed(1)} dBTP, trimmed to ${LOUDNESS_TARGET_LUFS} LUFS on load`}
+          style={{
+            padding: "1px 6px",
+            borderRadius: "4px",
+            fontSize: "10px",
+            fontWeight: 700,
+            fontFamily: "monospace",
+            color: "#9ca3af",
+            border: "1px solid #374151",
+            flexShrink: 0,
+            whiteSpace: "nowrap",
+          }}
+        >
+          {loudness.lufs.toFixed(1)} LUFS {trimDb > 0 ? "+" : ""}
+          {trimDb.toFixed(1)}dB
+        </div>
+      )}
+
       {/* Status LED */}
       <div
         style={{
@@ -1,5 +1,19 @@
 import React, { useMemo } from "react";
-import { WaveformData } from "../../audio/analysis/waveformGenerator";
+import {
+  DEFAULT_HOT_CUE_COLORS,
+  type BandWaveform,
+  type BeatGrid,
+  type HotCue,
+  type SavedLoop,
+} from "@puid-board/shared";
+import { WaveformData, getBandEnergies } from "../../audio/analysis/waveformGenerator";
+import { getBandMixColor } from "./bandColors";
+
+/** Most grid lines drawn; beats are thinned out (every 2nd, 4th, ...) above this */
+const MAX_GRID_LINES = 64;
+
+/** Beats per bar (downbeat lines are drawn brighter) */
+const BEATS_PER_BAR = 4;
 
 export type WaveformDisplayProps = {
   waveform: WaveformData | null;
@@ -7,10 +21,39 @@ export type WaveformDisplayProps = {
   accentColor: string;
   isPlaying: boolean;
   isLoading?: boolean;
-  hotCuePosition?: number | null; // position in seconds, or null if no hot cue set
-  duration?: number; // track duration in seconds, needed to calculate hot cue position
+  hotCues?: (HotCue | null)[]; // hot cue slots of the deck, null where empty
+  savedLoops?: (SavedLoop | null)[]; // saved loop slots of the deck, null where empty
+  duration?: number; // track duration in seconds, needed to calculate hot cue positions
+  beatGrid?: BeatGrid | null; // beat grid of the loaded track, or null if none
+  bands?: BandWaveform | null; // three-band waveform, colours the bars by frequency content
+  height?: number; // display height in pixels
 };
 
+type GridLine = { positionSec: number; isDownbeat: boolean };
+
+/**
+ * Beat positions across the track, every `stride` beats so the line count
+ * stays under MAX_GRID_LINES. Beats before the first downbeat are included.
+ */
+function getGridLines(grid: BeatGrid, duration: number): GridLine[] {
+  const beatSec = 60 / grid.bpm;
+  const first = Math.ceil(-grid.firstBeatSec / beatSec);
+  const last = Math.floor((duration - grid.firstBeatSec) / beatSec);
+
+  let stride = 1;
+  while ((last - first) / stride > MAX_GRID_LINES) stride *= 2;
+
+  const lines: GridLine[] = [];
+  for (let beat = first; beat <= last; beat++) {
+    if (((beat % stride) + stride) % stride !== 0) continue;
+    lines.push({
+      positionSec: grid.firstBeatSec + beat * beatSec,
+      isDownbeat: ((beat % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR === 0,
+    });
+  }
+  return lines;
+}
+
 /**
  * Waveform Display - shows real audio waveform with playhead
  */
@@ -20,8 +63,12 @@ export function WaveformDisplay({
   accentColor,
   isPlaying,
   isLoading = false,
-  hotCuePosition = null,
+  hotCues = [],
+  savedLoops = [],
   duration = 0,
+  beatGrid = null,
+  bands = null,
+  height: displayHeight = 60,
 }: WaveformDisplayProps) {
   // Calculate bar heights (memoized to prevent recalculation on every render)
   const bars = useMemo(() => {
@@ -43,6 +90,18 @@ export function WaveformDisplay({
     return result;
   }, [waveform]);
 
+  // Bar colours from the band mix (accent colour when there's no band data)
+  const barColors = useMemo(() => {
+    if (!bands) return null;
+    const barSec = bands.low.length / bands.bucketsPerSecond / bars.length;
+    return bars.map((_, i) => getBandMixColor(getBandEnergies(bands, i * barSec, (i + 1) * barSec)));
+  }, [bands, bars]);
+
+  const gridLines = useMemo(
+    () => (beatGrid && duration > 0 ? getGridLines(beatGrid, duration) : []),
+    [beatGrid, duration]
+  );
+
   const playheadPosition = progress * bars.length;
 
   if (isLoading) {
@@ -50,7 +109,7 @@ export function WaveformDisplay({
       <div
         style={{
           width: "100%",
-          height: "60px",
+          height: `${displayHeight}px`,
           display: "flex",
           alignItems: "center",
           justifyContent: "center",
@@ -80,7 +139,7 @@ export function WaveformDisplay({
     <div
       style={{
         width: "100%",
-        height: "60px",
+        height: `${displayHeight}px`,
         display: "flex",
         alignItems: "center",
         gap: "1px",
@@ -101,7 +160,7 @@ export function WaveformDisplay({
             style={{
               flex: 1,
               height: `${height}%`,
-              background: accentColor,
+              background: barColors?.[index] ?? accentColor,
               opacity,
               borderRadius: "1px",
               transition: isPlaying ? "none" : "opacity 0.2s ease",
@@ -110,24 +169,82 @@ export function WaveformDisplay({
         );
       })}
 
-      {/* Hot Cue Marker */}
-      {hotCuePosition !== null && duration > 0 && (
+      {/* Beat Grid */}
+      {gridLines.map((line) => (
         <div
+          key={line.positionSec}
           style={{
             position: "absolute",
-            left: `${(hotCuePosition / duration) * 100}%`,
+            left: `${(line.positionSec / duration) * 100}%`,
             top: 0,
             bottom: 0,
-            width: "3px",
-            background: "#FF3B3B", // Red to match hot cue pad color
-            boxShadow: `0 0 8px #FF3B3B, 0 0 4px #FF3B3B`,
+            width: "1px",
+            background: "#ffffff",
             pointerEvents: "none",
-            opacity: 0.85,
-            zIndex: 1,
+            opacity: line.isDownbeat ? 0.35 : 0.12,
           }}
-          title={`Hot Cue: ${hotCuePosition.toFixed(2)}s`}
         />
-      )}
+      ))}
+
+      {/* Saved Loops */}
+      {duration > 0 &&
+        savedLoops.map((loop, index) =>
+          loop ? (
+            <div
+              key={index}
+              style={{
+                position: "absolute",
+                left: `${(loop.startSec / duration) * 100}%`,
+                width: `${((loop.endSec - loop.startSec) / duration) * 100}%`,
+                bottom: 0,
+                height: "3px",
+                background: "#3BD16F",
+                pointerEvents: "none",
+                opacity: 0.6,
+              }}
+              title={`Loop ${index + 1}: ${loop.startSec.toFixed(2)}s (${loop.lengthBars} bars)`}
+            />
+          ) : null
+        )}
+
+      {/* Hot Cue Markers */}
+      {duration > 0 &&
+        hotCues.map((cue, index) => {
+          if (!cue) return null;
+          const color = cue.color ?? DEFAULT_HOT_CUE_COLORS[index];
+          return (
+            <div
+              key={index}
+              style={{
+                position: "absolute",
+                left: `${(cue.positionSec / duration) * 100}%`,
+                top: 0,
+                bottom: 0,
+                width: "3px",
+                background: color,
+                boxShadow: `0 0 8px ${color}, 0 0 4px ${color}`,
+                pointerEvents: "none",
+                opacity: 0.85,
+                zIndex: 1,
+              }}
+              title={`${cue.label ?? `Hot Cue ${index + 1}`}: ${cue.positionSec.toFixed(2)}s`}
+            >
+              <span
+                style={{
+                  position: "absolute",
+                  top: 0,
+                  left: "4px",
+                  color,
+                  fontSize: "8px",
+                  fontFamily: "monospace",
+                  lineHeight: 1,
+                }}
+              >
+                {index + 1}
+              </span>
+            </div>
+          );
+        })}
 
       {/* Playhead */}
       <div
@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_HOT_CUE_COLORS,
+  type BandWaveform,
+  type BeatGrid,
+  type DeckId,
+  type DeckState,
+  type HotCue,
+  type SavedLoop,
+} from "@puid-board/shared";
+import { getBandEnergies } from "../../audio/analysis/waveformGenerator";
+import { getDeck } from "../../audio/useDeck";
+import { BAND_COLORS } from "./bandColors";
+
+/** Seconds of audio visible at each zoom level */
+const ZOOM_LEVELS = [2, 4, 8, 16, 32] as const;
+
+/** Default zoom level index (8 seconds) */
+const DEFAULT_ZOOM_INDEX = 2;
+
+/** Beats per bar (downbeat lines are drawn brighter) */
+const BEATS_PER_BAR = 4;
+
+/** Minimum interval between DECK_SEEK events while dragging (ms) */
+const SEEK_THROTTLE_MS = 50;
+
+/** Band layers, drawn back to front */
+const BAND_LAYERS = ["low", "mid", "high"] as const;
+
+export type ZoomedWaveformProps = {
+  deckId: DeckId;
+  bands: BandWaveform | null;
+  duration: number; // track duration in seconds
+  accentColor: string;
+  height?: number;
+  beatGrid?: BeatGrid | null;
+  hotCues?: (HotCue | null)[]; // hot cue slots of the deck, null where empty
+  savedLoops?: (SavedLoop | null)[]; // saved loop slots of the deck, null where empty
+  loop?: DeckState["loop"]; // active loop of the deck
+  /** Called with the new position while dragging (throttled) and on release */
+  onSeek?: (positionSec: number) => void;
+  /** Called when a drag starts and after it ends (after the final seek) */
+  onScrubStart?: () => void;
+  onScrubEnd?: () => void;
+};
+
+/**
+ * Zoomed Waveform - scrolling three-band waveform centred on the playhead.
+ * Mouse wheel zooms, dragging scrubs the track.
+ */
+export function ZoomedWaveform({
+  deckId,
+  bands,
+  duration,
+  accentColor,
+  height = 36,
+  beatGrid = null,
+  hotCues = [],
+  savedLoops = [],
+  loop = null,
+  onSeek,
+  onScrubStart,
+  onScrubEnd,
+}: ZoomedWaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const visibleSec = ZOOM_LEVELS[zoomIndex] ?? ZOOM_LEVELS[DEFAULT_ZOOM_INDEX];
+
+  // Redraw every frame around the live playhead
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const canvasHeight = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(canvasHeight * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(canvasHeight * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, canvasHeight);
+      if (width === 0) return;
+
+      const playhead = getDeck(deckId).getCurrentPlayhead();
+      const pxPerSec = width / visibleSec;
+      const startSec = playhead - visibleSec / 2;
+      const endSec = startSec + visibleSec;
+      const toX = (sec: number) => (sec - startSec) * pxPerSec;
+      const centerY = canvasHeight / 2;
+
+      // Band layers (energy per pixel column, mirrored around the centre line)
+      if (bands && duration > 0) {
+        const columns = BAND_LAYERS.map(() => new Float32Array(width));
+        for (let x = 0; x < width; x++) {
+          const sec = startSec + x / pxPerSec;
+          if (sec < 0 || sec >= duration) continue;
+          const energies = getBandEnergies(bands, sec, sec + 1 / pxPerSec);
+          BAND_LAYERS.forEach((band, i) => {
+            columns[i]![x] = energies[band];
+          });
+        }
+        BAND_LAYERS.forEach((band, i) => {
+          ctx.fillStyle = `rgb(${BAND_COLORS[band].join(", ")})`;
+          const column = columns[i]!;
+          for (let x = 0; x < width; x++) {
+            const half = (column[x] ?? 0) * centerY;
+            if (half > 0) ctx.fillRect(x, centerY - half, 1, half * 2);
+          }
+        });
+      }
+
+      // Beat grid
+      if (beatGrid && duration > 0) {
+        const beatSec = 60 / beatGrid.bpm;
+        const first = Math.ceil((Math.max(0, startSec) - beatGrid.firstBeatSec) / beatSec);
+        const last = Math.floor((Math.min(duration, endSec) - beatGrid.firstBeatSec) / beatSec);
+        for (let beat = first; beat <= last; beat++) {
+          const isDownbeat = ((beat % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR === 0;
+          ctx.fillStyle = isDownbeat ? "rgba(255, 255, 255, 0.45)" : "rgba(255, 255, 255, 0.15)";
+          ctx.fillRect(Math.round(toX(beatGrid.firstBeatSec + beat * beatSec)), 0, 1, canvasHeight);
+        }
+      }
+
+      // Saved loops (bar along the bottom) and the active loop (shaded region)
+      ctx.fillStyle = "rgba(59, 209, 111, 0.6)";
+      for (const saved of savedLoops) {
+        if (!saved) continue;
+        ctx.fillRect(toX(saved.startSec), canvasHeight - 3, (saved.endSec - saved.startSec) * pxPerSec, 3);
+      }
+      if (loop) {
+        ctx.fillStyle = loop.enabled ? "rgba(59, 209, 111, 0.25)" : "rgba(59, 209, 111, 0.1)";
+        ctx.fillRect(toX(loop.startSec), 0, (loop.endSec - loop.startSec) * pxPerSec, canvasHeight);
+      }
+
+      // Hot cues
+      ctx.font = "8px monospace";
+      ctx.textBaseline = "top";
+      hotCues.forEach((cue, index) => {
+        if (!cue || cue.positionSec < startSec || cue.positionSec > endSec) return;
+        const color = cue.color ?? DEFAULT_HOT_CUE_COLORS[index] ?? accentColor;
+        const x = Math.round(toX(cue.positionSec));
+        ctx.fillStyle = color;
+        ctx.fillRect(x, 0, 2, canvasHeight);
+        ctx.fillText(String(index + 1), x + 4, 1);
+      });
+
+      // Played part dimmed, playhead in the centre
+      ctx.fillStyle = "rgba(5, 5, 8, 0.35)";
+      ctx.fillRect(0, 0, width / 2, canvasHeight);
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(Math.round(width / 2) - 1, 0, 2, canvasHeight);
+
+      // Zoom level
+      ctx.fillStyle = "rgba(255, 255, 255, 0.4)";
+      ctx.textAlign = "right";
+      ctx.fillText(`${visibleSec}s`, width - 3, 1);
+      ctx.textAlign = "left";
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [deckId, bands, duration, visibleSec, beatGrid, hotCues, savedLoops, loop, accentColor]);
+
+  // Mouse wheel zoom (native listener so the page doesn't scroll)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoomIndex((index) =>
+        Math.max(0, Math.min(ZOOM_LEVELS.length - 1, index + (e.deltaY > 0 ? 1 : -1)))
+      );
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  // Drag to scrub
+  const dragXRef = useRef<number | null>(null);
+  const lastSeekSentRef = useRef(0);
+
+  const sendSeek = useCallback(
+    (force: boolean) => {
+      if (!onSeek) return;
+      const now = performance.now();
+      if (!force && now - lastSeekSentRef.current < SEEK_THROTTLE_MS) return;
+      lastSeekSentRef.current = now;
+      onSeek(getDeck(deckId).getCurrentPlayhead());
+    },
+    [onSeek, deckId]
+  );
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.stopPropagation();
+    if (duration <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragXRef.current = e.clientX;
+    onScrubStart?.();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragXRef.current === null) return;
+    const dx = e.clientX - dragXRef.current;
+    dragXRef.current = e.clientX;
+    const pxPerSec = e.currentTarget.clientWidth / visibleSec;
+    if (dx === 0 || pxPerSec <= 0) return;
+
+    // Dragging the waveform right moves back in time
+    void getDeck(deckId)
+      .scrub(-dx / pxPerSec)
+      .then(() => sendSeek(false));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragXRef.current === null) return;
+    dragXRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    sendSeek(true);
+    onScrubEnd?.();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+      title="Drag to scrub, scroll to zoom"
+      style={{
+        width: "100%",
+        height: `${height}px`,
+        display: "block",
+        flexShrink: 0,
+        background: "rgba(0, 0, 0, 0.3)",
+        borderRadius: "4px",
+        cursor: duration > 0 ? "grab" : "default",
+        touchAction: "none",
+      }}
+    />
+  );
+}
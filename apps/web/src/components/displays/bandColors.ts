@@ -0,0 +1,22 @@
+/** Waveform band colours (low = blue, mid = amber, high = white) */
+export const BAND_COLORS = {
+  low: [47, 107, 255],
+  mid: [255, 140, 59],
+  high: [240, 240, 245],
+} as const;
+
+/**
+ * Colour for a slice of audio, blended by how much energy each band has.
+ * Bass-heavy slices come out blue, vocals/snares amber, hats/cymbals white.
+ */
+export function getBandMixColor(energies: { low: number; mid: number; high: number }): string {
+  const total = energies.low + energies.mid + energies.high;
+  if (total <= 0) return `rgb(${BAND_COLORS.low.join(", ")})`;
+
+  const channel = (i: 0 | 1 | 2) =>
+    Math.round(
+      (BAND_COLORS.low[i] * energies.low + BAND_COLORS.mid[i] * energies.mid + BAND_COLORS.high[i] * energies.high) /
+        total
+    );
+  return `rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`;
+}
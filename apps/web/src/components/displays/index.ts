@@ -5,3 +5,5 @@ export { TimeDisplay } from "./TimeDisplay";
 export { FXDisplay } from "./FXDisplay";
 export { DeckControlPanel } from "./DeckControlPanel";
 export { LoadingBar } from "./LoadingBar";
+export { ZoomedWaveform } from "./ZoomedWaveform";
+export { LevelMeter } from "./LevelMeter";
@@ -51,8 +51,8 @@ export function MockRoomProvider({
     return room.subscribe((newState) => {
       console.log("[MockRoomProvider] State update received:", {
         version: newState.version,
-        fxType: newState.mixer.fx.type,
-        fxEnabled: newState.mixer.fx.enabled,
+        fx1Chain: newState.mixer.fx1.chain.map((slot) => slot.type),
+        fx2Chain: newState.mixer.fx2.chain.map((slot) => slot.type),
       });
       setState(newState);
     });
@@ -60,7 +60,7 @@ export function MockRoomProvider({
 
   const sendEvent = useCallback(
     (event: ClientMutationEvent) => {
-      console.log("[MockRoomProvider] sendEvent called:", event.type, event.type === "FX_SET" || event.type === "FX_TOGGLE" ? JSON.stringify(event.payload) : "");
+      console.log("[MockRoomProvider] sendEvent called:", event.type, event.type.startsWith("FX_") ? JSON.stringify(event.payload) : "");
       room.sendEvent(event);
     },
     [room]
@@ -23,6 +23,7 @@ describe("mockRoom", () => {
       expect(member!.clientId).toBe(clientId);
       expect(member!.name).toBe("Dev A");
       expect(member!.isHost).toBe(true);
+      expect(member!.role).toBe("host");
       expect(state.queue).toHaveLength(0);
       expect(state.deckA.playState).toBe("stopped");
       expect(state.deckB.playState).toBe("stopped");
@@ -105,27 +106,65 @@ describe("mockRoom", () => {
       expect(next.mixer.crossfader).toBe(0.75);
     });
 
-    it("applies FX_SET to change FX type", () => {
-      // Initial state should have FX type "none"
-      expect(state.mixer.fx.type).toBe("none");
+    it("applies FX_CHAIN_SET to change a unit's chain", () => {
+      // Initial state should have an empty chain
+      expect(state.mixer.fx1.chain).toEqual([]);
 
       const next = applyMutation(
         state,
         {
-          type: "FX_SET",
+          type: "FX_CHAIN_SET",
           roomId,
           clientId,
           clientSeq: 1,
-          payload: { param: "type", value: "echo" },
+          payload: {
+            unit: "fx1",
+            chain: [
+              { type: "echo", param: 0.5 },
+              { type: "reverb", param: 0.7 },
+            ],
+          },
         },
         Date.now(),
         "ev-1"
       );
 
       expect(next.version).toBe(state.version + 1);
-      expect(next.mixer.fx.type).toBe("echo");
+      expect(next.mixer.fx1.chain.map((slot) => slot.type)).toEqual(["echo", "reverb"]);
+      expect(next.mixer.fx2.chain).toEqual([]);
       // Original state should not be mutated
-      expect(state.mixer.fx.type).toBe("none");
+      expect(state.mixer.fx1.chain).toEqual([]);
+    });
+
+    it("applies MIXER_SET to a chain slot's param without mutating the previous chain", () => {
+      const withChain = applyMutation(
+        state,
+        {
+          type: "FX_CHAIN_SET",
+          roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { unit: "fx2", chain: [{ type: "filter", param: 0.5 }] },
+        },
+        Date.now(),
+        "ev-1"
+      );
+
+      const next = applyMutation(
+        withChain,
+        {
+          type: "MIXER_SET",
+          roomId,
+          clientId,
+          clientSeq: 2,
+          payload: { controlId: "fx2.chain.0.param", value: 0.9 },
+        },
+        Date.now(),
+        "ev-2"
+      );
+
+      expect(next.mixer.fx2.chain[0]?.param).toBe(0.9);
+      expect(withChain.mixer.fx2.chain[0]?.param).toBe(0.5);
     });
 
     it("applies FX_SET to change wetDry", () => {
@@ -136,19 +175,37 @@ describe("mockRoom", () => {
           roomId,
           clientId,
           clientSeq: 1,
-          payload: { param: "wetDry", value: 0.75 },
+          payload: { unit: "fx2", param: "wetDry", value: 0.75 },
         },
         Date.now(),
         "ev-1"
       );
 
       expect(next.version).toBe(state.version + 1);
-      expect(next.mixer.fx.wetDry).toBe(0.75);
+      expect(next.mixer.fx2.wetDry).toBe(0.75);
+    });
+
+    it("applies FX_SET to reassign a unit", () => {
+      const next = applyMutation(
+        state,
+        {
+          type: "FX_SET",
+          roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { unit: "fx1", param: "assign", value: "master" },
+        },
+        Date.now(),
+        "ev-1"
+      );
+
+      expect(next.mixer.fx1.assign).toBe("master");
+      expect(state.mixer.fx1.assign).toBe("A");
     });
 
     it("applies FX_TOGGLE to enable/disable FX", () => {
       // Initial state should have FX disabled
-      expect(state.mixer.fx.enabled).toBe(false);
+      expect(state.mixer.fx1.enabled).toBe(false);
 
       const next = applyMutation(
         state,
@@ -157,16 +214,96 @@ describe("mockRoom", () => {
           roomId,
           clientId,
           clientSeq: 1,
-          payload: { enabled: true },
+          payload: { unit: "fx1", enabled: true },
         },
         Date.now(),
         "ev-1"
       );
 
       expect(next.version).toBe(state.version + 1);
-      expect(next.mixer.fx.enabled).toBe(true);
+      expect(next.mixer.fx1.enabled).toBe(true);
       // Original state should not be mutated
-      expect(state.mixer.fx.enabled).toBe(false);
+      expect(state.mixer.fx1.enabled).toBe(false);
+    });
+
+    it("applies DECK_SYNC by matching the other deck's tempo", () => {
+      state.deckA = {
+        ...state.deckA,
+        loadedTrackId: "track-1",
+        playState: "playing",
+        beatGrid: { bpm: 128, firstBeatSec: 0 },
+      };
+      state.deckB = {
+        ...state.deckB,
+        loadedTrackId: "track-2",
+        beatGrid: { bpm: 120, firstBeatSec: 0.2 },
+      };
+
+      const next = applyMutation(
+        state,
+        {
+          type: "DECK_SYNC",
+          roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "B", enabled: true },
+        },
+        Date.now(),
+        "ev-1"
+      );
+
+      expect(next.deckB.syncEnabled).toBe(true);
+      expect(next.deckB.playbackRate).toBeCloseTo(128 / 120);
+      expect(state.deckB.syncEnabled).toBe(false);
+    });
+
+    it("applies DECK_CUE snapped to the beat grid when quantized", () => {
+      state.deckA = {
+        ...state.deckA,
+        loadedTrackId: "track-1",
+        durationSec: 180,
+        beatGrid: { bpm: 120, firstBeatSec: 0.1 },
+        quantize: "beat",
+      };
+
+      const next = applyMutation(
+        state,
+        {
+          type: "DECK_CUE",
+          roomId,
+          clientId,
+          clientSeq: 1,
+          payload: { deckId: "A", cuePointSec: 10.2 },
+        },
+        Date.now(),
+        "ev-1"
+      );
+
+      expect(next.deckA.cuePointSec).toBeCloseTo(10.1);
+      expect(next.deckA.playheadSec).toBeCloseTo(10.1);
+    });
+
+    it("applies DECK_HOT_CUE_SET keeping the label when only the position changes", () => {
+      state.deckA = { ...state.deckA, loadedTrackId: "track-1", durationSec: 180 };
+      const setCue = (clientSeq: number, payload: { positionSec: number; label?: string }) =>
+        applyMutation(
+          state,
+          {
+            type: "DECK_HOT_CUE_SET",
+            roomId,
+            clientId,
+            clientSeq,
+            payload: { deckId: "A", index: 2, ...payload },
+          },
+          Date.now(),
+          `ev-${clientSeq}`
+        );
+
+      state = setCue(1, { positionSec: 30, label: "Vocal" });
+      state = setCue(2, { positionSec: 32 });
+
+      expect(state.deckA.hotCues[2]).toEqual({ positionSec: 32, label: "Vocal", color: null });
+      expect(state.deckA.hotCues[0]).toBeNull();
     });
   });
 
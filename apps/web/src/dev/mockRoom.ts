@@ -3,12 +3,24 @@
  * In-memory RoomState, applies events via shared schema, simulates latency + acks.
  */
 
-import type { RoomState, Member, ClientMutationEvent } from "@puid-board/shared";
+import type {
+  RoomState,
+  Member,
+  ClientMutationEvent,
+  FxAssign,
+  FxUnitId,
+  MemberMonitorSetPayload,
+} from "@puid-board/shared";
 import {
   RoomStateSchema,
   createDefaultMixer,
   createDefaultDeck,
   createDefaultSampler,
+  createDefaultMonitor,
+  applyMonitorUpdate,
+  createEmptyHotCues,
+  createEmptySavedLoops,
+  LoopLengthBarsSchema,
   validateClientMutationEvent,
   isValidControlId,
   isValidControlValue,
@@ -16,6 +28,12 @@ import {
   isValidReorderIndex,
   canPlayDeck,
   isValidSeekPosition,
+  getDeckState,
+  getChannelState,
+  getAutoTrimGain,
+  findSyncLeader,
+  getSyncPlaybackRate,
+  quantizePosition,
 } from "@puid-board/shared";
 import type { ClientId, RoomId } from "@puid-board/shared";
 
@@ -37,8 +55,10 @@ export function createInitialRoomState(
     color: MOCK_MEMBER_COLOR,
     joinedAt: now,
     isHost: true,
+    role: "host",
     cursor: null,
     latencyMs: 0,
+    monitor: createDefaultMonitor(),
   };
   return RoomStateSchema.parse({
     roomId,
@@ -71,13 +91,18 @@ export function applyMutation(
     queue: state.queue.map((q) => ({ ...q })),
     deckA: { ...state.deckA },
     deckB: { ...state.deckB },
+    deckC: state.deckC && { ...state.deckC },
+    deckD: state.deckD && { ...state.deckD },
     mixer: {
       ...state.mixer,
       channelA: { ...state.mixer.channelA, eq: { ...state.mixer.channelA.eq } },
       channelB: { ...state.mixer.channelB, eq: { ...state.mixer.channelB.eq } },
-      fx: { ...state.mixer.fx },
+      fx1: { ...state.mixer.fx1 },
+      fx2: { ...state.mixer.fx2 },
+      limiter: { ...state.mixer.limiter },
     },
     controlOwners: { ...state.controlOwners },
+    autoDj: { ...state.autoDj },
   };
 
   switch (event.type) {
@@ -124,7 +149,8 @@ export function applyMutation(
 
     case "DECK_LOAD": {
       const { deckId, trackId, queueItemId } = event.payload;
-      const deck = deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, deckId);
+      if (!deck) return state;
       if (!queueItemExists(state, queueItemId)) return state;
       const item = state.queue.find((q) => q.id === queueItemId)!;
       deck.loadedTrackId = trackId;
@@ -133,26 +159,35 @@ export function applyMutation(
       deck.playheadSec = 0;
       deck.cuePointSec = null;
       deck.durationSec = item.durationSec;
+      deck.detectedKey = item.key ?? null;
+      deck.hotCues = [...(item.hotCues ?? createEmptyHotCues())];
+      deck.savedLoops = [...(item.savedLoops ?? createEmptySavedLoops())];
+      deck.beatGrid = item.beatGrid ? { ...item.beatGrid } : null;
+      const channel = getChannelState(base.mixer, deckId);
+      if (channel && item.loudness) channel.gain = getAutoTrimGain(item.loudness);
       return base;
     }
 
     case "DECK_PLAY": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (!canPlayDeck(deck)) return state;
       deck.playState = "playing";
       return base;
     }
 
     case "DECK_PAUSE": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       deck.playState = "paused";
       return base;
     }
 
     case "DECK_CUE": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (event.payload.cuePointSec !== undefined) {
-        deck.cuePointSec = event.payload.cuePointSec;
+        deck.cuePointSec = quantizePosition(deck, event.payload.cuePointSec);
       }
       if (deck.cuePointSec !== null) {
         deck.playheadSec = deck.cuePointSec;
@@ -162,12 +197,113 @@ export function applyMutation(
     }
 
     case "DECK_SEEK": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (!isValidSeekPosition(deck, event.payload.positionSec)) return state;
       deck.playheadSec = event.payload.positionSec;
       return base;
     }
 
+    case "DECK_BEAT_GRID_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck || !deck.loadedTrackId) return state;
+      const { beatGrid } = event.payload;
+      deck.beatGrid = { ...beatGrid };
+      deck.detectedBpm = beatGrid.bpm;
+      base.queue = base.queue.map((q) =>
+        q.id === deck.loadedQueueItemId ? { ...q, beatGrid: { ...beatGrid } } : q
+      );
+      return base;
+    }
+
+    case "DECK_SYNC": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      if (event.payload.enabled) {
+        // No epochs in the mock: match tempo only
+        const leader = findSyncLeader(base, deck.deckId);
+        if (!leader?.beatGrid || !deck.beatGrid) return state;
+        deck.playbackRate = getSyncPlaybackRate(leader, deck.beatGrid);
+      }
+      deck.syncEnabled = event.payload.enabled;
+      return base;
+    }
+
+    case "DECK_QUANTIZE_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.quantize = event.payload.quantize;
+      return base;
+    }
+
+    case "DECK_KEY_LOCK_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.keyLock = event.payload.enabled;
+      return base;
+    }
+
+    case "DECK_SLIP_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.slip = event.payload.enabled;
+      return base;
+    }
+
+    case "DECK_REVERSE_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.reverse = event.payload.enabled;
+      return base;
+    }
+
+    case "DECK_HOT_CUE_SET": {
+      const { index, positionSec, label, color } = event.payload;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck || !deck.loadedTrackId) return state;
+      if (!isValidSeekPosition(deck, positionSec)) return state;
+      const existing = deck.hotCues[index];
+      const cue = {
+        positionSec: quantizePosition(deck, positionSec),
+        label: label !== undefined ? label : existing?.label ?? null,
+        color: color !== undefined ? color : existing?.color ?? null,
+      };
+      deck.hotCues = deck.hotCues.map((c, i) => (i === index ? cue : c));
+      return base;
+    }
+
+    case "DECK_HOT_CUE_CLEAR": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.hotCues = deck.hotCues.map((c, i) => (i === event.payload.index ? null : c));
+      return base;
+    }
+
+    case "DECK_HOT_CUE_JUMP": {
+      const deck = getDeckState(base, event.payload.deckId);
+      const cue = deck?.hotCues[event.payload.index];
+      if (!deck || !cue) return state;
+      deck.playheadSec = cue.positionSec;
+      deck.playState = "playing";
+      return base;
+    }
+
+    case "DECK_LOOP_SAVE": {
+      const deck = getDeckState(base, event.payload.deckId);
+      const lengthBars = LoopLengthBarsSchema.safeParse(deck?.loop?.lengthBars);
+      if (!deck?.loop?.enabled || !lengthBars.success) return state;
+      const loop = { startSec: deck.loop.startSec, endSec: deck.loop.endSec, lengthBars: lengthBars.data };
+      deck.savedLoops = deck.savedLoops.map((l, i) => (i === event.payload.index ? loop : l));
+      return base;
+    }
+
+    case "DECK_LOOP_DELETE": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.savedLoops = deck.savedLoops.map((l, i) => (i === event.payload.index ? null : l));
+      return base;
+    }
+
     case "QUEUE_ADD": {
       const { trackId, title, durationSec, url, insertAt, source, youtubeVideoId, thumbnailUrl } = event.payload;
       const id = `q-${serverTs}-${Math.random().toString(36).slice(2, 9)}`;
@@ -220,19 +356,36 @@ export function applyMutation(
     }
 
     case "FX_SET": {
-      const { param, value } = event.payload;
-      console.log(`[MockRoom.applyMutation] FX_SET: param=${param}, value=${value}, current type=${base.mixer.fx.type}`);
-      if (param === "type") {
-        base.mixer.fx.type = value as "echo" | "reverb" | "filter" | "none";
-        console.log(`[MockRoom.applyMutation] FX type set to: ${base.mixer.fx.type}`);
-      }
-      else if (param === "wetDry") base.mixer.fx.wetDry = value as number;
-      else if (param === "param") base.mixer.fx.param = value as number;
+      const { unit, param, value } = event.payload;
+      const fx = base.mixer[unit];
+      console.log(`[MockRoom.applyMutation] FX_SET: unit=${unit}, param=${param}, value=${value}`);
+      if (param === "wetDry") fx.wetDry = value as number;
+      else if (param === "assign") fx.assign = value as FxAssign;
+      return base;
+    }
+
+    case "FX_CHAIN_SET": {
+      const { unit, chain } = event.payload;
+      console.log(`[MockRoom.applyMutation] FX_CHAIN_SET: unit=${unit}, chain=${chain.map((slot) => slot.type).join(">")}`);
+      base.mixer[unit].chain = chain.map((slot) => ({ ...slot }));
+      if (chain.length === 0) base.mixer[unit].enabled = false;
       return base;
     }
 
     case "FX_TOGGLE": {
-      base.mixer.fx.enabled = event.payload.enabled;
+      base.mixer[event.payload.unit].enabled = event.payload.enabled;
+      return base;
+    }
+
+    case "LIMITER_TOGGLE": {
+      base.mixer.limiter.enabled = event.payload.enabled;
+      return base;
+    }
+
+    // No beacon timer here: the setting is kept but nothing gets mixed
+    case "AUTO_DJ_SET": {
+      base.autoDj.enabled = event.payload.enabled;
+      base.autoDj.mixBars = event.payload.mixBars ?? base.autoDj.mixBars;
       return base;
     }
 
@@ -247,6 +400,18 @@ function setMixerValue(
   value: number
 ): void {
   const clamp = (min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  // FX chain slot knobs ("fx1.chain.0.param"); copy the chain, it is shared with the previous state
+  const fxSlotMatch = /^(fx[12])\.chain\.(\d)\.param$/.exec(controlId);
+  if (fxSlotMatch) {
+    const fx = mixer[fxSlotMatch[1] as FxUnitId];
+    const index = Number(fxSlotMatch[2]);
+    fx.chain = fx.chain.map((slot, i) =>
+      i === index ? { ...slot, param: clamp(0, 1) } : slot
+    );
+    return;
+  }
+
   switch (controlId) {
     case "crossfader":
       mixer.crossfader = clamp(0, 1);
@@ -290,11 +455,20 @@ function setMixerValue(
     case "channelB.filter":
       mixer.channelB.filter = clamp(0, 1);
       break;
-    case "fx.wetDry":
-      mixer.fx.wetDry = clamp(0, 1);
+    case "fx1.wetDry":
+      mixer.fx1.wetDry = clamp(0, 1);
+      break;
+    case "fx2.wetDry":
+      mixer.fx2.wetDry = clamp(0, 1);
+      break;
+    case "limiter.threshold":
+      mixer.limiter.threshold = clamp(0, 1);
       break;
-    case "fx.param":
-      mixer.fx.param = clamp(0, 1);
+    case "limiter.release":
+      mixer.limiter.release = clamp(0, 1);
+      break;
+    case "limiter.ceiling":
+      mixer.limiter.ceiling = clamp(0, 1);
       break;
     default:
       break;
@@ -337,7 +511,7 @@ export class MockRoom {
 
   /** Send a client mutation; validate, apply after latency, then ack and notify. */
   sendEvent(event: ClientMutationEvent): void {
-    console.log(`[MockRoom] sendEvent called:`, event.type, event.type === "FX_SET" || event.type === "FX_TOGGLE" ? JSON.stringify(event.payload) : "");
+    console.log(`[MockRoom] sendEvent called:`, event.type, event.type.startsWith("FX_") ? JSON.stringify(event.payload) : "");
 
     const result = validateClientMutationEvent(event);
     const clientSeq = event.clientSeq;
@@ -357,11 +531,11 @@ export class MockRoom {
     console.log(`[MockRoom] Event validated successfully, applying after ${MOCK_LATENCY_MS}ms delay`);
 
     setTimeout(() => {
-      const prevFxState = this.state.mixer.fx;
+      const prevFxState = { fx1: this.state.mixer.fx1, fx2: this.state.mixer.fx2 };
       this.state = applyMutation(this.state, result.data, serverTs, eventId);
-      const newFxState = this.state.mixer.fx;
+      const newFxState = { fx1: this.state.mixer.fx1, fx2: this.state.mixer.fx2 };
 
-      if (event.type === "FX_SET" || event.type === "FX_TOGGLE") {
+      if (event.type.startsWith("FX_")) {
         console.log(`[MockRoom] FX state change:`, {
           before: prevFxState,
           after: newFxState,
@@ -377,6 +551,18 @@ export class MockRoom {
     }, MOCK_LATENCY_MS);
   }
 
+  /** Update a member's headphone monitoring (member-level, no ack). */
+  setMonitor(clientId: ClientId, update: MemberMonitorSetPayload): void {
+    this.state = {
+      ...this.state,
+      version: this.state.version + 1,
+      members: this.state.members.map((m) =>
+        m.clientId === clientId ? { ...m, monitor: applyMonitorUpdate(m.monitor, update) } : m
+      ),
+    };
+    this.listeners.forEach((l) => l(this.state));
+  }
+
   /** Next client sequence number (call before sending). */
   nextClientSeq(): number {
     return ++this.clientSeq;
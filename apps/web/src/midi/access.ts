@@ -0,0 +1,134 @@
+/**
+ * Web MIDI access - connected controllers and their messages.
+ *
+ * Access is requested once (the browser may prompt) and kept for the page's
+ * lifetime. Ports are tracked as they are plugged in and out; every input's
+ * note and CC messages go to the message listeners.
+ *
+ * The access is a singleton: one set of ports per browser tab.
+ */
+
+import { parseMidiMessage, type MidiMessage } from "./mapping";
+
+export type MidiStatus = "unsupported" | "idle" | "requesting" | "ready" | "denied";
+
+export interface MidiPort {
+  id: string;
+  name: string;
+}
+
+/** MIDI access state */
+export interface MidiAccessState {
+  status: MidiStatus;
+  inputs: MidiPort[];
+  outputs: MidiPort[];
+}
+
+type MidiStateListener = (state: MidiAccessState) => void;
+type MidiMessageListener = (message: MidiMessage, input: MidiPort) => void;
+
+let midiAccess: MIDIAccess | null = null;
+let accessState: MidiAccessState = {
+  status:
+    typeof navigator !== "undefined" && typeof navigator.requestMIDIAccess === "function"
+      ? "idle"
+      : "unsupported",
+  inputs: [],
+  outputs: [],
+};
+
+const stateListeners = new Set<MidiStateListener>();
+const messageListeners = new Set<MidiMessageListener>();
+
+function setAccessState(next: MidiAccessState): void {
+  accessState = next;
+  for (const listener of stateListeners) {
+    listener(accessState);
+  }
+}
+
+function toPort(port: MIDIPort): MidiPort {
+  return { id: port.id, name: port.name ?? port.id };
+}
+
+/** Re-read the port lists and attach message handlers to new inputs */
+function refreshPorts(): void {
+  if (!midiAccess) return;
+
+  const inputs: MidiPort[] = [];
+  midiAccess.inputs.forEach((input) => {
+    const port = toPort(input);
+    input.onmidimessage = (e) => {
+      if (!e.data) return;
+      const message = parseMidiMessage(e.data);
+      if (!message) return;
+      for (const listener of messageListeners) {
+        listener(message, port);
+      }
+    };
+    inputs.push(port);
+  });
+
+  const outputs: MidiPort[] = [];
+  midiAccess.outputs.forEach((output) => outputs.push(toPort(output)));
+
+  setAccessState({ status: "ready", inputs, outputs });
+}
+
+/**
+ * Get the current MIDI access state.
+ */
+export function getMidiAccessState(): MidiAccessState {
+  return accessState;
+}
+
+/**
+ * Subscribe to MIDI access changes (status, ports).
+ */
+export function subscribeToMidiAccess(listener: MidiStateListener): () => void {
+  stateListeners.add(listener);
+  return () => stateListeners.delete(listener);
+}
+
+/**
+ * Subscribe to note and CC messages from every connected input.
+ */
+export function onMidiMessage(listener: MidiMessageListener): () => void {
+  messageListeners.add(listener);
+  return () => messageListeners.delete(listener);
+}
+
+/**
+ * Request MIDI access (no-op if already granted or unsupported).
+ */
+export async function initMidi(): Promise<void> {
+  if (midiAccess || accessState.status === "unsupported" || accessState.status === "requesting") {
+    return;
+  }
+
+  setAccessState({ ...accessState, status: "requesting" });
+  try {
+    midiAccess = await navigator.requestMIDIAccess({ sysex: false });
+    midiAccess.onstatechange = () => refreshPorts();
+    refreshPorts();
+    console.log(`[midi] Access granted (${accessState.inputs.length} inputs)`);
+  } catch (err) {
+    console.warn("[midi] Access denied:", err);
+    setAccessState({ status: "denied", inputs: [], outputs: [] });
+  }
+}
+
+/**
+ * Send a message to the outputs with this name (every output when null).
+ */
+export function sendMidi(data: number[], outputName: string | null): void {
+  if (!midiAccess) return;
+  midiAccess.outputs.forEach((output) => {
+    if (outputName !== null && output.name !== outputName) return;
+    try {
+      output.send(data);
+    } catch (err) {
+      console.warn(`[midi] Failed to send to ${output.name}:`, err);
+    }
+  });
+}
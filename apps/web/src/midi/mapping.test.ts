@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { createInitialRoomState } from "../dev/mockRoom";
+import {
+  controlToMidiValue,
+  decodeRelative,
+  encodeMidiMessage,
+  findBinding,
+  getFeedbackValue,
+  learnBinding,
+  midiToControlValue,
+  parseMidiMessage,
+  type MidiProfile,
+} from "./mapping";
+import { parseStoredProfiles } from "./profiles";
+
+const emptyProfile: MidiProfile = { id: "p1", name: "Test", outputName: null, bindings: [] };
+
+describe("MIDI mapping", () => {
+  it("parses notes and CCs, treating note-on velocity 0 as note-off", () => {
+    expect(parseMidiMessage([0x91, 36, 100])).toEqual({ kind: "note", channel: 1, number: 36, value: 100 });
+    expect(parseMidiMessage([0x81, 36, 64])).toEqual({ kind: "note", channel: 1, number: 36, value: 0 });
+    expect(parseMidiMessage([0xb0, 7, 127])).toEqual({ kind: "cc", channel: 0, number: 7, value: 127 });
+    // Clock and pitch bend are ignored
+    expect(parseMidiMessage([0xf8])).toBeNull();
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();
+
+    expect(encodeMidiMessage({ kind: "note", channel: 2, number: 40, value: 127 })).toEqual([0x92, 40, 127]);
+  });
+
+  it("decodes each relative encoder mode", () => {
+    expect(decodeRelative(1, "relative-twos")).toBe(1);
+    expect(decodeRelative(127, "relative-twos")).toBe(-1);
+    expect(decodeRelative(65, "relative-offset")).toBe(1);
+    expect(decodeRelative(62, "relative-offset")).toBe(-2);
+    expect(decodeRelative(3, "relative-signbit")).toBe(3);
+    expect(decodeRelative(67, "relative-signbit")).toBe(-3);
+    expect(decodeRelative(100, "absolute")).toBe(0);
+  });
+
+  it("puts MIDI 64 exactly on a control's center", () => {
+    expect(midiToControlValue(0, -1, 1)).toBe(-1);
+    expect(midiToControlValue(64, -1, 1)).toBe(0);
+    expect(midiToControlValue(127, -1, 1)).toBe(1);
+    expect(controlToMidiValue(0, -1, 1)).toBe(64);
+    expect(controlToMidiValue(1, 0, 1)).toBe(127);
+  });
+
+  it("learning replaces existing bindings for the same input or target", () => {
+    const knob = { kind: "cc" as const, channel: 0, number: 20, value: 10 };
+    let profile = learnBinding(emptyProfile, knob, { kind: "control", controlId: "crossfader" });
+    profile = learnBinding(profile, knob, { kind: "control", controlId: "masterVolume" });
+    expect(profile.bindings).toHaveLength(1);
+    expect(findBinding(profile, knob)?.target).toEqual({ kind: "control", controlId: "masterVolume" });
+
+    const other = { ...knob, number: 21 };
+    profile = learnBinding(profile, other, { kind: "control", controlId: "masterVolume" });
+    expect(profile.bindings).toHaveLength(1);
+    expect(findBinding(profile, knob)).toBeNull();
+
+    // Jog wheels default to relative encoders
+    profile = learnBinding(profile, knob, { kind: "control", controlId: "deckA.jog" });
+    expect(findBinding(profile, knob)?.encoder).toBe("relative-twos");
+  });
+
+  it("derives LED feedback from room state", () => {
+    const state = createInitialRoomState("room-1", "MIDI1", "client-1");
+    const play = { kind: "note" as const, channel: 0, number: 11, value: 127 };
+    let profile = learnBinding(emptyProfile, play, { kind: "deck", deckId: "A", action: "play" });
+    profile = learnBinding(profile, { ...play, number: 1 }, { kind: "hotCue", deckId: "A", index: 0 });
+    profile = learnBinding(profile, { kind: "cc", channel: 0, number: 7, value: 0 }, { kind: "control", controlId: "crossfader" });
+    const [playBinding, cueBinding, faderBinding] = profile.bindings;
+
+    expect(getFeedbackValue(playBinding!, state)).toBe(0);
+    expect(getFeedbackValue(cueBinding!, state)).toBe(0);
+    expect(getFeedbackValue(faderBinding!, state)).toBe(controlToMidiValue(state.mixer.crossfader, 0, 1));
+
+    state.deckA.playState = "playing";
+    state.deckA.hotCues[0] = { positionSec: 12, label: null, color: null };
+    expect(getFeedbackValue(playBinding!, state)).toBe(127);
+    expect(getFeedbackValue(cueBinding!, state)).toBe(127);
+  });
+
+  it("drops malformed stored profiles", () => {
+    expect(parseStoredProfiles(null)).toEqual({ profiles: [], activeProfileId: null });
+    expect(parseStoredProfiles("not json").profiles).toEqual([]);
+
+    const raw = JSON.stringify({
+      profiles: [emptyProfile, { id: 3 }],
+      activeProfileId: "missing",
+    });
+    expect(parseStoredProfiles(raw)).toEqual({ profiles: [emptyProfile], activeProfileId: "p1" });
+  });
+
+  it("drops malformed stored bindings and keeps the rest of the profile", () => {
+    const good = {
+      input: { kind: "cc", channel: 0, number: 7 },
+      target: { kind: "control", controlId: "crossfader" },
+      encoder: "absolute",
+    };
+    const raw = JSON.stringify({
+      profiles: [
+        {
+          ...emptyProfile,
+          bindings: [
+            good,
+            { input: { kind: "cc", channel: 0 }, target: good.target, encoder: "absolute" },
+            { input: good.input, target: { kind: "deck", deckId: "A" }, encoder: "absolute" },
+            { input: good.input, encoder: "absolute" },
+            null,
+          ],
+        },
+      ],
+      activeProfileId: "p1",
+    });
+
+    expect(parseStoredProfiles(raw)).toEqual({
+      profiles: [{ ...emptyProfile, bindings: [good] }],
+      activeProfileId: "p1",
+    });
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * MIDI mapping - turns controller messages into board actions.
+ *
+ * A mapping profile binds an input (note or CC on a channel) to a target:
+ * - control: a control ID from controlIds.ts (mixer/FX knobs and faders via
+ *   MIXER_SET, deckX.tempo via DECK_TEMPO_SET, deckX.jog scratches or nudges)
+ * - deck: a transport button (play, cue, sync, key lock)
+ * - hotCue: a hot cue pad (sets an empty slot, jumps to a set one)
+ * - sampler: a sampler pad
+ *
+ * Knobs can be absolute (0-127) or relative encoders, which send signed
+ * ticks in one of the common encodings. Everything here is pure so it can be
+ * shared by the controller hook and the mapping editor.
+ */
+
+import {
+  ALL_CONTROL_IDS,
+  HOT_CUE_COUNT,
+  getChannelState,
+  getControlBounds,
+  getControlDeckId,
+  getDeckIds,
+  getDeckState,
+  getFxUnitState,
+  isValidControlId,
+  type DeckCount,
+  type DeckId,
+  type FxUnitId,
+  type RoomState,
+} from "@puid-board/shared";
+import type { SampleSlot } from "@/audio/sampler";
+
+/** Tempo fader range: 0 = -8%, 1 = +8% (same as the on-screen fader) */
+const TEMPO_RANGE = 0.08;
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export type MidiInputKind = "note" | "cc";
+
+/** A decoded note or CC message (note off is a note with value 0) */
+export interface MidiMessage {
+  kind: MidiInputKind;
+  /** MIDI channel (0-15) */
+  channel: number;
+  /** Note or controller number (0-127) */
+  number: number;
+  /** Velocity or controller value (0-127) */
+  value: number;
+}
+
+/**
+ * Decode a raw MIDI message. Returns null for anything but note on/off and
+ * control change (clock, sysex, pitch bend...).
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  const status = data[0];
+  const number = data[1];
+  const value = data[2];
+  if (status === undefined || number === undefined || value === undefined) return null;
+
+  const type = status & 0xf0;
+  const channel = status & 0x0f;
+  switch (type) {
+    case 0x80:
+      return { kind: "note", channel, number, value: 0 };
+    case 0x90:
+      return { kind: "note", channel, number, value };
+    case 0xb0:
+      return { kind: "cc", channel, number, value };
+    default:
+      return null;
+  }
+}
+
+/** Encode a note or CC message (used for LED feedback) */
+export function encodeMidiMessage(message: MidiMessage): number[] {
+  const status = (message.kind === "note" ? 0x90 : 0xb0) | (message.channel & 0x0f);
+  return [status, message.number & 0x7f, Math.round(Math.max(0, Math.min(127, message.value)))];
+}
+
+// ============================================================================
+// Encoders
+// ============================================================================
+
+/**
+ * How a knob or jog wheel reports movement.
+ * - absolute: position 0-127
+ * - relative-twos: 1..63 clockwise, 127..65 counter-clockwise (two's complement)
+ * - relative-offset: 64 is rest, above clockwise, below counter-clockwise
+ * - relative-signbit: 1..63 clockwise, 65..127 counter-clockwise (bit 6 is the sign)
+ */
+export type EncoderMode = "absolute" | "relative-twos" | "relative-offset" | "relative-signbit";
+
+export const ENCODER_MODES: { mode: EncoderMode; label: string }[] = [
+  { mode: "absolute", label: "Absolute" },
+  { mode: "relative-twos", label: "Relative (2's complement)" },
+  { mode: "relative-offset", label: "Relative (offset 64)" },
+  { mode: "relative-signbit", label: "Relative (sign bit)" },
+];
+
+/** Decode a relative encoder value into signed ticks (0 for absolute mode) */
+export function decodeRelative(value: number, mode: EncoderMode): number {
+  switch (mode) {
+    case "relative-twos":
+      return value < 64 ? value : value - 128;
+    case "relative-offset":
+      return value - 64;
+    case "relative-signbit":
+      return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+    case "absolute":
+      return 0;
+  }
+}
+
+/**
+ * Scale a 0-127 value onto a control's range.
+ * 64 lands exactly on the middle, so centered EQ/gain/filter knobs are neutral.
+ */
+export function midiToControlValue(value: number, min: number, max: number): number {
+  const mid = (min + max) / 2;
+  if (value <= 64) return min + (value / 64) * (mid - min);
+  return mid + ((value - 64) / 63) * (max - mid);
+}
+
+/** Inverse of midiToControlValue (for LED rings and motor faders) */
+export function controlToMidiValue(value: number, min: number, max: number): number {
+  const mid = (min + max) / 2;
+  const midi = value <= mid ? ((value - min) / (mid - min)) * 64 : 64 + ((value - mid) / (max - mid)) * 63;
+  return Math.round(Math.max(0, Math.min(127, midi)));
+}
+
+/** Move a control by encoder ticks (one tick is 1/128 of its range) */
+export function applyEncoderTicks(current: number, ticks: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, current + (ticks * (max - min)) / 128));
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+export type DeckButtonAction = "play" | "cue" | "sync" | "keyLock";
+
+/** What a binding drives */
+export type MidiTarget =
+  | { kind: "control"; controlId: string }
+  | { kind: "deck"; deckId: DeckId; action: DeckButtonAction }
+  | { kind: "hotCue"; deckId: DeckId; index: number }
+  | { kind: "sampler"; slot: SampleSlot };
+
+/** A controller input bound to a target */
+export interface MidiBinding {
+  input: { kind: MidiInputKind; channel: number; number: number };
+  target: MidiTarget;
+  encoder: EncoderMode;
+}
+
+/** A named set of bindings for one controller */
+export interface MidiProfile {
+  id: string;
+  name: string;
+  /** Output port that receives LED feedback (null = every output) */
+  outputName: string | null;
+  bindings: MidiBinding[];
+}
+
+const DECK_ACTION_LABELS: Record<DeckButtonAction, string> = {
+  play: "Play/Pause",
+  cue: "Cue",
+  sync: "Sync",
+  keyLock: "Key Lock",
+};
+
+/** Stable key of a target (for lookups and React keys) */
+export function getMidiTargetKey(target: MidiTarget): string {
+  switch (target.kind) {
+    case "control":
+      return `control:${target.controlId}`;
+    case "deck":
+      return `deck:${target.deckId}:${target.action}`;
+    case "hotCue":
+      return `hotCue:${target.deckId}:${target.index}`;
+    case "sampler":
+      return `sampler:${target.slot}`;
+  }
+}
+
+/** Human-readable target name */
+export function getMidiTargetLabel(target: MidiTarget): string {
+  switch (target.kind) {
+    case "control":
+      return target.controlId;
+    case "deck":
+      return `Deck ${target.deckId} ${DECK_ACTION_LABELS[target.action]}`;
+    case "hotCue":
+      return `Deck ${target.deckId} Hot Cue ${target.index + 1}`;
+    case "sampler":
+      return `Sampler ${target.slot + 1}`;
+  }
+}
+
+/** Human-readable input name, e.g. "CC 7 ch 1" */
+export function getMidiInputLabel(input: MidiBinding["input"]): string {
+  return `${input.kind === "cc" ? "CC" : "Note"} ${input.number} ch ${input.channel + 1}`;
+}
+
+/** Jog wheels default to a relative encoding, everything else to absolute */
+export function getDefaultEncoder(target: MidiTarget): EncoderMode {
+  return target.kind === "control" && target.controlId.endsWith(".jog") ? "relative-twos" : "absolute";
+}
+
+/** Everything that can be mapped in a room with this many decks */
+export function getMidiTargets(deckCount: DeckCount): MidiTarget[] {
+  const deckIds = getDeckIds(deckCount);
+  const targets: MidiTarget[] = ALL_CONTROL_IDS.filter((controlId) => {
+    const deckId = getControlDeckId(controlId);
+    return deckId === null || deckIds.includes(deckId);
+  }).map((controlId) => ({ kind: "control", controlId }));
+
+  for (const deckId of deckIds) {
+    for (const action of Object.keys(DECK_ACTION_LABELS) as DeckButtonAction[]) {
+      targets.push({ kind: "deck", deckId, action });
+    }
+    for (let index = 0; index < HOT_CUE_COUNT; index++) {
+      targets.push({ kind: "hotCue", deckId, index });
+    }
+  }
+  for (const slot of [0, 1, 2, 3] as SampleSlot[]) {
+    targets.push({ kind: "sampler", slot });
+  }
+  return targets;
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/** Check a channel/note/controller/slot number read back from storage */
+function isIntInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isDeckId(value: unknown): value is DeckId {
+  return getDeckIds(4).includes(value as DeckId);
+}
+
+function isMidiTarget(value: unknown): value is MidiTarget {
+  if (typeof value !== "object" || value === null) return false;
+  const target = value as Record<string, unknown>;
+  switch (target.kind) {
+    case "control":
+      return typeof target.controlId === "string" && isValidControlId(target.controlId);
+    case "deck":
+      return isDeckId(target.deckId) && typeof target.action === "string" && target.action in DECK_ACTION_LABELS;
+    case "hotCue":
+      return isDeckId(target.deckId) && isIntInRange(target.index, 0, HOT_CUE_COUNT - 1);
+    case "sampler":
+      return isIntInRange(target.slot, 0, 3);
+    default:
+      return false;
+  }
+}
+
+/** Check the shape of a binding read back from storage */
+export function isMidiBinding(value: unknown): value is MidiBinding {
+  if (typeof value !== "object" || value === null) return false;
+  const { input, target, encoder } = value as Record<string, unknown>;
+  if (typeof input !== "object" || input === null) return false;
+  const { kind, channel, number } = input as Record<string, unknown>;
+  return (
+    (kind === "note" || kind === "cc") &&
+    isIntInRange(channel, 0, 15) &&
+    isIntInRange(number, 0, 127) &&
+    isMidiTarget(target) &&
+    ENCODER_MODES.some((m) => m.mode === encoder)
+  );
+}
+
+function isSameInput(input: MidiBinding["input"], message: MidiMessage): boolean {
+  return (
+    input.kind === message.kind &&
+    input.channel === message.channel &&
+    input.number === message.number
+  );
+}
+
+/** Find the binding for an incoming message */
+export function findBinding(profile: MidiProfile, message: MidiMessage): MidiBinding | null {
+  return profile.bindings.find((b) => isSameInput(b.input, message)) ?? null;
+}
+
+/** Find the binding for a target */
+export function findTargetBinding(profile: MidiProfile, target: MidiTarget): MidiBinding | null {
+  const key = getMidiTargetKey(target);
+  return profile.bindings.find((b) => getMidiTargetKey(b.target) === key) ?? null;
+}
+
+/**
+ * Bind the input a message came from to a target (MIDI learn).
+ * The input and the target each end up in exactly one binding.
+ */
+export function learnBinding(
+  profile: MidiProfile,
+  message: MidiMessage,
+  target: MidiTarget,
+  encoder: EncoderMode = getDefaultEncoder(target)
+): MidiProfile {
+  const key = getMidiTargetKey(target);
+  const bindings = profile.bindings.filter(
+    (b) => !isSameInput(b.input, message) && getMidiTargetKey(b.target) !== key
+  );
+  bindings.push({
+    input: { kind: message.kind, channel: message.channel, number: message.number },
+    target,
+    encoder,
+  });
+  return { ...profile, bindings };
+}
+
+/** Remove a target's binding */
+export function removeBinding(profile: MidiProfile, target: MidiTarget): MidiProfile {
+  const key = getMidiTargetKey(target);
+  return { ...profile, bindings: profile.bindings.filter((b) => getMidiTargetKey(b.target) !== key) };
+}
+
+/** Change how a target's knob is read */
+export function setBindingEncoder(
+  profile: MidiProfile,
+  target: MidiTarget,
+  encoder: EncoderMode
+): MidiProfile {
+  const key = getMidiTargetKey(target);
+  return {
+    ...profile,
+    bindings: profile.bindings.map((b) => (getMidiTargetKey(b.target) === key ? { ...b, encoder } : b)),
+  };
+}
+
+// ============================================================================
+// Room State
+// ============================================================================
+
+/** Tempo fader position (0-1) of a playback rate */
+export function playbackRateToTempoValue(rate: number): number {
+  return (rate - (1 - TEMPO_RANGE)) / (2 * TEMPO_RANGE);
+}
+
+/** Playback rate of a tempo fader position (0-1) */
+export function tempoValueToPlaybackRate(value: number): number {
+  return 1 - TEMPO_RANGE + value * 2 * TEMPO_RANGE;
+}
+
+/** Value range of a mappable control */
+export function getMidiControlBounds(controlId: string): { min: number; max: number } {
+  return isValidControlId(controlId) ? getControlBounds(controlId) : { min: 0, max: 1 };
+}
+
+/**
+ * Current value of a control in room state (null for jog wheels and controls
+ * the room doesn't have). Tempo is reported as its 0-1 fader position.
+ */
+export function getControlValue(state: RoomState, controlId: string): number | null {
+  const { mixer } = state;
+  if (controlId === "crossfader") return mixer.crossfader;
+  if (controlId === "masterVolume") return mixer.masterVolume;
+
+  const channelMatch = /^channel([A-D])\.(.+)$/.exec(controlId);
+  if (channelMatch) {
+    const channel = getChannelState(mixer, channelMatch[1] as DeckId);
+    if (!channel) return null;
+    switch (channelMatch[2]) {
+      case "fader":
+        return channel.fader;
+      case "gain":
+        return channel.gain;
+      case "eq.low":
+        return channel.eq.low;
+      case "eq.mid":
+        return channel.eq.mid;
+      case "eq.high":
+        return channel.eq.high;
+      case "filter":
+        return channel.filter;
+    }
+    return null;
+  }
+
+  const fxMatch = /^(fx[12])\.(?:wetDry|chain\.(\d)\.param)$/.exec(controlId);
+  if (fxMatch) {
+    const fx = getFxUnitState(mixer, fxMatch[1] as FxUnitId);
+    if (fxMatch[2] === undefined) return fx.wetDry;
+    return fx.chain[Number(fxMatch[2])]?.param ?? null;
+  }
+
+  const tempoMatch = /^deck([A-D])\.tempo$/.exec(controlId);
+  if (tempoMatch) {
+    const deck = getDeckState(state, tempoMatch[1] as DeckId);
+    return deck ? playbackRateToTempoValue(deck.playbackRate) : null;
+  }
+
+  return null;
+}
+
+/**
+ * LED feedback value (0-127) for a binding, or null if it has none.
+ * Buttons light while their state is on (playing, cued, synced, cue set);
+ * absolute knobs report the control's position.
+ */
+export function getFeedbackValue(binding: MidiBinding, state: RoomState): number | null {
+  const { target } = binding;
+  switch (target.kind) {
+    case "control": {
+      if (binding.encoder !== "absolute") return null;
+      const value = getControlValue(state, target.controlId);
+      if (value === null) return null;
+      const { min, max } = getMidiControlBounds(target.controlId);
+      return controlToMidiValue(value, min, max);
+    }
+    case "deck": {
+      const deck = getDeckState(state, target.deckId);
+      if (!deck) return null;
+      const on =
+        target.action === "play"
+          ? deck.playState === "playing"
+          : target.action === "cue"
+            ? deck.playState === "cued"
+            : target.action === "sync"
+              ? deck.syncEnabled
+              : deck.keyLock;
+      return on ? 127 : 0;
+    }
+    case "hotCue": {
+      const deck = getDeckState(state, target.deckId);
+      if (!deck) return null;
+      return deck.hotCues[target.index] ? 127 : 0;
+    }
+    case "sampler":
+      return null;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * MIDI mapping profiles - stored per user in localStorage.
+ *
+ * Each user keeps their own profiles (one per controller, typically) and an
+ * active profile. The store also holds the MIDI learn target: while armed,
+ * the next message from the controller is bound to it instead of acting.
+ */
+
+import {
+  isMidiBinding,
+  learnBinding,
+  removeBinding,
+  setBindingEncoder,
+  type EncoderMode,
+  type MidiMessage,
+  type MidiProfile,
+  type MidiTarget,
+} from "./mapping";
+
+const STORAGE_KEY = "puid-midi-profiles";
+
+/** Profile store state */
+export interface MidiProfileState {
+  profiles: MidiProfile[];
+  activeProfileId: string | null;
+  /** Target waiting for a controller message (MIDI learn), null when not learning */
+  learnTarget: MidiTarget | null;
+}
+
+type ProfileListener = (state: MidiProfileState) => void;
+
+let profileState: MidiProfileState | null = null;
+const listeners = new Set<ProfileListener>();
+
+/** Generate a profile ID */
+function generateProfileId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/** Create an empty profile */
+export function createMidiProfile(name: string): MidiProfile {
+  return { id: generateProfileId(), name, outputName: null, bindings: [] };
+}
+
+/** Parse stored profiles, dropping anything malformed */
+export function parseStoredProfiles(raw: string | null): Pick<MidiProfileState, "profiles" | "activeProfileId"> {
+  const empty = { profiles: [], activeProfileId: null };
+  if (!raw) return empty;
+
+  try {
+    const data = JSON.parse(raw) as { profiles?: unknown; activeProfileId?: unknown };
+    if (!Array.isArray(data.profiles)) return empty;
+
+    const profiles = data.profiles
+      .filter(
+        (p): p is MidiProfile =>
+          typeof p === "object" &&
+          p !== null &&
+          typeof p.id === "string" &&
+          typeof p.name === "string" &&
+          Array.isArray(p.bindings)
+      )
+      .map((p) => ({ ...p, bindings: p.bindings.filter(isMidiBinding) }));
+    const activeProfileId = profiles.some((p) => p.id === data.activeProfileId)
+      ? (data.activeProfileId as string)
+      : (profiles[0]?.id ?? null);
+    return { profiles, activeProfileId };
+  } catch {
+    return empty;
+  }
+}
+
+function loadState(): MidiProfileState {
+  const raw = typeof window === "undefined" ? null : localStorage.getItem(STORAGE_KEY);
+  return { ...parseStoredProfiles(raw), learnTarget: null };
+}
+
+function setProfileState(next: MidiProfileState): void {
+  const persist =
+    !profileState ||
+    next.profiles !== profileState.profiles ||
+    next.activeProfileId !== profileState.activeProfileId;
+
+  profileState = next;
+  if (persist && typeof window !== "undefined") {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ profiles: next.profiles, activeProfileId: next.activeProfileId })
+    );
+  }
+  for (const listener of listeners) {
+    listener(profileState);
+  }
+}
+
+function updateActiveProfile(update: (profile: MidiProfile) => MidiProfile): void {
+  const state = getMidiProfileState();
+  if (!state.activeProfileId) return;
+  setProfileState({
+    ...state,
+    profiles: state.profiles.map((p) => (p.id === state.activeProfileId ? update(p) : p)),
+  });
+}
+
+/**
+ * Get the profile store state (loaded from localStorage on first use).
+ */
+export function getMidiProfileState(): MidiProfileState {
+  if (!profileState) {
+    profileState = loadState();
+  }
+  return profileState;
+}
+
+/**
+ * Get the active profile (null if the user has none).
+ */
+export function getActiveMidiProfile(): MidiProfile | null {
+  const state = getMidiProfileState();
+  return state.profiles.find((p) => p.id === state.activeProfileId) ?? null;
+}
+
+/**
+ * Subscribe to profile and learn changes.
+ */
+export function subscribeToMidiProfiles(listener: ProfileListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Add a profile and make it active.
+ */
+export function addMidiProfile(name: string): MidiProfile {
+  const profile = createMidiProfile(name);
+  const state = getMidiProfileState();
+  setProfileState({ ...state, profiles: [...state.profiles, profile], activeProfileId: profile.id });
+  return profile;
+}
+
+/**
+ * Delete a profile (the first remaining one becomes active).
+ */
+export function deleteMidiProfile(id: string): void {
+  const state = getMidiProfileState();
+  const profiles = state.profiles.filter((p) => p.id !== id);
+  const activeProfileId =
+    state.activeProfileId === id ? (profiles[0]?.id ?? null) : state.activeProfileId;
+  setProfileState({ ...state, profiles, activeProfileId, learnTarget: null });
+}
+
+/**
+ * Switch the active profile.
+ */
+export function setActiveMidiProfile(id: string): void {
+  const state = getMidiProfileState();
+  if (!state.profiles.some((p) => p.id === id)) return;
+  setProfileState({ ...state, activeProfileId: id, learnTarget: null });
+}
+
+/**
+ * Rename the active profile or pick its LED feedback output.
+ */
+export function updateActiveMidiProfile(update: Partial<Pick<MidiProfile, "name" | "outputName">>): void {
+  updateActiveProfile((profile) => ({ ...profile, ...update }));
+}
+
+/**
+ * Arm MIDI learn for a target (null to cancel).
+ */
+export function setMidiLearnTarget(target: MidiTarget | null): void {
+  setProfileState({ ...getMidiProfileState(), learnTarget: target });
+}
+
+/**
+ * Bind a message's input to the armed learn target and disarm.
+ * Creates a profile if the user has none. Returns false if not learning.
+ */
+export function completeMidiLearn(message: MidiMessage): boolean {
+  const target = getMidiProfileState().learnTarget;
+  if (!target) return false;
+
+  if (!getActiveMidiProfile()) {
+    addMidiProfile("My Controller");
+  }
+  updateActiveProfile((profile) => learnBinding(profile, message, target));
+  setProfileState({ ...getMidiProfileState(), learnTarget: null });
+  return true;
+}
+
+/**
+ * Remove a target's binding from the active profile.
+ */
+export function clearMidiBinding(target: MidiTarget): void {
+  updateActiveProfile((profile) => removeBinding(profile, target));
+}
+
+/**
+ * Change how a bound knob is read in the active profile.
+ */
+export function setMidiBindingEncoder(target: MidiTarget, encoder: EncoderMode): void {
+  updateActiveProfile((profile) => setBindingEncoder(profile, target, encoder));
+}
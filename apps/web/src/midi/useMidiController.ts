@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ClientMutationEvent, DeckId, RoomState } from "@puid-board/shared";
+import { THROTTLE, getDeckState, quantizePosition } from "@puid-board/shared";
+import { getDeck } from "@/audio/useDeck";
+import { playSample } from "@/audio/sampler";
+import {
+  getMidiAccessState,
+  initMidi,
+  onMidiMessage,
+  sendMidi,
+  subscribeToMidiAccess,
+  type MidiAccessState,
+} from "./access";
+import {
+  applyEncoderTicks,
+  decodeRelative,
+  encodeMidiMessage,
+  findBinding,
+  getControlValue,
+  getFeedbackValue,
+  getMidiControlBounds,
+  midiToControlValue,
+  tempoValueToPlaybackRate,
+  type MidiBinding,
+  type MidiMessage,
+} from "./mapping";
+import {
+  completeMidiLearn,
+  getActiveMidiProfile,
+  getMidiProfileState,
+  subscribeToMidiProfiles,
+  type MidiProfileState,
+} from "./profiles";
+
+/** Jog wheel settings */
+const JOG = {
+  /** Seconds scrubbed per encoder tick while paused */
+  SECONDS_PER_TICK: 0.02,
+  /** Pitch bend per tick while playing (see Deck.nudge) */
+  BEND_PER_TICK: 0.1,
+  /** Bend is released after this long without ticks */
+  RELEASE_MS: 120,
+  /** Minimum ms between DECK_SEEK events while scrubbing */
+  SEEK_THROTTLE_MS: 50,
+} as const;
+
+/** Locally moved encoder values are trusted over room state for this long */
+const LOCAL_VALUE_TTL_MS = 500;
+
+export type MidiControllerProps = {
+  state: RoomState;
+  clientId: string;
+  sendEvent: (e: ClientMutationEvent) => void;
+  nextSeq: () => number;
+  /** Ignore controller input (read-only listeners); LEDs still follow the room */
+  disabled?: boolean;
+};
+
+/**
+ * Hook for MIDI controller input.
+ * Dispatches mapped messages to the same events as the on-screen controls,
+ * completes MIDI learn, and mirrors room state onto the controller's LEDs.
+ */
+export function useMidiController({
+  state,
+  clientId,
+  sendEvent,
+  nextSeq,
+  disabled = false,
+}: MidiControllerProps): void {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const propsRef = useRef({ clientId, sendEvent, nextSeq, disabled });
+  propsRef.current = { clientId, sendEvent, nextSeq, disabled };
+
+  const [profileState, setProfileState] = useState<MidiProfileState>(getMidiProfileState);
+  const [accessState, setAccessState] = useState<MidiAccessState>(getMidiAccessState);
+
+  useEffect(() => subscribeToMidiProfiles(setProfileState), []);
+  useEffect(() => subscribeToMidiAccess(setAccessState), []);
+
+  // Reconnect a controller the user has mapped before
+  useEffect(() => {
+    if (getActiveMidiProfile()) {
+      initMidi();
+    }
+  }, []);
+
+  // Handle controller input
+  useEffect(() => {
+    const lastSend = new Map<string, number>();
+    const pendingSends = new Map<string, ReturnType<typeof setTimeout>>();
+    const localValues = new Map<string, { value: number; at: number }>();
+    const lastAbsolute = new Map<string, number>();
+    const jogReleaseTimers = new Map<DeckId, ReturnType<typeof setTimeout>>();
+
+    const send = (event: Omit<ClientMutationEvent, "roomId" | "clientId" | "clientSeq">) => {
+      const { clientId, sendEvent, nextSeq } = propsRef.current;
+      sendEvent({
+        ...event,
+        roomId: stateRef.current.roomId,
+        clientId,
+        clientSeq: nextSeq(),
+      } as ClientMutationEvent);
+    };
+
+    // Throttle continuous sends, but always deliver the final value
+    const sendThrottled = (key: string, intervalMs: number, sendFn: () => void) => {
+      const pending = pendingSends.get(key);
+      if (pending) clearTimeout(pending);
+
+      const wait = intervalMs - (performance.now() - (lastSend.get(key) ?? 0));
+      const run = () => {
+        pendingSends.delete(key);
+        lastSend.set(key, performance.now());
+        sendFn();
+      };
+      if (wait <= 0) {
+        run();
+      } else {
+        pendingSends.set(key, setTimeout(run, wait));
+      }
+    };
+
+    // New control position from an absolute knob or encoder ticks
+    const nextControlValue = (binding: MidiBinding, controlId: string, value: number): number | null => {
+      const { min, max } = getMidiControlBounds(controlId);
+      if (binding.encoder === "absolute") {
+        return midiToControlValue(value, min, max);
+      }
+      const local = localValues.get(controlId);
+      const current =
+        local && performance.now() - local.at < LOCAL_VALUE_TTL_MS
+          ? local.value
+          : getControlValue(stateRef.current, controlId);
+      if (current === null) return null;
+      return applyEncoderTicks(current, decodeRelative(value, binding.encoder), min, max);
+    };
+
+    const handleJog = (binding: MidiBinding, deckId: DeckId, value: number) => {
+      let ticks = decodeRelative(value, binding.encoder);
+      if (binding.encoder === "absolute") {
+        // Absolute jogs wrap around: take the shortest step from the last position
+        const key = `${binding.input.kind}:${binding.input.channel}:${binding.input.number}`;
+        const last = lastAbsolute.get(key);
+        lastAbsolute.set(key, value);
+        if (last === undefined) return;
+        ticks = ((value - last + 192) % 128) - 64;
+      }
+      if (ticks === 0) return;
+
+      const deck = getDeck(deckId);
+      if (deck.getState().playState === "playing") {
+        deck.nudge(Math.max(-1, Math.min(1, ticks * JOG.BEND_PER_TICK)));
+        const timer = jogReleaseTimers.get(deckId);
+        if (timer) clearTimeout(timer);
+        jogReleaseTimers.set(
+          deckId,
+          setTimeout(() => {
+            jogReleaseTimers.delete(deckId);
+            deck.releaseNudge();
+          }, JOG.RELEASE_MS)
+        );
+        return;
+      }
+
+      deck.scrub(ticks * JOG.SECONDS_PER_TICK).then(() => {
+        sendThrottled(`seek:${deckId}`, JOG.SEEK_THROTTLE_MS, () =>
+          send({
+            type: "DECK_SEEK",
+            payload: { deckId, positionSec: Math.max(0, deck.getCurrentPlayhead()) },
+          })
+        );
+      });
+    };
+
+    const handleControl = (binding: MidiBinding, controlId: string, value: number) => {
+      const deckMatch = /^deck([A-D])\.(jog|tempo)$/.exec(controlId);
+      if (deckMatch?.[2] === "jog") {
+        handleJog(binding, deckMatch[1] as DeckId, value);
+        return;
+      }
+
+      const next = nextControlValue(binding, controlId, value);
+      if (next === null) return;
+      localValues.set(controlId, { value: next, at: performance.now() });
+
+      if (deckMatch?.[2] === "tempo") {
+        const deckId = deckMatch[1] as DeckId;
+        const playbackRate = tempoValueToPlaybackRate(next);
+        getDeck(deckId).setPlaybackRate(playbackRate);
+        sendThrottled(controlId, THROTTLE.CONTROL_MS, () =>
+          send({ type: "DECK_TEMPO_SET", payload: { deckId, playbackRate } })
+        );
+        return;
+      }
+
+      sendThrottled(controlId, THROTTLE.CONTROL_MS, () =>
+        send({ type: "MIXER_SET", payload: { controlId, value: next } })
+      );
+    };
+
+    // Buttons and pads act on press only
+    const handlePress = (binding: MidiBinding) => {
+      const { target } = binding;
+
+      if (target.kind === "sampler") {
+        playSample(target.slot);
+        send({ type: "SAMPLER_PLAY", payload: { slot: target.slot } });
+        return;
+      }
+      if (target.kind === "control") return;
+
+      const serverDeck = getDeckState(stateRef.current, target.deckId);
+      if (!serverDeck) return;
+      const deck = getDeck(target.deckId);
+      const { deckId } = target;
+
+      if (target.kind === "hotCue") {
+        if (!serverDeck.loadedTrackId) return;
+        const cue = serverDeck.hotCues[target.index];
+        if (cue) {
+          send({ type: "DECK_HOT_CUE_JUMP", payload: { deckId, index: target.index } });
+          deck.jumpToHotCue(cue.positionSec);
+        } else {
+          const positionSec = quantizePosition(serverDeck, deck.getCurrentPlayhead());
+          send({ type: "DECK_HOT_CUE_SET", payload: { deckId, index: target.index, positionSec } });
+        }
+        return;
+      }
+
+      switch (target.action) {
+        case "play":
+          if (serverDeck.playState === "playing") {
+            deck.pause();
+            send({ type: "DECK_PAUSE", payload: { deckId } });
+          } else if (serverDeck.loadedTrackId) {
+            deck.play();
+            send({ type: "DECK_PLAY", payload: { deckId } });
+          }
+          break;
+        case "cue":
+          deck.cue();
+          send({ type: "DECK_CUE", payload: { deckId } });
+          break;
+        case "sync":
+          send({ type: "DECK_SYNC", payload: { deckId, enabled: !serverDeck.syncEnabled } });
+          break;
+        case "keyLock":
+          send({ type: "DECK_KEY_LOCK_SET", payload: { deckId, enabled: !serverDeck.keyLock } });
+          break;
+      }
+    };
+
+    const handleMessage = (message: MidiMessage) => {
+      // MIDI learn: bind on a press or knob move, ignore note-offs
+      if ((message.kind === "cc" || message.value > 0) && completeMidiLearn(message)) return;
+      if (propsRef.current.disabled) return;
+
+      const profile = getActiveMidiProfile();
+      const binding = profile && findBinding(profile, message);
+      if (!binding) return;
+
+      if (binding.target.kind === "control") {
+        handleControl(binding, binding.target.controlId, message.value);
+      } else if (message.value > 0) {
+        handlePress(binding);
+      }
+    };
+
+    const unsubscribe = onMidiMessage(handleMessage);
+    return () => {
+      unsubscribe();
+      pendingSends.forEach((timer) => clearTimeout(timer));
+      jogReleaseTimers.forEach((timer) => clearTimeout(timer));
+    };
+  }, []);
+
+  // LED feedback: send each binding's state when it changes
+  const sentFeedbackRef = useRef(new Map<string, number>());
+  const activeProfile =
+    profileState.profiles.find((p) => p.id === profileState.activeProfileId) ?? null;
+
+  // Resend everything when the profile or the connected outputs change
+  useEffect(() => {
+    sentFeedbackRef.current.clear();
+  }, [activeProfile, accessState.outputs]);
+
+  useEffect(() => {
+    if (!activeProfile || accessState.status !== "ready") return;
+
+    const sent = sentFeedbackRef.current;
+    for (const binding of activeProfile.bindings) {
+      const value = getFeedbackValue(binding, state);
+      if (value === null) continue;
+      const key = `${binding.input.kind}:${binding.input.channel}:${binding.input.number}`;
+      if (sent.get(key) === value) continue;
+      sent.set(key, value);
+      sendMidi(encodeMidiMessage({ ...binding.input, value }), activeProfile.outputName);
+    }
+  }, [state, activeProfile, accessState]);
+}
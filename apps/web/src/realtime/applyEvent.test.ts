@@ -1,7 +1,14 @@
 import { describe, it, expect } from "vitest";
 import { applyServerEvent } from "./applyEvent";
 import type { RoomState, ServerMutationEvent } from "@puid-board/shared";
-import { createDefaultDeck, createDefaultMixer, createDefaultSampler } from "@puid-board/shared";
+import {
+  createDefaultDeck,
+  createDefaultMixer,
+  createDefaultSampler,
+  createDefaultMonitor,
+  createDefaultAutoDj,
+  AUTO_DJ_CLIENT_ID,
+} from "@puid-board/shared";
 
 function createTestState(): RoomState {
   return {
@@ -17,8 +24,10 @@ function createTestState(): RoomState {
         color: "#FF6B6B",
         joinedAt: Date.now(),
         isHost: true,
+        role: "host",
         cursor: null,
         latencyMs: 0,
+        monitor: createDefaultMonitor(),
       },
       {
         clientId: "client-2",
@@ -26,16 +35,22 @@ function createTestState(): RoomState {
         color: "#4ECDC4",
         joinedAt: Date.now(),
         isHost: false,
+        role: "dj",
         cursor: null,
         latencyMs: 0,
+        monitor: createDefaultMonitor(),
       },
     ],
     queue: [],
+    deckCount: 2,
     deckA: createDefaultDeck("A"),
     deckB: createDefaultDeck("B"),
+    deckC: null,
+    deckD: null,
     mixer: createDefaultMixer(),
     controlOwners: {},
     sampler: createDefaultSampler(),
+    autoDj: createDefaultAutoDj(),
   };
 }
 
@@ -120,4 +135,498 @@ describe("applyServerEvent", () => {
     const next = applyServerEvent(state, event);
     expect(next.mixer.crossfader).toBe(0.75);
   });
+
+  it("applies MIXER_SET to channel C in a four-deck room", () => {
+    const state: RoomState = {
+      ...createTestState(),
+      deckCount: 4,
+      deckC: createDefaultDeck("C"),
+      deckD: createDefaultDeck("D"),
+      mixer: createDefaultMixer(4),
+    };
+    const event: ServerMutationEvent = {
+      type: "MIXER_SET",
+      roomId: "test-room",
+      clientId: "client-1",
+      clientSeq: 1,
+      eventId: "ev-1",
+      serverTs: Date.now(),
+      version: 1,
+      payload: { controlId: "channelC.eq.low", value: -0.5 },
+    };
+
+    const next = applyServerEvent(state, event);
+    expect(next.mixer.channelC?.eq.low).toBe(-0.5);
+    expect(next.mixer.channelA.eq.low).toBe(0);
+    expect(state.mixer.channelC?.eq.low).toBe(0);
+  });
+
+  it("applies limiter settings from MIXER_SET and LIMITER_TOGGLE", () => {
+    const state = createTestState();
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-2",
+      serverTs: Date.now(),
+    };
+    const events: ServerMutationEvent[] = [
+      { ...meta, type: "MIXER_SET", clientSeq: 1, eventId: "ev-1", version: 1, payload: { controlId: "limiter.threshold", value: 0.5 } },
+      { ...meta, type: "LIMITER_TOGGLE", clientSeq: 2, eventId: "ev-2", version: 2, payload: { enabled: false } },
+    ];
+
+    const next = events.reduce(applyServerEvent, state);
+    expect(next.mixer.limiter).toMatchObject({ enabled: false, threshold: 0.5 });
+    expect(state.mixer.limiter).toMatchObject({ enabled: true, threshold: 0.875 });
+  });
+
+  it("replays a run of missed events in order", () => {
+    const state = createTestState();
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-2",
+      serverTs: Date.now(),
+    };
+    const missed: ServerMutationEvent[] = [
+      { ...meta, type: "FX_TOGGLE", clientSeq: 1, eventId: "ev-1", version: 4, payload: { unit: "fx1", enabled: true } },
+      { ...meta, type: "DECK_BPM_DETECTED", clientSeq: 2, eventId: "ev-2", version: 5, payload: { deckId: "B", bpm: 128 } },
+      { ...meta, type: "DECK_TEMPO_SET", clientSeq: 3, eventId: "ev-3", version: 6, payload: { deckId: "B", playbackRate: 1.04 } },
+    ];
+
+    const next = missed.reduce(applyServerEvent, state);
+    expect(next.version).toBe(6);
+    expect(next.mixer.fx1.enabled).toBe(true);
+    expect(next.deckB.detectedBpm).toBe(128);
+    expect(next.deckB.playbackRate).toBe(1.04);
+    expect(state.deckB.detectedBpm).toBeNull();
+  });
+
+  it("applies DECK_BEAT_GRID_SET to the deck and its queue item", () => {
+    const state = createTestState();
+    state.queue = [
+      {
+        id: "q-1",
+        trackId: "track-1",
+        title: "Track",
+        durationSec: 180,
+        url: "https://example.com/track-1.mp3",
+        addedBy: "client-1",
+        addedAt: Date.now(),
+        status: "loaded_A",
+        source: "upload",
+        youtubeVideoId: null,
+        thumbnailUrl: null,
+      },
+    ];
+    state.deckA = { ...state.deckA, loadedTrackId: "track-1", loadedQueueItemId: "q-1" };
+    const event: ServerMutationEvent = {
+      type: "DECK_BEAT_GRID_SET",
+      roomId: "test-room",
+      clientId: "client-1",
+      clientSeq: 1,
+      eventId: "ev-1",
+      serverTs: Date.now(),
+      version: 1,
+      payload: { deckId: "A", beatGrid: { bpm: 124, firstBeatSec: 0.35 } },
+    };
+
+    const next = applyServerEvent(state, event);
+    expect(next.deckA.beatGrid).toEqual({ bpm: 124, firstBeatSec: 0.35 });
+    expect(next.deckA.detectedBpm).toBe(124);
+    expect(next.queue[0]?.beatGrid).toEqual({ bpm: 124, firstBeatSec: 0.35 });
+    expect(state.queue[0]?.beatGrid).toBeUndefined();
+  });
+
+  it("applies the detected key from DECK_BPM_DETECTED to the deck and its queue item", () => {
+    const state = createTestState();
+    state.queue = [
+      {
+        id: "q-1",
+        trackId: "track-1",
+        title: "Track",
+        durationSec: 180,
+        url: "https://example.com/track-1.mp3",
+        addedBy: "client-1",
+        addedAt: Date.now(),
+        status: "loaded_A",
+        source: "upload",
+        youtubeVideoId: null,
+        thumbnailUrl: null,
+      },
+    ];
+    state.deckA = { ...state.deckA, loadedTrackId: "track-1", loadedQueueItemId: "q-1" };
+    const event: ServerMutationEvent = {
+      type: "DECK_BPM_DETECTED",
+      roomId: "test-room",
+      clientId: "client-1",
+      clientSeq: 1,
+      eventId: "ev-1",
+      serverTs: Date.now(),
+      version: 1,
+      payload: { deckId: "A", bpm: 124, key: "11B" },
+    };
+
+    const next = applyServerEvent(state, event);
+    expect(next.deckA.detectedKey).toBe("11B");
+    expect(next.queue[0]?.key).toBe("11B");
+    expect(state.queue[0]?.key).toBeUndefined();
+  });
+
+  it("applies the measured loudness and the server's auto trim to the channel", () => {
+    const state = createTestState();
+    state.queue = [
+      {
+        id: "q-1",
+        trackId: "track-1",
+        title: "Track",
+        durationSec: 180,
+        url: "https://example.com/track-1.mp3",
+        addedBy: "client-1",
+        addedAt: Date.now(),
+        status: "queued",
+        source: "upload",
+        youtubeVideoId: null,
+        thumbnailUrl: null,
+      },
+    ];
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-1",
+      clientSeq: 1,
+      serverTs: Date.now(),
+    };
+
+    const loaded = applyServerEvent(state, {
+      ...meta,
+      type: "DECK_LOAD",
+      eventId: "ev-1",
+      version: 1,
+      payload: { deckId: "A", trackId: "track-1", queueItemId: "q-1" },
+    });
+    expect(loaded.mixer.channelA.gain).toBe(0);
+
+    const measured = applyServerEvent(loaded, {
+      ...meta,
+      type: "DECK_BPM_DETECTED",
+      eventId: "ev-2",
+      version: 2,
+      payload: { deckId: "A", bpm: 124, loudness: { lufs: -8, truePeakDb: 0.3 }, gain: -0.5 },
+    });
+    expect(measured.queue[0]?.loudness).toEqual({ lufs: -8, truePeakDb: 0.3 });
+    expect(measured.mixer.channelA.gain).toBe(-0.5);
+    expect(loaded.mixer.channelA.gain).toBe(0);
+
+    const reloaded = applyServerEvent(measured, {
+      ...meta,
+      type: "DECK_LOAD",
+      eventId: "ev-3",
+      version: 3,
+      payload: { deckId: "B", trackId: "track-1", queueItemId: "q-1", gain: -0.5 },
+    });
+    expect(reloaded.mixer.channelB.gain).toBe(-0.5);
+  });
+
+  it("applies DECK_SYNC and drops sync on a manual tempo change", () => {
+    const state = createTestState();
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-1",
+      serverTs: Date.now(),
+    };
+
+    const synced = applyServerEvent(state, {
+      ...meta,
+      type: "DECK_SYNC",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: { deckId: "B", enabled: true, playbackRate: 1.05 },
+    });
+    expect(synced.deckB.syncEnabled).toBe(true);
+    expect(synced.deckB.playbackRate).toBe(1.05);
+
+    const manual = applyServerEvent(synced, {
+      ...meta,
+      type: "DECK_TEMPO_SET",
+      clientSeq: 2,
+      eventId: "ev-2",
+      version: 2,
+      payload: { deckId: "B", playbackRate: 1.1 },
+    });
+    expect(manual.deckB.syncEnabled).toBe(false);
+    expect(manual.deckB.playbackRate).toBe(1.1);
+  });
+
+  it("applies DECK_KEY_LOCK_SET without touching the tempo", () => {
+    const state = createTestState();
+    state.deckA.playbackRate = 1.06;
+
+    const next = applyServerEvent(state, {
+      roomId: "test-room",
+      clientId: "client-1",
+      serverTs: Date.now(),
+      type: "DECK_KEY_LOCK_SET",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: { deckId: "A", enabled: true },
+    });
+    expect(next.deckA.keyLock).toBe(true);
+    expect(next.deckA.playbackRate).toBe(1.06);
+    expect(next.deckB.keyLock).toBe(false);
+  });
+
+  it("applies DECK_HOT_CUE_SET, JUMP and CLEAR to the indexed slot", () => {
+    const state = createTestState();
+    state.deckA = { ...state.deckA, loadedTrackId: "track-1", durationSec: 180 };
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-1",
+      serverTs: Date.now(),
+    };
+
+    const set = applyServerEvent(state, {
+      ...meta,
+      type: "DECK_HOT_CUE_SET",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: { deckId: "A", index: 5, positionSec: 42, label: "Drop", color: null },
+    });
+    expect(set.deckA.hotCues[5]).toEqual({ positionSec: 42, label: "Drop", color: null });
+    expect(state.deckA.hotCues[5]).toBeNull();
+
+    const jumped = applyServerEvent(set, {
+      ...meta,
+      type: "DECK_HOT_CUE_JUMP",
+      clientSeq: 2,
+      eventId: "ev-2",
+      version: 2,
+      payload: { deckId: "A", index: 5 },
+    });
+    expect(jumped.deckA.playheadSec).toBe(42);
+    expect(jumped.deckA.playState).toBe("playing");
+
+    const cleared = applyServerEvent(jumped, {
+      ...meta,
+      type: "DECK_HOT_CUE_CLEAR",
+      clientSeq: 3,
+      eventId: "ev-3",
+      version: 3,
+      payload: { deckId: "A", index: 5 },
+    });
+    expect(cleared.deckA.hotCues[5]).toBeNull();
+    expect(jumped.deckA.hotCues[5]).not.toBeNull();
+  });
+
+  it("restores saved cues from DECK_LOAD and applies DECK_LOOP_SAVE", () => {
+    const state = createTestState();
+    state.queue = [
+      {
+        id: "q-1",
+        trackId: "track-1",
+        title: "Track 1",
+        durationSec: 180,
+        url: "https://example.com/track-1.mp3",
+        addedBy: "client-1",
+        addedAt: Date.now(),
+        status: "queued",
+        source: "upload",
+        youtubeVideoId: null,
+        thumbnailUrl: null,
+      },
+    ];
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-1",
+      serverTs: Date.now(),
+    };
+    const hotCues = state.deckA.hotCues.map((cue, i) =>
+      i === 1 ? { positionSec: 20, label: null, color: null } : cue
+    );
+
+    const loaded = applyServerEvent(state, {
+      ...meta,
+      type: "DECK_LOAD",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: {
+        deckId: "A",
+        trackId: "track-1",
+        queueItemId: "q-1",
+        cues: { hotCues, savedLoops: state.deckA.savedLoops, beatGrid: { bpm: 126, firstBeatSec: 0 } },
+      },
+    });
+    expect(loaded.deckA.hotCues[1]?.positionSec).toBe(20);
+    expect(loaded.deckA.beatGrid).toEqual({ bpm: 126, firstBeatSec: 0 });
+
+    const saved = applyServerEvent(loaded, {
+      ...meta,
+      type: "DECK_LOOP_SAVE",
+      clientSeq: 2,
+      eventId: "ev-2",
+      version: 2,
+      payload: { deckId: "A", index: 0, loop: { startSec: 16, endSec: 24, lengthBars: 4 } },
+    });
+    expect(saved.deckA.savedLoops[0]).toEqual({ startSec: 16, endSec: 24, lengthBars: 4 });
+    expect(loaded.deckA.savedLoops[0]).toBeNull();
+  });
+
+  it("keeps the slip shadow through a loop and resumes from DECK_SLIP_RELEASE", () => {
+    const state = createTestState();
+    state.deckA = { ...state.deckA, loadedTrackId: "track-1", durationSec: 180, playState: "playing" };
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-1",
+      serverTs: Date.now(),
+    };
+
+    const slip = applyServerEvent(state, {
+      ...meta,
+      type: "DECK_SLIP_SET",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: { deckId: "A", enabled: true },
+    });
+    expect(slip.deckA.slip).toBe(true);
+
+    const looped = applyServerEvent(slip, {
+      ...meta,
+      type: "DECK_LOOP_SET",
+      clientSeq: 2,
+      eventId: "ev-2",
+      version: 2,
+      payload: {
+        deckId: "A",
+        enabled: true,
+        startSec: 16,
+        endSec: 18,
+        lengthBars: 1,
+        slipShadow: { startSec: 16, startTimeMs: 1000 },
+      },
+    });
+    expect(looped.deckA.slipShadow).toEqual({ startSec: 16, startTimeMs: 1000 });
+
+    const released = applyServerEvent(looped, {
+      ...meta,
+      type: "DECK_SLIP_RELEASE",
+      clientSeq: 3,
+      eventId: "ev-3",
+      version: 3,
+      payload: { deckId: "A", positionSec: 21.5 },
+    });
+    expect(released.deckA.slipShadow).toBeNull();
+    expect(released.deckA.loop).toBeNull();
+    expect(released.deckA.playheadSec).toBe(21.5);
+
+    const off = applyServerEvent(looped, {
+      ...meta,
+      type: "DECK_SLIP_SET",
+      clientSeq: 4,
+      eventId: "ev-4",
+      version: 4,
+      payload: { deckId: "A", enabled: false },
+    });
+    expect(off.deckA.slip).toBe(false);
+    expect(off.deckA.slipShadow).toBeNull();
+    expect(off.deckA.loop).not.toBeNull();
+  });
+
+  it("applies DECK_CENSOR with its slip-back and DECK_BRAKE motion", () => {
+    const state = createTestState();
+    state.deckA = { ...state.deckA, loadedTrackId: "track-1", durationSec: 180, playState: "playing" };
+    const meta = {
+      roomId: "test-room",
+      clientId: "client-1",
+      serverTs: Date.now(),
+    };
+
+    const censored = applyServerEvent(state, {
+      ...meta,
+      type: "DECK_CENSOR",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: { deckId: "A", active: true, slipShadow: { startSec: 30, startTimeMs: 1000 } },
+    });
+    expect(censored.deckA.reverse).toBe(true);
+    expect(censored.deckA.slipShadow).toEqual({ startSec: 30, startTimeMs: 1000 });
+
+    const released = applyServerEvent(censored, {
+      ...meta,
+      type: "DECK_CENSOR",
+      clientSeq: 2,
+      eventId: "ev-2",
+      version: 2,
+      payload: { deckId: "A", active: false, positionSec: 32 },
+    });
+    expect(released.deckA.reverse).toBe(false);
+    expect(released.deckA.slipShadow).toBeNull();
+    expect(released.deckA.playheadSec).toBe(32);
+
+    const motion = { kind: "spinback" as const, startSec: 32, startTimeMs: 5000, durationMs: 800 };
+    const braking = applyServerEvent(released, {
+      ...meta,
+      type: "DECK_BRAKE",
+      clientSeq: 3,
+      eventId: "ev-3",
+      version: 3,
+      payload: { deckId: "A", kind: "spinback", durationMs: 800, motion },
+    });
+    expect(braking.deckA.motion).toEqual(motion);
+    expect(released.deckA.motion).toBeNull();
+  });
+
+  it("applies AUTO_DJ_SET and marks QUEUE_ITEM_PLAYED items played", () => {
+    const state = createTestState();
+    state.queue = [
+      {
+        id: "q1",
+        trackId: "t1",
+        title: "Opener",
+        durationSec: 200,
+        url: "https://example.com/t1.mp3",
+        addedBy: "client-1",
+        addedAt: 0,
+        status: "playing_A",
+        source: "upload",
+        youtubeVideoId: null,
+        thumbnailUrl: null,
+      },
+    ];
+    const meta = { roomId: "test-room", serverTs: Date.now(), clientSeq: 0 };
+
+    const enabled = applyServerEvent(state, {
+      ...meta,
+      type: "AUTO_DJ_SET",
+      clientId: "client-1",
+      clientSeq: 1,
+      eventId: "ev-1",
+      version: 1,
+      payload: { enabled: true, mixBars: 8 },
+    });
+    expect(enabled.autoDj).toEqual({ enabled: true, mixBars: 8 });
+    expect(state.autoDj.enabled).toBe(false);
+
+    const played = applyServerEvent(enabled, {
+      ...meta,
+      type: "QUEUE_ITEM_PLAYED",
+      clientId: AUTO_DJ_CLIENT_ID,
+      eventId: "ev-2",
+      version: 2,
+      payload: { queueItemId: "q1" },
+    });
+    expect(played.queue[0]?.status).toBe("played");
+
+    // A control grab turned it off; the bar count is kept
+    const stopped = applyServerEvent(played, {
+      ...meta,
+      type: "AUTO_DJ_SET",
+      clientId: AUTO_DJ_CLIENT_ID,
+      eventId: "ev-3",
+      version: 3,
+      payload: { enabled: false, mixBars: 8, stoppedBy: "client-2" },
+    });
+    expect(stopped.autoDj).toEqual({ enabled: false, mixBars: 8 });
+  });
 });
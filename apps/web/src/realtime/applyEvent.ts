@@ -3,14 +3,27 @@
  * Used by the realtime client to update state when events are received.
  */
 
-import type { RoomState, ServerMutationEvent } from "@puid-board/shared";
+import type {
+  RoomState,
+  ServerMutationEvent,
+  FxAssign,
+  FxUnitId,
+  DeckId,
+  BeatGrid,
+  CamelotKey,
+  TrackLoudness,
+} from "@puid-board/shared";
 import {
+  createEmptyHotCues,
+  createEmptySavedLoops,
   isValidControlId,
   isValidControlValue,
   queueItemExists,
   isValidReorderIndex,
   canPlayDeck,
   isValidSeekPosition,
+  getDeckState,
+  getChannelState,
 } from "@puid-board/shared";
 
 /**
@@ -28,13 +41,20 @@ export function applyServerEvent(
     queue: state.queue.map((q) => ({ ...q })),
     deckA: { ...state.deckA },
     deckB: { ...state.deckB },
+    deckC: state.deckC && { ...state.deckC },
+    deckD: state.deckD && { ...state.deckD },
     mixer: {
       ...state.mixer,
       channelA: { ...state.mixer.channelA, eq: { ...state.mixer.channelA.eq } },
       channelB: { ...state.mixer.channelB, eq: { ...state.mixer.channelB.eq } },
-      fx: { ...state.mixer.fx },
+      channelC: state.mixer.channelC && { ...state.mixer.channelC, eq: { ...state.mixer.channelC.eq } },
+      channelD: state.mixer.channelD && { ...state.mixer.channelD, eq: { ...state.mixer.channelD.eq } },
+      fx1: { ...state.mixer.fx1 },
+      fx2: { ...state.mixer.fx2 },
+      limiter: { ...state.mixer.limiter },
     },
     controlOwners: { ...state.controlOwners },
+    autoDj: { ...state.autoDj },
   };
 
   switch (event.type) {
@@ -92,7 +112,8 @@ export function applyServerEvent(
 
     case "DECK_LOAD": {
       const { deckId, trackId, queueItemId } = event.payload;
-      const deck = deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, deckId);
+      if (!deck) return state;
       if (!queueItemExists(state, queueItemId)) return state;
       const item = state.queue.find((q) => q.id === queueItemId);
       if (!item) return state;
@@ -101,8 +122,19 @@ export function applyServerEvent(
       deck.playState = "stopped";
       deck.playheadSec = 0;
       deck.cuePointSec = null;
-      deck.hotCuePointSec = null;
       deck.durationSec = item.durationSec;
+      deck.detectedKey = item.key ?? null;
+      deck.slipShadow = null;
+      deck.reverse = false;
+      deck.motion = null;
+      // Restore the track's saved cues (sent by the server, else from the item)
+      const cues = event.payload.cues;
+      deck.hotCues = [...(cues?.hotCues ?? item.hotCues ?? createEmptyHotCues())];
+      deck.savedLoops = [...(cues?.savedLoops ?? item.savedLoops ?? createEmptySavedLoops())];
+      const beatGrid = cues ? cues.beatGrid : item.beatGrid;
+      deck.beatGrid = beatGrid ? { ...beatGrid } : null;
+      // Auto trim for the track's loudness (set by the server)
+      setChannelGain(base, deckId, event.payload.gain);
       // Update queue item status
       const queueIdx = base.queue.findIndex((q) => q.id === queueItemId);
       if (queueIdx >= 0) {
@@ -110,7 +142,7 @@ export function applyServerEvent(
         if (queueItem) {
           base.queue[queueIdx] = {
             ...queueItem,
-            status: deckId === "A" ? "loaded_A" : "loaded_B",
+            status: `loaded_${deckId}`,
           };
         }
       }
@@ -118,7 +150,8 @@ export function applyServerEvent(
     }
 
     case "DECK_PLAY": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (!canPlayDeck(deck)) return state;
       deck.playState = "playing";
       // Update queue item status
@@ -129,7 +162,7 @@ export function applyServerEvent(
           if (queueItem) {
             base.queue[queueIdx] = {
               ...queueItem,
-              status: event.payload.deckId === "A" ? "playing_A" : "playing_B",
+              status: `playing_${event.payload.deckId}`,
             };
           }
         }
@@ -138,39 +171,153 @@ export function applyServerEvent(
     }
 
     case "DECK_PAUSE": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       deck.playState = "paused";
+      deck.slipShadow = null;
+      deck.motion = null;
       return base;
     }
 
     case "DECK_CUE": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (event.payload.cuePointSec !== undefined) {
         deck.cuePointSec = event.payload.cuePointSec;
       }
       if (deck.cuePointSec !== null) {
         deck.playheadSec = deck.cuePointSec;
         deck.playState = "cued";
+        deck.slipShadow = null;
+        deck.motion = null;
         }
       return base;
     }
 
     case "DECK_SEEK": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (!isValidSeekPosition(deck, event.payload.positionSec)) return state;
       deck.playheadSec = event.payload.positionSec;
       return base;
     }
 
     case "DECK_TEMPO_SET": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       // Clamp playback rate to valid bounds
       deck.playbackRate = Math.max(0.5, Math.min(2.0, event.payload.playbackRate));
+      deck.syncEnabled = false;
+      return base;
+    }
+
+    case "DECK_BPM_DETECTED": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.detectedBpm = event.payload.bpm;
+      if (event.payload.key !== undefined) {
+        deck.detectedKey = event.payload.key;
+        setQueueItemKey(base, deck.loadedQueueItemId, event.payload.key);
+      }
+      if (event.payload.loudness) {
+        setQueueItemLoudness(base, deck.loadedQueueItemId, event.payload.loudness);
+      }
+      setChannelGain(base, event.payload.deckId, event.payload.gain);
+      if (!deck.beatGrid) {
+        deck.beatGrid = { bpm: event.payload.bpm, firstBeatSec: 0 };
+        setQueueItemBeatGrid(base, deck.loadedQueueItemId, deck.beatGrid, false);
+      }
+      return base;
+    }
+
+    case "DECK_BEAT_GRID_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.beatGrid = { ...event.payload.beatGrid };
+      deck.detectedBpm = event.payload.beatGrid.bpm;
+      setQueueItemBeatGrid(base, deck.loadedQueueItemId, deck.beatGrid, true);
+      return base;
+    }
+
+    case "DECK_SYNC": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.syncEnabled = event.payload.enabled;
+      if (event.payload.playbackRate !== undefined) {
+        deck.playbackRate = event.payload.playbackRate;
+      }
+      return base;
+    }
+
+    case "DECK_QUANTIZE_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.quantize = event.payload.quantize;
+      return base;
+    }
+
+    case "DECK_KEY_LOCK_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.keyLock = event.payload.enabled;
+      return base;
+    }
+
+    case "DECK_SLIP_SET": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.slip = event.payload.enabled;
+      if (!event.payload.enabled) deck.slipShadow = null;
+      return base;
+    }
+
+    case "DECK_SLIP_START": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.slipShadow = event.payload.slipShadow ?? deck.slipShadow;
+      return base;
+    }
+
+    case "DECK_SLIP_RELEASE": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.slipShadow = null;
+      // Resumed from the shadow: loops and rolls end with the gesture
+      if (event.payload.positionSec !== undefined) {
+        deck.playheadSec = event.payload.positionSec;
+        deck.loop = null;
+        deck.roll = null;
+      }
+      return base;
+    }
+
+    case "DECK_REVERSE_SET":
+    case "DECK_CENSOR": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      const { slipShadow, positionSec } = event.payload;
+      deck.reverse = event.type === "DECK_REVERSE_SET" ? event.payload.enabled : event.payload.active;
+      if (deck.reverse) {
+        deck.slipShadow = slipShadow ?? deck.slipShadow;
+      } else if (positionSec !== undefined) {
+        // Slipped back: loops and rolls end with the gesture
+        deck.slipShadow = null;
+        deck.playheadSec = positionSec;
+        deck.loop = null;
+        deck.roll = null;
+      }
+      return base;
+    }
+
+    case "DECK_BRAKE": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.motion = event.payload.motion ?? deck.motion;
       return base;
     }
 
     case "QUEUE_ADD": {
-      const { trackId, title, durationSec, url, insertAt, queueItemId, source, youtubeVideoId, thumbnailUrl } = event.payload;
+      const { trackId, title, durationSec, url, insertAt, queueItemId, source, youtubeVideoId, thumbnailUrl, cues } = event.payload;
       // Use server-generated queue item ID (mandatory in server mutation events)
       const id = queueItemId ?? `q-${event.serverTs}-${Math.random().toString(36).slice(2, 9)}`;
       const item = {
@@ -185,6 +332,7 @@ export function applyServerEvent(
         source: source ?? "upload",
         youtubeVideoId: youtubeVideoId ?? null,
         thumbnailUrl: thumbnailUrl ?? null,
+        ...(cues && { hotCues: cues.hotCues, savedLoops: cues.savedLoops, beatGrid: cues.beatGrid }),
       };
       const idx = insertAt ?? base.queue.length;
       base.queue = [...base.queue.slice(0, idx), item, ...base.queue.slice(idx)];
@@ -221,17 +369,42 @@ export function applyServerEvent(
       return base;
     }
 
+    case "QUEUE_ITEM_PLAYED": {
+      const i = base.queue.findIndex((q) => q.id === event.payload.queueItemId);
+      const existing = base.queue[i];
+      if (!existing) return state;
+      base.queue[i] = { ...existing, status: "played" };
+      return base;
+    }
+
+    case "AUTO_DJ_SET": {
+      base.autoDj.enabled = event.payload.enabled;
+      base.autoDj.mixBars = event.payload.mixBars ?? base.autoDj.mixBars;
+      return base;
+    }
+
     case "FX_SET": {
-      const { param, value } = event.payload;
-      if (param === "type")
-        base.mixer.fx.type = value as "echo" | "reverb" | "filter" | "none";
-      else if (param === "wetDry") base.mixer.fx.wetDry = value as number;
-      else if (param === "param") base.mixer.fx.param = value as number;
+      const { unit, param, value } = event.payload;
+      const fx = base.mixer[unit];
+      if (param === "wetDry") fx.wetDry = value as number;
+      else if (param === "assign") fx.assign = value as FxAssign;
+      return base;
+    }
+
+    case "FX_CHAIN_SET": {
+      const { unit, chain } = event.payload;
+      base.mixer[unit].chain = chain.map((slot) => ({ ...slot }));
+      if (chain.length === 0) base.mixer[unit].enabled = false;
       return base;
     }
 
     case "FX_TOGGLE": {
-      base.mixer.fx.enabled = event.payload.enabled;
+      base.mixer[event.payload.unit].enabled = event.payload.enabled;
+      return base;
+    }
+
+    case "LIMITER_TOGGLE": {
+      base.mixer.limiter.enabled = event.payload.enabled;
       return base;
     }
 
@@ -239,7 +412,8 @@ export function applyServerEvent(
       return base;
 
     case "DECK_LOOP_SET": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       if (event.payload.enabled) {
         deck.loop = {
           enabled: true,
@@ -247,14 +421,34 @@ export function applyServerEvent(
           endSec: event.payload.endSec,
           lengthBars: event.payload.lengthBars,
         };
+        deck.slipShadow = event.payload.slipShadow ?? deck.slipShadow;
       } else {
         deck.loop = null;
+        // A slip loop resumes from the shadow, which also ends a roll
+        if (deck.slipShadow) deck.roll = null;
+        deck.slipShadow = null;
       }
       return base;
     }
 
+    case "DECK_LOOP_SAVE": {
+      const { deckId, index, loop } = event.payload;
+      const deck = getDeckState(base, deckId);
+      if (!deck || !loop) return state;
+      deck.savedLoops = deck.savedLoops.map((l, i) => (i === index ? { ...loop } : l));
+      return base;
+    }
+
+    case "DECK_LOOP_DELETE": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.savedLoops = deck.savedLoops.map((l, i) => (i === event.payload.index ? null : l));
+      return base;
+    }
+
     case "DECK_ROLL_START": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       const bpm = deck.detectedBpm ?? 120;
       const secondsPerBeat = 60 / (bpm * deck.playbackRate);
       const rollLengthSec = secondsPerBeat * 4 * event.payload.lengthBars;
@@ -264,18 +458,57 @@ export function applyServerEvent(
         endSec: event.payload.startSec + rollLengthSec,
         returnSec: event.payload.returnSec,
       };
+      deck.slipShadow = event.payload.slipShadow ?? deck.slipShadow;
       return base;
     }
 
     case "DECK_ROLL_STOP": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
       deck.roll = null;
+      // A slip roll resumes from the shadow, which also ends a loop
+      if (deck.slipShadow) deck.loop = null;
+      deck.slipShadow = null;
       return base;
     }
 
     case "DECK_HOT_CUE_SET": {
-      const deck = event.payload.deckId === "A" ? base.deckA : base.deckB;
-      deck.hotCuePointSec = event.payload.hotCuePointSec;
+      const { deckId, index, positionSec, label, color } = event.payload;
+      const deck = getDeckState(base, deckId);
+      if (!deck) return state;
+      // Copy the slots, they are shared with the previous state
+      deck.hotCues = deck.hotCues.map((cue, i) =>
+        i === index ? { positionSec, label: label ?? null, color: color ?? null } : cue
+      );
+      return base;
+    }
+
+    case "DECK_HOT_CUE_CLEAR": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      deck.hotCues = deck.hotCues.map((cue, i) => (i === event.payload.index ? null : cue));
+      return base;
+    }
+
+    case "DECK_HOT_CUE_JUMP": {
+      const deck = getDeckState(base, event.payload.deckId);
+      if (!deck) return state;
+      const cue = deck.hotCues[event.payload.index];
+      if (!cue) return state;
+      deck.playheadSec = cue.positionSec;
+      deck.playState = "playing";
+      deck.slipShadow = event.payload.slipShadow ?? deck.slipShadow;
+      // Update queue item status
+      if (deck.loadedQueueItemId) {
+        const queueIdx = base.queue.findIndex((q) => q.id === deck.loadedQueueItemId);
+        const queueItem = base.queue[queueIdx];
+        if (queueItem) {
+          base.queue[queueIdx] = {
+            ...queueItem,
+            status: `playing_${event.payload.deckId}`,
+          };
+        }
+      }
       return base;
     }
 
@@ -284,12 +517,100 @@ export function applyServerEvent(
   }
 }
 
+/**
+ * Store a beat grid on a queue item (copied so the deck and item don't share it).
+ * Without overwrite, an existing grid on the item is kept.
+ */
+function setQueueItemBeatGrid(
+  state: RoomState,
+  queueItemId: string | null,
+  beatGrid: BeatGrid,
+  overwrite: boolean
+): void {
+  const idx = state.queue.findIndex((q) => q.id === queueItemId);
+  const item = state.queue[idx];
+  if (!item || (!overwrite && item.beatGrid)) return;
+  state.queue[idx] = { ...item, beatGrid: { ...beatGrid } };
+}
+
+function setQueueItemKey(
+  state: RoomState,
+  queueItemId: string | null,
+  key: CamelotKey | null
+): void {
+  const idx = state.queue.findIndex((q) => q.id === queueItemId);
+  const item = state.queue[idx];
+  if (!item || item.key === key) return;
+  state.queue[idx] = { ...item, key };
+}
+
+function setQueueItemLoudness(
+  state: RoomState,
+  queueItemId: string | null,
+  loudness: TrackLoudness
+): void {
+  const idx = state.queue.findIndex((q) => q.id === queueItemId);
+  const item = state.queue[idx];
+  if (!item || item.loudness) return;
+  state.queue[idx] = { ...item, loudness: { ...loudness } };
+}
+
+function setChannelGain(
+  state: RoomState,
+  deckId: DeckId,
+  gain: number | undefined
+): void {
+  const channel = getChannelState(state.mixer, deckId);
+  if (!channel || gain === undefined) return;
+  channel.gain = gain;
+}
+
 function setMixerValue(
   mixer: RoomState["mixer"],
   controlId: string,
   value: number
 ): void {
   const clamp = (min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  // FX chain slot knobs ("fx1.chain.0.param"); copy the chain, it is shared with the previous state
+  const fxSlotMatch = /^(fx[12])\.chain\.(\d)\.param$/.exec(controlId);
+  if (fxSlotMatch) {
+    const fx = mixer[fxSlotMatch[1] as FxUnitId];
+    const index = Number(fxSlotMatch[2]);
+    fx.chain = fx.chain.map((slot, i) =>
+      i === index ? { ...slot, param: clamp(0, 1) } : slot
+    );
+    return;
+  }
+
+  // Channels C/D (four-deck rooms) mirror the A/B layout
+  const channelMatch = /^channel([CD])\.(.+)$/.exec(controlId);
+  if (channelMatch) {
+    const channel = channelMatch[1] === "C" ? mixer.channelC : mixer.channelD;
+    if (!channel) return;
+    switch (channelMatch[2]) {
+      case "fader":
+        channel.fader = clamp(0, 1);
+        break;
+      case "gain":
+        channel.gain = clamp(-1, 1);
+        break;
+      case "eq.low":
+        channel.eq.low = clamp(-1, 1);
+        break;
+      case "eq.mid":
+        channel.eq.mid = clamp(-1, 1);
+        break;
+      case "eq.high":
+        channel.eq.high = clamp(-1, 1);
+        break;
+      case "filter":
+        channel.filter = clamp(0, 1);
+        break;
+    }
+    return;
+  }
+
   switch (controlId) {
     case "crossfader":
       mixer.crossfader = clamp(0, 1);
@@ -333,14 +654,20 @@ function setMixerValue(
     case "channelB.filter":
       mixer.channelB.filter = clamp(0, 1);
       break;
-    case "fx.wetDry":
-      mixer.fx.wetDry = clamp(0, 1);
+    case "fx1.wetDry":
+      mixer.fx1.wetDry = clamp(0, 1);
+      break;
+    case "fx2.wetDry":
+      mixer.fx2.wetDry = clamp(0, 1);
+      break;
+    case "limiter.threshold":
+      mixer.limiter.threshold = clamp(0, 1);
       break;
-    case "fx.param":
-      mixer.fx.param = clamp(0, 1);
+    case "limiter.release":
+      mixer.limiter.release = clamp(0, 1);
       break;
-    case "headphoneMix":
-      mixer.headphoneMix = clamp(0, 1);
+    case "limiter.ceiling":
+      mixer.limiter.ceiling = clamp(0, 1);
       break;
     default:
       break;
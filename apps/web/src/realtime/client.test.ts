@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { applyDetectedAnalysis } from "./client";
+import type { QueueItem, RoomState } from "@puid-board/shared";
+import {
+  createDefaultDeck,
+  createDefaultMixer,
+  createDefaultSampler,
+  createDefaultAutoDj,
+} from "@puid-board/shared";
+
+function createTestState(item: QueueItem): RoomState {
+  return {
+    roomId: "test-room",
+    roomCode: "TEST01",
+    version: 0,
+    createdAt: Date.now(),
+    hostId: "client-1",
+    members: [],
+    queue: [item],
+    deckCount: 2,
+    deckA: { ...createDefaultDeck("A"), loadedTrackId: item.trackId, loadedQueueItemId: item.id },
+    deckB: createDefaultDeck("B"),
+    deckC: null,
+    deckD: null,
+    mixer: createDefaultMixer(),
+    controlOwners: {},
+    sampler: createDefaultSampler(),
+    autoDj: createDefaultAutoDj(),
+  };
+}
+
+const item: QueueItem = {
+  id: "q-1",
+  trackId: "track-1",
+  title: "Track",
+  durationSec: 180,
+  url: "https://example.com/track-1.mp3",
+  addedBy: "client-1",
+  addedAt: 0,
+  status: "loaded_A",
+  source: "youtube",
+  youtubeVideoId: "abc123",
+  thumbnailUrl: null,
+};
+
+describe("applyDetectedAnalysis", () => {
+  it("stores the detected key on the deck and its queue item", () => {
+    const next = applyDetectedAnalysis(createTestState(item), { deckId: "A", bpm: 124, key: "8A" });
+
+    expect(next.deckA.detectedBpm).toBe(124);
+    expect(next.deckA.detectedKey).toBe("8A");
+    expect(next.queue[0]?.key).toBe("8A");
+  });
+
+  it("keeps the queue item's identity when the result echoes back unchanged", () => {
+    const payload = {
+      deckId: "A" as const,
+      bpm: 124,
+      key: "8A" as const,
+      loudness: { lufs: -9, truePeakDb: -0.5 },
+    };
+    const first = applyDetectedAnalysis(createTestState(item), payload);
+    const echoed = applyDetectedAnalysis(first, payload);
+
+    expect(echoed.queue[0]).toBe(first.queue[0]);
+    expect(echoed.queue).toEqual(first.queue);
+  });
+});
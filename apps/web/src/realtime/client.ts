@@ -8,17 +8,49 @@ import type {
   RoomState,
   ClientMutationEvent,
   RoomSnapshotEvent,
+  RoomRejoinDeltaEvent,
   MemberJoinedEvent,
   MemberLeftEvent,
   MemberRenamedEvent,
+  MemberRoleChangedEvent,
+  MemberMonitorChangedEvent,
+  Recording,
+  RecordingAddedEvent,
+  MemberMonitorSetPayload,
   TimePongEvent,
   Member,
+  MemberRole,
+  DeckId,
+  DeckCount,
+  FxAssign,
+  FxUnitId,
+  FxChainSlot,
+  BandWaveform,
+  BeatGrid,
+  CamelotKey,
+  QuantizeMode,
+  HotCue,
+  SavedLoop,
+  SlipShadow,
+  DeckMotion,
+  DeckState,
+  TrackCues,
+  TrackLoudness,
+  MixerState,
+  AutoDjMixBars,
+} from "@puid-board/shared";
+import {
+  applyMonitorUpdate,
+  createDefaultMonitor,
+  createEmptyHotCues,
+  createEmptySavedLoops,
 } from "@puid-board/shared";
 import {
   processPong,
   resetClockSync,
 } from "../audio/sync";
 import { getDeckEngine } from "../audio/useDeck";
+import { applyServerEvent } from "./applyEvent";
 import { playRemoteSample, type SampleSlot } from "../audio/sampler";
 import type { BeaconTickEvent } from "@puid-board/shared";
 
@@ -32,6 +64,86 @@ const PING_INTERVAL_MS = 2000;
 const RECONNECT_DELAY_MS = 1000;
 const MAX_RECONNECT_ATTEMPTS = 10;
 
+/** RoomState key for a deck ("C" -> "deckC") */
+function deckKey(deckId: DeckId) {
+  return `deck${deckId}` as const;
+}
+
+/** Mixer with a deck's channel gain set (the server's auto trim), if one was sent */
+function withChannelGain(mixer: MixerState, deckId: DeckId, gain: number | undefined): MixerState {
+  const channel = mixer[`channel${deckId}`];
+  if (gain === undefined || !channel) return mixer;
+  return { ...mixer, [`channel${deckId}`]: { ...channel, gain } };
+}
+
+/** Payload of DECK_BPM_DETECTED as broadcast by the server */
+export type DetectedAnalysisPayload = {
+  deckId: DeckId;
+  bpm: number;
+  key?: CamelotKey | null;
+  loudness?: TrackLoudness;
+  gain?: number;
+};
+
+/**
+ * Room state after a deck's analysis result (DECK_BPM_DETECTED).
+ * Queue items are only replaced when something on them actually changes, so
+ * an echo of an already-known result keeps the loaded item's identity and
+ * doesn't re-trigger effects keyed on it.
+ */
+export function applyDetectedAnalysis(state: RoomState, payload: DetectedAnalysisPayload): RoomState {
+  const { deckId, bpm, key, loudness, gain } = payload;
+  const current = state[deckKey(deckId)];
+  if (!current) return state;
+  const deck = { ...current };
+  deck.detectedBpm = bpm;
+
+  // The detected key is also kept on the loaded item for queue hints
+  let queue = state.queue;
+  if (key !== undefined) {
+    deck.detectedKey = key;
+    queue = queue.map((q) => (q.id === deck.loadedQueueItemId && q.key !== key ? { ...q, key } : q));
+  }
+
+  // The first loudness measurement stays with the item (trims later loads)
+  if (loudness) {
+    queue = queue.map((q) =>
+      q.id === deck.loadedQueueItemId && !q.loudness ? { ...q, loudness: { ...loudness } } : q
+    );
+  }
+
+  // The server seeds a beat grid (downbeat at 0s) for tracks without one
+  if (!deck.beatGrid) {
+    deck.beatGrid = { bpm, firstBeatSec: 0 };
+    const grid = deck.beatGrid;
+    queue = queue.map((q) =>
+      q.id === deck.loadedQueueItemId && !q.beatGrid ? { ...q, beatGrid: { ...grid } } : q
+    );
+  }
+
+  return {
+    ...state,
+    queue,
+    [deckKey(deckId)]: deck,
+    mixer: withChannelGain(state.mixer, deckId, gain),
+  };
+}
+
+/**
+ * Deck after a reverse/censor change: a started shadow is kept, and a slip
+ * release (positionSec) resumes from it, ending any loop or roll.
+ */
+function applyReverse(
+  deck: DeckState,
+  enabled: boolean,
+  slipShadow?: SlipShadow,
+  positionSec?: number
+): DeckState {
+  if (enabled) return { ...deck, reverse: true, slipShadow: slipShadow ?? deck.slipShadow };
+  if (positionSec === undefined) return { ...deck, reverse: false };
+  return { ...deck, reverse: false, slipShadow: null, playheadSec: positionSec, loop: null, roll: null };
+}
+
 export type ConnectionStatus = "disconnected" | "connecting" | "connected";
 
 export type RealtimeClientListener = (state: RoomState | null) => void;
@@ -57,6 +169,7 @@ export class RealtimeClient {
   private errorListeners = new Set<ErrorListener>();
   private samplerListeners = new Set<(payload: { slot: 0 | 1 | 2 | 3; url: string | null; name: string; isCustom: boolean }) => void>();
   private samplerPlayListeners = new Set<(slot: 0 | 1 | 2 | 3) => void>();
+  private recordingListeners = new Set<(recording: Recording) => void>();
   private memberJoinedListeners = new Set<(payload: { clientId: string; name: string; color: string }) => void>();
   private memberLeftListeners = new Set<(payload: { clientId: string; name: string; color: string }) => void>();
   private memberRenamedListeners = new Set<(payload: { clientId: string; oldName: string; newName: string }) => void>();
@@ -64,7 +177,7 @@ export class RealtimeClient {
   /** Pending room to rejoin on reconnect */
   private pendingRejoin: { roomCode: string; name: string } | null = null;
 
-  /** Last known state version for reconnection */
+  /** Last applied state version, sent on rejoin to request a delta */
   private lastVersion = 0;
 
   getState(): RoomState | null {
@@ -75,6 +188,11 @@ export class RealtimeClient {
     return this.clientId;
   }
 
+  /** Id of the live socket connection (identifies this member to HTTP uploads) */
+  getSocketId(): string | null {
+    return this.socket?.id ?? null;
+  }
+
   getLatencyMs(): number {
     return this.latencyMs;
   }
@@ -107,6 +225,12 @@ export class RealtimeClient {
     return () => this.samplerPlayListeners.delete(listener);
   }
 
+  /** Subscribe to recordings uploaded to the room (including our own) */
+  onRecordingAdded(listener: (recording: Recording) => void): () => void {
+    this.recordingListeners.add(listener);
+    return () => this.recordingListeners.delete(listener);
+  }
+
   onMemberJoined(listener: (payload: { clientId: string; name: string; color: string }) => void): () => void {
     this.memberJoinedListeners.add(listener);
     return () => this.memberJoinedListeners.delete(listener);
@@ -168,8 +292,8 @@ export class RealtimeClient {
     resetClockSync();
   }
 
-  /** Create a new room */
-  createRoom(name: string): void {
+  /** Create a new room (two decks unless deckCount is 4) */
+  createRoom(name: string, deckCount?: DeckCount): void {
     if (!this.socket?.connected) {
       this.emitError({ type: "NOT_CONNECTED", message: "Not connected to server" });
       return;
@@ -180,7 +304,7 @@ export class RealtimeClient {
       this.state = null;
     }
     this.pendingRejoin = { roomCode: "", name }; // Will be set on snapshot
-    this.socket.emit("CREATE_ROOM", { type: "CREATE_ROOM", name });
+    this.socket.emit("CREATE_ROOM", { type: "CREATE_ROOM", name, deckCount });
   }
 
   /** Join an existing room by code */
@@ -220,14 +344,22 @@ export class RealtimeClient {
     return this.state !== null;
   }
 
-  /** Report computed BPM/waveform for a YouTube track to server for caching */
-  sendTrackMetadata(videoId: string, bpm: number | null, waveform: number[]): void {
+  /** Report computed BPM/key/waveform (and optional band waveform) for a YouTube track to server for caching */
+  sendTrackMetadata(
+    videoId: string,
+    bpm: number | null,
+    waveform: number[],
+    key: CamelotKey | null = null,
+    bands?: BandWaveform
+  ): void {
     if (!this.socket?.connected) return;
     this.socket.emit("TRACK_METADATA_REPORT", {
       type: "TRACK_METADATA_REPORT",
       videoId,
       bpm,
       waveform,
+      key,
+      ...(bands ? { bands } : {}),
     });
   }
 
@@ -241,6 +373,17 @@ export class RealtimeClient {
     this.socket.emit(event.type, event);
   }
 
+  /** Ask the server to change a member's role (host only) */
+  sendRoleChange(targetClientId: string, role: Exclude<MemberRole, "host">): void {
+    if (!this.socket?.connected || !this.state || !this.clientId) return;
+    this.socket.emit("MEMBER_ROLE_SET", {
+      type: "MEMBER_ROLE_SET",
+      roomId: this.state.roomId,
+      clientId: this.clientId,
+      payload: { targetClientId, role },
+    });
+  }
+
   /** Send a rename request to the server */
   sendRename(newName: string): void {
     if (!this.socket?.connected || !this.state || !this.clientId) return;
@@ -252,6 +395,32 @@ export class RealtimeClient {
     });
   }
 
+  /**
+   * Change this member's headphone monitoring.
+   * Applied locally right away (it only affects what we hear), then synced.
+   */
+  sendMonitor(update: MemberMonitorSetPayload): void {
+    if (!this.state || !this.clientId) return;
+    const clientId = this.clientId;
+    this.state = {
+      ...this.state,
+      members: this.state.members.map((m) =>
+        m.clientId === clientId
+          ? { ...m, monitor: applyMonitorUpdate(m.monitor, update) }
+          : m
+      ),
+    };
+    this.notifyStateListeners();
+
+    if (!this.socket?.connected) return;
+    this.socket.emit("MEMBER_MONITOR_SET", {
+      type: "MEMBER_MONITOR_SET",
+      roomId: this.state.roomId,
+      clientId,
+      payload: update,
+    });
+  }
+
   private registerSocketHandlers(): void {
     if (!this.socket) return;
 
@@ -323,6 +492,14 @@ export class RealtimeClient {
       this.notifyStateListeners();
     });
 
+    // Mutation events carry the room version they produced; remember the
+    // latest so a rejoin only needs what happened after it
+    this.socket.onAny((_type: string, event?: { version?: unknown }) => {
+      if (typeof event?.version === "number" && event.version > this.lastVersion) {
+        this.lastVersion = event.version;
+      }
+    });
+
     this.socket.on("ROOM_SNAPSHOT", (event: RoomSnapshotEvent) => {
       this.state = event.state;
       this.lastVersion = event.state.version;
@@ -351,6 +528,23 @@ export class RealtimeClient {
       this.notifyStateListeners();
     });
 
+    // Rejoin delta - replay missed mutations onto the state we already have
+    // instead of replacing it, so decks and audio keep running
+    this.socket.on("ROOM_REJOIN_DELTA", (event: RoomRejoinDeltaEvent) => {
+      if (!this.state || this.state.roomId !== event.roomId) return;
+      console.log(
+        `[RealtimeClient] ROOM_REJOIN_DELTA received - replaying ${event.events.length} events from v${event.fromVersion}`
+      );
+      let next = this.state;
+      for (const missed of event.events) {
+        next = applyServerEvent(next, missed);
+      }
+      this.state = { ...next, ...event.liveState, version: event.version };
+      this.clientId = event.clientId;
+      this.lastVersion = event.version;
+      this.notifyStateListeners();
+    });
+
     this.socket.on("MEMBER_JOINED", (event: MemberJoinedEvent) => {
       if (!this.state) return;
       const newMember: Member = {
@@ -358,9 +552,11 @@ export class RealtimeClient {
         name: event.payload.name,
         color: event.payload.color,
         isHost: event.payload.isHost,
+        role: event.payload.role,
         joinedAt: event.serverTs,
         cursor: null,
         latencyMs: 0,
+        monitor: createDefaultMonitor(),
       };
       this.state = {
         ...this.state,
@@ -377,11 +573,21 @@ export class RealtimeClient {
     this.socket.on("MEMBER_LEFT", (event: MemberLeftEvent) => {
       if (!this.state) return;
       const leaving = this.state.members.find((m) => m.clientId === event.payload.clientId);
+      let members = this.state.members.filter(
+        (m) => m.clientId !== event.payload.clientId
+      );
+      let hostId = this.state.hostId;
+      // Mirror the server's host transfer: first remaining member becomes host
+      if (hostId === event.payload.clientId && members.length > 0) {
+        hostId = members[0]!.clientId;
+        members = members.map((m, i) =>
+          i === 0 ? { ...m, isHost: true, role: "host" } : m
+        );
+      }
       this.state = {
         ...this.state,
-        members: this.state.members.filter(
-          (m) => m.clientId !== event.payload.clientId
-        ),
+        hostId,
+        members,
       };
       this.notifyStateListeners();
       if (leaving) {
@@ -411,6 +617,35 @@ export class RealtimeClient {
       }));
     });
 
+    this.socket.on("MEMBER_ROLE_CHANGED", (event: MemberRoleChangedEvent) => {
+      if (!this.state) return;
+      this.state = {
+        ...this.state,
+        members: this.state.members.map((m) =>
+          m.clientId === event.payload.clientId
+            ? { ...m, role: event.payload.role }
+            : m
+        ),
+      };
+      this.notifyStateListeners();
+    });
+
+    this.socket.on("MEMBER_MONITOR_CHANGED", (event: MemberMonitorChangedEvent) => {
+      if (!this.state) return;
+      // Our own changes were already applied in sendMonitor; a late echo would
+      // drag the cue mix knob back mid-turn
+      if (event.payload.clientId === this.clientId) return;
+      this.state = {
+        ...this.state,
+        members: this.state.members.map((m) =>
+          m.clientId === event.payload.clientId
+            ? { ...m, monitor: event.payload.monitor }
+            : m
+        ),
+      };
+      this.notifyStateListeners();
+    });
+
     // Handle cursor updates from other members
     this.socket.on("CURSOR_UPDATE", (event: { roomId: string; clientId: string; cursor: { x: number; y: number; lastUpdated: number } }) => {
       if (!this.state) return;
@@ -450,11 +685,13 @@ export class RealtimeClient {
         source?: "upload" | "youtube";
         youtubeVideoId?: string;
         thumbnailUrl?: string;
+        cues?: TrackCues;
       };
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] QUEUE_ADD received:", event.payload);
 
+      const { cues } = event.payload;
       const queueItem = {
         id: event.payload.queueItemId,
         trackId: event.payload.trackId,
@@ -467,6 +704,7 @@ export class RealtimeClient {
         source: event.payload.source ?? "upload",
         youtubeVideoId: event.payload.youtubeVideoId ?? null,
         thumbnailUrl: event.payload.thumbnailUrl ?? null,
+        ...(cues && { hotCues: cues.hotCues, savedLoops: cues.savedLoops, beatGrid: cues.beatGrid }),
       };
 
       const insertAt = event.payload.insertAt ?? this.state.queue.length;
@@ -535,21 +773,44 @@ export class RealtimeClient {
       this.notifyStateListeners();
     });
 
+    // QUEUE_ITEM_PLAYED - Auto-DJ mixed out of a track
+    this.socket.on("QUEUE_ITEM_PLAYED", (event: {
+      roomId: string;
+      version: number;
+      payload: { queueItemId: string };
+    }) => {
+      if (!this.state) return;
+      console.log("[RealtimeClient] QUEUE_ITEM_PLAYED received:", event.payload);
+
+      this.state = {
+        ...this.state,
+        version: event.version ?? this.state.version,
+        queue: this.state.queue.map((q) =>
+          q.id === event.payload.queueItemId
+            ? { ...q, status: "played" as const }
+            : q
+        ),
+      };
+      this.notifyStateListeners();
+    });
+
     // Deck event handlers
     this.socket.on("DECK_LOAD", (event: {
       roomId: string;
       clientId: string;
       serverTs: number;
-      payload: { deckId: "A" | "B"; trackId: string; queueItemId: string };
+      payload: { deckId: DeckId; trackId: string; queueItemId: string; cues?: TrackCues; gain?: number };
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] DECK_LOAD received:", event.payload);
 
-      const { deckId, trackId, queueItemId } = event.payload;
+      const { deckId, trackId, queueItemId, cues, gain } = event.payload;
       const item = this.state.queue.find((q) => q.id === queueItemId);
       if (!item) return;
 
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.loadedTrackId = trackId;
       deck.loadedQueueItemId = queueItemId;
       deck.playState = "stopped";
@@ -557,8 +818,17 @@ export class RealtimeClient {
       deck.cuePointSec = null;
       deck.durationSec = item.durationSec;
       deck.detectedBpm = null;
-
-      const newStatus = deckId === "A" ? "loaded_A" as const : "loaded_B" as const;
+      deck.detectedKey = item.key ?? null;
+      deck.slipShadow = null;
+      deck.reverse = false;
+      deck.motion = null;
+      // Restore the track's saved cues (sent by the server, else from the item)
+      deck.hotCues = [...(cues?.hotCues ?? item.hotCues ?? createEmptyHotCues())];
+      deck.savedLoops = [...(cues?.savedLoops ?? item.savedLoops ?? createEmptySavedLoops())];
+      const beatGrid = cues ? cues.beatGrid : item.beatGrid;
+      deck.beatGrid = beatGrid ? { ...beatGrid } : null;
+
+      const newStatus = `loaded_${deckId}` as const;
       const newQueue = this.state.queue.map((q) =>
         q.id === queueItemId
           ? { ...q, status: newStatus }
@@ -568,7 +838,8 @@ export class RealtimeClient {
       this.state = {
         ...this.state,
         queue: newQueue,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
+        mixer: withChannelGain(this.state.mixer, deckId, gain),
       };
       this.notifyStateListeners();
     });
@@ -576,16 +847,18 @@ export class RealtimeClient {
     this.socket.on("DECK_PLAY", (event: {
       roomId: string;
       serverTs: number;
-      payload: { deckId: "A" | "B" };
+      payload: { deckId: DeckId };
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] DECK_PLAY received:", event.payload);
 
       const { deckId } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.playState = "playing";
 
-      const playingStatus = deckId === "A" ? "playing_A" as const : "playing_B" as const;
+      const playingStatus = `playing_${deckId}` as const;
       const newQueue = this.state.queue.map((q) =>
         q.id === deck.loadedQueueItemId
           ? { ...q, status: playingStatus }
@@ -595,38 +868,44 @@ export class RealtimeClient {
       this.state = {
         ...this.state,
         queue: newQueue,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
 
     this.socket.on("DECK_PAUSE", (event: {
       roomId: string;
-      payload: { deckId: "A" | "B" };
+      payload: { deckId: DeckId };
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] DECK_PAUSE received:", event.payload);
 
       const { deckId } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.playState = "paused";
+      deck.slipShadow = null;
+      deck.motion = null;
 
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
 
     this.socket.on("DECK_CUE", (event: {
       roomId: string;
-      payload: { deckId: "A" | "B"; cuePointSec?: number };
+      payload: { deckId: DeckId; cuePointSec?: number };
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] DECK_CUE received:", event.payload);
 
       const { deckId, cuePointSec } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
 
       if (cuePointSec !== undefined) {
         deck.cuePointSec = cuePointSec;
@@ -634,28 +913,32 @@ export class RealtimeClient {
       if (deck.cuePointSec !== null) {
         deck.playheadSec = deck.cuePointSec;
         deck.playState = "cued";
+        deck.slipShadow = null;
+        deck.motion = null;
         }
 
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
 
     this.socket.on("DECK_SEEK", (event: {
       roomId: string;
-      payload: { deckId: "A" | "B"; positionSec: number };
+      payload: { deckId: DeckId; positionSec: number };
     }) => {
       if (!this.state) return;
 
       const { deckId, positionSec } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.playheadSec = positionSec;
 
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
@@ -663,14 +946,18 @@ export class RealtimeClient {
     this.socket.on("DECK_TEMPO_SET", (event: {
       roomId: string;
       clientId: string;
-      payload: { deckId: "A" | "B"; playbackRate: number };
+      payload: { deckId: DeckId; playbackRate: number };
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] DECK_TEMPO_SET received:", event.payload);
 
       const { deckId, playbackRate } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.playbackRate = playbackRate;
+      // A manual tempo change takes the deck out of sync
+      deck.syncEnabled = false;
 
       // NOTE: We do NOT directly apply to local audio deck here.
       // The BEACON_TICK handler will apply rate changes via DeckEngine,
@@ -678,7 +965,7 @@ export class RealtimeClient {
 
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
@@ -686,19 +973,12 @@ export class RealtimeClient {
     this.socket.on("DECK_BPM_DETECTED", (event: {
       roomId: string;
       clientId: string;
-      payload: { deckId: "A" | "B"; bpm: number };
+      payload: DetectedAnalysisPayload;
     }) => {
       if (!this.state) return;
       console.log("[RealtimeClient] DECK_BPM_DETECTED received:", event.payload);
 
-      const { deckId, bpm } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
-      deck.detectedBpm = bpm;
-
-      this.state = {
-        ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
-      };
+      this.state = applyDetectedAnalysis(this.state, event.payload);
       this.notifyStateListeners();
     });
 
@@ -722,15 +1002,31 @@ export class RealtimeClient {
     // DECK_LOOP_SET - update loop state
     this.socket.on("DECK_LOOP_SET", (event: {
       roomId: string;
-      payload: { deckId: "A" | "B"; enabled: boolean; startSec: number; endSec: number; lengthBars: number };
+      payload: {
+        deckId: DeckId;
+        enabled: boolean;
+        startSec: number;
+        endSec: number;
+        lengthBars: number;
+        slipShadow?: SlipShadow;
+      };
     }) => {
       if (!this.state) return;
-      const { deckId, enabled, startSec, endSec, lengthBars } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const { deckId, enabled, startSec, endSec, lengthBars, slipShadow } = event.payload;
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.loop = enabled ? { enabled, startSec, endSec, lengthBars } : null;
+      if (enabled) {
+        deck.slipShadow = slipShadow ?? deck.slipShadow;
+      } else {
+        // A slip loop resumes from the shadow, which also ends a roll
+        if (deck.slipShadow) deck.roll = null;
+        deck.slipShadow = null;
+      }
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
@@ -738,19 +1034,22 @@ export class RealtimeClient {
     // DECK_ROLL_START - update roll state
     this.socket.on("DECK_ROLL_START", (event: {
       roomId: string;
-      payload: { deckId: "A" | "B"; startSec: number; lengthBars: number; returnSec: number };
+      payload: { deckId: DeckId; startSec: number; lengthBars: number; returnSec: number; slipShadow?: SlipShadow };
     }) => {
       if (!this.state) return;
-      const { deckId, startSec, returnSec } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const { deckId, startSec, returnSec, slipShadow } = event.payload;
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       // Calculate endSec from BPM (same as server)
       const bpm = deck.detectedBpm ?? 120;
       const secondsPerBeat = 60 / (bpm * deck.playbackRate);
       const rollLengthSec = secondsPerBeat * 4 * event.payload.lengthBars;
       deck.roll = { active: true, startSec, endSec: startSec + rollLengthSec, returnSec };
+      deck.slipShadow = slipShadow ?? deck.slipShadow;
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
@@ -758,15 +1057,20 @@ export class RealtimeClient {
     // DECK_ROLL_STOP - clear roll state
     this.socket.on("DECK_ROLL_STOP", (event: {
       roomId: string;
-      payload: { deckId: "A" | "B" };
+      payload: { deckId: DeckId };
     }) => {
       if (!this.state) return;
       const { deckId } = event.payload;
-      const deck = deckId === "A" ? { ...this.state.deckA } : { ...this.state.deckB };
+      const current = this.state[deckKey(deckId)];
+      if (!current) return;
+      const deck = { ...current };
       deck.roll = null;
+      // A slip roll resumes from the shadow, which also ends a loop
+      if (deck.slipShadow) deck.loop = null;
+      deck.slipShadow = null;
       this.state = {
         ...this.state,
-        ...(deckId === "A" ? { deckA: deck } : { deckB: deck }),
+        [deckKey(deckId)]: deck,
       };
       this.notifyStateListeners();
     });
@@ -777,32 +1081,36 @@ export class RealtimeClient {
 
       // Feed beacons to DeckEngines for PLL-based sync
       try {
-        const deckEngineA = getDeckEngine("A");
-        const deckEngineB = getDeckEngine("B");
-
-        deckEngineA.applyServerBeacon(event.payload.deckA);
-        deckEngineB.applyServerBeacon(event.payload.deckB);
-
-        // Update state for UI (use beacon data as source of truth)
-        this.state = {
-          ...this.state,
-          deckA: {
-            ...this.state.deckA,
-            playState: event.payload.deckA.playState,
-            playheadSec: event.payload.deckA.playheadSec,
-            playbackRate: event.payload.deckA.playbackRate,
-            epochId: event.payload.deckA.epochId,
-            epochSeq: event.payload.deckA.epochSeq,
-          },
-          deckB: {
-            ...this.state.deckB,
-            playState: event.payload.deckB.playState,
-            playheadSec: event.payload.deckB.playheadSec,
-            playbackRate: event.payload.deckB.playbackRate,
-            epochId: event.payload.deckB.epochId,
-            epochSeq: event.payload.deckB.epochSeq,
-          },
-        };
+        const beacons = [
+          event.payload.deckA,
+          event.payload.deckB,
+          event.payload.deckC,
+          event.payload.deckD,
+        ];
+        let next = this.state;
+        for (const beacon of beacons) {
+          if (!beacon) continue; // C/D only exist in four-deck rooms
+          const current = next[deckKey(beacon.deckId)];
+          if (!current) continue;
+
+          getDeckEngine(beacon.deckId).applyServerBeacon(beacon);
+
+          // Update state for UI (use beacon data as source of truth)
+          next = {
+            ...next,
+            [deckKey(beacon.deckId)]: {
+              ...current,
+              playState: beacon.playState,
+              playheadSec: beacon.playheadSec,
+              playbackRate: beacon.playbackRate,
+              epochId: beacon.epochId,
+              epochSeq: beacon.epochSeq,
+              reverse: beacon.reverse,
+              motion: beacon.motion,
+            },
+          };
+        }
+        this.state = next;
         this.notifyStateListeners();
       } catch (error) {
         // DeckEngine may not be initialized yet, ignore
@@ -835,30 +1143,49 @@ export class RealtimeClient {
         // Apply value to appropriate mixer control
         if (controlId === "crossfader") mixer.crossfader = value;
         else if (controlId === "masterVolume") mixer.masterVolume = value;
-        else if (controlId.startsWith("channelA.")) {
-          mixer.channelA = { ...mixer.channelA };
-          if (controlId === "channelA.fader") mixer.channelA.fader = value;
-          else if (controlId === "channelA.gain") mixer.channelA.gain = value;
-          else if (controlId === "channelA.filter") mixer.channelA.filter = value;
-          else if (controlId.startsWith("channelA.eq.")) {
-            mixer.channelA.eq = { ...mixer.channelA.eq };
-            if (controlId === "channelA.eq.low") mixer.channelA.eq.low = value;
-            else if (controlId === "channelA.eq.mid") mixer.channelA.eq.mid = value;
-            else if (controlId === "channelA.eq.high") mixer.channelA.eq.high = value;
+        else if (/^channel[A-D]\./.test(controlId)) {
+          // "channelC.eq.low" -> channelC, ["eq", "low"]
+          const [channelKey, param, band] = controlId.split(".") as [
+            `channel${DeckId}`,
+            string,
+            string | undefined,
+          ];
+          const current = mixer[channelKey];
+          if (!current) return;
+          const channel = { ...current, eq: { ...current.eq } };
+          if (param === "fader") channel.fader = value;
+          else if (param === "gain") channel.gain = value;
+          else if (param === "filter") channel.filter = value;
+          else if (param === "eq") {
+            if (band === "low") channel.eq.low = value;
+            else if (band === "mid") channel.eq.mid = value;
+            else if (band === "high") channel.eq.high = value;
           }
-        } else if (controlId.startsWith("channelB.")) {
-          mixer.channelB = { ...mixer.channelB };
-          if (controlId === "channelB.fader") mixer.channelB.fader = value;
-          else if (controlId === "channelB.gain") mixer.channelB.gain = value;
-          else if (controlId === "channelB.filter") mixer.channelB.filter = value;
-          else if (controlId.startsWith("channelB.eq.")) {
-            mixer.channelB.eq = { ...mixer.channelB.eq };
-            if (controlId === "channelB.eq.low") mixer.channelB.eq.low = value;
-            else if (controlId === "channelB.eq.mid") mixer.channelB.eq.mid = value;
-            else if (controlId === "channelB.eq.high") mixer.channelB.eq.high = value;
+          mixer[channelKey] = channel;
+        } else if (/^fx[12]\./.test(controlId)) {
+          // "fx1.wetDry" / "fx1.chain.0.param"
+          const [unit, param, index] = controlId.split(".") as [
+            FxUnitId,
+            string,
+            string | undefined,
+          ];
+          const fx = { ...mixer[unit] };
+          if (param === "wetDry") fx.wetDry = value;
+          else if (param === "chain") {
+            const slotIndex = Number(index);
+            fx.chain = fx.chain.map((slot, i) =>
+              i === slotIndex ? { ...slot, param: value } : slot
+            );
           }
-        } else if (controlId === "headphoneMix") {
-          mixer.headphoneMix = value;
+          mixer[unit] = fx;
+        } else if (/^limiter\./.test(controlId)) {
+          // "limiter.threshold" / "limiter.release" / "limiter.ceiling"
+          const param = controlId.split(".")[1];
+          const limiter = { ...mixer.limiter };
+          if (param === "threshold") limiter.threshold = value;
+          else if (param === "release") limiter.release = value;
+          else if (param === "ceiling") limiter.ceiling = value;
+          mixer.limiter = limiter;
         }
 
         this.state = { ...this.state, mixer };
@@ -874,7 +1201,8 @@ export class RealtimeClient {
       clientId: string;
       serverTs: number;
       payload: {
-        param: "type" | "wetDry" | "param";
+        unit: FxUnitId;
+        param: "wetDry" | "assign";
         value: string | number;
       };
     }) => {
@@ -882,16 +1210,15 @@ export class RealtimeClient {
         if (!this.state) return;
         console.log("[RealtimeClient] FX_SET received:", event.payload);
 
+        const { unit, param, value } = event.payload;
         const mixer = { ...this.state.mixer };
-        mixer.fx = { ...mixer.fx };
-
-        const { param, value } = event.payload;
-        if (param === "type") {
-          mixer.fx.type = value as "echo" | "reverb" | "filter" | "none";
-        } else if (param === "wetDry") {
-          mixer.fx.wetDry = value as number;
-        } else if (param === "param") {
-          mixer.fx.param = value as number;
+        const fx = { ...mixer[unit] };
+        mixer[unit] = fx;
+
+        if (param === "wetDry") {
+          fx.wetDry = value as number;
+        } else if (param === "assign") {
+          fx.assign = value as FxAssign;
         }
 
         this.state = { ...this.state, mixer };
@@ -907,6 +1234,7 @@ export class RealtimeClient {
       clientId: string;
       serverTs: number;
       payload: {
+        unit: FxUnitId;
         enabled: boolean;
       };
     }) => {
@@ -914,9 +1242,9 @@ export class RealtimeClient {
         if (!this.state) return;
         console.log("[RealtimeClient] FX_TOGGLE received:", event.payload);
 
+        const { unit, enabled } = event.payload;
         const mixer = { ...this.state.mixer };
-        mixer.fx = { ...mixer.fx };
-        mixer.fx.enabled = event.payload.enabled;
+        mixer[unit] = { ...mixer[unit], enabled };
 
         this.state = { ...this.state, mixer };
         this.notifyStateListeners();
@@ -925,27 +1253,86 @@ export class RealtimeClient {
       }
     });
 
-    // DECK_HOT_CUE_SET - update hot cue point on deck
+    // FX_CHAIN_SET - replace a unit's processor chain
+    this.socket.on("FX_CHAIN_SET", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      payload: {
+        unit: FxUnitId;
+        chain: FxChainSlot[];
+      };
+    }) => {
+      try {
+        if (!this.state) return;
+        console.log("[RealtimeClient] FX_CHAIN_SET received:", event.payload);
+
+        const { unit, chain } = event.payload;
+        const mixer = { ...this.state.mixer };
+        mixer[unit] = {
+          ...mixer[unit],
+          chain,
+          enabled: chain.length === 0 ? false : mixer[unit].enabled,
+        };
+
+        this.state = { ...this.state, mixer };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] FX_CHAIN_SET handler error:", error);
+      }
+    });
+
+    // LIMITER_TOGGLE - master limiter in/out of the signal path
+    this.socket.on("LIMITER_TOGGLE", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      payload: {
+        enabled: boolean;
+      };
+    }) => {
+      try {
+        if (!this.state) return;
+        console.log("[RealtimeClient] LIMITER_TOGGLE received:", event.payload);
+
+        const mixer = { ...this.state.mixer };
+        mixer.limiter = { ...mixer.limiter, enabled: event.payload.enabled };
+
+        this.state = { ...this.state, mixer };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] LIMITER_TOGGLE handler error:", error);
+      }
+    });
+
+    // DECK_HOT_CUE_SET - a hot cue slot was set, moved or renamed
     this.socket.on("DECK_HOT_CUE_SET", (event: {
       roomId: string;
       clientId: string;
       serverTs: number;
       version: number;
       payload: {
-        deckId: "A" | "B";
-        hotCuePointSec: number | null;
+        deckId: DeckId;
+        index: number;
+        positionSec: number;
+        label?: string | null;
+        color?: string | null;
       };
     }) => {
       try {
         if (!this.state) return;
-        const deck = event.payload.deckId === "A"
-          ? { ...this.state.deckA }
-          : { ...this.state.deckB };
-        deck.hotCuePointSec = event.payload.hotCuePointSec;
+        const { deckId, index, positionSec, label, color } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        const cue: HotCue = { positionSec, label: label ?? null, color: color ?? null };
+        const deck = {
+          ...current,
+          hotCues: current.hotCues.map((c, i) => (i === index ? cue : c)),
+        };
         this.state = {
           ...this.state,
           version: event.version ?? this.state.version,
-          [event.payload.deckId === "A" ? "deckA" : "deckB"]: deck,
+          [deckKey(deckId)]: deck,
         };
         this.notifyStateListeners();
       } catch (error) {
@@ -953,6 +1340,410 @@ export class RealtimeClient {
       }
     });
 
+    // DECK_HOT_CUE_CLEAR - a hot cue slot was emptied
+    this.socket.on("DECK_HOT_CUE_CLEAR", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: { deckId: DeckId; index: number };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, index } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        const deck = {
+          ...current,
+          hotCues: current.hotCues.map((c, i) => (i === index ? null : c)),
+        };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_HOT_CUE_CLEAR handler error:", error);
+      }
+    });
+
+    // DECK_HOT_CUE_JUMP - deck jumped to a hot cue and is playing from there
+    this.socket.on("DECK_HOT_CUE_JUMP", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: { deckId: DeckId; index: number; slipShadow?: SlipShadow };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, index, slipShadow } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        const cue = current?.hotCues[index];
+        if (!current || !cue) return;
+        const deck = {
+          ...current,
+          playheadSec: cue.positionSec,
+          playState: "playing" as const,
+          slipShadow: slipShadow ?? current.slipShadow,
+        };
+
+        const playingStatus = `playing_${deckId}` as const;
+        const newQueue = this.state.queue.map((q) =>
+          q.id === deck.loadedQueueItemId
+            ? { ...q, status: playingStatus }
+            : q
+        );
+
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          queue: newQueue,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_HOT_CUE_JUMP handler error:", error);
+      }
+    });
+
+    // DECK_LOOP_SAVE - the active loop was saved into a slot
+    this.socket.on("DECK_LOOP_SAVE", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: { deckId: DeckId; index: number; loop?: SavedLoop };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, index, loop } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current || !loop) return;
+        const deck = {
+          ...current,
+          savedLoops: current.savedLoops.map((l, i) => (i === index ? loop : l)),
+        };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_LOOP_SAVE handler error:", error);
+      }
+    });
+
+    // DECK_LOOP_DELETE - a saved loop slot was emptied
+    this.socket.on("DECK_LOOP_DELETE", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: { deckId: DeckId; index: number };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, index } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        const deck = {
+          ...current,
+          savedLoops: current.savedLoops.map((l, i) => (i === index ? null : l)),
+        };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_LOOP_DELETE handler error:", error);
+      }
+    });
+
+    // DECK_BEAT_GRID_SET - loaded track's beat grid was edited
+    this.socket.on("DECK_BEAT_GRID_SET", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: {
+        deckId: DeckId;
+        beatGrid: BeatGrid;
+      };
+    }) => {
+      try {
+        if (!this.state) return;
+        const current = this.state[deckKey(event.payload.deckId)];
+        if (!current) return;
+        const { beatGrid } = event.payload;
+        const deck = { ...current, beatGrid: { ...beatGrid }, detectedBpm: beatGrid.bpm };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          queue: this.state.queue.map((q) =>
+            q.id === deck.loadedQueueItemId ? { ...q, beatGrid: { ...beatGrid } } : q
+          ),
+          [deckKey(event.payload.deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_BEAT_GRID_SET handler error:", error);
+      }
+    });
+
+    // DECK_SYNC - SYNC toggled; the server already matched tempo and phase,
+    // the new epoch arrives with the next BEACON_TICK
+    this.socket.on("DECK_SYNC", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: {
+        deckId: DeckId;
+        enabled: boolean;
+        playbackRate?: number;
+      };
+    }) => {
+      try {
+        if (!this.state) return;
+        const current = this.state[deckKey(event.payload.deckId)];
+        if (!current) return;
+        const { enabled, playbackRate } = event.payload;
+        const deck = {
+          ...current,
+          syncEnabled: enabled,
+          playbackRate: playbackRate ?? current.playbackRate,
+        };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(event.payload.deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_SYNC handler error:", error);
+      }
+    });
+
+    // DECK_QUANTIZE_SET - deck quantize resolution changed
+    this.socket.on("DECK_QUANTIZE_SET", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: {
+        deckId: DeckId;
+        quantize: QuantizeMode;
+      };
+    }) => {
+      try {
+        if (!this.state) return;
+        const current = this.state[deckKey(event.payload.deckId)];
+        if (!current) return;
+        const deck = { ...current, quantize: event.payload.quantize };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(event.payload.deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_QUANTIZE_SET handler error:", error);
+      }
+    });
+
+    // DECK_KEY_LOCK_SET - deck key lock toggled
+    this.socket.on("DECK_KEY_LOCK_SET", (event: {
+      roomId: string;
+      clientId: string;
+      serverTs: number;
+      version: number;
+      payload: {
+        deckId: DeckId;
+        enabled: boolean;
+      };
+    }) => {
+      try {
+        if (!this.state) return;
+        const current = this.state[deckKey(event.payload.deckId)];
+        if (!current) return;
+        const deck = { ...current, keyLock: event.payload.enabled };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(event.payload.deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_KEY_LOCK_SET handler error:", error);
+      }
+    });
+
+    // DECK_SLIP_SET - deck slip mode toggled (turning it off drops the shadow)
+    this.socket.on("DECK_SLIP_SET", (event: {
+      roomId: string;
+      version: number;
+      payload: { deckId: DeckId; enabled: boolean };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, enabled } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        const deck = { ...current, slip: enabled, slipShadow: enabled ? current.slipShadow : null };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_SLIP_SET handler error:", error);
+      }
+    });
+
+    // DECK_SLIP_START - a slip gesture started the shadow playhead
+    this.socket.on("DECK_SLIP_START", (event: {
+      roomId: string;
+      version: number;
+      payload: { deckId: DeckId; slipShadow?: SlipShadow };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, slipShadow } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        const deck = { ...current, slipShadow: slipShadow ?? current.slipShadow };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_SLIP_START handler error:", error);
+      }
+    });
+
+    // DECK_SLIP_RELEASE - deck resumed from the shadow playhead
+    // (the audio follows the new epoch on the next BEACON_TICK)
+    this.socket.on("DECK_SLIP_RELEASE", (event: {
+      roomId: string;
+      version: number;
+      payload: { deckId: DeckId; positionSec?: number };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, positionSec } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        const deck =
+          positionSec !== undefined
+            ? { ...current, slipShadow: null, playheadSec: positionSec, loop: null, roll: null }
+            : { ...current, slipShadow: null };
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: deck,
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_SLIP_RELEASE handler error:", error);
+      }
+    });
+
+    // DECK_REVERSE_SET - deck direction changed (the audio turns round on the next BEACON_TICK)
+    this.socket.on("DECK_REVERSE_SET", (event: {
+      roomId: string;
+      version: number;
+      payload: { deckId: DeckId; enabled: boolean; slipShadow?: SlipShadow; positionSec?: number };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, enabled, slipShadow, positionSec } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: applyReverse(current, enabled, slipShadow, positionSec),
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_REVERSE_SET handler error:", error);
+      }
+    });
+
+    // DECK_CENSOR - momentary reverse that slips back on release
+    this.socket.on("DECK_CENSOR", (event: {
+      roomId: string;
+      version: number;
+      payload: { deckId: DeckId; active: boolean; slipShadow?: SlipShadow; positionSec?: number };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, active, slipShadow, positionSec } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current) return;
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: applyReverse(current, active, slipShadow, positionSec),
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_CENSOR handler error:", error);
+      }
+    });
+
+    // DECK_BRAKE - brake/spin-back started (the server pauses the deck when it ends)
+    this.socket.on("DECK_BRAKE", (event: {
+      roomId: string;
+      version: number;
+      payload: { deckId: DeckId; motion?: DeckMotion };
+    }) => {
+      try {
+        if (!this.state) return;
+        const { deckId, motion } = event.payload;
+        const current = this.state[deckKey(deckId)];
+        if (!current || !motion) return;
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          [deckKey(deckId)]: { ...current, motion },
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] DECK_BRAKE handler error:", error);
+      }
+    });
+
+    // AUTO_DJ_SET - Auto-DJ turned on/off (stoppedBy: a member's control grab)
+    this.socket.on("AUTO_DJ_SET", (event: {
+      roomId: string;
+      version: number;
+      payload: { enabled: boolean; mixBars?: AutoDjMixBars; stoppedBy?: string };
+    }) => {
+      try {
+        if (!this.state) return;
+        console.log("[RealtimeClient] AUTO_DJ_SET received:", event.payload);
+
+        const { enabled, mixBars } = event.payload;
+        this.state = {
+          ...this.state,
+          version: event.version ?? this.state.version,
+          autoDj: { enabled, mixBars: mixBars ?? this.state.autoDj.mixBars },
+        };
+        this.notifyStateListeners();
+      } catch (error) {
+        console.error("[RealtimeClient] AUTO_DJ_SET handler error:", error);
+      }
+    });
+
     // SAMPLER_SOUND_CHANGED - another client changed a sampler slot
     this.socket.on("SAMPLER_SOUND_CHANGED", (event: {
       type: string;
@@ -979,6 +1770,12 @@ export class RealtimeClient {
       }
     });
 
+    // RECORDING_ADDED - a member uploaded a recording of the set
+    this.socket.on("RECORDING_ADDED", (event: RecordingAddedEvent) => {
+      if (event.roomId !== this.state?.roomId) return;
+      this.recordingListeners.forEach((l) => l(event.payload));
+    });
+
     // Control ownership updates
     // Server sends: { type: "CONTROL_OWNERSHIP", roomId, controlId, ownership }
     this.socket.on("CONTROL_OWNERSHIP", (event: {
@@ -1,7 +1,13 @@
 "use client";
 
 import { useCallback, useEffect, useState, useRef } from "react";
-import type { RoomState, ClientMutationEvent } from "@puid-board/shared";
+import type {
+  RoomState,
+  ClientMutationEvent,
+  MemberRole,
+  DeckCount,
+  MemberMonitorSetPayload,
+} from "@puid-board/shared";
 import {
   getRealtimeClient,
   RealtimeClient,
@@ -15,6 +21,8 @@ export type UseRealtimeRoomOptions = {
   name: string;
   /** Whether to create a new room instead of joining */
   create?: boolean;
+  /** Number of decks for a newly created room */
+  deckCount?: DeckCount;
   /** Auto-create room if join fails (room not found) */
   autoCreate?: boolean;
   onMemberJoined?: (payload: { clientId: string; name: string; color: string }) => void;
@@ -30,6 +38,8 @@ export type UseRealtimeRoomResult = {
   error: { type: string; message: string } | null;
   sendEvent: (event: ClientMutationEvent) => void;
   sendRename: (newName: string) => void;
+  sendRoleChange: (targetClientId: string, role: Exclude<MemberRole, "host">) => void;
+  sendMonitor: (update: MemberMonitorSetPayload) => void;
   leaveRoom: () => void;
 };
 
@@ -40,7 +50,7 @@ export type UseRealtimeRoomResult = {
 export function useRealtimeRoom(
   options: UseRealtimeRoomOptions
 ): UseRealtimeRoomResult {
-  const { roomCode, name, create = false, autoCreate = false, onMemberJoined, onMemberLeft, onMemberRenamed } = options;
+  const { roomCode, name, create = false, deckCount, autoCreate = false, onMemberJoined, onMemberLeft, onMemberRenamed } = options;
 
   const [state, setState] = useState<RoomState | null>(null);
   const [clientId, setClientId] = useState<string | null>(null);
@@ -92,7 +102,7 @@ export function useRealtimeRoom(
         hasJoinedRef.current = true;
         joinedRoomCodeRef.current = create ? "create" : roomCode || null;
         if (create) {
-          client.createRoom(name);
+          client.createRoom(name, deckCount);
         } else if (roomCode) {
           client.joinRoom(roomCode, name);
         }
@@ -105,7 +115,7 @@ export function useRealtimeRoom(
       // If room not found and autoCreate is enabled, create it
       if (err.type === "ROOM_NOT_FOUND" && autoCreate && !hasTriedCreateRef.current) {
         hasTriedCreateRef.current = true;
-        client.createRoom(name);
+        client.createRoom(name, deckCount);
         return; // Don't show error, we're auto-creating
       }
 
@@ -129,7 +139,7 @@ export function useRealtimeRoom(
       hasJoinedRef.current = true;
       joinedRoomCodeRef.current = create ? "create" : roomCode || null;
       if (create) {
-        client.createRoom(name);
+        client.createRoom(name, deckCount);
       } else if (roomCode) {
         client.joinRoom(roomCode, name);
       }
@@ -150,7 +160,7 @@ export function useRealtimeRoom(
       unsubLeft();
       unsubRenamed();
     };
-  }, [client, roomCode, name, create, autoCreate]);
+  }, [client, roomCode, name, create, deckCount, autoCreate]);
 
   const sendEvent = useCallback(
     (event: ClientMutationEvent) => {
@@ -166,6 +176,20 @@ export function useRealtimeRoom(
     [client]
   );
 
+  const sendRoleChange = useCallback(
+    (targetClientId: string, role: Exclude<MemberRole, "host">) => {
+      client.sendRoleChange(targetClientId, role);
+    },
+    [client]
+  );
+
+  const sendMonitor = useCallback(
+    (update: MemberMonitorSetPayload) => {
+      client.sendMonitor(update);
+    },
+    [client]
+  );
+
   const leaveRoom = useCallback(() => {
     client.leaveRoom();
     hasJoinedRef.current = false;
@@ -180,6 +204,8 @@ export function useRealtimeRoom(
     error,
     sendEvent,
     sendRename,
+    sendRoleChange,
+    sendMonitor,
     leaveRoom,
   };
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  bindShortcut,
+  createDefaultShortcutMap,
+  exportShortcutMap,
+  findShortcutAction,
+  findShortcutConflicts,
+  getKeyLabel,
+  parseShortcutMap,
+} from "./keymap";
+
+describe("shortcut keymap", () => {
+  it("ships a conflict-free default map on physical keys", () => {
+    const map = createDefaultShortcutMap();
+    expect(findShortcutConflicts(map)).toEqual([]);
+    expect(findShortcutAction(map, "KeyR")).toBe("sampler.1");
+    expect(findShortcutAction(map, "Digit1")).toBe("left.pad1");
+    expect(findShortcutAction(map, "KeyQ")).toBeNull();
+  });
+
+  it("labels keys from the layout map when available", () => {
+    expect(getKeyLabel("KeyQ")).toBe("Q");
+    expect(getKeyLabel("Digit7")).toBe("7");
+    expect(getKeyLabel("BracketLeft")).toBe("[");
+    expect(getKeyLabel(null)).toBe("");
+    // AZERTY
+    const azerty = new Map([["KeyQ", "a"], ["Digit1", "&"]]);
+    expect(getKeyLabel("KeyQ", azerty)).toBe("A");
+    expect(getKeyLabel("Digit1", azerty)).toBe("&");
+  });
+
+  it("unbinds the previous owner when a key is reused", () => {
+    const { map, displaced } = bindShortcut(createDefaultShortcutMap(), "left.play", "KeyR");
+    expect(displaced).toBe("sampler.1");
+    expect(map["left.play"]).toBe("KeyR");
+    expect(map["sampler.1"]).toBeNull();
+    expect(findShortcutConflicts(map)).toEqual([]);
+
+    // Rebinding an action to its own key displaces nothing
+    expect(bindShortcut(map, "left.play", "KeyR").displaced).toBeNull();
+  });
+
+  it("round-trips through export and import", () => {
+    const { map } = bindShortcut(createDefaultShortcutMap(), "left.cue", "KeyW");
+    expect(parseShortcutMap(exportShortcutMap(map))).toEqual({ ok: true, map });
+  });
+
+  it("fills missing actions with defaults and rejects conflicting imports", () => {
+    const partial = parseShortcutMap(JSON.stringify({ shortcuts: { "left.cue": "KeyW", bogus: "KeyB" } }));
+    expect(partial.ok && partial.map["left.cue"]).toBe("KeyW");
+    expect(partial.ok && partial.map["right.cue"]).toBe("KeyN");
+
+    const conflict = parseShortcutMap(JSON.stringify({ shortcuts: { "left.cue": "KeyR" } }));
+    expect(conflict).toEqual({
+      ok: false,
+      error: "R is bound to both Left Deck: Cue and Sampler: Sample 1",
+    });
+
+    expect(parseShortcutMap("{").ok).toBe(false);
+    expect(parseShortcutMap(JSON.stringify({ shortcuts: { "left.cue": 5 } })).ok).toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Keyboard shortcut map - which physical key triggers which board action.
+ *
+ * Keys are stored as KeyboardEvent.code (the physical key), so the defaults
+ * sit in the same place on QWERTY, AZERTY and QWERTZ keyboards; labels come
+ * from the user's layout when the browser can tell us, see getKeyLabel().
+ *
+ * Deck shortcuts follow the board sides rather than deck IDs: in four-deck
+ * rooms they act on whichever layer is showing on that side.
+ */
+
+export type BoardSide = "left" | "right";
+
+export const SHORTCUT_GROUPS = ["Left Deck", "Right Deck", "Sampler", "Mixer", "General"] as const;
+export type ShortcutGroup = (typeof SHORTCUT_GROUPS)[number];
+
+export const SHORTCUT_ACTIONS = [
+  { id: "left.cue", label: "Cue", group: "Left Deck", defaultCode: "KeyZ" },
+  { id: "left.play", label: "Play / Pause", group: "Left Deck", defaultCode: "KeyX" },
+  { id: "left.sync", label: "Sync", group: "Left Deck", defaultCode: "KeyC" },
+  { id: "left.pad1", label: "Pad 1", group: "Left Deck", defaultCode: "Digit1" },
+  { id: "left.pad2", label: "Pad 2", group: "Left Deck", defaultCode: "Digit2" },
+  { id: "left.pad3", label: "Pad 3", group: "Left Deck", defaultCode: "Digit3" },
+  { id: "left.pad4", label: "Pad 4", group: "Left Deck", defaultCode: "Digit4" },
+  { id: "right.cue", label: "Cue", group: "Right Deck", defaultCode: "KeyN" },
+  { id: "right.play", label: "Play / Pause", group: "Right Deck", defaultCode: "KeyM" },
+  { id: "right.sync", label: "Sync", group: "Right Deck", defaultCode: "Comma" },
+  { id: "right.pad1", label: "Pad 1", group: "Right Deck", defaultCode: "Digit7" },
+  { id: "right.pad2", label: "Pad 2", group: "Right Deck", defaultCode: "Digit8" },
+  { id: "right.pad3", label: "Pad 3", group: "Right Deck", defaultCode: "Digit9" },
+  { id: "right.pad4", label: "Pad 4", group: "Right Deck", defaultCode: "Digit0" },
+  { id: "sampler.1", label: "Sample 1", group: "Sampler", defaultCode: "KeyR" },
+  { id: "sampler.2", label: "Sample 2", group: "Sampler", defaultCode: "KeyT" },
+  { id: "sampler.3", label: "Sample 3", group: "Sampler", defaultCode: "KeyY" },
+  { id: "sampler.4", label: "Sample 4", group: "Sampler", defaultCode: "KeyU" },
+  { id: "crossfader.left", label: "Crossfader left", group: "Mixer", defaultCode: "BracketLeft" },
+  { id: "crossfader.center", label: "Crossfader center", group: "Mixer", defaultCode: "Backslash" },
+  { id: "crossfader.right", label: "Crossfader right", group: "Mixer", defaultCode: "BracketRight" },
+  { id: "overlay", label: "Show shortcuts", group: "General", defaultCode: "Slash" },
+] as const satisfies readonly {
+  id: string;
+  label: string;
+  group: ShortcutGroup;
+  defaultCode: string;
+}[];
+
+export type ShortcutAction = (typeof SHORTCUT_ACTIONS)[number]["id"];
+
+/** Action to key code (null = unbound) */
+export type ShortcutMap = Record<ShortcutAction, string | null>;
+
+/** A key bound to more than one action */
+export interface ShortcutConflict {
+  code: string;
+  actions: ShortcutAction[];
+}
+
+/** Format version written into exported maps */
+const EXPORT_VERSION = 1;
+
+const ACTION_IDS = new Set<string>(SHORTCUT_ACTIONS.map((a) => a.id));
+
+/** Labels for codes that aren't a plain letter or digit */
+const CODE_LABELS: Record<string, string> = {
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Semicolon: ";",
+  Quote: "'",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Backslash: "\\",
+  Backquote: "`",
+  Minus: "-",
+  Equal: "=",
+  Space: "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+/** Get the default shortcut map */
+export function createDefaultShortcutMap(): ShortcutMap {
+  const map = {} as ShortcutMap;
+  for (const action of SHORTCUT_ACTIONS) {
+    map[action.id] = action.defaultCode;
+  }
+  return map;
+}
+
+/** Display name for an action, e.g. "Left Deck: Cue" */
+export function getShortcutLabel(id: ShortcutAction): string {
+  const action = SHORTCUT_ACTIONS.find((a) => a.id === id)!;
+  return `${action.group}: ${action.label}`;
+}
+
+/** Shortcut action for a sampler slot (0-3) */
+export function getSamplerShortcut(slot: number): ShortcutAction {
+  return `sampler.${slot + 1}` as ShortcutAction;
+}
+
+/** Find the action bound to a key code */
+export function findShortcutAction(map: ShortcutMap, code: string): ShortcutAction | null {
+  return SHORTCUT_ACTIONS.find((a) => map[a.id] === code)?.id ?? null;
+}
+
+/**
+ * Label for a key code.
+ * Uses the keyboard layout map when available (so AZERTY users see "A" for
+ * the key QWERTY calls Q), otherwise derives the US label from the code.
+ */
+export function getKeyLabel(code: string | null, layout?: ReadonlyMap<string, string> | null): string {
+  if (!code) return "";
+  const fromLayout = layout?.get(code);
+  if (fromLayout) return fromLayout.toUpperCase();
+
+  const keyMatch = /^(?:Key|Digit)(.)$/.exec(code);
+  if (keyMatch) return keyMatch[1]!;
+  const numpadMatch = /^Numpad(.+)$/.exec(code);
+  if (numpadMatch) return `Num ${numpadMatch[1]}`;
+  return CODE_LABELS[code] ?? code;
+}
+
+/** Keys bound to more than one action */
+export function findShortcutConflicts(map: ShortcutMap): ShortcutConflict[] {
+  const byCode = new Map<string, ShortcutAction[]>();
+  for (const action of SHORTCUT_ACTIONS) {
+    const code = map[action.id];
+    if (!code) continue;
+    byCode.set(code, [...(byCode.get(code) ?? []), action.id]);
+  }
+  return Array.from(byCode, ([code, actions]) => ({ code, actions })).filter(
+    (c) => c.actions.length > 1
+  );
+}
+
+/**
+ * Bind a key to an action.
+ * An action already using the key is unbound; it's returned so the caller
+ * can tell the user what was displaced.
+ */
+export function bindShortcut(
+  map: ShortcutMap,
+  action: ShortcutAction,
+  code: string | null
+): { map: ShortcutMap; displaced: ShortcutAction | null } {
+  const existing = code ? findShortcutAction(map, code) : null;
+  const displaced = existing !== action ? existing : null;
+  const next = { ...map, [action]: code };
+  if (displaced) next[displaced] = null;
+  return { map: next, displaced };
+}
+
+/** Serialize a map for export */
+export function exportShortcutMap(map: ShortcutMap): string {
+  return JSON.stringify({ version: EXPORT_VERSION, shortcuts: map }, null, 2);
+}
+
+/**
+ * Parse an exported (or stored) map.
+ * Actions missing from the file keep their defaults; unknown actions are
+ * ignored. Maps with conflicting keys are rejected.
+ */
+export function parseShortcutMap(
+  json: string
+): { ok: true; map: ShortcutMap } | { ok: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: "Not a valid JSON file" };
+  }
+
+  const shortcuts = (data as { shortcuts?: unknown } | null)?.shortcuts;
+  if (typeof shortcuts !== "object" || shortcuts === null || Array.isArray(shortcuts)) {
+    return { ok: false, error: "No shortcuts found in file" };
+  }
+
+  const map = createDefaultShortcutMap();
+  for (const [id, code] of Object.entries(shortcuts)) {
+    if (!ACTION_IDS.has(id)) continue;
+    if (code !== null && typeof code !== "string") {
+      return { ok: false, error: `Invalid key for "${id}"` };
+    }
+    map[id as ShortcutAction] = code || null;
+  }
+
+  const conflicts = findShortcutConflicts(map);
+  if (conflicts.length > 0) {
+    const { code, actions } = conflicts[0]!;
+    return {
+      ok: false,
+      error: `${getKeyLabel(code)} is bound to both ${actions.map(getShortcutLabel).join(" and ")}`,
+    };
+  }
+  return { ok: true, map };
+}
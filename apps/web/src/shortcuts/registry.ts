@@ -0,0 +1,112 @@
+/**
+ * Shortcut registry - the user's keyboard shortcut map, stored in localStorage.
+ *
+ * Components register handlers for actions through useShortcuts(); the
+ * registry decides which key triggers them. The keyboard layout map (where
+ * the browser exposes one) is loaded once so keys are labelled as printed on
+ * the user's keyboard.
+ */
+
+import {
+  bindShortcut,
+  createDefaultShortcutMap,
+  parseShortcutMap,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "./keymap";
+
+const STORAGE_KEY = "puid-shortcuts";
+
+/** Shortcut registry state */
+export interface ShortcutState {
+  map: ShortcutMap;
+  /** Physical key code to the character it types (null until loaded or if unsupported) */
+  layout: ReadonlyMap<string, string> | null;
+  /** Shortcut handling is paused (e.g. while a key is being rebound) */
+  suspended: boolean;
+}
+
+type ShortcutListener = (state: ShortcutState) => void;
+
+/** Keyboard API (Chromium only, not in the DOM typings) */
+type NavigatorWithKeyboard = Navigator & {
+  keyboard?: { getLayoutMap?: () => Promise<ReadonlyMap<string, string>> };
+};
+
+let shortcutState: ShortcutState | null = null;
+let layoutRequested = false;
+const listeners = new Set<ShortcutListener>();
+
+function loadMap(): ShortcutMap {
+  if (typeof window === "undefined") return createDefaultShortcutMap();
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return createDefaultShortcutMap();
+  const result = parseShortcutMap(raw);
+  return result.ok ? result.map : createDefaultShortcutMap();
+}
+
+function setShortcutState(next: ShortcutState): void {
+  const persist = !shortcutState || next.map !== shortcutState.map;
+  shortcutState = next;
+  if (persist && typeof window !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ shortcuts: next.map }));
+  }
+  for (const listener of listeners) {
+    listener(shortcutState);
+  }
+}
+
+/** Ask the browser for the keyboard layout (once) */
+function requestLayout(): void {
+  if (layoutRequested || typeof navigator === "undefined") return;
+  layoutRequested = true;
+
+  const keyboard = (navigator as NavigatorWithKeyboard).keyboard;
+  keyboard?.getLayoutMap?.()
+    .then((layout) => setShortcutState({ ...getShortcutState(), layout }))
+    .catch((err) => console.warn("[shortcuts] Keyboard layout unavailable:", err));
+}
+
+/**
+ * Get the shortcut state (loaded from localStorage on first use).
+ */
+export function getShortcutState(): ShortcutState {
+  if (!shortcutState) {
+    shortcutState = { map: loadMap(), layout: null, suspended: false };
+    requestLayout();
+  }
+  return shortcutState;
+}
+
+/**
+ * Subscribe to shortcut changes.
+ */
+export function subscribeToShortcuts(listener: ShortcutListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Bind a key to an action (null to unbind).
+ * Returns the action that previously had the key, if any.
+ */
+export function setShortcut(action: ShortcutAction, code: string | null): ShortcutAction | null {
+  const state = getShortcutState();
+  const { map, displaced } = bindShortcut(state.map, action, code);
+  setShortcutState({ ...state, map });
+  return displaced;
+}
+
+/**
+ * Replace the whole map (import, reset to defaults).
+ */
+export function setShortcutMap(map: ShortcutMap): void {
+  setShortcutState({ ...getShortcutState(), map });
+}
+
+/**
+ * Pause or resume shortcut handling.
+ */
+export function setShortcutsSuspended(suspended: boolean): void {
+  setShortcutState({ ...getShortcutState(), suspended });
+}
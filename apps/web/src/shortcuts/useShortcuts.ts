@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { findShortcutAction, type ShortcutAction } from "./keymap";
+import { getShortcutState, subscribeToShortcuts, type ShortcutState } from "./registry";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/** Keys typed into form fields are never shortcuts */
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+/**
+ * Whether a keydown should be looked up in the shortcut map.
+ * Browser shortcuts (Ctrl/Cmd/Alt combos) and key repeat are left alone.
+ */
+export function isShortcutEvent(e: KeyboardEvent): boolean {
+  return (
+    !e.ctrlKey &&
+    !e.metaKey &&
+    !e.altKey &&
+    !isTypingTarget(e.target) &&
+    !getShortcutState().suspended
+  );
+}
+
+/**
+ * Hook to get the shortcut map and key labels.
+ */
+export function useShortcutState(): ShortcutState {
+  const [state, setState] = useState<ShortcutState>(getShortcutState);
+
+  useEffect(() => subscribeToShortcuts(setState), []);
+
+  return state;
+}
+
+/**
+ * Hook to run handlers when their actions' keys are pressed.
+ * Handlers may change every render; the listener is attached once.
+ */
+export function useShortcuts(handlers: ShortcutHandlers, disabled = false): void {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (disabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || !isShortcutEvent(e)) return;
+      const action = findShortcutAction(getShortcutState().map, e.code);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [disabled]);
+}
@@ -33,18 +33,46 @@ export const CHANNEL_B_EQ_MID = "channelB.eq.mid" as const;
 export const CHANNEL_B_EQ_HIGH = "channelB.eq.high" as const;
 export const CHANNEL_B_FILTER = "channelB.filter" as const;
 
-/** FX controls */
-export const FX_WET_DRY = "fx.wetDry" as const;
-export const FX_PARAM = "fx.param" as const;
+/** Channel C controls (four-deck rooms) */
+export const CHANNEL_C_FADER = "channelC.fader" as const;
+export const CHANNEL_C_GAIN = "channelC.gain" as const;
+export const CHANNEL_C_EQ_LOW = "channelC.eq.low" as const;
+export const CHANNEL_C_EQ_MID = "channelC.eq.mid" as const;
+export const CHANNEL_C_EQ_HIGH = "channelC.eq.high" as const;
+export const CHANNEL_C_FILTER = "channelC.filter" as const;
 
-/** Headphone/PFL controls */
-export const HEADPHONE_MIX = "headphoneMix" as const;
+/** Channel D controls (four-deck rooms) */
+export const CHANNEL_D_FADER = "channelD.fader" as const;
+export const CHANNEL_D_GAIN = "channelD.gain" as const;
+export const CHANNEL_D_EQ_LOW = "channelD.eq.low" as const;
+export const CHANNEL_D_EQ_MID = "channelD.eq.mid" as const;
+export const CHANNEL_D_EQ_HIGH = "channelD.eq.high" as const;
+export const CHANNEL_D_FILTER = "channelD.filter" as const;
+
+/** FX unit controls (one param knob per chain slot) */
+export const FX1_WET_DRY = "fx1.wetDry" as const;
+export const FX1_CHAIN_0_PARAM = "fx1.chain.0.param" as const;
+export const FX1_CHAIN_1_PARAM = "fx1.chain.1.param" as const;
+export const FX1_CHAIN_2_PARAM = "fx1.chain.2.param" as const;
+export const FX2_WET_DRY = "fx2.wetDry" as const;
+export const FX2_CHAIN_0_PARAM = "fx2.chain.0.param" as const;
+export const FX2_CHAIN_1_PARAM = "fx2.chain.1.param" as const;
+export const FX2_CHAIN_2_PARAM = "fx2.chain.2.param" as const;
+
+/** Master limiter controls */
+export const LIMITER_THRESHOLD = "limiter.threshold" as const;
+export const LIMITER_RELEASE = "limiter.release" as const;
+export const LIMITER_CEILING = "limiter.ceiling" as const;
 
 /** Deck controls */
 export const DECK_A_JOG = "deckA.jog" as const;
 export const DECK_B_JOG = "deckB.jog" as const;
 export const DECK_A_TEMPO = "deckA.tempo" as const;
 export const DECK_B_TEMPO = "deckB.tempo" as const;
+export const DECK_C_JOG = "deckC.jog" as const;
+export const DECK_D_JOG = "deckD.jog" as const;
+export const DECK_C_TEMPO = "deckC.tempo" as const;
+export const DECK_D_TEMPO = "deckD.tempo" as const;
 
 // ============================================================================
 // Grouped Constants
@@ -66,13 +94,37 @@ export const ALL_CONTROL_IDS = [
   CHANNEL_B_EQ_MID,
   CHANNEL_B_EQ_HIGH,
   CHANNEL_B_FILTER,
-  FX_WET_DRY,
-  FX_PARAM,
-  HEADPHONE_MIX,
+  CHANNEL_C_FADER,
+  CHANNEL_C_GAIN,
+  CHANNEL_C_EQ_LOW,
+  CHANNEL_C_EQ_MID,
+  CHANNEL_C_EQ_HIGH,
+  CHANNEL_C_FILTER,
+  CHANNEL_D_FADER,
+  CHANNEL_D_GAIN,
+  CHANNEL_D_EQ_LOW,
+  CHANNEL_D_EQ_MID,
+  CHANNEL_D_EQ_HIGH,
+  CHANNEL_D_FILTER,
+  FX1_WET_DRY,
+  FX1_CHAIN_0_PARAM,
+  FX1_CHAIN_1_PARAM,
+  FX1_CHAIN_2_PARAM,
+  FX2_WET_DRY,
+  FX2_CHAIN_0_PARAM,
+  FX2_CHAIN_1_PARAM,
+  FX2_CHAIN_2_PARAM,
+  LIMITER_THRESHOLD,
+  LIMITER_RELEASE,
+  LIMITER_CEILING,
   DECK_A_JOG,
   DECK_B_JOG,
+  DECK_C_JOG,
+  DECK_D_JOG,
   DECK_A_TEMPO,
   DECK_B_TEMPO,
+  DECK_C_TEMPO,
+  DECK_D_TEMPO,
 ] as const;
 
 /** Channel A control IDs */
@@ -95,7 +147,27 @@ export const CHANNEL_B_CONTROLS = [
   CHANNEL_B_FILTER,
 ] as const;
 
-/** EQ control IDs (both channels) */
+/** Channel C control IDs */
+export const CHANNEL_C_CONTROLS = [
+  CHANNEL_C_FADER,
+  CHANNEL_C_GAIN,
+  CHANNEL_C_EQ_LOW,
+  CHANNEL_C_EQ_MID,
+  CHANNEL_C_EQ_HIGH,
+  CHANNEL_C_FILTER,
+] as const;
+
+/** Channel D control IDs */
+export const CHANNEL_D_CONTROLS = [
+  CHANNEL_D_FADER,
+  CHANNEL_D_GAIN,
+  CHANNEL_D_EQ_LOW,
+  CHANNEL_D_EQ_MID,
+  CHANNEL_D_EQ_HIGH,
+  CHANNEL_D_FILTER,
+] as const;
+
+/** EQ control IDs (all channels) */
 export const EQ_CONTROLS = [
   CHANNEL_A_EQ_LOW,
   CHANNEL_A_EQ_MID,
@@ -103,6 +175,12 @@ export const EQ_CONTROLS = [
   CHANNEL_B_EQ_LOW,
   CHANNEL_B_EQ_MID,
   CHANNEL_B_EQ_HIGH,
+  CHANNEL_C_EQ_LOW,
+  CHANNEL_C_EQ_MID,
+  CHANNEL_C_EQ_HIGH,
+  CHANNEL_D_EQ_LOW,
+  CHANNEL_D_EQ_MID,
+  CHANNEL_D_EQ_HIGH,
 ] as const;
 
 /** Continuous controls (faders, knobs - high update frequency) */
@@ -113,12 +191,26 @@ export const CONTINUOUS_CONTROLS = [
   CHANNEL_A_GAIN,
   CHANNEL_B_FADER,
   CHANNEL_B_GAIN,
+  CHANNEL_C_FADER,
+  CHANNEL_C_GAIN,
+  CHANNEL_D_FADER,
+  CHANNEL_D_GAIN,
   ...EQ_CONTROLS,
   CHANNEL_A_FILTER,
   CHANNEL_B_FILTER,
-  FX_WET_DRY,
-  FX_PARAM,
-  HEADPHONE_MIX,
+  CHANNEL_C_FILTER,
+  CHANNEL_D_FILTER,
+  FX1_WET_DRY,
+  FX1_CHAIN_0_PARAM,
+  FX1_CHAIN_1_PARAM,
+  FX1_CHAIN_2_PARAM,
+  FX2_WET_DRY,
+  FX2_CHAIN_0_PARAM,
+  FX2_CHAIN_1_PARAM,
+  FX2_CHAIN_2_PARAM,
+  LIMITER_THRESHOLD,
+  LIMITER_RELEASE,
+  LIMITER_CEILING,
 ] as const;
 
 // ============================================================================
@@ -22,7 +22,30 @@ import {
   TrackIdSchema,
   ControlIdSchema,
   DeckIdSchema,
-  FxTypeSchema,
+  DeckCountSchema,
+  FxUnitIdSchema,
+  FxAssignSchema,
+  FxChainSlotSchema,
+  BeatGridSchema,
+  CamelotKeySchema,
+  TrackLoudnessSchema,
+  QuantizeModeSchema,
+  HotCueIndexSchema,
+  HotCueColorSchema,
+  SavedLoopIndexSchema,
+  SavedLoopSchema,
+  LoopLengthBarsSchema,
+  TrackCuesSchema,
+  BandWaveformSchema,
+  SlipShadowSchema,
+  DeckMotionSchema,
+  AutoDjMixBarsSchema,
+  MIN_DECK_MOTION_MS,
+  MAX_DECK_MOTION_MS,
+  MAX_FX_CHAIN_LENGTH,
+  MemberRoleSchema,
+  MonitorSettingsSchema,
+  RecordingSchema,
   RoomStateSchema,
 } from "./state.js";
 
@@ -117,6 +140,10 @@ export const DeckLoadPayloadSchema = z.object({
   deckId: DeckIdSchema,
   trackId: TrackIdSchema,
   queueItemId: z.string().min(1),
+  /** Cues restored onto the deck (server-provided in mutation events) */
+  cues: TrackCuesSchema.optional(),
+  /** Auto trim set on the deck's channel gain (server-provided, when the loudness is known) */
+  gain: z.number().min(-1).max(1).optional(),
 });
 export type DeckLoadPayload = z.infer<typeof DeckLoadPayloadSchema>;
 
@@ -190,6 +217,12 @@ export const DeckBpmDetectedPayloadSchema = z.object({
   deckId: DeckIdSchema,
   /** Detected BPM from client-side audio analysis */
   bpm: z.number().min(20).max(300),
+  /** Detected key (Camelot notation); key detection runs after BPM detection */
+  key: CamelotKeySchema.nullable().optional(),
+  /** Measured loudness; loudness analysis runs after key detection */
+  loudness: TrackLoudnessSchema.optional(),
+  /** Auto trim set on the deck's channel gain (server-provided, deck not playing yet) */
+  gain: z.number().min(-1).max(1).optional(),
 });
 export type DeckBpmDetectedPayload = z.infer<typeof DeckBpmDetectedPayloadSchema>;
 
@@ -199,14 +232,162 @@ export const DeckBpmDetectedEventSchema = ClientEventMetaSchema.extend({
 });
 export type DeckBpmDetectedEvent = z.infer<typeof DeckBpmDetectedEventSchema>;
 
+// ============================================================================
+// Beat Grid / Sync Events
+// ============================================================================
+
+export const DeckBeatGridSetPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  /** Edited grid; also stored on the loaded queue item */
+  beatGrid: BeatGridSchema,
+});
+export type DeckBeatGridSetPayload = z.infer<typeof DeckBeatGridSetPayloadSchema>;
+
+export const DeckBeatGridSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_BEAT_GRID_SET"),
+  payload: DeckBeatGridSetPayloadSchema,
+});
+export type DeckBeatGridSetEvent = z.infer<typeof DeckBeatGridSetEventSchema>;
+
+export const DeckSyncPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  enabled: z.boolean(),
+  /** Server-computed playback rate after syncing (included in mutation events) */
+  playbackRate: z.number().min(0.5).max(2.0).optional(),
+});
+export type DeckSyncPayload = z.infer<typeof DeckSyncPayloadSchema>;
+
+export const DeckSyncEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_SYNC"),
+  payload: DeckSyncPayloadSchema,
+});
+export type DeckSyncEvent = z.infer<typeof DeckSyncEventSchema>;
+
+export const DeckQuantizeSetPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  quantize: QuantizeModeSchema,
+});
+export type DeckQuantizeSetPayload = z.infer<typeof DeckQuantizeSetPayloadSchema>;
+
+export const DeckQuantizeSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_QUANTIZE_SET"),
+  payload: DeckQuantizeSetPayloadSchema,
+});
+export type DeckQuantizeSetEvent = z.infer<typeof DeckQuantizeSetEventSchema>;
+
+export const DeckKeyLockSetPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  enabled: z.boolean(),
+});
+export type DeckKeyLockSetPayload = z.infer<typeof DeckKeyLockSetPayloadSchema>;
+
+export const DeckKeyLockSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_KEY_LOCK_SET"),
+  payload: DeckKeyLockSetPayloadSchema,
+});
+export type DeckKeyLockSetEvent = z.infer<typeof DeckKeyLockSetEventSchema>;
+
+export const DeckSlipSetPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  enabled: z.boolean(),
+});
+export type DeckSlipSetPayload = z.infer<typeof DeckSlipSetPayloadSchema>;
+
+export const DeckSlipSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_SLIP_SET"),
+  payload: DeckSlipSetPayloadSchema,
+});
+export type DeckSlipSetEvent = z.infer<typeof DeckSlipSetEventSchema>;
+
+/** Start a slip gesture (scratch, censor): the shadow playhead keeps running */
+export const DeckSlipStartPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  /** The running shadow (server-provided in mutation events) */
+  slipShadow: SlipShadowSchema.optional(),
+});
+export type DeckSlipStartPayload = z.infer<typeof DeckSlipStartPayloadSchema>;
+
+export const DeckSlipStartEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_SLIP_START"),
+  payload: DeckSlipStartPayloadSchema,
+});
+export type DeckSlipStartEvent = z.infer<typeof DeckSlipStartEventSchema>;
+
+/** Release a slip gesture: playback resumes from the shadow playhead */
+export const DeckSlipReleasePayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  /** Position playback resumed from (server-provided in mutation events) */
+  positionSec: z.number().nonnegative().optional(),
+});
+export type DeckSlipReleasePayload = z.infer<typeof DeckSlipReleasePayloadSchema>;
+
+export const DeckSlipReleaseEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_SLIP_RELEASE"),
+  payload: DeckSlipReleasePayloadSchema,
+});
+export type DeckSlipReleaseEvent = z.infer<typeof DeckSlipReleaseEventSchema>;
+
+/** Play forwards or backwards (with slip on, turning reverse off slips back) */
+export const DeckReverseSetPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  enabled: z.boolean(),
+  /** Shadow started by reversing in slip mode (server-provided in mutation events) */
+  slipShadow: SlipShadowSchema.optional(),
+  /** Position playback resumed from on a slip release (server-provided in mutation events) */
+  positionSec: z.number().nonnegative().optional(),
+});
+export type DeckReverseSetPayload = z.infer<typeof DeckReverseSetPayloadSchema>;
+
+export const DeckReverseSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_REVERSE_SET"),
+  payload: DeckReverseSetPayloadSchema,
+});
+export type DeckReverseSetEvent = z.infer<typeof DeckReverseSetEventSchema>;
+
+/** Momentary censor: plays backwards while held, then slips back */
+export const DeckCensorPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  active: z.boolean(),
+  /** Shadow started by the censor (server-provided in mutation events) */
+  slipShadow: SlipShadowSchema.optional(),
+  /** Position playback resumed from on release (server-provided in mutation events) */
+  positionSec: z.number().nonnegative().optional(),
+});
+export type DeckCensorPayload = z.infer<typeof DeckCensorPayloadSchema>;
+
+export const DeckCensorEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_CENSOR"),
+  payload: DeckCensorPayloadSchema,
+});
+export type DeckCensorEvent = z.infer<typeof DeckCensorEventSchema>;
+
+/** Brake or spin-back the deck to a stop over durationMs */
+export const DeckBrakePayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  kind: z.enum(["brake", "spinback"]),
+  durationMs: z.number().int().min(MIN_DECK_MOTION_MS).max(MAX_DECK_MOTION_MS),
+  /** The started motion (server-provided in mutation events) */
+  motion: DeckMotionSchema.optional(),
+});
+export type DeckBrakePayload = z.infer<typeof DeckBrakePayloadSchema>;
+
+export const DeckBrakeEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_BRAKE"),
+  payload: DeckBrakePayloadSchema,
+});
+export type DeckBrakeEvent = z.infer<typeof DeckBrakeEventSchema>;
+
 // ============================================================================
 // Hot Cue Events
 // ============================================================================
 
 export const DeckHotCueSetPayloadSchema = z.object({
   deckId: DeckIdSchema,
-  /** Hot cue position in seconds, or null to clear */
-  hotCuePointSec: z.number().nonnegative().nullable(),
+  index: HotCueIndexSchema,
+  /** Hot cue position in seconds */
+  positionSec: z.number().nonnegative(),
+  label: z.string().max(24).nullable().optional(),
+  color: HotCueColorSchema.nullable().optional(),
 });
 export type DeckHotCueSetPayload = z.infer<typeof DeckHotCueSetPayloadSchema>;
 
@@ -216,6 +397,33 @@ export const DeckHotCueSetEventSchema = ClientEventMetaSchema.extend({
 });
 export type DeckHotCueSetEvent = z.infer<typeof DeckHotCueSetEventSchema>;
 
+export const DeckHotCueClearPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  index: HotCueIndexSchema,
+});
+export type DeckHotCueClearPayload = z.infer<typeof DeckHotCueClearPayloadSchema>;
+
+export const DeckHotCueClearEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_HOT_CUE_CLEAR"),
+  payload: DeckHotCueClearPayloadSchema,
+});
+export type DeckHotCueClearEvent = z.infer<typeof DeckHotCueClearEventSchema>;
+
+/** Jump to a hot cue and play from it */
+export const DeckHotCueJumpPayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  index: HotCueIndexSchema,
+  /** Shadow started by the jump in slip mode (server-provided in mutation events) */
+  slipShadow: SlipShadowSchema.optional(),
+});
+export type DeckHotCueJumpPayload = z.infer<typeof DeckHotCueJumpPayloadSchema>;
+
+export const DeckHotCueJumpEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_HOT_CUE_JUMP"),
+  payload: DeckHotCueJumpPayloadSchema,
+});
+export type DeckHotCueJumpEvent = z.infer<typeof DeckHotCueJumpEventSchema>;
+
 // ============================================================================
 // Sampler Events
 // ============================================================================
@@ -255,7 +463,9 @@ export const DeckLoopSetPayloadSchema = z.object({
   enabled: z.boolean(),
   startSec: z.number().nonnegative(),
   endSec: z.number().nonnegative(),
-  lengthBars: z.union([z.literal(1), z.literal(2), z.literal(4), z.literal(8)]),
+  lengthBars: LoopLengthBarsSchema,
+  /** Shadow started by the loop in slip mode (server-provided in mutation events) */
+  slipShadow: SlipShadowSchema.optional(),
 });
 export type DeckLoopSetPayload = z.infer<typeof DeckLoopSetPayloadSchema>;
 
@@ -265,11 +475,40 @@ export const DeckLoopSetEventSchema = ClientEventMetaSchema.extend({
 });
 export type DeckLoopSetEvent = z.infer<typeof DeckLoopSetEventSchema>;
 
+/** Save the deck's active loop into a slot (recalled later with DECK_LOOP_SET) */
+export const DeckLoopSavePayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  index: SavedLoopIndexSchema,
+  /** The saved loop (server-provided in mutation events) */
+  loop: SavedLoopSchema.optional(),
+});
+export type DeckLoopSavePayload = z.infer<typeof DeckLoopSavePayloadSchema>;
+
+export const DeckLoopSaveEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_LOOP_SAVE"),
+  payload: DeckLoopSavePayloadSchema,
+});
+export type DeckLoopSaveEvent = z.infer<typeof DeckLoopSaveEventSchema>;
+
+export const DeckLoopDeletePayloadSchema = z.object({
+  deckId: DeckIdSchema,
+  index: SavedLoopIndexSchema,
+});
+export type DeckLoopDeletePayload = z.infer<typeof DeckLoopDeletePayloadSchema>;
+
+export const DeckLoopDeleteEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("DECK_LOOP_DELETE"),
+  payload: DeckLoopDeletePayloadSchema,
+});
+export type DeckLoopDeleteEvent = z.infer<typeof DeckLoopDeleteEventSchema>;
+
 export const DeckRollStartPayloadSchema = z.object({
   deckId: DeckIdSchema,
   startSec: z.number().nonnegative(),
   lengthBars: z.union([z.literal(1), z.literal(2), z.literal(4), z.literal(8)]),
   returnSec: z.number().nonnegative(),
+  /** Shadow started by the roll in slip mode (server-provided in mutation events) */
+  slipShadow: SlipShadowSchema.optional(),
 });
 export type DeckRollStartPayload = z.infer<typeof DeckRollStartPayloadSchema>;
 
@@ -310,6 +549,8 @@ export const QueueAddPayloadSchema = z.object({
   youtubeVideoId: z.string().optional(),
   /** Thumbnail URL for display */
   thumbnailUrl: z.string().url().optional(),
+  /** Cues saved with the track (server-provided in mutation events) */
+  cues: TrackCuesSchema.optional(),
 });
 export type QueueAddPayload = z.infer<typeof QueueAddPayloadSchema>;
 
@@ -358,14 +599,22 @@ export const QueueEditEventSchema = ClientEventMetaSchema.extend({
 });
 export type QueueEditEvent = z.infer<typeof QueueEditEventSchema>;
 
+/** A queue item finished playing (server-only mutation, sent by Auto-DJ) */
+export const QueueItemPlayedPayloadSchema = z.object({
+  queueItemId: z.string().min(1),
+});
+export type QueueItemPlayedPayload = z.infer<typeof QueueItemPlayedPayloadSchema>;
+
 // ============================================================================
 // FX Events
 // ============================================================================
 
 export const FxSetPayloadSchema = z.object({
-  /** Which FX parameter: "type", "wetDry", "param" */
-  param: z.enum(["type", "wetDry", "param"]),
-  value: z.union([FxTypeSchema, z.number()]),
+  /** Which FX unit to change */
+  unit: FxUnitIdSchema,
+  /** Which FX unit parameter: "wetDry", "assign" (effects live in the chain) */
+  param: z.enum(["wetDry", "assign"]),
+  value: z.union([FxAssignSchema, z.number()]),
 });
 export type FxSetPayload = z.infer<typeof FxSetPayloadSchema>;
 
@@ -376,6 +625,8 @@ export const FxSetEventSchema = ClientEventMetaSchema.extend({
 export type FxSetEvent = z.infer<typeof FxSetEventSchema>;
 
 export const FxTogglePayloadSchema = z.object({
+  /** Which FX unit to toggle */
+  unit: FxUnitIdSchema,
   enabled: z.boolean(),
 });
 export type FxTogglePayload = z.infer<typeof FxTogglePayloadSchema>;
@@ -386,6 +637,55 @@ export const FxToggleEventSchema = ClientEventMetaSchema.extend({
 });
 export type FxToggleEvent = z.infer<typeof FxToggleEventSchema>;
 
+export const FxChainSetPayloadSchema = z.object({
+  /** Which FX unit to change */
+  unit: FxUnitIdSchema,
+  /** Replacement chain, in signal order (empty clears the unit) */
+  chain: z.array(FxChainSlotSchema).max(MAX_FX_CHAIN_LENGTH),
+});
+export type FxChainSetPayload = z.infer<typeof FxChainSetPayloadSchema>;
+
+export const FxChainSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("FX_CHAIN_SET"),
+  payload: FxChainSetPayloadSchema,
+});
+export type FxChainSetEvent = z.infer<typeof FxChainSetEventSchema>;
+
+// ============================================================================
+// Master Limiter Events
+// ============================================================================
+
+/** Put the master limiter in or out of the signal path (settings are MIXER_SET controls) */
+export const LimiterTogglePayloadSchema = z.object({
+  enabled: z.boolean(),
+});
+export type LimiterTogglePayload = z.infer<typeof LimiterTogglePayloadSchema>;
+
+export const LimiterToggleEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("LIMITER_TOGGLE"),
+  payload: LimiterTogglePayloadSchema,
+});
+export type LimiterToggleEvent = z.infer<typeof LimiterToggleEventSchema>;
+
+// ============================================================================
+// Auto-DJ Events
+// ============================================================================
+
+/** Turn Auto-DJ on or off and/or change how many bars it mixes over */
+export const AutoDjSetPayloadSchema = z.object({
+  enabled: z.boolean(),
+  mixBars: AutoDjMixBarsSchema.optional(),
+  /** Member whose control grab turned Auto-DJ off (server-provided in mutation events) */
+  stoppedBy: ClientIdSchema.optional(),
+});
+export type AutoDjSetPayload = z.infer<typeof AutoDjSetPayloadSchema>;
+
+export const AutoDjSetEventSchema = ClientEventMetaSchema.extend({
+  type: z.literal("AUTO_DJ_SET"),
+  payload: AutoDjSetPayloadSchema,
+});
+export type AutoDjSetEvent = z.infer<typeof AutoDjSetEventSchema>;
+
 // ============================================================================
 // Server → Client Events
 // ============================================================================
@@ -405,6 +705,10 @@ export const DeckBeaconPayloadSchema = z.object({
     startSec: z.number().nonnegative(),
     endSec: z.number().nonnegative(),
   }).nullable(),
+  /** Epoch runs backwards */
+  reverse: z.boolean().default(false),
+  /** Brake or spin-back in progress */
+  motion: DeckMotionSchema.nullable().default(null),
 });
 export type DeckBeaconPayload = z.infer<typeof DeckBeaconPayloadSchema>;
 
@@ -417,6 +721,9 @@ export const BeaconTickEventSchema = z.object({
     version: z.number().int().nonnegative(),
     deckA: DeckBeaconPayloadSchema,
     deckB: DeckBeaconPayloadSchema,
+    /** Only present in four-deck rooms */
+    deckC: DeckBeaconPayloadSchema.optional(),
+    deckD: DeckBeaconPayloadSchema.optional(),
   }),
 });
 export type BeaconTickEvent = z.infer<typeof BeaconTickEventSchema>;
@@ -452,6 +759,7 @@ export const MemberJoinedEventSchema = z.object({
     name: z.string(),
     color: z.string(),
     isHost: z.boolean(),
+    role: MemberRoleSchema,
   }),
 });
 export type MemberJoinedEvent = z.infer<typeof MemberJoinedEventSchema>;
@@ -494,7 +802,7 @@ export const TimePingEventSchema = z.object({
 export type TimePingEvent = z.infer<typeof TimePingEventSchema>;
 
 /**
- * Client reports computed BPM and waveform for a YouTube track.
+ * Client reports computed BPM, key and waveform for a YouTube track.
  * Server caches this metadata for future joiners.
  * Standalone event (like TIME_PING) — NOT in ClientMutationEventSchema.
  */
@@ -506,6 +814,10 @@ export const TrackMetadataReportEventSchema = z.object({
   bpm: z.number().min(20).max(300).nullable(),
   /** Waveform data (480 floats, 0-1 normalized) */
   waveform: z.array(z.number()).length(480),
+  /** Detected key (Camelot notation) */
+  key: CamelotKeySchema.nullable().optional(),
+  /** Three-band waveform for the zoomed view (absent for tracks over 20 minutes) */
+  bands: BandWaveformSchema.optional(),
 });
 export type TrackMetadataReportEvent = z.infer<typeof TrackMetadataReportEventSchema>;
 
@@ -521,6 +833,8 @@ export type JoinRoomEvent = z.infer<typeof JoinRoomEventSchema>;
 export const CreateRoomEventSchema = z.object({
   type: z.literal("CREATE_ROOM"),
   name: z.string().min(1).max(32),
+  /** Number of decks (defaults to 2) */
+  deckCount: DeckCountSchema.optional(),
 });
 export type CreateRoomEvent = z.infer<typeof CreateRoomEventSchema>;
 
@@ -572,6 +886,81 @@ export const MemberRenamedEventSchema = z.object({
 });
 export type MemberRenamedEvent = z.infer<typeof MemberRenamedEventSchema>;
 
+// ============================================================================
+// Member Role Events
+// ============================================================================
+
+/** Role change request (client → server, host only) */
+export const MemberRoleSetPayloadSchema = z.object({
+  /** Member whose role is changing */
+  targetClientId: ClientIdSchema,
+  /** New role (host is transferred, never assigned) */
+  role: MemberRoleSchema.exclude(["host"]),
+});
+export type MemberRoleSetPayload = z.infer<typeof MemberRoleSetPayloadSchema>;
+
+export const MemberRoleSetEventSchema = z.object({
+  type: z.literal("MEMBER_ROLE_SET"),
+  roomId: RoomIdSchema,
+  clientId: ClientIdSchema,
+  payload: MemberRoleSetPayloadSchema,
+});
+export type MemberRoleSetEvent = z.infer<typeof MemberRoleSetEventSchema>;
+
+/** Role change broadcast (server → client) */
+export const MemberRoleChangedEventSchema = z.object({
+  type: z.literal("MEMBER_ROLE_CHANGED"),
+  roomId: RoomIdSchema,
+  serverTs: z.number(),
+  payload: z.object({
+    clientId: ClientIdSchema,
+    role: MemberRoleSchema,
+    /** Host who made the change */
+    changedBy: ClientIdSchema,
+  }),
+});
+export type MemberRoleChangedEvent = z.infer<typeof MemberRoleChangedEventSchema>;
+
+// ============================================================================
+// Member Monitor Events
+// ============================================================================
+
+/** Monitor settings change for the sending member (client → server) */
+export const MemberMonitorSetPayloadSchema = MonitorSettingsSchema.partial();
+export type MemberMonitorSetPayload = z.infer<typeof MemberMonitorSetPayloadSchema>;
+
+export const MemberMonitorSetEventSchema = z.object({
+  type: z.literal("MEMBER_MONITOR_SET"),
+  roomId: RoomIdSchema,
+  clientId: ClientIdSchema,
+  payload: MemberMonitorSetPayloadSchema,
+});
+export type MemberMonitorSetEvent = z.infer<typeof MemberMonitorSetEventSchema>;
+
+/** Monitor settings broadcast (server → client) */
+export const MemberMonitorChangedEventSchema = z.object({
+  type: z.literal("MEMBER_MONITOR_CHANGED"),
+  roomId: RoomIdSchema,
+  serverTs: z.number(),
+  payload: z.object({
+    clientId: ClientIdSchema,
+    monitor: MonitorSettingsSchema,
+  }),
+});
+export type MemberMonitorChangedEvent = z.infer<typeof MemberMonitorChangedEventSchema>;
+
+// ============================================================================
+// Recording Events
+// ============================================================================
+
+/** A recording was uploaded to the room (server → client, sent by the HTTP API) */
+export const RecordingAddedEventSchema = z.object({
+  type: z.literal("RECORDING_ADDED"),
+  roomId: RoomIdSchema,
+  payload: RecordingSchema,
+});
+export type RecordingAddedEvent = z.infer<typeof RecordingAddedEventSchema>;
+
 /** Rejoin snapshot response */
 export const RoomRejoinSnapshotEventSchema = z.object({
   type: z.literal("ROOM_REJOIN_SNAPSHOT"),
@@ -600,9 +989,23 @@ export const ClientMutationEventSchema = z.discriminatedUnion("type", [
   DeckSeekEventSchema,
   DeckTempoSetEventSchema,
   DeckBpmDetectedEventSchema,
+  DeckBeatGridSetEventSchema,
+  DeckSyncEventSchema,
+  DeckQuantizeSetEventSchema,
+  DeckKeyLockSetEventSchema,
+  DeckSlipSetEventSchema,
+  DeckSlipStartEventSchema,
+  DeckSlipReleaseEventSchema,
+  DeckReverseSetEventSchema,
+  DeckCensorEventSchema,
+  DeckBrakeEventSchema,
   DeckHotCueSetEventSchema,
+  DeckHotCueClearEventSchema,
+  DeckHotCueJumpEventSchema,
   SamplerPlayEventSchema,
   DeckLoopSetEventSchema,
+  DeckLoopSaveEventSchema,
+  DeckLoopDeleteEventSchema,
   DeckRollStartEventSchema,
   DeckRollStopEventSchema,
   QueueAddEventSchema,
@@ -611,6 +1014,9 @@ export const ClientMutationEventSchema = z.discriminatedUnion("type", [
   QueueEditEventSchema,
   FxSetEventSchema,
   FxToggleEventSchema,
+  FxChainSetEventSchema,
+  LimiterToggleEventSchema,
+  AutoDjSetEventSchema,
 ]);
 export type ClientMutationEvent = z.infer<typeof ClientMutationEventSchema>;
 
@@ -623,6 +1029,8 @@ export const ClientEventSchema = z.union([
   LeaveRoomEventSchema,
   RejoinRoomEventSchema,
   MemberRenameEventSchema,
+  MemberRoleSetEventSchema,
+  MemberMonitorSetEventSchema,
 ]);
 export type ClientEvent = z.infer<typeof ClientEventSchema>;
 
@@ -634,6 +1042,8 @@ export const ServerEventSchema = z.discriminatedUnion("type", [
   MemberJoinedEventSchema,
   MemberLeftEventSchema,
   MemberRenamedEventSchema,
+  MemberRoleChangedEventSchema,
+  MemberMonitorChangedEventSchema,
 ]);
 export type ServerEvent = z.infer<typeof ServerEventSchema>;
 
@@ -652,21 +1062,66 @@ export const ServerMutationEventSchema = z.intersection(
     z.object({ type: z.literal("DECK_SEEK"), payload: DeckSeekPayloadSchema }),
     z.object({ type: z.literal("DECK_TEMPO_SET"), payload: DeckTempoSetPayloadSchema }),
     z.object({ type: z.literal("DECK_BPM_DETECTED"), payload: DeckBpmDetectedPayloadSchema }),
+    z.object({ type: z.literal("DECK_BEAT_GRID_SET"), payload: DeckBeatGridSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_SYNC"), payload: DeckSyncPayloadSchema }),
+    z.object({ type: z.literal("DECK_QUANTIZE_SET"), payload: DeckQuantizeSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_KEY_LOCK_SET"), payload: DeckKeyLockSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_SLIP_SET"), payload: DeckSlipSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_SLIP_START"), payload: DeckSlipStartPayloadSchema }),
+    z.object({ type: z.literal("DECK_SLIP_RELEASE"), payload: DeckSlipReleasePayloadSchema }),
+    z.object({ type: z.literal("DECK_REVERSE_SET"), payload: DeckReverseSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_CENSOR"), payload: DeckCensorPayloadSchema }),
+    z.object({ type: z.literal("DECK_BRAKE"), payload: DeckBrakePayloadSchema }),
     z.object({ type: z.literal("DECK_HOT_CUE_SET"), payload: DeckHotCueSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_HOT_CUE_CLEAR"), payload: DeckHotCueClearPayloadSchema }),
+    z.object({ type: z.literal("DECK_HOT_CUE_JUMP"), payload: DeckHotCueJumpPayloadSchema }),
     z.object({ type: z.literal("SAMPLER_PLAY"), payload: SamplerPlayPayloadSchema }),
     z.object({ type: z.literal("DECK_LOOP_SET"), payload: DeckLoopSetPayloadSchema }),
+    z.object({ type: z.literal("DECK_LOOP_SAVE"), payload: DeckLoopSavePayloadSchema }),
+    z.object({ type: z.literal("DECK_LOOP_DELETE"), payload: DeckLoopDeletePayloadSchema }),
     z.object({ type: z.literal("DECK_ROLL_START"), payload: DeckRollStartPayloadSchema }),
     z.object({ type: z.literal("DECK_ROLL_STOP"), payload: DeckRollStopPayloadSchema }),
     z.object({ type: z.literal("QUEUE_ADD"), payload: QueueAddPayloadSchema }),
     z.object({ type: z.literal("QUEUE_REMOVE"), payload: QueueRemovePayloadSchema }),
     z.object({ type: z.literal("QUEUE_REORDER"), payload: QueueReorderPayloadSchema }),
     z.object({ type: z.literal("QUEUE_EDIT"), payload: QueueEditPayloadSchema }),
+    z.object({ type: z.literal("QUEUE_ITEM_PLAYED"), payload: QueueItemPlayedPayloadSchema }),
     z.object({ type: z.literal("FX_SET"), payload: FxSetPayloadSchema }),
     z.object({ type: z.literal("FX_TOGGLE"), payload: FxTogglePayloadSchema }),
+    z.object({ type: z.literal("FX_CHAIN_SET"), payload: FxChainSetPayloadSchema }),
+    z.object({ type: z.literal("LIMITER_TOGGLE"), payload: LimiterTogglePayloadSchema }),
+    z.object({ type: z.literal("AUTO_DJ_SET"), payload: AutoDjSetPayloadSchema }),
   ])
 );
 export type ServerMutationEvent = z.infer<typeof ServerMutationEventSchema>;
 
+/**
+ * Rejoin delta response: the mutations a reconnecting client missed since its
+ * last known version. Sent instead of ROOM_REJOIN_SNAPSHOT when the server's
+ * event log still covers the gap.
+ */
+export const RoomRejoinDeltaEventSchema = z.object({
+  type: z.literal("ROOM_REJOIN_DELTA"),
+  roomId: RoomIdSchema,
+  serverTs: z.number(),
+  clientId: z.string().min(1),
+  /** Version the client reported (events start after this) */
+  fromVersion: z.number().int().nonnegative(),
+  /** Room version once the events are applied */
+  version: z.number().int().nonnegative(),
+  /** Missed mutation events, oldest first */
+  events: z.array(ServerMutationEventSchema),
+  /** State that changes without a mutation event, shipped whole */
+  liveState: RoomStateSchema.pick({
+    hostId: true,
+    members: true,
+    mixer: true,
+    controlOwners: true,
+    sampler: true,
+  }),
+});
+export type RoomRejoinDeltaEvent = z.infer<typeof RoomRejoinDeltaEventSchema>;
+
 // ============================================================================
 // Event Type Constants
 // ============================================================================
@@ -684,17 +1139,35 @@ export const MUTATION_EVENT_TYPES = [
   "DECK_SEEK",
   "DECK_TEMPO_SET",
   "DECK_BPM_DETECTED",
+  "DECK_BEAT_GRID_SET",
+  "DECK_SYNC",
+  "DECK_QUANTIZE_SET",
+  "DECK_KEY_LOCK_SET",
+  "DECK_SLIP_SET",
+  "DECK_SLIP_START",
+  "DECK_SLIP_RELEASE",
+  "DECK_REVERSE_SET",
+  "DECK_CENSOR",
+  "DECK_BRAKE",
   "DECK_HOT_CUE_SET",
+  "DECK_HOT_CUE_CLEAR",
+  "DECK_HOT_CUE_JUMP",
   "SAMPLER_PLAY",
   "DECK_LOOP_SET",
+  "DECK_LOOP_SAVE",
+  "DECK_LOOP_DELETE",
   "DECK_ROLL_START",
   "DECK_ROLL_STOP",
   "QUEUE_ADD",
   "QUEUE_REMOVE",
   "QUEUE_REORDER",
   "QUEUE_EDIT",
+  "QUEUE_ITEM_PLAYED",
   "FX_SET",
   "FX_TOGGLE",
+  "FX_CHAIN_SET",
+  "LIMITER_TOGGLE",
+  "AUTO_DJ_SET",
 ] as const;
 
 /** Continuous events (high-frequency, last-write-wins) */
@@ -710,9 +1183,23 @@ export const DISCRETE_EVENT_TYPES = [
   "DECK_CUE",
   "DECK_SEEK",
   "DECK_TEMPO_SET",
+  "DECK_BEAT_GRID_SET",
+  "DECK_SYNC",
+  "DECK_QUANTIZE_SET",
+  "DECK_KEY_LOCK_SET",
+  "DECK_SLIP_SET",
+  "DECK_SLIP_START",
+  "DECK_SLIP_RELEASE",
+  "DECK_REVERSE_SET",
+  "DECK_CENSOR",
+  "DECK_BRAKE",
   "DECK_HOT_CUE_SET",
+  "DECK_HOT_CUE_CLEAR",
+  "DECK_HOT_CUE_JUMP",
   "SAMPLER_PLAY",
   "DECK_LOOP_SET",
+  "DECK_LOOP_SAVE",
+  "DECK_LOOP_DELETE",
   "DECK_ROLL_START",
   "DECK_ROLL_STOP",
   "QUEUE_ADD",
@@ -721,4 +1208,7 @@ export const DISCRETE_EVENT_TYPES = [
   "QUEUE_EDIT",
   "FX_SET",
   "FX_TOGGLE",
+  "FX_CHAIN_SET",
+  "LIMITER_TOGGLE",
+  "AUTO_DJ_SET",
 ] as const;
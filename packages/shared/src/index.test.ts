@@ -21,11 +21,45 @@ import {
   DeckPlayEventSchema,
   QueueAddEventSchema,
   ClientMutationEventSchema,
+  MemberRoleSetEventSchema,
+  MemberMonitorSetEventSchema,
   // Validators
   validateClientMutationEvent,
   isValidControlId,
   getControlBounds,
   isValidControlValue,
+  canRoleControl,
+  getDeckIds,
+  getDeckState,
+  getControlDeckId,
+  isControlInRoom,
+  getCrossfaderSide,
+  getFxAssignTargets,
+  getFxChainParamControlId,
+  isValidFxChain,
+  getBeatPhase,
+  snapToBeat,
+  quantizePosition,
+  getSyncPlaybackRate,
+  getPhaseAlignedPlayhead,
+  getCompatibleKeys,
+  isHarmonicMatch,
+  getAutoTrimDb,
+  getAutoTrimGain,
+  getLimiterSettings,
+  createDefaultLimiter,
+  findHarmonicReferenceKey,
+  getDeckPlayheadAt,
+  getSlipShadowPlayheadAt,
+  isDeckMotionDone,
+  getAutoDjMixMs,
+  getDeckRemainingMs,
+  appendTracklist,
+  isDeckAudible,
+  toCueSheet,
+  toM3U,
+  toCsv,
+  type PlayedTrack,
   VALID_CONTROL_IDS,
   // Control IDs
   CROSSFADER,
@@ -57,12 +91,27 @@ describe("@puid-board/shared", () => {
         color: "#FF5500",
         joinedAt: Date.now(),
         isHost: true,
+        role: "host",
         cursor: { x: 100, y: 200, lastUpdated: Date.now() },
         latencyMs: 45,
       };
       expect(MemberSchema.safeParse(member).success).toBe(true);
     });
 
+    it("defaults a Member's monitoring to master only", () => {
+      const member = MemberSchema.parse({
+        clientId: "client-123",
+        name: "DJ Test",
+        color: "#FF5500",
+        joinedAt: Date.now(),
+        isHost: false,
+        role: "dj",
+        cursor: null,
+        latencyMs: 0,
+      });
+      expect(member.monitor).toEqual({ cue: [], headphoneMix: 1.0, splitCue: false });
+    });
+
     it("rejects invalid Member (bad color format)", () => {
       const member = {
         clientId: "client-123",
@@ -70,6 +119,21 @@ describe("@puid-board/shared", () => {
         color: "red", // Should be hex
         joinedAt: Date.now(),
         isHost: true,
+        role: "host",
+        cursor: null,
+        latencyMs: 45,
+      };
+      expect(MemberSchema.safeParse(member).success).toBe(false);
+    });
+
+    it("rejects invalid Member (unknown role)", () => {
+      const member = {
+        clientId: "client-123",
+        name: "DJ Test",
+        color: "#FF5500",
+        joinedAt: Date.now(),
+        isHost: false,
+        role: "admin",
         cursor: null,
         latencyMs: 45,
       };
@@ -114,6 +178,7 @@ describe("@puid-board/shared", () => {
             color: "#FF0000",
             joinedAt: Date.now(),
             isHost: true,
+            role: "host",
             cursor: null,
             latencyMs: 20,
           },
@@ -127,6 +192,29 @@ describe("@puid-board/shared", () => {
       };
       expect(RoomStateSchema.safeParse(room).success).toBe(true);
     });
+
+    it("defaults rooms without a deck count to two decks", () => {
+      const parsed = RoomStateSchema.parse({
+        roomId: "room-123",
+        roomCode: "ABC123",
+        version: 0,
+        createdAt: Date.now(),
+        hostId: "client-123",
+        members: [],
+        queue: [],
+        deckA: createDefaultDeck("A"),
+        deckB: createDefaultDeck("B"),
+        mixer: createDefaultMixer(),
+        controlOwners: {},
+        sampler: createDefaultSampler(),
+      });
+      expect(parsed.deckCount).toBe(2);
+      expect(parsed.deckC).toBeNull();
+      expect(parsed.deckD).toBeNull();
+      expect(parsed.mixer.channelC).toBeNull();
+      // Rooms from before Auto-DJ have it off
+      expect(parsed.autoDj).toEqual({ enabled: false, mixBars: 16 });
+    });
   });
 
   describe("factory functions", () => {
@@ -152,6 +240,17 @@ describe("@puid-board/shared", () => {
       const mixer = createDefaultMixer();
       expect(mixer.crossfader).toBe(0.5);
       expect(mixer.masterVolume).toBe(0.8);
+      expect(mixer.fx1.assign).toBe("A");
+      expect(mixer.fx2.assign).toBe("B");
+      expect(mixer.fx1.chain).toEqual([]);
+      expect(mixer.channelC).toBeNull();
+      expect(mixer.channelD).toBeNull();
+    });
+
+    it("createDefaultMixer adds channels C/D for four decks", () => {
+      const mixer = createDefaultMixer(4);
+      expect(mixer.channelC?.fader).toBe(1);
+      expect(mixer.channelD?.fader).toBe(1);
     });
 
     it("createDefaultDeck returns stopped deck", () => {
@@ -238,20 +337,43 @@ describe("@puid-board/shared", () => {
       expect(ClientMutationEventSchema.safeParse(event).success).toBe(false);
     });
 
-    it("validates FX_SET event with type param", () => {
+    it("validates FX_CHAIN_SET event", () => {
       const event = {
         ...baseMeta,
-        type: "FX_SET",
-        payload: { param: "type", value: "echo" },
+        type: "FX_CHAIN_SET",
+        payload: {
+          unit: "fx1",
+          chain: [
+            { type: "echo", param: 0.5 },
+            { type: "reverb", param: 0.8 },
+          ],
+        },
       };
       expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
     });
 
+    it("rejects FX_CHAIN_SET with more than three processors", () => {
+      const event = {
+        ...baseMeta,
+        type: "FX_CHAIN_SET",
+        payload: {
+          unit: "fx1",
+          chain: [
+            { type: "echo", param: 0.5 },
+            { type: "reverb", param: 0.5 },
+            { type: "filter", param: 0.5 },
+            { type: "echo", param: 0.2 },
+          ],
+        },
+      };
+      expect(ClientMutationEventSchema.safeParse(event).success).toBe(false);
+    });
+
     it("validates FX_SET event with wetDry param", () => {
       const event = {
         ...baseMeta,
         type: "FX_SET",
-        payload: { param: "wetDry", value: 0.5 },
+        payload: { unit: "fx2", param: "wetDry", value: 0.5 },
       };
       expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
     });
@@ -260,7 +382,7 @@ describe("@puid-board/shared", () => {
       const event = {
         ...baseMeta,
         type: "FX_TOGGLE",
-        payload: { enabled: true },
+        payload: { unit: "fx1", enabled: true },
       };
       expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
     });
@@ -269,19 +391,167 @@ describe("@puid-board/shared", () => {
       const event = {
         ...baseMeta,
         type: "FX_SET",
-        payload: { param: "invalid", value: 0.5 },
+        payload: { unit: "fx1", param: "invalid", value: 0.5 },
       };
       expect(ClientMutationEventSchema.safeParse(event).success).toBe(false);
     });
 
-    it("rejects FX_SET with invalid FX type value", () => {
+    it("validates FX_SET event assigning a unit to master", () => {
       const event = {
         ...baseMeta,
         type: "FX_SET",
-        payload: { param: "type", value: "invalid_fx_type" },
+        payload: { unit: "fx2", param: "assign", value: "master" },
+      };
+      expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
+    });
+
+    it("rejects FX events without a unit", () => {
+      const event = {
+        ...baseMeta,
+        type: "FX_TOGGLE",
+        payload: { enabled: true },
       };
       expect(ClientMutationEventSchema.safeParse(event).success).toBe(false);
     });
+
+    it("validates FX_CHAIN_SET with tempo-synced FX types", () => {
+      const event = {
+        ...baseMeta,
+        type: "FX_CHAIN_SET",
+        payload: {
+          unit: "fx2",
+          chain: [
+            { type: "gate", param: 0.4 },
+            { type: "bitcrusher", param: 0.6 },
+            { type: "pingpong", param: 0.5 },
+          ],
+        },
+      };
+      expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
+    });
+
+    it("rejects FX_CHAIN_SET with invalid or empty FX type", () => {
+      for (const type of ["invalid_fx_type", "none"]) {
+        const event = {
+          ...baseMeta,
+          type: "FX_CHAIN_SET",
+          payload: { unit: "fx1", chain: [{ type, param: 0.5 }] },
+        };
+        expect(ClientMutationEventSchema.safeParse(event).success).toBe(false);
+      }
+    });
+
+    it("validates indexed DECK_HOT_CUE_SET events", () => {
+      const event = {
+        ...baseMeta,
+        type: "DECK_HOT_CUE_SET",
+        payload: { deckId: "A", index: 7, positionSec: 32.5, label: "Drop", color: "#00C2FF" },
+      };
+      expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
+      // Only slots 0-7 exist
+      const outOfRange = { ...event, payload: { ...event.payload, index: 8 } };
+      expect(ClientMutationEventSchema.safeParse(outOfRange).success).toBe(false);
+      const badColor = { ...event, payload: { ...event.payload, color: "blue" } };
+      expect(ClientMutationEventSchema.safeParse(badColor).success).toBe(false);
+      // Decks start with eight empty slots
+      expect(createDefaultDeck("A").hotCues).toEqual(Array(8).fill(null));
+    });
+
+    it("validates DECK_LOOP_SAVE events and track cues on DECK_LOAD", () => {
+      const save = {
+        ...baseMeta,
+        type: "DECK_LOOP_SAVE",
+        payload: { deckId: "B", index: 3 },
+      };
+      expect(ClientMutationEventSchema.safeParse(save).success).toBe(true);
+      expect(
+        ClientMutationEventSchema.safeParse({ ...save, payload: { deckId: "B", index: 4 } }).success
+      ).toBe(false);
+
+      const deck = createDefaultDeck("A");
+      const load = {
+        ...baseMeta,
+        type: "DECK_LOAD",
+        payload: {
+          deckId: "A",
+          trackId: "track-1",
+          queueItemId: "q-1",
+          cues: {
+            hotCues: deck.hotCues,
+            savedLoops: [{ startSec: 8, endSec: 16, lengthBars: 4 }, null, null, null],
+            beatGrid: { bpm: 120, firstBeatSec: 0 },
+          },
+        },
+      };
+      expect(ClientMutationEventSchema.safeParse(load).success).toBe(true);
+      expect(deck.savedLoops).toEqual(Array(4).fill(null));
+    });
+
+    it("validates DECK_KEY_LOCK_SET events", () => {
+      const event = {
+        ...baseMeta,
+        type: "DECK_KEY_LOCK_SET",
+        payload: { deckId: "A", enabled: true },
+      };
+      expect(ClientMutationEventSchema.safeParse(event).success).toBe(true);
+      expect(
+        ClientMutationEventSchema.safeParse({ ...event, payload: { deckId: "A" } }).success
+      ).toBe(false);
+      // Decks start with key lock off
+      expect(createDefaultDeck("A").keyLock).toBe(false);
+    });
+
+    it("validates DECK_SLIP_SET, START and RELEASE events", () => {
+      for (const type of ["DECK_SLIP_START", "DECK_SLIP_RELEASE"]) {
+        expect(
+          ClientMutationEventSchema.safeParse({ ...baseMeta, type, payload: { deckId: "B" } }).success
+        ).toBe(true);
+      }
+      const set = { ...baseMeta, type: "DECK_SLIP_SET", payload: { deckId: "A", enabled: true } };
+      expect(ClientMutationEventSchema.safeParse(set).success).toBe(true);
+      expect(
+        ClientMutationEventSchema.safeParse({ ...set, payload: { deckId: "A" } }).success
+      ).toBe(false);
+      // Decks start with slip off and no shadow
+      expect(createDefaultDeck("A").slip).toBe(false);
+      expect(createDefaultDeck("A").slipShadow).toBeNull();
+    });
+
+    it("validates MEMBER_ROLE_SET event", () => {
+      const event = {
+        type: "MEMBER_ROLE_SET",
+        roomId: "room-123",
+        clientId: "client-456",
+        payload: { targetClientId: "client-789", role: "listener" },
+      };
+      expect(MemberRoleSetEventSchema.safeParse(event).success).toBe(true);
+    });
+
+    it("rejects MEMBER_ROLE_SET assigning host", () => {
+      const event = {
+        type: "MEMBER_ROLE_SET",
+        roomId: "room-123",
+        clientId: "client-456",
+        payload: { targetClientId: "client-789", role: "host" },
+      };
+      expect(MemberRoleSetEventSchema.safeParse(event).success).toBe(false);
+    });
+
+    it("validates MEMBER_MONITOR_SET partial updates", () => {
+      const event = {
+        type: "MEMBER_MONITOR_SET",
+        roomId: "room-123",
+        clientId: "client-456",
+        payload: { cue: ["A", "C"], splitCue: true },
+      };
+      expect(MemberMonitorSetEventSchema.safeParse(event).success).toBe(true);
+      expect(
+        MemberMonitorSetEventSchema.safeParse({ ...event, payload: { cue: ["E"] } }).success
+      ).toBe(false);
+      expect(
+        MemberMonitorSetEventSchema.safeParse({ ...event, payload: { headphoneMix: 2 } }).success
+      ).toBe(false);
+    });
   });
 
   describe("validators", () => {
@@ -306,6 +576,384 @@ describe("@puid-board/shared", () => {
       expect(isValidControlValue("channelA.gain", -1.5)).toBe(false);
     });
 
+    it("maps decks and controls to four-deck rooms", () => {
+      const twoDeck = RoomStateSchema.parse({
+        roomId: "room-123",
+        roomCode: "ABC123",
+        version: 0,
+        createdAt: 0,
+        hostId: "client-123",
+        members: [],
+        queue: [],
+        deckA: createDefaultDeck("A"),
+        deckB: createDefaultDeck("B"),
+        mixer: createDefaultMixer(),
+        controlOwners: {},
+        sampler: createDefaultSampler(),
+      });
+      const fourDeck = {
+        ...twoDeck,
+        deckCount: 4 as const,
+        deckC: createDefaultDeck("C"),
+        deckD: createDefaultDeck("D"),
+        mixer: createDefaultMixer(4),
+      };
+
+      expect(getDeckIds(2)).toEqual(["A", "B"]);
+      expect(getDeckIds(4)).toEqual(["A", "B", "C", "D"]);
+      expect(getDeckState(twoDeck, "C")).toBeNull();
+      expect(getDeckState(fourDeck, "C")?.deckId).toBe("C");
+
+      expect(getControlDeckId("channelC.eq.low")).toBe("C");
+      expect(getControlDeckId("deckD.jog")).toBe("D");
+      expect(getControlDeckId("crossfader")).toBeNull();
+      expect(isControlInRoom(twoDeck, "channelC.fader")).toBe(false);
+      expect(isControlInRoom(fourDeck, "channelC.fader")).toBe(true);
+      expect(isControlInRoom(twoDeck, "crossfader")).toBe(true);
+
+      expect(getCrossfaderSide("C")).toBe("A");
+      expect(getCrossfaderSide("D")).toBe("B");
+      expect(getControlBounds("channelD.gain")).toEqual({ min: -1, max: 1 });
+    });
+
+    it("getFxAssignTargets lists the room's decks plus master", () => {
+      expect(getFxAssignTargets(2)).toEqual(["A", "B", "master"]);
+      expect(getFxAssignTargets(4)).toEqual(["A", "B", "C", "D", "master"]);
+      expect(isValidControlId("fx2.wetDry")).toBe(true);
+      expect(isValidControlId("fx.wetDry")).toBe(false);
+    });
+
+    it("isValidFxChain rejects duplicate effect types", () => {
+      expect(isValidFxChain([])).toBe(true);
+      expect(
+        isValidFxChain([
+          { type: "echo", param: 0.5 },
+          { type: "reverb", param: 0.5 },
+        ])
+      ).toBe(true);
+      expect(
+        isValidFxChain([
+          { type: "echo", param: 0.5 },
+          { type: "echo", param: 0.9 },
+        ])
+      ).toBe(false);
+      expect(isValidControlId(getFxChainParamControlId("fx2", 2))).toBe(true);
+      expect(isValidControlId("fx1.chain.3.param")).toBe(false);
+    });
+
+    it("beat grid helpers measure phase and snap to beats", () => {
+      const grid = { bpm: 120, firstBeatSec: 0.2 };
+      expect(getBeatPhase(grid, 0.2)).toBeCloseTo(0);
+      expect(getBeatPhase(grid, 0.45)).toBeCloseTo(0.5);
+      expect(snapToBeat(grid, 1.0)).toBeCloseTo(1.2);
+      // Never snaps before the start of the track
+      expect(snapToBeat(grid, 0)).toBeCloseTo(0.2);
+    });
+
+    it("quantizePosition snaps to the deck's beat or bar resolution", () => {
+      const deck = {
+        ...createDefaultDeck("A"),
+        durationSec: 10,
+        beatGrid: { bpm: 120, firstBeatSec: 0.2 },
+      };
+      // Off (default) or without a grid: unchanged
+      expect(quantizePosition(deck, 1.0)).toBe(1.0);
+      expect(quantizePosition({ ...deck, quantize: "beat", beatGrid: null }, 1.0)).toBe(1.0);
+      // Beat: nearest beat; bar: nearest downbeat (every 2s at 120 BPM)
+      expect(quantizePosition({ ...deck, quantize: "beat" }, 1.0)).toBeCloseTo(1.2);
+      expect(quantizePosition({ ...deck, quantize: "bar" }, 1.0)).toBeCloseTo(0.2);
+      expect(snapToBeat(deck.beatGrid, 1.3, 4)).toBeCloseTo(2.2);
+      // Never snaps past the end of the track
+      expect(quantizePosition({ ...deck, quantize: "bar" }, 9.9)).toBeCloseTo(8.2);
+    });
+
+    it("getSyncPlaybackRate matches the leader's effective tempo", () => {
+      const leader = {
+        ...createDefaultDeck("A"),
+        beatGrid: { bpm: 128, firstBeatSec: 0 },
+        playbackRate: 1.0,
+      };
+      expect(getSyncPlaybackRate(leader, { bpm: 124, firstBeatSec: 0 })).toBeCloseTo(128 / 124);
+      // Half-time tracks sync at double tempo instead of a 2x rate
+      expect(getSyncPlaybackRate(leader, { bpm: 66, firstBeatSec: 0 })).toBeCloseTo(128 / 132);
+    });
+
+    it("getPhaseAlignedPlayhead moves the follower by at most half a beat", () => {
+      const grid = { bpm: 120, firstBeatSec: 0 };
+      // Leader on the beat, follower a quarter beat late → pulled back
+      expect(getPhaseAlignedPlayhead(grid, 10.125, grid, 20.0)).toBeCloseTo(10.0);
+      // Follower a quarter beat early → pushed forward
+      expect(getPhaseAlignedPlayhead(grid, 9.875, grid, 20.0)).toBeCloseTo(10.0);
+    });
+
+    it("auto trim targets the room loudness without boosting peaks past the ceiling", () => {
+      // Loud master: cut down to -14 LUFS
+      expect(getAutoTrimDb({ lufs: -8, truePeakDb: 0.5 })).toBe(-6);
+      // Quiet track with headroom: boosted all the way
+      expect(getAutoTrimDb({ lufs: -20, truePeakDb: -9 })).toBe(6);
+      // Quiet but peaky: the boost stops at -1 dBTP
+      expect(getAutoTrimDb({ lufs: -20, truePeakDb: -3 })).toBe(2);
+      // Already peaking past the ceiling: no boost, never a cut
+      expect(getAutoTrimDb({ lufs: -16, truePeakDb: 0 })).toBe(0);
+      // Limited to the gain knob's ±12 dB
+      expect(getAutoTrimDb({ lufs: -40, truePeakDb: -30 })).toBe(12);
+      expect(getAutoTrimGain({ lufs: -8, truePeakDb: 0.5 })).toBeCloseTo(-0.5);
+      expect(getAutoTrimGain({ lufs: -40, truePeakDb: -30 })).toBe(1);
+    });
+
+    it("limiter settings map knob positions to dB and seconds", () => {
+      const defaults = getLimiterSettings(createDefaultLimiter());
+      expect(defaults.thresholdDb).toBeCloseTo(-3);
+      expect(defaults.releaseSec).toBeCloseTo(0.1);
+      expect(defaults.ceilingDb).toBeCloseTo(-0.3);
+
+      // Release is logarithmic between 10ms and 1s
+      const fastest = getLimiterSettings({ enabled: true, threshold: 0, release: 0, ceiling: 0 });
+      expect(fastest).toEqual({ thresholdDb: -24, releaseSec: 0.01, ceilingDb: -6 });
+      expect(getLimiterSettings({ ...createDefaultLimiter(), release: 1 }).releaseSec).toBeCloseTo(1);
+      expect(VALID_CONTROL_IDS).toContain("limiter.ceiling");
+    });
+
+    it("harmonic helpers follow the Camelot wheel", () => {
+      expect(getCompatibleKeys("8A")).toEqual(["8A", "7A", "9A", "8B"]);
+      // The wheel wraps around between 12 and 1
+      expect(getCompatibleKeys("12B")).toEqual(["12B", "11B", "1B", "12A"]);
+      expect(isHarmonicMatch("1A", "12A")).toBe(true);
+      expect(isHarmonicMatch("8A", "9B")).toBe(false);
+      expect(isHarmonicMatch("8A", null)).toBe(false);
+    });
+
+    it("findHarmonicReferenceKey prefers a playing deck's key", () => {
+      const state = RoomStateSchema.parse({
+        roomId: "room-123",
+        roomCode: "ABC123",
+        version: 0,
+        createdAt: 0,
+        hostId: "client-123",
+        members: [],
+        queue: [],
+        deckCount: 4,
+        deckA: createDefaultDeck("A"),
+        deckB: { ...createDefaultDeck("B"), loadedTrackId: "t1", detectedKey: "5A" },
+        deckC: { ...createDefaultDeck("C"), loadedTrackId: "t2", detectedKey: "9B", playState: "playing" },
+        deckD: createDefaultDeck("D"),
+        mixer: createDefaultMixer(4),
+        controlOwners: {},
+        sampler: createDefaultSampler(),
+      });
+      expect(findHarmonicReferenceKey(state, "A")).toBe("9B");
+      expect(findHarmonicReferenceKey(state, "C")).toBe("5A");
+      expect(findHarmonicReferenceKey(state, null)).toBe("9B");
+    });
+
+    it("getDeckPlayheadAt extrapolates playing decks from their epoch", () => {
+      const deck = {
+        ...createDefaultDeck("A"),
+        playState: "playing" as const,
+        playbackRate: 1.5,
+        durationSec: 300,
+        epochStartPlayheadSec: 10,
+        epochStartTimeMs: 1000,
+      };
+      expect(getDeckPlayheadAt(deck, 3000)).toBeCloseTo(13);
+      expect(getDeckPlayheadAt({ ...deck, playState: "paused", playheadSec: 4 }, 3000)).toBe(4);
+    });
+
+    it("getSlipShadowPlayheadAt runs the shadow at the deck's rate while playing", () => {
+      const deck = {
+        ...createDefaultDeck("A"),
+        playState: "playing" as const,
+        playbackRate: 1.5,
+        durationSec: 30,
+        slipShadow: { startSec: 20, startTimeMs: 1000 },
+      };
+      expect(getSlipShadowPlayheadAt(deck, 3000)).toBeCloseTo(23);
+      // Clamped to the end of the track
+      expect(getSlipShadowPlayheadAt(deck, 20000)).toBe(30);
+      expect(getSlipShadowPlayheadAt({ ...deck, playState: "paused" }, 3000)).toBeNull();
+      expect(getSlipShadowPlayheadAt({ ...deck, slipShadow: null }, 3000)).toBeNull();
+    });
+
+    it("getDeckPlayheadAt runs reversed epochs and brake ramps", () => {
+      const deck = {
+        ...createDefaultDeck("A"),
+        playState: "playing" as const,
+        durationSec: 60,
+        epochStartPlayheadSec: 20,
+        epochStartTimeMs: 1000,
+      };
+      expect(getDeckPlayheadAt({ ...deck, reverse: true }, 3000)).toBeCloseTo(18);
+      // Reversed past the start of the track
+      expect(getDeckPlayheadAt({ ...deck, reverse: true }, 30000)).toBe(0);
+
+      // A 2s brake from 20s covers half the distance of full-speed play, then stops
+      const braking = {
+        ...deck,
+        motion: { kind: "brake" as const, startSec: 20, startTimeMs: 1000, durationMs: 2000 },
+      };
+      expect(getDeckPlayheadAt(braking, 2000)).toBeCloseTo(20.75);
+      expect(getDeckPlayheadAt(braking, 3000)).toBeCloseTo(21);
+      expect(getDeckPlayheadAt(braking, 9000)).toBeCloseTo(21);
+      expect(isDeckMotionDone(braking, 2999)).toBe(false);
+      expect(isDeckMotionDone(braking, 3000)).toBe(true);
+
+      // A spin-back runs backwards at three times the deck's rate
+      const spinning = { ...braking, motion: { ...braking.motion, kind: "spinback" as const } };
+      expect(getDeckPlayheadAt(spinning, 3000)).toBeCloseTo(17);
+    });
+
+    it("times Auto-DJ mixes against the end of the playing track", () => {
+      const deck = {
+        ...createDefaultDeck("A"),
+        playState: "playing" as const,
+        durationSec: 60,
+        epochStartPlayheadSec: 20,
+        epochStartTimeMs: 1000,
+        beatGrid: { bpm: 120, firstBeatSec: 0 },
+      };
+      // 16 bars at 120 BPM is 32s, at 1.25x it is 25.6s; no BPM counts as 120
+      expect(getAutoDjMixMs(deck, 16)).toBeCloseTo(32000);
+      expect(getAutoDjMixMs({ ...deck, playbackRate: 1.25 }, 16)).toBeCloseTo(25600);
+      expect(getAutoDjMixMs({ ...deck, beatGrid: null, detectedBpm: null }, 4)).toBeCloseTo(8000);
+
+      expect(getDeckRemainingMs(deck, 11000)).toBeCloseTo(30000);
+      expect(getDeckRemainingMs({ ...deck, playbackRate: 2 }, 11000)).toBeCloseTo(10000);
+      expect(getDeckRemainingMs(deck, 90000)).toBe(0);
+      // Not heading for the end
+      expect(getDeckRemainingMs({ ...deck, playState: "paused" }, 11000)).toBeNull();
+      expect(getDeckRemainingMs({ ...deck, reverse: true }, 11000)).toBeNull();
+      expect(
+        getDeckRemainingMs({ ...deck, loop: { enabled: true, startSec: 20, endSec: 22, lengthBars: 1 } }, 11000)
+      ).toBeNull();
+    });
+
+    it("appendTracklist lists each newly playing track once", () => {
+      const base = RoomStateSchema.parse({
+        roomId: "room-123",
+        roomCode: "ABC123",
+        version: 0,
+        createdAt: 0,
+        hostId: "client-123",
+        members: [],
+        queue: [
+          {
+            id: "q1",
+            trackId: "t1",
+            title: "Opener",
+            durationSec: 200,
+            url: "https://example.com/t1.mp3",
+            addedBy: "client-123",
+            addedAt: 0,
+            status: "loaded_A",
+          },
+        ],
+        deckA: { ...createDefaultDeck("A"), loadedTrackId: "t1", loadedQueueItemId: "q1", playState: "playing" },
+        deckB: { ...createDefaultDeck("B"), loadedTrackId: "t2", loadedQueueItemId: "q2" },
+        mixer: createDefaultMixer(),
+        controlOwners: {},
+        sampler: createDefaultSampler(),
+      });
+
+      // Already playing when recording starts; B is only loaded
+      const start = appendTracklist([], base, 0);
+      expect(start).toEqual([{ offsetSec: 0, deckId: "A", trackId: "t1", title: "Opener" }]);
+
+      // Same track still playing: nothing new
+      expect(appendTracklist(start, base, 30)).toBe(start);
+
+      // B starts playing a track that has left the queue
+      const mixed = appendTracklist(start, { ...base, deckB: { ...base.deckB, playState: "playing" } }, 95);
+      expect(mixed[1]).toEqual({ offsetSec: 95, deckId: "B", trackId: "t2", title: "Unknown track" });
+    });
+
+    it("isDeckAudible needs a playing track, fader up and the crossfader open", () => {
+      const mixer = createDefaultMixer();
+      const state = RoomStateSchema.parse({
+        roomId: "room-123",
+        roomCode: "ABC123",
+        version: 0,
+        createdAt: 0,
+        hostId: "client-123",
+        members: [],
+        queue: [],
+        deckA: {
+          ...createDefaultDeck("A"),
+          loadedTrackId: "t1",
+          playState: "playing",
+          durationSec: 100,
+          epochStartTimeMs: 0,
+        },
+        deckB: { ...createDefaultDeck("B"), loadedTrackId: "t2", durationSec: 100 },
+        mixer,
+        controlOwners: {},
+        sampler: createDefaultSampler(),
+      });
+
+      expect(isDeckAudible(state, "A", 10_000)).toBe(true);
+      // B is loaded but paused
+      expect(isDeckAudible(state, "B", 10_000)).toBe(false);
+      // Past the end of the track
+      expect(isDeckAudible(state, "A", 100_000)).toBe(false);
+      // Crossfader hard right cuts side A
+      expect(isDeckAudible({ ...state, mixer: { ...mixer, crossfader: 1 } }, "A", 10_000)).toBe(false);
+      // Channel fader down
+      const faderDown = { ...mixer, channelA: { ...mixer.channelA, fader: 0 } };
+      expect(isDeckAudible({ ...state, mixer: faderDown }, "A", 10_000)).toBe(false);
+    });
+
+    it("exports set history as CUE, M3U and CSV", () => {
+      const history: PlayedTrack[] = [
+        {
+          id: "h1",
+          deckId: "A",
+          trackId: "t1",
+          title: "Opener",
+          url: "https://example.com/t1.mp3",
+          playedBy: "client-123",
+          playedByName: "DJ Test",
+          startedAt: 1_000_000,
+          endedAt: 1_200_000,
+          durationSec: 200,
+        },
+        {
+          id: "h2",
+          deckId: "B",
+          trackId: "t2",
+          title: 'Closer, "Live"',
+          url: "https://example.com/t2.mp3",
+          playedBy: "client-456",
+          playedByName: "DJ Two",
+          startedAt: 1_185_500,
+          endedAt: null,
+          durationSec: 64.4,
+        },
+      ];
+
+      const cue = toCueSheet(history, "Room ABC123", "set.mp3");
+      expect(cue).toContain('FILE "set.mp3" MP3');
+      expect(cue).toContain("  TRACK 02 AUDIO");
+      expect(cue).toContain("    TITLE \"Closer, 'Live'\"");
+      expect(cue).toContain("    INDEX 01 03:05:38");
+
+      expect(toM3U(history).split("\n").slice(0, 3)).toEqual([
+        "#EXTM3U",
+        "#EXTINF:200,Opener",
+        "https://example.com/t1.mp3",
+      ]);
+
+      const rows = toCsv(history).trim().split("\r\n");
+      expect(rows).toHaveLength(3);
+      expect(rows[2]).toBe(
+        '2,0:03:06,1970-01-01T00:19:45.500Z,0:01:04,B,"Closer, ""Live""",DJ Two'
+      );
+    });
+
+    it("canRoleControl only blocks listeners", () => {
+      expect(canRoleControl("host")).toBe(true);
+      expect(canRoleControl("dj")).toBe(true);
+      expect(canRoleControl("listener")).toBe(false);
+    });
+
     it("validateClientMutationEvent validates full event", () => {
       const validEvent = {
         roomId: "room-123",
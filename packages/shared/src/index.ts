@@ -35,32 +35,86 @@ export {
   EventIdSchema,
   ControlIdSchema,
   DeckIdSchema,
+  DeckCountSchema,
   PlayStateSchema,
   QueueItemStatusSchema,
   FxTypeSchema,
+  FxUnitIdSchema,
+  FxAssignSchema,
+  FxChainTypeSchema,
+  FxChainSlotSchema,
+  MAX_FX_CHAIN_LENGTH,
   TrackSourceSchema,
+  BeatGridSchema,
+  QuantizeModeSchema,
+  CamelotKeySchema,
+  TrackLoudnessSchema,
+  LOUDNESS_TARGET_LUFS,
+  AUTO_TRIM_PEAK_CEILING_DB,
+  CHANNEL_GAIN_RANGE_DB,
+  HOT_CUE_COUNT,
+  DEFAULT_HOT_CUE_COLORS,
+  HotCueIndexSchema,
+  HotCueColorSchema,
+  HotCueSchema,
+  createEmptyHotCues,
+  SAVED_LOOP_COUNT,
+  SavedLoopIndexSchema,
+  LoopLengthBarsSchema,
+  SavedLoopSchema,
+  createEmptySavedLoops,
+  TrackCuesSchema,
+  BAND_WAVEFORM_RATE,
+  MAX_BAND_WAVEFORM_BUCKETS,
+  BandWaveformSchema,
+  SlipShadowSchema,
+  DeckMotionSchema,
+  MIN_DECK_MOTION_MS,
+  MAX_DECK_MOTION_MS,
+  SPINBACK_SPEED,
+  MAX_RECORDING_TRACKS,
+  RecordingTrackSchema,
+  RecordingTracklistSchema,
+  RecordingSchema,
+  MAX_SET_HISTORY_ENTRIES,
+  PlayedTrackSchema,
   LoadingStageSchema,
   LoadingStateSchema,
   // State schemas
   CursorStateSchema,
+  MemberRoleSchema,
+  MonitorSettingsSchema,
   MemberSchema,
   QueueItemSchema,
   DeckStateSchema,
   EqStateSchema,
   ChannelStateSchema,
   FxStateSchema,
+  FxUnitStateSchema,
+  LimiterStateSchema,
+  LIMITER_THRESHOLD_RANGE_DB,
+  LIMITER_RELEASE_RANGE_MS,
+  LIMITER_CEILING_RANGE_DB,
   MixerStateSchema,
   ControlOwnershipSchema,
   RoomStateSchema,
   SamplerSlotStateSchema,
   SamplerStateSchema,
+  AutoDjMixBarsSchema,
+  DEFAULT_AUTO_DJ_MIX_BARS,
+  AUTO_DJ_CLIENT_ID,
+  AutoDjStateSchema,
   // Factory functions
   createDefaultEq,
   createDefaultChannel,
   createDefaultFx,
+  createDefaultFxUnit,
   createDefaultMixer,
+  createDefaultLimiter,
   createDefaultDeck,
   createDefaultSampler,
+  createDefaultAutoDj,
+  createDefaultMonitor,
 } from "./state.js";
 
 export type {
@@ -70,24 +124,48 @@ export type {
   EventId,
   ControlId,
   DeckId,
+  DeckCount,
   PlayState,
   QueueItemStatus,
   FxType,
+  FxUnitId,
+  FxAssign,
+  FxChainType,
+  FxChainSlot,
   TrackSource,
+  BeatGrid,
+  QuantizeMode,
+  CamelotKey,
+  TrackLoudness,
+  HotCue,
+  SavedLoop,
+  TrackCues,
+  BandWaveform,
+  SlipShadow,
+  DeckMotion,
+  RecordingTrack,
+  Recording,
+  PlayedTrack,
   LoadingStage,
   LoadingState,
   CursorState,
+  MemberRole,
+  MonitorSettings,
   Member,
   QueueItem,
   DeckState,
   EqState,
   ChannelState,
   FxState,
+  FxUnitState,
+  LimiterState,
   MixerState,
   ControlOwnership,
   RoomState,
   SamplerSlotState,
   SamplerState,
+  AutoDjMixBars,
+  AutoDjState,
 } from "./state.js";
 
 // ============================================================================
@@ -124,9 +202,34 @@ export {
   DeckTempoSetEventSchema,
   DeckBpmDetectedPayloadSchema,
   DeckBpmDetectedEventSchema,
+  // Beat grid / sync events
+  DeckBeatGridSetPayloadSchema,
+  DeckBeatGridSetEventSchema,
+  DeckSyncPayloadSchema,
+  DeckSyncEventSchema,
+  DeckQuantizeSetPayloadSchema,
+  DeckQuantizeSetEventSchema,
+  DeckKeyLockSetPayloadSchema,
+  DeckKeyLockSetEventSchema,
+  DeckSlipSetPayloadSchema,
+  DeckSlipSetEventSchema,
+  DeckSlipStartPayloadSchema,
+  DeckSlipStartEventSchema,
+  DeckSlipReleasePayloadSchema,
+  DeckSlipReleaseEventSchema,
+  DeckReverseSetPayloadSchema,
+  DeckReverseSetEventSchema,
+  DeckCensorPayloadSchema,
+  DeckCensorEventSchema,
+  DeckBrakePayloadSchema,
+  DeckBrakeEventSchema,
   // Hot cue events
   DeckHotCueSetPayloadSchema,
   DeckHotCueSetEventSchema,
+  DeckHotCueClearPayloadSchema,
+  DeckHotCueClearEventSchema,
+  DeckHotCueJumpPayloadSchema,
+  DeckHotCueJumpEventSchema,
   // Sampler events
   SamplerPlayPayloadSchema,
   SamplerPlayEventSchema,
@@ -135,6 +238,10 @@ export {
   // Loop / Roll events
   DeckLoopSetPayloadSchema,
   DeckLoopSetEventSchema,
+  DeckLoopSavePayloadSchema,
+  DeckLoopSaveEventSchema,
+  DeckLoopDeletePayloadSchema,
+  DeckLoopDeleteEventSchema,
   DeckRollStartPayloadSchema,
   DeckRollStartEventSchema,
   DeckRollStopPayloadSchema,
@@ -148,11 +255,19 @@ export {
   QueueReorderEventSchema,
   QueueEditPayloadSchema,
   QueueEditEventSchema,
+  QueueItemPlayedPayloadSchema,
   // FX events
   FxSetPayloadSchema,
   FxSetEventSchema,
   FxTogglePayloadSchema,
   FxToggleEventSchema,
+  FxChainSetPayloadSchema,
+  FxChainSetEventSchema,
+  LimiterTogglePayloadSchema,
+  LimiterToggleEventSchema,
+  // Auto-DJ events
+  AutoDjSetPayloadSchema,
+  AutoDjSetEventSchema,
   // Server events
   DeckBeaconPayloadSchema,
   BeaconTickEventSchema,
@@ -173,7 +288,18 @@ export {
   MemberRenamePayloadSchema,
   MemberRenameEventSchema,
   MemberRenamedEventSchema,
+  // Member role events
+  MemberRoleSetPayloadSchema,
+  MemberRoleSetEventSchema,
+  MemberRoleChangedEventSchema,
+  // Member monitor events
+  MemberMonitorSetPayloadSchema,
+  MemberMonitorSetEventSchema,
+  MemberMonitorChangedEventSchema,
+  // Recording events
+  RecordingAddedEventSchema,
   RoomRejoinSnapshotEventSchema,
+  RoomRejoinDeltaEventSchema,
   // Union schemas
   ClientMutationEventSchema,
   ClientEventSchema,
@@ -210,14 +336,42 @@ export type {
   DeckTempoSetEvent,
   DeckBpmDetectedPayload,
   DeckBpmDetectedEvent,
+  DeckBeatGridSetPayload,
+  DeckBeatGridSetEvent,
+  DeckSyncPayload,
+  DeckSyncEvent,
+  DeckQuantizeSetPayload,
+  DeckQuantizeSetEvent,
+  DeckKeyLockSetPayload,
+  DeckKeyLockSetEvent,
+  DeckSlipSetPayload,
+  DeckSlipSetEvent,
+  DeckSlipStartPayload,
+  DeckSlipStartEvent,
+  DeckSlipReleasePayload,
+  DeckSlipReleaseEvent,
+  DeckReverseSetPayload,
+  DeckReverseSetEvent,
+  DeckCensorPayload,
+  DeckCensorEvent,
+  DeckBrakePayload,
+  DeckBrakeEvent,
   DeckHotCueSetPayload,
   DeckHotCueSetEvent,
+  DeckHotCueClearPayload,
+  DeckHotCueClearEvent,
+  DeckHotCueJumpPayload,
+  DeckHotCueJumpEvent,
   SamplerPlayPayload,
   SamplerPlayEvent,
   SamplerSoundChangedPayload,
   SamplerSoundChangedEvent,
   DeckLoopSetPayload,
   DeckLoopSetEvent,
+  DeckLoopSavePayload,
+  DeckLoopSaveEvent,
+  DeckLoopDeletePayload,
+  DeckLoopDeleteEvent,
   DeckRollStartPayload,
   DeckRollStartEvent,
   DeckRollStopPayload,
@@ -230,10 +384,17 @@ export type {
   QueueReorderEvent,
   QueueEditPayload,
   QueueEditEvent,
+  QueueItemPlayedPayload,
   FxSetPayload,
   FxSetEvent,
   FxTogglePayload,
   FxToggleEvent,
+  FxChainSetPayload,
+  FxChainSetEvent,
+  LimiterTogglePayload,
+  LimiterToggleEvent,
+  AutoDjSetPayload,
+  AutoDjSetEvent,
   DeckBeaconPayload,
   BeaconTickEvent,
   RoomSnapshotEvent,
@@ -250,7 +411,15 @@ export type {
   MemberRenamePayload,
   MemberRenameEvent,
   MemberRenamedEvent,
+  MemberRoleSetPayload,
+  MemberRoleSetEvent,
+  MemberRoleChangedEvent,
+  MemberMonitorSetPayload,
+  MemberMonitorSetEvent,
+  MemberMonitorChangedEvent,
+  RecordingAddedEvent,
   RoomRejoinSnapshotEvent,
+  RoomRejoinDeltaEvent,
   ClientMutationEvent,
   ClientEvent,
   ServerEvent,
@@ -266,19 +435,57 @@ export {
   isValidControlId,
   getControlBounds,
   isValidControlValue,
+  getControlDeckId,
+  isControlInRoom,
   validateClientMutationEvent,
   validateClientEvent,
   validateServerEvent,
   validateRoomState,
+  getDeckIds,
+  getDeckState,
+  getChannelState,
+  getCrossfaderSide,
+  getDeckPlayheadAt,
+  getSlipShadowPlayheadAt,
+  getDeckMotionDistance,
+  isDeckMotionDone,
+  getBeatLengthSec,
+  getBeatPhase,
+  snapToBeat,
+  quantizePosition,
+  findSyncLeader,
+  getSyncPlaybackRate,
+  getPhaseAlignedPlayhead,
+  getCompatibleKeys,
+  isHarmonicMatch,
+  findHarmonicReferenceKey,
+  getAutoTrimDb,
+  getAutoTrimGain,
+  getLimiterSettings,
+  applyMonitorUpdate,
+  appendTracklist,
+  isDeckAudible,
+  getAutoDjMixMs,
+  getDeckRemainingMs,
+  toCueSheet,
+  toM3U,
+  toCsv,
+  getFxUnitState,
+  getFxAssignTargets,
+  getFxChainParamControlId,
+  isValidFxChain,
   isValidSeekPosition,
   canPlayDeck,
   queueItemExists,
   isValidReorderIndex,
+  canRoleControl,
+  getMemberRole,
+  canMemberControl,
   isContinuousEvent,
   isDiscreteEvent,
 } from "./validators.js";
 
-export type { ValidControlId, ValidationResult } from "./validators.js";
+export type { ValidControlId, ValidationResult, LimiterSettings } from "./validators.js";
 
 // ============================================================================
 // Control ID Exports
@@ -300,17 +507,43 @@ export {
   CHANNEL_B_EQ_MID,
   CHANNEL_B_EQ_HIGH,
   CHANNEL_B_FILTER,
-  FX_WET_DRY,
-  FX_PARAM,
-  HEADPHONE_MIX,
+  CHANNEL_C_FADER,
+  CHANNEL_C_GAIN,
+  CHANNEL_C_EQ_LOW,
+  CHANNEL_C_EQ_MID,
+  CHANNEL_C_EQ_HIGH,
+  CHANNEL_C_FILTER,
+  CHANNEL_D_FADER,
+  CHANNEL_D_GAIN,
+  CHANNEL_D_EQ_LOW,
+  CHANNEL_D_EQ_MID,
+  CHANNEL_D_EQ_HIGH,
+  CHANNEL_D_FILTER,
+  FX1_WET_DRY,
+  FX1_CHAIN_0_PARAM,
+  FX1_CHAIN_1_PARAM,
+  FX1_CHAIN_2_PARAM,
+  FX2_WET_DRY,
+  FX2_CHAIN_0_PARAM,
+  FX2_CHAIN_1_PARAM,
+  FX2_CHAIN_2_PARAM,
+  LIMITER_THRESHOLD,
+  LIMITER_RELEASE,
+  LIMITER_CEILING,
   DECK_A_JOG,
   DECK_B_JOG,
+  DECK_C_JOG,
+  DECK_D_JOG,
   DECK_A_TEMPO,
   DECK_B_TEMPO,
+  DECK_C_TEMPO,
+  DECK_D_TEMPO,
   // Grouped control IDs
   ALL_CONTROL_IDS,
   CHANNEL_A_CONTROLS,
   CHANNEL_B_CONTROLS,
+  CHANNEL_C_CONTROLS,
+  CHANNEL_D_CONTROLS,
   EQ_CONTROLS,
   CONTINUOUS_CONTROLS,
   // Ownership
@@ -23,10 +23,14 @@ export type TrackId = z.infer<typeof TrackIdSchema>;
 export type EventId = z.infer<typeof EventIdSchema>;
 export type ControlId = z.infer<typeof ControlIdSchema>;
 
-/** Deck identifier - only two decks in MVP */
-export const DeckIdSchema = z.enum(["A", "B"]);
+/** Deck identifier - A/B always exist, C/D only in four-deck rooms */
+export const DeckIdSchema = z.enum(["A", "B", "C", "D"]);
 export type DeckId = z.infer<typeof DeckIdSchema>;
 
+/** Number of decks in a room (chosen at creation) */
+export const DeckCountSchema = z.union([z.literal(2), z.literal(4)]);
+export type DeckCount = z.infer<typeof DeckCountSchema>;
+
 /** Play state for a deck */
 export const PlayStateSchema = z.enum(["stopped", "playing", "paused", "cued"]);
 export type PlayState = z.infer<typeof PlayStateSchema>;
@@ -36,16 +40,42 @@ export const QueueItemStatusSchema = z.enum([
   "queued",
   "loaded_A",
   "loaded_B",
+  "loaded_C",
+  "loaded_D",
   "playing_A",
   "playing_B",
+  "playing_C",
+  "playing_D",
   "played",
 ]);
 export type QueueItemStatus = z.infer<typeof QueueItemStatusSchema>;
 
-/** FX type selector */
-export const FxTypeSchema = z.enum(["echo", "reverb", "filter", "none"]);
+/**
+ * FX type selector.
+ * flanger, phaser, gate and pingpong are tempo-synced: their time parameter is
+ * a beat division of the BPM of the deck the FX unit is assigned to.
+ */
+export const FxTypeSchema = z.enum([
+  "echo",
+  "reverb",
+  "filter",
+  "flanger",
+  "phaser",
+  "bitcrusher",
+  "gate",
+  "pingpong",
+  "none",
+]);
 export type FxType = z.infer<typeof FxTypeSchema>;
 
+/** FX unit identifier (one unit per mixer side) */
+export const FxUnitIdSchema = z.enum(["fx1", "fx2"]);
+export type FxUnitId = z.infer<typeof FxUnitIdSchema>;
+
+/** Where an FX unit is inserted: a deck's channel strip or the master bus */
+export const FxAssignSchema = z.union([DeckIdSchema, z.literal("master")]);
+export type FxAssign = z.infer<typeof FxAssignSchema>;
+
 // ============================================================================
 // Member & Cursor State
 // ============================================================================
@@ -59,6 +89,34 @@ export const CursorStateSchema = z.object({
 });
 export type CursorState = z.infer<typeof CursorStateSchema>;
 
+/**
+ * Member role within a room.
+ * - host: full control, plus assigning roles to other members
+ * - dj: co-DJ, can use decks, mixer, FX, sampler and queue
+ * - listener: read-only, can only move their cursor and rename themselves
+ */
+export const MemberRoleSchema = z.enum(["host", "dj", "listener"]);
+export type MemberRole = z.infer<typeof MemberRoleSchema>;
+
+/**
+ * A member's headphone monitoring. Each member hears their own cue mix, so
+ * these settings live on the member rather than the shared mixer.
+ */
+export const MonitorSettingsSchema = z.object({
+  /** Channels whose CUE (PFL) button is on */
+  cue: z.array(DeckIdSchema).max(4).default([]),
+  /** Headphone cue mix (0 = cue only, 1 = master only); ignored in split cue */
+  headphoneMix: z.number().min(0).max(1).default(1.0),
+  /** Split cue: cue bus in the left ear, master in the right */
+  splitCue: z.boolean().default(false),
+});
+export type MonitorSettings = z.infer<typeof MonitorSettingsSchema>;
+
+/** Create default monitor settings (nothing cued, master only) */
+export function createDefaultMonitor(): MonitorSettings {
+  return { cue: [], headphoneMix: 1.0, splitCue: false };
+}
+
 /** A room member */
 export const MemberSchema = z.object({
   clientId: ClientIdSchema,
@@ -70,13 +128,291 @@ export const MemberSchema = z.object({
   joinedAt: z.number(),
   /** Is this the room host? */
   isHost: z.boolean(),
+  /** Permission role (host / co-DJ / listener) */
+  role: MemberRoleSchema,
   /** Current cursor state (null if not tracking) */
   cursor: CursorStateSchema.nullable(),
   /** Latency estimate in ms */
   latencyMs: z.number().nonnegative(),
+  /** Headphone monitoring (only affects what this member hears) */
+  monitor: MonitorSettingsSchema.default(createDefaultMonitor),
 });
 export type Member = z.infer<typeof MemberSchema>;
 
+// ============================================================================
+// Beat Grid
+// ============================================================================
+
+/**
+ * Beat grid of a track: tempo plus the position of the first downbeat.
+ * Beat n sits at firstBeatSec + n * 60 / bpm (in track time).
+ */
+export const BeatGridSchema = z.object({
+  /** Track tempo at playbackRate 1.0 */
+  bpm: z.number().min(20).max(300),
+  /** Position of the first downbeat in seconds */
+  firstBeatSec: z.number().nonnegative(),
+});
+export type BeatGrid = z.infer<typeof BeatGridSchema>;
+
+/** Quantize resolution for cue, loop, roll and hot cue positions */
+export const QuantizeModeSchema = z.enum(["off", "beat", "bar"]);
+export type QuantizeMode = z.infer<typeof QuantizeModeSchema>;
+
+// ============================================================================
+// Musical Key
+// ============================================================================
+
+/**
+ * Musical key in Camelot notation: wheel position 1-12 plus A (minor) or B (major).
+ * e.g. "8A" = A minor, "8B" = C major.
+ */
+export const CamelotKeySchema = z.string().regex(/^(1[0-2]|[1-9])[AB]$/);
+export type CamelotKey = z.infer<typeof CamelotKeySchema>;
+
+// ============================================================================
+// Loudness
+// ============================================================================
+
+/** Loudness every deck is trimmed to when a track is loaded (LUFS) */
+export const LOUDNESS_TARGET_LUFS = -14;
+
+/** True peak auto trim won't boost a track past (dBTP) */
+export const AUTO_TRIM_PEAK_CEILING_DB = -1;
+
+/** Range of the channel gain knob: -1..1 maps to ±12 dB */
+export const CHANNEL_GAIN_RANGE_DB = 12;
+
+/**
+ * Measured loudness of a track (ITU-R BS.1770): gated integrated loudness
+ * and 4x-oversampled true peak.
+ */
+export const TrackLoudnessSchema = z.object({
+  /** Integrated loudness (LUFS) */
+  lufs: z.number().min(-70).max(10),
+  /** True peak (dBTP) */
+  truePeakDb: z.number().min(-100).max(20),
+});
+export type TrackLoudness = z.infer<typeof TrackLoudnessSchema>;
+
+// ============================================================================
+// Hot Cues
+// ============================================================================
+
+/** Hot cue slots per deck */
+export const HOT_CUE_COUNT = 8;
+
+/** Default color per hot cue slot (for cues without a color of their own) */
+export const DEFAULT_HOT_CUE_COLORS = [
+  "#FF3B3B",
+  "#FF8A00",
+  "#FFD600",
+  "#3BD16F",
+  "#00C2FF",
+  "#3B6BFF",
+  "#A63BFF",
+  "#FF3BC4",
+] as const;
+
+/** Hot cue slot index (0-7) */
+export const HotCueIndexSchema = z.number().int().min(0).max(HOT_CUE_COUNT - 1);
+
+/** Hex color (#RRGGBB) */
+export const HotCueColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+export const HotCueSchema = z.object({
+  /** Cue position in seconds */
+  positionSec: z.number().nonnegative(),
+  /** Optional name shown on the pad and waveform */
+  label: z.string().max(24).nullable().default(null),
+  /** Optional color (null = slot default) */
+  color: HotCueColorSchema.nullable().default(null),
+});
+export type HotCue = z.infer<typeof HotCueSchema>;
+
+/** Empty hot cue slots */
+export function createEmptyHotCues(): (HotCue | null)[] {
+  return Array.from({ length: HOT_CUE_COUNT }, () => null);
+}
+
+// ============================================================================
+// Saved Loops
+// ============================================================================
+
+/** Saved loop slots per deck */
+export const SAVED_LOOP_COUNT = 4;
+
+/** Saved loop slot index (0-3) */
+export const SavedLoopIndexSchema = z.number().int().min(0).max(SAVED_LOOP_COUNT - 1);
+
+/** Loop length in bars */
+export const LoopLengthBarsSchema = z.union([z.literal(1), z.literal(2), z.literal(4), z.literal(8)]);
+
+/** A loop saved with the track, recalled as an active loop */
+export const SavedLoopSchema = z.object({
+  startSec: z.number().nonnegative(),
+  endSec: z.number().nonnegative(),
+  lengthBars: LoopLengthBarsSchema,
+});
+export type SavedLoop = z.infer<typeof SavedLoopSchema>;
+
+/** Empty saved loop slots */
+export function createEmptySavedLoops(): (SavedLoop | null)[] {
+  return Array.from({ length: SAVED_LOOP_COUNT }, () => null);
+}
+
+// ============================================================================
+// Track Cues
+// ============================================================================
+
+/**
+ * Cues stored per track on the server (by upload or YouTube video),
+ * restored whenever the track is queued or loaded again.
+ */
+export const TrackCuesSchema = z.object({
+  hotCues: z.array(HotCueSchema.nullable()).length(HOT_CUE_COUNT),
+  savedLoops: z.array(SavedLoopSchema.nullable()).length(SAVED_LOOP_COUNT),
+  beatGrid: BeatGridSchema.nullable(),
+});
+export type TrackCues = z.infer<typeof TrackCuesSchema>;
+
+// ============================================================================
+// Band Waveform
+// ============================================================================
+
+/** Buckets per second of the zoomable three-band waveform */
+export const BAND_WAVEFORM_RATE = 40;
+
+/** Most buckets per band (20 minutes); longer tracks aren't cached */
+export const MAX_BAND_WAVEFORM_BUCKETS = BAND_WAVEFORM_RATE * 60 * 20;
+
+/** Band energy, 0-255 (quantized to keep cached metadata small) */
+const BandEnergiesSchema = z
+  .array(z.number().int().min(0).max(255))
+  .max(MAX_BAND_WAVEFORM_BUCKETS);
+
+/**
+ * High-resolution waveform split into low/mid/high band energy.
+ * Drives the zoomed scrolling view and the overview colouring; generated
+ * once per track and cached with the track's YouTube metadata.
+ */
+export const BandWaveformSchema = z
+  .object({
+    bucketsPerSecond: z.number().positive(),
+    low: BandEnergiesSchema,
+    mid: BandEnergiesSchema,
+    high: BandEnergiesSchema,
+  })
+  .refine((w) => w.low.length === w.mid.length && w.mid.length === w.high.length, {
+    message: "Bands must have the same length",
+  });
+export type BandWaveform = z.infer<typeof BandWaveformSchema>;
+
+// ============================================================================
+// Slip Mode
+// ============================================================================
+
+/**
+ * Shadow playhead of a deck in slip mode: where the track would be if the
+ * current scratch, loop, roll, hot cue hold or censor hadn't happened.
+ * It runs from startSec at startTimeMs (server time) at the deck's rate.
+ */
+export const SlipShadowSchema = z.object({
+  startSec: z.number().nonnegative(),
+  startTimeMs: z.number(),
+});
+export type SlipShadow = z.infer<typeof SlipShadowSchema>;
+
+// ============================================================================
+// Vinyl Motion (brake / spin-back)
+// ============================================================================
+
+/** Shortest and longest brake/spin-back ramp (ms) */
+export const MIN_DECK_MOTION_MS = 100;
+export const MAX_DECK_MOTION_MS = 10000;
+
+/** A spin-back starts backwards at this multiple of the deck's rate */
+export const SPINBACK_SPEED = 3;
+
+/**
+ * Brake: the platter slows to a stop. Spin-back: it is flung backwards and
+ * slows to a stop. The rate ramps linearly to zero over durationMs from
+ * startSec at startTimeMs (server time); the deck then pauses.
+ */
+export const DeckMotionSchema = z.object({
+  kind: z.enum(["brake", "spinback"]),
+  startSec: z.number().nonnegative(),
+  startTimeMs: z.number(),
+  durationMs: z.number().int().min(MIN_DECK_MOTION_MS).max(MAX_DECK_MOTION_MS),
+});
+export type DeckMotion = z.infer<typeof DeckMotionSchema>;
+
+// ============================================================================
+// Recordings
+// ============================================================================
+
+/** Most tracklist entries kept with a recording */
+export const MAX_RECORDING_TRACKS = 500;
+
+/** A tracklist entry: a track that started playing while recording */
+export const RecordingTrackSchema = z.object({
+  /** Seconds from the start of the recording */
+  offsetSec: z.number().nonnegative(),
+  deckId: DeckIdSchema,
+  trackId: TrackIdSchema,
+  title: z.string(),
+});
+export type RecordingTrack = z.infer<typeof RecordingTrackSchema>;
+
+export const RecordingTracklistSchema = z.array(RecordingTrackSchema).max(MAX_RECORDING_TRACKS);
+
+/** A recording of the master mix, uploaded to a room */
+export const RecordingSchema = z.object({
+  id: z.string().min(1),
+  roomId: RoomIdSchema,
+  /** Who recorded it */
+  recordedBy: ClientIdSchema,
+  /** Recorder's display name at upload time */
+  recordedByName: z.string(),
+  /** Download URL */
+  url: z.string().url(),
+  mimeType: z.string(),
+  durationSec: z.number().nonnegative(),
+  fileSizeBytes: z.number().int().nonnegative(),
+  tracklist: RecordingTracklistSchema,
+  /** Upload time (server timestamp) */
+  createdAt: z.number(),
+});
+export type Recording = z.infer<typeof RecordingSchema>;
+
+// ============================================================================
+// Set History
+// ============================================================================
+
+/** Most played tracks kept per room */
+export const MAX_SET_HISTORY_ENTRIES = 500;
+
+/** A track that was audible on the master, built by the server from deck and mixer state */
+export const PlayedTrackSchema = z.object({
+  id: z.string().min(1),
+  deckId: DeckIdSchema,
+  trackId: TrackIdSchema,
+  title: z.string(),
+  /** Track URL for playlist exports (null if the queue item was gone) */
+  url: z.string().url().nullable(),
+  /** Who pressed play (falls back to whoever loaded the track) */
+  playedBy: ClientIdSchema,
+  /** Their display name when the track became audible */
+  playedByName: z.string(),
+  /** Server timestamp when the track first became audible */
+  startedAt: z.number(),
+  /** Server timestamp when it was last audible (null while it's still on the deck) */
+  endedAt: z.number().nullable(),
+  /** Seconds the track was audible (pauses and faded-out time excluded) */
+  durationSec: z.number().nonnegative(),
+});
+export type PlayedTrack = z.infer<typeof PlayedTrackSchema>;
+
 // ============================================================================
 // Queue State
 // ============================================================================
@@ -131,6 +467,16 @@ export const QueueItemSchema = z.object({
   bpm: z.number().min(20).max(300).nullable().optional(),
   /** Pre-computed waveform data from server cache (480 floats, 0-1 normalized) */
   waveform: z.array(z.number()).optional(),
+  /** Detected musical key (from analysis or server cache) */
+  key: CamelotKeySchema.nullable().optional(),
+  /** Measured loudness (from analysis or server cache), sets the trim on load */
+  loudness: TrackLoudnessSchema.nullable().optional(),
+  /** Beat grid (detected or edited), restored when the item is loaded again */
+  beatGrid: BeatGridSchema.nullable().optional(),
+  /** Hot cues saved with the track, restored when the item is loaded again */
+  hotCues: z.array(HotCueSchema.nullable()).length(HOT_CUE_COUNT).optional(),
+  /** Loops saved with the track, restored when the item is loaded again */
+  savedLoops: z.array(SavedLoopSchema.nullable()).length(SAVED_LOOP_COUNT).optional(),
 });
 export type QueueItem = z.infer<typeof QueueItemSchema>;
 
@@ -165,6 +511,11 @@ export const DeckStateSchema = z.object({
    * This is the original detected BPM - actual BPM = detectedBpm * playbackRate.
    */
   detectedBpm: z.number().min(20).max(300).nullable(),
+  /**
+   * Detected musical key from client-side audio analysis (Camelot notation).
+   * Null if track not loaded or key detection failed/incomplete.
+   */
+  detectedKey: CamelotKeySchema.nullable().default(null),
   /**
    * Epoch ID - changes on any discontinuity (play, seek, tempo, scrub).
    * Used to detect stale sync messages and reset PLL.
@@ -204,10 +555,52 @@ export const DeckStateSchema = z.object({
     returnSec: z.number().nonnegative(),
   }).nullable(),
   /**
-   * Hot cue point position in seconds (null if not set).
+   * Hot cues, one entry per slot (null if the slot is empty).
    * Server-authoritative - synced across all clients.
    */
-  hotCuePointSec: z.number().nullable().default(null),
+  hotCues: z.array(HotCueSchema.nullable()).length(HOT_CUE_COUNT).default(createEmptyHotCues),
+  /**
+   * Saved loop slots (null if the slot is empty), recalled with DECK_LOOP_SET.
+   * Stored with the track along with the hot cues and beat grid.
+   */
+  savedLoops: z.array(SavedLoopSchema.nullable()).length(SAVED_LOOP_COUNT).default(createEmptySavedLoops),
+  /**
+   * Beat grid of the loaded track (null until BPM is known).
+   * Drives loop/jump lengths, waveform grid lines and SYNC.
+   */
+  beatGrid: BeatGridSchema.nullable().default(null),
+  /**
+   * SYNC engaged: the server matches this deck's tempo and beat phase to
+   * another deck on engage and on play, and follows that deck's tempo changes.
+   */
+  syncEnabled: z.boolean().default(false),
+  /**
+   * Quantize: the server snaps cue, loop, roll and hot cue positions to the
+   * nearest beat or bar of the beat grid (no effect without a grid).
+   */
+  quantize: QuantizeModeSchema.default("off"),
+  /**
+   * Key lock (master tempo): tempo changes keep the track's original pitch.
+   * Clients time-stretch locally; playhead and epoch math are unaffected.
+   */
+  keyLock: z.boolean().default(false),
+  /**
+   * Slip mode: playback resumes from the shadow playhead when a scratch,
+   * loop, roll, hot cue hold or censor is released.
+   */
+  slip: z.boolean().default(false),
+  /**
+   * Shadow playhead while a slip gesture is held (null otherwise).
+   * Server-owned: started and released in handlers/deck.ts.
+   */
+  slipShadow: SlipShadowSchema.nullable().default(null),
+  /**
+   * Reverse playback: the epoch runs backwards (playhead decreases).
+   * A censor is a reverse that always slips back when released.
+   */
+  reverse: z.boolean().default(false),
+  /** Brake or spin-back in progress (null otherwise), settled by the beacon timer */
+  motion: DeckMotionSchema.nullable().default(null),
 });
 export type DeckState = z.infer<typeof DeckStateSchema>;
 
@@ -252,9 +645,66 @@ export const FxStateSchema = z.object({
 });
 export type FxState = z.infer<typeof FxStateSchema>;
 
+/** Maximum number of processors in one FX unit's chain */
+export const MAX_FX_CHAIN_LENGTH = 3;
+
+/** Effect types that can sit in a chain slot (an empty chain means no FX) */
+export const FxChainTypeSchema = FxTypeSchema.exclude(["none"]);
+export type FxChainType = z.infer<typeof FxChainTypeSchema>;
+
+/** One processor in an FX unit's chain */
+export const FxChainSlotSchema = z.object({
+  /** Effect type */
+  type: FxChainTypeSchema,
+  /** Effect parameter (meaning depends on type) */
+  param: z.number().min(0).max(1),
+});
+export type FxChainSlot = z.infer<typeof FxChainSlotSchema>;
+
+/** FX unit state: an ordered processor chain plus its insert point */
+export const FxUnitStateSchema = z.object({
+  /** Processors in signal order (first slot hears the dry signal) */
+  chain: z.array(FxChainSlotSchema).max(MAX_FX_CHAIN_LENGTH),
+  /** Wet/dry mix applied by every processor in the chain */
+  wetDry: z.number().min(0).max(1),
+  /** Is the unit enabled? */
+  enabled: z.boolean(),
+  /** Channel (post-fader) or master bus the unit processes */
+  assign: FxAssignSchema,
+});
+export type FxUnitState = z.infer<typeof FxUnitStateSchema>;
+
+/** Limiter threshold range: 0..1 maps to -24..0 dB */
+export const LIMITER_THRESHOLD_RANGE_DB = { min: -24, max: 0 } as const;
+
+/** Limiter release range: 0..1 maps to 10..1000 ms (logarithmic) */
+export const LIMITER_RELEASE_RANGE_MS = { min: 10, max: 1000 } as const;
+
+/** Limiter ceiling range: 0..1 maps to -6..0 dBFS */
+export const LIMITER_CEILING_RANGE_DB = { min: -6, max: 0 } as const;
+
+/**
+ * Master bus limiter, after the master FX return. Knob positions are 0..1;
+ * getLimiterSettings turns them into dB and seconds.
+ */
+export const LimiterStateSchema = z.object({
+  /** Is the limiter in the signal path? (off = bypassed) */
+  enabled: z.boolean(),
+  /** Level gain reduction starts at (0 to 1) */
+  threshold: z.number().min(0).max(1),
+  /** How fast gain recovers once the peak has passed (0 to 1) */
+  release: z.number().min(0).max(1),
+  /** Hard output ceiling nothing passes (0 to 1) */
+  ceiling: z.number().min(0).max(1),
+});
+export type LimiterState = z.infer<typeof LimiterStateSchema>;
+
 /** Full mixer state */
 export const MixerStateSchema = z.object({
-  /** Crossfader position (0 = full A, 1 = full B) */
+  /**
+   * Crossfader position (0 = full A, 1 = full B).
+   * In four-deck rooms channel C sits on the A side and D on the B side.
+   */
   crossfader: z.number().min(0).max(1),
   /** Master volume (0 to 1) */
   masterVolume: z.number().min(0).max(1),
@@ -262,10 +712,16 @@ export const MixerStateSchema = z.object({
   channelA: ChannelStateSchema,
   /** Channel B state */
   channelB: ChannelStateSchema,
-  /** FX slot (MVP: single FX) */
-  fx: FxStateSchema,
-  /** Headphone cue mix (0 = PFL only, 1 = main only) */
-  headphoneMix: z.number().min(0).max(1).default(1.0),
+  /** Channel C state (null in two-deck rooms) */
+  channelC: ChannelStateSchema.nullable().default(null),
+  /** Channel D state (null in two-deck rooms) */
+  channelD: ChannelStateSchema.nullable().default(null),
+  /** FX unit 1 (defaults to deck A) */
+  fx1: FxUnitStateSchema,
+  /** FX unit 2 (defaults to deck B) */
+  fx2: FxUnitStateSchema,
+  /** Master bus limiter */
+  limiter: LimiterStateSchema.default({ enabled: true, threshold: 0.875, release: 0.5, ceiling: 0.95 }),
 });
 export type MixerState = z.infer<typeof MixerStateSchema>;
 
@@ -310,6 +766,30 @@ export const SamplerStateSchema = z.object({
 });
 export type SamplerState = z.infer<typeof SamplerStateSchema>;
 
+// ============================================================================
+// Auto-DJ
+// ============================================================================
+
+/** Bars before the end of the playing track at which Auto-DJ starts the next one */
+export const AutoDjMixBarsSchema = z.union([z.literal(4), z.literal(8), z.literal(16), z.literal(32)]);
+export type AutoDjMixBars = z.infer<typeof AutoDjMixBarsSchema>;
+
+export const DEFAULT_AUTO_DJ_MIX_BARS: AutoDjMixBars = 16;
+
+/** Client ID the server sends Auto-DJ's own deck, mixer and queue mutations as */
+export const AUTO_DJ_CLIENT_ID = "auto-dj";
+
+/**
+ * Room-scoped Auto-DJ. While enabled the server loads the next queued item
+ * onto the idle deck, starts it mixBars before the playing track ends and
+ * crossfades over to it. A member grabbing any control turns it off.
+ */
+export const AutoDjStateSchema = z.object({
+  enabled: z.boolean(),
+  mixBars: AutoDjMixBarsSchema,
+});
+export type AutoDjState = z.infer<typeof AutoDjStateSchema>;
+
 // ============================================================================
 // Room State (Top Level)
 // ============================================================================
@@ -334,6 +814,12 @@ export const RoomStateSchema = z.object({
   deckA: DeckStateSchema,
   /** Deck B state */
   deckB: DeckStateSchema,
+  /** Number of decks in this room */
+  deckCount: DeckCountSchema.default(2),
+  /** Deck C state (null in two-deck rooms) */
+  deckC: DeckStateSchema.nullable().default(null),
+  /** Deck D state (null in two-deck rooms) */
+  deckD: DeckStateSchema.nullable().default(null),
   /** Mixer state */
   mixer: MixerStateSchema,
   /**
@@ -343,6 +829,8 @@ export const RoomStateSchema = z.object({
   controlOwners: z.record(ControlIdSchema, ControlOwnershipSchema),
   /** Room-scoped sampler state */
   sampler: SamplerStateSchema,
+  /** Room-scoped Auto-DJ settings */
+  autoDj: AutoDjStateSchema.default({ enabled: false, mixBars: DEFAULT_AUTO_DJ_MIX_BARS }),
 });
 export type RoomState = z.infer<typeof RoomStateSchema>;
 
@@ -375,18 +863,32 @@ export function createDefaultFx(): FxState {
   };
 }
 
+/** Create default FX unit state (empty chain, inserted on the given target) */
+export function createDefaultFxUnit(assign: FxAssign): FxUnitState {
+  const { wetDry, enabled } = createDefaultFx();
+  return { chain: [], wetDry, enabled, assign };
+}
+
 /** Create default mixer state */
-export function createDefaultMixer(): MixerState {
+export function createDefaultMixer(deckCount: DeckCount = 2): MixerState {
   return {
     crossfader: 0.5,
     masterVolume: 0.8,
     channelA: createDefaultChannel(),
     channelB: createDefaultChannel(),
-    fx: createDefaultFx(),
-    headphoneMix: 1.0,
+    channelC: deckCount === 4 ? createDefaultChannel() : null,
+    channelD: deckCount === 4 ? createDefaultChannel() : null,
+    fx1: createDefaultFxUnit("A"),
+    fx2: createDefaultFxUnit("B"),
+    limiter: createDefaultLimiter(),
   };
 }
 
+/** Create default limiter state (on: -3 dB threshold, ~100 ms release, -0.3 dBFS ceiling) */
+export function createDefaultLimiter(): LimiterState {
+  return { enabled: true, threshold: 0.875, release: 0.5, ceiling: 0.95 };
+}
+
 /** Create default deck state */
 export function createDefaultDeck(deckId: DeckId): DeckState {
   return {
@@ -399,6 +901,7 @@ export function createDefaultDeck(deckId: DeckId): DeckState {
     durationSec: null,
     playbackRate: 1.0,
     detectedBpm: null,
+    detectedKey: null,
     // Epoch tracking fields
     epochId: crypto.randomUUID(),
     epochSeq: 0,
@@ -407,8 +910,18 @@ export function createDefaultDeck(deckId: DeckId): DeckState {
     // Loop/Roll state
     loop: null,
     roll: null,
-    // Hot cue
-    hotCuePointSec: null,
+    // Hot cues
+    hotCues: createEmptyHotCues(),
+    savedLoops: createEmptySavedLoops(),
+    // Beat grid / sync
+    beatGrid: null,
+    syncEnabled: false,
+    quantize: "off",
+    keyLock: false,
+    slip: false,
+    slipShadow: null,
+    reverse: false,
+    motion: null,
   };
 }
 
@@ -425,3 +938,8 @@ export function createDefaultSampler(): SamplerState {
     ],
   };
 }
+
+/** Create default Auto-DJ state (off) */
+export function createDefaultAutoDj(): AutoDjState {
+  return { enabled: false, mixBars: DEFAULT_AUTO_DJ_MIX_BARS };
+}
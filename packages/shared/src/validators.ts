@@ -16,11 +16,38 @@ import {
   type ClientEvent,
   type ServerEvent,
   type MixerSetPayload,
+  type MemberMonitorSetPayload,
 } from "./events.js";
 import {
   RoomStateSchema,
   type RoomState,
   type DeckState,
+  type DeckId,
+  type DeckCount,
+  type MixerState,
+  type ChannelState,
+  type FxUnitId,
+  type FxUnitState,
+  type FxAssign,
+  type FxChainSlot,
+  type BeatGrid,
+  type CamelotKey,
+  type TrackLoudness,
+  type LimiterState,
+  type MemberRole,
+  type MonitorSettings,
+  type RecordingTrack,
+  type PlayedTrack,
+  type DeckMotion,
+  MAX_FX_CHAIN_LENGTH,
+  MAX_RECORDING_TRACKS,
+  LOUDNESS_TARGET_LUFS,
+  AUTO_TRIM_PEAK_CEILING_DB,
+  CHANNEL_GAIN_RANGE_DB,
+  SPINBACK_SPEED,
+  LIMITER_THRESHOLD_RANGE_DB,
+  LIMITER_RELEASE_RANGE_MS,
+  LIMITER_CEILING_RANGE_DB,
 } from "./state.js";
 
 // ============================================================================
@@ -49,17 +76,43 @@ export const VALID_CONTROL_IDS = [
   "channelB.eq.mid",
   "channelB.eq.high",
   "channelB.filter",
-  // FX controls
-  "fx.wetDry",
-  "fx.param",
-  // Headphone/PFL controls
-  "headphoneMix",
+  // Channel C controls (four-deck rooms)
+  "channelC.fader",
+  "channelC.gain",
+  "channelC.eq.low",
+  "channelC.eq.mid",
+  "channelC.eq.high",
+  "channelC.filter",
+  // Channel D controls (four-deck rooms)
+  "channelD.fader",
+  "channelD.gain",
+  "channelD.eq.low",
+  "channelD.eq.mid",
+  "channelD.eq.high",
+  "channelD.filter",
+  // FX unit controls
+  "fx1.wetDry",
+  "fx1.chain.0.param",
+  "fx1.chain.1.param",
+  "fx1.chain.2.param",
+  "fx2.wetDry",
+  "fx2.chain.0.param",
+  "fx2.chain.1.param",
+  "fx2.chain.2.param",
+  // Master limiter controls
+  "limiter.threshold",
+  "limiter.release",
+  "limiter.ceiling",
   // Deck controls (for jog/scratch)
   "deckA.jog",
   "deckB.jog",
+  "deckC.jog",
+  "deckD.jog",
   // Deck tempo controls
   "deckA.tempo",
   "deckB.tempo",
+  "deckC.tempo",
+  "deckD.tempo",
 ] as const;
 
 export type ValidControlId = (typeof VALID_CONTROL_IDS)[number];
@@ -85,12 +138,35 @@ export function getControlBounds(controlId: ValidControlId): { min: number; max:
     case "channelB.eq.low":
     case "channelB.eq.mid":
     case "channelB.eq.high":
+    case "channelC.gain":
+    case "channelD.gain":
+    case "channelC.eq.low":
+    case "channelC.eq.mid":
+    case "channelC.eq.high":
+    case "channelD.eq.low":
+    case "channelD.eq.mid":
+    case "channelD.eq.high":
       return negOneToOne;
     default:
       return zeroToOne;
   }
 }
 
+/**
+ * Get the deck a control belongs to ("channelC.fader" -> "C"),
+ * or null for room-wide controls like the crossfader.
+ */
+export function getControlDeckId(controlId: string): DeckId | null {
+  const match = /^(?:channel|deck)([A-D])\./.exec(controlId);
+  return match ? (match[1] as DeckId) : null;
+}
+
+/** Check a control exists in this room (C/D controls need a four-deck room) */
+export function isControlInRoom(state: RoomState, controlId: string): boolean {
+  const deckId = getControlDeckId(controlId);
+  return deckId === null || getDeckIds(state.deckCount).includes(deckId);
+}
+
 /** Validate a control value is within bounds */
 export function isValidControlValue(controlId: ValidControlId, value: number): boolean {
   const bounds = getControlBounds(controlId);
@@ -178,6 +254,319 @@ export function validateRoomState(state: unknown): ValidationResult<RoomState> {
 // Deck Validation
 // ============================================================================
 
+/** Deck IDs present in a room with the given deck count */
+export function getDeckIds(deckCount: DeckCount): DeckId[] {
+  return deckCount === 4 ? ["A", "B", "C", "D"] : ["A", "B"];
+}
+
+/** Get a deck from room state, or null if the room doesn't have it */
+export function getDeckState(state: RoomState, deckId: DeckId): DeckState | null {
+  switch (deckId) {
+    case "A":
+      return state.deckA;
+    case "B":
+      return state.deckB;
+    case "C":
+      return state.deckC;
+    case "D":
+      return state.deckD;
+  }
+}
+
+/** Get a deck's mixer channel, or null if the room doesn't have it */
+export function getChannelState(mixer: MixerState, deckId: DeckId): ChannelState | null {
+  switch (deckId) {
+    case "A":
+      return mixer.channelA;
+    case "B":
+      return mixer.channelB;
+    case "C":
+      return mixer.channelC;
+    case "D":
+      return mixer.channelD;
+  }
+}
+
+/** Which side of the crossfader a deck is assigned to (C follows A, D follows B) */
+export function getCrossfaderSide(deckId: DeckId): "A" | "B" {
+  return deckId === "A" || deckId === "C" ? "A" : "B";
+}
+
+/**
+ * Current playhead of a deck at a server timestamp.
+ * Playing decks are extrapolated from their epoch; others report playheadSec.
+ */
+export function getDeckPlayheadAt(deck: DeckState, serverTs: number): number {
+  if (deck.playState !== "playing") return deck.playheadSec;
+  let playhead: number;
+  if (deck.motion) {
+    playhead =
+      deck.motion.startSec +
+      getDeckMotionDistance(deck.motion, deck.playbackRate, deck.reverse, serverTs - deck.motion.startTimeMs);
+  } else {
+    const elapsedSec = (serverTs - deck.epochStartTimeMs) / 1000;
+    playhead = deck.epochStartPlayheadSec + elapsedSec * deck.playbackRate * (deck.reverse ? -1 : 1);
+  }
+  return Math.max(0, Math.min(playhead, deck.durationSec ?? playhead));
+}
+
+/**
+ * Signed distance (seconds of track) a brake or spin-back has covered after
+ * elapsedMs. The rate ramps linearly from its start value to zero, so the
+ * distance is v0 * (t - t^2 / 2T), capped at the end of the ramp. A brake
+ * keeps the deck's direction; a spin-back always runs backwards.
+ */
+export function getDeckMotionDistance(
+  motion: DeckMotion,
+  playbackRate: number,
+  reverse: boolean,
+  elapsedMs: number
+): number {
+  const durationSec = motion.durationMs / 1000;
+  const t = Math.max(0, Math.min(elapsedMs / 1000, durationSec));
+  const startRate =
+    motion.kind === "spinback" ? -SPINBACK_SPEED * playbackRate : playbackRate * (reverse ? -1 : 1);
+  return startRate * (t - (t * t) / (2 * durationSec));
+}
+
+/** Whether a deck's brake or spin-back has run its full ramp */
+export function isDeckMotionDone(deck: DeckState, serverTs: number): boolean {
+  return deck.motion !== null && serverTs - deck.motion.startTimeMs >= deck.motion.durationMs;
+}
+
+/**
+ * Shadow playhead of a slipping deck at a server timestamp, or null when no
+ * slip gesture is held. The shadow only runs while the deck is playing.
+ */
+export function getSlipShadowPlayheadAt(deck: DeckState, serverTs: number): number | null {
+  if (!deck.slipShadow || deck.playState !== "playing") return null;
+  const elapsedSec = (serverTs - deck.slipShadow.startTimeMs) / 1000;
+  const playhead = deck.slipShadow.startSec + elapsedSec * deck.playbackRate;
+  return Math.max(0, Math.min(playhead, deck.durationSec ?? playhead));
+}
+
+// ============================================================================
+// Beat Grid
+// ============================================================================
+
+/** Beats per bar (all grids are 4/4) */
+const BEATS_PER_BAR = 4;
+
+/** Length of one beat in track seconds */
+export function getBeatLengthSec(grid: BeatGrid): number {
+  return 60 / grid.bpm;
+}
+
+/** Position within the current beat (0 = on the beat, 0.5 = halfway to the next) */
+export function getBeatPhase(grid: BeatGrid, positionSec: number): number {
+  const beats = (positionSec - grid.firstBeatSec) / getBeatLengthSec(grid);
+  return beats - Math.floor(beats);
+}
+
+/**
+ * Nearest beat to a position (never before the start of the track).
+ * With beats > 1 only every n-th beat counting from the downbeat is a target.
+ */
+export function snapToBeat(grid: BeatGrid, positionSec: number, beats = 1): number {
+  const stepLength = getBeatLengthSec(grid) * beats;
+  let step = Math.round((positionSec - grid.firstBeatSec) / stepLength);
+  while (grid.firstBeatSec + step * stepLength < 0) step++;
+  return grid.firstBeatSec + step * stepLength;
+}
+
+/**
+ * Snap a position to the deck's quantize resolution.
+ * Unchanged when quantize is off or the deck has no beat grid; never past the end.
+ */
+export function quantizePosition(deck: DeckState, positionSec: number): number {
+  if (deck.quantize === "off" || !deck.beatGrid) return positionSec;
+  const beats = deck.quantize === "bar" ? BEATS_PER_BAR : 1;
+  const snapped = snapToBeat(deck.beatGrid, positionSec, beats);
+  if (deck.durationSec !== null && snapped > deck.durationSec) {
+    return Math.max(0, snapped - getBeatLengthSec(deck.beatGrid) * beats);
+  }
+  return snapped;
+}
+
+/**
+ * Pick the deck a SYNC on deckId should follow.
+ * Prefers a playing deck that is not itself synced, then any playing deck,
+ * then any other deck with a beat grid. Null if nothing can lead.
+ */
+export function findSyncLeader(state: RoomState, deckId: DeckId): DeckState | null {
+  const candidates = getDeckIds(state.deckCount)
+    .filter((id) => id !== deckId)
+    .map((id) => getDeckState(state, id))
+    .filter((deck): deck is DeckState => !!deck?.loadedTrackId && !!deck.beatGrid);
+
+  return (
+    candidates.find((deck) => deck.playState === "playing" && !deck.syncEnabled) ??
+    candidates.find((deck) => deck.playState === "playing") ??
+    candidates[0] ??
+    null
+  );
+}
+
+/**
+ * Playback rate that matches a follower's grid to the leader's effective tempo.
+ * Half/double time is used when it lands closer to 1.0 (e.g. 87 → 174 BPM).
+ */
+export function getSyncPlaybackRate(leader: DeckState, followerGrid: BeatGrid): number {
+  if (!leader.beatGrid) return 1.0;
+  const ratio = (leader.beatGrid.bpm * leader.playbackRate) / followerGrid.bpm;
+  const best = [ratio, ratio * 2, ratio / 2].reduce((a, b) =>
+    Math.abs(Math.log(b)) < Math.abs(Math.log(a)) ? b : a
+  );
+  return Math.max(0.5, Math.min(2.0, best));
+}
+
+/**
+ * Follower playhead that lines its beats up with the leader's.
+ * Moves by at most half a beat, in whichever direction is shorter.
+ */
+export function getPhaseAlignedPlayhead(
+  followerGrid: BeatGrid,
+  followerPositionSec: number,
+  leaderGrid: BeatGrid,
+  leaderPositionSec: number
+): number {
+  const leaderPhase = getBeatPhase(leaderGrid, leaderPositionSec);
+  const followerPhase = getBeatPhase(followerGrid, followerPositionSec);
+  let delta = leaderPhase - followerPhase;
+  if (delta >= 0.5) delta -= 1;
+  if (delta < -0.5) delta += 1;
+  return Math.max(0, followerPositionSec + delta * getBeatLengthSec(followerGrid));
+}
+
+// ============================================================================
+// Harmonic Mixing
+// ============================================================================
+
+/**
+ * Keys that mix harmonically with a Camelot key: the key itself, its
+ * neighbours on the wheel (±1, same mode) and its relative major/minor.
+ */
+export function getCompatibleKeys(key: CamelotKey): CamelotKey[] {
+  const number = parseInt(key, 10);
+  const mode = key.endsWith("A") ? "A" : "B";
+  const otherMode = mode === "A" ? "B" : "A";
+  const prev = number === 1 ? 12 : number - 1;
+  const next = number === 12 ? 1 : number + 1;
+  return [key, `${prev}${mode}`, `${next}${mode}`, `${number}${otherMode}`];
+}
+
+/**
+ * Key to mix against, for harmonic hints on deckId (or on the queue when null).
+ * Prefers a playing deck, then any other loaded deck with a detected key.
+ */
+export function findHarmonicReferenceKey(
+  state: RoomState,
+  deckId: DeckId | null
+): CamelotKey | null {
+  const candidates = getDeckIds(state.deckCount)
+    .filter((id) => id !== deckId)
+    .map((id) => getDeckState(state, id))
+    .filter((deck): deck is DeckState => !!deck?.loadedTrackId && !!deck.detectedKey);
+
+  const reference =
+    candidates.find((deck) => deck.playState === "playing") ?? candidates[0] ?? null;
+  return reference?.detectedKey ?? null;
+}
+
+/** Whether two keys mix harmonically (false if either is unknown) */
+export function isHarmonicMatch(
+  a: CamelotKey | null | undefined,
+  b: CamelotKey | null | undefined
+): boolean {
+  if (!a || !b) return false;
+  return getCompatibleKeys(a).includes(b);
+}
+
+// ============================================================================
+// Loudness
+// ============================================================================
+
+/**
+ * Trim (dB) that brings a track to the target loudness. Boosts stop where
+ * the true peak would pass the ceiling; the result stays within the gain
+ * knob's range.
+ */
+export function getAutoTrimDb(
+  loudness: TrackLoudness,
+  targetLufs: number = LOUDNESS_TARGET_LUFS
+): number {
+  let trimDb = targetLufs - loudness.lufs;
+  if (trimDb > 0) {
+    trimDb = Math.min(trimDb, Math.max(0, AUTO_TRIM_PEAK_CEILING_DB - loudness.truePeakDb));
+  }
+  return Math.max(-CHANNEL_GAIN_RANGE_DB, Math.min(CHANNEL_GAIN_RANGE_DB, trimDb));
+}
+
+/**
+ * Channel gain knob position (-1 to 1) for a track's auto trim, rounded to
+ * 0.1 dB.
+ */
+export function getAutoTrimGain(loudness: TrackLoudness): number {
+  const trimDb = Math.round(getAutoTrimDb(loudness) * 10) / 10;
+  return trimDb / CHANNEL_GAIN_RANGE_DB;
+}
+
+// ============================================================================
+// Master Limiter
+// ============================================================================
+
+/** Limiter settings in audio units */
+export interface LimiterSettings {
+  /** Level gain reduction starts at (dB) */
+  thresholdDb: number;
+  /** Release time (seconds) */
+  releaseSec: number;
+  /** Output ceiling (dBFS) */
+  ceilingDb: number;
+}
+
+/**
+ * Turn the limiter's knob positions into dB and seconds. Release is
+ * logarithmic so the short end of the knob gets most of its travel.
+ */
+export function getLimiterSettings(limiter: LimiterState): LimiterSettings {
+  const { min: thresholdMin, max: thresholdMax } = LIMITER_THRESHOLD_RANGE_DB;
+  const { min: releaseMin, max: releaseMax } = LIMITER_RELEASE_RANGE_MS;
+  const { min: ceilingMin, max: ceilingMax } = LIMITER_CEILING_RANGE_DB;
+  const releaseMs = releaseMin * Math.pow(releaseMax / releaseMin, limiter.release);
+  return {
+    thresholdDb: thresholdMin + (thresholdMax - thresholdMin) * limiter.threshold,
+    releaseSec: releaseMs / 1000,
+    ceilingDb: ceilingMin + (ceilingMax - ceilingMin) * limiter.ceiling,
+  };
+}
+
+// ============================================================================
+// FX Unit Validation
+// ============================================================================
+
+/** Get an FX unit's state from the mixer */
+export function getFxUnitState(mixer: MixerState, unitId: FxUnitId): FxUnitState {
+  return unitId === "fx1" ? mixer.fx1 : mixer.fx2;
+}
+
+/** Targets an FX unit can be assigned to in a room: its decks plus master */
+export function getFxAssignTargets(deckCount: DeckCount): FxAssign[] {
+  return [...getDeckIds(deckCount), "master"];
+}
+
+/** Control ID of a chain slot's param knob ("fx1", 2 -> "fx1.chain.2.param") */
+export function getFxChainParamControlId(unitId: FxUnitId, index: number): string {
+  return `${unitId}.chain.${index}.param`;
+}
+
+/** Validate an FX chain: at most MAX_FX_CHAIN_LENGTH slots, each effect type at most once */
+export function isValidFxChain(chain: FxChainSlot[]): boolean {
+  if (chain.length > MAX_FX_CHAIN_LENGTH) return false;
+  const types = new Set(chain.map((slot) => slot.type));
+  return types.size === chain.length;
+}
+
 /** Validate a seek position is within track bounds */
 export function isValidSeekPosition(deck: DeckState, positionSec: number): boolean {
   if (deck.durationSec === null) return false;
@@ -203,6 +592,217 @@ export function isValidReorderIndex(state: RoomState, index: number): boolean {
   return index >= 0 && index <= state.queue.length;
 }
 
+// ============================================================================
+// Role Validation
+// ============================================================================
+
+/** Check if a role is allowed to mutate decks, mixer, FX, sampler and queue */
+export function canRoleControl(role: MemberRole): boolean {
+  return role !== "listener";
+}
+
+/** Get a member's role, or null if they are not in the room */
+export function getMemberRole(state: RoomState, clientId: string): MemberRole | null {
+  const member = state.members.find((m) => m.clientId === clientId);
+  return member ? member.role : null;
+}
+
+/** Check if a member can use the board (false for listeners and non-members) */
+export function canMemberControl(state: RoomState, clientId: string): boolean {
+  const role = getMemberRole(state, clientId);
+  return role !== null && canRoleControl(role);
+}
+
+// ============================================================================
+// Monitoring
+// ============================================================================
+
+/**
+ * Merge a MEMBER_MONITOR_SET update into a member's monitor settings.
+ * Fields missing from the update are kept; cued channels are de-duplicated.
+ */
+export function applyMonitorUpdate(
+  monitor: MonitorSettings,
+  update: MemberMonitorSetPayload
+): MonitorSettings {
+  return {
+    cue: update.cue ? [...new Set(update.cue)] : monitor.cue,
+    headphoneMix: update.headphoneMix ?? monitor.headphoneMix,
+    splitCue: update.splitCue ?? monitor.splitCue,
+  };
+}
+
+// ============================================================================
+// Recordings
+// ============================================================================
+
+/**
+ * Add tracklist entries for decks that started playing a new track.
+ * Call on every state change while recording (and once at the start, so
+ * decks that are already playing are listed at offset 0). A deck that pauses
+ * and resumes the same track does not add a second entry.
+ */
+export function appendTracklist(
+  tracklist: RecordingTrack[],
+  state: RoomState,
+  offsetSec: number
+): RecordingTrack[] {
+  let result = tracklist;
+  for (const deckId of getDeckIds(state.deckCount)) {
+    const deck = getDeckState(state, deckId);
+    if (!deck?.loadedTrackId || deck.playState !== "playing") continue;
+
+    const last = [...result].reverse().find((entry) => entry.deckId === deckId);
+    if (last?.trackId === deck.loadedTrackId) continue;
+    if (result.length >= MAX_RECORDING_TRACKS) break;
+
+    const item = state.queue.find((q) => q.id === deck.loadedQueueItemId);
+    result = [
+      ...result,
+      {
+        offsetSec: Math.max(0, offsetSec),
+        deckId,
+        trackId: deck.loadedTrackId,
+        title: item?.title ?? "Unknown track",
+      },
+    ];
+  }
+  return result;
+}
+
+// ============================================================================
+// Set History
+// ============================================================================
+
+/**
+ * Whether a deck is heard on the master at a server timestamp: playing a
+ * loaded track that hasn't run out, with its channel fader up and the
+ * crossfader not cutting its side.
+ */
+export function isDeckAudible(state: RoomState, deckId: DeckId, serverTs: number): boolean {
+  const deck = getDeckState(state, deckId);
+  if (!deck?.loadedTrackId || deck.playState !== "playing") return false;
+
+  // Loops and rolls keep a deck playing past the end of its epoch
+  const isLooping = deck.loop?.enabled || deck.roll?.active;
+  if (!isLooping && deck.durationSec !== null && getDeckPlayheadAt(deck, serverTs) >= deck.durationSec) {
+    return false;
+  }
+
+  const channel = getChannelState(state.mixer, deckId);
+  if (!channel || channel.fader <= 0 || state.mixer.masterVolume <= 0) return false;
+
+  const crossfader = state.mixer.crossfader;
+  return getCrossfaderSide(deckId) === "A" ? crossfader < 1 : crossfader > 0;
+}
+
+/** Format seconds as CUE sheet MM:SS:FF (75 frames per second) */
+function formatCueTime(sec: number): string {
+  const totalFrames = Math.max(0, Math.round(sec * 75));
+  const frames = totalFrames % 75;
+  const secs = Math.floor(totalFrames / 75) % 60;
+  const mins = Math.floor(totalFrames / 75 / 60);
+  return [mins, secs, frames].map((n) => n.toString().padStart(2, "0")).join(":");
+}
+
+/** Format seconds as H:MM:SS */
+function formatClockTime(sec: number): string {
+  const total = Math.max(0, Math.round(sec));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${hours}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+/** CUE sheet strings can't contain double quotes */
+function cueString(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+/** Quote a CSV field when needed */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CUE sheet for a set, with track indexes relative to the first track.
+ * `fileName` is the mix file the sheet describes.
+ */
+export function toCueSheet(history: PlayedTrack[], title: string, fileName: string): string {
+  const setStart = history[0]?.startedAt ?? 0;
+  const lines = [`TITLE ${cueString(title)}`, `FILE ${cueString(fileName)} MP3`];
+  history.forEach((track, i) => {
+    lines.push(
+      `  TRACK ${(i + 1).toString().padStart(2, "0")} AUDIO`,
+      `    TITLE ${cueString(track.title)}`,
+      `    PERFORMER ${cueString(track.playedByName)}`,
+      `    INDEX 01 ${formatCueTime((track.startedAt - setStart) / 1000)}`
+    );
+  });
+  return lines.join("\n") + "\n";
+}
+
+/** Extended M3U playlist of a set (tracks without a URL are left out) */
+export function toM3U(history: PlayedTrack[]): string {
+  const lines = ["#EXTM3U"];
+  for (const track of history) {
+    if (!track.url) continue;
+    lines.push(`#EXTINF:${Math.round(track.durationSec)},${track.title.replace(/[\r\n]/g, " ")}`, track.url);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** CSV tracklist of a set: start offset, clock time, audible time, deck, title, DJ */
+export function toCsv(history: PlayedTrack[]): string {
+  const setStart = history[0]?.startedAt ?? 0;
+  const rows = [["#", "Start", "Started At", "Duration", "Deck", "Title", "Played By"].join(",")];
+  history.forEach((track, i) => {
+    rows.push(
+      [
+        i + 1,
+        formatClockTime((track.startedAt - setStart) / 1000),
+        new Date(track.startedAt).toISOString(),
+        formatClockTime(track.durationSec),
+        track.deckId,
+        track.title,
+        track.playedByName,
+      ]
+        .map(csvField)
+        .join(",")
+    );
+  });
+  return rows.join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// Auto-DJ
+// ============================================================================
+
+/** Tempo assumed when timing a mix out of a track with no BPM */
+const AUTO_DJ_FALLBACK_BPM = 120;
+
+/**
+ * Wall-clock length of an Auto-DJ mix out of a deck: mixBars bars at the
+ * deck's effective tempo.
+ */
+export function getAutoDjMixMs(deck: DeckState, mixBars: number): number {
+  const bpm = deck.beatGrid?.bpm ?? deck.detectedBpm ?? AUTO_DJ_FALLBACK_BPM;
+  return ((mixBars * BEATS_PER_BAR * 60) / (bpm * deck.playbackRate)) * 1000;
+}
+
+/**
+ * Wall-clock time until a playing deck runs off the end of its track.
+ * Null when the deck isn't heading for the end: stopped, reversed, braking,
+ * looping or rolling.
+ */
+export function getDeckRemainingMs(deck: DeckState, serverTs: number): number | null {
+  if (deck.playState !== "playing" || deck.durationSec === null) return null;
+  if (deck.reverse || deck.motion || deck.loop?.enabled || deck.roll?.active) return null;
+  const remainingSec = deck.durationSec - getDeckPlayheadAt(deck, serverTs);
+  return Math.max(0, (remainingSec / deck.playbackRate) * 1000);
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================